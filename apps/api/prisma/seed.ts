@@ -361,7 +361,7 @@ async function main() {
       eventId: techConference.id,
       tierId: generalTier.id,
       buyerId: buyerUser.id,
-      monnifyTransactionRef: 'MNF_SEED_001',
+      providerTransactionRef: 'MNF_SEED_001',
       paidAt: new Date(),
     },
   });
@@ -396,7 +396,7 @@ async function main() {
       eventId: techConference.id,
       tierId: generalTier.id,
       buyerId: buyerUser2.id,
-      monnifyTransactionRef: 'MNF_SEED_002',
+      providerTransactionRef: 'MNF_SEED_002',
       paidAt: new Date(),
     },
   });
@@ -476,4 +476,4 @@ main()
   })
   .finally(async () => {
     await prisma.$disconnect();
-  });
\ No newline at end of file
+  });
\ No newline at end of file
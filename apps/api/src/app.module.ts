@@ -13,6 +13,7 @@ import databaseConfig from './config/database.config';
 import jwtConfig from './config/jwt.config';
 import emailConfig from './config/email.config';
 import monnifyConfig from './config/monnify.config';
+import paystackConfig from './config/paystack.config';
 import cloudinaryConfig from './config/cloudinary.config';
 import googleConfig from './config/google.config';
 
@@ -39,6 +40,15 @@ import { AdminModule } from './modules/admin/admin.module';
 import { TasksModule } from './modules/tasks/tasks.module';
 import { ReconciliationModule } from './modules/reconciliation/reconciliation.module';
 import { AgentsModule } from './modules/agents/agents.module';
+import { PromoCodesModule } from './modules/promo-codes/promo-codes.module';
+import { WaitlistModule } from './modules/waitlist/waitlist.module';
+import { AccessCodesModule } from './modules/access-codes/access-codes.module';
+import { GuestListModule } from './modules/guest-list/guest-list.module';
+import { TransfersModule } from './modules/transfers/transfers.module';
+import { ResaleModule } from './modules/resale/resale.module';
+import { ScanEventsModule } from './modules/scan-events/scan-events.module';
+import { SessionsModule } from './modules/sessions/sessions.module';
+import { DisputesModule } from './modules/disputes/disputes.module';
 
 @Module({
   imports: [
@@ -51,6 +61,7 @@ import { AgentsModule } from './modules/agents/agents.module';
         jwtConfig,
         emailConfig,
         monnifyConfig,
+        paystackConfig,
         cloudinaryConfig,
         googleConfig,
       ],
@@ -89,6 +100,15 @@ import { AgentsModule } from './modules/agents/agents.module';
     TasksModule,
     ReconciliationModule,
     AgentsModule,
+    PromoCodesModule,
+    WaitlistModule,
+    AccessCodesModule,
+    GuestListModule,
+    TransfersModule,
+    ResaleModule,
+    ScanEventsModule,
+    SessionsModule,
+    DisputesModule,
   ],
   providers: [
     // Global Rate Limiting Guard
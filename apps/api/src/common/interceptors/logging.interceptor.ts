@@ -1,4 +1,5 @@
 import { Injectable, NestInterceptor, ExecutionContext, CallHandler, Logger } from '@nestjs/common';
+import { SSE_METADATA } from '@nestjs/common/constants';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
 
@@ -12,6 +13,12 @@ export class LoggingInterceptor implements NestInterceptor {
     const userAgent = request.get('user-agent') || '';
     const now = Date.now();
 
+    // Log a server-sent event stream once when it opens, not for every message
+    if (Reflect.getMetadata(SSE_METADATA, context.getHandler())) {
+      this.logger.log(`${method} ${url} stream opened - ${ip} - ${userAgent}`);
+      return next.handle();
+    }
+
     return next.handle().pipe(
       tap({
         next: () => {
@@ -33,4 +40,4 @@ export class LoggingInterceptor implements NestInterceptor {
       }),
     );
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -23,6 +23,7 @@ export enum TicketStatus {
   CANCELLED = 'CANCELLED',
   REFUNDED = 'REFUNDED',
   EXPIRED = 'EXPIRED',
+  FROZEN = 'FROZEN',
 }
 
 export enum PaymentStatus {
@@ -36,7 +37,15 @@ export enum RefundStatus {
   PENDING = 'PENDING',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
+  PROCESSING = 'PROCESSING',
   PROCESSED = 'PROCESSED',
+  FAILED = 'FAILED',
+}
+
+export enum DisputeStatus {
+  OPEN = 'OPEN',
+  WON = 'WON',
+  LOST = 'LOST',
 }
 
 export enum WithdrawalStatus {
@@ -52,4 +61,75 @@ export enum LedgerType {
   WITHDRAWAL = 'WITHDRAWAL',
   CHARGEBACK = 'CHARGEBACK',
   ADJUSTMENT = 'ADJUSTMENT',
+  COMP = 'COMP',
+  RESALE_ROYALTY = 'RESALE_ROYALTY',
+  RESALE_FEE = 'RESALE_FEE',
+  CHARGEBACK_FEE = 'CHARGEBACK_FEE',
+}
+
+export enum DiscountType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED = 'FIXED',
+}
+
+export enum WaitlistStatus {
+  WAITING = 'WAITING',
+  OFFERED = 'OFFERED',
+  CLAIMED = 'CLAIMED',
+  EXPIRED = 'EXPIRED',
+  REMOVED = 'REMOVED',
+}
+
+export enum TransferStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+}
+
+export enum ResaleStatus {
+  ACTIVE = 'ACTIVE',
+  RESERVED = 'RESERVED',
+  SOLD = 'SOLD',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum ScanAction {
+  VALIDATE = 'VALIDATE',
+  CHECK_IN = 'CHECK_IN',
+  CHECK_OUT = 'CHECK_OUT',
+}
+
+export enum ScanResult {
+  ACCEPTED = 'ACCEPTED',
+  DUPLICATE = 'DUPLICATE',
+  REJECTED = 'REJECTED',
+}
+
+export enum ScanSource {
+  ORGANIZER = 'ORGANIZER',
+  AGENT = 'AGENT',
+  AGENT_OFFLINE = 'AGENT_OFFLINE',
+}
+
+export enum PaymentGateway {
+  MONNIFY = 'MONNIFY',
+  PAYSTACK = 'PAYSTACK',
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  PROCESSING = 'PROCESSING',
+  PROCESSED = 'PROCESSED',
+  FAILED = 'FAILED',
+  IGNORED = 'IGNORED',
+  REJECTED = 'REJECTED',
+}
+
+export enum QuestionType {
+  TEXT = 'TEXT',
+  SINGLE_SELECT = 'SINGLE_SELECT',
+  MULTI_SELECT = 'MULTI_SELECT',
+  TSHIRT_SIZE = 'TSHIRT_SIZE',
+  DIETARY = 'DIETARY',
 }
@@ -0,0 +1,20 @@
+/**
+ * CSV helpers for the exports organizers download and open in a spreadsheet
+ */
+
+export type CsvValue = string | number | Date | null;
+
+/**
+ * Format one CSV cell, quoting it when it contains a delimiter, quote or line break.
+ * Text starting with a formula character is prefixed with an apostrophe so
+ * spreadsheets show it as text instead of running it (CSV injection) - buyer
+ * names, emails and answers are all user input.
+ */
+export function toCsvValue(value: CsvValue): string {
+  if (value === null) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,112 @@
+/**
+ * Scheduled tier pricing (early bird / phased price increases)
+ *
+ * A tier's price phases are stored in order on `TicketTier.pricePhases`. Each
+ * phase ends at a date (`endsAt`), once the tier has sold a number of tickets
+ * (`untilSold`), or whichever comes first when both are set. The first phase
+ * still running sets the price; once every phase is over the tier's regular
+ * `price` applies.
+ */
+
+import { Decimal } from '@prisma/client/runtime/library';
+
+export interface TierPricePhase {
+  name?: string | null;
+  price: number;
+  endsAt?: string | null; // ISO date the phase ends at
+  untilSold?: number | null; // Phase ends once this many tickets of the tier are sold
+}
+
+export interface TierPricingInput {
+  price: Decimal | number;
+  sold: number;
+  held?: number;
+  saleStartDate?: Date | string | null;
+  saleEndDate?: Date | string | null;
+  pricePhases?: unknown;
+}
+
+export interface TierCurrentPrice {
+  price: number; // What a ticket costs right now
+  regularPrice: number; // The tier's price once all phases are over
+  phaseIndex: number | null; // null when the regular price applies
+  phaseName: string | null;
+  phaseEndsAt: string | null;
+  phaseRemaining: number | null; // Tickets left at this price for sold-based phases
+  nextPrice: number | null; // Price after the current phase ends
+}
+
+export type TierSaleStatus = 'NOT_STARTED' | 'ON_SALE' | 'ENDED';
+
+/**
+ * Read the stored phases back into typed objects, skipping anything malformed
+ */
+export function parsePricePhases(value: unknown): TierPricePhase[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((phase) => phase && typeof phase === 'object' && !isNaN(Number(phase.price)))
+    .map((phase) => ({
+      name: phase.name || null,
+      price: Number(phase.price),
+      endsAt: phase.endsAt || null,
+      untilSold:
+        phase.untilSold !== undefined && phase.untilSold !== null ? Number(phase.untilSold) : null,
+    }));
+}
+
+/**
+ * Work out what a tier costs right now. Held seats count towards sold-based
+ * phases so buyers still in checkout can't push a phase past its limit.
+ */
+export function getCurrentTierPrice(
+  tier: TierPricingInput,
+  now: Date = new Date(),
+): TierCurrentPrice {
+  const regularPrice = tier.price instanceof Decimal ? tier.price.toNumber() : Number(tier.price);
+  const phases = parsePricePhases(tier.pricePhases);
+  const taken = (tier.sold || 0) + (tier.held || 0);
+
+  const index = phases.findIndex(
+    (phase) =>
+      (!phase.endsAt || new Date(phase.endsAt) > now) &&
+      (phase.untilSold === null || phase.untilSold === undefined || taken < phase.untilSold),
+  );
+
+  if (index === -1) {
+    return {
+      price: regularPrice,
+      regularPrice,
+      phaseIndex: null,
+      phaseName: null,
+      phaseEndsAt: null,
+      phaseRemaining: null,
+      nextPrice: null,
+    };
+  }
+
+  const phase = phases[index];
+  const next = phases
+    .slice(index + 1)
+    .find((p) => !p.endsAt || !phase.endsAt || new Date(p.endsAt) > new Date(phase.endsAt));
+
+  return {
+    price: phase.price,
+    regularPrice,
+    phaseIndex: index,
+    phaseName: phase.name || null,
+    phaseEndsAt: phase.endsAt || null,
+    phaseRemaining:
+      phase.untilSold !== null && phase.untilSold !== undefined ? phase.untilSold - taken : null,
+    nextPrice: next ? next.price : regularPrice,
+  };
+}
+
+/**
+ * Whether a tier is on sale, using its sale start and end dates
+ */
+export function getTierSaleStatus(tier: TierPricingInput, now: Date = new Date()): TierSaleStatus {
+  if (tier.saleStartDate && new Date(tier.saleStartDate) > now) return 'NOT_STARTED';
+  if (tier.saleEndDate && new Date(tier.saleEndDate) < now) return 'ENDED';
+  return 'ON_SALE';
+}
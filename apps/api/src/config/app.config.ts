@@ -7,6 +7,9 @@ export default () => ({
   withdrawalWaitHours: parseInt(process.env.WITHDRAWAL_WAIT_HOURS || '24', 10),
   refundWindowHours: parseInt(process.env.REFUND_WINDOW_HOURS || '24', 10),
   otpExpiryMinutes: parseInt(process.env.OTP_EXPIRY_MINUTES || '10', 10),
+  inventoryHoldMinutes: parseInt(process.env.INVENTORY_HOLD_MINUTES || '10', 10),
+  waitlistOfferHours: parseInt(process.env.WAITLIST_OFFER_HOURS || '24', 10),
+  qrSigningSecret: process.env.QR_SIGNING_SECRET,
 
   // Security
   maxLoginAttempts: parseInt(process.env.MAX_LOGIN_ATTEMPTS || '5', 10),
@@ -20,6 +20,10 @@
  * 7. HTTPS: Ensure all traffic is over HTTPS in production
  *
  * 8. Admin Accounts: Only create via database seed or admin endpoint, never via registration
+ *
+ * 9. QR_SIGNING_SECRET: Required. Encrypts the per-event ticket signing keys at rest - changing
+ *    it makes existing keys unusable, so rotate event keys instead of the secret
+ *    - Generate the same way as the JWT secrets
  */
 
 import { plainToInstance } from 'class-transformer';
@@ -49,6 +53,9 @@ class EnvironmentVariables {
   @IsString()
   JWT_REFRESH_SECRET: string;
 
+  @IsString()
+  QR_SIGNING_SECRET: string;
+
   @IsString()
   MAILGUN_API_KEY: string;
 
@@ -72,6 +79,22 @@ class EnvironmentVariables {
   @IsOptional()
   MONNIFY_WALLET_ACCOUNT_NUMBER?: string; // Required for disbursements/withdrawals
 
+  @IsString()
+  @IsOptional()
+  PAYSTACK_SECRET_KEY?: string;
+
+  @IsString()
+  @IsOptional()
+  PAYSTACK_BASE_URL?: string;
+
+  @IsString()
+  @IsOptional()
+  PAYMENT_PROVIDERS?: string; // Failover order, e.g. MONNIFY,PAYSTACK
+
+  @IsString()
+  @IsOptional()
+  PAYOUT_PROVIDER?: string; // Gateway withdrawals are sent through
+
   @IsString()
   @IsOptional()
   FRONTEND_URL?: string;
@@ -3,5 +3,6 @@ export { default as databaseConfig } from './database.config';
 export { default as jwtConfig } from './jwt.config';
 export { default as emailConfig } from './email.config';
 export { default as monnifyConfig } from './monnify.config';
+export { default as paystackConfig } from './paystack.config';
 export { default as cloudinaryConfig } from './cloudinary.config';
 export { default as googleConfig } from './google.config';
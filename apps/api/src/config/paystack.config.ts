@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+
+// Paystack configuration - second payment gateway, used per event or when Monnify is down
+export default registerAs('paystack', () => ({
+  secretKey: process.env.PAYSTACK_SECRET_KEY,
+  baseUrl: process.env.PAYSTACK_BASE_URL || 'https://api.paystack.co',
+  // Gateways tried in order when an event doesn't pick one, e.g. "MONNIFY,PAYSTACK"
+  providers: process.env.PAYMENT_PROVIDERS || 'MONNIFY,PAYSTACK',
+  // Gateway organizer withdrawals are paid out through
+  payoutProvider: process.env.PAYOUT_PROVIDER || 'MONNIFY',
+}));
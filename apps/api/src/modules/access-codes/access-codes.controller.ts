@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { AccessCodesService } from './access-codes.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { CreateAccessCodeDto, UpdateAccessCodeDto, UnlockTiersDto } from './dto';
+import { UserRole } from '../../common/types/prisma-enums';
+
+@ApiTags('Access Codes')
+@Controller('access-codes')
+export class AccessCodesController {
+  constructor(private readonly accessCodesService: AccessCodesService) {}
+
+  // ==================== ORGANIZER ENDPOINTS ====================
+
+  @Post('events/:eventId/codes')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create an access code or private link for hidden tiers' })
+  @ApiResponse({ status: 201, description: 'Access code created successfully' })
+  async createCode(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateAccessCodeDto,
+    @Request() req: any,
+  ) {
+    return this.accessCodesService.createAccessCode(eventId, req.user.organizerProfile.id, dto);
+  }
+
+  @Get('events/:eventId/codes')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get all access codes for an event with redemption counts' })
+  async getEventCodes(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.accessCodesService.getEventAccessCodes(eventId, req.user.organizerProfile.id);
+  }
+
+  @Patch('codes/:codeId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update an access code' })
+  async updateCode(
+    @Param('codeId') codeId: string,
+    @Body() dto: UpdateAccessCodeDto,
+    @Request() req: any,
+  ) {
+    return this.accessCodesService.updateAccessCode(codeId, req.user.organizerProfile.id, dto);
+  }
+
+  @Delete('codes/:codeId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete an unused access code' })
+  async deleteCode(@Param('codeId') codeId: string, @Request() req: any) {
+    return this.accessCodesService.deleteAccessCode(codeId, req.user.organizerProfile.id);
+  }
+
+  // ==================== PUBLIC ENDPOINTS ====================
+
+  @Post('unlock')
+  @Public()
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // Stop codes being guessed by brute force
+  @ApiOperation({ summary: 'Check an access code and list the hidden tiers it unlocks' })
+  async unlock(@Body() dto: UnlockTiersDto) {
+    return this.accessCodesService.unlockTiers(dto.eventId, dto.code);
+  }
+}
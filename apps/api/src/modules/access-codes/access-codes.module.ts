@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AccessCodesController } from './access-codes.controller';
+import { AccessCodesService } from './access-codes.service';
+import { PrismaModule } from '../../database/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [AccessCodesController],
+  providers: [AccessCodesService],
+  exports: [AccessCodesService],
+})
+export class AccessCodesModule {}
@@ -0,0 +1,351 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { CreateAccessCodeDto, UpdateAccessCodeDto } from './dto';
+import { generateSecureToken } from '../../common/utils/security.utils';
+
+export interface AccessCodeLine {
+  tierId: string;
+  quantity: number;
+}
+
+export interface AppliedAccessCode {
+  accessCodeId: string;
+  code: string;
+  // Hidden-tier tickets in the order
+  quantity: number;
+}
+
+@Injectable()
+export class AccessCodesService {
+  private readonly logger = new Logger(AccessCodesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create an access code for an event's hidden tiers
+   * Without a code a random one is generated, for sharing as a private link
+   */
+  async createAccessCode(eventId: string, organizerId: string, dto: CreateAccessCodeDto) {
+    const event = await this.getOwnedEvent(eventId, organizerId);
+
+    await this.assertValidRules(event.id, dto);
+
+    const code = dto.code || generateSecureToken(6).toUpperCase();
+    const existing = await this.prisma.tierAccessCode.findUnique({
+      where: { eventId_code: { eventId, code } },
+    });
+    if (existing) {
+      throw new BadRequestException(`Access code ${code} already exists for this event`);
+    }
+
+    const accessCode = await this.prisma.tierAccessCode.create({
+      data: {
+        eventId,
+        code,
+        label: dto.label?.trim() || null,
+        tierIds: dto.tierIds || [],
+        maxTickets: dto.maxTickets ?? null,
+        maxTicketsPerBuyer: dto.maxTicketsPerBuyer ?? null,
+        startsAt: dto.startsAt ? new Date(dto.startsAt) : null,
+        endsAt: dto.endsAt ? new Date(dto.endsAt) : null,
+      },
+    });
+
+    this.logger.log(`Created access code ${accessCode.code} for event ${event.title}`);
+
+    return accessCode;
+  }
+
+  /**
+   * Get all access codes for an event, with redemption counts
+   */
+  async getEventAccessCodes(eventId: string, organizerId: string) {
+    await this.getOwnedEvent(eventId, organizerId);
+
+    const accessCodes = await this.prisma.tierAccessCode.findMany({
+      where: { eventId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const redemptions = await this.getRedemptionStats(accessCodes.map((c) => c.id));
+
+    return accessCodes.map((accessCode) => ({
+      ...accessCode,
+      ...(redemptions.get(accessCode.id) || { redemptions: 0, ticketsIssued: 0 }),
+    }));
+  }
+
+  /**
+   * Update an access code's rules or switch it on/off
+   */
+  async updateAccessCode(codeId: string, organizerId: string, dto: UpdateAccessCodeDto) {
+    const accessCode = await this.getOwnedAccessCode(codeId, organizerId);
+
+    await this.assertValidRules(accessCode.eventId, {
+      tierIds: dto.tierIds,
+      startsAt: dto.startsAt ?? accessCode.startsAt?.toISOString(),
+      endsAt: dto.endsAt ?? accessCode.endsAt?.toISOString(),
+    });
+
+    if (dto.code && dto.code !== accessCode.code) {
+      const existing = await this.prisma.tierAccessCode.findUnique({
+        where: { eventId_code: { eventId: accessCode.eventId, code: dto.code } },
+      });
+      if (existing) {
+        throw new BadRequestException(`Access code ${dto.code} already exists for this event`);
+      }
+    }
+
+    return this.prisma.tierAccessCode.update({
+      where: { id: codeId },
+      data: {
+        ...(dto.code !== undefined && { code: dto.code }),
+        ...(dto.label !== undefined && { label: dto.label.trim() || null }),
+        ...(dto.tierIds !== undefined && { tierIds: dto.tierIds }),
+        ...(dto.maxTickets !== undefined && { maxTickets: dto.maxTickets }),
+        ...(dto.maxTicketsPerBuyer !== undefined && { maxTicketsPerBuyer: dto.maxTicketsPerBuyer }),
+        ...(dto.startsAt !== undefined && { startsAt: new Date(dto.startsAt) }),
+        ...(dto.endsAt !== undefined && { endsAt: new Date(dto.endsAt) }),
+        ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      },
+    });
+  }
+
+  /**
+   * Delete an access code
+   * Codes that have been used are kept for reporting - deactivate them instead
+   */
+  async deleteAccessCode(codeId: string, organizerId: string) {
+    const accessCode = await this.getOwnedAccessCode(codeId, organizerId);
+
+    const redemptionCount = await this.prisma.accessCodeRedemption.count({
+      where: { accessCodeId: accessCode.id, payment: { status: 'SUCCESS' } },
+    });
+    if (redemptionCount > 0) {
+      throw new BadRequestException(
+        'This access code has already been used. Deactivate it instead of deleting it.',
+      );
+    }
+
+    await this.prisma.tierAccessCode.delete({ where: { id: codeId } });
+
+    return { message: 'Access code deleted successfully' };
+  }
+
+  /**
+   * Check a code entered on the event page (or from a private link) and list the
+   * hidden tiers it unlocks. Throws BadRequestException with a buyer-facing message.
+   */
+  async unlockTiers(eventId: string, code: string) {
+    const accessCode = await this.findUsableCode(eventId, code);
+
+    if (accessCode.maxTickets) {
+      const used = await this.countTickets(accessCode.id);
+      if (used >= accessCode.maxTickets) {
+        throw new BadRequestException('All tickets for this access code have been claimed');
+      }
+    }
+
+    const tiers = await this.getUnlockableTiers(eventId, accessCode.tierIds);
+    if (tiers.length === 0) {
+      throw new BadRequestException('This access code has no tickets available');
+    }
+
+    return {
+      code: accessCode.code,
+      label: accessCode.label,
+      tierIds: tiers.map((tier) => tier.id),
+    };
+  }
+
+  /**
+   * Hidden tiers a code unlocks, for including them in the event page. Returns an
+   * empty list for codes that can't be used - unlockTiers explains why.
+   */
+  async getUnlockedTierIds(eventId: string, code: string): Promise<string[]> {
+    try {
+      const accessCode = await this.findUsableCode(eventId, code);
+      const tiers = await this.getUnlockableTiers(eventId, accessCode.tierIds);
+      return tiers.map((tier) => tier.id);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Check a code against the hidden-tier lines of an order, including its ticket
+   * limits. Throws BadRequestException with a buyer-facing message when the code
+   * can't be used.
+   */
+  async applyAccessCode(
+    eventId: string,
+    code: string,
+    lines: AccessCodeLine[],
+    buyerEmail: string,
+  ): Promise<AppliedAccessCode> {
+    const accessCode = await this.findUsableCode(eventId, code);
+
+    const locked = lines.find(
+      (line) => accessCode.tierIds.length > 0 && !accessCode.tierIds.includes(line.tierId),
+    );
+    if (locked) {
+      throw new BadRequestException('This access code does not unlock the selected tickets');
+    }
+
+    const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+    if (accessCode.maxTickets) {
+      const used = await this.countTickets(accessCode.id);
+      const left = Math.max(0, accessCode.maxTickets - used);
+      if (quantity > left) {
+        throw new BadRequestException(
+          left === 0
+            ? 'All tickets for this access code have been claimed'
+            : `Only ${left} more ticket${left === 1 ? '' : 's'} can be bought with this access code`,
+        );
+      }
+    }
+
+    if (accessCode.maxTicketsPerBuyer) {
+      const usedByBuyer = await this.countTickets(accessCode.id, buyerEmail.toLowerCase().trim());
+      const left = Math.max(0, accessCode.maxTicketsPerBuyer - usedByBuyer);
+      if (quantity > left) {
+        throw new BadRequestException(
+          left === 0
+            ? 'You have already used this access code'
+            : `You can get ${left} more ticket${left === 1 ? '' : 's'} with this access code`,
+        );
+      }
+    }
+
+    return { accessCodeId: accessCode.id, code: accessCode.code, quantity };
+  }
+
+  /**
+   * Orders and tickets per code, counting only payments that went through
+   */
+  async getRedemptionStats(accessCodeIds: string[]) {
+    const stats = new Map<string, { redemptions: number; ticketsIssued: number }>();
+    if (accessCodeIds.length === 0) return stats;
+
+    const grouped = await this.prisma.accessCodeRedemption.groupBy({
+      by: ['accessCodeId'],
+      where: { accessCodeId: { in: accessCodeIds }, payment: { status: 'SUCCESS' } },
+      _count: { _all: true },
+      _sum: { quantity: true },
+    });
+
+    for (const row of grouped) {
+      stats.set(row.accessCodeId, {
+        redemptions: row._count._all,
+        ticketsIssued: row._sum.quantity || 0,
+      });
+    }
+
+    return stats;
+  }
+
+  private async findUsableCode(eventId: string, code: string) {
+    const accessCode = await this.prisma.tierAccessCode.findUnique({
+      where: { eventId_code: { eventId, code: code.toUpperCase().trim() } },
+    });
+
+    if (!accessCode || !accessCode.isActive) {
+      throw new BadRequestException('Invalid access code');
+    }
+
+    const now = new Date();
+    if (accessCode.startsAt && accessCode.startsAt > now) {
+      throw new BadRequestException('This access code is not active yet');
+    }
+    if (accessCode.endsAt && accessCode.endsAt < now) {
+      throw new BadRequestException('This access code has expired');
+    }
+
+    return accessCode;
+  }
+
+  private getUnlockableTiers(eventId: string, tierIds: string[]) {
+    return this.prisma.ticketTier.findMany({
+      where: { eventId, isHidden: true, ...(tierIds.length > 0 && { id: { in: tierIds } }) },
+      select: { id: true },
+    });
+  }
+
+  /**
+   * Tickets that count towards limits: paid orders, plus orders still in checkout
+   * with seats held so two buyers can't both claim the last tickets
+   */
+  private async countTickets(accessCodeId: string, buyerEmail?: string) {
+    const result = await this.prisma.accessCodeRedemption.aggregate({
+      where: {
+        accessCodeId,
+        ...(buyerEmail && { buyerEmail }),
+        OR: [
+          { payment: { status: 'SUCCESS' } },
+          { payment: { status: 'PENDING', holds: { some: { status: 'ACTIVE' } } } },
+        ],
+      },
+      _sum: { quantity: true },
+    });
+    return result._sum.quantity || 0;
+  }
+
+  private async assertValidRules(
+    eventId: string,
+    rules: { tierIds?: string[]; startsAt?: string; endsAt?: string },
+  ) {
+    if (rules.startsAt && rules.endsAt && new Date(rules.startsAt) >= new Date(rules.endsAt)) {
+      throw new BadRequestException('Access code end date must be after its start date');
+    }
+
+    if (rules.tierIds && rules.tierIds.length > 0) {
+      const tierCount = await this.prisma.ticketTier.count({
+        where: { eventId, isHidden: true, id: { in: rules.tierIds } },
+      });
+      if (tierCount !== new Set(rules.tierIds).size) {
+        throw new BadRequestException('Access codes can only unlock hidden tiers of this event');
+      }
+    }
+  }
+
+  private async getOwnedEvent(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, organizerId: true, title: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage access codes for your own events');
+    }
+
+    return event;
+  }
+
+  private async getOwnedAccessCode(codeId: string, organizerId: string) {
+    const accessCode = await this.prisma.tierAccessCode.findUnique({
+      where: { id: codeId },
+      include: { event: { select: { organizerId: true } } },
+    });
+
+    if (!accessCode) {
+      throw new NotFoundException('Access code not found');
+    }
+
+    if (accessCode.event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage access codes for your own events');
+    }
+
+    return accessCode;
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  Min,
+  Length,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform } from 'class-transformer';
+
+export class CreateAccessCodeDto {
+  @ApiPropertyOptional({
+    description:
+      'Code buyers enter (e.g., "PRESS2025") - leave empty to generate a private link code',
+  })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.toUpperCase().trim() || undefined)
+  @Length(3, 30, { message: 'Code must be between 3 and 30 characters' })
+  @Matches(/^[A-Z0-9_-]+$/, {
+    message: 'Code can only contain letters, numbers, dashes and underscores',
+  })
+  code?: string;
+
+  @ApiPropertyOptional({ description: 'Who the code is for, e.g. "Press" or "Sponsor - Acme"' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @ApiPropertyOptional({ description: 'Hidden tiers the code unlocks - empty for all of them' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tierIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Total tickets that can be bought with the code' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxTickets?: number;
+
+  @ApiPropertyOptional({ description: 'Tickets each buyer can get with the code' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxTicketsPerBuyer?: number;
+
+  @ApiPropertyOptional({ description: 'Code is valid from this date' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ description: 'Code is valid until this date' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+}
+
+export class UpdateAccessCodeDto extends PartialType(CreateAccessCodeDto) {
+  @ApiPropertyOptional({ description: 'Turn the code on or off' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UnlockTiersDto {
+  @ApiProperty({ description: 'Event the code is for' })
+  @IsString()
+  eventId: string;
+
+  @ApiProperty({ description: 'Access code entered by the buyer or taken from a private link' })
+  @IsString()
+  @IsNotEmpty({ message: 'Access code is required' })
+  @Transform(({ value }) => value?.toUpperCase().trim())
+  code: string;
+}
@@ -4,8 +4,10 @@ import { AdminService } from './admin.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole } from '../../common/types/prisma-enums';
 import { IsEmail, IsString, MinLength, IsOptional } from 'class-validator';
+import { OpenDisputeDto, AddDisputeEvidenceDto, ResolveDisputeDto } from '../disputes/dto';
 
 // DTO for creating admin users
 export class CreateAdminDto {
@@ -98,8 +100,12 @@ export class AdminController {
 
   @Get('refunds')
   @ApiOperation({ summary: 'Get all refund requests' })
-  async getRefunds(@Query('page') page = 1, @Query('limit') limit = 20) {
-    return this.adminService.getAllRefunds(+page, +limit);
+  async getRefunds(
+    @Query('page') page = 1,
+    @Query('limit') limit = 20,
+    @Query('status') status?: string,
+  ) {
+    return this.adminService.getAllRefunds(+page, +limit, status);
   }
 
   @Post('refunds/:id/process')
@@ -108,6 +114,12 @@ export class AdminController {
     return this.adminService.processRefund(id);
   }
 
+  @Post('refunds/:id/retry')
+  @ApiOperation({ summary: 'Retry a refund the payment gateway could not complete' })
+  async retryRefund(@Param('id') id: string, @CurrentUser('id') adminId: string) {
+    return this.adminService.retryRefund(id, adminId);
+  }
+
   @Get('organizers/earnings')
   @ApiOperation({ summary: 'Get all organizers with earnings summary' })
   async getAllOrganizersEarnings(@Query('page') page = 1, @Query('limit') limit = 20) {
@@ -216,4 +228,76 @@ export class AdminController {
       body?.adminNotes,
     );
   }
+
+  @Get('webhooks')
+  @ApiOperation({ summary: 'Webhook inbox - stored gateway webhooks and their processing status' })
+  async getWebhookDeliveries(
+    @Query('page') page = 1,
+    @Query('limit') limit = 50,
+    @Query('status') status?: string,
+    @Query('provider') provider?: string,
+    @Query('search') search?: string,
+  ) {
+    return this.adminService.getWebhookDeliveries({
+      page: +page,
+      limit: +limit,
+      status,
+      provider,
+      search,
+    });
+  }
+
+  @Get('webhooks/:id')
+  @ApiOperation({ summary: 'Webhook delivery with its raw body and headers' })
+  async getWebhookDelivery(@Param('id') id: string) {
+    return this.adminService.getWebhookDelivery(id);
+  }
+
+  @Post('webhooks/:id/replay')
+  @ApiOperation({ summary: 'Replay a failed webhook delivery now' })
+  async replayWebhookDelivery(@Param('id') id: string, @CurrentUser('id') adminId: string) {
+    return this.adminService.replayWebhookDelivery(id, adminId);
+  }
+
+  @Get('disputes')
+  @ApiOperation({ summary: 'Chargeback disputes with a count per status' })
+  async getDisputes(
+    @Query('page') page = 1,
+    @Query('limit') limit = 20,
+    @Query('status') status?: string,
+  ) {
+    return this.adminService.getDisputes({ page: +page, limit: +limit, status });
+  }
+
+  @Get('disputes/:id')
+  @ApiOperation({ summary: 'Dispute with its evidence, payment and tickets' })
+  async getDispute(@Param('id') id: string) {
+    return this.adminService.getDispute(id);
+  }
+
+  @Post('disputes')
+  @ApiOperation({ summary: 'Open a chargeback dispute - freezes tickets and debits the organizer' })
+  async openDispute(@Body() dto: OpenDisputeDto, @CurrentUser('id') adminId: string) {
+    return this.adminService.openDispute(dto, adminId);
+  }
+
+  @Post('disputes/:id/evidence')
+  @ApiOperation({ summary: 'Attach evidence to an open dispute' })
+  async addDisputeEvidence(
+    @Param('id') id: string,
+    @Body() dto: AddDisputeEvidenceDto,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.adminService.addDisputeEvidence(id, dto, adminId);
+  }
+
+  @Post('disputes/:id/resolve')
+  @ApiOperation({ summary: 'Resolve a dispute as won (reversed) or lost (tickets cancelled)' })
+  async resolveDispute(
+    @Param('id') id: string,
+    @Body() dto: ResolveDisputeDto,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.adminService.resolveDispute(id, dto.outcome, dto.note, adminId);
+  }
 }
@@ -2,12 +2,23 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
-import { MonnifyService } from '../payments/monnify.service';
+import { PaymentProvidersModule } from '../payments/payment-providers.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { RefundsModule } from '../refunds/refunds.module';
+import { DisputesModule } from '../disputes/disputes.module';
+import { ResaleModule } from '../resale/resale.module';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [
+    ConfigModule,
+    PaymentProvidersModule,
+    PaymentsModule,
+    RefundsModule,
+    DisputesModule,
+    ResaleModule,
+  ],
   controllers: [AdminController],
-  providers: [AdminService, MonnifyService],
+  providers: [AdminService],
   exports: [AdminService],
 })
 export class AdminModule {}
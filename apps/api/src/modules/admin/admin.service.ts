@@ -9,6 +9,18 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../database/prisma.service';
 import { MonnifyService } from '../payments/monnify.service';
+import { PaymentProvidersService } from '../payments/payment-providers.service';
+import { WebhookInboxService } from '../payments/webhook-inbox.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { DisputesService } from '../disputes/disputes.service';
+import { ResaleService } from '../resale/resale.service';
+import { PaymentsService } from '../payments/payments.service';
+import { OpenDisputeDto, AddDisputeEvidenceDto } from '../disputes/dto';
+import {
+  PaymentGateway,
+  RefundStatus,
+  WebhookDeliveryStatus,
+} from '../../common/types/prisma-enums';
 import { Decimal } from '@prisma/client/runtime/library';
 import * as bcrypt from 'bcrypt';
 
@@ -20,6 +32,12 @@ export class AdminService {
     private prisma: PrismaService,
     private configService: ConfigService,
     private monnifyService: MonnifyService,
+    private paymentProviders: PaymentProvidersService,
+    private webhookInbox: WebhookInboxService,
+    private refundsService: RefundsService,
+    private disputesService: DisputesService,
+    private resaleService: ResaleService,
+    private paymentsService: PaymentsService,
   ) {}
 
   async getDashboardStats() {
@@ -48,14 +66,14 @@ export class AdminService {
     const successfulPayments = await this.prisma.payment.findMany({
       where: {
         status: 'SUCCESS',
-        OR: [{ monnifyTransactionRef: { not: null } }, { amount: 0 }],
+        OR: [{ providerTransactionRef: { not: null } }, { amount: 0 }],
       },
-      select: { amount: true, reference: true, monnifyTransactionRef: true },
+      select: { amount: true, reference: true, providerTransactionRef: true },
     });
 
     const seenPayments = new Set<string>();
     const grossRevenue = successfulPayments.reduce((sum, p: any) => {
-      const key = p.monnifyTransactionRef || p.reference;
+      const key = p.providerTransactionRef || p.reference;
       if (seenPayments.has(key)) return sum;
       seenPayments.add(key);
       const amount = p.amount instanceof Decimal ? p.amount.toNumber() : Number(p.amount);
@@ -65,12 +83,18 @@ export class AdminService {
     // Get organizer earnings from ledger (source of truth)
     const ticketSaleLedgerEntries = await this.prisma.ledgerEntry.findMany({
       where: { type: 'TICKET_SALE' },
-      select: { credit: true, amount: true, monnifyTransactionRef: true, ticketId: true, id: true },
+      select: {
+        credit: true,
+        amount: true,
+        providerTransactionRef: true,
+        ticketId: true,
+        id: true,
+      },
     });
 
     const seenLedger = new Set<string>();
     const organizerNet = ticketSaleLedgerEntries.reduce((sum, le: any) => {
-      const key = le.monnifyTransactionRef || le.ticketId || le.id;
+      const key = le.providerTransactionRef || le.ticketId || le.id;
       if (seenLedger.has(key)) return sum;
       seenLedger.add(key);
       const amount = le.credit instanceof Decimal 
@@ -161,9 +185,9 @@ export class AdminService {
           payments: {
             where: {
               status: 'SUCCESS',
-              OR: [{ monnifyTransactionRef: { not: null } }, { amount: 0 }],
+              OR: [{ providerTransactionRef: { not: null } }, { amount: 0 }],
             },
-            select: { amount: true, reference: true, monnifyTransactionRef: true },
+            select: { amount: true, reference: true, providerTransactionRef: true },
           },
         },
       }),
@@ -184,7 +208,7 @@ export class AdminService {
         amount: true, 
         paymentId: true, 
         ticketId: true, 
-        monnifyTransactionRef: true 
+        providerTransactionRef: true 
       },
     });
 
@@ -202,7 +226,7 @@ export class AdminService {
       let organizerEarnings = 0;
 
       for (const p of (event.payments || [])) {
-        const key = p.monnifyTransactionRef || p.reference;
+        const key = p.providerTransactionRef || p.reference;
         if (seenPayments.has(key)) continue;
         seenPayments.add(key);
         
@@ -684,13 +708,16 @@ export class AdminService {
   }
 
   /**
-   * Get all refund requests with pagination
+   * Get all refund requests with pagination, optionally of one status (e.g. the
+   * FAILED queue)
    */
-  async getAllRefunds(page = 1, limit = 20) {
+  async getAllRefunds(page = 1, limit = 20, status?: string) {
     const skip = (page - 1) * limit;
+    const where: any = status && status !== 'all' ? { status } : {};
 
-    const [refunds, total] = await Promise.all([
+    const [refunds, total, statusCounts] = await Promise.all([
       this.prisma.refund.findMany({
+        where,
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
@@ -719,11 +746,20 @@ export class AdminService {
           },
         },
       }),
-      this.prisma.refund.count(),
+      this.prisma.refund.count({ where }),
+      this.prisma.refund.groupBy({ by: ['status'], _count: { _all: true } }),
     ]);
 
+    const counts = Object.fromEntries(
+      Object.values(RefundStatus).map((refundStatus) => [refundStatus, 0]),
+    ) as Record<RefundStatus, number>;
+    for (const row of statusCounts) {
+      counts[row.status as RefundStatus] = row._count._all;
+    }
+
     return {
       refunds,
+      counts,
       total,
       page,
       totalPages: Math.ceil(total / limit),
@@ -830,6 +866,13 @@ export class AdminService {
     };
   }
 
+  /**
+   * Send a refund the gateway couldn't complete through again
+   */
+  async retryRefund(refundId: string, adminId: string) {
+    return this.refundsService.retryRefund(refundId, adminId);
+  }
+
   // Get individual organizer earnings and stats
   async getOrganizerEarnings(organizerId: string) {
     const organizer = await this.prisma.organizerProfile.findUnique({
@@ -875,7 +918,7 @@ export class AdminService {
             organizerId,
           },
         },
-        status: 'PROCESSED',
+        status: { in: ['PROCESSING', 'PROCESSED'] },
       },
       include: {
         ticket: {
@@ -1116,7 +1159,7 @@ export class AdminService {
                 organizerId: organizer.id,
               },
             },
-            status: 'PROCESSED',
+            status: { in: ['PROCESSING', 'PROCESSED'] },
           },
           _sum: {
             refundAmount: true,
@@ -1291,8 +1334,8 @@ export class AdminService {
       where.OR = [
         { reference: { contains: search, mode: 'insensitive' } },
         { buyerEmail: { contains: search, mode: 'insensitive' } },
-        { monnifyTransactionRef: { contains: search, mode: 'insensitive' } },
-        { monnifyPaymentRef: { contains: search, mode: 'insensitive' } },
+        { providerTransactionRef: { contains: search, mode: 'insensitive' } },
+        { providerPaymentRef: { contains: search, mode: 'insensitive' } },
         { event: { title: { contains: search, mode: 'insensitive' } } },
         { tier: { name: { contains: search, mode: 'insensitive' } } },
       ];
@@ -1317,7 +1360,7 @@ export class AdminService {
     // This prevents UI from showing the same successful inflow twice if duplicate rows exist.
     const seenList = new Set<string>();
     const paymentsDeduped = payments.filter((p: any) => {
-      const key = p.monnifyTransactionRef || p.reference;
+      const key = p.providerTransactionRef || p.reference;
       if (seenList.has(key)) return false;
       seenList.add(key);
       return true;
@@ -1326,7 +1369,7 @@ export class AdminService {
     // Summary based on SUCCESS payments (actual inflow)
     const paymentWhere: any = {
       status: 'SUCCESS',
-      OR: [{ monnifyTransactionRef: { not: null } }, { amount: 0 }],
+      OR: [{ providerTransactionRef: { not: null } }, { amount: 0 }],
       ...(where.createdAt ? { createdAt: where.createdAt } : {}),
       ...(params.eventId ? { eventId: params.eventId } : {}),
       ...(params.organizerId ? { event: { organizerId: params.organizerId } } : {}),
@@ -1338,7 +1381,7 @@ export class AdminService {
 
     const successfulPayments = await this.prisma.payment.findMany({
       where: paymentWhere,
-      select: { id: true, amount: true, reference: true, monnifyTransactionRef: true },
+      select: { id: true, amount: true, reference: true, providerTransactionRef: true },
     });
 
     // =============================================================================
@@ -1353,7 +1396,7 @@ export class AdminService {
         type: 'TICKET_SALE',
         paymentId: { in: paymentIds },
       },
-      select: { credit: true, amount: true, paymentId: true, monnifyTransactionRef: true, ticketId: true, id: true },
+      select: { credit: true, amount: true, paymentId: true, providerTransactionRef: true, ticketId: true, id: true },
     }) : [];
 
     // Create paymentId -> ledger entry map
@@ -1369,7 +1412,7 @@ export class AdminService {
     let organizerNet = 0;
 
     for (const p of successfulPayments) {
-      const key = p.monnifyTransactionRef || p.reference;
+      const key = p.providerTransactionRef || p.reference;
       if (seenSum.has(key)) continue;
       seenSum.add(key);
       
@@ -1433,8 +1476,8 @@ export class AdminService {
           amount: paymentAmount,
           status: p.status,
           buyerEmail: p.buyerEmail,
-          monnifyTransactionRef: p.monnifyTransactionRef,
-          monnifyPaymentRef: p.monnifyPaymentRef,
+          providerTransactionRef: p.providerTransactionRef,
+          providerPaymentRef: p.providerPaymentRef,
           createdAt: p.createdAt,
           paidAt: p.paidAt,
           event: p.event,
@@ -1516,7 +1559,8 @@ export class AdminService {
       payments: payments.map((p: any) => ({
         id: p.id,
         reference: p.reference,
-        monnifyTransactionRef: p.monnifyTransactionRef,
+        provider: p.provider,
+        providerTransactionRef: p.providerTransactionRef,
         amount: p.amount instanceof Decimal ? p.amount.toNumber() : Number(p.amount),
         buyerEmail: p.buyerEmail,
         eventTitle: p.event?.title,
@@ -1543,11 +1587,13 @@ export class AdminService {
       },
     });
 
-    // If not found by reference, try by monnifyTransactionRef
+    // If not found by reference, try by providerTransactionRef
     if (!payment) {
-      this.logger.log(`Payment not found by reference, trying monnifyTransactionRef: ${reference}`);
+      this.logger.log(
+        `Payment not found by reference, trying providerTransactionRef: ${reference}`,
+      );
       payment = await this.prisma.payment.findFirst({
-        where: { monnifyTransactionRef: reference },
+        where: { providerTransactionRef: reference },
         include: {
           event: true,
           tier: true,
@@ -1557,7 +1603,7 @@ export class AdminService {
 
     // If still not found, try by ID
     if (!payment) {
-      this.logger.log(`Payment not found by monnifyTransactionRef, trying by ID: ${reference}`);
+      this.logger.log(`Payment not found by providerTransactionRef, trying by ID: ${reference}`);
       payment = await this.prisma.payment.findUnique({
         where: { id: reference },
         include: {
@@ -1573,7 +1619,12 @@ export class AdminService {
         where: { status: 'PENDING' },
         take: 5,
         orderBy: { createdAt: 'desc' },
-        select: { reference: true, monnifyTransactionRef: true, buyerEmail: true, createdAt: true },
+        select: {
+          reference: true,
+          providerTransactionRef: true,
+          buyerEmail: true,
+          createdAt: true,
+        },
       });
 
       throw new NotFoundException({
@@ -1590,54 +1641,81 @@ export class AdminService {
       };
     }
 
-    // Use the monnify transaction reference or the payment reference
-    const transactionRef = payment.monnifyTransactionRef || reference;
+    // Use the gateway transaction reference or the payment reference
+    const transactionRef = payment.providerTransactionRef || reference;
 
     try {
-      // Verify with Monnify - pass both transaction ref and payment ref
-      const monnifyData = await this.monnifyService.verifyTransaction(
-        transactionRef,
-        payment.reference,
-      );
+      // Verify with the payment's gateway - pass both transaction ref and payment ref
+      const gatewayData = await this.paymentProviders
+        .get(payment.provider)
+        .verifyTransaction(transactionRef, payment.reference);
 
       this.logger.log(
-        `Monnify verification result for ${reference}: ${JSON.stringify(monnifyData)}`,
+        `${payment.provider} verification result for ${reference}: ${JSON.stringify(gatewayData)}`,
       );
 
-      if (monnifyData.status === 'paid' || monnifyData.status === 'success') {
+      if (gatewayData.status === 'paid') {
         // Import PaymentsService to process payment
         const { PaymentsService } = await import('../payments/payments.service');
         const { TicketsService } = await import('../tickets/tickets.service');
         const { LedgerService } = await import('../ledger/ledger.service');
         const { TasksService } = await import('../tasks/tasks.service');
+        const { PromoCodesService } = await import('../promo-codes/promo-codes.service');
+        const { AccessCodesService } = await import('../access-codes/access-codes.service');
+        const { ResaleService } = await import('../resale/resale.service');
+        const { RegistrationQuestionsService } =
+          await import('../registration-questions/registration-questions.service');
         const { EmailService } = await import('../emails/email.service');
         const { QrService } = await import('../qr/qr.service');
+        const { QrSigningService } = await import('../qr/qr-signing.service');
+        const { ScanEventsService } = await import('../scan-events/scan-events.service');
+        const { TicketEntryService } = await import('../tickets/ticket-entry.service');
         const { MediaService } = await import('../media/media.service');
 
         // Create service instances with proper dependencies
         const mediaService = new MediaService(this.configService);
-        const qrService = new QrService(mediaService);
+        const qrService = new QrService(
+          mediaService,
+          new QrSigningService(this.prisma, this.configService),
+        );
         const emailService = new EmailService(this.configService);
-        const ticketsService = new TicketsService(this.prisma, emailService, qrService);
+        const ticketsService = new TicketsService(
+          this.prisma,
+          emailService,
+          qrService,
+          new ScanEventsService(this.prisma),
+          new TicketEntryService(this.prisma),
+        );
         const ledgerService = new LedgerService(this.prisma);
         const tasksService = new TasksService(this.prisma);
 
         const paymentsService = new PaymentsService(
           this.prisma,
           this.configService,
-          this.monnifyService,
+          this.paymentProviders,
           ticketsService,
           ledgerService,
           tasksService,
+          new PromoCodesService(this.prisma),
+          new AccessCodesService(this.prisma),
+          new ResaleService(
+            this.prisma,
+            this.configService,
+            this.paymentProviders,
+            ticketsService,
+            ledgerService,
+            emailService,
+          ),
+          new RegistrationQuestionsService(this.prisma),
         );
 
         // Process the payment manually
         await (paymentsService as any).handleSuccessfulPayment({
           reference: payment.reference,
-          amount: monnifyData.amount,
-          id: monnifyData.transactionReference,
-          paid_at: monnifyData.paidOn,
-          customer: monnifyData.customer,
+          amount: gatewayData.amount,
+          id: gatewayData.transactionReference,
+          paid_at: gatewayData.paidOn,
+          customer: gatewayData.customer,
         });
 
         // Fetch updated payment and ticket
@@ -1656,8 +1734,8 @@ export class AdminService {
         };
       } else {
         return {
-          message: `Payment status on Monnify: ${monnifyData.status}. Cannot process.`,
-          monnifyStatus: monnifyData.status,
+          message: `Payment status on ${payment.provider}: ${gatewayData.status}. Cannot process.`,
+          gatewayStatus: gatewayData.status,
         };
       }
     } catch (error) {
@@ -1684,16 +1762,18 @@ export class AdminService {
       include: {
         event: { include: { organizer: true } },
         tier: true,
+        order: { include: { items: { include: { tier: true } } } },
         buyer: true,
       },
     });
 
     if (!payment) {
       payment = await this.prisma.payment.findFirst({
-        where: { monnifyTransactionRef: reference },
+        where: { providerTransactionRef: reference },
         include: {
           event: { include: { organizer: true } },
           tier: true,
+          order: { include: { items: { include: { tier: true } } } },
           buyer: true,
         },
       });
@@ -1705,6 +1785,7 @@ export class AdminService {
         include: {
           event: { include: { organizer: true } },
           tier: true,
+          order: { include: { items: { include: { tier: true } } } },
           buyer: true,
         },
       });
@@ -1718,6 +1799,7 @@ export class AdminService {
         include: {
           event: { include: { organizer: true } },
           tier: true,
+          order: { include: { items: { include: { tier: true } } } },
           buyer: true,
         },
       });
@@ -1732,7 +1814,7 @@ export class AdminService {
         select: {
           id: true,
           reference: true,
-          monnifyTransactionRef: true,
+          providerTransactionRef: true,
           buyerEmail: true,
           amount: true,
           createdAt: true,
@@ -1759,146 +1841,102 @@ export class AdminService {
       };
     }
 
-    // Calculate amounts
-    const tierPrice =
-      payment.tier.price instanceof Decimal
-        ? payment.tier.price.toNumber()
-        : Number(payment.tier.price);
-
-    const platformFeePercent = this.configService.get<number>('platformFeePercent') || 5;
-    const passFeeTobuyer = (payment.event as any).passFeeTobuyer ?? false;
-    const serviceFee = tierPrice * (platformFeePercent / 100);
-
-    // Calculate what buyer should have paid
-    const expectedBuyerPayment = passFeeTobuyer ? tierPrice + serviceFee : tierPrice;
-
-    // Calculate organizer earnings
-    let organizerAmount: number;
-    if (passFeeTobuyer) {
-      organizerAmount = tierPrice; // Full tier price - buyer paid fee separately
-    } else {
-      organizerAmount = tierPrice - serviceFee; // Minus platform fee
-    }
+    // A resale buys the seller's ticket, not new inventory - pay the seller and reissue
+    // their ticket exactly as a gateway confirmation would
+    if (payment.resaleListingId) {
+      await this.resaleService.completeResale(payment, {
+        transactionRef: payment.providerTransactionRef,
+        paidAt: new Date(),
+      });
 
-    this.logger.log(`Force confirming payment ${payment.reference}:`);
-    this.logger.log(`  - Tier price: ₦${tierPrice}`);
-    this.logger.log(`  - Service fee (${platformFeePercent}%): ₦${serviceFee}`);
-    this.logger.log(`  - Fee paid by: ${passFeeTobuyer ? 'BUYER' : 'ORGANIZER'}`);
-    this.logger.log(`  - Expected buyer payment: ₦${expectedBuyerPayment}`);
-    this.logger.log(`  - Confirmed amount from admin: ₦${confirmedAmount || 'not provided'}`);
-    this.logger.log(`  - Organizer will receive: ₦${organizerAmount}`);
-
-    // Generate ticket number
-    const ticketNumber = `TKT-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
-    const qrCode = `${payment.eventId}-${ticketNumber}`;
-
-    // Use transaction to ensure all operations succeed
-    const result = await this.prisma.$transaction(async (prisma) => {
-      // 1. Update payment status
-      const updatedPayment = await prisma.payment.update({
+      const resalePayment = await this.prisma.payment.findUniqueOrThrow({
         where: { id: payment.id },
-        data: {
-          status: 'SUCCESS',
-          paidAt: new Date(),
-        },
+      });
+      const resaleTicket = await this.prisma.ticket.findFirst({
+        where: { paymentId: payment.id },
       });
 
-      // 2. Create ticket
-      const ticket = await prisma.ticket.create({
-        data: {
-          ticketNumber,
-          qrCode,
-          status: 'ACTIVE',
-          buyerEmail: payment.buyerEmail,
-          buyerFirstName: payment.buyer?.firstName || null,
-          buyerLastName: payment.buyer?.lastName || null,
-          amountPaid: tierPrice,
-          paymentRef: payment.reference,
-          eventId: payment.eventId,
-          tierId: payment.tierId,
-          buyerId: payment.buyerId!,
-          paymentId: payment.id,
+      this.logger.log(
+        `Resale payment ${payment.reference} force confirmed: ${resalePayment.status}${adminNotes ? ` | Note: ${adminNotes}` : ''}`,
+      );
+
+      return {
+        success: resalePayment.status === 'SUCCESS',
+        message:
+          resalePayment.status === 'SUCCESS'
+            ? 'Resale payment confirmed and ticket reissued to the buyer'
+            : `Resale could not be completed - the payment is now ${resalePayment.status}`,
+        payment: {
+          id: resalePayment.id,
+          reference: resalePayment.reference,
+          providerTransactionRef: resalePayment.providerTransactionRef,
+          status: resalePayment.status,
+          amount: resalePayment.amount,
         },
-      });
+        ticket: resaleTicket,
+        adminNotes,
+      };
+    }
 
-      // 3. Update tier sold count
-      await prisma.ticketTier.update({
-        where: { id: payment.tierId },
-        data: { sold: { increment: 1 } },
-      });
+    // Issue through the same path as a gateway confirmation, so the tickets are signed,
+    // registration answers saved and the credit booked exactly once
+    const storedAmount =
+      payment.amount instanceof Decimal ? payment.amount.toNumber() : Number(payment.amount);
+    this.logger.log(
+      `Force confirming payment ${payment.reference}: stored ₦${storedAmount}, confirmed ₦${confirmedAmount ?? 'not provided'}`,
+    );
 
-      // 4. Update organizer pending balance
-      await prisma.organizerProfile.update({
-        where: { id: payment.event.organizerId },
-        data: { pendingBalance: { increment: organizerAmount } },
-      });
+    await this.paymentsService.confirmPayment(payment.reference, {
+      amount: confirmedAmount ?? storedAmount,
+      transactionRef: payment.providerTransactionRef,
+      note: adminNotes,
+      confirmedBy: 'ADMIN',
+    });
 
-      // 5. Get updated organizer for ledger entry
-      const organizer = await prisma.organizerProfile.findUnique({
-        where: { id: payment.event.organizerId },
-      });
+    const confirmed = await this.prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+    const tickets = await this.prisma.ticket.findMany({
+      where: { paymentId: payment.id },
+      include: { tier: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
 
-      const currentPending =
-        organizer?.pendingBalance instanceof Decimal
-          ? organizer.pendingBalance.toNumber()
-          : Number(organizer?.pendingBalance || 0);
-      const currentAvailable =
-        organizer?.availableBalance instanceof Decimal
-          ? organizer.availableBalance.toNumber()
-          : Number(organizer?.availableBalance || 0);
-
-      // 6. Create ledger entry with full reconciliation data
-      await prisma.ledgerEntry.create({
-        data: {
-          type: 'TICKET_SALE',
-          credit: organizerAmount,
-          debit: 0,
-          amount: organizerAmount,
-          description: `[ADMIN FORCE CONFIRM] ${payment.event.title} - ${payment.tier.name}${adminNotes ? ` | Note: ${adminNotes}` : ''}`,
-          pendingBalanceAfter: currentPending,
-          availableBalanceAfter: currentAvailable,
-          runningBalance: currentPending + currentAvailable,
-          ticketId: ticket.id,
-          organizerId: payment.event.organizerId,
-          // Reconciliation fields
-          monnifyTransactionRef: payment.monnifyTransactionRef || null,
-          paymentReference: payment.reference,
-          paymentId: payment.id,
-          valueDate: new Date(),
-          status: 'CONFIRMED',
-          createdBy: 'ADMIN',
-        },
-      });
+    if (confirmed.status !== 'SUCCESS' || tickets.length === 0) {
+      throw new BadRequestException(
+        `Payment ${payment.reference} could not be confirmed (status: ${confirmed.status}) - check the payment logs`,
+      );
+    }
 
-      return { payment: updatedPayment, ticket };
+    const sale = await this.prisma.ledgerEntry.findFirst({
+      where: { paymentId: payment.id, type: 'TICKET_SALE' },
     });
+    const ticket = tickets[0];
 
-    this.logger.log(`✅ Payment force confirmed! Ticket: ${result.ticket.ticketNumber}`);
+    this.logger.log(`✅ Payment force confirmed! Ticket: ${ticket.ticketNumber}`);
 
     return {
       success: true,
       message: 'Payment confirmed and ticket created successfully!',
       payment: {
-        id: result.payment.id,
-        reference: result.payment.reference,
-        monnifyTransactionRef: payment.monnifyTransactionRef,
-        status: result.payment.status,
-        amount: payment.amount,
+        id: confirmed.id,
+        reference: confirmed.reference,
+        providerTransactionRef: confirmed.providerTransactionRef,
+        status: confirmed.status,
+        amount: confirmed.amount,
       },
       ticket: {
-        id: result.ticket.id,
-        ticketNumber: result.ticket.ticketNumber,
-        status: result.ticket.status,
-        buyerEmail: result.ticket.buyerEmail,
+        id: ticket.id,
+        ticketNumber: ticket.ticketNumber,
+        status: ticket.status,
+        buyerEmail: ticket.buyerEmail,
         eventTitle: payment.event.title,
-        tierName: payment.tier.name,
+        tierName: [...new Set(tickets.map((t) => t.tier.name))].join(', '),
       },
+      ticketNumbers: tickets.map((t) => t.ticketNumber),
       financials: {
-        tierPrice,
-        serviceFee,
-        passFeeTobuyer,
-        expectedBuyerPayment,
-        organizerReceives: organizerAmount,
+        quantity: tickets.length,
+        passFeeTobuyer: (payment.event as any).passFeeTobuyer ?? false,
+        buyerPaid: confirmedAmount ?? storedAmount,
+        organizerReceives: sale ? Number(sale.amount) : 0,
       },
       adminNotes,
     };
@@ -1926,47 +1964,74 @@ export class AdminService {
 
     for (const payment of pendingPayments) {
       try {
-        const transactionRef = payment.monnifyTransactionRef || payment.reference;
+        const transactionRef = payment.providerTransactionRef || payment.reference;
 
-        // Verify with Monnify - pass both transaction ref and payment ref
-        const monnifyData = await this.monnifyService.verifyTransaction(
-          transactionRef,
-          payment.reference,
-        );
+        // Verify with the payment's gateway - pass both transaction ref and payment ref
+        const gatewayData = await this.paymentProviders
+          .get(payment.provider)
+          .verifyTransaction(transactionRef, payment.reference);
 
-        if (monnifyData.status === 'paid' || monnifyData.status === 'success') {
+        if (gatewayData.status === 'paid') {
           // Import PaymentsService to process payment
           const { PaymentsService } = await import('../payments/payments.service');
           const { TicketsService } = await import('../tickets/tickets.service');
           const { LedgerService } = await import('../ledger/ledger.service');
           const { TasksService } = await import('../tasks/tasks.service');
+          const { PromoCodesService } = await import('../promo-codes/promo-codes.service');
+          const { AccessCodesService } = await import('../access-codes/access-codes.service');
+          const { ResaleService } = await import('../resale/resale.service');
+          const { RegistrationQuestionsService } =
+            await import('../registration-questions/registration-questions.service');
           const { EmailService } = await import('../emails/email.service');
           const { QrService } = await import('../qr/qr.service');
+          const { QrSigningService } = await import('../qr/qr-signing.service');
+          const { ScanEventsService } = await import('../scan-events/scan-events.service');
+          const { TicketEntryService } = await import('../tickets/ticket-entry.service');
           const { MediaService } = await import('../media/media.service');
 
           // Create service instances
           const mediaService = new MediaService(this.configService);
-          const qrService = new QrService(mediaService);
+          const qrService = new QrService(
+            mediaService,
+            new QrSigningService(this.prisma, this.configService),
+          );
           const emailService = new EmailService(this.configService);
-          const ticketsService = new TicketsService(this.prisma, emailService, qrService);
+          const ticketsService = new TicketsService(
+            this.prisma,
+            emailService,
+            qrService,
+            new ScanEventsService(this.prisma),
+            new TicketEntryService(this.prisma),
+          );
           const ledgerService = new LedgerService(this.prisma);
           const tasksService = new TasksService(this.prisma);
 
           const paymentsService = new PaymentsService(
             this.prisma,
             this.configService,
-            this.monnifyService,
+            this.paymentProviders,
             ticketsService,
             ledgerService,
             tasksService,
+            new PromoCodesService(this.prisma),
+            new AccessCodesService(this.prisma),
+            new ResaleService(
+              this.prisma,
+              this.configService,
+              this.paymentProviders,
+              ticketsService,
+              ledgerService,
+              emailService,
+            ),
+            new RegistrationQuestionsService(this.prisma),
           );
 
           await (paymentsService as any).handleSuccessfulPayment({
             reference: payment.reference,
-            amount: monnifyData.amount,
-            id: monnifyData.transactionReference,
-            paid_at: monnifyData.paidOn,
-            customer: monnifyData.customer,
+            amount: gatewayData.amount,
+            id: gatewayData.transactionReference,
+            paid_at: gatewayData.paidOn,
+            customer: gatewayData.customer,
           });
 
           results.verified++;
@@ -1975,8 +2040,8 @@ export class AdminService {
           results.failed++;
           results.errors.push({
             reference: payment.reference,
-            status: monnifyData.status,
-            message: `Payment not successful on Monnify: ${monnifyData.status}`,
+            status: gatewayData.status,
+            message: `Payment not successful on ${payment.provider}: ${gatewayData.status}`,
           });
         }
       } catch (error) {
@@ -2014,10 +2079,10 @@ export class AdminService {
         },
       });
 
-      // Try by monnifyTransactionRef
+      // Try by providerTransactionRef
       if (!payment) {
         payment = await this.prisma.payment.findFirst({
-          where: { monnifyTransactionRef: reference },
+          where: { providerTransactionRef: reference },
           include: {
             event: { select: { title: true, passFeeTobuyer: true } },
             tier: { select: { name: true, price: true } },
@@ -2056,7 +2121,7 @@ export class AdminService {
           select: {
             id: true,
             reference: true,
-            monnifyTransactionRef: true,
+            providerTransactionRef: true,
             buyerEmail: true,
             status: true,
             amount: true,
@@ -2069,7 +2134,7 @@ export class AdminService {
           searchedReference: reference,
           searchedBy: [
             'reference',
-            'monnifyTransactionRef',
+            'providerTransactionRef',
             'id',
             reference.includes('@') ? 'buyerEmail' : null,
           ].filter(Boolean),
@@ -2078,10 +2143,11 @@ export class AdminService {
       }
 
       // Calculate what the amounts should be
-      const tierPrice = payment.tier?.price
-        ? typeof payment.tier.price === 'object'
-          ? Number(payment.tier.price)
-          : payment.tier.price
+      const unitPrice = payment.unitPrice ?? payment.tier?.price;
+      const tierPrice = unitPrice
+        ? typeof unitPrice === 'object'
+          ? Number(unitPrice)
+          : unitPrice
         : 0;
       const passFeeTobuyer = (payment.event as any)?.passFeeTobuyer ?? false;
       const platformFeePercent = 5;
@@ -2092,7 +2158,8 @@ export class AdminService {
         payment: {
           id: payment.id,
           reference: payment.reference,
-          monnifyTransactionRef: payment.monnifyTransactionRef,
+          provider: payment.provider,
+          providerTransactionRef: payment.providerTransactionRef,
           storedAmount: payment.amount,
           status: payment.status,
           buyerEmail: payment.buyerEmail,
@@ -2119,22 +2186,22 @@ export class AdminService {
       };
 
       // Try verifying with transaction ref
-      const transactionRef = payment.monnifyTransactionRef || payment.reference;
+      const transactionRef = payment.providerTransactionRef || payment.reference;
 
       this.logger.log(`Attempting verification with transaction ref: ${transactionRef}`);
 
       try {
-        const attempt1 = await this.attemptMonnifyVerification(transactionRef);
+        const attempt1 = await this.attemptVerification(payment.provider, transactionRef);
         debug.verificationAttempts.push({
           reference: transactionRef,
-          referenceType: 'Monnify Transaction Reference',
+          referenceType: 'Gateway Transaction Reference',
           url: `${debug.monnifyConfig.baseUrl}/api/v2/transactions/${encodeURIComponent(transactionRef)}`,
           ...attempt1,
         });
       } catch (error: any) {
         debug.verificationAttempts.push({
           reference: transactionRef,
-          referenceType: 'Monnify Transaction Reference',
+          referenceType: 'Gateway Transaction Reference',
           url: `${debug.monnifyConfig.baseUrl}/api/v2/transactions/${encodeURIComponent(transactionRef)}`,
           success: false,
           error: error.message,
@@ -2147,7 +2214,7 @@ export class AdminService {
         this.logger.log(`Attempting verification with payment ref: ${payment.reference}`);
 
         try {
-          const attempt2 = await this.attemptMonnifyVerification(payment.reference);
+          const attempt2 = await this.attemptVerification(payment.provider, payment.reference);
           debug.verificationAttempts.push({
             reference: payment.reference,
             referenceType: 'Payment Reference',
@@ -2180,7 +2247,18 @@ export class AdminService {
     }
   }
 
-  private async attemptMonnifyVerification(reference: string) {
+  /**
+   * Look a reference up on the payment's gateway. Monnify is called directly so the
+   * raw response shows up in the debug output.
+   */
+  private async attemptVerification(provider: PaymentGateway | string, reference: string) {
+    if (provider !== PaymentGateway.MONNIFY) {
+      const gatewayResponse = await this.paymentProviders
+        .get(provider)
+        .verifyTransaction(reference);
+      return { success: true, gatewayResponse };
+    }
+
     const token = await this.monnifyService['getAccessToken']();
     const baseUrl = this.configService.get<string>('MONNIFY_BASE_URL') || 'https://api.monnify.com';
 
@@ -2201,4 +2279,138 @@ export class AdminService {
       monnifyResponse: data,
     };
   }
+
+  // =============================================================================
+  // WEBHOOK INBOX
+  // =============================================================================
+
+  /**
+   * Stored gateway webhooks, newest first, with a count per status. The raw body and
+   * headers are left out here - see getWebhookDelivery
+   */
+  async getWebhookDeliveries(params: {
+    page?: number;
+    limit?: number;
+    status?: string;
+    provider?: string;
+    search?: string;
+  }) {
+    const page = params.page || 1;
+    const limit = Math.min(params.limit || 50, 200);
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+    if (params.status && params.status !== 'all') {
+      where.status = params.status;
+    }
+    if (params.provider && params.provider !== 'all') {
+      where.provider = params.provider;
+    }
+    if (params.search?.trim()) {
+      // References live in the event key and the body
+      const search = params.search.trim();
+      where.OR = [{ eventKey: { contains: search } }, { rawBody: { contains: search } }];
+    }
+
+    const [deliveries, total, statusCounts] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          createdAt: true,
+          provider: true,
+          eventType: true,
+          eventKey: true,
+          ipAddress: true,
+          signatureValid: true,
+          status: true,
+          attempts: true,
+          nextAttemptAt: true,
+          lastError: true,
+          processedAt: true,
+          duplicateCount: true,
+          lastReceivedAt: true,
+          replayedBy: true,
+        },
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+      this.prisma.webhookDelivery.groupBy({ by: ['status'], _count: { _all: true } }),
+    ]);
+
+    const counts = Object.fromEntries(
+      Object.values(WebhookDeliveryStatus).map((status) => [status, 0]),
+    ) as Record<WebhookDeliveryStatus, number>;
+    for (const row of statusCounts) {
+      counts[row.status as WebhookDeliveryStatus] = row._count._all;
+    }
+
+    return {
+      deliveries,
+      counts,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getWebhookDelivery(id: string) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({ where: { id } });
+
+    if (!delivery) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    let body: any = null;
+    try {
+      body = JSON.parse(delivery.rawBody);
+    } catch {
+      // Not JSON - the raw body is still returned
+    }
+
+    return { ...delivery, body };
+  }
+
+  async replayWebhookDelivery(id: string, adminId: string) {
+    const delivery = await this.webhookInbox.replay(id, adminId);
+
+    return {
+      message:
+        delivery?.status === WebhookDeliveryStatus.PROCESSED
+          ? 'Webhook replayed and processed'
+          : `Webhook replay failed: ${delivery?.lastError || 'unknown error'}. It will be retried.`,
+      delivery,
+    };
+  }
+
+  // =============================================================================
+  // DISPUTES
+  // =============================================================================
+
+  async getDisputes(params: { page?: number; limit?: number; status?: string }) {
+    return this.disputesService.getDisputes(params);
+  }
+
+  async getDispute(id: string) {
+    return this.disputesService.getDispute(id);
+  }
+
+  async openDispute(dto: OpenDisputeDto, adminId: string) {
+    return this.disputesService.openDispute(dto, adminId);
+  }
+
+  async addDisputeEvidence(id: string, dto: AddDisputeEvidenceDto, adminId: string) {
+    return this.disputesService.addEvidence(id, dto, adminId);
+  }
+
+  async resolveDispute(
+    id: string,
+    outcome: 'WON' | 'LOST',
+    note: string | undefined,
+    adminId: string,
+  ) {
+    return this.disputesService.resolveDispute(id, outcome, note, adminId);
+  }
 }
@@ -8,21 +8,36 @@ import {
   Param,
   UseGuards,
   Request,
+  Headers,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 import { AgentsService } from './agents.service';
+import { ZonesService } from './zones.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { Public } from '../auth/decorators/public.decorator';
-import { CreateAgentCodeDto, ActivateAgentCodeDto, AgentCheckInDto } from './dto';
+import {
+  CreateAgentCodeDto,
+  ActivateAgentCodeDto,
+  AgentCheckInDto,
+  OfflineManifestDto,
+  SyncOfflineCheckInsDto,
+  SetAgentCodeZoneDto,
+  UpdateAgentCodeSecurityDto,
+  CreateZoneDto,
+  UpdateZoneDto,
+} from './dto';
 import { UserRole } from '../../common/types/prisma-enums';
 
 @ApiTags('Agents')
 @Controller('agents')
 export class AgentsController {
-  constructor(private readonly agentsService: AgentsService) {}
+  constructor(
+    private readonly agentsService: AgentsService,
+    private readonly zonesService: ZonesService,
+  ) {}
 
   // ==================== ORGANIZER ENDPOINTS ====================
 
@@ -37,11 +52,7 @@ export class AgentsController {
     @Body() dto: CreateAgentCodeDto,
     @Request() req: any,
   ) {
-    return this.agentsService.createAccessCode(
-      eventId,
-      req.user.organizerProfile.id,
-      dto.label,
-    );
+    return this.agentsService.createAccessCode(eventId, req.user.organizerProfile.id, dto);
   }
 
   @Get('events/:eventId/codes')
@@ -80,25 +91,140 @@ export class AgentsController {
     return this.agentsService.deleteCode(codeId, req.user.organizerProfile.id);
   }
 
+  @Patch('codes/:codeId/zone')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Restrict an agent access code to a zone, or lift the restriction' })
+  async setCodeZone(
+    @Param('codeId') codeId: string,
+    @Body() dto: SetAgentCodeZoneDto,
+    @Request() req: any,
+  ) {
+    return this.agentsService.setCodeZone(codeId, req.user.organizerProfile.id, dto.zoneId || null);
+  }
+
+  @Patch('codes/:codeId/security')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Change an agent access code's validity window, PIN or device binding" })
+  async updateCodeSecurity(
+    @Param('codeId') codeId: string,
+    @Body() dto: UpdateAgentCodeSecurityDto,
+    @Request() req: any,
+  ) {
+    return this.agentsService.updateCodeSecurity(codeId, req.user.organizerProfile.id, dto);
+  }
+
+  // ==================== ZONE ENDPOINTS ====================
+
+  @Post('events/:eventId/zones')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a restricted zone and choose the tiers allowed in' })
+  @ApiResponse({ status: 201, description: 'Zone created successfully' })
+  async createZone(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateZoneDto,
+    @Request() req: any,
+  ) {
+    return this.zonesService.createZone(eventId, req.user.organizerProfile.id, dto);
+  }
+
+  @Get('events/:eventId/zones')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get all zones for an event with their tiers' })
+  async getEventZones(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.zonesService.getEventZones(eventId, req.user.organizerProfile.id);
+  }
+
+  @Patch('zones/:zoneId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename a zone or change the tiers allowed in' })
+  async updateZone(
+    @Param('zoneId') zoneId: string,
+    @Body() dto: UpdateZoneDto,
+    @Request() req: any,
+  ) {
+    return this.zonesService.updateZone(zoneId, req.user.organizerProfile.id, dto);
+  }
+
+  @Delete('zones/:zoneId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a zone no agent code is assigned to' })
+  async deleteZone(@Param('zoneId') zoneId: string, @Request() req: any) {
+    return this.zonesService.deleteZone(zoneId, req.user.organizerProfile.id);
+  }
+
   // ==================== PUBLIC AGENT ENDPOINTS ====================
 
   @Post('activate')
   @Public()
   @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 attempts per minute to prevent brute force
   @ApiOperation({ summary: 'Activate/verify an agent access code (no login required)' })
-  @ApiResponse({ status: 200, description: 'Code validated successfully, returns event details' })
+  @ApiResponse({
+    status: 200,
+    description: 'Code validated, returns event details and an agent session token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Deactivated, outside its validity window or wrong PIN',
+  })
   @ApiResponse({ status: 404, description: 'Invalid access code' })
   @ApiResponse({ status: 429, description: 'Too many attempts, please try again later' })
   async activateCode(@Body() dto: ActivateAgentCodeDto) {
-    return this.agentsService.activateCode(dto.code);
+    return this.agentsService.activateCode(dto.code, dto.pin, dto.deviceId);
   }
 
   @Post('check-in')
   @Public()
   @Throttle({ default: { limit: 120, ttl: 60000 } }) // 120 check-ins per minute (2 per second for busy events)
-  @ApiOperation({ summary: 'Check in a ticket using agent access code (no login required)' })
+  @ApiOperation({ summary: 'Check in a ticket with an agent session token (no login required)' })
   @ApiResponse({ status: 200, description: 'Check-in result' })
-  async agentCheckIn(@Body() dto: AgentCheckInDto) {
-    return this.agentsService.agentCheckIn(dto.qrCode, dto.accessCode);
+  async agentCheckIn(@Body() dto: AgentCheckInDto, @Headers('user-agent') userAgent?: string) {
+    return this.agentsService.agentCheckIn(
+      dto.qrCode,
+      dto.agentToken,
+      { deviceId: dto.deviceId, userAgent },
+      dto.sessionId,
+    );
+  }
+
+  @Post('check-out')
+  @Public()
+  @Throttle({ default: { limit: 120, ttl: 60000 } })
+  @ApiOperation({ summary: 'Check out a ticket at the exit so it can re-enter (re-entry tiers)' })
+  @ApiResponse({ status: 200, description: 'Check-out result' })
+  async agentCheckOut(@Body() dto: AgentCheckInDto, @Headers('user-agent') userAgent?: string) {
+    return this.agentsService.agentCheckOut(dto.qrCode, dto.agentToken, {
+      deviceId: dto.deviceId,
+      userAgent,
+    });
+  }
+
+  @Post('offline-manifest')
+  @Public()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Download the encrypted ticket manifest for offline scanning' })
+  @ApiResponse({ status: 200, description: 'Ticket manifest, encrypted with the access code' })
+  async getOfflineManifest(@Body() dto: OfflineManifestDto) {
+    return this.agentsService.getOfflineManifest(dto.agentToken);
+  }
+
+  @Post('check-in/batch')
+  @Public()
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @ApiOperation({ summary: 'Sync check-ins an agent device queued while offline' })
+  @ApiResponse({ status: 200, description: 'Per-scan results, including conflicts' })
+  async syncOfflineCheckIns(@Body() dto: SyncOfflineCheckInsDto) {
+    return this.agentsService.syncOfflineCheckIns(dto.agentToken, dto.checkIns, dto.deviceId);
   }
 }
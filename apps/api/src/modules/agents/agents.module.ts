@@ -1,12 +1,17 @@
 import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
 import { AgentsController } from './agents.controller';
 import { AgentsService } from './agents.service';
+import { ZonesService } from './zones.service';
 import { PrismaModule } from '../../database/prisma.module';
+import { QrModule } from '../qr/qr.module';
+import { ScanEventsModule } from '../scan-events/scan-events.module';
+import { TicketsModule } from '../tickets/tickets.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, QrModule, ScanEventsModule, TicketsModule, JwtModule.register({})],
   controllers: [AgentsController],
-  providers: [AgentsService],
-  exports: [AgentsService],
+  providers: [AgentsService, ZonesService],
+  exports: [AgentsService, ZonesService],
 })
 export class AgentsModule {}
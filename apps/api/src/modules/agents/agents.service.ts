@@ -5,14 +5,84 @@ import {
   BadRequestException,
   Logger,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../../database/prisma.service';
+import { QrSigningService, QrSignatureCheck, MAX_QR_CODE_LENGTH } from '../qr/qr-signing.service';
+import { ScanEventsService, ScanContext } from '../scan-events/scan-events.service';
+import { TicketEntryService } from '../tickets/ticket-entry.service';
+import { ZonesService, GateZone, GATE_ZONE_SELECT } from './zones.service';
+import {
+  TICKET_ANSWERS_SELECT,
+  formatTicketAnswers,
+} from '../registration-questions/registration-questions.service';
+import { CreateAgentCodeDto, UpdateAgentCodeSecurityDto } from './dto';
+import { ScanResult } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 
+// Salt and context for the key an offline manifest is encrypted with (derived from the access code)
+const MANIFEST_KEY_INFO = 'hdticketdesk-offline-manifest';
+
+// Without a window of its own, a code works from a day before the event until a day after
+const CODE_OPENS_BEFORE_MS = 24 * 60 * 60 * 1000;
+const CODE_CLOSES_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// An agent session lasts a shift - after that the agent activates the code again
+const AGENT_SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+const AGENT_TOKEN_AUDIENCE = 'agent-session';
+
+// Consecutive wrong PINs before the code is deactivated
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_HASH_ROUNDS = 10;
+
+interface AgentTokenPayload {
+  sub: string; // Agent code id
+  ver: number; // The code's tokenVersion when the session was issued
+  deviceId?: string;
+}
+
+interface OfflineScan {
+  clientId: string;
+  qrCode: string;
+  scannedAt: Date;
+}
+
+/**
+ * Outcome of one queued offline scan:
+ * - CHECKED_IN: this scan is the ticket's check-in
+ * - CONFLICT: an earlier scan (e.g. at another gate) already checked the ticket in
+ * - REJECTED: the ticket wasn't valid for entry when the scan was synced
+ */
+export interface OfflineCheckInResult {
+  clientId: string;
+  status: 'CHECKED_IN' | 'CONFLICT' | 'REJECTED';
+  message: string;
+  ticket?: { ticketNumber: string; tierName: string; buyerName: string };
+  checkedInAt?: Date | null;
+  checkedInBy?: string | null;
+}
+
+// How each offline sync outcome is recorded in the scan log
+const OFFLINE_SCAN_RESULTS: Record<OfflineCheckInResult['status'], ScanResult> = {
+  CHECKED_IN: 'ACCEPTED',
+  CONFLICT: 'DUPLICATE',
+  REJECTED: 'REJECTED',
+};
+
 @Injectable()
 export class AgentsService {
   private readonly logger = new Logger(AgentsService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private qrSigningService: QrSigningService,
+    private scanEventsService: ScanEventsService,
+    private ticketEntryService: TicketEntryService,
+    private zonesService: ZonesService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
 
   /**
    * Generate a secure 9-character access code
@@ -29,10 +99,11 @@ export class AgentsService {
   }
 
   /**
-   * Create a new agent access code for an event
+   * Create a new agent access code for an event, optionally restricted to one zone,
+   * protected by a PIN or bound to one device
    * Only organizers can create codes for their events
    */
-  async createAccessCode(eventId: string, organizerId: string, label?: string) {
+  async createAccessCode(eventId: string, organizerId: string, dto: CreateAgentCodeDto) {
     // Verify the event exists and belongs to the organizer
     const event = await this.prisma.event.findUnique({
       where: { id: eventId },
@@ -47,6 +118,14 @@ export class AgentsService {
       throw new ForbiddenException('You can only create agent codes for your own events');
     }
 
+    if (dto.zoneId) {
+      await this.zonesService.assertEventZone(dto.zoneId, eventId);
+    }
+
+    const validFrom = dto.validFrom ? new Date(dto.validFrom) : null;
+    const validUntil = dto.validUntil ? new Date(dto.validUntil) : null;
+    this.assertValidWindow(validFrom, validUntil);
+
     // Generate a unique code (retry if collision)
     let code: string;
     let attempts = 0;
@@ -68,19 +147,25 @@ export class AgentsService {
     const agentCode = await this.prisma.agentAccessCode.create({
       data: {
         code,
-        label,
+        label: dto.label,
         eventId,
+        zoneId: dto.zoneId,
+        validFrom,
+        validUntil,
+        pinHash: dto.pin ? await bcrypt.hash(dto.pin, PIN_HASH_ROUNDS) : null,
+        bindDevice: dto.bindDevice ?? false,
       },
       include: {
         event: {
           select: { id: true, title: true, slug: true },
         },
+        zone: { select: { id: true, name: true } },
       },
     });
 
     this.logger.log(`Created agent access code ${code} for event ${event.title}`);
 
-    return agentCode;
+    return this.formatAgentCode(agentCode);
   }
 
   /**
@@ -101,10 +186,97 @@ export class AgentsService {
       throw new ForbiddenException('You can only view agent codes for your own events');
     }
 
-    return this.prisma.agentAccessCode.findMany({
+    const codes = await this.prisma.agentAccessCode.findMany({
       where: { eventId },
+      include: { zone: { select: { id: true, name: true } } },
       orderBy: { createdAt: 'desc' },
     });
+
+    return codes.map((code) => this.formatAgentCode(code));
+  }
+
+  /**
+   * Restrict an agent access code to a zone, or lift the restriction with null
+   */
+  async setCodeZone(codeId: string, organizerId: string, zoneId: string | null) {
+    const agentCode = await this.prisma.agentAccessCode.findUnique({
+      where: { id: codeId },
+      include: {
+        event: { select: { organizerId: true } },
+      },
+    });
+
+    if (!agentCode) {
+      throw new NotFoundException('Agent code not found');
+    }
+
+    if (agentCode.event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only change agent codes for your own events');
+    }
+
+    if (zoneId) {
+      await this.zonesService.assertEventZone(zoneId, agentCode.eventId);
+    }
+
+    const updated = await this.prisma.agentAccessCode.update({
+      where: { id: codeId },
+      data: { zoneId },
+      include: { zone: { select: { id: true, name: true } } },
+    });
+
+    return this.formatAgentCode(updated);
+  }
+
+  /**
+   * Change when a code works, its PIN and its device binding. A new PIN or binding signs
+   * out every agent using the code, so they must activate it again.
+   */
+  async updateCodeSecurity(codeId: string, organizerId: string, dto: UpdateAgentCodeSecurityDto) {
+    const agentCode = await this.prisma.agentAccessCode.findUnique({
+      where: { id: codeId },
+      include: {
+        event: { select: { organizerId: true } },
+      },
+    });
+
+    if (!agentCode) {
+      throw new NotFoundException('Agent code not found');
+    }
+
+    if (agentCode.event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only change agent codes for your own events');
+    }
+
+    // Omitted fields keep their value; null clears them
+    const toDate = (value: string | null | undefined, current: Date | null) =>
+      value === undefined ? current : value ? new Date(value) : null;
+    const validFrom = toDate(dto.validFrom, agentCode.validFrom);
+    const validUntil = toDate(dto.validUntil, agentCode.validUntil);
+    this.assertValidWindow(validFrom, validUntil);
+
+    const pinChanged = dto.pin !== undefined;
+    const bindingChanged = dto.bindDevice !== undefined && dto.bindDevice !== agentCode.bindDevice;
+    const releaseDevice = dto.resetDevice || dto.bindDevice === false;
+
+    const updated = await this.prisma.agentAccessCode.update({
+      where: { id: codeId },
+      data: {
+        validFrom,
+        validUntil,
+        ...(pinChanged && {
+          pinHash: dto.pin ? await bcrypt.hash(dto.pin, PIN_HASH_ROUNDS) : null,
+          failedPinAttempts: 0,
+        }),
+        ...(dto.bindDevice !== undefined && { bindDevice: dto.bindDevice }),
+        ...(releaseDevice && { boundDeviceId: null }),
+        ...((pinChanged || bindingChanged || releaseDevice) && {
+          tokenVersion: { increment: 1 },
+        }),
+      },
+      include: { zone: { select: { id: true, name: true } } },
+    });
+
+    return this.formatAgentCode(updated);
   }
 
   /**
@@ -126,10 +298,12 @@ export class AgentsService {
       throw new ForbiddenException('You can only deactivate agent codes for your own events');
     }
 
-    return this.prisma.agentAccessCode.update({
+    const updated = await this.prisma.agentAccessCode.update({
       where: { id: codeId },
-      data: { isActive: false },
+      data: { isActive: false, tokenVersion: { increment: 1 } }, // Signs out every agent using it
     });
+
+    return this.formatAgentCode(updated);
   }
 
   /**
@@ -151,10 +325,12 @@ export class AgentsService {
       throw new ForbiddenException('You can only reactivate agent codes for your own events');
     }
 
-    return this.prisma.agentAccessCode.update({
+    const updated = await this.prisma.agentAccessCode.update({
       where: { id: codeId },
-      data: { isActive: true },
+      data: { isActive: true, failedPinAttempts: 0 },
     });
+
+    return this.formatAgentCode(updated);
   }
 
   /**
@@ -185,9 +361,14 @@ export class AgentsService {
 
   /**
    * Activate/verify an agent access code (public endpoint for agents)
-   * Returns event details if the code is valid
+   * Returns event details if the code is valid, plus the public keys the
+   * agent's device uses to verify ticket QR signatures before checking in,
+   * and the short-lived session token every scan is then made with.
+   *
+   * A code only activates inside its validity window, with its PIN if it has one, and -
+   * for device-bound codes - on the device that activated it first.
    */
-  async activateCode(code: string) {
+  async activateCode(code: string, pin?: string, deviceId?: string) {
     const agentCode = await this.prisma.agentAccessCode.findUnique({
       where: { code: code.toUpperCase() },
       include: {
@@ -203,6 +384,7 @@ export class AgentsService {
             status: true,
           },
         },
+        zone: { select: { id: true, name: true } },
       },
     });
 
@@ -214,9 +396,37 @@ export class AgentsService {
       throw new ForbiddenException('This access code has been deactivated');
     }
 
+    this.assertCodeValidNow(agentCode, agentCode.event);
+
+    if (agentCode.pinHash) {
+      if (!pin) {
+        return { valid: false, pinRequired: true, message: 'Enter the PIN for this access code' };
+      }
+      if (!(await bcrypt.compare(pin, agentCode.pinHash))) {
+        await this.rejectWrongPin(agentCode.id);
+      }
+    }
+
+    if (agentCode.bindDevice) {
+      if (!deviceId) {
+        throw new BadRequestException(
+          'This access code is bound to one device - a device id is required',
+        );
+      }
+      // The first device to activate the code claims it; conditional, so two can't both claim it
+      const { count } = await this.prisma.agentAccessCode.updateMany({
+        where: { id: agentCode.id, OR: [{ boundDeviceId: null }, { boundDeviceId: deviceId }] },
+        data: { boundDeviceId: deviceId },
+      });
+      if (count === 0) {
+        throw new ForbiddenException('This access code is already in use on another device');
+      }
+    }
+
     // Update activation timestamp if first use
     const updateData: any = {
       lastUsedAt: new Date(),
+      failedPinAttempts: 0,
     };
 
     if (!agentCode.activatedAt) {
@@ -228,209 +438,698 @@ export class AgentsService {
       data: updateData,
     });
 
+    const session = await this.issueAgentSession(agentCode, deviceId);
+
     return {
       valid: true,
+      sessionToken: session.token,
+      sessionExpiresAt: session.expiresAt,
       event: agentCode.event,
       label: agentCode.label,
+      zone: agentCode.zone, // Only tiers allowed into the zone can be checked in with this code
       checkInCount: agentCode.checkInCount,
+      signingKeys: await this.qrSigningService.getEventPublicKeys(agentCode.eventId),
+      // Multi-day events: the agent picks the session they're admitting to
+      sessions: await this.prisma.eventSession.findMany({
+        where: { eventId: agentCode.eventId },
+        select: { id: true, name: true, startsAt: true, endsAt: true },
+        orderBy: [{ sortOrder: 'asc' }, { startsAt: 'asc' }],
+      }),
     };
   }
 
   /**
-   * Check in a ticket using an agent access code
+   * Check in a ticket with an agent session token
    * 
+   * Signed QR codes are verified before the ticket is looked up, so forged codes
+   * and tickets for other events never reach the check-in transaction. With a session,
+   * the ticket is admitted to that session only, within the session's check-in window.
+   *
    * IMPORTANT: This method uses atomic database operations to prevent:
    * 1. Race conditions (two agents checking in the same ticket simultaneously)
    * 2. Duplicate check-ins
    * 3. Invalid state transitions
    */
-  async agentCheckIn(qrCode: string, accessCode: string) {
+  async agentCheckIn(
+    qrCode: string,
+    agentToken: string,
+    device: { deviceId?: string; userAgent?: string } = {},
+    sessionId?: string,
+  ) {
     // Validate input early
     const sanitizedQrCode = qrCode?.trim();
-    if (!sanitizedQrCode || sanitizedQrCode.length > 100) {
+    if (!sanitizedQrCode || sanitizedQrCode.length > MAX_QR_CODE_LENGTH) {
       return {
         success: false,
         message: 'Invalid QR code format',
       };
     }
 
-    // Validate the access code
-    const agentCode = await this.prisma.agentAccessCode.findUnique({
-      where: { code: accessCode.toUpperCase() },
-      include: {
-        event: {
-          select: { id: true, title: true, startDate: true, endDate: true },
-        },
-      },
+    const agentCode = await this.authenticateAgent(agentToken);
+
+    const eventId = agentCode.eventId;
+    const session = sessionId ? await this.ticketEntryService.getSession(sessionId, eventId) : null;
+    const agentLabel = agentCode.label || `Agent-${agentCode.code.substring(0, 4)}`;
+    // The label is snapshotted as the gate, since codes are usually named after where they're used
+    const scan: ScanContext = {
+      source: 'AGENT',
+      agentCodeId: agentCode.id,
+      gate: agentLabel,
+      sessionId: session?.id,
+      ...device,
+    };
+
+    const signature = await this.qrSigningService.verify(sanitizedQrCode);
+    if (signature.status === 'invalid') {
+      this.logger.warn(`Agent ${agentLabel} scanned a QR code with a bad signature`);
+      return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+        success: false,
+        message: signature.message,
+      });
+    }
+
+    if (signature.status === 'valid' && signature.claims.eventId !== eventId) {
+      return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+        success: false,
+        message: 'This ticket is for a different event',
+      });
+    }
+
+    // Validate timing (the session's window, or the event's) BEFORE hitting the database for ticket
+    const closed = this.ticketEntryService.getWindowRefusal(agentCode.event, session);
+    if (closed) {
+      return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+        success: false,
+        message: closed,
+      });
+    }
+
+    const { where: ticketWhere, notFoundMessage } = this.ticketLookup(
+      sanitizedQrCode,
+      signature,
+      eventId,
+    );
+
+    const ticket = await this.prisma.ticket.findFirst({
+      where: ticketWhere,
+      include: { tier: true, answers: TICKET_ANSWERS_SELECT },
     });
 
-    if (!agentCode) {
-      throw new NotFoundException('Invalid access code');
+    if (!ticket) {
+      return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+        success: false,
+        message: notFoundMessage,
+      });
     }
 
-    if (!agentCode.isActive) {
-      throw new ForbiddenException('This access code has been deactivated');
+    const summary = this.ticketSummary(ticket);
+
+    // Agents at a zone's entrance only let in the tiers allowed into it
+    const zoneRefusal = this.zonesService.getZoneRefusal(agentCode.zone, ticket);
+    if (zoneRefusal) {
+      return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+        success: false,
+        message: zoneRefusal,
+        ticket: summary,
+      });
     }
 
-    const eventId = agentCode.eventId;
-    const agentLabel = agentCode.label || `Agent-${accessCode.substring(0, 4)}`;
+    // ATOMIC CHECK-IN: the entry is a conditional update on the ticket's state (or, for a
+    // session, a unique insert), so only ONE of two agents scanning the same ticket can let it in
+    const checkInTime = new Date();
+    const entry = session
+      ? await this.ticketEntryService.admitToSession(ticket, session, agentLabel, checkInTime)
+      : await this.ticketEntryService.admit(ticket, agentLabel, checkInTime);
 
-    // Validate event timing BEFORE hitting the database for ticket
-    const now = new Date();
-    // startDate can be null for draft events, but agents can only access published events with valid dates
-    const eventStart = new Date(agentCode.event.startDate!);
-    const fiveHoursBefore = new Date(eventStart.getTime() - 5 * 60 * 60 * 1000);
+    if (!entry.admitted) {
+      const { refusal } = entry;
+      if (refusal.reason === 'INVALID_STATUS' || refusal.reason === 'NO_SESSION_ACCESS') {
+        return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+          success: false,
+          message: refusal.message,
+          ticket: { ticketNumber: ticket.ticketNumber, status: ticket.status },
+        });
+      }
 
-    if (now < fiveHoursBefore) {
-      return {
+      if (refusal.reason === 'DAILY_LIMIT') {
+        return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+          success: false,
+          message: refusal.message,
+          ticket: summary,
+        });
+      }
+
+      if (session) {
+        const admission = await this.prisma.sessionAdmission.findUnique({
+          where: { ticketId_sessionId: { ticketId: ticket.id, sessionId: session.id } },
+        });
+        return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+          success: false,
+          message: refusal.message,
+          checkedInAt: admission?.admittedAt,
+          checkedInBy: admission?.admittedBy,
+          ticket: summary,
+        });
+      }
+
+      // Re-read who let the ticket in last, in case another agent just did
+      const current = await this.prisma.ticket.findUnique({
+        where: { id: ticket.id },
+        select: { checkedInAt: true, checkedInBy: true, lastEntryAt: true, lastEntryBy: true },
+      });
+      return this.logAgentScan(scan, eventId, sanitizedQrCode, {
         success: false,
-        message: `Check-in opens 5 hours before event start (${eventStart.toLocaleString()})`,
-      };
+        message: refusal.message,
+        checkedInAt: current?.lastEntryAt || current?.checkedInAt,
+        checkedInBy: current?.lastEntryBy || current?.checkedInBy,
+        ticket: summary,
+      });
     }
 
-    // Check if event has ended (allow 24 hour grace period)
-    const eventEnd = agentCode.event.endDate
-      ? new Date(agentCode.event.endDate)
-      : eventStart;
-    const gracePeriodEnd = new Date(eventEnd.getTime() + 24 * 60 * 60 * 1000);
+    // Successfully checked in - increment agent counter
+    await this.prisma.agentAccessCode.update({
+      where: { id: agentCode.id },
+      data: {
+        checkInCount: { increment: 1 },
+        lastUsedAt: checkInTime,
+      },
+    });
+
+    this.logger.log(
+      `Agent ${agentLabel} checked in ticket ${ticket.ticketNumber}${entry.reentry ? ' (re-entry)' : ''}${session ? ` to ${session.name}` : ''} for event ${agentCode.event.title}`,
+    );
 
-    if (now > gracePeriodEnd) {
+    return this.logAgentScan(scan, eventId, sanitizedQrCode, {
+      success: true,
+      message: session
+        ? `Ticket admitted to ${session.name}`
+        : entry.reentry
+          ? 'Ticket re-entry checked in'
+          : 'Ticket checked in successfully',
+      ticket: { ...summary, checkedInAt: checkInTime, checkedInBy: agentLabel },
+    });
+  }
+
+  /**
+   * Check a ticket out at the exit with an agent session token, so it can re-enter
+   * later. Only tiers with re-entry enabled can be checked out.
+   */
+  async agentCheckOut(
+    qrCode: string,
+    agentToken: string,
+    device: { deviceId?: string; userAgent?: string } = {},
+  ) {
+    const sanitizedQrCode = qrCode?.trim();
+    if (!sanitizedQrCode || sanitizedQrCode.length > MAX_QR_CODE_LENGTH) {
       return {
         success: false,
-        message: 'Event has ended. Check-in is no longer available.',
+        message: 'Invalid QR code format',
       };
     }
 
-    // Use a transaction with ATOMIC updateMany to prevent race conditions
-    // This ensures only ONE request can successfully check in a ticket
-    try {
-      const result = await this.prisma.$transaction(async (tx) => {
-        // First, find the ticket
-        const ticket = await tx.ticket.findFirst({
-          where: {
-            OR: [{ qrCode: sanitizedQrCode }, { ticketNumber: sanitizedQrCode }],
-            eventId,
-          },
-          include: {
-            tier: true,
-          },
-        });
+    const agentCode = await this.authenticateAgent(agentToken);
+    const eventId = agentCode.eventId;
+    const agentLabel = agentCode.label || `Agent-${agentCode.code.substring(0, 4)}`;
 
-        if (!ticket) {
-          return {
-            success: false,
-            message: 'Invalid QR code or ticket not found for this event',
-          };
-        }
+    const found = await this.findScannedTicket(sanitizedQrCode, eventId);
+    const exit = found.ticket
+      ? await this.ticketEntryService.checkOut(found.ticket)
+      : { checkedOut: false as const, message: found.message, duplicate: false };
 
-        // Check current status
-        if (ticket.status === 'CHECKED_IN') {
-          return {
-            success: false,
-            message: 'Ticket already checked in',
-            checkedInAt: ticket.checkedInAt,
-            checkedInBy: ticket.checkedInBy,
-            ticket: {
-              ticketNumber: ticket.ticketNumber,
-              tierName: ticket.tier.name,
-              buyerName: `${ticket.buyerFirstName || ''} ${ticket.buyerLastName || ''}`.trim() || 'Guest',
-            },
-          };
+    await this.scanEventsService.record({
+      source: 'AGENT',
+      agentCodeId: agentCode.id,
+      gate: agentLabel,
+      ...device,
+      eventId,
+      action: 'CHECK_OUT',
+      result: exit.checkedOut ? 'ACCEPTED' : exit.duplicate ? 'DUPLICATE' : 'REJECTED',
+      reason: exit.checkedOut ? undefined : exit.message,
+      scannedValue: sanitizedQrCode,
+      ticketId: found.ticket?.id,
+      ticketNumber: found.ticket?.ticketNumber,
+    });
+
+    return {
+      success: exit.checkedOut,
+      message: exit.checkedOut ? 'Ticket checked out - it can re-enter later' : exit.message,
+      ticket: found.ticket ? this.ticketSummary(found.ticket) : undefined,
+    };
+  }
+
+  /**
+   * Record an online agent scan in the scan log, passing its result through.
+   * A failed scan that reports when the ticket was checked in is a duplicate.
+   */
+  private async logAgentScan<
+    T extends { success: boolean; message: string; ticket?: { ticketNumber: string } },
+  >(scan: ScanContext, eventId: string, scannedValue: string, result: T): Promise<T> {
+    await this.scanEventsService.record({
+      ...scan,
+      eventId,
+      action: 'CHECK_IN',
+      result: result.success ? 'ACCEPTED' : 'checkedInAt' in result ? 'DUPLICATE' : 'REJECTED',
+      reason: result.success ? undefined : result.message,
+      scannedValue,
+      ticketNumber: result.ticket?.ticketNumber,
+    });
+    return result;
+  }
+
+  /**
+   * Download the event's valid tickets for offline scanning.
+   * The manifest is AES-256-GCM encrypted with a key derived from the access code, so a
+   * copy left on a lost device is useless without the code. Scanned codes are matched by
+   * their SHA-256 hash, never stored in the clear.
+   */
+  async getOfflineManifest(agentToken: string) {
+    const agentCode = await this.authenticateAgent(agentToken);
+    const eventId = agentCode.eventId;
+
+    const tickets = await this.prisma.ticket.findMany({
+      where: { eventId, status: { in: ['ACTIVE', 'CHECKED_IN'] } },
+      select: {
+        ticketNumber: true,
+        qrCode: true,
+        checkedInAt: true,
+        checkedInBy: true,
+        buyerFirstName: true,
+        buyerLastName: true,
+        tierId: true,
+        tier: { select: { name: true } },
+      },
+    });
+
+    const generatedAt = new Date();
+    const manifest = {
+      eventId,
+      generatedAt,
+      tickets: tickets.map((ticket) => ({
+        ticketNumber: ticket.ticketNumber,
+        qrHash: crypto.createHash('sha256').update(ticket.qrCode).digest('base64url'),
+        tierName: ticket.tier.name,
+        buyerName: `${ticket.buyerFirstName || ''} ${ticket.buyerLastName || ''}`.trim() || 'Guest',
+        checkedInAt: ticket.checkedInAt,
+        checkedInBy: ticket.checkedInBy,
+        // Lets the device turn away other tiers at a zone's entrance while offline
+        zoneRefusal: this.zonesService.getZoneRefusal(agentCode.zone, ticket),
+      })),
+    };
+
+    const key = Buffer.from(
+      crypto.hkdfSync('sha256', agentCode.code, eventId, MANIFEST_KEY_INFO, 32),
+    );
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(JSON.stringify(manifest), 'utf8'),
+      cipher.final(),
+      cipher.getAuthTag(), // WebCrypto expects the tag appended to the ciphertext
+    ]);
+
+    return {
+      eventId,
+      generatedAt,
+      ticketCount: tickets.length,
+      iv: iv.toString('base64'),
+      ciphertext: encrypted.toString('base64'),
+      signingKeys: await this.qrSigningService.getEventPublicKeys(eventId),
+    };
+  }
+
+  /**
+   * Sync check-ins an agent device queued while offline.
+   *
+   * Scans are applied in the order they happened (scan time, then client id), and the
+   * earliest scan of a ticket always wins - even when a later scan from another gate was
+   * synced first - so every device ends up with the same answer whatever order they sync
+   * in. Re-sending a batch is safe: scans that already won are reported as checked in.
+   */
+  async syncOfflineCheckIns(
+    agentToken: string,
+    checkIns: Array<{ clientId: string; qrCode: string; scannedAt: string }>,
+    deviceId?: string,
+  ) {
+    const agentCode = await this.authenticateAgent(agentToken);
+    const agentLabel = agentCode.label || `Agent-${agentCode.code.substring(0, 4)}`;
+    const now = new Date();
+
+    // A device clock running fast must not date a check-in in the future
+    const scans = checkIns
+      .map((scan) => ({
+        ...scan,
+        qrCode: scan.qrCode.trim(),
+        scannedAt: new Date(Math.min(new Date(scan.scannedAt).getTime(), now.getTime())),
+      }))
+      .sort(
+        (a, b) =>
+          a.scannedAt.getTime() - b.scannedAt.getTime() || a.clientId.localeCompare(b.clientId),
+      );
+
+    const results: OfflineCheckInResult[] = [];
+    let newCheckIns = 0;
+    for (const scan of scans) {
+      const { result, isNew } = await this.applyOfflineScan(agentCode, agentLabel, scan);
+      if (isNew) newCheckIns++;
+      results.push(result);
+
+      await this.scanEventsService.record({
+        source: 'AGENT_OFFLINE',
+        agentCodeId: agentCode.id,
+        gate: agentLabel,
+        deviceId,
+        eventId: agentCode.eventId,
+        action: 'CHECK_IN',
+        result: OFFLINE_SCAN_RESULTS[result.status],
+        reason: result.status === 'CHECKED_IN' ? undefined : result.message,
+        scannedValue: scan.qrCode,
+        ticketNumber: result.ticket?.ticketNumber,
+        scannedAt: scan.scannedAt,
+      });
+    }
+
+    await this.prisma.agentAccessCode.update({
+      where: { id: agentCode.id },
+      data: { checkInCount: { increment: newCheckIns }, lastUsedAt: now },
+    });
+
+    const conflicts = results.filter((result) => result.status === 'CONFLICT').length;
+    this.logger.log(
+      `Agent ${agentLabel}${deviceId ? ` (device ${deviceId})` : ''} synced ${results.length} offline scans for event ${agentCode.event.title}: ${newCheckIns} new check-ins, ${conflicts} conflicts`,
+    );
+
+    return {
+      synced: results.length,
+      checkedIn: results.filter((result) => result.status === 'CHECKED_IN').length,
+      conflicts,
+      rejected: results.filter((result) => result.status === 'REJECTED').length,
+      results,
+    };
+  }
+
+  private async applyOfflineScan(
+    agentCode: {
+      eventId: string;
+      event: { startDate: Date | null; endDate: Date | null };
+      zone: GateZone | null;
+    },
+    agentLabel: string,
+    scan: OfflineScan,
+  ): Promise<{ result: OfflineCheckInResult; isNew: boolean }> {
+    const reject = (message: string) => ({
+      result: { clientId: scan.clientId, status: 'REJECTED' as const, message },
+      isNew: false,
+    });
+
+    const signature = await this.qrSigningService.verify(scan.qrCode);
+    if (signature.status === 'invalid') {
+      return reject(signature.message);
+    }
+    if (signature.status === 'valid' && signature.claims.eventId !== agentCode.eventId) {
+      return reject('This ticket is for a different event');
+    }
+
+    // Same window as live whole-event check-in
+    if (this.ticketEntryService.getWindowRefusal(agentCode.event, null, scan.scannedAt)) {
+      return reject('Scanned outside the check-in window');
+    }
+
+    const { where, notFoundMessage } = this.ticketLookup(scan.qrCode, signature, agentCode.eventId);
+    const ticket = await this.prisma.ticket.findFirst({ where, include: { tier: true } });
+    if (!ticket) {
+      return reject(notFoundMessage);
+    }
+
+    const zoneRefusal = this.zonesService.getZoneRefusal(agentCode.zone, ticket);
+    if (zoneRefusal) {
+      return reject(zoneRefusal);
+    }
+
+    const summary = this.ticketSummary(ticket);
+    const won = (isNew: boolean) => ({
+      result: {
+        clientId: scan.clientId,
+        status: 'CHECKED_IN' as const,
+        message: 'Ticket checked in',
+        ticket: summary,
+        checkedInAt: scan.scannedAt,
+        checkedInBy: agentLabel,
+      },
+      isNew,
+    });
+
+    // Each attempt is a conditional update on the state just read, so concurrent syncs
+    // from other gates can't both win; a lost race re-reads and decides again
+    let current: { status: string; checkedInAt: Date | null; checkedInBy: string | null } = ticket;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      if (current.status === 'ACTIVE') {
+        if (await this.ticketEntryService.recordFirstEntry(ticket.id, agentLabel, scan.scannedAt)) {
+          return won(true);
+        }
+      } else if (current.status === 'CHECKED_IN' && current.checkedInAt) {
+        // This exact scan was already synced (e.g. the device retried the batch)
+        if (
+          current.checkedInBy === agentLabel &&
+          current.checkedInAt.getTime() === scan.scannedAt.getTime()
+        ) {
+          return won(false);
         }
 
-        if (ticket.status !== 'ACTIVE') {
+        if (current.checkedInAt.getTime() <= scan.scannedAt.getTime()) {
           return {
-            success: false,
-            message: `Cannot check in ticket with status: ${ticket.status}`,
-            ticket: {
-              ticketNumber: ticket.ticketNumber,
-              status: ticket.status,
+            result: {
+              clientId: scan.clientId,
+              status: 'CONFLICT',
+              message: `Ticket was already checked in by ${current.checkedInBy || 'another gate'}`,
+              ticket: summary,
+              checkedInAt: current.checkedInAt,
+              checkedInBy: current.checkedInBy,
             },
+            isNew: false,
           };
         }
 
-        // ATOMIC CHECK-IN: Only update if status is still ACTIVE
-        // This prevents race conditions - if another request already changed the status,
-        // this updateMany will affect 0 rows
-        const checkInTime = new Date();
-        const updateResult = await tx.ticket.updateMany({
-          where: {
-            id: ticket.id,
-            status: 'ACTIVE', // CRITICAL: Only update if still ACTIVE
-          },
-          data: {
-            status: 'CHECKED_IN',
-            checkedInAt: checkInTime,
-            checkedInBy: agentLabel,
-          },
+        // This scan happened before the recorded one, so it takes over the check-in
+        const updated = await this.prisma.ticket.updateMany({
+          where: { id: ticket.id, status: 'CHECKED_IN', checkedInAt: current.checkedInAt },
+          data: { checkedInAt: scan.scannedAt, checkedInBy: agentLabel },
         });
+        if (updated.count === 1) return won(false);
+      } else {
+        return reject(`Cannot check in ticket with status: ${current.status}`);
+      }
 
-        // If no rows were updated, another request already checked in this ticket
-        if (updateResult.count === 0) {
-          // Re-fetch to get the actual current state
-          const currentTicket = await tx.ticket.findUnique({
-            where: { id: ticket.id },
-            include: { tier: true },
-          });
+      const refreshed = await this.prisma.ticket.findUnique({
+        where: { id: ticket.id },
+        select: { status: true, checkedInAt: true, checkedInBy: true },
+      });
+      if (!refreshed) {
+        return reject(notFoundMessage);
+      }
+      current = refreshed;
+    }
 
-          return {
-            success: false,
-            message: 'Ticket already checked in',
-            checkedInAt: currentTicket?.checkedInAt,
-            checkedInBy: currentTicket?.checkedInBy,
-            ticket: {
-              ticketNumber: ticket.ticketNumber,
-              tierName: ticket.tier.name,
-              buyerName: `${ticket.buyerFirstName || ''} ${ticket.buyerLastName || ''}`.trim() || 'Guest',
-            },
-          };
-        }
+    return reject('Ticket is being checked in elsewhere. Please sync again.');
+  }
 
-        // Successfully checked in - increment agent counter
-        await tx.agentAccessCode.update({
-          where: { id: agentCode.id },
-          data: {
-            checkInCount: { increment: 1 },
-            lastUsedAt: checkInTime,
-          },
-        });
+  /**
+   * Verify a scanned code and find its ticket for the event
+   */
+  private async findScannedTicket(code: string, eventId: string) {
+    const signature = await this.qrSigningService.verify(code);
+    if (signature.status === 'invalid') {
+      return { ticket: null, message: signature.message };
+    }
 
-        return {
-          success: true,
-          message: 'Ticket checked in successfully',
-          ticket: {
-            ticketNumber: ticket.ticketNumber,
-            tierName: ticket.tier.name,
-            buyerName: `${ticket.buyerFirstName || ''} ${ticket.buyerLastName || ''}`.trim() || 'Guest',
-            checkedInAt: checkInTime,
-            checkedInBy: agentLabel,
-          },
-        };
-      }, {
-        // Transaction options for better handling
-        maxWait: 5000, // Max time to wait for a connection
-        timeout: 10000, // Max time for the transaction
+    if (signature.status === 'valid' && signature.claims.eventId !== eventId) {
+      return { ticket: null, message: 'This ticket is for a different event' };
+    }
+
+    const { where, notFoundMessage } = this.ticketLookup(code, signature, eventId);
+    const ticket = await this.prisma.ticket.findFirst({ where, include: { tier: true } });
+    return ticket ? { ticket } : { ticket: null, message: notFoundMessage };
+  }
+
+  private ticketSummary(ticket: {
+    ticketNumber: string;
+    buyerFirstName: string | null;
+    buyerLastName: string | null;
+    tier: { name: string };
+    answers?: { values: string[]; question: { id: string; label: string } }[];
+  }) {
+    return {
+      ticketNumber: ticket.ticketNumber,
+      tierName: ticket.tier.name,
+      buyerName: `${ticket.buyerFirstName || ''} ${ticket.buyerLastName || ''}`.trim() || 'Guest',
+      // Registration answers the agent may need at the door (T-shirt size, dietary needs)
+      ...(ticket.answers && { answers: formatTicketAnswers(ticket.answers) }),
+    };
+  }
+
+  /**
+   * The agent code behind a session token. Agent failures are 403s rather than 401s, which
+   * the web app reserves for an expired organizer login. Deactivating the code, changing
+   * its PIN or device binding, or the end of its validity window ends the session at once.
+   */
+  private async authenticateAgent(agentToken: string) {
+    let payload: AgentTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<AgentTokenPayload>(agentToken, {
+        secret: this.configService.get<string>('jwt.secret'),
+        audience: AGENT_TOKEN_AUDIENCE,
       });
+    } catch {
+      throw new ForbiddenException('Your agent session has expired. Enter the access code again.');
+    }
 
-      if (result.success) {
-        this.logger.log(
-          `Agent ${agentLabel} checked in ticket ${result.ticket?.ticketNumber} for event ${agentCode.event.title}`,
-        );
-      }
+    const agentCode = await this.prisma.agentAccessCode.findUnique({
+      where: { id: payload.sub },
+      include: {
+        event: {
+          select: { id: true, title: true, startDate: true, endDate: true },
+        },
+        zone: { select: GATE_ZONE_SELECT },
+      },
+    });
 
-      return result;
-    } catch (error) {
-      this.logger.error(`Check-in failed for QR ${sanitizedQrCode}:`, error);
-      
-      // Handle specific Prisma errors
-      if (error.code === 'P2028') {
-        return {
-          success: false,
-          message: 'Check-in timed out. Please try again.',
-        };
-      }
-      
-      throw error;
+    if (!agentCode) {
+      throw new ForbiddenException('This access code no longer exists');
+    }
+
+    if (!agentCode.isActive) {
+      throw new ForbiddenException('This access code has been deactivated');
+    }
+
+    if (agentCode.tokenVersion !== payload.ver) {
+      throw new ForbiddenException(
+        'The organizer changed this access code. Enter the access code again.',
+      );
+    }
+
+    this.assertCodeValidNow(agentCode, agentCode.event);
+
+    return agentCode;
+  }
+
+  /**
+   * Sign a session token for an activated code. It lasts a shift, but never past the end
+   * of the code's validity window.
+   */
+  private async issueAgentSession(
+    agentCode: {
+      id: string;
+      tokenVersion: number;
+      validFrom: Date | null;
+      validUntil: Date | null;
+      event: { startDate: Date | null; endDate: Date | null };
+    },
+    deviceId?: string,
+  ) {
+    const now = Date.now();
+    const { closesAt } = this.getValidityWindow(agentCode, agentCode.event);
+    const expiresAt = new Date(
+      Math.min(now + AGENT_SESSION_TTL_MS, closesAt?.getTime() ?? Infinity),
+    );
+
+    const payload: AgentTokenPayload = { sub: agentCode.id, ver: agentCode.tokenVersion, deviceId };
+    const token = await this.jwtService.signAsync(payload, {
+      secret: this.configService.get<string>('jwt.secret'),
+      audience: AGENT_TOKEN_AUDIENCE,
+      expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - now) / 1000)),
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * When a code works: its own window, or from a day before the event until a day after,
+   * so codes handed out early don't work until they're needed
+   */
+  private getValidityWindow(
+    agentCode: { validFrom: Date | null; validUntil: Date | null },
+    event: { startDate: Date | null; endDate: Date | null },
+  ) {
+    const eventEnd = event.endDate || event.startDate;
+    return {
+      opensAt:
+        agentCode.validFrom ||
+        (event.startDate && new Date(event.startDate.getTime() - CODE_OPENS_BEFORE_MS)),
+      closesAt:
+        agentCode.validUntil || (eventEnd && new Date(eventEnd.getTime() + CODE_CLOSES_AFTER_MS)),
+    };
+  }
+
+  private assertCodeValidNow(
+    agentCode: { validFrom: Date | null; validUntil: Date | null },
+    event: { startDate: Date | null; endDate: Date | null },
+  ) {
+    const now = new Date();
+    const { opensAt, closesAt } = this.getValidityWindow(agentCode, event);
+
+    if (opensAt && now < opensAt) {
+      throw new ForbiddenException(`This access code becomes valid at ${opensAt.toLocaleString()}`);
+    }
+
+    if (closesAt && now > closesAt) {
+      throw new ForbiddenException('This access code has expired');
+    }
+  }
+
+  private assertValidWindow(validFrom: Date | null, validUntil: Date | null) {
+    if (validFrom && validUntil && validFrom >= validUntil) {
+      throw new BadRequestException('The code must stop working after it starts working');
+    }
+  }
+
+  /**
+   * Count a wrong PIN. Too many in a row deactivate the code until the organizer
+   * reactivates it, so the PIN of a photographed code can't be guessed.
+   */
+  private async rejectWrongPin(codeId: string): Promise<never> {
+    const { failedPinAttempts } = await this.prisma.agentAccessCode.update({
+      where: { id: codeId },
+      data: { failedPinAttempts: { increment: 1 } },
+      select: { failedPinAttempts: true },
+    });
+
+    if (failedPinAttempts >= MAX_PIN_ATTEMPTS) {
+      await this.prisma.agentAccessCode.update({
+        where: { id: codeId },
+        data: { isActive: false, tokenVersion: { increment: 1 } },
+      });
+      this.logger.warn(`Deactivated agent code ${codeId} after ${failedPinAttempts} wrong PINs`);
+      throw new ForbiddenException(
+        'Too many incorrect PINs. This access code has been deactivated - ask the organizer to reactivate it.',
+      );
     }
+
+    const attemptsLeft = MAX_PIN_ATTEMPTS - failedPinAttempts;
+    throw new ForbiddenException(
+      `Incorrect PIN - ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left`,
+    );
+  }
+
+  /** Agent codes as organizers see them - the PIN hash never leaves the server */
+  private formatAgentCode<T extends { pinHash: string | null }>(agentCode: T) {
+    const { pinHash, ...rest } = agentCode;
+    return { ...rest, hasPin: pinHash !== null };
+  }
+
+  /**
+   * Ticket lookup for a scanned code. A signed code must match the ticket's current
+   * code exactly; unsigned input can be a legacy code or a typed-in ticket number.
+   */
+  private ticketLookup(code: string, signature: QrSignatureCheck, eventId: string) {
+    if (signature.status === 'valid') {
+      return {
+        where: { qrCode: code, eventId },
+        notFoundMessage: 'This QR code is no longer valid - the ticket has been reissued',
+      };
+    }
+
+    return {
+      where: { OR: [{ qrCode: code }, { ticketNumber: code }], eventId },
+      notFoundMessage: 'Invalid QR code or ticket not found for this event',
+    };
   }
 }
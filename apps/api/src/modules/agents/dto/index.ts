@@ -1,6 +1,23 @@
-import { IsString, IsOptional, Length, Matches, IsNotEmpty } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  Length,
+  Matches,
+  IsNotEmpty,
+  IsArray,
+  IsDateString,
+  IsBoolean,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Transform } from 'class-transformer';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform, Type } from 'class-transformer';
+import { MAX_QR_CODE_LENGTH } from '../../qr/qr-signing.service';
+
+const PIN_PATTERN = /^\d{4,8}$/;
+const PIN_MESSAGE = 'PIN must be 4 to 8 digits';
 
 export class CreateAgentCodeDto {
   @ApiPropertyOptional({ description: 'Optional label for the agent (e.g., "Gate 1", "John")' })
@@ -9,8 +26,99 @@ export class CreateAgentCodeDto {
   @Length(1, 50)
   @Transform(({ value }) => value?.trim())
   label?: string;
+
+  @ApiPropertyOptional({
+    description: 'Zone the agent works the entrance of - omit for every tier',
+  })
+  @IsOptional()
+  @IsString()
+  zoneId?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the code starts working (ISO 8601) - defaults to 24 hours before the event',
+  })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the code stops working (ISO 8601) - defaults to 24 hours after the event',
+  })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @ApiPropertyOptional({ description: 'PIN the agent must enter to activate the code' })
+  @IsOptional()
+  @IsString()
+  @Matches(PIN_PATTERN, { message: PIN_MESSAGE })
+  pin?: string;
+
+  @ApiPropertyOptional({ description: 'Bind the code to the first device that activates it' })
+  @IsOptional()
+  @IsBoolean()
+  bindDevice?: boolean;
+}
+
+/**
+ * Changing the PIN or device binding signs out every agent using the code.
+ * null clears a field; omitted fields are left as they are.
+ */
+export class UpdateAgentCodeSecurityDto {
+  @ApiPropertyOptional({ description: 'When the code starts working (ISO 8601)', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string | null;
+
+  @ApiPropertyOptional({ description: 'When the code stops working (ISO 8601)', nullable: true })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string | null;
+
+  @ApiPropertyOptional({ description: 'New PIN, or null to remove it', nullable: true })
+  @IsOptional()
+  @IsString()
+  @Matches(PIN_PATTERN, { message: PIN_MESSAGE })
+  pin?: string | null;
+
+  @ApiPropertyOptional({ description: 'Bind the code to the first device that activates it' })
+  @IsOptional()
+  @IsBoolean()
+  bindDevice?: boolean;
+
+  @ApiPropertyOptional({ description: 'Release the device the code is bound to' })
+  @IsOptional()
+  @IsBoolean()
+  resetDevice?: boolean;
+}
+
+export class SetAgentCodeZoneDto {
+  @ApiPropertyOptional({
+    description: 'Zone to restrict the code to, or null to let it admit every tier',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  zoneId?: string | null;
+}
+
+export class CreateZoneDto {
+  @ApiProperty({ description: 'Zone name (e.g., "VIP Lounge", "Backstage")' })
+  @IsString()
+  @IsNotEmpty({ message: 'Zone name is required' })
+  @Transform(({ value }) => value?.trim())
+  @Length(1, 50)
+  name: string;
+
+  @ApiProperty({ description: 'Tiers allowed into the zone' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Choose at least one tier that can enter the zone' })
+  @IsString({ each: true })
+  tierIds: string[];
 }
 
+export class UpdateZoneDto extends PartialType(CreateZoneDto) {}
+
 export class ActivateAgentCodeDto {
   @ApiProperty({ description: 'The 9-character agent access code' })
   @IsString()
@@ -19,6 +127,18 @@ export class ActivateAgentCodeDto {
   @Length(9, 9, { message: 'Access code must be exactly 9 characters' })
   @Matches(/^[A-Z0-9]{9}$/, { message: 'Access code must contain only letters and numbers' })
   code: string;
+
+  @ApiPropertyOptional({ description: 'The PIN, for codes that have one' })
+  @IsOptional()
+  @IsString()
+  @Matches(PIN_PATTERN, { message: PIN_MESSAGE })
+  pin?: string;
+
+  @ApiPropertyOptional({ description: 'Identifier of the device, required for device-bound codes' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 64)
+  deviceId?: string;
 }
 
 export class AgentCheckInDto {
@@ -26,13 +146,68 @@ export class AgentCheckInDto {
   @IsString()
   @IsNotEmpty({ message: 'QR code or ticket number is required' })
   @Transform(({ value }) => value?.trim())
-  @Length(1, 100, { message: 'QR code is too long' })
+  @Length(1, MAX_QR_CODE_LENGTH, { message: 'QR code is too long' })
   qrCode: string;
 
-  @ApiProperty({ description: 'The agent access code for authentication' })
+  @ApiProperty({ description: 'The agent session token returned by POST /agents/activate' })
   @IsString()
-  @IsNotEmpty({ message: 'Access code is required' })
-  @Transform(({ value }) => value?.toUpperCase().trim())
-  @Length(9, 9, { message: 'Access code must be exactly 9 characters' })
-  accessCode: string;
+  @IsNotEmpty({ message: 'Agent session token is required' })
+  agentToken: string;
+
+  @ApiPropertyOptional({ description: 'Identifier of the scanning device, for the scan log' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 64)
+  deviceId?: string;
+
+  @ApiPropertyOptional({ description: 'Session to admit the ticket to, on multi-day events' })
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+}
+
+export class OfflineManifestDto {
+  @ApiProperty({ description: 'The agent session token returned by POST /agents/activate' })
+  @IsString()
+  @IsNotEmpty({ message: 'Agent session token is required' })
+  agentToken: string;
+}
+
+export class OfflineCheckInDto {
+  @ApiProperty({ description: 'Id the device gave this scan, echoed back in the sync result' })
+  @IsString()
+  @Length(1, 64)
+  clientId: string;
+
+  @ApiProperty({ description: 'The QR code or ticket number that was scanned' })
+  @IsString()
+  @IsNotEmpty({ message: 'QR code or ticket number is required' })
+  @Transform(({ value }) => value?.trim())
+  @Length(1, MAX_QR_CODE_LENGTH, { message: 'QR code is too long' })
+  qrCode: string;
+
+  @ApiProperty({ description: 'When the device scanned the ticket (ISO 8601)' })
+  @IsDateString()
+  scannedAt: string;
+}
+
+export class SyncOfflineCheckInsDto {
+  @ApiProperty({ description: 'The agent session token returned by POST /agents/activate' })
+  @IsString()
+  @IsNotEmpty({ message: 'Agent session token is required' })
+  agentToken: string;
+
+  @ApiPropertyOptional({ description: 'Identifier of the scanning device, for the logs' })
+  @IsOptional()
+  @IsString()
+  @Length(1, 64)
+  deviceId?: string;
+
+  @ApiProperty({ type: [OfflineCheckInDto], description: 'Check-ins queued while offline' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Nothing to sync' })
+  @ArrayMaxSize(500, { message: 'Sync at most 500 check-ins at a time' })
+  @ValidateNested({ each: true })
+  @Type(() => OfflineCheckInDto)
+  checkIns: OfflineCheckInDto[];
 }
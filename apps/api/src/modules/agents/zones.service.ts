@@ -0,0 +1,219 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { CreateZoneDto, UpdateZoneDto } from './dto';
+
+/** The zone fields a gate decision is made on */
+export interface GateZone {
+  id: string;
+  name: string;
+  tiers: { id: string }[];
+}
+
+export const GATE_ZONE_SELECT = {
+  id: true,
+  name: true,
+  tiers: { select: { id: true } },
+} as const;
+
+const ZONE_INCLUDE = {
+  tiers: { select: { id: true, name: true } },
+  _count: { select: { agentCodes: true } },
+} as const;
+
+/**
+ * Restricted zones of an event (VIP lounge, backstage, ...) and the tiers allowed into
+ * each. An agent code assigned to a zone turns away tickets of any other tier.
+ */
+@Injectable()
+export class ZonesService {
+  private readonly logger = new Logger(ZonesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a zone for an event
+   * Only organizers can create zones for their events
+   */
+  async createZone(eventId: string, organizerId: string, dto: CreateZoneDto) {
+    const event = await this.getOwnedEvent(eventId, organizerId);
+
+    await this.assertValidZone(eventId, dto.name, dto.tierIds);
+
+    const zone = await this.prisma.eventZone.create({
+      data: {
+        eventId,
+        name: dto.name,
+        tiers: { connect: dto.tierIds.map((id) => ({ id })) },
+      },
+      include: ZONE_INCLUDE,
+    });
+
+    this.logger.log(`Created zone ${zone.name} for event ${event.title}`);
+
+    return this.formatZone(zone);
+  }
+
+  /**
+   * Get an event's zones with their tiers and how many agent codes work each one
+   */
+  async getEventZones(eventId: string, organizerId: string) {
+    await this.getOwnedEvent(eventId, organizerId);
+
+    const zones = await this.prisma.eventZone.findMany({
+      where: { eventId },
+      include: ZONE_INCLUDE,
+      orderBy: { name: 'asc' },
+    });
+
+    return zones.map((zone) => this.formatZone(zone));
+  }
+
+  /**
+   * Rename a zone or change its tiers. Passing tierIds replaces the tiers allowed in.
+   */
+  async updateZone(zoneId: string, organizerId: string, dto: UpdateZoneDto) {
+    const zone = await this.getOwnedZone(zoneId, organizerId);
+
+    await this.assertValidZone(zone.eventId, dto.name, dto.tierIds, zone.id);
+
+    const updated = await this.prisma.eventZone.update({
+      where: { id: zoneId },
+      data: {
+        name: dto.name,
+        ...(dto.tierIds && { tiers: { set: dto.tierIds.map((id) => ({ id })) } }),
+      },
+      include: ZONE_INCLUDE,
+    });
+
+    return this.formatZone(updated);
+  }
+
+  /**
+   * Delete a zone. Agent codes still assigned to it must be moved first, so no
+   * entrance silently starts admitting every tier.
+   */
+  async deleteZone(zoneId: string, organizerId: string) {
+    const zone = await this.getOwnedZone(zoneId, organizerId);
+
+    const codeCount = await this.prisma.agentAccessCode.count({ where: { zoneId: zone.id } });
+    if (codeCount > 0) {
+      throw new BadRequestException(
+        'Agent codes are still assigned to this zone. Move them to another zone first.',
+      );
+    }
+
+    await this.prisma.eventZone.delete({ where: { id: zoneId } });
+
+    return { message: 'Zone deleted successfully' };
+  }
+
+  /**
+   * Check a zone belongs to the event before an agent code is assigned to it
+   */
+  async assertEventZone(zoneId: string, eventId: string) {
+    const zone = await this.prisma.eventZone.findFirst({
+      where: { id: zoneId, eventId },
+      select: { id: true },
+    });
+
+    if (!zone) {
+      throw new BadRequestException('Zone not found for this event');
+    }
+  }
+
+  /**
+   * Why a ticket can't enter through a zone's entrance, or null if its tier is allowed in
+   */
+  getZoneRefusal(
+    zone: GateZone | null,
+    ticket: { tierId: string; tier: { name: string } },
+  ): string | null {
+    if (!zone || zone.tiers.some((tier) => tier.id === ticket.tierId)) {
+      return null;
+    }
+    return `${ticket.tier.name} tickets don't have access to ${zone.name}`;
+  }
+
+  private formatZone(zone: {
+    id: string;
+    name: string;
+    tiers: { id: string; name: string }[];
+    _count: { agentCodes: number };
+  }) {
+    return {
+      id: zone.id,
+      name: zone.name,
+      tiers: zone.tiers,
+      agentCodeCount: zone._count.agentCodes,
+    };
+  }
+
+  private async assertValidZone(
+    eventId: string,
+    name: string | undefined,
+    tierIds: string[] | undefined,
+    zoneId?: string,
+  ) {
+    if (name) {
+      const existing = await this.prisma.eventZone.findUnique({
+        where: { eventId_name: { eventId, name } },
+      });
+      if (existing && existing.id !== zoneId) {
+        throw new BadRequestException(`A zone called ${name} already exists for this event`);
+      }
+    }
+
+    if (tierIds) {
+      if (tierIds.length === 0) {
+        throw new BadRequestException('Choose at least one tier that can enter the zone');
+      }
+
+      const tierCount = await this.prisma.ticketTier.count({
+        where: { eventId, id: { in: tierIds } },
+      });
+      if (tierCount !== new Set(tierIds).size) {
+        throw new BadRequestException('Zones can only include tiers of this event');
+      }
+    }
+  }
+
+  private async getOwnedEvent(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, organizerId: true, title: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage zones for your own events');
+    }
+
+    return event;
+  }
+
+  private async getOwnedZone(zoneId: string, organizerId: string) {
+    const zone = await this.prisma.eventZone.findUnique({
+      where: { id: zoneId },
+      include: { event: { select: { organizerId: true } } },
+    });
+
+    if (!zone) {
+      throw new NotFoundException('Zone not found');
+    }
+
+    if (zone.event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage zones for your own events');
+    }
+
+    return zone;
+  }
+}
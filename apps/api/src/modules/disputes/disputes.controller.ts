@@ -0,0 +1,32 @@
+import { Controller, Get, UseGuards, Request } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { DisputesService } from './disputes.service';
+import { UserRole } from '../../common/types/prisma-enums';
+
+interface AuthenticatedRequest {
+  user: {
+    id: string;
+    email: string;
+    role: string;
+    organizerProfileId?: string;
+  };
+}
+
+@Controller('disputes')
+@UseGuards(JwtAuthGuard)
+export class DisputesController {
+  constructor(private readonly disputesService: DisputesService) {}
+
+  /**
+   * GET /disputes/organizer
+   * Chargebacks raised against the organizer's payments
+   */
+  @Get('organizer')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  async getOrganizerDisputes(@Request() req: AuthenticatedRequest) {
+    return this.disputesService.getDisputesByOrganizer(req.user.organizerProfileId || '');
+  }
+}
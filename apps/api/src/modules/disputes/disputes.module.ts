@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DisputesController } from './disputes.controller';
+import { DisputesService } from './disputes.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { EmailModule } from '../emails/email.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+
+@Module({
+  imports: [LedgerModule, EmailModule, WaitlistModule],
+  controllers: [DisputesController],
+  providers: [DisputesService],
+  exports: [DisputesService],
+})
+export class DisputesModule {}
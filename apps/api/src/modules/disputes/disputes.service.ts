@@ -0,0 +1,410 @@
+import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import { Ticket } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { EmailService } from '../emails/email.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { DisputeStatus } from '../../common/types/prisma-enums';
+import { Decimal } from '@prisma/client/runtime/library';
+import { OpenDisputeDto, AddDisputeEvidenceDto } from './dto';
+
+const toNumber = (value: any) => (value instanceof Decimal ? value.toNumber() : Number(value || 0));
+
+/**
+ * Chargebacks raised by buyers with their bank. While a dispute is open the payment's
+ * tickets are frozen and the organizer is debited; a won dispute reverses both, a lost
+ * one cancels the tickets. A negative balance is recovered from the organizer's next sales.
+ */
+@Injectable()
+export class DisputesService {
+  private readonly logger = new Logger(DisputesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+    private emailService: EmailService,
+    private waitlistService: WaitlistService,
+  ) {}
+
+  async openDispute(dto: OpenDisputeDto, adminId: string) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { reference: dto.paymentReference },
+      include: {
+        event: true,
+        tickets: { include: { refund: true } },
+        disputes: { where: { status: 'OPEN' } },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Payment not found');
+    }
+
+    if (payment.status !== 'SUCCESS') {
+      throw new BadRequestException(`Cannot dispute a payment with status: ${payment.status}`);
+    }
+
+    if (payment.disputes.length > 0) {
+      throw new BadRequestException('This payment already has an open dispute');
+    }
+
+    if (payment.tickets.some((ticket) => ticket.status === 'REFUNDED')) {
+      throw new BadRequestException('Tickets on this payment have already been refunded');
+    }
+
+    if (
+      payment.tickets.some(
+        (ticket) => ticket.refund && ['APPROVED', 'PROCESSING'].includes(ticket.refund.status),
+      )
+    ) {
+      throw new BadRequestException('A refund is in progress for this payment');
+    }
+
+    const paymentAmount = toNumber(payment.amount);
+    const chargedBack = dto.amount ?? paymentAmount;
+    if (paymentAmount <= 0) {
+      throw new BadRequestException('Nothing was paid on this payment');
+    }
+    if (chargedBack > paymentAmount) {
+      throw new BadRequestException('Dispute amount cannot exceed the payment amount');
+    }
+
+    const organizerId = payment.organizerId || payment.event.organizerId;
+
+    // The organizer only ever received their credit for the payment (the platform kept its
+    // fee, and on a resale the seller was paid), so that share of the chargeback is theirs
+    const credited = await this.prisma.ledgerEntry.aggregate({
+      where: {
+        paymentId: payment.id,
+        organizerId,
+        type: { in: ['TICKET_SALE', 'RESALE_ROYALTY'] },
+      },
+      _sum: { amount: true },
+    });
+    const organizerShare = toNumber(credited._sum.amount) * (chargedBack / paymentAmount);
+    const amount = Math.round(organizerShare * 100) / 100;
+    const platformShare = Math.round((chargedBack - amount) * 100) / 100;
+    const ticketIds = payment.tickets.map((ticket) => ticket.id);
+
+    const dispute = await this.prisma.$transaction(async (tx: any) => {
+      const created = await tx.dispute.create({
+        data: {
+          paymentId: payment.id,
+          organizerId,
+          reason: dto.reason,
+          amount,
+          providerCaseRef: dto.providerCaseRef || null,
+          evidenceDueAt: dto.evidenceDueAt ? new Date(dto.evidenceDueAt) : null,
+          openedBy: adminId,
+        },
+      });
+
+      // The chargeback pays the buyer back, so a refund they asked for must not as well
+      await tx.refund.updateMany({
+        where: { ticketId: { in: ticketIds }, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          rejectionNote: 'The payment is under a chargeback dispute',
+          processedBy: adminId,
+          processedAt: new Date(),
+        },
+      });
+
+      // Frozen tickets can't be scanned, transferred or resold
+      await tx.ticket.updateMany({
+        where: { id: { in: ticketIds }, status: 'ACTIVE' },
+        data: { status: 'FROZEN' },
+      });
+
+      await tx.resaleListing.updateMany({
+        where: { ticketId: { in: ticketIds }, status: 'ACTIVE' },
+        data: { status: 'CANCELLED', cancelledAt: new Date() },
+      });
+
+      // Allowed to go negative - future sales pay it back
+      const organizer = await tx.organizerProfile.update({
+        where: { id: organizerId },
+        data: { availableBalance: { decrement: amount } },
+      });
+
+      if (ticketIds.length > 0) {
+        await this.ledgerService.recordChargeback(
+          {
+            organizerId,
+            ticketId: ticketIds[0],
+            amount,
+            pendingBalanceAfter: toNumber(organizer.pendingBalance),
+            availableBalanceAfter: toNumber(organizer.availableBalance),
+            externalReference: created.providerCaseRef || created.id,
+            paymentId: payment.id,
+            paymentReference: payment.reference,
+            description: `Chargeback for payment ${payment.reference}`,
+            createdBy: adminId,
+          },
+          tx,
+        );
+      }
+
+      return created;
+    });
+
+    if (ticketIds.length > 0) {
+      if (platformShare > 0) {
+        await this.ledgerService.recordChargebackFee({
+          organizerId,
+          ticketId: ticketIds[0],
+          amount: platformShare,
+          externalReference: dispute.providerCaseRef || dispute.id,
+          paymentId: payment.id,
+          paymentReference: payment.reference,
+          description: `Platform share of chargeback for payment ${payment.reference}`,
+          createdBy: adminId,
+        });
+      }
+    }
+
+    this.logger.log(
+      `Dispute ${dispute.id} opened on payment ${payment.reference} for ₦${chargedBack} (organizer ₦${amount}, platform ₦${platformShare})`,
+    );
+    await this.notifyOrganizer(dispute.id, 'opened');
+
+    return dispute;
+  }
+
+  async addEvidence(disputeId: string, dto: AddDisputeEvidenceDto, adminId: string) {
+    const dispute = await this.prisma.dispute.findUnique({ where: { id: disputeId } });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    if (dispute.status !== 'OPEN') {
+      throw new BadRequestException('Evidence can only be added to an open dispute');
+    }
+
+    return this.prisma.disputeEvidence.create({
+      data: {
+        disputeId,
+        description: dto.description,
+        fileUrl: dto.fileUrl || null,
+        fileName: dto.fileName || null,
+        addedBy: adminId,
+      },
+    });
+  }
+
+  /**
+   * WON: unfreeze the tickets and credit the organizer back.
+   * LOST: the money stays with the buyer, so the tickets are cancelled and their seats returned
+   * to the waitlist.
+   */
+  async resolveDispute(
+    disputeId: string,
+    outcome: 'WON' | 'LOST',
+    note: string | undefined,
+    adminId: string,
+  ) {
+    const releasedTierIds: string[] = await this.prisma.$transaction(async (tx: any) => {
+      const claimed = await tx.dispute.updateMany({
+        where: { id: disputeId, status: 'OPEN' },
+        data: {
+          status: outcome,
+          resolvedAt: new Date(),
+          resolvedBy: adminId,
+          resolutionNote: note || null,
+        },
+      });
+
+      if (claimed.count === 0) {
+        const existing = await tx.dispute.findUnique({ where: { id: disputeId } });
+        if (!existing) {
+          throw new NotFoundException('Dispute not found');
+        }
+        throw new BadRequestException(`Dispute is already ${existing.status}`);
+      }
+
+      const current = await tx.dispute.findUnique({
+        where: { id: disputeId },
+        include: { payment: { include: { tickets: true } } },
+      });
+      const tickets: Ticket[] = current.payment.tickets;
+      const frozen = tickets.filter((ticket) => ticket.status === 'FROZEN');
+
+      if (outcome === 'WON') {
+        await tx.ticket.updateMany({
+          where: { id: { in: frozen.map((ticket) => ticket.id) } },
+          data: { status: 'ACTIVE' },
+        });
+
+        const organizer = await tx.organizerProfile.update({
+          where: { id: current.organizerId },
+          data: { availableBalance: { increment: current.amount } },
+        });
+
+        if (current.payment.tickets.length > 0) {
+          await this.ledgerService.recordChargebackReversal(
+            {
+              organizerId: current.organizerId,
+              ticketId: current.payment.tickets[0].id,
+              amount: toNumber(current.amount),
+              pendingBalanceAfter: toNumber(organizer.pendingBalance),
+              availableBalanceAfter: toNumber(organizer.availableBalance),
+              externalReference: current.providerCaseRef || current.id,
+              paymentId: current.paymentId,
+              paymentReference: current.payment.reference,
+              description: `Chargeback reversed for payment ${current.payment.reference}`,
+              createdBy: adminId,
+            },
+            tx,
+          );
+        }
+
+        // The platform keeps its share too
+        await tx.ledgerEntry.updateMany({
+          where: {
+            type: 'CHARGEBACK_FEE',
+            paymentId: current.paymentId,
+            externalReference: current.providerCaseRef || current.id,
+          },
+          data: { status: 'REVERSED' },
+        });
+
+        return [];
+      } else {
+        await tx.ticket.updateMany({
+          where: { id: { in: frozen.map((ticket) => ticket.id) } },
+          data: { status: 'CANCELLED' },
+        });
+
+        // Return capacity: one seat per cancelled ticket
+        for (const ticket of frozen) {
+          await tx.ticketTier.updateMany({
+            where: { id: ticket.tierId, sold: { gt: 0 } },
+            data: { sold: { decrement: 1 } },
+          });
+        }
+
+        return [...new Set<string>(frozen.map((ticket) => ticket.tierId))];
+      }
+    });
+
+    // The returned seats go to the next people on each tier's waitlist
+    for (const tierId of releasedTierIds) {
+      try {
+        await this.waitlistService.offerReleasedSeats(tierId);
+      } catch (error) {
+        this.logger.error(`Failed to offer seats released by dispute ${disputeId}`, error);
+      }
+    }
+
+    this.logger.log(`Dispute ${disputeId} resolved as ${outcome}`);
+    await this.notifyOrganizer(disputeId, outcome === 'WON' ? 'won' : 'lost');
+
+    return this.getDispute(disputeId);
+  }
+
+  async getDisputes(params: { page?: number; limit?: number; status?: string }) {
+    const { page = 1, limit = 20, status } = params;
+    const skip = (page - 1) * limit;
+    const where: any = status && status !== 'all' ? { status } : {};
+
+    const [disputes, total, statusCounts] = await Promise.all([
+      this.prisma.dispute.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          payment: {
+            select: { reference: true, amount: true, buyerEmail: true, provider: true },
+          },
+          organizer: { select: { id: true, title: true } },
+          _count: { select: { evidence: true } },
+        },
+      }),
+      this.prisma.dispute.count({ where }),
+      this.prisma.dispute.groupBy({ by: ['status'], _count: { _all: true } }),
+    ]);
+
+    const counts = Object.fromEntries(
+      Object.values(DisputeStatus).map((disputeStatus) => [disputeStatus, 0]),
+    ) as Record<DisputeStatus, number>;
+    for (const row of statusCounts) {
+      counts[row.status as DisputeStatus] = row._count._all;
+    }
+
+    return {
+      disputes,
+      counts,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getDispute(disputeId: string) {
+    const dispute = await this.prisma.dispute.findUnique({
+      where: { id: disputeId },
+      include: {
+        evidence: { orderBy: { createdAt: 'asc' } },
+        organizer: { select: { id: true, title: true } },
+        payment: {
+          include: {
+            event: { select: { id: true, title: true } },
+            tickets: {
+              select: { id: true, ticketNumber: true, status: true, buyerEmail: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  async getDisputesByOrganizer(organizerId: string) {
+    return this.prisma.dispute.findMany({
+      where: { organizerId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        payment: {
+          select: {
+            reference: true,
+            amount: true,
+            paidAt: true,
+            event: { select: { id: true, title: true } },
+          },
+        },
+        _count: { select: { evidence: true } },
+      },
+    });
+  }
+
+  private async notifyOrganizer(disputeId: string, status: 'opened' | 'won' | 'lost') {
+    try {
+      const dispute = await this.prisma.dispute.findUniqueOrThrow({
+        where: { id: disputeId },
+        include: {
+          payment: { include: { event: true } },
+          organizer: { include: { user: true } },
+        },
+      });
+
+      await this.emailService.sendDisputeEmail(dispute.organizer.user.email, {
+        eventTitle: dispute.payment.event.title,
+        paymentReference: dispute.payment.reference,
+        amount: toNumber(dispute.amount),
+        status,
+        reason: status === 'opened' ? dispute.reason : dispute.resolutionNote || undefined,
+        evidenceDueAt: dispute.evidenceDueAt,
+        organizerName: dispute.organizer.title,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to notify organizer about dispute ${disputeId}`, error);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class AddDisputeEvidenceDto {
+  @ApiProperty({ example: 'Check-in record showing the ticket was scanned at the gate' })
+  @IsString({ message: 'Description is required' })
+  @MaxLength(2000, { message: 'Description must be less than 2000 characters' })
+  @Transform(({ value }) => value?.trim())
+  description: string;
+
+  @ApiPropertyOptional({ description: 'URL of a file uploaded through /media' })
+  @IsOptional()
+  @IsUrl({}, { message: 'File URL must be a valid URL' })
+  fileUrl?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  fileName?: string;
+}
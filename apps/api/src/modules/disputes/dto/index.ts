@@ -0,0 +1,3 @@
+export * from './open-dispute.dto';
+export * from './add-dispute-evidence.dto';
+export * from './resolve-dispute.dto';
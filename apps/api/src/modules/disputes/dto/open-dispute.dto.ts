@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsNumber, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class OpenDisputeDto {
+  @ApiProperty({
+    description: 'Reference of the disputed payment',
+    example: 'HD-1700000000-ABC123',
+  })
+  @IsString({ message: 'Payment reference is required' })
+  @Transform(({ value }) => value?.trim())
+  paymentReference: string;
+
+  @ApiProperty({ description: 'Why the buyer disputed the payment', example: 'Goods not received' })
+  @IsString({ message: 'Reason is required' })
+  @MaxLength(500, { message: 'Reason must be less than 500 characters' })
+  @Transform(({ value }) => value?.trim())
+  reason: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Amount charged back in Naira; defaults to the payment amount. The organizer is debited their share of it',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Amount must be a number' })
+  @Min(1, { message: 'Amount must be at least ₦1' })
+  amount?: number;
+
+  @ApiPropertyOptional({ description: "The gateway's case reference" })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  providerCaseRef?: string;
+
+  @ApiPropertyOptional({ description: 'Deadline for sending evidence to the gateway' })
+  @IsOptional()
+  @IsDateString({}, { message: 'Evidence deadline must be a valid date' })
+  evidenceDueAt?: string;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ResolveDisputeDto {
+  @ApiProperty({ enum: ['WON', 'LOST'], description: 'WON if the gateway decided for us' })
+  @IsIn(['WON', 'LOST'], { message: 'Outcome must be WON or LOST' })
+  outcome: 'WON' | 'LOST';
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
@@ -335,7 +335,7 @@ export class EmailService {
       ticketNumber: string;
       eventTitle: string;
       refundAmount: number;
-      status: 'requested' | 'approved' | 'rejected' | 'processed';
+      status: 'requested' | 'approved' | 'rejected' | 'processed' | 'failed';
       reason?: string;
       buyerName?: string;
     },
@@ -390,6 +390,16 @@ export class EmailService {
         `;
         subject = 'Refund Processed';
         break;
+      case 'failed':
+        emoji = '⚠️';
+        statusHtml = `
+          <div style="background: #fef3c7; border-left: 4px solid #f59e0b; padding: 16px; border-radius: 0 8px 8px 0; margin-bottom: 24px;">
+            <strong style="color: #92400e;">⚠️ Refund Delayed</strong>
+            <p style="color: #92400e; margin: 8px 0 0 0;">The payment provider couldn't send your refund of ${formattedAmount}. No money has left your account and your ticket is valid again while our team retries the refund. We'll email you as soon as it goes through.</p>
+          </div>
+        `;
+        subject = 'Refund Delayed';
+        break;
     }
 
     const html = this.getEmailTemplate({
@@ -433,6 +443,328 @@ export class EmailService {
     return this.send(to, `${subject} - hdticketdesk`, html);
   }
 
+  async sendOrganizerRefundEmail(
+    to: string,
+    data: {
+      ticketNumber: string;
+      eventTitle: string;
+      refundAmount: number;
+      status: 'processed' | 'failed';
+      reason?: string;
+      organizerName?: string;
+    },
+  ) {
+    const formattedAmount = new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN',
+    }).format(data.refundAmount);
+
+    const statusHtml =
+      data.status === 'processed'
+        ? `
+          <div style="background: #d1fae5; border-left: 4px solid #10b981; padding: 16px; border-radius: 0 8px 8px 0; margin-bottom: 24px;">
+            <strong style="color: #065f46;">✅ Refund Completed</strong>
+            <p style="color: #065f46; margin: 8px 0 0 0;">The refund of ${formattedAmount} you approved has reached the buyer. The ticket has been cancelled and its seat released.</p>
+          </div>
+        `
+        : `
+          <div style="background: #fee2e2; border-left: 4px solid #ef4444; padding: 16px; border-radius: 0 8px 8px 0; margin-bottom: 24px;">
+            <strong style="color: #991b1b;">❌ Refund Failed</strong>
+            <p style="color: #991b1b; margin: 8px 0 0 0;">The payment provider couldn't complete the refund of ${formattedAmount}${data.reason ? `: ${data.reason}` : '.'} It has been added back to your available balance and the ticket is active again until our team retries it.</p>
+          </div>
+        `;
+    const subject = data.status === 'processed' ? 'Refund Completed' : 'Refund Failed';
+
+    const html = this.getEmailTemplate({
+      title: subject,
+      preheader: `Refund ${data.status} for ${data.eventTitle}`,
+      content: `
+        <h1 style="color: #1f2937; font-size: 24px; margin-bottom: 16px;">${data.organizerName ? `Hi ${data.organizerName}, ` : ''}Refund Update</h1>
+        ${statusHtml}
+        <div style="background: #f9fafb; border-radius: 8px; padding: 16px; margin-bottom: 24px;">
+          <table style="width: 100%;" cellpadding="0" cellspacing="0">
+            <tr>
+              <td style="padding: 8px 0; color: #4b5563; border-bottom: 1px solid #e5e7eb;">
+                <strong>Event</strong>
+              </td>
+              <td style="padding: 8px 0; color: #1f2937; border-bottom: 1px solid #e5e7eb; text-align: right;">
+                ${data.eventTitle}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding: 8px 0; color: #4b5563; border-bottom: 1px solid #e5e7eb;">
+                <strong>Ticket</strong>
+              </td>
+              <td style="padding: 8px 0; color: #1f2937; border-bottom: 1px solid #e5e7eb; text-align: right;">
+                #${data.ticketNumber}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding: 8px 0; color: #4b5563;">
+                <strong>Amount</strong>
+              </td>
+              <td style="padding: 8px 0; color: #7c3aed; font-weight: 600; text-align: right;">
+                ${formattedAmount}
+              </td>
+            </tr>
+          </table>
+        </div>
+        <p style="color: #6b7280; font-size: 14px;">If you have any questions about this refund, please contact our support team.</p>
+      `,
+    });
+
+    return this.send(to, `${subject} - hdticketdesk`, html);
+  }
+
+  // ==================== DISPUTE EMAIL ====================
+  async sendDisputeEmail(
+    to: string,
+    data: {
+      eventTitle: string;
+      paymentReference: string;
+      amount: number;
+      status: 'opened' | 'won' | 'lost';
+      reason?: string;
+      evidenceDueAt?: Date | null;
+      organizerName?: string;
+    },
+  ) {
+    const formattedAmount = new Intl.NumberFormat('en-NG', {
+      style: 'currency',
+      currency: 'NGN',
+    }).format(data.amount);
+
+    let statusHtml = '';
+    let subject = '';
+
+    switch (data.status) {
+      case 'opened':
+        statusHtml = `
+          <div style="background: #fef3c7; border-left: 4px solid #f59e0b; padding: 16px; border-radius: 0 8px 8px 0; margin-bottom: 24px;">
+            <strong style="color: #92400e;">⚠️ Payment Disputed</strong>
+            <p style="color: #92400e; margin: 8px 0 0 0;">A buyer's bank has disputed this payment${data.reason ? ` (${data.reason})` : ''}. ${formattedAmount} has been held from your balance and the tickets are frozen until the dispute is decided. If your balance goes below zero it is recovered from your next sales.</p>
+          </div>
+        `;
+        subject = 'Payment Disputed';
+        break;
+      case 'won':
+        statusHtml = `
+          <div style="background: #d1fae5; border-left: 4px solid #10b981; padding: 16px; border-radius: 0 8px 8px 0; margin-bottom: 24px;">
+            <strong style="color: #065f46;">✅ Dispute Won</strong>
+            <p style="color: #065f46; margin: 8px 0 0 0;">The dispute was decided in your favour. ${formattedAmount} has been added back to your balance and the tickets are valid again.</p>
+          </div>
+        `;
+        subject = 'Dispute Won';
+        break;
+      case 'lost':
+        statusHtml = `
+          <div style="background: #fee2e2; border-left: 4px solid #ef4444; padding: 16px; border-radius: 0 8px 8px 0; margin-bottom: 24px;">
+            <strong style="color: #991b1b;">❌ Dispute Lost</strong>
+            <p style="color: #991b1b; margin: 8px 0 0 0;">The dispute was decided in the buyer's favour. The ${formattedAmount} chargeback stands and the tickets have been cancelled.</p>
+          </div>
+        `;
+        subject = 'Dispute Lost';
+        break;
+    }
+
+    const html = this.getEmailTemplate({
+      title: subject,
+      preheader: `Dispute update for ${data.eventTitle}`,
+      content: `
+        <h1 style="color: #1f2937; font-size: 24px; margin-bottom: 16px;">${data.organizerName ? `Hi ${data.organizerName}, ` : ''}Dispute Update</h1>
+        ${statusHtml}
+        <div style="background: #f9fafb; border-radius: 8px; padding: 16px; margin-bottom: 24px;">
+          <table style="width: 100%;" cellpadding="0" cellspacing="0">
+            <tr>
+              <td style="padding: 8px 0; color: #4b5563; border-bottom: 1px solid #e5e7eb;">
+                <strong>Event</strong>
+              </td>
+              <td style="padding: 8px 0; color: #1f2937; border-bottom: 1px solid #e5e7eb; text-align: right;">
+                ${data.eventTitle}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding: 8px 0; color: #4b5563; border-bottom: 1px solid #e5e7eb;">
+                <strong>Payment</strong>
+              </td>
+              <td style="padding: 8px 0; color: #1f2937; border-bottom: 1px solid #e5e7eb; text-align: right;">
+                ${data.paymentReference}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding: 8px 0; color: #4b5563;">
+                <strong>Amount</strong>
+              </td>
+              <td style="padding: 8px 0; color: #7c3aed; font-weight: 600; text-align: right;">
+                ${formattedAmount}
+              </td>
+            </tr>
+          </table>
+        </div>
+        ${
+          data.status === 'opened' && data.evidenceDueAt
+            ? `<p style="color: #6b7280; margin-bottom: 16px;">If you have evidence the buyer received what they paid for (e.g. a check-in record or messages), send it to our support team before <strong>${data.evidenceDueAt.toDateString()}</strong>.</p>`
+            : ''
+        }
+        <p style="color: #6b7280; font-size: 14px;">You can follow this dispute on your Payment History page.</p>
+      `,
+    });
+
+    return this.send(to, `${subject} - hdticketdesk`, html);
+  }
+
+  // ==================== WAITLIST OFFER EMAIL ====================
+  async sendWaitlistOfferEmail(
+    to: string,
+    data: {
+      eventTitle: string;
+      eventSlug: string;
+      tierName: string;
+      quantity: number;
+      offerToken: string;
+      expiresAt: Date;
+      firstName?: string;
+    },
+  ) {
+    const offerUrl = `${this.frontendUrl}/events/${data.eventSlug}?waitlist=${data.offerToken}`;
+    const formattedExpiry = data.expiresAt.toLocaleString('en-NG', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: 'Africa/Lagos',
+    });
+    const ticketLabel = data.quantity === 1 ? '1 ticket' : `${data.quantity} tickets`;
+
+    const html = this.getEmailTemplate({
+      title: `Tickets available: ${data.eventTitle}`,
+      preheader: `${ticketLabel} reserved for you until ${formattedExpiry}`,
+      content: `
+        <h1 style="color: #1f2937; font-size: 24px; margin-bottom: 8px;">🎉 You're off the waitlist!</h1>
+        <p style="color: #6b7280; margin-bottom: 24px;">${data.firstName ? `Hi ${data.firstName}, ` : ''}seats opened up and we've reserved ${ticketLabel} for you.</p>
+
+        <div style="background: linear-gradient(135deg, #7c3aed, #a855f7); border-radius: 16px; padding: 24px; color: white; margin-bottom: 24px;">
+          <h2 style="font-size: 20px; margin: 0 0 16px 0; font-weight: 700;">${data.eventTitle}</h2>
+          <p style="opacity: 0.9; margin: 4px 0;">🎟️ ${data.tierName} × ${data.quantity}</p>
+          <p style="opacity: 0.9; margin: 4px 0;">⏳ Reserved until ${formattedExpiry}</p>
+        </div>
+
+        <div style="text-align: center; margin-bottom: 24px;">
+          <a href="${offerUrl}" style="display: inline-block; background: linear-gradient(135deg, #7c3aed, #a855f7); color: white; padding: 14px 40px; border-radius: 8px; text-decoration: none; font-weight: 600;">Buy My Tickets</a>
+        </div>
+
+        <p style="color: #6b7280; font-size: 14px; text-align: center;">This link is just for you. If you don't complete your purchase in time, the tickets go to the next person on the waitlist.</p>
+      `,
+    });
+
+    return this.send(to, `Your tickets for ${data.eventTitle} are waiting - hdticketdesk`, html);
+  }
+
+  // ==================== TICKET TRANSFER EMAILS ====================
+  async sendTicketTransferEmail(
+    to: string,
+    data: {
+      eventTitle: string;
+      eventDate: Date;
+      tierName: string;
+      fromName: string;
+      transferToken: string;
+      expiresAt: Date;
+      firstName?: string;
+    },
+  ) {
+    const acceptUrl = `${this.frontendUrl}/transfers/${data.transferToken}`;
+    const formatOptions: Intl.DateTimeFormatOptions = {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: 'Africa/Lagos',
+    };
+    const formattedDate = data.eventDate.toLocaleString('en-NG', formatOptions);
+    const formattedExpiry = data.expiresAt.toLocaleString('en-NG', formatOptions);
+
+    const html = this.getEmailTemplate({
+      title: `${data.fromName} sent you a ticket`,
+      preheader: `Accept your ${data.eventTitle} ticket before ${formattedExpiry}`,
+      content: `
+        <h1 style="color: #1f2937; font-size: 24px; margin-bottom: 8px;">🎁 You've been sent a ticket!</h1>
+        <p style="color: #6b7280; margin-bottom: 24px;">${data.firstName ? `Hi ${data.firstName}, ` : ''}${data.fromName} can't make it and wants you to have their ticket.</p>
+
+        <div style="background: linear-gradient(135deg, #7c3aed, #a855f7); border-radius: 16px; padding: 24px; color: white; margin-bottom: 24px;">
+          <h2 style="font-size: 20px; margin: 0 0 16px 0; font-weight: 700;">${data.eventTitle}</h2>
+          <p style="opacity: 0.9; margin: 4px 0;">📅 ${formattedDate}</p>
+          <p style="opacity: 0.9; margin: 4px 0;">🎟️ ${data.tierName}</p>
+          <p style="opacity: 0.9; margin: 4px 0;">⏳ Accept before ${formattedExpiry}</p>
+        </div>
+
+        <div style="text-align: center; margin-bottom: 24px;">
+          <a href="${acceptUrl}" style="display: inline-block; background: linear-gradient(135deg, #7c3aed, #a855f7); color: white; padding: 14px 40px; border-radius: 8px; text-decoration: none; font-weight: 600;">Accept Ticket</a>
+        </div>
+
+        <p style="color: #6b7280; font-size: 14px; text-align: center;">Once you accept, we'll email you the ticket with a new QR code. The sender's copy will stop working.</p>
+      `,
+    });
+
+    return this.send(
+      to,
+      `${data.fromName} sent you a ticket to ${data.eventTitle} - hdticketdesk`,
+      html,
+    );
+  }
+
+  async sendTransferAcceptedEmail(
+    to: string,
+    data: {
+      eventTitle: string;
+      tierName: string;
+      recipient: string;
+      firstName?: string;
+    },
+  ) {
+    const html = this.getEmailTemplate({
+      title: 'Ticket transfer complete',
+      preheader: `${data.recipient} accepted your ${data.eventTitle} ticket`,
+      content: `
+        <h1 style="color: #1f2937; font-size: 24px; margin-bottom: 8px;">Transfer complete</h1>
+        <p style="color: #6b7280; margin-bottom: 24px;">${data.firstName ? `Hi ${data.firstName}, ` : ''}${data.recipient} accepted your ${data.tierName} ticket to <strong>${data.eventTitle}</strong>.</p>
+        <p style="color: #6b7280; font-size: 14px;">The ticket now belongs to them and your old QR code will no longer be accepted at the door.</p>
+      `,
+    });
+
+    return this.send(to, `Your ticket to ${data.eventTitle} was transferred - hdticketdesk`, html);
+  }
+
+  // ==================== RESALE EMAILS ====================
+  async sendResaleSoldEmail(
+    to: string,
+    data: {
+      eventTitle: string;
+      tierName: string;
+      price: number;
+      payoutAmount: number;
+      firstName?: string;
+    },
+  ) {
+    const format = (amount: number) =>
+      new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN' }).format(amount);
+
+    const html = this.getEmailTemplate({
+      title: 'Your ticket was resold',
+      preheader: `Your ${data.eventTitle} ticket sold for ${format(data.price)}`,
+      content: `
+        <h1 style="color: #1f2937; font-size: 24px; margin-bottom: 8px;">Ticket sold</h1>
+        <p style="color: #6b7280; margin-bottom: 24px;">${data.firstName ? `Hi ${data.firstName}, ` : ''}your ${data.tierName} ticket to <strong>${data.eventTitle}</strong> sold for ${format(data.price)}.</p>
+        <p style="color: #6b7280; margin-bottom: 24px;">We're sending you <strong>${format(data.payoutAmount)}</strong> as a refund to the card or account you originally paid with. Refunds usually arrive within a few working days.</p>
+        <p style="color: #6b7280; font-size: 14px;">Your old ticket and QR code are no longer valid.</p>
+      `,
+    });
+
+    return this.send(to, `Your ticket to ${data.eventTitle} was resold - hdticketdesk`, html);
+  }
+
   // ==================== WITHDRAWAL EMAIL ====================
   async sendWithdrawalEmail(
     to: string,
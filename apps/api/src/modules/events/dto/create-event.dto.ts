@@ -4,13 +4,38 @@ import {
   IsOptional,
   IsBoolean,
   IsDateString,
+  IsEnum,
   IsArray,
   ValidateNested,
   IsNumber,
+  IsInt,
   Min,
+  Max,
   MaxLength,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
+import { RegistrationQuestionDto } from '../../registration-questions/dto';
+import { PaymentGateway } from '../../../common/types/prisma-enums';
+
+export class TierPricePhaseDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(50, { message: 'Price phase name must be less than 50 characters' })
+  name?: string; // e.g. "Early Bird"
+
+  @IsNumber({}, { message: 'Phase price must be a valid number' })
+  @Min(0, { message: 'Phase price cannot be negative' })
+  price: number;
+
+  @IsString()
+  @IsOptional()
+  endsAt?: string; // Phase ends at this date and time (accepts datetime-local format)
+
+  @IsNumber({}, { message: 'Phase ticket limit must be a valid number' })
+  @Min(1, { message: 'Phase ticket limit must be at least 1' })
+  @IsOptional()
+  untilSold?: number; // Phase ends once this many tickets of the tier are sold
+}
 
 export class CreateTicketTierDto {
   // Optional on create, required on update for existing tiers
@@ -42,9 +67,36 @@ export class CreateTicketTierDto {
   @IsOptional()
   refundEnabled?: boolean;
 
+  @IsBoolean()
+  @IsOptional()
+  isHidden?: boolean; // Only shown and sold to buyers with an access code or private link
+
+  @IsBoolean()
+  @IsOptional()
+  transferEnabled?: boolean; // If false, tickets of this tier can't be transferred (defaults to true)
+
+  @IsBoolean()
+  @IsOptional()
+  reentryEnabled?: boolean; // Ticket holders can check out at the exit and re-enter
+
+  @IsInt()
+  @IsOptional()
+  @Min(1, { message: 'Entries per day must be at least 1' })
+  maxEntriesPerDay?: number | null; // With re-entry: entries allowed per day (empty = unlimited)
+
+  @IsString()
+  @IsOptional()
+  saleStartDate?: string; // Date and time when ticket sales open for this tier (accepts datetime-local format)
+
   @IsString()
   @IsOptional()
   saleEndDate?: string; // Date and time when ticket sales end for this tier (accepts datetime-local format)
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => TierPricePhaseDto)
+  pricePhases?: TierPricePhaseDto[]; // In order; the regular price applies once every phase is over
 }
 
 export class CreateEventDto {
@@ -105,6 +157,12 @@ export class CreateEventDto {
   @Type(() => CreateTicketTierDto)
   tiers?: CreateTicketTierDto[];
 
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RegistrationQuestionDto)
+  questions?: RegistrationQuestionDto[]; // Asked at checkout, in this order
+
   @IsBoolean()
   @IsOptional()
   passFeeTobuyer?: boolean; // If true, 5% service fee is added to buyer's payment at checkout
@@ -113,4 +171,30 @@ export class CreateEventDto {
   @IsOptional()
   @Transform(({ value }) => value === true || value === 'true' || value === 'on')
   hideTicketSalesProgress?: boolean; // If true, hides ticket sales indicators (quantity left, % sold, progress bars) from public views
+
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === 'on')
+  allowTransfers?: boolean; // If false, ticket holders can't transfer their tickets to someone else (defaults to true)
+
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === 'on')
+  resaleEnabled?: boolean; // If true, ticket holders can resell their tickets on the platform
+
+  @IsInt()
+  @IsOptional()
+  @Min(10)
+  @Max(100, { message: 'Resale price cap cannot be more than 100% of what the holder paid' })
+  resaleMaxPricePercent?: number; // Highest resale price as a % of what the holder paid
+
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Max(50, { message: 'Resale royalty cannot be more than 50%' })
+  resaleRoyaltyPercent?: number; // Organizer's cut of each resale
+
+  @IsEnum(PaymentGateway, { message: 'Payment provider must be MONNIFY or PAYSTACK' })
+  @IsOptional()
+  paymentProvider?: PaymentGateway | null; // Gateway buyers pay through; null uses the platform order with failover
 }
@@ -13,6 +13,7 @@ import {
 } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { EventsService } from './events.service';
 import { CreateEventDto } from './dto/create-event.dto';
@@ -123,12 +124,23 @@ export class EventsController {
    * Returns a single event by slug or ID
    * NOTE: This route MUST come after all static routes (carousel, live, trending, upcoming, featured, my)
    * Query param ?includeUnpublished=true allows fetching draft events (for organizer edit pages)
+   * Query param ?access=<code> includes the hidden tiers an access code unlocks
    */
   @Get(':slug')
-  async findOne(@Param('slug') slug: string, @Query('includeUnpublished') includeUnpublished?: string) {
+  @UseGuards(OptionalJwtAuthGuard)
+  async findOne(
+    @Param('slug') slug: string,
+    @Request() req: any,
+    @Query('includeUnpublished') includeUnpublished?: string,
+    @Query('access') access?: string,
+  ) {
     // Allow fetching unpublished events when explicitly requested (for organizer edit pages)
     const includeUnpublishedBool = includeUnpublished === 'true';
-    return this.eventsService.findBySlug(slug, includeUnpublishedBool);
+    // The event's organizer always sees its hidden tiers
+    return this.eventsService.findBySlug(slug, includeUnpublishedBool, {
+      organizerId: req.user?.organizerProfile?.id,
+      accessCode: access || undefined,
+    });
   }
 
   /**
@@ -3,9 +3,20 @@ import { EventsController } from './events.controller';
 import { EventsService } from './events.service';
 import { PrismaModule } from '../../database/prisma.module';
 import { PaymentsModule } from '../payments/payments.module';
+import { PromoCodesModule } from '../promo-codes/promo-codes.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { AccessCodesModule } from '../access-codes/access-codes.module';
+import { RegistrationQuestionsModule } from '../registration-questions/registration-questions.module';
 
 @Module({
-  imports: [PrismaModule, PaymentsModule],
+  imports: [
+    PrismaModule,
+    PaymentsModule,
+    PromoCodesModule,
+    WaitlistModule,
+    AccessCodesModule,
+    RegistrationQuestionsModule,
+  ],
   controllers: [EventsController],
   providers: [EventsService],
   exports: [EventsService],
@@ -1,9 +1,29 @@
-import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
 import { MonnifyService } from '../payments/monnify.service';
-import { CreateEventDto } from './dto/create-event.dto';
+import { PromoCodesService } from '../promo-codes/promo-codes.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { AccessCodesService } from '../access-codes/access-codes.service';
+import {
+  EVENT_QUESTIONS_INCLUDE,
+  RegistrationQuestionsService,
+} from '../registration-questions/registration-questions.service';
+import { RegistrationQuestionDto } from '../registration-questions/dto';
+import { CreateEventDto, TierPricePhaseDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
 import { Decimal } from '@prisma/client/runtime/library';
+import {
+  TierPricePhase,
+  getCurrentTierPrice,
+  getTierSaleStatus,
+  parsePricePhases,
+} from '../../common/utils/tier-pricing';
 
 @Injectable()
 export class EventsService {
@@ -12,6 +32,10 @@ export class EventsService {
   constructor(
     private prisma: PrismaService,
     private monnifyService: MonnifyService,
+    private promoCodesService: PromoCodesService,
+    private waitlistService: WaitlistService,
+    private accessCodesService: AccessCodesService,
+    private registrationQuestionsService: RegistrationQuestionsService,
   ) {}
 
   // Homepage endpoints
@@ -33,12 +57,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false }, // Hidden tiers are only shown to buyers with an access code
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
       },
@@ -59,12 +88,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false },
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
       },
@@ -103,12 +137,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false },
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
       },
@@ -139,12 +178,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false },
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
         _count: {
@@ -172,12 +216,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false },
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
       },
@@ -206,12 +255,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false },
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
       },
@@ -237,12 +291,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false },
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
       },
@@ -263,12 +322,17 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: {
+          where: { isHidden: false },
           select: {
             id: true,
             name: true,
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
       },
@@ -319,7 +383,7 @@ export class EventsService {
     } else if (filter === 'featured') {
       where.isFeatured = true;
     } else if (filter === 'free') {
-      where.tiers = { some: { price: 0 } };
+      where.tiers = { some: { price: 0, isHidden: false } };
     }
 
     // Build orderBy
@@ -339,12 +403,17 @@ export class EventsService {
         include: {
           organizer: { select: { id: true, title: true } },
           tiers: {
+            where: { isHidden: false },
             select: {
               id: true,
               name: true,
               price: true,
               capacity: true,
               sold: true,
+              held: true,
+              saleStartDate: true,
+              saleEndDate: true,
+              pricePhases: true,
             },
           },
         },
@@ -360,7 +429,15 @@ export class EventsService {
     };
   }
 
-  async findBySlug(slug: string, includeUnpublished = false) {
+  /**
+   * Get a single event by slug or ID. Hidden tiers are only included for the
+   * event's organizer, or when the viewer has an access code that unlocks them.
+   */
+  async findBySlug(
+    slug: string,
+    includeUnpublished = false,
+    viewer: { organizerId?: string; accessCode?: string } = {},
+  ) {
     // Build the where condition - include unpublished for organizer edit pages
     const statusCondition = includeUnpublished ? {} : { status: 'PUBLISHED' as const };
 
@@ -370,6 +447,7 @@ export class EventsService {
       include: {
         organizer: { select: { id: true, title: true } },
         tiers: true,
+        questions: EVENT_QUESTIONS_INCLUDE,
       },
     });
 
@@ -379,6 +457,7 @@ export class EventsService {
         include: {
           organizer: { select: { id: true, title: true } },
           tiers: true,
+          questions: EVENT_QUESTIONS_INCLUDE,
         },
       });
     }
@@ -392,6 +471,7 @@ export class EventsService {
         include: {
           organizer: { select: { id: true, title: true } },
           tiers: true,
+          questions: EVENT_QUESTIONS_INCLUDE,
         },
       });
     }
@@ -400,7 +480,29 @@ export class EventsService {
       throw new NotFoundException('Event not found');
     }
 
-    return this.addComputedFields([event])[0];
+    if (!viewer.organizerId || viewer.organizerId !== event.organizerId) {
+      const unlockedTierIds = viewer.accessCode
+        ? await this.accessCodesService.getUnlockedTierIds(event.id, viewer.accessCode)
+        : [];
+      event.tiers = event.tiers.filter(
+        (tier) => !tier.isHidden || unlockedTierIds.includes(tier.id),
+      );
+
+      // Questions only asked for hidden tiers would give those tiers away
+      const visibleTierIds = event.tiers.map((tier) => tier.id);
+      event.questions = event.questions
+        .filter(
+          (question) =>
+            question.tiers.length === 0 ||
+            question.tiers.some((tier) => visibleTierIds.includes(tier.id)),
+        )
+        .map((question) => ({
+          ...question,
+          tiers: question.tiers.filter((tier) => visibleTierIds.includes(tier.id)),
+        }));
+    }
+
+    return this.addTierAvailability(this.addComputedFields([event])[0]);
   }
 
   async findByOrganizer(organizerId: string) {
@@ -432,6 +534,10 @@ export class EventsService {
             price: true,
             capacity: true,
             sold: true,
+            held: true,
+            saleStartDate: true,
+            saleEndDate: true,
+            pricePhases: true,
           },
         },
         tickets: {
@@ -444,13 +550,13 @@ export class EventsService {
         payments: {
           where: {
             status: 'SUCCESS',
-            OR: [{ monnifyTransactionRef: { not: null } }, { amount: 0 }],
+            OR: [{ providerTransactionRef: { not: null } }, { amount: 0 }],
           },
           select: {
             id: true,
             amount: true,
             reference: true,
-            monnifyTransactionRef: true,
+            providerTransactionRef: true,
           },
         },
       },
@@ -469,7 +575,7 @@ export class EventsService {
         amount: true,
         ticketId: true,
         paymentId: true,
-        monnifyTransactionRef: true,
+        providerTransactionRef: true,
       },
     }) : [];
 
@@ -506,7 +612,7 @@ export class EventsService {
       const seenLedger = new Set<string>();
 
       for (const p of (event.payments || [])) {
-        const paymentKey = p.monnifyTransactionRef || p.reference;
+        const paymentKey = p.providerTransactionRef || p.reference;
         if (seenPayments.has(paymentKey)) continue;
         seenPayments.add(paymentKey);
         
@@ -516,7 +622,7 @@ export class EventsService {
         // Get ledger entry for this payment (the source of truth for organizer earnings)
         const ledgerEntries = ledgerByPaymentId.get(p.id) || [];
         for (const le of ledgerEntries) {
-          const ledgerKey = le.monnifyTransactionRef || le.ticketId || le.id;
+          const ledgerKey = le.providerTransactionRef || le.ticketId || le.id;
           if (seenLedger.has(ledgerKey)) continue;
           seenLedger.add(ledgerKey);
           
@@ -563,6 +669,14 @@ export class EventsService {
       );
     }
 
+    if (dto.questions) {
+      await this.registrationQuestionsService.assertValidQuestions(
+        null,
+        dto.questions,
+        (dto.tiers || []).map((tier) => tier.name || ''),
+      );
+    }
+
     const slug = this.generateSlug(dto.title);
 
     try {
@@ -601,7 +715,13 @@ export class EventsService {
           capacity: tier.capacity || 1,
           sold: 0,
           refundEnabled: tier.refundEnabled || false,
+          isHidden: !!tier.isHidden,
+          transferEnabled: tier.transferEnabled ?? true,
+          reentryEnabled: !!tier.reentryEnabled,
+          maxEntriesPerDay: tier.maxEntriesPerDay || null,
+          saleStartDate: this.parseSaleStartDate(tier.saleStartDate, tier.name),
           saleEndDate,
+          pricePhases: this.normalizePricePhases(tier.pricePhases, tier.name) as any,
         };
       });
 
@@ -625,6 +745,11 @@ export class EventsService {
         status: 'DRAFT',
         passFeeTobuyer: dto.passFeeTobuyer || false,
         hideTicketSalesProgress: dto.hideTicketSalesProgress || false,
+        allowTransfers: dto.allowTransfers ?? true,
+        resaleEnabled: dto.resaleEnabled || false,
+        resaleMaxPricePercent: dto.resaleMaxPricePercent ?? 100,
+        resaleRoyaltyPercent: dto.resaleRoyaltyPercent ?? 0,
+        paymentProvider: dto.paymentProvider || null,
       };
 
       // Only add tiers if there are any
@@ -640,6 +765,10 @@ export class EventsService {
         },
       });
 
+      if (dto.questions?.length) {
+        await this.registrationQuestionsService.syncEventQuestions(event.id, dto.questions);
+      }
+
       return event;
     } catch (error) {
       this.logger.error(`Failed to create event: ${error.message}`, error.stack);
@@ -648,6 +777,25 @@ export class EventsService {
   }
 
   async update(id: string, organizerId: string, dto: UpdateEventDto) {
+    // Questions are saved once the tiers they're asked for are, and can be changed after
+    // sales - answers already given stay with their tickets
+    const { questions, ...eventDto } = dto;
+
+    const updated = await this.updateEventAndTiers(id, organizerId, eventDto, questions);
+
+    if (questions) {
+      await this.registrationQuestionsService.syncEventQuestions(id, questions);
+    }
+
+    return updated;
+  }
+
+  private async updateEventAndTiers(
+    id: string,
+    organizerId: string,
+    dto: UpdateEventDto,
+    questions?: RegistrationQuestionDto[],
+  ) {
     const event = await this.prisma.event.findUnique({
       where: { id },
       include: {
@@ -666,6 +814,14 @@ export class EventsService {
       throw new ForbiddenException('You can only update your own events');
     }
 
+    if (questions) {
+      await this.registrationQuestionsService.assertValidQuestions(
+        id,
+        questions,
+        (dto.tiers || event.tiers).map((tier) => tier.name || ''),
+      );
+    }
+
     // Check if event has any active ticket sales
     const hasTicketSales = event.tickets.length > 0;
 
@@ -689,6 +845,11 @@ export class EventsService {
         'endDate',
         'tiers',
         'hideTicketSalesProgress', // Safe to change after sales - only affects display
+        'allowTransfers', // Safe to change after sales - only affects future transfers
+        'resaleEnabled', // Resale settings only apply to listings made after the change
+        'resaleMaxPricePercent',
+        'resaleRoyaltyPercent',
+        'paymentProvider', // Only affects checkouts started after the change
       ]);
       const providedKeys = Object.keys(dto as any).filter((k) => (dto as any)[k] !== undefined);
       const restricted = providedKeys.filter((k) => !allowedKeys.has(k));
@@ -726,6 +887,13 @@ export class EventsService {
     if (dto.gallery !== undefined) updateData.gallery = dto.gallery;
     if (dto.passFeeTobuyer !== undefined) updateData.passFeeTobuyer = dto.passFeeTobuyer;
     if (dto.hideTicketSalesProgress !== undefined) updateData.hideTicketSalesProgress = dto.hideTicketSalesProgress;
+    if (dto.allowTransfers !== undefined) updateData.allowTransfers = dto.allowTransfers;
+    if (dto.resaleEnabled !== undefined) updateData.resaleEnabled = dto.resaleEnabled;
+    if (dto.resaleMaxPricePercent !== undefined)
+      updateData.resaleMaxPricePercent = dto.resaleMaxPricePercent;
+    if (dto.resaleRoyaltyPercent !== undefined)
+      updateData.resaleRoyaltyPercent = dto.resaleRoyaltyPercent;
+    if (dto.paymentProvider !== undefined) updateData.paymentProvider = dto.paymentProvider || null;
 
     // Handle tier updates
     if (dto.tiers !== undefined && dto.tiers.length > 0) {
@@ -760,6 +928,7 @@ export class EventsService {
           safeDeleteIds = counts.filter((c) => c.count === 0).map((c) => c.id);
         }
 
+        const growingTierIds = this.getGrowingTierIds(event.tiers, dto.tiers);
         await this.prisma.$transaction(async (tx: any) => {
           // Delete tiers that have zero sales and zero tickets
           if (safeDeleteIds.length > 0) {
@@ -788,10 +957,36 @@ export class EventsService {
                 }
               }
 
-              // Capacity and saleEndDate are always allowed to change
+              // Price phases: once sales begin, phases that are over and the current
+              // price stay fixed; upcoming phases can still be changed
+              if (tier.pricePhases !== undefined) {
+                const pricePhases = this.normalizePricePhases(tier.pricePhases, tier.name);
+                if (existingSold > 0) {
+                  this.assertStartedPhasesUnchanged(existing, pricePhases);
+                }
+                updateTierData.pricePhases = pricePhases;
+              }
+
+              // Capacity, visibility, transfers, re-entry and sale dates are always allowed to change
               if (tier.capacity !== undefined && Number(tier.capacity) !== Number(existing.capacity)) {
                 updateTierData.capacity = Number(tier.capacity);
               }
+              if (tier.isHidden !== undefined) updateTierData.isHidden = !!tier.isHidden;
+              if (tier.transferEnabled !== undefined) {
+                updateTierData.transferEnabled = !!tier.transferEnabled;
+              }
+              if (tier.reentryEnabled !== undefined) {
+                updateTierData.reentryEnabled = !!tier.reentryEnabled;
+              }
+              if (tier.maxEntriesPerDay !== undefined) {
+                updateTierData.maxEntriesPerDay = tier.maxEntriesPerDay || null;
+              }
+              if (tier.saleStartDate !== undefined) {
+                updateTierData.saleStartDate = this.parseSaleStartDate(
+                  tier.saleStartDate,
+                  tier.name,
+                );
+              }
               if (tier.saleEndDate !== undefined) {
                 updateTierData.saleEndDate = tier.saleEndDate ? new Date(tier.saleEndDate) : null;
               }
@@ -813,7 +1008,13 @@ export class EventsService {
                   capacity: Number(tier.capacity || 0),
                   sold: 0,
                   refundEnabled: tier.refundEnabled || false,
+                  isHidden: !!tier.isHidden,
+                  transferEnabled: tier.transferEnabled ?? true,
+                  reentryEnabled: !!tier.reentryEnabled,
+                  maxEntriesPerDay: tier.maxEntriesPerDay || null,
+                  saleStartDate: this.parseSaleStartDate(tier.saleStartDate, tier.name),
                   saleEndDate: tier.saleEndDate ? new Date(tier.saleEndDate) : null,
+                  pricePhases: this.normalizePricePhases(tier.pricePhases, tier.name),
                 },
               });
             }
@@ -826,6 +1027,8 @@ export class EventsService {
           });
         });
 
+        await this.offerSeatsToWaitlists(growingTierIds);
+
         // Return updated event with tiers
         const updated = await this.prisma.event.findUnique({
           where: { id },
@@ -861,6 +1064,7 @@ export class EventsService {
           safeDeleteIds = checks.filter(c => c.ticketCount === 0 && c.paymentCount === 0).map(c => c.id);
         }
 
+        const growingTierIds = this.getGrowingTierIds(event.tiers, dto.tiers);
         await this.prisma.$transaction(async (tx: any) => {
           // Only delete tiers that have zero sales and zero related records
           if (safeDeleteIds.length > 0) {
@@ -876,7 +1080,13 @@ export class EventsService {
               price: Number(tier.price || 0),
               capacity: Number(tier.capacity || 0),
               refundEnabled: !!tier.refundEnabled,
+              isHidden: !!tier.isHidden,
+              transferEnabled: tier.transferEnabled ?? true,
+              reentryEnabled: !!tier.reentryEnabled,
+              maxEntriesPerDay: tier.maxEntriesPerDay || null,
+              saleStartDate: this.parseSaleStartDate(tier.saleStartDate, tier.name),
               saleEndDate: tier.saleEndDate ? new Date(tier.saleEndDate) : null,
+              pricePhases: this.normalizePricePhases(tier.pricePhases, tier.name),
             };
 
             if (tier.id) {
@@ -896,6 +1106,8 @@ export class EventsService {
           await tx.event.update({ where: { id }, data: updateData });
         });
 
+        await this.offerSeatsToWaitlists(growingTierIds);
+
         const updated = await this.prisma.event.findUnique({
           where: { id },
           include: { tiers: true, organizer: { select: { id: true, title: true } } },
@@ -921,7 +1133,13 @@ export class EventsService {
             capacity: tier.capacity,
             sold: 0,
             refundEnabled: tier.refundEnabled || false,
+            isHidden: !!tier.isHidden,
+            transferEnabled: tier.transferEnabled ?? true,
+            reentryEnabled: !!tier.reentryEnabled,
+            maxEntriesPerDay: tier.maxEntriesPerDay || null,
+            saleStartDate: this.parseSaleStartDate(tier.saleStartDate, tier.name),
             saleEndDate,
+            pricePhases: this.normalizePricePhases(tier.pricePhases, tier.name) as any,
           };
         });
 
@@ -1109,7 +1327,23 @@ export class EventsService {
             tierId: true,
             checkedInAt: true,
             createdAt: true,
-            payment: { select: { status: true, amount: true, reference: true, monnifyTransactionRef: true } },
+            paymentId: true,
+            isComp: true,
+            payment: {
+              select: {
+                status: true,
+                amount: true,
+                reference: true,
+                providerTransactionRef: true,
+                // Cart payments span several tiers - needed to split revenue per tier
+                order: {
+                  select: {
+                    subtotal: true,
+                    items: { select: { tierId: true, subtotal: true, discount: true } },
+                  },
+                },
+              },
+            },
             tier: { select: { price: true } },
           },
         },
@@ -1128,27 +1362,35 @@ export class EventsService {
       ['ACTIVE', 'CHECKED_IN'].includes(t.status) && (t.payment?.status || '').toUpperCase() === 'SUCCESS',
     );
 
+    // Comps are issued by the organizer without a payment - reported apart from sales
+    const compTickets = event.tickets.filter(
+      (t) => t.isComp && ['ACTIVE', 'CHECKED_IN'].includes(t.status),
+    );
+
     const totalSold = activeTickets.length;
     const checkedIn = event.tickets.filter(
-      (t: { status: string }) => t.status === 'CHECKED_IN',
+      (t: { status: string; isComp: boolean }) => t.status === 'CHECKED_IN' && !t.isComp,
     ).length;
 
     // Analytics: compute gross revenue and organizer net using the ledger.
     const platformFeePercent = 5;
 
     // Get ledger entries for this event's tickets
+    // A multi-ticket order has ONE ledger credit (linked to its first ticket), so also match by payment
     const ticketIds = activeTickets.map((t: any) => t.id);
+    const paymentIds = activeTickets.map((t: any) => t.paymentId).filter(Boolean);
     const ledgerEntries = ticketIds.length > 0 ? await this.prisma.ledgerEntry.findMany({
       where: {
-        ticketId: { in: ticketIds },
+        OR: [{ ticketId: { in: ticketIds } }, { paymentId: { in: paymentIds } }],
         type: 'TICKET_SALE',
       },
       select: {
         id: true,
         ticketId: true,
+        paymentId: true,
         credit: true,
         amount: true,
-        monnifyTransactionRef: true,
+        providerTransactionRef: true,
       },
     }) : [];
 
@@ -1159,6 +1401,12 @@ export class EventsService {
         ledgerByTicketId.set(le.ticketId, le);
       }
     }
+    const ledgerByPaymentId = new Map<string, (typeof ledgerEntries)[0]>();
+    for (const le of ledgerEntries) {
+      if (le.paymentId && !ledgerByPaymentId.has(le.paymentId)) {
+        ledgerByPaymentId.set(le.paymentId, le);
+      }
+    }
 
     // Calculate gross revenue (what buyers paid) and organizer net (from ledger)
     const seenPayments = new Set<string>();
@@ -1166,7 +1414,7 @@ export class EventsService {
     let organizerNet = 0;
 
     for (const t of activeTickets as any[]) {
-      const paymentKey = t.payment?.monnifyTransactionRef || t.payment?.reference || t.id;
+      const paymentKey = t.payment?.providerTransactionRef || t.payment?.reference || t.id;
       if (seenPayments.has(paymentKey)) continue;
       seenPayments.add(paymentKey);
 
@@ -1185,7 +1433,7 @@ export class EventsService {
       grossRevenue += paymentAmount;
 
       // Organizer net from ledger (source of truth), with fallback
-      const ledgerEntry = ledgerByTicketId.get(t.id);
+      const ledgerEntry = ledgerByTicketId.get(t.id) || ledgerByPaymentId.get(t.paymentId);
       if (ledgerEntry) {
         const leAmount = ledgerEntry.credit instanceof Decimal
           ? ledgerEntry.credit.toNumber()
@@ -1202,6 +1450,9 @@ export class EventsService {
     // Platform fees = grossRevenue - organizerNet
     const platformFees = grossRevenue - organizerNet;
 
+    // Orders: one successful payment can carry several tickets (and several tiers)
+    const totalOrders = seenPayments.size;
+
     // Tier breakdown with ledger-based earnings
     const tierBreakdown = event.tiers.map(
       (tier: { id: string; name: string; price: Decimal | number; capacity: number }) => {
@@ -1213,10 +1464,26 @@ export class EventsService {
         let tierOrganizerNet = 0;
 
         for (const t of tierTickets) {
-          const paymentKey = t.payment?.monnifyTransactionRef || t.payment?.reference || t.id;
+          const paymentKey = t.payment?.providerTransactionRef || t.payment?.reference || t.id;
           if (seenTierPayments.has(paymentKey)) continue;
           seenTierPayments.add(paymentKey);
 
+          // A cart order pays for several tiers at once: this tier gets its share of the order
+          let share = 1;
+          const order = t.payment?.order;
+          if (order) {
+            // order.subtotal is after promo discounts, so compare against discounted lines
+            const orderSubtotal = Number(order.subtotal);
+            const tierSubtotal = order.items
+              .filter((item: { tierId: string }) => item.tierId === tier.id)
+              .reduce(
+                (sum: number, item: { subtotal: Decimal | number; discount: Decimal | number }) =>
+                  sum + Number(item.subtotal) - Number(item.discount),
+                0,
+              );
+            share = orderSubtotal > 0 ? tierSubtotal / orderSubtotal : 0;
+          }
+
           // Gross revenue: use payment amount, fallback to tier price if payment amount is missing
           let paymentAmount = 0;
           if (t.payment?.amount !== undefined && t.payment?.amount !== null) {
@@ -1229,20 +1496,20 @@ export class EventsService {
               ? t.tier.price.toNumber()
               : Number(t.tier.price);
           }
-          tierGrossRevenue += paymentAmount;
+          tierGrossRevenue += paymentAmount * share;
 
           // Organizer net from ledger, fallback to calculated value
-          const ledgerEntry = ledgerByTicketId.get(t.id);
+          const ledgerEntry = ledgerByTicketId.get(t.id) || ledgerByPaymentId.get(t.paymentId);
           if (ledgerEntry) {
             const leAmount = ledgerEntry.credit instanceof Decimal
               ? ledgerEntry.credit.toNumber()
               : (ledgerEntry.amount instanceof Decimal 
                   ? ledgerEntry.amount.toNumber() 
                   : Number(ledgerEntry.credit || ledgerEntry.amount || 0));
-            tierOrganizerNet += Math.abs(leAmount);
+            tierOrganizerNet += Math.abs(leAmount) * share;
           } else {
             // Fallback: if no ledger entry, estimate organizer net (tier price minus 5% fee)
-            tierOrganizerNet += paymentAmount * 0.95;
+            tierOrganizerNet += paymentAmount * 0.95 * share;
           }
         }
 
@@ -1253,6 +1520,7 @@ export class EventsService {
           price: tierPrice || 0,
           capacity: tier.capacity || 0,
           sold: tierTickets.length,
+          comps: compTickets.filter((t) => t.tierId === tier.id).length,
           revenue: tierGrossRevenue || 0,
           grossRevenue: tierGrossRevenue || 0,
           platformFees: tierPlatformFees || 0,
@@ -1261,8 +1529,48 @@ export class EventsService {
       },
     );
 
+    // Promo code redemptions (paid orders only)
+    const promoCodes = await this.prisma.promoCode.findMany({
+      where: { eventId: id },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, code: true, discountType: true, discountValue: true, isActive: true },
+    });
+    const redemptionStats = await this.promoCodesService.getRedemptionStats(
+      promoCodes.map((p) => p.id),
+    );
+    const promoCodeBreakdown = promoCodes.map((promoCode) => ({
+      code: promoCode.code,
+      discountType: promoCode.discountType,
+      discountValue: Number(promoCode.discountValue),
+      isActive: promoCode.isActive,
+      ...(redemptionStats.get(promoCode.id) || {
+        redemptions: 0,
+        ticketsDiscounted: 0,
+        totalDiscount: 0,
+      }),
+    }));
+    const totalDiscount = promoCodeBreakdown.reduce((sum, p) => sum + p.totalDiscount, 0);
+
+    // Demand that couldn't be sold: people waiting on sold-out tiers
+    const waitlistStats = await this.waitlistService.getWaitlistStats(id);
+    const tierNames = new Map(
+      event.tiers.map((tier: { id: string; name: string }) => [tier.id, tier.name]),
+    );
+    const waitlist = {
+      ...waitlistStats,
+      tiers: waitlistStats.tiers.map((t) => ({ ...t, name: tierNames.get(t.tierId) || '' })),
+    };
+
+    const comps = {
+      issued: compTickets.length,
+      checkedIn: compTickets.filter((t) => t.status === 'CHECKED_IN').length,
+    };
+
     return {
       totalSold,
+      totalOrders,
+      averageTicketsPerOrder: totalOrders > 0 ? totalSold / totalOrders : 0,
+      averageOrderValue: totalOrders > 0 ? grossRevenue / totalOrders : 0,
       checkedIn,
       checkInRate: totalSold > 0 ? Math.round((checkedIn / totalSold) * 100) : 0,
       grossRevenue,
@@ -1270,6 +1578,10 @@ export class EventsService {
       organizerNet,
       platformFeePercent,
       tierBreakdown,
+      totalDiscount,
+      promoCodes: promoCodeBreakdown,
+      waitlist,
+      comps,
     };
   }
 
@@ -1336,11 +1648,36 @@ export class EventsService {
           return sum + (tier.sold || 0) * price;
         }, 0) || 0;
 
-      // Convert Decimal fields to numbers for JSON serialization
-      const processedTiers = event.tiers?.map((tier: any) => ({
-        ...tier,
-        price: tier.price instanceof Decimal ? tier.price.toNumber() : Number(tier.price),
-      }));
+      // Convert Decimal fields to numbers for JSON serialization, and work out
+      // today's price for tiers with scheduled price phases
+      const processedTiers = event.tiers?.map((tier: any) => {
+        if (tier.pricePhases === undefined) {
+          return {
+            ...tier,
+            price: tier.price instanceof Decimal ? tier.price.toNumber() : Number(tier.price),
+          };
+        }
+
+        const pricing = getCurrentTierPrice(tier);
+        return {
+          ...tier,
+          price: pricing.regularPrice,
+          pricePhases: parsePricePhases(tier.pricePhases),
+          currentPrice: pricing.price,
+          currentPhase:
+            pricing.phaseIndex === null
+              ? null
+              : {
+                  index: pricing.phaseIndex,
+                  name: pricing.phaseName,
+                  endsAt: pricing.phaseEndsAt,
+                  // Remaining counts give away sales numbers, so respect the organizer's setting
+                  remaining: event.hideTicketSalesProgress ? null : pricing.phaseRemaining,
+                  nextPrice: pricing.nextPrice,
+                },
+          saleStatus: getTierSaleStatus(tier),
+        };
+      });
 
       return {
         ...event,
@@ -1351,6 +1688,163 @@ export class EventsService {
     });
   }
 
+  /**
+   * Seats held by buyers still in checkout are not on sale but come back if the
+   * payment doesn't complete, so expose what is available now and when the next
+   * hold is due to be released.
+   */
+  private async addTierAvailability(event: any) {
+    const tierIds = (event.tiers || []).map((tier: any) => tier.id);
+    const activeHolds =
+      tierIds.length > 0
+        ? await this.prisma.inventoryHold.groupBy({
+            by: ['tierId'],
+            where: { tierId: { in: tierIds }, status: 'ACTIVE' },
+            _min: { expiresAt: true },
+          })
+        : [];
+    const nextReleaseByTier = new Map(activeHolds.map((h) => [h.tierId, h._min.expiresAt]));
+
+    return {
+      ...event,
+      tiers: event.tiers?.map((tier: any) => {
+        const held = tier.held || 0;
+        const available = Math.max(0, tier.capacity - tier.sold - held);
+        return {
+          ...tier,
+          held,
+          available,
+          soldOut: tier.sold >= tier.capacity,
+          // Nothing left to buy right now, but held seats may still be released
+          allHeld: available === 0 && tier.sold < tier.capacity,
+          nextHoldReleaseAt: nextReleaseByTier.get(tier.id) || null,
+        };
+      }),
+    };
+  }
+
+  private parseSaleStartDate(value: string | undefined, tierName?: string): Date | null {
+    if (!value || value.trim() === '') {
+      return null;
+    }
+    const saleStartDate = new Date(value);
+    if (isNaN(saleStartDate.getTime())) {
+      this.logger.warn(`Invalid saleStartDate for tier ${tierName}: ${value}`);
+      return null;
+    }
+    return saleStartDate;
+  }
+
+  /**
+   * Check a tier's price phases and convert them to the stored shape. Phases run
+   * in order, so each one needs an end (a date or a ticket limit) and those ends
+   * have to increase from one phase to the next.
+   */
+  private normalizePricePhases(
+    phases: TierPricePhaseDto[] | undefined,
+    tierName?: string,
+  ): TierPricePhase[] {
+    const label = tierName ? `"${tierName}"` : 'this tier';
+    let lastEndsAt: Date | null = null;
+    let lastUntilSold: number | null = null;
+
+    return (phases || []).map((phase, index) => {
+      const hasEndsAt = !!phase.endsAt && phase.endsAt.trim() !== '';
+      const hasUntilSold = phase.untilSold !== undefined && phase.untilSold !== null;
+      if (!hasEndsAt && !hasUntilSold) {
+        throw new BadRequestException(
+          `Price phase ${index + 1} for ${label} needs an end date or a ticket limit`,
+        );
+      }
+
+      let endsAt: Date | null = null;
+      if (hasEndsAt) {
+        endsAt = new Date(phase.endsAt!);
+        if (isNaN(endsAt.getTime())) {
+          throw new BadRequestException(
+            `Price phase ${index + 1} for ${label} has an invalid end date`,
+          );
+        }
+        if (lastEndsAt && endsAt <= lastEndsAt) {
+          throw new BadRequestException(
+            `Price phases for ${label} must end in order - phase ${index + 1} ends too early`,
+          );
+        }
+        lastEndsAt = endsAt;
+      }
+
+      if (hasUntilSold) {
+        if (lastUntilSold !== null && Number(phase.untilSold) <= lastUntilSold) {
+          throw new BadRequestException(
+            `Price phases for ${label} must have increasing ticket limits - check phase ${index + 1}`,
+          );
+        }
+        lastUntilSold = Number(phase.untilSold);
+      }
+
+      return {
+        name: phase.name?.trim() || null,
+        price: Number(phase.price),
+        endsAt: endsAt ? endsAt.toISOString() : null,
+        untilSold: hasUntilSold ? Number(phase.untilSold) : null,
+      };
+    });
+  }
+
+  /**
+   * After sales begin buyers have paid phase prices that are already over, and
+   * the current price is what people are being quoted. Both must stay as they are.
+   */
+  private assertStartedPhasesUnchanged(existing: any, pricePhases: TierPricePhase[]) {
+    const current = getCurrentTierPrice(existing);
+    const existingPhases = parsePricePhases(existing.pricePhases);
+    const endedCount = current.phaseIndex === null ? existingPhases.length : current.phaseIndex;
+
+    const endedPhaseChanged = existingPhases.slice(0, endedCount).some((phase, index) => {
+      const updated = pricePhases[index];
+      return (
+        !updated ||
+        updated.price !== phase.price ||
+        (updated.endsAt || null) !== (phase.endsAt || null) ||
+        (updated.untilSold ?? null) !== (phase.untilSold ?? null)
+      );
+    });
+    if (endedPhaseChanged) {
+      throw new ForbiddenException('Cannot change price phases that have already ended.');
+    }
+
+    const updatedPrice = getCurrentTierPrice({ ...existing, pricePhases }).price;
+    if (updatedPrice !== current.price) {
+      throw new ForbiddenException('Cannot change the current tier price after sales begin.');
+    }
+  }
+
+  /**
+   * Existing tiers whose capacity is going up in this update
+   */
+  private getGrowingTierIds(existingTiers: any[], tiers: any[]): string[] {
+    const existingById = new Map(existingTiers.map((t: any) => [t.id, t]));
+    return tiers
+      .filter((tier) => {
+        const existing = tier.id ? existingById.get(tier.id) : undefined;
+        return existing && tier.capacity !== undefined && Number(tier.capacity) > existing.capacity;
+      })
+      .map((tier) => tier.id);
+  }
+
+  /**
+   * New capacity goes to people on the tier's waitlist before anyone else
+   */
+  private async offerSeatsToWaitlists(tierIds: string[]) {
+    for (const tierId of tierIds) {
+      try {
+        await this.waitlistService.offerReleasedSeats(tierId);
+      } catch (error) {
+        this.logger.error(`Failed to offer new seats on tier ${tierId} to its waitlist`, error);
+      }
+    }
+  }
+
   private generateSlug(title: string): string {
     const baseSlug = title
       .toLowerCase()
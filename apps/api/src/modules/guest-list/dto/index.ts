@@ -0,0 +1,84 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+
+export class GuestDto {
+  @ApiProperty({ description: 'Where to send the comp tickets' })
+  @IsEmail({}, { message: 'A valid email address is required' })
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  email: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  lastName?: string;
+
+  @ApiPropertyOptional({ description: 'Comp tickets for this guest (default 1)' })
+  @IsInt({ message: 'Quantity must be a whole number' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  @Max(20)
+  @IsOptional()
+  quantity?: number;
+}
+
+class CompOptionsDto {
+  @ApiProperty({ description: 'Ticket tier to issue the comps from' })
+  @IsString()
+  @IsNotEmpty({ message: 'Ticket tier is required' })
+  tierId: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Take the comps out of the tier's capacity (default true). If false they are issued on top of it",
+  })
+  @IsBoolean()
+  @IsOptional()
+  countTowardCapacity?: boolean;
+
+  @ApiPropertyOptional({ description: 'Internal note, e.g. "Artist guests"' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  note?: string;
+}
+
+export class IssueCompsDto extends CompOptionsDto {
+  @ApiProperty({ type: [GuestDto], description: 'Guests to issue comp tickets to' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Add at least one guest' })
+  @ArrayMaxSize(200, { message: 'You can issue comps to at most 200 guests at a time' })
+  @ValidateNested({ each: true })
+  @Type(() => GuestDto)
+  guests: GuestDto[];
+}
+
+export class ImportGuestListDto extends CompOptionsDto {
+  @ApiProperty({
+    description: 'CSV with columns email, first name, last name, quantity (header row optional)',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'The CSV file is empty' })
+  @MaxLength(100000, { message: 'The CSV file is too large' })
+  csv: string;
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { GuestListService } from './guest-list.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ImportGuestListDto, IssueCompsDto } from './dto';
+import { UserRole } from '../../common/types/prisma-enums';
+
+@ApiTags('Guest List')
+@Controller('guest-list')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ORGANIZER)
+@ApiBearerAuth()
+export class GuestListController {
+  constructor(private readonly guestListService: GuestListService) {}
+
+  @Post('events/:eventId/comps')
+  @ApiOperation({ summary: 'Issue complimentary tickets to one or more guests' })
+  @ApiResponse({ status: 201, description: 'Comp tickets issued and emailed' })
+  async issueComps(
+    @Param('eventId') eventId: string,
+    @Body() dto: IssueCompsDto,
+    @Request() req: any,
+  ) {
+    return this.guestListService.issueComps(
+      eventId,
+      req.user.organizerProfile.id,
+      req.user.id,
+      dto,
+    );
+  }
+
+  @Post('events/:eventId/import')
+  @ApiOperation({ summary: 'Issue complimentary tickets to every guest in a CSV' })
+  @ApiResponse({ status: 201, description: 'Comp tickets issued and emailed' })
+  async importGuestList(
+    @Param('eventId') eventId: string,
+    @Body() dto: ImportGuestListDto,
+    @Request() req: any,
+  ) {
+    return this.guestListService.importGuestList(
+      eventId,
+      req.user.organizerProfile.id,
+      req.user.id,
+      dto,
+    );
+  }
+
+  @Get('events/:eventId')
+  @ApiOperation({ summary: 'Get the guest list for an event' })
+  async getGuestList(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.guestListService.getGuestList(eventId, req.user.organizerProfile.id);
+  }
+
+  @Post('entries/:entryId/revoke')
+  @ApiOperation({ summary: "Cancel a guest's comp tickets" })
+  async revokeEntry(@Param('entryId') entryId: string, @Request() req: any) {
+    return this.guestListService.revokeEntry(entryId, req.user.organizerProfile.id);
+  }
+}
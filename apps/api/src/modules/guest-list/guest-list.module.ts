@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { GuestListController } from './guest-list.controller';
+import { GuestListService } from './guest-list.service';
+import { PrismaModule } from '../../database/prisma.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [PrismaModule, TicketsModule, LedgerModule],
+  controllers: [GuestListController],
+  providers: [GuestListService],
+  exports: [GuestListService],
+})
+export class GuestListModule {}
@@ -0,0 +1,354 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { isEmail } from 'class-validator';
+import { PrismaService } from '../../database/prisma.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { GuestDto, ImportGuestListDto, IssueCompsDto } from './dto';
+
+const MAX_GUESTS_PER_BATCH = 200;
+
+@Injectable()
+export class GuestListService {
+  private readonly logger = new Logger(GuestListService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private ticketsService: TicketsService,
+    private ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * Issue complimentary tickets from a tier to a list of guests.
+   * Each guest gets the normal ticket email with QR codes, and a zero-value COMP
+   * ledger entry. Comps taken from capacity are counted in the tier's sold seats.
+   */
+  async issueComps(eventId: string, organizerId: string, userId: string, dto: IssueCompsDto) {
+    const event = await this.getOwnedEvent(eventId, organizerId);
+
+    if (event.status !== 'PUBLISHED') {
+      throw new BadRequestException('Publish the event before issuing comp tickets');
+    }
+
+    const tier = await this.prisma.ticketTier.findFirst({
+      where: { id: dto.tierId, eventId },
+    });
+    if (!tier) {
+      throw new NotFoundException('Ticket tier not found for this event');
+    }
+
+    const guests = dto.guests.map((guest) => ({
+      email: guest.email.toLowerCase().trim(),
+      firstName: guest.firstName?.trim() || null,
+      lastName: guest.lastName?.trim() || null,
+      quantity: guest.quantity || 1,
+    }));
+    const totalTickets = guests.reduce((sum, guest) => sum + guest.quantity, 0);
+    const countsTowardCapacity = dto.countTowardCapacity ?? true;
+
+    const entries = await this.prisma.$transaction(async (tx: any) => {
+      if (countsTowardCapacity) {
+        const reserved = await tx.$executeRaw`
+          UPDATE "TicketTier"
+          SET "sold" = "sold" + ${totalTickets}
+          WHERE "id" = ${tier.id}
+            AND "sold" + "held" + ${totalTickets} <= "capacity"
+        `;
+
+        if (reserved === 0) {
+          const left = Math.max(0, tier.capacity - tier.sold - tier.held);
+          throw new BadRequestException(
+            `Only ${left} ${tier.name} ticket${left === 1 ? '' : 's'} left - issue fewer comps or don't count them toward capacity`,
+          );
+        }
+      }
+
+      const created = [];
+      for (const guest of guests) {
+        created.push(
+          await tx.guestListEntry.create({
+            data: {
+              ...guest,
+              note: dto.note?.trim() || null,
+              countsTowardCapacity,
+              issuedBy: userId,
+              eventId,
+              tierId: tier.id,
+            },
+          }),
+        );
+      }
+      return created;
+    });
+
+    // Comps land in the guest's account if they have one
+    const users = await this.prisma.user.findMany({
+      where: { email: { in: guests.map((guest) => guest.email) } },
+      select: { id: true, email: true },
+    });
+    const userIdByEmail = new Map(users.map((user) => [user.email.toLowerCase(), user.id]));
+
+    let ticketsIssued = 0;
+    const failed: { email: string; reason: string }[] = [];
+
+    for (const entry of entries) {
+      try {
+        const tickets = await this.ticketsService.createTicket({
+          eventId,
+          tierId: tier.id,
+          buyerId: userIdByEmail.get(entry.email) || null,
+          buyerEmail: entry.email,
+          buyerFirstName: entry.firstName || undefined,
+          buyerLastName: entry.lastName || undefined,
+          amountPaid: 0,
+          quantity: entry.quantity,
+          guestListEntryId: entry.id,
+        });
+        ticketsIssued += tickets.length;
+
+        await this.ledgerService.recordComp({
+          organizerId,
+          ticketId: tickets[0].id,
+          quantity: tickets.length,
+          guestEmail: entry.email,
+          tierName: tier.name,
+          createdBy: userId,
+        });
+      } catch (error: any) {
+        this.logger.error(`Failed to issue comps to ${entry.email}: ${error.message}`);
+        failed.push({ email: entry.email, reason: error.message || 'Failed to issue tickets' });
+      }
+    }
+
+    this.logger.log(
+      `Issued ${ticketsIssued} comp ${tier.name} tickets to ${entries.length} guests for event ${event.title}`,
+    );
+
+    return {
+      guests: entries.length,
+      ticketsIssued,
+      failed,
+      message:
+        failed.length === 0
+          ? `${ticketsIssued} comp ticket${ticketsIssued === 1 ? '' : 's'} sent to ${entries.length} guest${entries.length === 1 ? '' : 's'}`
+          : `${ticketsIssued} comp tickets sent. ${failed.length} guest${failed.length === 1 ? '' : 's'} could not be sent tickets`,
+    };
+  }
+
+  /**
+   * Issue comps to every guest in a CSV (email, first name, last name, quantity).
+   * The header row is optional; rows with a bad email reject the whole file.
+   */
+  async importGuestList(
+    eventId: string,
+    organizerId: string,
+    userId: string,
+    dto: ImportGuestListDto,
+  ) {
+    const guests = this.parseGuestCsv(dto.csv);
+
+    return this.issueComps(eventId, organizerId, userId, {
+      tierId: dto.tierId,
+      countTowardCapacity: dto.countTowardCapacity,
+      note: dto.note,
+      guests,
+    });
+  }
+
+  /**
+   * Get the guest list for an event, with the comp tickets issued to each guest
+   */
+  async getGuestList(eventId: string, organizerId: string) {
+    await this.getOwnedEvent(eventId, organizerId);
+
+    const entries = await this.prisma.guestListEntry.findMany({
+      where: { eventId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        tier: { select: { name: true } },
+        tickets: {
+          select: { id: true, ticketNumber: true, status: true, checkedInAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    const tickets = entries.flatMap((entry) => entry.tickets);
+
+    return {
+      guests: entries.filter((entry) => !entry.revokedAt).length,
+      ticketsIssued: tickets.filter((t) => ['ACTIVE', 'CHECKED_IN'].includes(t.status)).length,
+      checkedIn: tickets.filter((t) => t.status === 'CHECKED_IN').length,
+      entries: entries.map(({ tier, ...entry }) => ({ ...entry, tierName: tier.name })),
+    };
+  }
+
+  /**
+   * Cancel a guest's comp tickets. Tickets already checked in are kept; seats
+   * taken from capacity are given back.
+   */
+  async revokeEntry(entryId: string, organizerId: string) {
+    const entry = await this.prisma.guestListEntry.findUnique({
+      where: { id: entryId },
+      include: { event: { select: { organizerId: true } } },
+    });
+
+    if (!entry) {
+      throw new NotFoundException('Guest not found');
+    }
+
+    if (entry.event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage the guest list for your own events');
+    }
+
+    if (entry.revokedAt) {
+      throw new BadRequestException('These comp tickets have already been revoked');
+    }
+
+    const cancelled = await this.prisma.$transaction(async (tx: any) => {
+      const result = await tx.ticket.updateMany({
+        where: { guestListEntryId: entryId, status: 'ACTIVE' },
+        data: { status: 'CANCELLED' },
+      });
+
+      if (entry.countsTowardCapacity && result.count > 0) {
+        await tx.$executeRaw`
+          UPDATE "TicketTier"
+          SET "sold" = GREATEST(0, "sold" - ${result.count})
+          WHERE "id" = ${entry.tierId}
+        `;
+      }
+
+      await tx.guestListEntry.update({
+        where: { id: entryId },
+        data: { revokedAt: new Date() },
+      });
+
+      return result.count;
+    });
+
+    this.logger.log(`Revoked ${cancelled} comp tickets for ${entry.email}`);
+
+    return {
+      cancelled,
+      message: `${cancelled} comp ticket${cancelled === 1 ? '' : 's'} cancelled`,
+    };
+  }
+
+  private parseGuestCsv(csv: string): GuestDto[] {
+    const rows = this.parseCsv(csv).filter((row) => row.some((cell) => cell.trim() !== ''));
+    if (rows.length === 0) {
+      throw new BadRequestException('The CSV file has no guests');
+    }
+
+    // Columns come from the header row if there is one, otherwise in the documented order
+    const header = rows[0].map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ''));
+    const hasHeader = header.includes('email');
+    const column = (names: string[], fallback: number) => {
+      return hasHeader ? header.findIndex((name) => names.includes(name)) : fallback;
+    };
+    const emailCol = column(['email', 'emailaddress'], 0);
+    const firstNameCol = column(['firstname', 'first', 'name'], 1);
+    const lastNameCol = column(['lastname', 'last', 'surname'], 2);
+    const quantityCol = column(['quantity', 'qty', 'tickets'], 3);
+
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+    if (dataRows.length > MAX_GUESTS_PER_BATCH) {
+      throw new BadRequestException(
+        `You can import at most ${MAX_GUESTS_PER_BATCH} guests at a time - split the file`,
+      );
+    }
+
+    const errors: string[] = [];
+    const guests = dataRows.map((row, i) => {
+      const line = i + (hasHeader ? 2 : 1);
+      const cell = (col: number) => (col >= 0 ? (row[col] || '').trim() : '');
+
+      const email = cell(emailCol).toLowerCase();
+      if (!isEmail(email)) {
+        errors.push(`Row ${line}: "${email}" is not a valid email`);
+      }
+
+      const quantityText = cell(quantityCol);
+      const quantity = quantityText ? Number(quantityText) : 1;
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > 20) {
+        errors.push(`Row ${line}: quantity must be a whole number from 1 to 20`);
+      }
+
+      return {
+        email,
+        firstName: cell(firstNameCol) || undefined,
+        lastName: cell(lastNameCol) || undefined,
+        quantity,
+      };
+    });
+
+    if (errors.length > 0) {
+      const more = errors.length > 5 ? ` (and ${errors.length - 5} more)` : '';
+      throw new BadRequestException(`${errors.slice(0, 5).join('; ')}${more}`);
+    }
+
+    return guests;
+  }
+
+  private parseCsv(csv: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < csv.length; i++) {
+      const char = csv[i];
+
+      if (inQuotes) {
+        if (char === '"' && csv[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && csv[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private async getOwnedEvent(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({ where: { id: eventId } });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage the guest list for your own events');
+    }
+
+    return event;
+  }
+}
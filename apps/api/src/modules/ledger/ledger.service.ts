@@ -20,7 +20,7 @@ import { LedgerType, LedgerStatus } from '@prisma/client';
  * - settledDate: When funds were settled/cleared
  * 
  * DEDUPLICATION:
- * - Primary key: monnifyTransactionRef (for Monnify payments)
+ * - Primary key: providerTransactionRef (for Monnify payments)
  * - Fallback: ticketId (for legacy Paystack or free tickets)
  * - Database constraint prevents duplicates at DB level
  * 
@@ -39,30 +39,33 @@ export class LedgerService {
    * Record a ticket sale as a CREDIT entry in the ledger.
    * Money is coming IN to the organizer's account.
    */
-  async recordTicketSale(params: {
-    organizerId: string;
-    ticketId: string;
-    amount: number;
-    platformFee?: number;
-    // Payment references for reconciliation
-    monnifyTransactionRef?: string | null;
-    paymentReference?: string | null;
-    paymentId?: string | null;
-    externalReference?: string | null;
-    // Timestamps
-    valueDate?: Date;       // When payment was made
-    settledDate?: Date;     // When funds were settled (if known)
-    // Description
-    description?: string;
-    narration?: string;
-    // Audit
-    createdBy?: string;
-  }) {
+  async recordTicketSale(
+    params: {
+      organizerId: string;
+      ticketId: string;
+      amount: number;
+      platformFee?: number;
+      // Payment references for reconciliation
+      providerTransactionRef?: string | null;
+      paymentReference?: string | null;
+      paymentId?: string | null;
+      externalReference?: string | null;
+      // Timestamps
+      valueDate?: Date;       // When payment was made
+      settledDate?: Date;     // When funds were settled (if known)
+      // Description
+      description?: string;
+      narration?: string;
+      // Audit
+      createdBy?: string;
+    },
+    tx?: any,
+  ) {
     const {
       organizerId,
       ticketId,
       amount,
-      monnifyTransactionRef,
+      providerTransactionRef,
       paymentReference,
       paymentId,
       externalReference,
@@ -72,8 +75,10 @@ export class LedgerService {
       narration,
       createdBy,
     } = params;
+    // Pass the caller's transaction to record the sale together with the balance change
+    const db = tx || this.prisma;
 
-    const organizer = await this.prisma.organizerProfile.findUnique({
+    const organizer = await db.organizerProfile.findUnique({
       where: { id: organizerId },
     });
 
@@ -84,11 +89,11 @@ export class LedgerService {
     // ==========================================================================
     // IDEMPOTENCY CHECK: Prevent duplicate ledger entries
     // ==========================================================================
-    if (monnifyTransactionRef) {
-      const existingByMonnifyRef = await this.prisma.ledgerEntry.findFirst({
+    if (providerTransactionRef) {
+      const existingByMonnifyRef = await db.ledgerEntry.findFirst({
         where: {
           type: 'TICKET_SALE',
-          monnifyTransactionRef,
+          providerTransactionRef,
           organizerId,
         },
         select: { id: true },
@@ -96,13 +101,13 @@ export class LedgerService {
 
       if (existingByMonnifyRef) {
         this.logger.warn(
-          `Ledger entry already exists for monnifyTransactionRef: ${monnifyTransactionRef}. Skipping duplicate.`,
+          `Ledger entry already exists for providerTransactionRef: ${providerTransactionRef}. Skipping duplicate.`,
         );
         return { skipped: true, reason: 'duplicate_monnify_ref' };
       }
     }
 
-    const existingByTicketId = await this.prisma.ledgerEntry.findFirst({
+    const existingByTicketId = await db.ledgerEntry.findFirst({
       where: {
         type: 'TICKET_SALE',
         ticketId,
@@ -130,7 +135,7 @@ export class LedgerService {
     // CREATE CREDIT ENTRY
     // ==========================================================================
     try {
-      const entry = await this.prisma.ledgerEntry.create({
+      const entry = await db.ledgerEntry.create({
         data: {
           type: 'TICKET_SALE',
           organizerId,
@@ -144,7 +149,7 @@ export class LedgerService {
           availableBalanceAfter: currentAvailable,
           runningBalance,
           // References
-          monnifyTransactionRef: monnifyTransactionRef || null,
+          providerTransactionRef: providerTransactionRef || null,
           paymentReference: paymentReference || null,
           paymentId: paymentId || null,
           externalReference: externalReference || null,
@@ -161,14 +166,14 @@ export class LedgerService {
       });
 
       this.logger.log(
-        `✅ CREDIT Entry: ${entry.id} | +₦${amount} | MonnifyRef: ${monnifyTransactionRef || 'N/A'}`,
+        `✅ CREDIT Entry: ${entry.id} | +₦${amount} | MonnifyRef: ${providerTransactionRef || 'N/A'}`,
       );
 
       return { skipped: false, entry };
     } catch (error: any) {
-      if (error.code === 'P2002' && error.meta?.target?.includes('monnifyTransactionRef')) {
+      if (error.code === 'P2002' && error.meta?.target?.includes('providerTransactionRef')) {
         this.logger.warn(
-          `Unique constraint violation for monnifyTransactionRef: ${monnifyTransactionRef}. Entry already exists.`,
+          `Unique constraint violation for providerTransactionRef: ${providerTransactionRef}. Entry already exists.`,
         );
         return { skipped: true, reason: 'unique_constraint_violation' };
       }
@@ -176,6 +181,225 @@ export class LedgerService {
     }
   }
 
+  // ==========================================================================
+  // ZERO-VALUE ENTRY: Complimentary tickets
+  // ==========================================================================
+  /**
+   * Record complimentary tickets issued by the organizer. No money moves, so the
+   * entry is zero-value and balances are unchanged - it keeps comps in the audit trail.
+   */
+  async recordComp(params: {
+    organizerId: string;
+    ticketId: string; // First ticket issued for the guest
+    quantity: number;
+    guestEmail: string;
+    tierName: string;
+    createdBy?: string;
+  }) {
+    const { organizerId, ticketId, quantity, guestEmail, tierName, createdBy } = params;
+
+    const organizer = await this.prisma.organizerProfile.findUnique({
+      where: { id: organizerId },
+    });
+
+    if (!organizer) {
+      throw new Error('Organizer not found');
+    }
+
+    const existing = await this.prisma.ledgerEntry.findFirst({
+      where: { type: 'COMP', ticketId, organizerId },
+      select: { id: true },
+    });
+
+    if (existing) {
+      this.logger.warn(
+        `Comp ledger entry already exists for ticketId: ${ticketId}. Skipping duplicate.`,
+      );
+      return { skipped: true, reason: 'duplicate_ticket_id' };
+    }
+
+    const currentPending = Number(organizer.pendingBalance) || 0;
+    const currentAvailable = Number(organizer.availableBalance) || 0;
+
+    const entry = await this.prisma.ledgerEntry.create({
+      data: {
+        type: 'COMP',
+        organizerId,
+        ticketId,
+        credit: 0,
+        debit: 0,
+        amount: 0,
+        // Balances are unchanged
+        pendingBalanceAfter: currentPending,
+        availableBalanceAfter: currentAvailable,
+        runningBalance: currentPending + currentAvailable,
+        valueDate: new Date(),
+        description: `Complimentary ticket${quantity === 1 ? '' : 's'}`,
+        narration: `Comp: ${quantity} × ${tierName} issued to ${guestEmail}`,
+        status: 'CONFIRMED',
+        createdBy: createdBy || 'SYSTEM',
+      },
+    });
+
+    this.logger.log(`✅ COMP Entry: ${entry.id} | ${quantity} × ${tierName} | ₦0`);
+    return { skipped: false, entry };
+  }
+
+  // ==========================================================================
+  // RESALE ENTRIES: Ticket resale marketplace
+  // ==========================================================================
+  /**
+   * Record the organizer's royalty on a ticket resale as a CREDIT entry.
+   * Like a ticket sale, the money lands in the pending balance first.
+   */
+  async recordResaleRoyalty(params: {
+    organizerId: string;
+    ticketId: string; // Ticket issued to the resale buyer
+    amount: number;
+    providerTransactionRef?: string | null;
+    paymentReference?: string | null;
+    paymentId: string;
+    valueDate?: Date;
+    description?: string;
+    narration?: string;
+  }) {
+    const { organizerId, ticketId, amount, providerTransactionRef, paymentReference, paymentId } =
+      params;
+
+    const organizer = await this.prisma.organizerProfile.findUnique({
+      where: { id: organizerId },
+    });
+
+    if (!organizer) {
+      throw new Error('Organizer not found');
+    }
+
+    const existing = await this.prisma.ledgerEntry.findFirst({
+      where: { type: 'RESALE_ROYALTY', paymentId, organizerId },
+      select: { id: true },
+    });
+
+    if (existing) {
+      this.logger.warn(
+        `Resale royalty entry already exists for payment: ${paymentId}. Skipping duplicate.`,
+      );
+      return { skipped: true, reason: 'duplicate_payment_id' };
+    }
+
+    const currentPending = Number(organizer.pendingBalance) || 0;
+    const currentAvailable = Number(organizer.availableBalance) || 0;
+    const newPendingBalance = currentPending + amount;
+
+    try {
+      const entry = await this.prisma.ledgerEntry.create({
+        data: {
+          type: 'RESALE_ROYALTY',
+          organizerId,
+          ticketId,
+          credit: amount,
+          debit: 0,
+          amount,
+          pendingBalanceAfter: newPendingBalance,
+          availableBalanceAfter: currentAvailable,
+          runningBalance: newPendingBalance + currentAvailable,
+          providerTransactionRef: providerTransactionRef || null,
+          paymentReference: paymentReference || null,
+          paymentId,
+          valueDate: params.valueDate || new Date(),
+          description: params.description || 'Resale royalty',
+          narration: params.narration || `Credit: Royalty on resale of ticket ${ticketId}`,
+          status: 'CONFIRMED',
+          createdBy: 'SYSTEM',
+        },
+      });
+
+      this.logger.log(`✅ CREDIT Entry (Resale royalty): ${entry.id} | +₦${amount}`);
+      return { skipped: false, entry };
+    } catch (error: any) {
+      if (error.code === 'P2002' && error.meta?.target?.includes('providerTransactionRef')) {
+        this.logger.warn(`Resale royalty entry already exists for ${providerTransactionRef}`);
+        return { skipped: true, reason: 'unique_constraint_violation' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record the platform fee kept on a ticket resale. The fee comes out of the
+   * seller's proceeds, not the organizer's balance, so balances are unchanged;
+   * `amount` carries the fee for reporting.
+   */
+  async recordResaleFee(params: {
+    organizerId: string;
+    ticketId: string; // Ticket issued to the resale buyer
+    amount: number;
+    providerTransactionRef?: string | null;
+    paymentReference?: string | null;
+    paymentId: string;
+    valueDate?: Date;
+    narration?: string;
+  }) {
+    const { organizerId, ticketId, amount, providerTransactionRef, paymentReference, paymentId } =
+      params;
+
+    const organizer = await this.prisma.organizerProfile.findUnique({
+      where: { id: organizerId },
+    });
+
+    if (!organizer) {
+      throw new Error('Organizer not found');
+    }
+
+    const existing = await this.prisma.ledgerEntry.findFirst({
+      where: { type: 'RESALE_FEE', paymentId, organizerId },
+      select: { id: true },
+    });
+
+    if (existing) {
+      this.logger.warn(
+        `Resale fee entry already exists for payment: ${paymentId}. Skipping duplicate.`,
+      );
+      return { skipped: true, reason: 'duplicate_payment_id' };
+    }
+
+    const currentPending = Number(organizer.pendingBalance) || 0;
+    const currentAvailable = Number(organizer.availableBalance) || 0;
+
+    try {
+      const entry = await this.prisma.ledgerEntry.create({
+        data: {
+          type: 'RESALE_FEE',
+          organizerId,
+          ticketId,
+          credit: 0,
+          debit: 0,
+          amount,
+          // Balances are unchanged
+          pendingBalanceAfter: currentPending,
+          availableBalanceAfter: currentAvailable,
+          runningBalance: currentPending + currentAvailable,
+          providerTransactionRef: providerTransactionRef || null,
+          paymentReference: paymentReference || null,
+          paymentId,
+          valueDate: params.valueDate || new Date(),
+          description: 'Resale platform fee',
+          narration: params.narration || `Platform fee on resale of ticket ${ticketId}`,
+          status: 'CONFIRMED',
+          createdBy: 'SYSTEM',
+        },
+      });
+
+      this.logger.log(`✅ RESALE_FEE Entry: ${entry.id} | ₦${amount} (platform)`);
+      return { skipped: false, entry };
+    } catch (error: any) {
+      if (error.code === 'P2002' && error.meta?.target?.includes('providerTransactionRef')) {
+        this.logger.warn(`Resale fee entry already exists for ${providerTransactionRef}`);
+        return { skipped: true, reason: 'unique_constraint_violation' };
+      }
+      throw error;
+    }
+  }
+
   // ==========================================================================
   // DEBIT ENTRIES: Record money going OUT
   // ==========================================================================
@@ -247,6 +471,58 @@ export class LedgerService {
     return entry;
   }
 
+  /**
+   * Record a refund the gateway couldn't complete as an ADJUSTMENT CREDIT entry,
+   * giving back the amount recordRefund debited.
+   */
+  async recordRefundReversal(params: {
+    organizerId: string;
+    ticketId: string;
+    refundId: string;
+    amount: number;
+    description?: string;
+    narration?: string;
+    createdBy?: string;
+  }) {
+    const { organizerId, ticketId, refundId, amount, description, narration, createdBy } = params;
+
+    const organizer = await this.prisma.organizerProfile.findUnique({
+      where: { id: organizerId },
+    });
+
+    if (!organizer) {
+      throw new Error('Organizer not found');
+    }
+
+    const currentPending = Number(organizer.pendingBalance) || 0;
+    const currentAvailable = Number(organizer.availableBalance) || 0;
+
+    const entry = await this.prisma.ledgerEntry.create({
+      data: {
+        type: 'ADJUSTMENT',
+        organizerId,
+        ticketId,
+        refundId,
+        // Double-entry: CREDIT for money coming back IN
+        debit: 0,
+        credit: amount,
+        amount,
+        // Balances (the organizer balance is restored before this is recorded)
+        pendingBalanceAfter: currentPending,
+        availableBalanceAfter: currentAvailable,
+        runningBalance: currentPending + currentAvailable,
+        valueDate: new Date(),
+        description: description || `Refund reversed`,
+        narration: narration || `Credit: Failed refund for ticket ${ticketId}`,
+        status: 'CONFIRMED',
+        createdBy: createdBy || 'SYSTEM',
+      },
+    });
+
+    this.logger.log(`✅ CREDIT Entry (Refund reversal): ${entry.id} | +₦${amount}`);
+    return entry;
+  }
+
   /**
    * Record a withdrawal as a DEBIT entry in the ledger.
    * Money is going OUT from the organizer's account.
@@ -314,55 +590,59 @@ export class LedgerService {
   /**
    * Record a chargeback as a DEBIT entry in the ledger.
    * Money is going OUT from the organizer's account (forcibly by payment provider).
+   * Like the reversal, it is recorded after the balance is debited, with the balances
+   * as they now stand - pass the caller's transaction to record both together.
    */
-  async recordChargeback(params: {
-    organizerId: string;
-    ticketId: string;
-    amount: number;
-    externalReference?: string;
-    valueDate?: Date;
-    description?: string;
-    narration?: string;
-    createdBy?: string;
-  }) {
+  async recordChargeback(
+    params: {
+      organizerId: string;
+      ticketId: string;
+      amount: number;
+      pendingBalanceAfter: number;
+      availableBalanceAfter: number;
+      externalReference?: string;
+      paymentId?: string;
+      paymentReference?: string;
+      valueDate?: Date;
+      description?: string;
+      narration?: string;
+      createdBy?: string;
+    },
+    tx?: any,
+  ) {
     const {
       organizerId,
       ticketId,
       amount,
+      pendingBalanceAfter,
+      availableBalanceAfter,
       externalReference,
+      paymentId,
+      paymentReference,
       valueDate,
       description,
       narration,
       createdBy,
     } = params;
 
-    const organizer = await this.prisma.organizerProfile.findUnique({
-      where: { id: organizerId },
-    });
+    const db = tx || this.prisma;
 
-    if (!organizer) {
-      throw new Error('Organizer not found');
-    }
-
-    const currentPending = Number(organizer.pendingBalance) || 0;
-    const currentAvailable = Number(organizer.availableBalance) || 0;
-    const newAvailableBalance = currentAvailable - amount;
-    const runningBalance = currentPending + newAvailableBalance;
-
-    const entry = await this.prisma.ledgerEntry.create({
+    const entry = await db.ledgerEntry.create({
       data: {
         type: 'CHARGEBACK',
         organizerId,
         ticketId,
         externalReference: externalReference || null,
+        paymentId: paymentId || null,
+        paymentReference: paymentReference || null,
         // Double-entry: DEBIT for money OUT
         debit: amount,
         credit: 0,
         amount: -amount, // Net amount (negative for debits)
         // Balances
-        pendingBalanceAfter: currentPending,
-        availableBalanceAfter: newAvailableBalance,
-        runningBalance,
+        pendingBalanceAfter,
+        availableBalanceAfter,
+        runningBalance: pendingBalanceAfter + availableBalanceAfter,
         // Timestamps
         valueDate: valueDate || new Date(),
         // Description
@@ -378,6 +658,126 @@ export class LedgerService {
     return entry;
   }
 
+  /**
+   * Record the platform's share of a chargeback - its fee, or on a resale everything
+   * but the royalty. The organizer isn't debited for it, so balances are unchanged;
+   * `amount` carries the share for reporting.
+   */
+  async recordChargebackFee(params: {
+    organizerId: string;
+    ticketId: string;
+    amount: number;
+    externalReference?: string;
+    paymentId?: string;
+    paymentReference?: string;
+    description?: string;
+    createdBy?: string;
+  }) {
+    const { organizerId, ticketId, amount, externalReference, paymentId, paymentReference } =
+      params;
+
+    const organizer = await this.prisma.organizerProfile.findUnique({
+      where: { id: organizerId },
+    });
+
+    if (!organizer) {
+      throw new Error('Organizer not found');
+    }
+
+    const currentPending = Number(organizer.pendingBalance) || 0;
+    const currentAvailable = Number(organizer.availableBalance) || 0;
+
+    const entry = await this.prisma.ledgerEntry.create({
+      data: {
+        type: 'CHARGEBACK_FEE',
+        organizerId,
+        ticketId,
+        externalReference: externalReference || null,
+        paymentId: paymentId || null,
+        paymentReference: paymentReference || null,
+        credit: 0,
+        debit: 0,
+        amount,
+        // Balances are unchanged
+        pendingBalanceAfter: currentPending,
+        availableBalanceAfter: currentAvailable,
+        runningBalance: currentPending + currentAvailable,
+        valueDate: new Date(),
+        description: params.description || 'Chargeback platform share',
+        narration: `Platform share of chargeback on ticket ${ticketId}`,
+        status: 'CONFIRMED',
+        createdBy: params.createdBy || 'SYSTEM',
+      },
+    });
+
+    this.logger.log(`✅ CHARGEBACK_FEE Entry: ${entry.id} | ₦${amount} (platform)`);
+    return entry;
+  }
+
+  /**
+   * Record a dispute decided in the organizer's favour as an ADJUSTMENT CREDIT entry,
+   * giving back the amount recordChargeback debited. Recorded after the balance is
+   * restored, with the balances as they now stand.
+   */
+  async recordChargebackReversal(
+    params: {
+      organizerId: string;
+      ticketId: string;
+      amount: number;
+      pendingBalanceAfter: number;
+      availableBalanceAfter: number;
+      externalReference?: string;
+      paymentId?: string;
+      paymentReference?: string;
+      description?: string;
+      narration?: string;
+      createdBy?: string;
+    },
+    tx?: any,
+  ) {
+    const {
+      organizerId,
+      ticketId,
+      amount,
+      pendingBalanceAfter,
+      availableBalanceAfter,
+      externalReference,
+      paymentId,
+      paymentReference,
+      description,
+      narration,
+      createdBy,
+    } = params;
+
+    const db = tx || this.prisma;
+
+    const entry = await db.ledgerEntry.create({
+      data: {
+        type: 'ADJUSTMENT',
+        organizerId,
+        ticketId,
+        externalReference: externalReference || null,
+        paymentId: paymentId || null,
+        paymentReference: paymentReference || null,
+        // Double-entry: CREDIT for money coming back IN
+        debit: 0,
+        credit: amount,
+        amount,
+        pendingBalanceAfter,
+        availableBalanceAfter,
+        runningBalance: pendingBalanceAfter + availableBalanceAfter,
+        valueDate: new Date(),
+        description: description || `Chargeback reversed`,
+        narration: narration || `Credit: Dispute won for ticket ${ticketId}`,
+        status: 'CONFIRMED',
+        createdBy: createdBy || 'SYSTEM',
+      },
+    });
+
+    this.logger.log(`✅ CREDIT Entry (Chargeback reversal): ${entry.id} | +₦${amount}`);
+    return entry;
+  }
+
   async getOrganizerLedger(
     organizerId: string,
     options?: {
@@ -430,7 +830,7 @@ export class LedgerService {
           select: {
             id: true,
             payment: {
-              select: { status: true, amount: true, monnifyTransactionRef: true },
+              select: { status: true, amount: true, providerTransactionRef: true },
             },
           },
         });
@@ -445,7 +845,7 @@ export class LedgerService {
                 t.payment?.amount instanceof Decimal
                   ? t.payment.amount.toNumber()
                   : Number(t.payment?.amount || 0);
-              const monnifyRef = t.payment?.monnifyTransactionRef || null;
+              const monnifyRef = t.payment?.providerTransactionRef || null;
               ticketMonnifyRefById!.set(t.id, monnifyRef);
               // Confirmed sale must be SUCCESS and have a Monnify transaction ref (or be free)
               return status === 'SUCCESS' && (Boolean(monnifyRef) || amount === 0);
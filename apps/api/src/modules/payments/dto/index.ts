@@ -1 +1,2 @@
 export * from './initialize-payment.dto';
+export * from './initialize-cart-payment.dto';
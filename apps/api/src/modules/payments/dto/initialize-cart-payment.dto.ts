@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsEmail,
+  IsInt,
+  Min,
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { RegistrationAnswerDto } from '../../registration-questions/dto';
+
+export class CartItemDto {
+  @ApiProperty({ description: 'Ticket tier ID' })
+  @IsString({ message: 'Tier ID must be a string' })
+  tierId: string;
+
+  @ApiProperty({ description: 'Number of tickets for this tier', default: 1 })
+  @IsInt({ message: 'Quantity must be a whole number' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  quantity: number;
+}
+
+export class InitializeCartPaymentDto {
+  @ApiProperty({ description: 'Event ID to purchase tickets for' })
+  @IsString({ message: 'Event ID must be a string' })
+  eventId: string;
+
+  @ApiProperty({ type: [CartItemDto], description: 'Tiers and quantities in the cart' })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Cart must contain at least one item' })
+  @ValidateNested({ each: true })
+  @Type(() => CartItemDto)
+  items: CartItemDto[];
+
+  @ApiPropertyOptional({ description: 'Guest email for unauthenticated purchases' })
+  @IsOptional()
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  guestEmail?: string;
+
+  @ApiPropertyOptional({ description: 'Promo code to apply to the order' })
+  @IsOptional()
+  @IsString({ message: 'Promo code must be a string' })
+  promoCode?: string;
+
+  @ApiPropertyOptional({ description: 'Access code unlocking hidden tiers in the order' })
+  @IsOptional()
+  @IsString({ message: 'Access code must be a string' })
+  accessCode?: string;
+
+  @ApiPropertyOptional({
+    type: [RegistrationAnswerDto],
+    description: "Answers to the event's registration questions",
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RegistrationAnswerDto)
+  answers?: RegistrationAnswerDto[];
+}
@@ -21,4 +21,9 @@ export class InitializePaymentDto {
   @IsOptional()
   @IsEmail({}, { message: 'Please provide a valid email address' })
   guestEmail?: string;
+
+  @ApiPropertyOptional({ description: 'Promo code to apply to the order' })
+  @IsOptional()
+  @IsString({ message: 'Promo code must be a string' })
+  promoCode?: string;
 }
@@ -1,6 +1,36 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, RawBodyRequest } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
 import * as crypto from 'crypto';
+import { PaymentGateway } from '../../common/types/prisma-enums';
+import {
+  Bank,
+  InitializedTransaction,
+  InitiatedRefund,
+  VerifiedRefund,
+  InitiatedTransfer,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  VerifiedTransaction,
+} from './payment-provider.interface';
+
+// SECURITY: Monnify IP whitelist for webhook validation
+// These are Monnify's official webhook IP addresses
+// Update this list if Monnify adds new IPs
+const MONNIFY_WEBHOOK_IPS = [
+  '35.242.133.146', // Monnify production
+  '34.89.50.88', // Monnify production
+  '34.141.78.93', // Monnify production
+  '35.246.66.244', // Monnify sandbox
+  '127.0.0.1', // Localhost for development
+  '::1', // IPv6 localhost
+];
+
+const MONNIFY_TRANSFER_EVENTS: Record<string, PaymentWebhookEvent['type']> = {
+  SUCCESSFUL_DISBURSEMENT: 'TRANSFER_SUCCESS',
+  FAILED_DISBURSEMENT: 'TRANSFER_FAILED',
+  REVERSED_DISBURSEMENT: 'TRANSFER_REVERSED',
+};
 
 interface MonnifyAuthResponse {
   accessToken: string;
@@ -15,20 +45,9 @@ interface MonnifyVirtualAccountResponse {
   accountReference: string;
 }
 
-interface MonnifyTransactionResponse {
-  transactionReference: string;
-  paymentReference: string;
-  checkoutUrl: string;
-}
-
-interface MonnifyTransferResponse {
-  reference: string;
-  status: string;
-  totalAmount: number;
-}
-
 @Injectable()
-export class MonnifyService {
+export class MonnifyService implements PaymentProvider {
+  readonly name = PaymentGateway.MONNIFY;
   private readonly logger = new Logger(MonnifyService.name);
   private baseUrl: string;
   private apiKey: string;
@@ -48,6 +67,10 @@ export class MonnifyService {
     this.defaultBvn = this.configService.get<string>('MONNIFY_DEFAULT_BVN') || '';
   }
 
+  isConfigured(): boolean {
+    return !!(this.apiKey && this.secretKey && this.contractCode);
+  }
+
   /**
    * Get authentication token from Monnify
    */
@@ -216,7 +239,7 @@ export class MonnifyService {
     amount: number,
     reference: string,
     metadata?: Record<string, string>,
-  ): Promise<MonnifyTransactionResponse> {
+  ): Promise<InitializedTransaction> {
     const token = await this.getAccessToken();
     const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
 
@@ -354,7 +377,10 @@ export class MonnifyService {
    * Can use either transactionReference or paymentReference
    * Will try both if the first one fails
    */
-  async verifyTransaction(reference: string, paymentReference?: string): Promise<any> {
+  async verifyTransaction(
+    reference: string,
+    paymentReference?: string,
+  ): Promise<VerifiedTransaction> {
     const token = await this.getAccessToken();
 
     this.logger.log(`Verifying transaction with reference: ${reference}`);
@@ -406,7 +432,7 @@ export class MonnifyService {
     const paymentStatus = data.responseBody.paymentStatus?.toUpperCase();
 
     // Normalize status - Monnify uses PAID, we normalize to 'paid' or 'success'
-    let normalizedStatus = 'pending';
+    let normalizedStatus: VerifiedTransaction['status'] = 'pending';
     if (paymentStatus === 'PAID' || paymentStatus === 'SUCCESS') {
       normalizedStatus = 'paid';
     } else if (
@@ -434,7 +460,7 @@ export class MonnifyService {
   /**
    * Initiate a refund
    */
-  async refundTransaction(transactionReference: string, amount?: number): Promise<any> {
+  async refundTransaction(transactionReference: string, amount?: number): Promise<InitiatedRefund> {
     const token = await this.getAccessToken();
     const refundReference = `REFUND-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
 
@@ -464,13 +490,52 @@ export class MonnifyService {
       throw new Error(data.responseMessage || 'Failed to process refund');
     }
 
-    return data.responseBody;
+    return {
+      refundReference: data.responseBody?.refundReference || refundReference,
+      status: data.responseBody?.refundStatus || 'PENDING',
+    };
+  }
+
+  /**
+   * Get the status of a refund
+   */
+  async verifyRefund(refundReference: string): Promise<VerifiedRefund> {
+    const token = await this.getAccessToken();
+
+    const response = await fetch(
+      `${this.baseUrl}/api/v1/refunds/${encodeURIComponent(refundReference)}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      },
+    );
+
+    const data = await response.json();
+
+    if (!data.requestSuccessful) {
+      this.logger.error('Failed to get refund status:', data);
+      throw new Error(data.responseMessage || 'Failed to get refund status');
+    }
+
+    const refundStatus = String(data.responseBody?.refundStatus || '').toUpperCase();
+
+    return {
+      status:
+        refundStatus === 'COMPLETED'
+          ? 'processed'
+          : refundStatus === 'FAILED'
+            ? 'failed'
+            : 'pending',
+      rawStatus: refundStatus,
+      reason: data.responseBody?.comment || data.responseBody?.refundReason,
+    };
   }
 
   /**
    * Get list of Nigerian banks
    */
-  async getBanks(): Promise<any[]> {
+  async getBanks(): Promise<Bank[]> {
     const token = await this.getAccessToken();
 
     const response = await fetch(`${this.baseUrl}/api/v1/banks`, {
@@ -535,7 +600,7 @@ export class MonnifyService {
     accountNumber: string,
     accountName: string,
     narration: string,
-  ): Promise<MonnifyTransferResponse> {
+  ): Promise<InitiatedTransfer> {
     const token = await this.getAccessToken();
     const reference = `WD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
 
@@ -624,12 +689,114 @@ export class MonnifyService {
     return data.responseBody;
   }
 
+  /**
+   * Check a webhook came from Monnify: source IP in production, the monnify-signature
+   * header for every event, and the transaction hash for payment events
+   */
+  verifyWebhook(req: RawBodyRequest<Request>, clientIp: string): boolean {
+    if (process.env.NODE_ENV === 'production' && !MONNIFY_WEBHOOK_IPS.includes(clientIp)) {
+      this.logger.warn(`SECURITY: Webhook rejected from unauthorized IP: ${clientIp}`);
+      return false;
+    }
+
+    if (!this.verifyWebhookSignature(req)) {
+      return false;
+    }
+
+    const { eventType, eventData } = req.body || {};
+    if (eventType !== 'SUCCESSFUL_TRANSACTION' && eventType !== 'FAILED_TRANSACTION') {
+      return true;
+    }
+
+    const { paymentReference, amountPaid, paidOn, transactionReference, transactionHash } =
+      eventData || {};
+    return this.verifyWebhookPayload(
+      paymentReference,
+      amountPaid,
+      paidOn,
+      transactionReference,
+      transactionHash,
+    );
+  }
+
+  parseWebhookEvent(body: any): PaymentWebhookEvent {
+    const rawType = body?.eventType || '';
+    const data = body?.eventData || {};
+
+    switch (rawType) {
+      case 'SUCCESSFUL_TRANSACTION':
+      case 'FAILED_TRANSACTION':
+        return {
+          type: rawType === 'SUCCESSFUL_TRANSACTION' ? 'PAYMENT_SUCCESS' : 'PAYMENT_FAILED',
+          rawType,
+          paymentReference: data.paymentReference,
+          transactionReference: data.transactionReference,
+          amount: data.amountPaid,
+          paidOn: data.paidOn,
+          status: data.paymentStatus,
+          customer: data.customer,
+        };
+
+      case 'SUCCESSFUL_DISBURSEMENT':
+      case 'FAILED_DISBURSEMENT':
+      case 'REVERSED_DISBURSEMENT':
+        return {
+          type: MONNIFY_TRANSFER_EVENTS[rawType],
+          rawType,
+          transferReference: data.reference,
+          amount: data.amount,
+          status: data.status,
+          reason: data.responseMessage,
+        };
+
+      case 'SUCCESSFUL_REFUND':
+      case 'FAILED_REFUND':
+        return {
+          type: rawType === 'SUCCESSFUL_REFUND' ? 'REFUND_SUCCESS' : 'REFUND_FAILED',
+          rawType,
+          transactionReference: data.transactionReference,
+          refundReference: data.refundReference,
+          amount: data.refundAmount,
+          status: data.refundStatus,
+          reason: data.refundReason,
+        };
+
+      default:
+        return { type: 'IGNORED', rawType };
+    }
+  }
+
+  /**
+   * Monnify signs the raw body: monnify-signature = HMAC-SHA512(secretKey, body)
+   * SECURITY: Fails closed - rejects webhooks if the secret key or raw body is missing
+   */
+  private verifyWebhookSignature(req: RawBodyRequest<Request>): boolean {
+    if (!this.secretKey) {
+      this.logger.error('SECURITY: Monnify secret key not configured - rejecting webhook');
+      return false;
+    }
+
+    const signature = req.headers?.['monnify-signature'];
+    if (typeof signature !== 'string' || !req.rawBody) {
+      this.logger.warn('Monnify webhook without signature or raw body');
+      return false;
+    }
+
+    const computed = crypto.createHmac('sha512', this.secretKey).update(req.rawBody).digest('hex');
+
+    try {
+      return crypto.timingSafeEqual(Buffer.from(computed), Buffer.from(signature));
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Verify webhook using Monnify's transaction hash method
    * Monnify computes: SHA512(secretKey|paymentReference|amountPaid|paidOn|transactionReference)
    * SECURITY: Fails closed - rejects webhooks if secret key is not configured
    */
-  verifyWebhookPayload(
+  private verifyWebhookPayload(
     paymentReference: string,
     amountPaid: number | string,
     paidOn: string,
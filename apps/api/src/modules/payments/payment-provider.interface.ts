@@ -0,0 +1,117 @@
+import { RawBodyRequest } from '@nestjs/common';
+import { Request } from 'express';
+import { PaymentGateway } from '../../common/types/prisma-enums';
+
+export interface InitializedTransaction {
+  transactionReference: string; // Gateway reference, stored as providerTransactionRef
+  paymentReference: string; // Our HD-xxx reference
+  checkoutUrl: string;
+}
+
+export interface VerifiedTransaction {
+  status: 'paid' | 'pending' | 'failed';
+  rawStatus: string;
+  amount: number; // Naira
+  reference: string;
+  transactionReference: string;
+  paidOn: string | null;
+  paymentMethod: string | null;
+  customer: { email?: string; name?: string } | null;
+}
+
+export interface InitiatedRefund {
+  refundReference: string;
+  status: string;
+}
+
+export interface VerifiedRefund {
+  status: 'processed' | 'pending' | 'failed';
+  rawStatus: string;
+  reason?: string;
+}
+
+export interface InitiatedTransfer {
+  reference: string;
+  status: string;
+  totalAmount: number;
+}
+
+export interface Bank {
+  name: string;
+  code: string;
+  ussdTemplate?: string | null;
+}
+
+export type PaymentWebhookEventType =
+  | 'PAYMENT_SUCCESS'
+  | 'PAYMENT_FAILED'
+  | 'TRANSFER_SUCCESS'
+  | 'TRANSFER_FAILED'
+  | 'TRANSFER_REVERSED'
+  | 'REFUND_SUCCESS'
+  | 'REFUND_FAILED'
+  | 'IGNORED';
+
+/**
+ * A webhook event in the same shape whichever gateway sent it
+ */
+export interface PaymentWebhookEvent {
+  type: PaymentWebhookEventType;
+  rawType: string;
+  paymentReference?: string; // Our HD-xxx reference (payment events)
+  transactionReference?: string; // Gateway transaction reference
+  transferReference?: string; // WD-xxx reference (transfer events)
+  refundReference?: string; // Refund events
+  amount?: number; // Naira
+  paidOn?: string;
+  status?: string;
+  reason?: string;
+  customer?: { email?: string; name?: string } | null;
+}
+
+/**
+ * A payment gateway. Monnify and Paystack implement it; PaymentProvidersService picks
+ * one per payment and fails over to the next when initialization fails. Amounts are in
+ * naira whatever the gateway uses on the wire.
+ */
+export interface PaymentProvider {
+  readonly name: PaymentGateway;
+
+  /** Whether the credentials this gateway needs are set */
+  isConfigured(): boolean;
+
+  initializeTransaction(
+    email: string,
+    amount: number,
+    reference: string,
+    metadata?: Record<string, string>,
+  ): Promise<InitializedTransaction>;
+
+  /** Look a transaction up by the gateway reference, falling back to ours */
+  verifyTransaction(reference: string, paymentReference?: string): Promise<VerifiedTransaction>;
+
+  refundTransaction(transactionReference: string, amount?: number): Promise<InitiatedRefund>;
+
+  /** Look a refund up by the reference refundTransaction returned */
+  verifyRefund(refundReference: string): Promise<VerifiedRefund>;
+
+  getBanks(): Promise<Bank[]>;
+
+  resolveAccountNumber(
+    accountNumber: string,
+    bankCode: string,
+  ): Promise<{ accountNumber: string; accountName: string }>;
+
+  initiateTransfer(
+    amount: number,
+    bankCode: string,
+    accountNumber: string,
+    accountName: string,
+    narration: string,
+  ): Promise<InitiatedTransfer>;
+
+  /** Check a webhook came from the gateway (source IP, signature or hash) */
+  verifyWebhook(req: RawBodyRequest<Request>, clientIp: string): boolean;
+
+  parseWebhookEvent(body: any): PaymentWebhookEvent;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MonnifyService } from './monnify.service';
+import { PaystackService } from './paystack.service';
+import { PaymentProvidersService } from './payment-providers.service';
+
+@Module({
+  providers: [MonnifyService, PaystackService, PaymentProvidersService],
+  exports: [MonnifyService, PaystackService, PaymentProvidersService],
+})
+export class PaymentProvidersModule {}
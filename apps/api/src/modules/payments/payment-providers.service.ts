@@ -0,0 +1,132 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../database/prisma.service';
+import { PaymentGateway } from '../../common/types/prisma-enums';
+import { MonnifyService } from './monnify.service';
+import { PaystackService } from './paystack.service';
+import { InitializedTransaction, PaymentProvider } from './payment-provider.interface';
+
+export const PAYMENT_GATEWAY_LABELS: Record<PaymentGateway, string> = {
+  [PaymentGateway.MONNIFY]: 'Monnify',
+  [PaymentGateway.PAYSTACK]: 'Paystack',
+};
+
+/**
+ * Picks the gateway for each payment. Checkout tries the event's gateway first, then
+ * the others in PAYMENT_PROVIDERS order, so an outage at one doesn't stop sales. Once
+ * a payment is initialized, verifying and refunding it always go to the gateway it
+ * was made with; withdrawals go through PAYOUT_PROVIDER.
+ */
+@Injectable()
+export class PaymentProvidersService {
+  private readonly logger = new Logger(PaymentProvidersService.name);
+  private readonly providers: Record<PaymentGateway, PaymentProvider>;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    monnifyService: MonnifyService,
+    paystackService: PaystackService,
+  ) {
+    this.providers = {
+      [PaymentGateway.MONNIFY]: monnifyService,
+      [PaymentGateway.PAYSTACK]: paystackService,
+    };
+  }
+
+  /**
+   * Look a gateway up by name, e.g. from the /webhooks/:provider route
+   */
+  find(name: string): PaymentProvider | undefined {
+    return this.providers[String(name).toUpperCase() as PaymentGateway];
+  }
+
+  get(name: PaymentGateway | string): PaymentProvider {
+    const provider = this.find(name);
+    if (!provider) {
+      throw new NotFoundException(`Unknown payment provider: ${name}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Configured gateways in the order checkout tries them, the preferred one first
+   */
+  getCheckoutOrder(preferred?: PaymentGateway | string | null): PaymentProvider[] {
+    const order = (this.configService.get<string>('PAYMENT_PROVIDERS') || 'MONNIFY,PAYSTACK')
+      .split(',')
+      .map((name) => this.find(name.trim()))
+      .filter((provider): provider is PaymentProvider => !!provider);
+
+    const providers = preferred ? [this.get(preferred), ...order] : order;
+    return Array.from(new Set(providers)).filter((provider) => provider.isConfigured());
+  }
+
+  /**
+   * Initialize a transaction with the first gateway that accepts it. Returns which one
+   * did, so the payment can be verified and refunded there later.
+   */
+  async initializeTransaction(
+    preferred: PaymentGateway | string | null | undefined,
+    email: string,
+    amount: number,
+    reference: string,
+    metadata?: Record<string, string>,
+  ): Promise<InitializedTransaction & { provider: PaymentGateway }> {
+    const providers = this.getCheckoutOrder(preferred);
+    if (providers.length === 0) {
+      throw new Error('No payment provider is configured');
+    }
+
+    let firstError: Error | undefined;
+    for (const provider of providers) {
+      try {
+        const result = await provider.initializeTransaction(email, amount, reference, metadata);
+        if (firstError) {
+          this.logger.warn(`Payment ${reference} failed over to ${provider.name}`);
+        }
+        return { ...result, provider: provider.name };
+      } catch (error: any) {
+        this.logger.error(
+          `${provider.name} initialization failed for ${reference}: ${error.message}`,
+        );
+        firstError = firstError || error;
+      }
+    }
+
+    throw firstError;
+  }
+
+  /**
+   * Refund a payment through the gateway it was made with
+   */
+  async refundPayment(paymentReference: string, amount?: number) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { reference: paymentReference },
+      select: { provider: true, providerTransactionRef: true },
+    });
+
+    const provider = this.get(payment?.provider || PaymentGateway.MONNIFY);
+    return provider.refundTransaction(payment?.providerTransactionRef || paymentReference, amount);
+  }
+
+  /**
+   * Check on a refund with the gateway the payment was made with
+   */
+  async verifyRefund(paymentReference: string, refundReference: string) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { reference: paymentReference },
+      select: { provider: true },
+    });
+
+    return this.get(payment?.provider || PaymentGateway.MONNIFY).verifyRefund(refundReference);
+  }
+
+  /**
+   * The gateway organizer withdrawals are paid out through. Bank lists and account
+   * lookups come from it too, since bank codes differ between gateways.
+   */
+  getPayoutProvider(): PaymentProvider {
+    return this.get(this.configService.get<string>('PAYOUT_PROVIDER') || PaymentGateway.MONNIFY);
+  }
+}
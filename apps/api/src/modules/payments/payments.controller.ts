@@ -11,7 +11,7 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { PaymentsService } from './payments.service';
-import { MonnifyService } from './monnify.service';
+import { PaymentProvidersService } from './payment-providers.service';
 import { LedgerService } from '../ledger/ledger.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
@@ -20,13 +20,15 @@ import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Public } from '../auth/decorators/public.decorator';
 import { UserRole } from '../../common/types/prisma-enums';
+import { InitializeCartPaymentDto } from './dto';
+import { RegistrationAnswerDto } from '../registration-questions/dto';
 
 @ApiTags('Payments')
 @Controller('payments')
 export class PaymentsController {
   constructor(
     private readonly paymentsService: PaymentsService,
-    private readonly monnifyService: MonnifyService,
+    private readonly paymentProviders: PaymentProvidersService,
     private readonly ledgerService: LedgerService,
   ) {}
 
@@ -38,6 +40,11 @@ export class PaymentsController {
     @Body('eventId') eventId: string,
     @Body('tierId') tierId: string,
     @Body('guestEmail') guestEmail?: string,
+    @Body('quantity') quantity?: number,
+    @Body('promoCode') promoCode?: string,
+    @Body('waitlistToken') waitlistToken?: string,
+    @Body('accessCode') accessCode?: string,
+    @Body('answers') answers?: RegistrationAnswerDto[],
   ) {
     // For authenticated users, use their ID and email
     // For guests, use the provided guestEmail
@@ -49,6 +56,10 @@ export class PaymentsController {
       email,
       eventId,
       tierId,
+      quantity,
+      promoCode,
+      hasWaitlistOffer: !!waitlistToken,
+      accessCode,
       guestEmail,
       hasUser: !!req.user,
     });
@@ -58,8 +69,42 @@ export class PaymentsController {
       throw new BadRequestException('Email is required for payment initialization');
     }
 
-    // Service expects: (eventId, tierId, userId, email)
-    return this.paymentsService.initializePayment(eventId, tierId, userId, email);
+    // Service expects: (eventId, tierId, userId, email, quantity, promoCode, waitlistToken, accessCode, answers)
+    return this.paymentsService.initializePayment(
+      eventId,
+      tierId,
+      userId,
+      email,
+      quantity === undefined || quantity === null ? 1 : Number(quantity),
+      promoCode || undefined,
+      waitlistToken || undefined,
+      accessCode || undefined,
+      answers || undefined,
+    );
+  }
+
+  @UseGuards(OptionalJwtAuthGuard)
+  @Post('initialize-cart')
+  @ApiOperation({
+    summary: 'Initialize a cart payment across several ticket tiers (supports guest checkout)',
+  })
+  async initializeCart(@Request() req: any, @Body() dto: InitializeCartPaymentDto) {
+    const userId = req.user?.id || req.user?.sub || null;
+    const email = req.user?.email || dto.guestEmail;
+
+    if (!email) {
+      throw new BadRequestException('Email is required for payment initialization');
+    }
+
+    return this.paymentsService.initializeCartPayment(
+      dto.eventId,
+      dto.items,
+      userId,
+      email,
+      dto.promoCode,
+      dto.accessCode,
+      dto.answers,
+    );
   }
 
   @UseGuards(JwtAuthGuard)
@@ -81,7 +126,7 @@ export class PaymentsController {
   @Get('banks')
   @ApiOperation({ summary: 'Get list of banks' })
   async getBanks() {
-    return this.monnifyService.getBanks();
+    return this.paymentProviders.getPayoutProvider().getBanks();
   }
 
   @UseGuards(JwtAuthGuard)
@@ -92,7 +137,7 @@ export class PaymentsController {
     @Body('accountNumber') accountNumber: string,
     @Body('bankCode') bankCode: string,
   ) {
-    return this.monnifyService.resolveAccountNumber(accountNumber, bankCode);
+    return this.paymentProviders.getPayoutProvider().resolveAccountNumber(accountNumber, bankCode);
   }
 
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -1,16 +1,32 @@
 import { Module } from '@nestjs/common';
 import { PaymentsController } from './payments.controller';
 import { PaymentsService } from './payments.service';
-import { MonnifyService } from './monnify.service';
+import { PaymentProvidersModule } from './payment-providers.module';
 import { WebhooksController } from './webhooks.controller';
+import { WebhookInboxService } from './webhook-inbox.service';
 import { TicketsModule } from '../tickets/tickets.module';
 import { LedgerModule } from '../ledger/ledger.module';
 import { TasksModule } from '../tasks/tasks.module';
+import { PromoCodesModule } from '../promo-codes/promo-codes.module';
+import { AccessCodesModule } from '../access-codes/access-codes.module';
+import { ResaleModule } from '../resale/resale.module';
+import { RegistrationQuestionsModule } from '../registration-questions/registration-questions.module';
+import { RefundsModule } from '../refunds/refunds.module';
 
 @Module({
-  imports: [TicketsModule, LedgerModule, TasksModule],
+  imports: [
+    PaymentProvidersModule,
+    TicketsModule,
+    LedgerModule,
+    TasksModule,
+    PromoCodesModule,
+    AccessCodesModule,
+    ResaleModule,
+    RegistrationQuestionsModule,
+    RefundsModule,
+  ],
   controllers: [PaymentsController, WebhooksController],
-  providers: [PaymentsService, MonnifyService],
-  exports: [PaymentsService, MonnifyService],
+  providers: [PaymentsService, WebhookInboxService],
+  exports: [PaymentsService, WebhookInboxService, PaymentProvidersModule],
 })
 export class PaymentsModule {}
@@ -1,11 +1,22 @@
 import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../database/prisma.service';
-import { MonnifyService } from './monnify.service';
+import { PaymentProvidersService, PAYMENT_GATEWAY_LABELS } from './payment-providers.service';
+import { PaymentWebhookEvent } from './payment-provider.interface';
 import { TicketsService } from '../tickets/tickets.service';
 import { LedgerService } from '../ledger/ledger.service';
 import { TasksService } from '../tasks/tasks.service';
+import { PromoCodesService, AppliedPromoCode } from '../promo-codes/promo-codes.service';
+import {
+  AccessCodesService,
+  AccessCodeLine,
+  AppliedAccessCode,
+} from '../access-codes/access-codes.service';
+import { ResaleService } from '../resale/resale.service';
+import { RegistrationQuestionsService } from '../registration-questions/registration-questions.service';
+import { RegistrationAnswerDto } from '../registration-questions/dto';
 import { Decimal } from '@prisma/client/runtime/library';
+import { getCurrentTierPrice } from '../../common/utils/tier-pricing';
 
 @Injectable()
 export class PaymentsService {
@@ -14,14 +25,30 @@ export class PaymentsService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
-    private monnifyService: MonnifyService,
+    private paymentProviders: PaymentProvidersService,
     private ticketsService: TicketsService,
     private ledgerService: LedgerService,
     private tasksService: TasksService,
+    private promoCodesService: PromoCodesService,
+    private accessCodesService: AccessCodesService,
+    private resaleService: ResaleService,
+    private registrationQuestionsService: RegistrationQuestionsService,
   ) {}
 
-  async initializePayment(eventId: string, tierId: string, userId: string | null, email: string) {
-    this.logger.log(`initializePayment called: eventId=${eventId}, tierId=${tierId}, userId=${userId}, email=${email}`);
+  async initializePayment(
+    eventId: string,
+    tierId: string,
+    userId: string | null,
+    email: string,
+    quantity = 1,
+    promoCode?: string,
+    waitlistToken?: string,
+    accessCode?: string,
+    answers?: RegistrationAnswerDto[],
+  ) {
+    this.logger.log(
+      `initializePayment called: eventId=${eventId}, tierId=${tierId}, userId=${userId}, email=${email}, quantity=${quantity}, promoCode=${promoCode || 'none'}`,
+    );
     
     // Validate required parameters
     if (!eventId || !tierId) {
@@ -33,6 +60,10 @@ export class PaymentsService {
       this.logger.error('Invalid email provided', { email });
       throw new BadRequestException('A valid email address is required');
     }
+
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new BadRequestException('Quantity must be a whole number of at least 1');
+    }
     
     // Normalize email
     const normalizedEmail = email.toLowerCase().trim();
@@ -59,87 +90,62 @@ export class PaymentsService {
       throw new NotFoundException('Ticket tier not found');
     }
 
+    const maxTicketsPerOrder = event.maxTicketsPerOrder || 10;
+    if (quantity > maxTicketsPerOrder) {
+      throw new BadRequestException(
+        `You can buy at most ${maxTicketsPerOrder} tickets per order for this event`,
+      );
+    }
+
+    // Hidden tiers are only sold with an access code that unlocks them
+    const access = await this.applyAccessCode(
+      eventId,
+      accessCode,
+      tier.isHidden ? [{ tierId, quantity }] : [],
+      normalizedEmail,
+    );
+
+    // A waitlist offer holds seats for this buyer, so those count as available to them
+    const waitlistOffer = waitlistToken
+      ? await this.getWaitlistOffer(waitlistToken, eventId, tierId, normalizedEmail)
+      : null;
+
     // Check availability
     if (tier.sold >= tier.capacity) {
       this.logger.error('Tickets sold out', { tierId, sold: tier.sold, capacity: tier.capacity });
       throw new BadRequestException('Tickets sold out');
     }
 
-    // Check if ticket sales have ended for this tier
+    // Seats held by other buyers still in checkout are not available
+    const remaining = tier.capacity - tier.sold - tier.held + (waitlistOffer?.quantity || 0);
+    if (remaining <= 0) {
+      throw new BadRequestException(
+        'All remaining tickets are reserved by buyers completing checkout. Please try again in a few minutes',
+      );
+    }
+    if (quantity > remaining) {
+      this.logger.error('Not enough tickets left', { tierId, quantity, remaining });
+      throw new BadRequestException(
+        `Only ${remaining} ticket${remaining === 1 ? '' : 's'} left for this tier`,
+      );
+    }
+
+    // Check if ticket sales have started / ended for this tier
+    if (tier.saleStartDate && new Date(tier.saleStartDate) > new Date()) {
+      throw new BadRequestException('Ticket sales have not started yet for this tier');
+    }
     if (tier.saleEndDate && new Date(tier.saleEndDate) < new Date()) {
       this.logger.error('Ticket sales have ended', { tierId, saleEndDate: tier.saleEndDate });
       throw new BadRequestException('Ticket sales have ended for this tier');
     }
 
-    // Only check user restrictions if authenticated
-    if (userId) {
-      // Check if user is an organizer - organizers cannot buy tickets
-      const user = await this.prisma.user.findUnique({
-        where: { id: userId },
-        select: { role: true },
-      });
-
-      if (user?.role === 'ORGANIZER') {
-        throw new BadRequestException(
-          'Organizer accounts cannot purchase tickets. Please create or login with an attendee account to buy tickets.',
-        );
-      }
-
-      // Check if user already has a ticket for this event (any tier)
-      const existingTicket = await this.prisma.ticket.findFirst({
-        where: {
-          eventId,
-          buyerId: userId,
-          status: {
-            in: ['ACTIVE', 'CHECKED_IN'], // Only count valid tickets, not cancelled/refunded
-          },
-        },
-      });
-
-      if (existingTicket) {
-        throw new BadRequestException(
-          'You already have a ticket for this event. Each user can only purchase one ticket per event.',
-        );
-      }
-    } else {
-      // For guest checkout, first check if this email belongs to an organizer account
-      const existingUser = await this.prisma.user.findUnique({
-        where: { email: normalizedEmail },
-        select: { role: true, emailVerified: true },
-      });
-
-      if (existingUser) {
-        if (existingUser.role === 'ORGANIZER') {
-          throw new BadRequestException(
-            'This email is registered as an organizer account. Organizers cannot purchase tickets. Please use a different email or create an attendee account.',
-          );
-        }
-
-        // If the email belongs to a buyer account, suggest logging in
-        if (existingUser.emailVerified) {
-          throw new BadRequestException(
-            'This email is already registered. Please log in to purchase tickets.',
-          );
-        }
-      }
-
-      // Check if email already has a ticket for this event
-      const existingTicket = await this.prisma.ticket.findFirst({
-        where: {
-          eventId,
-          buyerEmail: normalizedEmail,
-          status: {
-            in: ['ACTIVE', 'CHECKED_IN'],
-          },
-        },
-      });
-
-      if (existingTicket) {
-        throw new BadRequestException(
-          'This email already has a ticket for this event. Please sign in or use a different email.',
-        );
-      }
-    }
+    await this.assertBuyerCanPurchase(
+      eventId,
+      userId,
+      normalizedEmail,
+      quantity,
+      maxTicketsPerOrder,
+    );
 
     // =============================================================================
     // PAYMENT AMOUNT CALCULATION
@@ -147,99 +153,153 @@ export class PaymentsService {
     // Platform fee (5%) can be paid by buyer or absorbed by organizer:
     //
     // If passFeeTobuyer = true:
-    //   - Buyer pays: tierPrice + 5% service fee
-    //   - Organizer gets: full tierPrice
+    //   - Buyer pays: subtotal + 5% service fee
+    //   - Organizer gets: full subtotal
     //
     // If passFeeTobuyer = false:
-    //   - Buyer pays: just tierPrice
-    //   - Organizer gets: tierPrice - 5%
+    //   - Buyer pays: just subtotal
+    //   - Organizer gets: subtotal - 5%
+    //
+    // subtotal = tierPrice x quantity, less any promo code discount
+    // (one gateway transaction covers the whole order). The fee is charged on the
+    // discounted subtotal, so the platform and organizer share the discount.
+    // tierPrice is the tier's current price, which follows its price phases.
     // =============================================================================
 
-    const tierPrice = tier.price instanceof Decimal ? tier.price.toNumber() : Number(tier.price);
+    const tierPrice = this.priceTierPurchase(tier, quantity);
+
+    // Throws with a buyer-facing message if the code can't be used for this order
+    const promo = promoCode
+      ? await this.promoCodesService.applyPromoCode(
+          eventId,
+          promoCode,
+          [{ tierId, unitPrice: tierPrice, quantity }],
+          normalizedEmail,
+        )
+      : null;
+    const discountAmount = promo?.discountAmount || 0;
+    const subtotal = Math.max(0, Math.round((tierPrice * quantity - discountAmount) * 100) / 100);
     const platformFeePercent = this.configService.get<number>('platformFeePercent') || 5;
     const passFeeTobuyer = (event as any).passFeeTobuyer ?? false;
 
-    // Calculate service fee (5% of tier price)
-    const serviceFee = tierPrice * (platformFeePercent / 100);
+    // Calculate service fee (5% of the order subtotal)
+    const serviceFee = subtotal * (platformFeePercent / 100);
 
     // Total amount buyer will pay
-    // If fee is passed to buyer: tierPrice + serviceFee
-    // If organizer absorbs fee: just tierPrice (organizer gets tierPrice - serviceFee)
-    const totalAmountForBuyer = passFeeTobuyer ? tierPrice + serviceFee : tierPrice;
+    // If fee is passed to buyer: subtotal + serviceFee
+    // If organizer absorbs fee: just subtotal (organizer gets subtotal - serviceFee)
+    const totalAmountForBuyer = passFeeTobuyer ? subtotal + serviceFee : subtotal;
 
     this.logger.log(`Payment initialized for event ${event.title}:`);
-    this.logger.log(`  - Tier: ${tier.name}, Price: ₦${tierPrice}`);
+    this.logger.log(`  - Tier: ${tier.name}, Price: ₦${tierPrice}, Quantity: ${quantity}`);
+    if (promo) {
+      this.logger.log(`  - Promo code ${promo.code}: -₦${discountAmount.toFixed(2)}`);
+    }
     this.logger.log(`  - Service fee (${platformFeePercent}%): ₦${serviceFee.toFixed(2)}`);
     this.logger.log(`  - Fee passed to buyer: ${passFeeTobuyer}`);
     this.logger.log(`  - Buyer will pay: ₦${totalAmountForBuyer.toFixed(2)}`);
 
+    const registrationAnswers = await this.registrationQuestionsService.collectCheckoutAnswers(
+      eventId,
+      [{ tierId, quantity }],
+      answers,
+    );
+
     // Create reference
     const reference = `HD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
 
-    // Handle FREE tickets (price = 0) - skip payment gateway
-    if (tierPrice === 0) {
+    // Handle FREE tickets (price = 0, or fully discounted) - skip payment gateway
+    if (subtotal === 0) {
       // Get user info if authenticated
       const user = userId ? await this.prisma.user.findUnique({ where: { id: userId } }) : null;
 
-      // Create payment record as SUCCESS immediately for free tickets
       const payment = await this.prisma.payment.create({
         data: {
           reference,
           amount: 0,
-          status: 'SUCCESS',
+          quantity,
+          unitPrice: tierPrice,
+          discountAmount,
+          status: 'PENDING',
           eventId,
           tierId,
           buyerId: userId || null,
           buyerEmail: normalizedEmail,
+          registrationAnswers: registrationAnswers as any,
+          ...(promo && { promoRedemption: this.promoRedemptionData(promo, normalizedEmail) }),
+          ...(access && { accessRedemption: this.accessRedemptionData(access, normalizedEmail) }),
         },
       });
 
-      // Create ticket directly
-      const ticket = await this.ticketsService.createTicket({
-        eventId,
-        tierId,
-        buyerId: userId || '',
-        buyerEmail: normalizedEmail,
-        buyerFirstName: user?.firstName || undefined,
-        buyerLastName: user?.lastName || undefined,
-        paymentId: payment.id,
-        paymentRef: reference,
-        amountPaid: 0,
-      });
+      const freeLines = [{ tierId, tierName: tier.name, quantity }];
 
-      // Update tier sold count
-      await this.prisma.ticketTier.update({
-        where: { id: tierId },
-        data: { sold: { increment: 1 } },
-      });
+      // Throws (and fails the payment) if the tier sold out in the meantime
+      await this.holdInventory(payment.id, freeLines, waitlistOffer);
+
+      // Create tickets directly - the payment only becomes SUCCESS once they exist
+      let tickets;
+      try {
+        tickets = await this.ticketsService.createTicket({
+          eventId,
+          tierId,
+          buyerId: userId || '',
+          buyerEmail: normalizedEmail,
+          buyerFirstName: user?.firstName || undefined,
+          buyerLastName: user?.lastName || undefined,
+          paymentId: payment.id,
+          paymentRef: reference,
+          amountPaid: 0,
+          quantity,
+        });
+        await this.registrationQuestionsService.saveTicketAnswers(
+          payment.registrationAnswers,
+          tickets,
+        );
+      } catch (error) {
+        await this.abandonFreeOrder(payment.id);
+        throw error;
+      }
 
-      // Return success response indicating free ticket was created
+      await this.completeFreeOrder(payment.id, freeLines);
+
+      // Return success response indicating free tickets were created
       return {
         isFree: true,
         success: true,
         reference,
         paymentId: payment.id,
-        ticketId: ticket.id,
-        ticketNumber: ticket.ticketNumber,
-        message: 'Free ticket claimed successfully!',
+        quantity,
+        ticketId: tickets[0].id,
+        ticketNumber: tickets[0].ticketNumber,
+        ticketNumbers: tickets.map((t) => t.ticketNumber),
+        message:
+          quantity > 1
+            ? `${quantity} free tickets claimed successfully!`
+            : 'Free ticket claimed successfully!',
       };
     }
 
-    // For paid tickets, proceed with Monnify payment
+    // For paid tickets, proceed with the payment gateway
     // Store the TOTAL amount the buyer will pay (including service fee if passed to buyer)
-    // This is critical for payment verification - Monnify will return this exact amount
+    // This is critical for payment verification - the gateway will return this exact amount
     let payment;
     try {
       payment = await this.prisma.payment.create({
         data: {
           reference,
-          amount: totalAmountForBuyer, // Store TOTAL amount buyer pays (tier price + service fee if applicable)
+          amount: totalAmountForBuyer, // Store TOTAL amount buyer pays (subtotal + service fee if applicable)
+          quantity,
+          unitPrice: tierPrice, // Later phases change the tier price, so keep what this order pays
+          discountAmount,
           status: 'PENDING',
           eventId,
           tierId,
           buyerId: userId || null,
           buyerEmail: normalizedEmail,
           organizerId: event.organizerId, // Track organizer for reconciliation
+          registrationAnswers: registrationAnswers as any,
+          ...(promo && { promoRedemption: this.promoRedemptionData(promo, normalizedEmail) }),
+          ...(access && { accessRedemption: this.accessRedemptionData(access, normalizedEmail) }),
         },
       });
       this.logger.log(`Payment record created: ${payment.id}, reference: ${reference}`);
@@ -248,19 +308,29 @@ export class PaymentsService {
       throw new BadRequestException('Unable to initialize payment. Please try again.');
     }
 
+    const holdExpiresAt = await this.holdInventory(
+      payment.id,
+      [{ tierId, tierName: tier.name, quantity }],
+      waitlistOffer,
+    );
+
     // Get user info for customer name
     const user = userId ? await this.prisma.user.findUnique({ where: { id: userId } }) : null;
     const customerName = user
       ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || 'Customer'
       : 'Customer';
 
-    // Initialize Monnify transaction with total amount buyer will pay
-    let monnifyResponse;
+    // Initialize the gateway transaction with total amount buyer will pay - the event's
+    // gateway first, failing over to the others
+    let gatewayResponse;
     try {
-      this.logger.log(`Calling Monnify initializeTransaction for ${reference}, amount: ${totalAmountForBuyer}`);
-      monnifyResponse = await this.monnifyService.initializeTransaction(
+      this.logger.log(
+        `Initializing payment gateway transaction for ${reference}, amount: ${totalAmountForBuyer}`,
+      );
+      gatewayResponse = await this.paymentProviders.initializeTransaction(
+        event.paymentProvider,
         normalizedEmail,
-        totalAmountForBuyer, // Total amount buyer pays (Monnify expects Naira, not kobo)
+        totalAmountForBuyer, // Total amount buyer pays (in Naira, not kobo)
         reference,
         {
           eventId,
@@ -268,64 +338,765 @@ export class PaymentsService {
           paymentId: payment.id,
           organizerId: event.organizerId,
           tierPrice: tierPrice.toString(), // Original ticket price
+          quantity: quantity.toString(),
+          discountAmount: discountAmount.toString(),
+          promoCode: promo?.code || '',
           serviceFee: serviceFee.toString(), // 5% fee amount
           passFeeTobuyer: passFeeTobuyer ? 'true' : 'false',
           totalAmount: totalAmountForBuyer.toString(), // What buyer is paying
           customerName,
-          description: `Ticket for ${event.title} - ${tier.name}`,
+          description:
+            quantity > 1
+              ? `${quantity} tickets for ${event.title} - ${tier.name}`
+              : `Ticket for ${event.title} - ${tier.name}`,
         },
       );
-      this.logger.log(`Monnify response received: ${JSON.stringify(monnifyResponse)}`);
-    } catch (monnifyError) {
-      this.logger.error(`Monnify initialization failed: ${monnifyError.message}`, monnifyError.stack);
-      // Mark the payment as failed since Monnify couldn't initialize
+      this.logger.log(`Payment gateway response received: ${JSON.stringify(gatewayResponse)}`);
+    } catch (gatewayError) {
+      this.logger.error(
+        `Payment gateway initialization failed: ${gatewayError.message}`,
+        gatewayError.stack,
+      );
+      // Mark the payment as failed since no gateway could initialize it
       await this.prisma.payment.update({
         where: { id: payment.id },
         data: { status: 'FAILED' },
       });
+      await this.tasksService.releaseInventoryHolds(payment.id);
       throw new BadRequestException(
-        `Payment gateway error: ${monnifyError.message || 'Unable to connect to payment provider. Please try again.'}`,
+        `Payment gateway error: ${gatewayError.message || 'Unable to connect to payment provider. Please try again.'}`,
       );
     }
 
-    // Update payment with Monnify transaction reference
+    // Update payment with the gateway it went through and its transaction reference
     await this.prisma.payment.update({
       where: { id: payment.id },
       data: {
-        monnifyTransactionRef: monnifyResponse.transactionReference,
+        provider: gatewayResponse.provider,
+        providerTransactionRef: gatewayResponse.transactionReference,
       },
     });
 
     return {
       isFree: false,
-      authorizationUrl: monnifyResponse.checkoutUrl, // Monnify checkout URL
+      authorizationUrl: gatewayResponse.checkoutUrl, // Gateway checkout URL
       reference,
       paymentId: payment.id,
-      transactionReference: monnifyResponse.transactionReference,
+      provider: gatewayResponse.provider,
+      transactionReference: gatewayResponse.transactionReference,
+      holdExpiresAt, // Seats are reserved for the buyer until this time
       // Return breakdown for frontend display
       breakdown: {
         tierPrice, // Base ticket price
+        quantity,
+        discountAmount, // Promo code discount
+        promoCode: promo?.code || null,
+        subtotal, // tierPrice x quantity - discountAmount
         serviceFee, // 5% service fee amount
         serviceFeePercent: platformFeePercent,
         passFeeTobuyer, // Whether buyer pays the fee
         totalAmount: totalAmountForBuyer, // What buyer actually pays
         // For display purposes:
         buyerPays: totalAmountForBuyer,
-        organizerReceives: passFeeTobuyer ? tierPrice : tierPrice - serviceFee,
+        organizerReceives: passFeeTobuyer ? subtotal : subtotal - serviceFee,
       },
       // Keep legacy fields for backward compatibility
       tierPrice,
+      quantity,
+      serviceFee: passFeeTobuyer ? serviceFee : 0, // Only show fee to buyer if they're paying it
+      totalAmount: totalAmountForBuyer,
+    };
+  }
+
+  /**
+   * Initialize a cart checkout: several tiers of one event paid for in a single
+   * gateway transaction. Creates an Order with one OrderItem per tier; tickets are
+   * issued per line item once the payment succeeds.
+   */
+  async initializeCartPayment(
+    eventId: string,
+    items: { tierId: string; quantity: number }[],
+    userId: string | null,
+    email: string,
+    promoCode?: string,
+    accessCode?: string,
+    answers?: RegistrationAnswerDto[],
+  ) {
+    this.logger.log(
+      `initializeCartPayment called: eventId=${eventId}, items=${JSON.stringify(items)}, userId=${userId}, email=${email}, promoCode=${promoCode || 'none'}`,
+    );
+
+    if (!eventId || !Array.isArray(items) || items.length === 0) {
+      throw new BadRequestException('Event ID and at least one cart item are required');
+    }
+
+    if (!email || typeof email !== 'string' || !email.includes('@')) {
+      throw new BadRequestException('A valid email address is required');
+    }
+
+    const normalizedEmail = email.toLowerCase().trim();
+
+    // Merge duplicate tiers so each tier is one line item
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      if (!item?.tierId || !Number.isInteger(item.quantity) || item.quantity < 1) {
+        throw new BadRequestException('Each cart item needs a tier and a quantity of at least 1');
+      }
+      quantities.set(item.tierId, (quantities.get(item.tierId) || 0) + item.quantity);
+    }
+
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      include: { tiers: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.status !== 'PUBLISHED') {
+      throw new BadRequestException('Event is not published');
+    }
+
+    const totalQuantity = Array.from(quantities.values()).reduce((sum, q) => sum + q, 0);
+    const maxTicketsPerOrder = event.maxTicketsPerOrder || 10;
+    if (totalQuantity > maxTicketsPerOrder) {
+      throw new BadRequestException(
+        `You can buy at most ${maxTicketsPerOrder} tickets per order for this event`,
+      );
+    }
+
+    // Validate and price every line item
+    const lines = Array.from(quantities.entries()).map(([tierId, quantity]) => {
+      const tier = event.tiers.find((t: { id: string }) => t.id === tierId);
+      if (!tier) {
+        throw new NotFoundException('Ticket tier not found');
+      }
+
+      if (tier.sold >= tier.capacity) {
+        throw new BadRequestException(`${tier.name} is sold out`);
+      }
+
+      const remaining = tier.capacity - tier.sold - tier.held;
+      if (remaining <= 0) {
+        throw new BadRequestException(
+          `All remaining ${tier.name} tickets are reserved by buyers completing checkout. Please try again in a few minutes`,
+        );
+      }
+      if (quantity > remaining) {
+        throw new BadRequestException(
+          `Only ${remaining} ${tier.name} ticket${remaining === 1 ? '' : 's'} left`,
+        );
+      }
+
+      if (tier.saleStartDate && new Date(tier.saleStartDate) > new Date()) {
+        throw new BadRequestException(`Ticket sales have not started yet for ${tier.name}`);
+      }
+      if (tier.saleEndDate && new Date(tier.saleEndDate) < new Date()) {
+        throw new BadRequestException(`Ticket sales have ended for ${tier.name}`);
+      }
+
+      const unitPrice = this.priceTierPurchase(tier, quantity);
+      return { tier, quantity, unitPrice, subtotal: unitPrice * quantity };
+    });
+
+    await this.assertBuyerCanPurchase(
+      eventId,
+      userId,
+      normalizedEmail,
+      totalQuantity,
+      maxTicketsPerOrder,
+    );
+
+    const access = await this.applyAccessCode(
+      eventId,
+      accessCode,
+      lines
+        .filter((line) => line.tier.isHidden)
+        .map((line) => ({ tierId: line.tier.id, quantity: line.quantity })),
+      normalizedEmail,
+    );
+
+    // Promo code discount is worked out per line, so it can be split across tiers
+    const promo = promoCode
+      ? await this.promoCodesService.applyPromoCode(
+          eventId,
+          promoCode,
+          lines.map((line) => ({
+            tierId: line.tier.id,
+            unitPrice: line.unitPrice,
+            quantity: line.quantity,
+          })),
+          normalizedEmail,
+        )
+      : null;
+    const discountAmount = promo?.discountAmount || 0;
+
+    // Same fee rules as single-tier checkout, applied to the discounted cart subtotal
+    const grossSubtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
+    const subtotal = Math.max(0, Math.round((grossSubtotal - discountAmount) * 100) / 100);
+    const platformFeePercent = this.configService.get<number>('platformFeePercent') || 5;
+    const passFeeTobuyer = (event as any).passFeeTobuyer ?? false;
+    const serviceFee = subtotal * (platformFeePercent / 100);
+    const totalAmountForBuyer = passFeeTobuyer ? subtotal + serviceFee : subtotal;
+
+    this.logger.log(`Cart payment for event ${event.title}:`);
+    for (const line of lines) {
+      this.logger.log(`  - ${line.tier.name}: ₦${line.unitPrice} x ${line.quantity}`);
+    }
+    if (promo) {
+      this.logger.log(`  - Promo code ${promo.code}: -₦${discountAmount.toFixed(2)}`);
+    }
+    this.logger.log(
+      `  - Subtotal: ₦${subtotal}, service fee (${platformFeePercent}%): ₦${serviceFee.toFixed(2)}`,
+    );
+    this.logger.log(`  - Buyer will pay: ₦${totalAmountForBuyer.toFixed(2)}`);
+
+    const registrationAnswers = await this.registrationQuestionsService.collectCheckoutAnswers(
+      eventId,
+      lines.map((line) => ({ tierId: line.tier.id, quantity: line.quantity })),
+      answers,
+    );
+
+    const reference = `HD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    const isFree = subtotal === 0;
+
+    const order = await this.prisma.order.create({
+      data: {
+        eventId,
+        buyerId: userId || null,
+        buyerEmail: normalizedEmail,
+        subtotal,
+        serviceFee,
+        totalAmount: totalAmountForBuyer,
+        passFeeTobuyer,
+        items: {
+          create: lines.map((line) => ({
+            tierId: line.tier.id,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            subtotal: line.subtotal,
+            discount: promo?.lineDiscounts.get(line.tier.id) || 0,
+          })),
+        },
+      },
+    });
+
+    const payment = await this.prisma.payment.create({
+      data: {
+        reference,
+        amount: totalAmountForBuyer,
+        quantity: totalQuantity,
+        discountAmount,
+        status: 'PENDING',
+        eventId,
+        orderId: order.id,
+        buyerId: userId || null,
+        buyerEmail: normalizedEmail,
+        organizerId: event.organizerId,
+        registrationAnswers: registrationAnswers as any,
+        ...(promo && { promoRedemption: this.promoRedemptionData(promo, normalizedEmail) }),
+        ...(access && { accessRedemption: this.accessRedemptionData(access, normalizedEmail) }),
+      },
+    });
+
+    const breakdown = {
+      items: lines.map((line) => ({
+        tierId: line.tier.id,
+        tierName: line.tier.name,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        subtotal: line.subtotal,
+        discount: promo?.lineDiscounts.get(line.tier.id) || 0,
+      })),
+      quantity: totalQuantity,
+      discountAmount,
+      promoCode: promo?.code || null,
+      subtotal,
+      serviceFee,
+      serviceFeePercent: platformFeePercent,
+      passFeeTobuyer,
+      totalAmount: totalAmountForBuyer,
+      buyerPays: totalAmountForBuyer,
+      organizerReceives: passFeeTobuyer ? subtotal : subtotal - serviceFee,
+    };
+
+    // Free carts skip the payment gateway - issue the tickets straight away
+    if (isFree) {
+      const freeLines = lines.map((line) => ({
+        tierId: line.tier.id,
+        tierName: line.tier.name,
+        quantity: line.quantity,
+      }));
+      await this.holdInventory(payment.id, freeLines);
+
+      const user = userId ? await this.prisma.user.findUnique({ where: { id: userId } }) : null;
+      const orderItems = await this.prisma.orderItem.findMany({ where: { orderId: order.id } });
+
+      const tickets = [];
+      try {
+        for (const item of orderItems) {
+          const itemTickets = await this.ticketsService.createTicket({
+            eventId,
+            tierId: item.tierId,
+            buyerId: userId || null,
+            buyerEmail: normalizedEmail,
+            buyerFirstName: user?.firstName || undefined,
+            buyerLastName: user?.lastName || undefined,
+            paymentId: payment.id,
+            paymentRef: reference,
+            amountPaid: 0,
+            quantity: item.quantity,
+            orderItemId: item.id,
+          });
+          tickets.push(...itemTickets);
+        }
+        await this.registrationQuestionsService.saveTicketAnswers(
+          payment.registrationAnswers,
+          tickets,
+        );
+      } catch (error) {
+        await this.abandonFreeOrder(payment.id);
+        throw error;
+      }
+
+      await this.completeFreeOrder(payment.id, freeLines);
+
+      return {
+        isFree: true,
+        success: true,
+        reference,
+        paymentId: payment.id,
+        orderId: order.id,
+        ticketNumbers: tickets.map((t) => t.ticketNumber),
+        breakdown,
+        message: `${totalQuantity} free ticket${totalQuantity === 1 ? '' : 's'} claimed successfully!`,
+      };
+    }
+
+    const holdExpiresAt = await this.holdInventory(
+      payment.id,
+      lines.map((line) => ({
+        tierId: line.tier.id,
+        tierName: line.tier.name,
+        quantity: line.quantity,
+      })),
+    );
+
+    const user = userId ? await this.prisma.user.findUnique({ where: { id: userId } }) : null;
+    const customerName = user
+      ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || 'Customer'
+      : 'Customer';
+
+    let gatewayResponse;
+    try {
+      gatewayResponse = await this.paymentProviders.initializeTransaction(
+        event.paymentProvider,
+        normalizedEmail,
+        totalAmountForBuyer,
+        reference,
+        {
+          eventId,
+          orderId: order.id,
+          paymentId: payment.id,
+          organizerId: event.organizerId,
+          subtotal: subtotal.toString(),
+          discountAmount: discountAmount.toString(),
+          promoCode: promo?.code || '',
+          serviceFee: serviceFee.toString(),
+          passFeeTobuyer: passFeeTobuyer ? 'true' : 'false',
+          totalAmount: totalAmountForBuyer.toString(),
+          customerName,
+          description: `${totalQuantity} ticket${totalQuantity === 1 ? '' : 's'} for ${event.title}`,
+        },
+      );
+    } catch (gatewayError) {
+      this.logger.error(
+        `Payment gateway initialization failed: ${gatewayError.message}`,
+        gatewayError.stack,
+      );
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: 'FAILED' },
+      });
+      await this.tasksService.releaseInventoryHolds(payment.id);
+      throw new BadRequestException(
+        `Payment gateway error: ${gatewayError.message || 'Unable to connect to payment provider. Please try again.'}`,
+      );
+    }
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        provider: gatewayResponse.provider,
+        providerTransactionRef: gatewayResponse.transactionReference,
+      },
+    });
+
+    return {
+      isFree: false,
+      authorizationUrl: gatewayResponse.checkoutUrl,
+      reference,
+      paymentId: payment.id,
+      orderId: order.id,
+      provider: gatewayResponse.provider,
+      transactionReference: gatewayResponse.transactionReference,
+      holdExpiresAt,
+      breakdown,
       serviceFee: passFeeTobuyer ? serviceFee : 0, // Only show fee to buyer if they're paying it
       totalAmount: totalAmountForBuyer,
     };
   }
 
   /**
-   * Handle successful payment webhook from Monnify
-   * This is called when Monnify confirms a payment was successful
+   * Price a purchase at the tier's current price. A sold-based price phase only
+   * covers the tickets left in it, so an order can't take more than that many
+   * tickets at the phase price.
+   */
+  private priceTierPurchase(tier: any, quantity: number): number {
+    const pricing = getCurrentTierPrice(tier);
+    if (pricing.phaseRemaining !== null && quantity > pricing.phaseRemaining) {
+      const remaining = pricing.phaseRemaining;
+      throw new BadRequestException(
+        `Only ${remaining} ${tier.name} ticket${remaining === 1 ? '' : 's'} left at the ${
+          pricing.phaseName || 'current'
+        } price of ₦${pricing.price.toLocaleString()}`,
+      );
+    }
+    return pricing.price;
+  }
+
+  /**
+   * Nested create for the promo code redemption recorded with a payment
+   */
+  private promoRedemptionData(promo: AppliedPromoCode, buyerEmail: string) {
+    return {
+      create: {
+        promoCodeId: promo.promoCodeId,
+        buyerEmail,
+        quantity: promo.discountedQuantity,
+        discountAmount: promo.discountAmount,
+      },
+    };
+  }
+
+  /**
+   * Hidden tiers are only sold with an access code that unlocks them. Returns null
+   * when the order has no hidden-tier tickets.
+   */
+  private async applyAccessCode(
+    eventId: string,
+    accessCode: string | undefined,
+    hiddenLines: AccessCodeLine[],
+    buyerEmail: string,
+  ): Promise<AppliedAccessCode | null> {
+    if (hiddenLines.length === 0) {
+      return null;
+    }
+
+    if (!accessCode) {
+      throw new BadRequestException('These tickets can only be bought with an access code');
+    }
+
+    return this.accessCodesService.applyAccessCode(eventId, accessCode, hiddenLines, buyerEmail);
+  }
+
+  private accessRedemptionData(access: AppliedAccessCode, buyerEmail: string) {
+    return {
+      create: {
+        accessCodeId: access.accessCodeId,
+        buyerEmail,
+        quantity: access.quantity,
+      },
+    };
+  }
+
+  /**
+   * Reserve seats for a pending payment so concurrent checkouts cannot oversell.
+   * Each tier's `held` counter is bumped with a conditional UPDATE, so when two buyers
+   * race for the last seats only one reservation succeeds. If any tier cannot be
+   * reserved the whole reservation is rolled back and the payment is marked FAILED.
+   *
+   * Holds are converted to sales in handleSuccessfulPayment and released by
+   * TasksService once they expire or the payment fails.
+   *
+   * When the buyer is checking out with a waitlist offer, the seats held by the
+   * offer are swapped for the checkout hold in the same transaction.
    */
-  async handleMonnifyPaymentSuccess(eventData: any) {
-    const { paymentReference, transactionReference, amountPaid, paidOn, customer } = eventData;
+  private async holdInventory(
+    paymentId: string,
+    lines: { tierId: string; tierName: string; quantity: number }[],
+    waitlistOffer?: { id: string; quantity: number; tierId: string } | null,
+  ): Promise<Date> {
+    const holdMinutes = this.configService.get<number>('inventoryHoldMinutes') || 10;
+    const expiresAt = new Date(Date.now() + holdMinutes * 60 * 1000);
+
+    try {
+      await this.prisma.$transaction(async (tx: any) => {
+        if (waitlistOffer) {
+          await this.claimWaitlistOffer(tx, waitlistOffer, paymentId);
+        }
+
+        // The promo code's limits were checked at pricing; claim the use for real here
+        const redemption = await tx.promoRedemption.findUnique({ where: { paymentId } });
+        if (redemption) {
+          await this.promoCodesService.assertUsesAvailable(tx, redemption);
+        }
+
+        for (const line of lines) {
+          const reserved = await tx.$executeRaw`
+            UPDATE "TicketTier"
+            SET "held" = "held" + ${line.quantity}
+            WHERE "id" = ${line.tierId}
+              AND "sold" + "held" + ${line.quantity} <= "capacity"
+          `;
+
+          if (reserved === 0) {
+            throw new BadRequestException(
+              `Not enough ${line.tierName} tickets left - other buyers are completing checkout. Please try again in a few minutes`,
+            );
+          }
+
+          await tx.inventoryHold.create({
+            data: { paymentId, tierId: line.tierId, quantity: line.quantity, expiresAt },
+          });
+        }
+      });
+    } catch (error) {
+      await this.prisma.payment.update({
+        where: { id: paymentId },
+        data: { status: 'FAILED' },
+      });
+      throw error;
+    }
+
+    this.logger.log(`Inventory held for payment ${paymentId} until ${expiresAt.toISOString()}`);
+    return expiresAt;
+  }
+
+  /**
+   * Free orders never reach a gateway, but still take their seats the way a paid
+   * checkout does: they are held with the same capacity check, and once the tickets
+   * are issued the hold is converted together with marking the payment SUCCESS.
+   */
+  private async completeFreeOrder(
+    paymentId: string,
+    lines: { tierId: string; tierName: string; quantity: number }[],
+  ) {
+    await this.prisma.$transaction(async (tx: any) => {
+      await tx.payment.update({
+        where: { id: paymentId },
+        data: { status: 'SUCCESS' },
+      });
+      await this.convertInventoryHolds(tx, paymentId, lines);
+    });
+  }
+
+  /**
+   * A free order whose tickets couldn't be issued: fail it and give the seats back,
+   * so the buyer can simply claim again. Tickets issued before the failure are
+   * cancelled - the order never completed.
+   */
+  private async abandonFreeOrder(paymentId: string) {
+    await this.prisma.ticket.updateMany({
+      where: { paymentId },
+      data: { status: 'CANCELLED' },
+    });
+    await this.prisma.payment.update({
+      where: { id: paymentId },
+      data: { status: 'FAILED' },
+    });
+    await this.tasksService.releaseInventoryHolds(paymentId);
+  }
+
+  /**
+   * Look up the waitlist offer a buyer is checking out with. Offers are tied to the
+   * tier and email they were sent for.
+   */
+  private async getWaitlistOffer(
+    waitlistToken: string,
+    eventId: string,
+    tierId: string,
+    email: string,
+  ) {
+    const entry = await this.prisma.waitlistEntry.findUnique({
+      where: { offerToken: waitlistToken },
+    });
+
+    if (!entry || entry.eventId !== eventId || entry.tierId !== tierId) {
+      throw new BadRequestException('Waitlist offer not found for this ticket tier');
+    }
+
+    if (entry.email !== email) {
+      throw new BadRequestException(
+        `This waitlist offer was sent to ${entry.email} - check out with that email address`,
+      );
+    }
+
+    if (
+      entry.status !== 'OFFERED' ||
+      (entry.offerExpiresAt && entry.offerExpiresAt <= new Date())
+    ) {
+      throw new BadRequestException('Your waitlist offer has expired or was already used');
+    }
+
+    return { id: entry.id, quantity: entry.quantity, tierId: entry.tierId };
+  }
+
+  /**
+   * Mark a waitlist offer as used by this payment and give back the seats it held.
+   * The caller reserves the seats the buyer is actually taking in the same
+   * transaction. The claim only succeeds while the offer is still OFFERED, so an
+   * offer expiring at the same moment cannot be used twice.
+   */
+  private async claimWaitlistOffer(
+    tx: any,
+    waitlistOffer: { id: string; quantity: number; tierId: string },
+    paymentId: string,
+  ) {
+    const claimed = await tx.waitlistEntry.updateMany({
+      where: { id: waitlistOffer.id, status: 'OFFERED', offerExpiresAt: { gt: new Date() } },
+      data: { status: 'CLAIMED', claimedAt: new Date(), paymentId },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('Your waitlist offer has expired or was already used');
+    }
+
+    await tx.ticketTier.update({
+      where: { id: waitlistOffer.tierId },
+      data: { held: { decrement: waitlistOffer.quantity } },
+    });
+  }
+
+  /**
+   * Turn a paid payment's seat holds into sales: release the held seats and count
+   * them as sold, inside the caller's transaction. A hold that already expired was released by the
+   * sweeper, so only the sold count moves - the buyer has paid and keeps the tickets.
+   */
+  private async convertInventoryHolds(
+    tx: any,
+    paymentId: string,
+    lines: { tierId: string; quantity: number }[],
+  ) {
+    const holds = await tx.inventoryHold.findMany({
+      where: { paymentId, status: 'ACTIVE' },
+    });
+
+    for (const hold of holds) {
+      // Guard against the sweeper releasing the same hold concurrently
+      const claimed = await tx.inventoryHold.updateMany({
+        where: { id: hold.id, status: 'ACTIVE' },
+        data: { status: 'CONVERTED' },
+      });
+
+      if (claimed.count > 0) {
+        await tx.ticketTier.update({
+          where: { id: hold.tierId },
+          data: { held: { decrement: hold.quantity } },
+        });
+      }
+    }
+
+    for (const line of lines) {
+      await tx.ticketTier.update({
+        where: { id: line.tierId },
+        data: { sold: { increment: line.quantity } },
+      });
+    }
+  }
+
+  /**
+   * Buyer restrictions shared by single-tier and cart checkout:
+   * organizers cannot buy, registered guests must log in, and tickets already
+   * held for the event count towards the per-order limit.
+   */
+  private async assertBuyerCanPurchase(
+    eventId: string,
+    userId: string | null,
+    normalizedEmail: string,
+    quantity: number,
+    maxTicketsPerOrder: number,
+  ) {
+    // Only check user restrictions if authenticated
+    if (userId) {
+      // Check if user is an organizer - organizers cannot buy tickets
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { role: true },
+      });
+
+      if (user?.role === 'ORGANIZER') {
+        throw new BadRequestException(
+          'Organizer accounts cannot purchase tickets. Please create or login with an attendee account to buy tickets.',
+        );
+      }
+
+      // Tickets already held for this event (any tier) count towards the per-order limit
+      const existingTickets = await this.prisma.ticket.count({
+        where: {
+          eventId,
+          buyerId: userId,
+          status: {
+            in: ['ACTIVE', 'CHECKED_IN'], // Only count valid tickets, not cancelled/refunded
+          },
+        },
+      });
+
+      if (existingTickets + quantity > maxTicketsPerOrder) {
+        throw new BadRequestException(
+          `You already have ${existingTickets} ticket${existingTickets === 1 ? '' : 's'} for this event. ` +
+            `Each buyer can hold at most ${maxTicketsPerOrder} tickets per event.`,
+        );
+      }
+    } else {
+      // For guest checkout, first check if this email belongs to an organizer account
+      const existingUser = await this.prisma.user.findUnique({
+        where: { email: normalizedEmail },
+        select: { role: true, emailVerified: true },
+      });
+
+      if (existingUser) {
+        if (existingUser.role === 'ORGANIZER') {
+          throw new BadRequestException(
+            'This email is registered as an organizer account. Organizers cannot purchase tickets. Please use a different email or create an attendee account.',
+          );
+        }
+
+        // If the email belongs to a buyer account, suggest logging in
+        if (existingUser.emailVerified) {
+          throw new BadRequestException(
+            'This email is already registered. Please log in to purchase tickets.',
+          );
+        }
+      }
+
+      // Tickets already sent to this email count towards the per-order limit
+      const existingTickets = await this.prisma.ticket.count({
+        where: {
+          eventId,
+          buyerEmail: normalizedEmail,
+          status: {
+            in: ['ACTIVE', 'CHECKED_IN'],
+          },
+        },
+      });
+
+      if (existingTickets + quantity > maxTicketsPerOrder) {
+        throw new BadRequestException(
+          `This email already has ${existingTickets} ticket${existingTickets === 1 ? '' : 's'} for this event. ` +
+            `Each buyer can hold at most ${maxTicketsPerOrder} tickets per event.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Handle successful payment webhook from any gateway
+   * This is called when the gateway confirms a payment was successful
+   */
+  async handlePaymentSuccess(event: PaymentWebhookEvent) {
+    const { paymentReference, transactionReference, amount: amountPaid, paidOn, customer } = event;
 
     this.logger.log(
       `Processing successful payment: ${paymentReference}, amount: ${amountPaid}, customer: ${customer?.email}`,
@@ -350,7 +1121,7 @@ export class PaymentsService {
       this.logger.warn(
         `Received success webhook for failed payment: ${paymentReference} - Re-processing...`,
       );
-      // If Monnify says it's successful, process it even if we previously marked it failed
+      // If the gateway says it's successful, process it even if we previously marked it failed
       // This handles cases where we marked it failed due to amount mismatch but payment actually went through
     }
 
@@ -365,11 +1136,11 @@ export class PaymentsService {
   }
 
   /**
-   * Handle failed payment webhook from Monnify
+   * Handle failed payment webhook from any gateway
    * This is called when a payment fails, expires, or is cancelled
    */
-  async handleMonnifyPaymentFailed(eventData: any) {
-    const { paymentReference, transactionReference, paymentStatus } = eventData;
+  async handlePaymentFailed(event: PaymentWebhookEvent) {
+    const { paymentReference, transactionReference, status: paymentStatus } = event;
 
     this.logger.log(`Processing failed payment: ${paymentReference}, status: ${paymentStatus}`);
 
@@ -395,22 +1166,28 @@ export class PaymentsService {
       where: { id: payment.id },
       data: {
         status: 'FAILED',
-        monnifyTransactionRef: transactionReference,
+        providerTransactionRef: transactionReference,
       },
     });
 
+    // Give the reserved seats (or resale listing) back straight away rather than waiting for the sweeper
+    await this.tasksService.releaseInventoryHolds(payment.id);
+    if (payment.resaleListingId) {
+      await this.resaleService.releaseReservation(payment.id);
+    }
+
     this.logger.log(`Payment marked as failed: ${paymentReference}`);
   }
 
   /**
-   * Handle successful transfer/disbursement webhook from Monnify
+   * Handle successful transfer/disbursement webhook from any gateway
    */
-  async handleMonnifyTransferSuccess(eventData: any) {
-    const { reference, amount, status } = eventData;
+  async handleTransferSuccess(event: PaymentWebhookEvent) {
+    const { transferReference: reference, status } = event;
 
     // Find withdrawal by transfer reference
     const withdrawal = await this.prisma.withdrawal.findFirst({
-      where: { monnifyTransferRef: reference },
+      where: { providerTransferRef: reference },
     });
 
     if (!withdrawal) {
@@ -423,7 +1200,7 @@ export class PaymentsService {
       where: { id: withdrawal.id },
       data: {
         status: 'COMPLETED',
-        monnifyTransferStatus: status,
+        providerTransferStatus: status,
         processedAt: new Date(),
       },
     });
@@ -436,7 +1213,7 @@ export class PaymentsService {
         amount: withdrawal.amount instanceof Decimal
           ? withdrawal.amount.toNumber()
           : Number(withdrawal.amount),
-        description: `Withdrawal completed via Monnify`,
+        description: `Withdrawal completed via ${PAYMENT_GATEWAY_LABELS[withdrawal.provider]}`,
       });
     } catch (e) {
       this.logger.warn(`Failed to record withdrawal in ledger: ${withdrawal.id}`, e as any);
@@ -446,13 +1223,13 @@ export class PaymentsService {
   }
 
   /**
-   * Handle failed transfer/disbursement webhook from Monnify
+   * Handle failed transfer/disbursement webhook from any gateway
    */
-  async handleMonnifyTransferFailed(eventData: any) {
-    const { reference, status, responseMessage } = eventData;
+  async handleTransferFailed(event: PaymentWebhookEvent) {
+    const { transferReference: reference, status, reason: responseMessage } = event;
 
     const withdrawal = await this.prisma.withdrawal.findFirst({
-      where: { monnifyTransferRef: reference },
+      where: { providerTransferRef: reference },
     });
 
     if (!withdrawal) {
@@ -466,7 +1243,7 @@ export class PaymentsService {
         where: { id: withdrawal.id },
         data: {
           status: 'FAILED',
-          monnifyTransferStatus: status,
+          providerTransferStatus: status,
           failureReason: responseMessage || 'Transfer failed',
         },
       });
@@ -484,13 +1261,13 @@ export class PaymentsService {
   }
 
   /**
-   * Handle reversed transfer webhook from Monnify
+   * Handle reversed transfer webhook from any gateway
    */
-  async handleMonnifyTransferReversed(eventData: any) {
-    const { reference, responseMessage } = eventData;
+  async handleTransferReversed(event: PaymentWebhookEvent) {
+    const { transferReference: reference, reason: responseMessage } = event;
 
     const withdrawal = await this.prisma.withdrawal.findFirst({
-      where: { monnifyTransferRef: reference },
+      where: { providerTransferRef: reference },
     });
 
     if (!withdrawal) {
@@ -504,7 +1281,7 @@ export class PaymentsService {
         where: { id: withdrawal.id },
         data: {
           status: 'FAILED',
-          monnifyTransferStatus: 'REVERSED',
+          providerTransferStatus: 'REVERSED',
           failureReason: responseMessage || 'Transfer reversed',
         },
       });
@@ -522,6 +1299,23 @@ export class PaymentsService {
     this.logger.warn(`Withdrawal reversed: ${withdrawal.id}`);
   }
 
+  /**
+   * Confirm a payment by hand, e.g. when an admin has proof of a payment the gateway
+   * never reported. Runs the same issuance as a gateway confirmation.
+   */
+  async confirmPayment(
+    reference: string,
+    params: { amount: number; transactionRef?: string | null; note?: string; confirmedBy: string },
+  ) {
+    await this.handleSuccessfulPayment({
+      reference,
+      amount: params.amount,
+      id: params.transactionRef || undefined,
+      note: params.note,
+      createdBy: params.confirmedBy,
+    });
+  }
+
   private async handleSuccessfulPayment(data: any) {
     const { reference, amount, customer } = data;
 
@@ -535,7 +1329,7 @@ export class PaymentsService {
     });
 
     // IMPORTANT: Do not attempt to match payments by email/amount.
-    // Only process payments we can identify by our reference / Monnify references.
+    // Only process payments we can identify by our reference / gateway references.
 
     if (!payment) {
       this.logger.error(`Payment not found for reference: ${reference}`);
@@ -550,21 +1344,15 @@ export class PaymentsService {
 
     if (payment.status === 'FAILED') {
       this.logger.warn(`Payment was previously marked as FAILED: ${payment.reference}`);
-      this.logger.warn(`Monnify says it's successful, so re-processing as successful payment...`);
-      // Don't return - continue processing since Monnify confirms it was paid
+      this.logger.warn(`Gateway says it's successful, so re-processing as successful payment...`);
+      // Don't return - continue processing since the gateway confirms it was paid
     }
 
-    // Check if ticket already exists for this payment (another idempotency check)
-    const existingTicket = await this.prisma.ticket.findFirst({
-      where: { paymentId: payment.id },
-    });
-
-    if (existingTicket) {
-      this.logger.log(`Ticket already exists for payment: ${reference}`);
-      // Update payment status to SUCCESS since ticket exists
-      await this.prisma.payment.update({
-        where: { id: payment.id },
-        data: { status: 'SUCCESS' },
+    // Resale purchases pay the seller and reissue their ticket rather than selling new inventory
+    if (payment.resaleListingId) {
+      await this.resaleService.completeResale(payment, {
+        transactionRef: data.id?.toString() || null,
+        paidAt: data.paid_at ? new Date(data.paid_at) : new Date(),
       });
       return;
     }
@@ -580,16 +1368,26 @@ export class PaymentsService {
       return;
     }
 
-    // Get tier
-    const tier = await this.prisma.ticketTier.findUnique({
-      where: { id: payment.tierId },
-    });
+    // Get the line items (a single tier, or every tier of a cart order)
+    const lines = await this.getPaymentLines(payment);
 
-    if (!tier) {
+    if (lines.length === 0) {
       this.logger.error(`Tier not found for payment: ${reference}`);
       return;
     }
 
+    // An earlier attempt may have failed part way. Every step below is safe to repeat:
+    // createTicket issues just the missing tickets, and the credit and hold conversion
+    // only happen together with marking the payment SUCCESS.
+    const orderedCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const issuedCount = await this.prisma.ticket.count({ where: { paymentId: payment.id } });
+
+    if (issuedCount > 0) {
+      this.logger.warn(
+        `Payment ${reference} has ${issuedCount} of ${orderedCount} tickets - issuing the rest`,
+      );
+    }
+
     // Get the expected amount from payment record
     // NOTE: payment.amount now stores the TOTAL amount buyer paid (tier price + service fee if applicable)
     const storedAmount =
@@ -598,32 +1396,39 @@ export class PaymentsService {
     const platformFeePercent = this.configService.get<number>('platformFeePercent') || 5;
     const eventPassFeeTobuyer = (event as any).passFeeTobuyer ?? false;
 
-    // Get the actual tier price for organizer earnings calculation
-    const actualTierPrice =
-      tier.price instanceof Decimal ? tier.price.toNumber() : Number(tier.price);
+    // Get the actual ticket prices for organizer earnings calculation
+    // (after any promo code discount - the fee is charged on what the buyer actually pays)
+    const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+    const orderSubtotal = lines.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity - line.discount,
+      0,
+    );
+    const itemsLabel = lines
+      .map((line) => `${line.tierName || 'Ticket'}${line.quantity > 1 ? ` x${line.quantity}` : ''}`)
+      .join(', ');
 
     // Log amount details for debugging
     this.logger.log(`Amount verification for ${reference}:`);
     this.logger.log(`  - Stored payment amount: ₦${storedAmount}`);
-    this.logger.log(`  - Tier price: ₦${actualTierPrice}`);
+    this.logger.log(`  - Items: ${itemsLabel}, subtotal: ₦${orderSubtotal}`);
     this.logger.log(`  - Pass fee to buyer: ${eventPassFeeTobuyer}`);
-    this.logger.log(`  - Actual paid (from Monnify): ₦${amount}`);
+    this.logger.log(`  - Actual paid (from ${payment.provider}): ₦${amount}`);
 
-    // Verify amount matches what we stored (which is what Monnify charged)
+    // Verify amount matches what we stored (which is what the gateway charged)
     // More flexible tolerance - allow up to ₦5 difference for floating point and rounding
     const amountDifference = Math.abs(amount - storedAmount);
     this.logger.log(`  - Difference from stored: ₦${amountDifference}`);
 
     if (amountDifference > 5) {
       // Try to match against tier price as fallback (for old payments before this fix)
-      const tierPriceDiff = Math.abs(amount - actualTierPrice);
+      const tierPriceDiff = Math.abs(amount - orderSubtotal);
       this.logger.log(`  - Difference from tier price: ₦${tierPriceDiff}`);
 
       // Also check if it matches tier price + calculated service fee
       const calculatedServiceFee = eventPassFeeTobuyer
-        ? actualTierPrice * (platformFeePercent / 100)
+        ? orderSubtotal * (platformFeePercent / 100)
         : 0;
-      const calculatedTotal = actualTierPrice + calculatedServiceFee;
+      const calculatedTotal = orderSubtotal + calculatedServiceFee;
       const calculatedTotalDiff = Math.abs(amount - calculatedTotal);
       this.logger.log(
         `  - Calculated total (tier + fee): ₦${calculatedTotal}, diff: ₦${calculatedTotalDiff}`,
@@ -634,14 +1439,14 @@ export class PaymentsService {
       } else {
         this.logger.error(`Amount mismatch for ${reference}:`);
         this.logger.error(
-          `  Stored: ₦${storedAmount}, Tier: ₦${actualTierPrice}, Calculated: ₦${calculatedTotal}, Paid: ₦${amount}`,
+          `  Stored: ₦${storedAmount}, Tier: ₦${orderSubtotal}, Calculated: ₦${calculatedTotal}, Paid: ₦${amount}`,
         );
         this.logger.error(
           `  Diffs - Stored: ₦${amountDifference}, Tier: ₦${tierPriceDiff}, Calculated: ₦${calculatedTotalDiff}`,
         );
         // Don't mark as failed - just log the warning
-        // The payment was successful on Monnify, so we should still create the ticket
-        this.logger.warn(`Proceeding despite amount mismatch since Monnify confirmed payment`);
+        // The payment was successful on the gateway, so we should still create the ticket
+        this.logger.warn(`Proceeding despite amount mismatch since the gateway confirmed payment`);
       }
     } else {
       this.logger.log(`Amount verified successfully (within ₦5 tolerance)`);
@@ -652,25 +1457,37 @@ export class PaymentsService {
       ? await this.prisma.user.findUnique({ where: { id: payment.buyerId } })
       : null;
 
-    // Create ticket - buyerId can be null for guest checkouts
-    // Ticket creation is idempotent (by paymentId/paymentRef)
-    const ticket = await this.ticketsService.createTicket({
-      eventId: payment.eventId,
-      tierId: payment.tierId,
-      buyerId: payment.buyerId || null, // Pass null for guest checkouts, not empty string
-      buyerEmail: payment.buyerEmail,
-      buyerFirstName: user?.firstName || undefined,
-      buyerLastName: user?.lastName || undefined,
-      paymentId: payment.id,
-      paymentRef: reference,
-      amountPaid:
-        payment.amount instanceof Decimal ? payment.amount.toNumber() : Number(payment.amount),
-    });
+    // Create one ticket per unit ordered, line by line - buyerId can be null for guest checkouts
+    // Ticket creation is idempotent (by paymentId/paymentRef, or by order item for carts)
+    const tickets: any[] = [];
+    for (const line of lines) {
+      const lineTickets = await this.ticketsService.createTicket({
+        eventId: payment.eventId,
+        tierId: line.tierId,
+        buyerId: payment.buyerId || null, // Pass null for guest checkouts, not empty string
+        buyerEmail: payment.buyerEmail,
+        buyerFirstName: user?.firstName || undefined,
+        buyerLastName: user?.lastName || undefined,
+        paymentId: payment.id,
+        paymentRef: reference,
+        // Each ticket carries its share of the payment (fee included when passed to buyer)
+        amountPaid:
+          orderSubtotal > 0
+            ? (storedAmount * (line.unitPrice - line.discount / line.quantity)) / orderSubtotal
+            : 0,
+        quantity: line.quantity,
+        orderItemId: line.orderItemId,
+      });
+      tickets.push(...lineTickets);
+    }
+    await this.registrationQuestionsService.saveTicketAnswers(payment.registrationAnswers, tickets);
 
     // =============================================================================
     // ORGANIZER EARNINGS CALCULATION
     // =============================================================================
     // Service fee is ALWAYS 5% of the TICKET PRICE (not the total amount paid)
+    // For multi-ticket orders the tier price is multiplied by the quantity and
+    // the whole order is credited to the organizer as ONE ledger entry.
     //
     // If passFeeTobuyer = true:
     //   - Buyer paid: tierPrice + 5% service fee (e.g., 1000 + 50 = 1050)
@@ -683,58 +1500,71 @@ export class PaymentsService {
     //   - Organizer receives: tierPrice - 5% = 950
     // =============================================================================
 
-    const platformFee = actualTierPrice * (platformFeePercent / 100);
+    const platformFee = orderSubtotal * (platformFeePercent / 100);
     const organizerAmount = eventPassFeeTobuyer 
-      ? actualTierPrice  // Organizer gets full tier price when buyer pays the fee
-      : actualTierPrice - platformFee;  // Organizer absorbs the fee
+      ? orderSubtotal  // Organizer gets full tier price when buyer pays the fee
+      : orderSubtotal - platformFee;  // Organizer absorbs the fee
 
     this.logger.log(`=== Earnings Calculation for ${reference} ===`);
-    this.logger.log(`  Tier price: ₦${actualTierPrice.toFixed(2)}`);
+    this.logger.log(`  Items: ${itemsLabel} (subtotal ₦${orderSubtotal.toFixed(2)})`);
     this.logger.log(`  Buyer paid: ₦${storedAmount.toFixed(2)}`);
     this.logger.log(`  Pass fee to buyer: ${eventPassFeeTobuyer}`);
     this.logger.log(`  Platform fee (${platformFeePercent}% of tier price): ₦${platformFee.toFixed(2)}`);
     this.logger.log(`  Organizer receives: ₦${organizerAmount.toFixed(2)}`);
     this.logger.log(`  ================================================`);
 
-    // All new payments go to pendingBalance first
-    // The cron job (tasks.service.ts) handles moving funds to availableBalance
-    // after 24 hours based on each individual ledger entry's createdAt timestamp
-    await this.prisma.organizerProfile.update({
-      where: { id: event.organizerId },
-      data: { pendingBalance: { increment: organizerAmount } },
-    });
-
-    // Record in ledger with full reconciliation data
-    // This ensures each Monnify transaction is recorded exactly once
-    await this.ledgerService.recordTicketSale({
-      organizerId: event.organizerId,
-      ticketId: ticket.id,
-      amount: organizerAmount,
-      platformFee,
-      monnifyTransactionRef: data.id?.toString() || null,
-      paymentReference: payment.reference,
-      paymentId: payment.id,
-      valueDate: data.paid_at ? new Date(data.paid_at) : new Date(),
-      description: `${event.title} - ${tier.name || 'Ticket'}`,
-      narration: `Credit: Ticket sale for ${event.title} - ${tier.name || 'Ticket'}`,
-    });
+    // Credit the organizer, mark the payment SUCCESS and convert its holds all at once,
+    // so a failure part way leaves nothing half done for the retry to skip over
+    const completed = await this.prisma.$transaction(async (tx: any) => {
+      // Claim the payment - whoever gets here first credits the organizer
+      const claimed = await tx.payment.updateMany({
+        where: { id: payment.id, status: { not: 'SUCCESS' } },
+        data: {
+          status: 'SUCCESS',
+          providerTransactionRef: data.id?.toString(),
+          paidAt: data.paid_at ? new Date(data.paid_at) : new Date(),
+        },
+      });
+      if (claimed.count === 0) return false;
 
-    // Update payment status
-    await this.prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: 'SUCCESS',
-        monnifyTransactionRef: data.id?.toString(),
-        paidAt: data.paid_at ? new Date(data.paid_at) : new Date(),
-      },
-    });
+      // Record in ledger with full reconciliation data
+      // This ensures each gateway transaction is recorded exactly once
+      await this.ledgerService.recordTicketSale(
+        {
+          organizerId: event.organizerId,
+          ticketId: tickets[0].id,
+          amount: organizerAmount,
+          platformFee,
+          providerTransactionRef: data.id?.toString() || null,
+          paymentReference: payment.reference,
+          paymentId: payment.id,
+          valueDate: data.paid_at ? new Date(data.paid_at) : new Date(),
+          description: `${event.title} - ${itemsLabel}${data.note ? ` | Note: ${data.note}` : ''}`,
+          narration: `Credit: ${quantity > 1 ? `${quantity} ticket sales` : 'Ticket sale'} for ${event.title} - ${itemsLabel}`,
+          createdBy: data.createdBy,
+        },
+        tx,
+      );
 
-    // Update tier sold count
-    await this.prisma.ticketTier.update({
-      where: { id: payment.tierId },
-      data: { sold: { increment: 1 } },
+      // All new payments go to pendingBalance first
+      // The cron job (tasks.service.ts) handles moving funds to availableBalance
+      // after 24 hours based on each individual ledger entry's createdAt timestamp
+      await tx.organizerProfile.update({
+        where: { id: event.organizerId },
+        data: { pendingBalance: { increment: organizerAmount } },
+      });
+
+      // Convert the seat holds taken at initialize into sold tickets
+      await this.convertInventoryHolds(tx, payment.id, lines);
+
+      return true;
     });
 
+    if (!completed) {
+      this.logger.log(`Payment already processed successfully: ${payment.reference}`);
+      return;
+    }
+
     // Process any pending balance that should now be available
     // This moves any matured funds (older than 24 hours) from pending to available
     try {
@@ -748,6 +1578,72 @@ export class PaymentsService {
     }
   }
 
+  /**
+   * Resolve what a payment bought as line items.
+   * Cart payments use the order items (priced at checkout); single-tier payments
+   * use the price stored at checkout (or the tier's price for older payments)
+   * and the payment quantity.
+   */
+  private async getPaymentLines(payment: {
+    tierId: string | null;
+    orderId: string | null;
+    quantity: number;
+    unitPrice: Decimal | number | null;
+    discountAmount: Decimal | number;
+  }): Promise<
+    {
+      tierId: string;
+      tierName: string;
+      quantity: number;
+      unitPrice: number;
+      discount: number; // Promo code discount on the whole line
+      orderItemId?: string;
+    }[]
+  > {
+    if (payment.orderId) {
+      const items = await this.prisma.orderItem.findMany({
+        where: { orderId: payment.orderId },
+        include: { tier: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      return items.map((item: any) => ({
+        tierId: item.tierId,
+        tierName: item.tier?.name,
+        quantity: item.quantity,
+        unitPrice:
+          item.unitPrice instanceof Decimal ? item.unitPrice.toNumber() : Number(item.unitPrice),
+        discount:
+          item.discount instanceof Decimal ? item.discount.toNumber() : Number(item.discount),
+        orderItemId: item.id,
+      }));
+    }
+
+    if (!payment.tierId) {
+      return [];
+    }
+
+    const tier = await this.prisma.ticketTier.findUnique({
+      where: { id: payment.tierId },
+    });
+
+    if (!tier) {
+      return [];
+    }
+
+    return [
+      {
+        tierId: tier.id,
+        tierName: tier.name,
+        quantity: payment.quantity || 1,
+        unitPrice: Number(payment.unitPrice ?? tier.price),
+        discount:
+          payment.discountAmount instanceof Decimal
+            ? payment.discountAmount.toNumber()
+            : Number(payment.discountAmount || 0),
+      },
+    ];
+  }
+
   /**
    * Check and recover pending payments for a user
    * This handles cases where buyer closes the page after payment but before ticket creation
@@ -775,25 +1671,25 @@ export class PaymentsService {
       return { pendingPayments: [], verified: [] };
     }
 
-    // Verify each pending payment with Monnify
+    // Verify each pending payment with the gateway it was made with
     const verificationResults = [];
     for (const payment of pendingPayments) {
       try {
-        // Use Monnify transaction reference if available, otherwise use payment reference
-        const transactionRef = payment.monnifyTransactionRef || payment.reference;
-        const monnifyData = await this.monnifyService.verifyTransaction(
+        // Use the gateway transaction reference if available, otherwise use payment reference
+        const transactionRef = payment.providerTransactionRef || payment.reference;
+        const gatewayData = await this.paymentProviders.get(payment.provider).verifyTransaction(
           transactionRef,
           payment.reference,
         );
 
-        if (monnifyData.status === 'paid' || monnifyData.status === 'success') {
+        if (gatewayData.status === 'paid') {
           // Process the payment using the same logic as webhook
           await this.handleSuccessfulPayment({
             reference: payment.reference,
-            amount: monnifyData.amount,
-            id: monnifyData.transactionReference,
-            paid_at: monnifyData.paidOn,
-            customer: monnifyData.customer,
+            amount: gatewayData.amount,
+            id: gatewayData.transactionReference,
+            paid_at: gatewayData.paidOn,
+            customer: gatewayData.customer,
           });
 
           verificationResults.push({
@@ -838,10 +1734,10 @@ export class PaymentsService {
       where: { reference },
     });
 
-    // If not found, try to find by Monnify transaction reference
+    // If not found, try to find by gateway transaction reference
     if (!payment) {
       payment = await this.prisma.payment.findFirst({
-        where: { monnifyTransactionRef: reference },
+        where: { providerTransactionRef: reference },
       });
     }
 
@@ -850,41 +1746,41 @@ export class PaymentsService {
       throw new NotFoundException('Payment not found');
     }
 
-    // If payment is still pending, verify with Monnify and process it
+    // If payment is still pending, verify with its gateway and process it
     if (payment.status === 'PENDING') {
       try {
-        // Get transaction reference for Monnify verification
-        const transactionRef = payment.monnifyTransactionRef || reference;
+        // Get transaction reference for gateway verification
+        const transactionRef = payment.providerTransactionRef || reference;
 
         this.logger.log(
-          `Verifying payment ${reference} with Monnify transaction ref: ${transactionRef}`,
+          `Verifying payment ${reference} with ${payment.provider} transaction ref: ${transactionRef}`,
         );
 
-        // Verify transaction with Monnify with retry logic
-        let monnifyData;
+        // Verify transaction with the gateway with retry logic
+        let gatewayData;
         let lastError;
 
-        // Try up to 3 times with delays (sometimes Monnify takes a moment to update status)
+        // Try up to 3 times with delays (sometimes the gateway takes a moment to update status)
         for (let attempt = 1; attempt <= 3; attempt++) {
           try {
             // Pass both transaction ref and payment ref to try both
-            monnifyData = await this.monnifyService.verifyTransaction(
+            gatewayData = await this.paymentProviders.get(payment.provider).verifyTransaction(
               transactionRef,
               payment.reference,
             );
             this.logger.log(
-              `Monnify verification attempt ${attempt} result: ${JSON.stringify(monnifyData)}`,
+              `${payment.provider} verification attempt ${attempt} result: ${JSON.stringify(gatewayData)}`,
             );
 
             // If we got a successful status, break out of retry loop
-            if (monnifyData.status === 'paid' || monnifyData.status === 'success') {
+            if (gatewayData.status === 'paid') {
               break;
             }
 
             // If status is still pending on first attempts, wait and retry
-            if (monnifyData.status === 'pending' && attempt < 3) {
+            if (gatewayData.status === 'pending' && attempt < 3) {
               this.logger.log(
-                `Payment still pending on Monnify, waiting ${attempt * 2} seconds before retry...`,
+                `Payment still pending on ${payment.provider}, waiting ${attempt * 2} seconds before retry...`,
               );
               await new Promise((resolve) => setTimeout(resolve, attempt * 2000)); // 2s, 4s delays
               continue;
@@ -894,7 +1790,7 @@ export class PaymentsService {
             break;
           } catch (error) {
             lastError = error;
-            this.logger.warn(`Monnify verification attempt ${attempt} failed:`, error);
+            this.logger.warn(`${payment.provider} verification attempt ${attempt} failed:`, error);
 
             // Wait before retrying (except on last attempt)
             if (attempt < 3) {
@@ -903,27 +1799,27 @@ export class PaymentsService {
           }
         }
 
-        if (!monnifyData) {
+        if (!gatewayData) {
           // All retries failed
           this.logger.error(`All verification attempts failed for payment ${reference}`, lastError);
           throw new BadRequestException(
-            'Unable to verify payment with Monnify at this time. ' +
+            'Unable to verify payment with the payment gateway at this time. ' +
               'If you were charged, your ticket will be issued shortly. ' +
               'Please check your tickets page in a few minutes or contact support.',
           );
         }
 
-        // Check if payment was successful on Monnify
-        if (monnifyData.status === 'paid' || monnifyData.status === 'success') {
+        // Check if payment was successful on the gateway
+        if (gatewayData.status === 'paid') {
           this.logger.log(`Payment ${reference} verified as successful, processing...`);
 
           // Process the payment using the same logic as webhook
           await this.handleSuccessfulPayment({
             reference: payment.reference,
-            amount: monnifyData.amount,
-            id: monnifyData.transactionReference,
-            paid_at: monnifyData.paidOn,
-            customer: monnifyData.customer,
+            amount: gatewayData.amount,
+            id: gatewayData.transactionReference,
+            paid_at: gatewayData.paidOn,
+            customer: gatewayData.customer,
           });
 
           // Refetch payment to get updated status
@@ -931,27 +1827,29 @@ export class PaymentsService {
             where: { reference },
           });
 
-          // Get the created ticket
-          const ticket = await this.prisma.ticket.findFirst({
+          // Get the created tickets
+          const tickets = await this.prisma.ticket.findMany({
             where: { paymentId: payment.id },
             include: {
               event: true,
               tier: true,
             },
+            orderBy: { createdAt: 'asc' },
           });
 
           return {
             message: 'Payment verified successfully!',
             payment: updatedPayment,
-            ticket,
+            ticket: tickets[0] || null,
+            tickets,
           };
         } else {
-          // Payment not successful on Monnify
-          const statusMsg = monnifyData.status || 'unknown status';
+          // Payment not successful on the gateway
+          const statusMsg = gatewayData.status || 'unknown status';
           this.logger.warn(`Payment ${reference} verification returned status: ${statusMsg}`);
           throw new BadRequestException(
             `Payment verification returned status: ${statusMsg}. ` +
-              (monnifyData.status === 'pending'
+              (gatewayData.status === 'pending'
                 ? 'Payment is still being processed. Please check your tickets page in a few minutes.'
                 : 'Payment was not completed. Please try again or contact support if you were charged.'),
           );
@@ -970,7 +1868,7 @@ export class PaymentsService {
 
         // Otherwise, provide a generic but helpful error
         throw new BadRequestException(
-          'Unable to verify payment with Monnify. ' +
+          'Unable to verify payment with the payment gateway. ' +
             'If you completed payment and were charged, your ticket will be issued automatically. ' +
             'Please check your tickets page in a few minutes or contact support. ' +
             `Error: ${errorMessage}`,
@@ -978,23 +1876,25 @@ export class PaymentsService {
       }
     }
 
-    // Payment already processed, fetch ticket
-    const ticket = await this.prisma.ticket.findFirst({
+    // Payment already processed, fetch tickets
+    const tickets = await this.prisma.ticket.findMany({
       where: { paymentId: payment.id },
       include: {
         event: true,
         tier: true,
       },
+      orderBy: { createdAt: 'asc' },
     });
 
-    if (!ticket) {
+    if (tickets.length === 0) {
       throw new NotFoundException('Ticket not found for this payment');
     }
 
     return {
       message: 'Payment already verified',
       payment,
-      ticket,
+      ticket: tickets[0],
+      tickets,
     };
   }
 }
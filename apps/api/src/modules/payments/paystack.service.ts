@@ -0,0 +1,324 @@
+import { Injectable, Logger, RawBodyRequest } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import * as crypto from 'crypto';
+import { PaymentGateway } from '../../common/types/prisma-enums';
+import {
+  Bank,
+  InitializedTransaction,
+  InitiatedRefund,
+  VerifiedRefund,
+  InitiatedTransfer,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  VerifiedTransaction,
+} from './payment-provider.interface';
+
+// Paystack works in kobo; the rest of the app works in naira
+const toKobo = (amount: number) => Math.round(amount * 100);
+const toNaira = (amount: number) => Number(amount || 0) / 100;
+
+const PAYSTACK_EVENT_TYPES: Record<string, PaymentWebhookEventType> = {
+  'charge.success': 'PAYMENT_SUCCESS',
+  'transfer.success': 'TRANSFER_SUCCESS',
+  'transfer.failed': 'TRANSFER_FAILED',
+  'transfer.reversed': 'TRANSFER_REVERSED',
+  'refund.processed': 'REFUND_SUCCESS',
+  'refund.failed': 'REFUND_FAILED',
+};
+
+@Injectable()
+export class PaystackService implements PaymentProvider {
+  readonly name = PaymentGateway.PAYSTACK;
+  private readonly logger = new Logger(PaystackService.name);
+  private baseUrl: string;
+  private secretKey: string;
+
+  constructor(private configService: ConfigService) {
+    this.baseUrl = this.configService.get<string>('PAYSTACK_BASE_URL') || 'https://api.paystack.co';
+    this.secretKey = this.configService.get<string>('PAYSTACK_SECRET_KEY') || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.secretKey;
+  }
+
+  /**
+   * Call the Paystack API. Paystack wraps every response in { status, message, data }
+   */
+  private async request(path: string, init: { method?: string; body?: any } = {}): Promise<any> {
+    if (!this.secretKey) {
+      throw new Error('Paystack is not configured');
+    }
+
+    let response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method: init.method || 'GET',
+        headers: {
+          Authorization: `Bearer ${this.secretKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: init.body ? JSON.stringify(init.body) : undefined,
+      });
+    } catch (fetchError) {
+      this.logger.error(`Network error calling Paystack ${path}: ${(fetchError as any).message}`);
+      throw new Error(`Failed to connect to payment gateway: ${(fetchError as any).message}`);
+    }
+
+    let data;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error(`Invalid response from payment gateway. Status: ${response.status}`);
+    }
+
+    if (!response.ok || !data.status) {
+      this.logger.error(`Paystack ${path} failed: ${JSON.stringify(data)}`);
+      throw new Error(data.message || `Paystack API error: ${response.status}`);
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Initialize a payment transaction. Paystack keeps our reference as its own
+   */
+  async initializeTransaction(
+    email: string,
+    amount: number,
+    reference: string,
+    metadata?: Record<string, string>,
+  ): Promise<InitializedTransaction> {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+
+    if (amount < 100) {
+      throw new Error('Minimum transaction amount is ₦100');
+    }
+
+    this.logger.log(`Initializing Paystack transaction: ${reference}, amount: ${amount}`);
+
+    const data = await this.request('/transaction/initialize', {
+      method: 'POST',
+      body: {
+        email,
+        amount: toKobo(amount),
+        reference,
+        currency: 'NGN',
+        callback_url: `${frontendUrl}/payment/callback`,
+        channels: ['card', 'bank_transfer'],
+        metadata,
+      },
+    });
+
+    return {
+      transactionReference: data.reference,
+      paymentReference: reference,
+      checkoutUrl: data.authorization_url,
+    };
+  }
+
+  /**
+   * Verify a transaction. Paystack only knows our reference, so paymentReference is
+   * tried if the first lookup fails
+   */
+  async verifyTransaction(
+    reference: string,
+    paymentReference?: string,
+  ): Promise<VerifiedTransaction> {
+    let data;
+    try {
+      data = await this.request(`/transaction/verify/${encodeURIComponent(reference)}`);
+    } catch (error) {
+      if (!paymentReference || paymentReference === reference) throw error;
+      data = await this.request(`/transaction/verify/${encodeURIComponent(paymentReference)}`);
+    }
+
+    const rawStatus = String(data.status || '').toUpperCase();
+    let status: VerifiedTransaction['status'] = 'pending';
+    if (rawStatus === 'SUCCESS') {
+      status = 'paid';
+    } else if (rawStatus === 'FAILED' || rawStatus === 'ABANDONED' || rawStatus === 'REVERSED') {
+      status = 'failed';
+    }
+
+    this.logger.log(`Transaction ${reference} status: ${rawStatus} -> ${status}`);
+
+    return {
+      status,
+      rawStatus,
+      amount: toNaira(data.amount),
+      reference: data.reference,
+      transactionReference: data.reference,
+      paidOn: data.paid_at || null,
+      paymentMethod: data.channel || null,
+      customer: data.customer
+        ? {
+            email: data.customer.email,
+            name: [data.customer.first_name, data.customer.last_name].filter(Boolean).join(' '),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Refund a transaction, in full or in part
+   */
+  async refundTransaction(transactionReference: string, amount?: number): Promise<InitiatedRefund> {
+    const data = await this.request('/refund', {
+      method: 'POST',
+      body: {
+        transaction: transactionReference,
+        amount: amount ? toKobo(amount) : undefined,
+        merchant_note: 'Customer refund request',
+      },
+    });
+
+    return {
+      refundReference: String(data.id),
+      status: String(data.status || 'pending').toUpperCase(),
+    };
+  }
+
+  async verifyRefund(refundReference: string): Promise<VerifiedRefund> {
+    const data = await this.request(`/refund/${encodeURIComponent(refundReference)}`);
+    const rawStatus = String(data.status || 'pending').toLowerCase();
+
+    return {
+      status:
+        rawStatus === 'processed' ? 'processed' : rawStatus === 'failed' ? 'failed' : 'pending',
+      rawStatus,
+      reason: data.merchant_note || undefined,
+    };
+  }
+
+  async getBanks(): Promise<Bank[]> {
+    const data = await this.request('/bank?country=nigeria&currency=NGN&perPage=100');
+    return data.map((bank: any) => ({ name: bank.name, code: bank.code, ussdTemplate: null }));
+  }
+
+  async resolveAccountNumber(
+    accountNumber: string,
+    bankCode: string,
+  ): Promise<{ accountNumber: string; accountName: string }> {
+    const data = await this.request(
+      `/bank/resolve?account_number=${encodeURIComponent(accountNumber)}&bank_code=${encodeURIComponent(bankCode)}`,
+    );
+
+    return { accountNumber: data.account_number, accountName: data.account_name };
+  }
+
+  /**
+   * Pay out to a bank account from the Paystack balance. Paystack needs a transfer
+   * recipient first; references must be lowercase
+   */
+  async initiateTransfer(
+    amount: number,
+    bankCode: string,
+    accountNumber: string,
+    accountName: string,
+    narration: string,
+  ): Promise<InitiatedTransfer> {
+    const reference = `wd-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+
+    const recipient = await this.request('/transferrecipient', {
+      method: 'POST',
+      body: {
+        type: 'nuban',
+        name: accountName,
+        account_number: accountNumber,
+        bank_code: bankCode,
+        currency: 'NGN',
+      },
+    });
+
+    this.logger.log(
+      `Initiating Paystack transfer: ${reference}, amount: ${amount}, to: ${accountNumber}`,
+    );
+
+    const data = await this.request('/transfer', {
+      method: 'POST',
+      body: {
+        source: 'balance',
+        amount: toKobo(amount),
+        recipient: recipient.recipient_code,
+        reference,
+        reason: narration.substring(0, 100),
+      },
+    });
+
+    return {
+      reference: data.reference || reference,
+      status: String(data.status || 'pending').toUpperCase(),
+      totalAmount: toNaira(data.amount),
+    };
+  }
+
+  /**
+   * Paystack signs the raw body: x-paystack-signature = HMAC-SHA512(secretKey, body)
+   * SECURITY: Fails closed - rejects webhooks if the secret key or raw body is missing
+   */
+  verifyWebhook(req: RawBodyRequest<Request>): boolean {
+    if (!this.secretKey) {
+      this.logger.error('SECURITY: Paystack secret key not configured - rejecting webhook');
+      return false;
+    }
+
+    const signature = req.headers['x-paystack-signature'];
+    if (typeof signature !== 'string' || !req.rawBody) {
+      this.logger.warn('Paystack webhook without signature or raw body');
+      return false;
+    }
+
+    const computed = crypto.createHmac('sha512', this.secretKey).update(req.rawBody).digest('hex');
+
+    try {
+      return crypto.timingSafeEqual(Buffer.from(computed), Buffer.from(signature));
+    } catch {
+      return false;
+    }
+  }
+
+  parseWebhookEvent(body: any): PaymentWebhookEvent {
+    const rawType = body?.event || '';
+    const data = body?.data || {};
+    const type = PAYSTACK_EVENT_TYPES[rawType] || 'IGNORED';
+
+    if (type === 'PAYMENT_SUCCESS') {
+      return {
+        type,
+        rawType,
+        paymentReference: data.reference,
+        transactionReference: data.reference,
+        amount: toNaira(data.amount),
+        paidOn: data.paid_at,
+        customer: data.customer ? { email: data.customer.email } : null,
+      };
+    }
+
+    if (type.startsWith('TRANSFER_')) {
+      return {
+        type,
+        rawType,
+        transferReference: data.reference,
+        amount: toNaira(data.amount),
+        status: String(data.status || '').toUpperCase(),
+        reason: data.reason,
+      };
+    }
+
+    if (type.startsWith('REFUND_')) {
+      return {
+        type,
+        rawType,
+        transactionReference: data.transaction_reference,
+        refundReference: data.refund_reference || (data.id ? String(data.id) : undefined),
+        amount: toNaira(data.amount),
+        status: String(data.status || '').toUpperCase(),
+      };
+    }
+
+    return { type, rawType };
+  }
+}
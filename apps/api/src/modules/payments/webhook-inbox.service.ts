@@ -0,0 +1,305 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Request } from 'express';
+import * as crypto from 'crypto';
+import { PrismaService } from '../../database/prisma.service';
+import { WebhookDeliveryStatus } from '../../common/types/prisma-enums';
+import { PaymentsService } from './payments.service';
+import { RefundsService } from '../refunds/refunds.service';
+import { PaymentProvidersService } from './payment-providers.service';
+import { PaymentProvider, PaymentWebhookEvent } from './payment-provider.interface';
+
+// Delay before each retry; a delivery that fails every one of them is marked FAILED
+const RETRY_DELAYS_MS = [
+  30 * 1000,
+  2 * 60 * 1000,
+  10 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// A delivery stuck in PROCESSING this long was interrupted (e.g. a restart) and is retried
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+const BATCH_SIZE = 50;
+
+// Never stored with the delivery
+const REDACTED_HEADERS = ['authorization', 'cookie'];
+
+/**
+ * Durable inbox for payment gateway webhooks. Every webhook is stored before the gateway
+ * gets its 200, then processed separately with retries and backoff, so a failure while
+ * processing (e.g. a database blip) delays a payment instead of losing it. Re-deliveries
+ * of an event already in the inbox are counted, not processed again.
+ */
+@Injectable()
+export class WebhookInboxService {
+  private readonly logger = new Logger(WebhookInboxService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private paymentsService: PaymentsService,
+    private paymentProviders: PaymentProvidersService,
+    private refundsService: RefundsService,
+  ) {}
+
+  /**
+   * Store an incoming webhook. Webhooks that fail verification are kept as REJECTED for
+   * inspection and never processed. Throws if the delivery can't be stored, so the
+   * gateway gets an error and sends it again.
+   */
+  async receive(provider: PaymentProvider, req: RawBodyRequest<Request>, clientIp: string) {
+    const signatureValid = provider.verifyWebhook(req, clientIp);
+    const rawBody = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body ?? {});
+    const event = provider.parseWebhookEvent(req.body);
+
+    const headers = Object.fromEntries(
+      Object.entries(req.headers).filter(([name]) => !REDACTED_HEADERS.includes(name)),
+    );
+
+    const data = {
+      provider: provider.name,
+      eventType: event.rawType || 'UNKNOWN',
+      rawBody,
+      headers,
+      ipAddress: clientIp,
+      signatureValid,
+    };
+
+    if (!signatureValid) {
+      // No event key: a forged webhook must not claim the identity of a real one
+      return this.prisma.webhookDelivery.create({
+        data: { ...data, status: WebhookDeliveryStatus.REJECTED },
+      });
+    }
+
+    const eventKey = this.getEventKey(event, rawBody);
+
+    try {
+      return await this.prisma.webhookDelivery.create({
+        data: {
+          ...data,
+          eventKey,
+          status:
+            event.type === 'IGNORED'
+              ? WebhookDeliveryStatus.IGNORED
+              : WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: new Date(),
+        },
+      });
+    } catch (error: any) {
+      if (error.code !== 'P2002') throw error;
+    }
+
+    // Already in the inbox - count the re-delivery. If we had given up on it, the gateway
+    // sending it again is a good reason to try once more.
+    const existing = await this.prisma.webhookDelivery.findUnique({
+      where: { provider_eventKey: { provider: provider.name, eventKey } },
+    });
+    const requeue = existing?.status === WebhookDeliveryStatus.FAILED;
+
+    this.logger.log(
+      `Duplicate ${provider.name} webhook ${eventKey} (${existing?.status})${requeue ? ' - retrying' : ''}`,
+    );
+
+    return this.prisma.webhookDelivery.update({
+      where: { provider_eventKey: { provider: provider.name, eventKey } },
+      data: {
+        duplicateCount: { increment: 1 },
+        lastReceivedAt: new Date(),
+        ...(requeue && {
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+        }),
+      },
+    });
+  }
+
+  /**
+   * Process a pending delivery once. Failures are recorded and scheduled for a retry,
+   * never thrown.
+   */
+  async process(id: string): Promise<void> {
+    // Claim it first so the retry job and an inline run never both process it
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: { id, status: WebhookDeliveryStatus.PENDING },
+      data: { status: WebhookDeliveryStatus.PROCESSING, attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) return;
+
+    const delivery = await this.prisma.webhookDelivery.findUniqueOrThrow({ where: { id } });
+
+    try {
+      const provider = this.paymentProviders.get(delivery.provider);
+      const event = provider.parseWebhookEvent(JSON.parse(delivery.rawBody));
+
+      await this.dispatch(provider, event);
+
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status: WebhookDeliveryStatus.PROCESSED,
+          processedAt: new Date(),
+          nextAttemptAt: null,
+          lastError: null,
+        },
+      });
+    } catch (error: any) {
+      const exhausted = delivery.attempts >= MAX_ATTEMPTS;
+      const delay = RETRY_DELAYS_MS[delivery.attempts - 1];
+
+      this.logger.error(
+        `${delivery.provider} webhook ${delivery.eventType} (${id}) failed on attempt ${delivery.attempts}: ${error.message}`,
+      );
+      if (exhausted) {
+        this.logger.error(`Webhook ${id} is out of retries - replay it from the admin dashboard`);
+      }
+
+      await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status: exhausted ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: exhausted ? null : new Date(Date.now() + delay),
+          lastError: String(error.message || error).substring(0, 2000),
+        },
+      });
+    }
+  }
+
+  /**
+   * Retry due deliveries, and pick up ones a restart left half-processed
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processDueDeliveries() {
+    const stale = await this.prisma.webhookDelivery.updateMany({
+      where: {
+        status: WebhookDeliveryStatus.PROCESSING,
+        updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+      },
+      data: { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: new Date() },
+    });
+    if (stale.count > 0) {
+      this.logger.warn(`Requeued ${stale.count} webhook(s) stuck in processing`);
+    }
+
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+      await this.process(delivery.id);
+    }
+  }
+
+  /**
+   * Admin replay: run a failed (or still pending) delivery again straight away, with a
+   * fresh set of retries if it fails again
+   */
+  async replay(id: string, adminId: string) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({ where: { id } });
+
+    if (!delivery) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+
+    if (delivery.status === WebhookDeliveryStatus.REJECTED) {
+      throw new BadRequestException('This webhook failed verification and cannot be replayed');
+    }
+
+    if (delivery.status === WebhookDeliveryStatus.PROCESSING) {
+      throw new ConflictException('This webhook is being processed right now');
+    }
+
+    if (
+      delivery.status !== WebhookDeliveryStatus.FAILED &&
+      delivery.status !== WebhookDeliveryStatus.PENDING
+    ) {
+      throw new BadRequestException(`Only failed or pending webhooks can be replayed`);
+    }
+
+    await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        replayedBy: adminId,
+      },
+    });
+
+    this.logger.log(`Admin ${adminId} replaying webhook ${id} (${delivery.eventType})`);
+    await this.process(id);
+
+    return this.prisma.webhookDelivery.findUnique({ where: { id } });
+  }
+
+  private async dispatch(provider: PaymentProvider, event: PaymentWebhookEvent) {
+    switch (event.type) {
+      case 'PAYMENT_SUCCESS':
+        await this.paymentsService.handlePaymentSuccess(event);
+        this.logger.log(`Successfully processed payment: ${event.paymentReference}`);
+        break;
+
+      case 'PAYMENT_FAILED':
+        await this.paymentsService.handlePaymentFailed(event);
+        this.logger.log(`Processed failed payment: ${event.paymentReference}`);
+        break;
+
+      case 'TRANSFER_SUCCESS':
+        await this.paymentsService.handleTransferSuccess(event);
+        this.logger.log(`Successfully processed transfer: ${event.transferReference}`);
+        break;
+
+      case 'TRANSFER_FAILED':
+        await this.paymentsService.handleTransferFailed(event);
+        this.logger.log(`Processed failed transfer: ${event.transferReference}`);
+        break;
+
+      case 'TRANSFER_REVERSED':
+        await this.paymentsService.handleTransferReversed(event);
+        this.logger.log(`Processed reversed transfer: ${event.transferReference}`);
+        break;
+
+      case 'REFUND_SUCCESS':
+        await this.refundsService.handleRefundSuccess(event);
+        this.logger.log(`Successfully processed refund: ${event.refundReference}`);
+        break;
+
+      case 'REFUND_FAILED':
+        await this.refundsService.handleRefundFailed(event);
+        this.logger.log(`Processed failed refund: ${event.refundReference}`);
+        break;
+
+      default:
+        this.logger.log(`Unhandled ${provider.name} event type: ${event.rawType}`);
+    }
+  }
+
+  /**
+   * The gateway's identity for an event: its type plus the most specific reference it
+   * carries. A refund or transfer reference beats the transaction reference, since one
+   * transaction can have several refunds.
+   */
+  private getEventKey(event: PaymentWebhookEvent, rawBody: string): string {
+    const reference =
+      event.refundReference ||
+      event.transferReference ||
+      event.transactionReference ||
+      event.paymentReference ||
+      crypto.createHash('sha256').update(rawBody).digest('hex');
+
+    return `${event.rawType}:${reference}`;
+  }
+}
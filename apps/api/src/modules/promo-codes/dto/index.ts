@@ -0,0 +1,120 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  ArrayMinSize,
+  ValidateNested,
+  Min,
+  Length,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform, Type } from 'class-transformer';
+import { DiscountType } from '../../../common/types/prisma-enums';
+
+export class CreatePromoCodeDto {
+  @ApiProperty({ description: 'Code buyers enter at checkout (e.g., "EARLYBIRD")' })
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  @Transform(({ value }) => value?.toUpperCase().trim())
+  @Length(3, 30, { message: 'Code must be between 3 and 30 characters' })
+  @Matches(/^[A-Z0-9_-]+$/, {
+    message: 'Code can only contain letters, numbers, dashes and underscores',
+  })
+  code: string;
+
+  @ApiProperty({
+    enum: DiscountType,
+    description: 'Percentage off, or a fixed amount off each ticket',
+  })
+  @IsEnum(DiscountType)
+  discountType: DiscountType;
+
+  @ApiProperty({ description: 'Percent (1-100) or naira off each ticket' })
+  @IsNumber()
+  @Min(0.01, { message: 'Discount must be greater than zero' })
+  discountValue: number;
+
+  @ApiPropertyOptional({ description: 'Tiers the code applies to - empty for every tier' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tierIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Total number of orders that can use the code' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number;
+
+  @ApiPropertyOptional({ description: 'Number of orders each buyer can use the code for' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUsesPerBuyer?: number;
+
+  @ApiPropertyOptional({ description: 'Minimum eligible tickets in the order' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minQuantity?: number;
+
+  @ApiPropertyOptional({ description: 'Code is valid from this date' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ description: 'Code is valid until this date' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+}
+
+export class UpdatePromoCodeDto extends PartialType(CreatePromoCodeDto) {
+  @ApiPropertyOptional({ description: 'Turn the code on or off' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class PromoCodeItemDto {
+  @ApiProperty({ description: 'Ticket tier ID' })
+  @IsString()
+  tierId: string;
+
+  @ApiProperty({ description: 'Number of tickets for this tier' })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class ValidatePromoCodeDto {
+  @ApiProperty({ description: 'Event the code is for' })
+  @IsString()
+  eventId: string;
+
+  @ApiProperty({ description: 'Promo code entered by the buyer' })
+  @IsString()
+  @IsNotEmpty({ message: 'Promo code is required' })
+  @Transform(({ value }) => value?.toUpperCase().trim())
+  code: string;
+
+  @ApiProperty({ type: [PromoCodeItemDto], description: 'Tiers and quantities being bought' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PromoCodeItemDto)
+  items: PromoCodeItemDto[];
+
+  @ApiPropertyOptional({ description: 'Buyer email, to check per-buyer limits' })
+  @IsOptional()
+  @IsString()
+  email?: string;
+}
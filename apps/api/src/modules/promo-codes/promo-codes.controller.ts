@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { PromoCodesService } from './promo-codes.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { CreatePromoCodeDto, UpdatePromoCodeDto, ValidatePromoCodeDto } from './dto';
+import { UserRole } from '../../common/types/prisma-enums';
+
+@ApiTags('Promo Codes')
+@Controller('promo-codes')
+export class PromoCodesController {
+  constructor(private readonly promoCodesService: PromoCodesService) {}
+
+  // ==================== ORGANIZER ENDPOINTS ====================
+
+  @Post('events/:eventId/codes')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a promo code for an event' })
+  @ApiResponse({ status: 201, description: 'Promo code created successfully' })
+  async createCode(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreatePromoCodeDto,
+    @Request() req: any,
+  ) {
+    return this.promoCodesService.createPromoCode(eventId, req.user.organizerProfile.id, dto);
+  }
+
+  @Get('events/:eventId/codes')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get all promo codes for an event with redemption counts' })
+  async getEventCodes(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.promoCodesService.getEventPromoCodes(eventId, req.user.organizerProfile.id);
+  }
+
+  @Patch('codes/:codeId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a promo code' })
+  async updateCode(
+    @Param('codeId') codeId: string,
+    @Body() dto: UpdatePromoCodeDto,
+    @Request() req: any,
+  ) {
+    return this.promoCodesService.updatePromoCode(codeId, req.user.organizerProfile.id, dto);
+  }
+
+  @Delete('codes/:codeId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete an unused promo code' })
+  async deleteCode(@Param('codeId') codeId: string, @Request() req: any) {
+    return this.promoCodesService.deletePromoCode(codeId, req.user.organizerProfile.id);
+  }
+
+  // ==================== PUBLIC ENDPOINTS ====================
+
+  @Post('validate')
+  @Public()
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // Stop codes being guessed by brute force
+  @ApiOperation({ summary: 'Check a promo code and preview the discount before checkout' })
+  async validateCode(@Body() dto: ValidatePromoCodeDto) {
+    return this.promoCodesService.previewPromoCode(dto.eventId, dto.code, dto.items, dto.email);
+  }
+}
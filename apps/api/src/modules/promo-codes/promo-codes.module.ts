@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PromoCodesController } from './promo-codes.controller';
+import { PromoCodesService } from './promo-codes.service';
+import { PrismaModule } from '../../database/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PromoCodesController],
+  providers: [PromoCodesService],
+  exports: [PromoCodesService],
+})
+export class PromoCodesModule {}
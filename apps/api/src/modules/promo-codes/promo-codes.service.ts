@@ -0,0 +1,442 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { Decimal } from '@prisma/client/runtime/library';
+import { PrismaService } from '../../database/prisma.service';
+import { CreatePromoCodeDto, UpdatePromoCodeDto } from './dto';
+import { getCurrentTierPrice } from '../../common/utils/tier-pricing';
+
+export interface DiscountLine {
+  tierId: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface AppliedPromoCode {
+  promoCodeId: string;
+  code: string;
+  discountAmount: number;
+  discountedQuantity: number;
+  // Discount per tier, so it can be stored on each order line
+  lineDiscounts: Map<string, number>;
+}
+
+@Injectable()
+export class PromoCodesService {
+  private readonly logger = new Logger(PromoCodesService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Create a promo code for an event
+   * Only organizers can create codes for their events
+   */
+  async createPromoCode(eventId: string, organizerId: string, dto: CreatePromoCodeDto) {
+    const event = await this.getOwnedEvent(eventId, organizerId);
+
+    await this.assertValidRules(event.id, dto);
+
+    const existing = await this.prisma.promoCode.findUnique({
+      where: { eventId_code: { eventId, code: dto.code } },
+    });
+    if (existing) {
+      throw new BadRequestException(`Promo code ${dto.code} already exists for this event`);
+    }
+
+    const promoCode = await this.prisma.promoCode.create({
+      data: {
+        eventId,
+        code: dto.code,
+        discountType: dto.discountType,
+        discountValue: dto.discountValue,
+        tierIds: dto.tierIds || [],
+        maxUses: dto.maxUses ?? null,
+        maxUsesPerBuyer: dto.maxUsesPerBuyer ?? null,
+        minQuantity: dto.minQuantity ?? null,
+        startsAt: dto.startsAt ? new Date(dto.startsAt) : null,
+        endsAt: dto.endsAt ? new Date(dto.endsAt) : null,
+      },
+    });
+
+    this.logger.log(`Created promo code ${promoCode.code} for event ${event.title}`);
+
+    return this.formatPromoCode(promoCode);
+  }
+
+  /**
+   * Get all promo codes for an event, with redemption counts
+   */
+  async getEventPromoCodes(eventId: string, organizerId: string) {
+    await this.getOwnedEvent(eventId, organizerId);
+
+    const promoCodes = await this.prisma.promoCode.findMany({
+      where: { eventId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const redemptions = await this.getRedemptionStats(promoCodes.map((p) => p.id));
+
+    return promoCodes.map((promoCode) => ({
+      ...this.formatPromoCode(promoCode),
+      ...(redemptions.get(promoCode.id) || {
+        redemptions: 0,
+        ticketsDiscounted: 0,
+        totalDiscount: 0,
+      }),
+    }));
+  }
+
+  /**
+   * Update a promo code's rules or switch it on/off
+   */
+  async updatePromoCode(codeId: string, organizerId: string, dto: UpdatePromoCodeDto) {
+    const promoCode = await this.getOwnedPromoCode(codeId, organizerId);
+
+    const merged = {
+      discountType: dto.discountType ?? promoCode.discountType,
+      discountValue:
+        dto.discountValue ??
+        (promoCode.discountValue instanceof Decimal
+          ? promoCode.discountValue.toNumber()
+          : Number(promoCode.discountValue)),
+      tierIds: dto.tierIds ?? promoCode.tierIds,
+      startsAt: dto.startsAt ?? promoCode.startsAt?.toISOString(),
+      endsAt: dto.endsAt ?? promoCode.endsAt?.toISOString(),
+    };
+    await this.assertValidRules(promoCode.eventId, merged);
+
+    if (dto.code && dto.code !== promoCode.code) {
+      const existing = await this.prisma.promoCode.findUnique({
+        where: { eventId_code: { eventId: promoCode.eventId, code: dto.code } },
+      });
+      if (existing) {
+        throw new BadRequestException(`Promo code ${dto.code} already exists for this event`);
+      }
+    }
+
+    const updated = await this.prisma.promoCode.update({
+      where: { id: codeId },
+      data: {
+        ...(dto.code !== undefined && { code: dto.code }),
+        ...(dto.discountType !== undefined && { discountType: dto.discountType }),
+        ...(dto.discountValue !== undefined && { discountValue: dto.discountValue }),
+        ...(dto.tierIds !== undefined && { tierIds: dto.tierIds }),
+        ...(dto.maxUses !== undefined && { maxUses: dto.maxUses }),
+        ...(dto.maxUsesPerBuyer !== undefined && { maxUsesPerBuyer: dto.maxUsesPerBuyer }),
+        ...(dto.minQuantity !== undefined && { minQuantity: dto.minQuantity }),
+        ...(dto.startsAt !== undefined && { startsAt: new Date(dto.startsAt) }),
+        ...(dto.endsAt !== undefined && { endsAt: new Date(dto.endsAt) }),
+        ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      },
+    });
+
+    return this.formatPromoCode(updated);
+  }
+
+  /**
+   * Delete a promo code
+   * Codes that have been used are kept for reporting - deactivate them instead
+   */
+  async deletePromoCode(codeId: string, organizerId: string) {
+    const promoCode = await this.getOwnedPromoCode(codeId, organizerId);
+
+    const redemptionCount = await this.prisma.promoRedemption.count({
+      where: { promoCodeId: promoCode.id, payment: { status: 'SUCCESS' } },
+    });
+    if (redemptionCount > 0) {
+      throw new BadRequestException(
+        'This promo code has already been used. Deactivate it instead of deleting it.',
+      );
+    }
+
+    await this.prisma.promoCode.delete({ where: { id: codeId } });
+
+    return { message: 'Promo code deleted successfully' };
+  }
+
+  /**
+   * Check a code against an order and work out the discount.
+   * Percentage codes take that percent off each eligible ticket; fixed codes take
+   * the amount off each eligible ticket (never below zero). Throws BadRequestException
+   * with a buyer-facing message when the code can't be used.
+   */
+  async applyPromoCode(
+    eventId: string,
+    code: string,
+    lines: DiscountLine[],
+    buyerEmail?: string,
+  ): Promise<AppliedPromoCode> {
+    const normalizedCode = code.toUpperCase().trim();
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { eventId_code: { eventId, code: normalizedCode } },
+    });
+
+    if (!promoCode || !promoCode.isActive) {
+      throw new BadRequestException('Invalid promo code');
+    }
+
+    const now = new Date();
+    if (promoCode.startsAt && promoCode.startsAt > now) {
+      throw new BadRequestException('This promo code is not active yet');
+    }
+    if (promoCode.endsAt && promoCode.endsAt < now) {
+      throw new BadRequestException('This promo code has expired');
+    }
+
+    const eligibleLines = lines.filter(
+      (line) => promoCode.tierIds.length === 0 || promoCode.tierIds.includes(line.tierId),
+    );
+    const discountedQuantity = eligibleLines.reduce((sum, line) => sum + line.quantity, 0);
+
+    if (discountedQuantity === 0) {
+      throw new BadRequestException('This promo code does not apply to the selected tickets');
+    }
+
+    if (promoCode.minQuantity && discountedQuantity < promoCode.minQuantity) {
+      throw new BadRequestException(
+        `This promo code requires at least ${promoCode.minQuantity} eligible tickets`,
+      );
+    }
+
+    if (promoCode.maxUses) {
+      const used = await this.countRedemptions(promoCode.id);
+      if (used >= promoCode.maxUses) {
+        throw new BadRequestException('This promo code has reached its usage limit');
+      }
+    }
+
+    if (promoCode.maxUsesPerBuyer && buyerEmail) {
+      const usedByBuyer = await this.countRedemptions(
+        promoCode.id,
+        buyerEmail.toLowerCase().trim(),
+      );
+      if (usedByBuyer >= promoCode.maxUsesPerBuyer) {
+        throw new BadRequestException('You have already used this promo code');
+      }
+    }
+
+    const discountValue =
+      promoCode.discountValue instanceof Decimal
+        ? promoCode.discountValue.toNumber()
+        : Number(promoCode.discountValue);
+
+    const lineDiscounts = new Map<string, number>();
+    for (const line of eligibleLines) {
+      const unitDiscount =
+        promoCode.discountType === 'PERCENTAGE'
+          ? (line.unitPrice * Math.min(discountValue, 100)) / 100
+          : Math.min(discountValue, line.unitPrice);
+      const lineDiscount = Math.round(unitDiscount * line.quantity * 100) / 100;
+      lineDiscounts.set(line.tierId, (lineDiscounts.get(line.tierId) || 0) + lineDiscount);
+    }
+
+    const discountAmount = Array.from(lineDiscounts.values()).reduce((sum, d) => sum + d, 0);
+
+    return {
+      promoCodeId: promoCode.id,
+      code: promoCode.code,
+      discountAmount,
+      discountedQuantity,
+      lineDiscounts,
+    };
+  }
+
+  /**
+   * Preview a code for the checkout page - same rules as checkout, priced from the
+   * current tier prices
+   */
+  async previewPromoCode(
+    eventId: string,
+    code: string,
+    items: { tierId: string; quantity: number }[],
+    email?: string,
+  ) {
+    const tiers = await this.prisma.ticketTier.findMany({
+      where: { eventId, id: { in: items.map((item) => item.tierId) } },
+    });
+
+    const lines = items.map((item) => {
+      const tier = tiers.find((t) => t.id === item.tierId);
+      if (!tier) {
+        throw new NotFoundException('Ticket tier not found');
+      }
+      return {
+        tierId: tier.id,
+        quantity: item.quantity,
+        unitPrice: getCurrentTierPrice(tier).price,
+      };
+    });
+
+    const applied = await this.applyPromoCode(eventId, code, lines, email);
+    const subtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+    return {
+      valid: true,
+      code: applied.code,
+      discountAmount: applied.discountAmount,
+      discountedQuantity: applied.discountedQuantity,
+      subtotal,
+      discountedSubtotal: subtotal - applied.discountAmount,
+    };
+  }
+
+  /**
+   * Redemptions, discounted tickets and total discount per code, counting only
+   * payments that went through. Used by the promo code list and event analytics.
+   */
+  async getRedemptionStats(promoCodeIds: string[]) {
+    const stats = new Map<
+      string,
+      { redemptions: number; ticketsDiscounted: number; totalDiscount: number }
+    >();
+    if (promoCodeIds.length === 0) return stats;
+
+    const grouped = await this.prisma.promoRedemption.groupBy({
+      by: ['promoCodeId'],
+      where: { promoCodeId: { in: promoCodeIds }, payment: { status: 'SUCCESS' } },
+      _count: { _all: true },
+      _sum: { quantity: true, discountAmount: true },
+    });
+
+    for (const row of grouped) {
+      const totalDiscount = row._sum.discountAmount
+        ? row._sum.discountAmount instanceof Decimal
+          ? row._sum.discountAmount.toNumber()
+          : Number(row._sum.discountAmount)
+        : 0;
+      stats.set(row.promoCodeId, {
+        redemptions: row._count._all,
+        ticketsDiscounted: row._sum.quantity || 0,
+        totalDiscount,
+      });
+    }
+
+    return stats;
+  }
+
+  /**
+   * Re-check a redemption's usage limits inside the transaction that holds the order's
+   * seats. The code's row is locked first, so concurrent checkouts take turns and each
+   * one counts the holds of those before it - two buyers can't both claim the last use.
+   * Call it before the order's own seats are held.
+   */
+  async assertUsesAvailable(tx: any, redemption: { promoCodeId: string; buyerEmail: string }) {
+    const [promoCode] = await tx.$queryRaw`
+      SELECT "maxUses", "maxUsesPerBuyer" FROM "PromoCode"
+      WHERE "id" = ${redemption.promoCodeId}
+      FOR UPDATE
+    `;
+    if (!promoCode) return;
+
+    if (promoCode.maxUses) {
+      const used = await this.countRedemptions(redemption.promoCodeId, undefined, tx);
+      if (used >= promoCode.maxUses) {
+        throw new BadRequestException('This promo code has reached its usage limit');
+      }
+    }
+
+    if (promoCode.maxUsesPerBuyer) {
+      const usedByBuyer = await this.countRedemptions(
+        redemption.promoCodeId,
+        redemption.buyerEmail,
+        tx,
+      );
+      if (usedByBuyer >= promoCode.maxUsesPerBuyer) {
+        throw new BadRequestException('You have already used this promo code');
+      }
+    }
+  }
+
+  /**
+   * Uses that count towards limits: paid orders, plus orders still in checkout
+   * with seats held
+   */
+  private countRedemptions(promoCodeId: string, buyerEmail?: string, db: any = this.prisma) {
+    return db.promoRedemption.count({
+      where: {
+        promoCodeId,
+        ...(buyerEmail && { buyerEmail }),
+        OR: [
+          { payment: { status: 'SUCCESS' } },
+          { payment: { status: 'PENDING', holds: { some: { status: 'ACTIVE' } } } },
+        ],
+      },
+    });
+  }
+
+  private async assertValidRules(
+    eventId: string,
+    rules: {
+      discountType?: string;
+      discountValue?: number;
+      tierIds?: string[];
+      startsAt?: string;
+      endsAt?: string;
+    },
+  ) {
+    if (rules.discountType === 'PERCENTAGE' && (rules.discountValue || 0) > 100) {
+      throw new BadRequestException('Percentage discount cannot be more than 100%');
+    }
+
+    if (rules.startsAt && rules.endsAt && new Date(rules.startsAt) >= new Date(rules.endsAt)) {
+      throw new BadRequestException('Promo code end date must be after its start date');
+    }
+
+    if (rules.tierIds && rules.tierIds.length > 0) {
+      const tierCount = await this.prisma.ticketTier.count({
+        where: { eventId, id: { in: rules.tierIds } },
+      });
+      if (tierCount !== new Set(rules.tierIds).size) {
+        throw new BadRequestException('Promo codes can only apply to tiers of this event');
+      }
+    }
+  }
+
+  private async getOwnedEvent(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, organizerId: true, title: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage promo codes for your own events');
+    }
+
+    return event;
+  }
+
+  private async getOwnedPromoCode(codeId: string, organizerId: string) {
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { id: codeId },
+      include: { event: { select: { organizerId: true } } },
+    });
+
+    if (!promoCode) {
+      throw new NotFoundException('Promo code not found');
+    }
+
+    if (promoCode.event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage promo codes for your own events');
+    }
+
+    return promoCode;
+  }
+
+  private formatPromoCode(promoCode: any) {
+    return {
+      ...promoCode,
+      discountValue:
+        promoCode.discountValue instanceof Decimal
+          ? promoCode.discountValue.toNumber()
+          : Number(promoCode.discountValue),
+    };
+  }
+}
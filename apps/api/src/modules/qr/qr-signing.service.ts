@@ -0,0 +1,274 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../../database/prisma.service';
+import * as crypto from 'crypto';
+
+/** Prefix (and format version) of a signed ticket QR payload */
+export const SIGNED_QR_PREFIX = 'HD1';
+
+/**
+ * Longest QR payload scanners accept. Signed payloads run to roughly 250 characters,
+ * legacy codes and typed-in ticket numbers are far shorter.
+ */
+export const MAX_QR_CODE_LENGTH = 512;
+
+/** Claims carried in a signed ticket QR payload */
+export interface SignedTicketClaims {
+  kid: string; // Signing key id
+  ticketNumber: string;
+  eventId: string;
+  tierId: string;
+  issuedAt: Date;
+}
+
+export type QrSignatureCheck =
+  | { status: 'valid'; claims: SignedTicketClaims }
+  | { status: 'invalid'; message: string }
+  | { status: 'unsigned' }; // Legacy code or a typed-in ticket number
+
+interface TicketToSign {
+  ticketNumber: string;
+  eventId: string;
+  tierId: string;
+}
+
+/**
+ * Signs ticket QR codes with per-event Ed25519 keys and verifies them.
+ *
+ * A signed payload is `HD1.<base64url JSON claims>.<base64url signature>`, where the
+ * signature covers `HD1.<claims>`. Public keys are handed to scanners (agent devices)
+ * so they can reject forged codes without a network round trip; the server still
+ * reconciles every scan with the database before checking a ticket in.
+ */
+@Injectable()
+export class QrSigningService {
+  private readonly logger = new Logger(QrSigningService.name);
+
+  // Public keys never change once created, so they can be cached for the process lifetime
+  private readonly publicKeyCache = new Map<string, { eventId: string; key: crypto.KeyObject }>();
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Produce the signed QR payload for a ticket using the event's current key.
+   */
+  async signTicket(ticket: TicketToSign): Promise<string> {
+    const signingKey = await this.getActiveKey(ticket.eventId);
+    if (!signingKey.privateKey) {
+      throw new Error(`Signing key ${signingKey.kid} has no private key`);
+    }
+
+    const claims = {
+      k: signingKey.kid,
+      t: ticket.ticketNumber,
+      e: ticket.eventId,
+      r: ticket.tierId,
+      i: Math.floor(Date.now() / 1000),
+    };
+    const signedPart = `${SIGNED_QR_PREFIX}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+
+    const privateKey = crypto.createPrivateKey({
+      key: this.decryptPrivateKey(signingKey.privateKey),
+      format: 'der',
+      type: 'pkcs8',
+    });
+    const signature = crypto.sign(null, Buffer.from(signedPart), privateKey);
+
+    return `${signedPart}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Check the signature of a scanned code. Codes that aren't in the signed format
+   * are reported as unsigned so callers can fall back to a plain database lookup.
+   */
+  async verify(code: string): Promise<QrSignatureCheck> {
+    if (!code.startsWith(`${SIGNED_QR_PREFIX}.`)) {
+      return { status: 'unsigned' };
+    }
+
+    const parts = code.split('.');
+    if (parts.length !== 3) {
+      return { status: 'invalid', message: 'Malformed ticket QR code' };
+    }
+
+    let claims: { k?: unknown; t?: unknown; e?: unknown; r?: unknown; i?: unknown };
+    try {
+      claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    } catch {
+      return { status: 'invalid', message: 'Malformed ticket QR code' };
+    }
+
+    if (
+      typeof claims.k !== 'string' ||
+      typeof claims.t !== 'string' ||
+      typeof claims.e !== 'string' ||
+      typeof claims.r !== 'string' ||
+      typeof claims.i !== 'number'
+    ) {
+      return { status: 'invalid', message: 'Malformed ticket QR code' };
+    }
+
+    const publicKey = await this.getPublicKey(claims.k);
+    // The key must belong to the event the ticket claims to be for
+    if (!publicKey || publicKey.eventId !== claims.e) {
+      return { status: 'invalid', message: 'Ticket QR code was not signed by this platform' };
+    }
+
+    const signatureValid = crypto.verify(
+      null,
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      publicKey.key,
+      Buffer.from(parts[2], 'base64url'),
+    );
+    if (!signatureValid) {
+      return { status: 'invalid', message: 'Ticket QR code signature is invalid' };
+    }
+
+    return {
+      status: 'valid',
+      claims: {
+        kid: claims.k,
+        ticketNumber: claims.t,
+        eventId: claims.e,
+        tierId: claims.r,
+        issuedAt: new Date(claims.i * 1000),
+      },
+    };
+  }
+
+  /**
+   * Public keys scanners need to verify an event's tickets: the current key and
+   * every retired one, since tickets signed before a rotation stay valid.
+   */
+  async getEventPublicKeys(eventId: string) {
+    return this.prisma.eventSigningKey.findMany({
+      where: { eventId },
+      select: { kid: true, generation: true, publicKey: true, retiredAt: true, createdAt: true },
+      orderBy: { generation: 'desc' },
+    });
+  }
+
+  /**
+   * Rotate an event's signing key (organizer only). Tickets issued from now on are
+   * signed with the new key; the old key is retired and its private half destroyed.
+   */
+  async rotateEventKey(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, organizerId: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only rotate signing keys for your own events');
+    }
+
+    const current = await this.prisma.eventSigningKey.findFirst({
+      where: { eventId, retiredAt: null },
+      orderBy: { generation: 'desc' },
+    });
+
+    const newKey = await this.createKey(eventId, (current?.generation ?? 0) + 1);
+
+    await this.prisma.eventSigningKey.updateMany({
+      where: { eventId, generation: { lt: newKey.generation }, retiredAt: null },
+      data: { retiredAt: new Date(), privateKey: null },
+    });
+
+    this.logger.log(`Rotated signing key for event ${eventId} to generation ${newKey.generation}`);
+
+    return this.getEventPublicKeys(eventId);
+  }
+
+  /**
+   * Current signing key for an event, created on first use. Concurrent first
+   * tickets race on the (eventId, generation) unique index, so the loser re-reads.
+   */
+  private async getActiveKey(eventId: string) {
+    const existing = await this.prisma.eventSigningKey.findFirst({
+      where: { eventId, retiredAt: null },
+      orderBy: { generation: 'desc' },
+    });
+    if (existing) return existing;
+
+    try {
+      return await this.createKey(eventId, 1);
+    } catch (error) {
+      if (error.code !== 'P2002') throw error;
+      return this.prisma.eventSigningKey.findFirstOrThrow({
+        where: { eventId, retiredAt: null },
+        orderBy: { generation: 'desc' },
+      });
+    }
+  }
+
+  private async createKey(eventId: string, generation: number) {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+
+    return this.prisma.eventSigningKey.create({
+      data: {
+        eventId,
+        generation,
+        kid: crypto.randomBytes(6).toString('base64url'),
+        // The JWK "x" member is the raw public key, which WebCrypto can import directly
+        publicKey: publicKey.export({ format: 'jwk' }).x as string,
+        privateKey: this.encryptPrivateKey(privateKey.export({ format: 'der', type: 'pkcs8' })),
+      },
+    });
+  }
+
+  private async getPublicKey(kid: string) {
+    const cached = this.publicKeyCache.get(kid);
+    if (cached) return cached;
+
+    const signingKey = await this.prisma.eventSigningKey.findUnique({
+      where: { kid },
+      select: { eventId: true, publicKey: true },
+    });
+    if (!signingKey) return null;
+
+    const entry = {
+      eventId: signingKey.eventId,
+      key: crypto.createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: signingKey.publicKey },
+        format: 'jwk',
+      }),
+    };
+    this.publicKeyCache.set(kid, entry);
+    return entry;
+  }
+
+  private encryptionKey(): Buffer {
+    const secret = this.configService.get<string>('qrSigningSecret');
+    // Never fall back to a known key - anyone holding it could decrypt the signing keys
+    if (!secret) {
+      throw new Error('QR_SIGNING_SECRET is not configured');
+    }
+    return crypto.createHash('sha256').update(secret).digest();
+  }
+
+  // Stored as iv.authTag.ciphertext, each base64url encoded
+  private encryptPrivateKey(der: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(der), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  private decryptPrivateKey(stored: string): Buffer {
+    const [iv, authTag, ciphertext] = stored
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+}
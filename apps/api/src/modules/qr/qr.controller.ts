@@ -1,18 +1,47 @@
-import { Controller, Post, Body, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
 import { QrService } from './qr.service';
+import { QrSigningService } from './qr-signing.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserRole } from '../../common/types/prisma-enums';
 
 @ApiTags('QR')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth('JWT-auth')
 @Controller('qr')
 export class QrController {
-  constructor(private readonly qrService: QrService) {}
+  constructor(
+    private readonly qrService: QrService,
+    private readonly qrSigningService: QrSigningService,
+  ) {}
 
   @Post('verify')
   @ApiOperation({ summary: 'Verify QR code' })
   async verify(@Body('code') code: string) {
     return this.qrService.verifyQrCode(code);
   }
+
+  @Get('events/:eventId/keys')
+  @Public()
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @ApiOperation({ summary: 'Get the public keys that verify an event ticket QR codes' })
+  async getEventKeys(@Param('eventId') eventId: string) {
+    return this.qrSigningService.getEventPublicKeys(eventId);
+  }
+
+  @Post('events/:eventId/keys/rotate')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiOperation({ summary: 'Rotate the key that signs an event ticket QR codes (Organizer)' })
+  async rotateEventKey(
+    @Param('eventId') eventId: string,
+    @CurrentUser('organizerProfile') profile: any,
+  ) {
+    return this.qrSigningService.rotateEventKey(eventId, profile?.id);
+  }
 }
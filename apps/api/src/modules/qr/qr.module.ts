@@ -1,12 +1,13 @@
 import { Module } from '@nestjs/common';
 import { QrController } from './qr.controller';
 import { QrService } from './qr.service';
+import { QrSigningService } from './qr-signing.service';
 import { MediaModule } from '../media/media.module';
 
 @Module({
   imports: [MediaModule],
   controllers: [QrController],
-  providers: [QrService],
-  exports: [QrService],
+  providers: [QrService, QrSigningService],
+  exports: [QrService, QrSigningService],
 })
 export class QrModule {}
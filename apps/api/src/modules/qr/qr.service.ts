@@ -1,16 +1,25 @@
 import { Injectable } from '@nestjs/common';
 import * as QRCode from 'qrcode';
-import { v4 as uuidv4 } from 'uuid';
 import { MediaService } from '../media/media.service';
+import { QrSigningService, QrSignatureCheck } from './qr-signing.service';
 
 @Injectable()
 export class QrService {
-  constructor(private mediaService: MediaService) {}
+  constructor(
+    private mediaService: MediaService,
+    private qrSigningService: QrSigningService,
+  ) {}
 
-  async generateQrCode(
-    ticketNumber: string,
-  ): Promise<{ code: string; url: string; hostedUrl: string }> {
-    const code = `${ticketNumber}-${uuidv4().slice(0, 8)}`;
+  /**
+   * Generate a ticket's QR code. The encoded value is a payload signed with the
+   * event's current key, so scanners can verify it without a database lookup.
+   */
+  async generateQrCode(ticket: {
+    ticketNumber: string;
+    eventId: string;
+    tierId: string;
+  }): Promise<{ code: string; url: string; hostedUrl: string }> {
+    const code = await this.qrSigningService.signTicket(ticket);
     const dataUrl = await QRCode.toDataURL(code, {
       errorCorrectionLevel: 'H',
       width: 300,
@@ -23,10 +32,44 @@ export class QrService {
     return { code, url: dataUrl, hostedUrl };
   }
 
-  async verifyQrCode(code: string): Promise<{ valid: boolean; ticketNumber?: string }> {
+  /**
+   * Delete the hosted image of a QR code that has been replaced (e.g. after a
+   * ticket transfer) so the old image link stops working. The code itself is
+   * invalidated by no longer being stored on the ticket.
+   */
+  async revokeQrCode(qrCodeUrl?: string | null): Promise<void> {
+    const publicId = qrCodeUrl ? this.mediaService.getPublicIdFromUrl(qrCodeUrl) : null;
+    if (publicId) {
+      await this.mediaService.deleteImage(publicId);
+    }
+  }
+
+  /**
+   * Check a scanned code's signature. Unsigned codes (issued before QR signing, or a
+   * typed-in ticket number) are reported as such and must be checked against the database.
+   */
+  async checkSignature(code: string): Promise<QrSignatureCheck> {
+    return this.qrSigningService.verify(code);
+  }
+
+  async verifyQrCode(
+    code: string,
+  ): Promise<{ valid: boolean; signed: boolean; ticketNumber?: string; eventId?: string }> {
+    const check = await this.qrSigningService.verify(code);
+    if (check.status === 'valid') {
+      return {
+        valid: true,
+        signed: true,
+        ticketNumber: check.claims.ticketNumber,
+        eventId: check.claims.eventId,
+      };
+    }
+    if (check.status === 'invalid') return { valid: false, signed: true };
+
+    // Legacy format: <ticketNumber>-<random suffix>
     const parts = code.split('-');
-    if (parts.length < 3) return { valid: false };
+    if (parts.length < 3) return { valid: false, signed: false };
     const ticketNumber = parts.slice(0, -1).join('-');
-    return { valid: true, ticketNumber };
+    return { valid: true, signed: false, ticketNumber };
   }
 }
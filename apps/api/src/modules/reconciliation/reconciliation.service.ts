@@ -8,6 +8,7 @@ export interface ReconciliationReport {
   period: { start: Date; end: Date };
   summary: {
     totalTicketSales: number;
+    totalOrders: number;
     totalRefunds: number;
     totalWithdrawals: number;
     platformFees: number;
@@ -20,6 +21,7 @@ export interface ReconciliationReport {
   };
   transactions: {
     ticketSales: any[];
+    orders: any[];
     refunds: any[];
     withdrawals: any[];
   };
@@ -71,7 +73,9 @@ export class ReconciliationService {
       include: {
         event: { select: { id: true, title: true } },
         tier: { select: { name: true, price: true } },
-        payment: { select: { reference: true, status: true, amount: true } },
+        payment: {
+          select: { reference: true, status: true, amount: true, quantity: true, orderId: true },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -81,7 +85,8 @@ export class ReconciliationService {
       where: {
         ticket: { event: { organizerId } },
         createdAt: { gte: start, lte: end },
-        status: 'PROCESSED',
+        // Refunds still waiting on the gateway have already come off the balance
+        status: { in: ['PROCESSING', 'PROCESSED'] },
       },
       include: {
         ticket: {
@@ -125,6 +130,32 @@ export class ReconciliationService {
       return sum + amount;
     }, 0);
 
+    // Group tickets into orders - one payment can carry several tickets across tiers
+    const ordersByPayment = new Map<string, any>();
+    for (const ticket of ticketSales) {
+      const key = ticket.payment?.reference || ticket.paymentRef || ticket.id;
+      const amount =
+        ticket.amountPaid instanceof Decimal
+          ? ticket.amountPaid.toNumber()
+          : Number(ticket.amountPaid) || 0;
+      const order = ordersByPayment.get(key) || {
+        paymentRef: ticket.payment?.reference,
+        orderId: ticket.payment?.orderId || null,
+        eventTitle: ticket.event.title,
+        ticketCount: 0,
+        tiers: [] as string[],
+        amount: 0,
+        createdAt: ticket.createdAt,
+      };
+      order.ticketCount += 1;
+      order.amount += amount;
+      if (!order.tiers.includes(ticket.tier.name)) {
+        order.tiers.push(ticket.tier.name);
+      }
+      ordersByPayment.set(key, order);
+    }
+    const orders = Array.from(ordersByPayment.values());
+
     // Estimate platform fees (5% of ticket sales)
     const platformFeePercent = 5;
     const platformFees = totalTicketSales * (platformFeePercent / 100);
@@ -158,6 +189,7 @@ export class ReconciliationService {
       period: { start, end },
       summary: {
         totalTicketSales,
+        totalOrders: orders.length,
         totalRefunds,
         totalWithdrawals,
         platformFees,
@@ -178,6 +210,7 @@ export class ReconciliationService {
           createdAt: t.createdAt,
           paymentRef: t.payment?.reference,
         })),
+        orders,
         refunds: refunds.map((r) => ({
           id: r.id,
           eventTitle: r.ticket.event.title,
@@ -242,15 +275,28 @@ export class ReconciliationService {
       });
 
       const ticketSalesTotal =
-        ledgerTotals.find((l) => l.type === 'TICKET_SALE')?._sum?.amount || 0;
+        Number(ledgerTotals.find((l) => l.type === 'TICKET_SALE')?._sum?.amount || 0) +
+        Number(ledgerTotals.find((l) => l.type === 'RESALE_ROYALTY')?._sum?.amount || 0);
       const refundsTotal = Math.abs(
         Number(ledgerTotals.find((l) => l.type === 'REFUND')?._sum?.amount || 0),
       );
       const withdrawalsTotal = Math.abs(
         Number(ledgerTotals.find((l) => l.type === 'WITHDRAWAL')?._sum?.amount || 0),
       );
+      const chargebacksTotal = Math.abs(
+        Number(ledgerTotals.find((l) => l.type === 'CHARGEBACK')?._sum?.amount || 0),
+      );
+      // Signed, e.g. credits giving back failed refunds or won disputes
+      const adjustmentsTotal = Number(
+        ledgerTotals.find((l) => l.type === 'ADJUSTMENT')?._sum?.amount || 0,
+      );
 
-      const expectedBalance = Number(ticketSalesTotal) - refundsTotal - withdrawalsTotal;
+      const expectedBalance =
+        Number(ticketSalesTotal) -
+        refundsTotal -
+        withdrawalsTotal -
+        chargebacksTotal +
+        adjustmentsTotal;
 
       const pendingBalance =
         org.pendingBalance instanceof Decimal
@@ -352,6 +398,7 @@ export class ReconciliationService {
 
       switch (entry.type) {
         case 'TICKET_SALE':
+        case 'RESALE_ROYALTY':
           summary.ticketSales += amount;
           break;
         case 'REFUND':
@@ -1,12 +1,13 @@
 import { Module } from '@nestjs/common';
 import { RefundsController } from './refunds.controller';
 import { RefundsService } from './refunds.service';
-import { PaymentsModule } from '../payments/payments.module';
+import { PaymentProvidersModule } from '../payments/payment-providers.module';
 import { LedgerModule } from '../ledger/ledger.module';
 import { EmailModule } from '../emails/email.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
 
 @Module({
-  imports: [PaymentsModule, LedgerModule, EmailModule],
+  imports: [PaymentProvidersModule, LedgerModule, EmailModule, WaitlistModule],
   controllers: [RefundsController],
   providers: [RefundsService],
   exports: [RefundsService],
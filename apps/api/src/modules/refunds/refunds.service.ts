@@ -3,20 +3,33 @@ import {
   BadRequestException,
   NotFoundException,
   ForbiddenException,
+  Logger,
 } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../../database/prisma.service';
-import { MonnifyService } from '../payments/monnify.service';
+import { PaymentProvidersService } from '../payments/payment-providers.service';
 import { LedgerService } from '../ledger/ledger.service';
 import { EmailService } from '../emails/email.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
 import { Decimal } from '@prisma/client/runtime/library';
+import { PaymentWebhookEvent } from '../payments/payment-provider.interface';
+
+// Give the webhook this long to arrive before asking the gateway
+const REFUND_WEBHOOK_GRACE_MS = 15 * 60 * 1000;
+const REFUND_POLL_INTERVAL_MS = 30 * 60 * 1000;
+
+const toNumber = (value: any) => (value instanceof Decimal ? value.toNumber() : Number(value || 0));
 
 @Injectable()
 export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
   constructor(
     private prisma: PrismaService,
-    private monnifyService: MonnifyService,
+    private paymentProviders: PaymentProvidersService,
     private ledgerService: LedgerService,
     private emailService: EmailService,
+    private waitlistService: WaitlistService,
   ) {}
 
   async requestRefund(ticketId: string, userId: string, reason?: string) {
@@ -26,6 +39,7 @@ export class RefundsService {
         event: { include: { organizer: true } },
         tier: true,
         refund: true,
+        payment: { include: { order: { include: { items: true } } } },
       },
     });
 
@@ -45,21 +59,52 @@ export class RefundsService {
       throw new BadRequestException(`Cannot refund ticket with status: ${ticket.status}`);
     }
 
+    if (ticket.isComp) {
+      throw new BadRequestException('Complimentary tickets cannot be refunded');
+    }
+
+    // Resale money went to the seller, not the organizer, so there is nothing to refund from
+    if (ticket.payment?.resaleListingId) {
+      throw new BadRequestException('Tickets bought on resale cannot be refunded');
+    }
+
     if (!ticket.tier.refundEnabled) {
       throw new BadRequestException('Refunds are not enabled for this ticket tier');
     }
 
+    // The payment belongs to whoever bought the ticket, so a transferred ticket can't be refunded
+    const transfer = await this.prisma.ticketTransfer.findFirst({
+      where: {
+        ticketId,
+        OR: [{ status: 'ACCEPTED' }, { status: 'PENDING', expiresAt: { gt: new Date() } }],
+      },
+    });
+    if (transfer?.status === 'ACCEPTED') {
+      throw new BadRequestException('Transferred tickets cannot be refunded');
+    }
+    if (transfer) {
+      throw new BadRequestException(
+        'Cancel the pending transfer of this ticket before requesting a refund',
+      );
+    }
+
+    const listing = await this.prisma.resaleListing.findFirst({
+      where: { ticketId, status: { in: ['ACTIVE', 'RESERVED'] } },
+    });
+    if (listing) {
+      throw new BadRequestException(
+        'Cancel the resale listing of this ticket before requesting a refund',
+      );
+    }
+
     // Check if event has already started (no refunds after event starts)
     // startDate can be null for drafts, but tickets can only exist for published events with valid dates
     if (ticket.event.startDate && new Date(ticket.event.startDate) <= new Date()) {
       throw new BadRequestException('Cannot request refund after event has started');
     }
 
-    // Get the tier price (the base ticket price, not what buyer paid including service fee)
-    const tierPrice =
-      ticket.tier.price instanceof Decimal
-        ? ticket.tier.price.toNumber()
-        : Number(ticket.tier.price);
+    // Get the tier price the ticket sold at (the base ticket price, not what buyer paid including service fee)
+    const tierPrice = this.getTicketPrice(ticket);
 
     // Check for free tickets - no refund for free tickets
     if (tierPrice === 0) {
@@ -122,9 +167,16 @@ export class RefundsService {
       throw new BadRequestException(`Cannot approve refund with status: ${refund.status}`);
     }
 
-    // Update refund status
-    await this.prisma.refund.update({
-      where: { id: refundId },
+    // A frozen ticket is under a chargeback - the buyer can't be paid back twice
+    if (refund.ticket.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        `Cannot approve refund for a ticket with status: ${refund.ticket.status}`,
+      );
+    }
+
+    // Claim it so a double click can't send the refund twice
+    const claimed = await this.prisma.refund.updateMany({
+      where: { id: refundId, status: 'PENDING' },
       data: {
         status: 'APPROVED',
         processedBy: organizerId,
@@ -132,100 +184,18 @@ export class RefundsService {
       },
     });
 
-    // Process refund via Monnify
-    try {
-      if (refund.ticket.paymentRef) {
-        const refundAmount =
-          refund.refundAmount instanceof Decimal
-            ? refund.refundAmount.toNumber()
-            : Number(refund.refundAmount);
-
-        await this.monnifyService.refundTransaction(refund.ticket.paymentRef, refundAmount);
-      }
-
-      const refundAmount =
-        refund.refundAmount instanceof Decimal
-          ? refund.refundAmount.toNumber()
-          : Number(refund.refundAmount);
-
-      // Apply all internal state changes atomically
-      await this.prisma.$transaction(async (tx: any) => {
-        // Only process if ticket hasn't already been refunded
-        const currentTicket = await tx.ticket.findUnique({
-          where: { id: refund.ticketId },
-          select: { status: true, tierId: true },
-        });
-
-        if (!currentTicket) {
-          throw new Error('Ticket not found');
-        }
-
-        if (currentTicket.status !== 'REFUNDED') {
-          // Update ticket status
-          await tx.ticket.update({
-            where: { id: refund.ticketId },
-            data: { status: 'REFUNDED' },
-          });
-
-          // Return capacity: decrement tier sold count
-          const tier = await tx.ticketTier.findUnique({
-            where: { id: currentTicket.tierId },
-            select: { sold: true },
-          });
-
-          if (tier && tier.sold > 0) {
-            await tx.ticketTier.update({
-              where: { id: currentTicket.tierId },
-              data: { sold: { decrement: 1 } },
-            });
-          }
-
-          // Update organizer balance
-          await tx.organizerProfile.update({
-            where: { id: organizerId },
-            data: {
-              availableBalance: { decrement: refundAmount },
-            },
-          });
-
-          // Update refund status to processed
-          await tx.refund.update({
-            where: { id: refundId },
-            data: { status: 'PROCESSED' },
-          });
-        }
-      });
+    if (claimed.count === 0) {
+      throw new BadRequestException('This refund is already being processed');
+    }
 
-      // Record in ledger (idempotent by ticketId)
-      await this.ledgerService.recordRefund({
-        organizerId,
-        ticketId: refund.ticketId,
-        refundId: refund.id,
-        amount: refundAmount,
-        description: `Refund for ticket #${refund.ticket.ticketNumber}`,
-      });
+    const status = await this.submitRefund(refundId);
 
-      // Send email to buyer
-      await this.emailService.sendRefundEmail(refund.ticket.buyerEmail, {
-        ticketNumber: refund.ticket.ticketNumber,
-        eventTitle: refund.ticket.event.title,
-        refundAmount,
-        status: 'processed',
-      });
-
-      return { message: 'Refund approved and processed successfully' };
-    } catch (error: any) {
-      // Mark refund as failed
-      await this.prisma.refund.update({
-        where: { id: refundId },
-        data: {
-          status: 'PENDING', // Revert to pending so it can be retried
-          rejectionNote: error.message,
-        },
-      });
-
-      throw new BadRequestException(`Failed to process refund: ${error.message}`);
-    }
+    return {
+      message:
+        status === 'PROCESSED'
+          ? 'Refund approved and processed successfully'
+          : 'Refund approved and sent to the payment provider',
+    };
   }
 
   async rejectRefund(refundId: string, organizerId: string, reason: string) {
@@ -279,6 +249,145 @@ export class RefundsService {
     return { message: 'Refund request rejected' };
   }
 
+  /**
+   * Admin retry of a refund the gateway couldn't complete
+   */
+  async retryRefund(refundId: string, adminId: string) {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { ticket: { select: { status: true } } },
+    });
+
+    if (!refund) {
+      throw new NotFoundException('Refund request not found');
+    }
+
+    if (refund.status !== 'FAILED') {
+      throw new BadRequestException(`Cannot retry refund with status: ${refund.status}`);
+    }
+
+    // A failed refund gives the ticket back, so it may have been used since
+    if (refund.ticket.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        `Cannot retry refund for a ticket with status: ${refund.ticket.status}`,
+      );
+    }
+
+    const claimed = await this.prisma.refund.updateMany({
+      where: { id: refundId, status: 'FAILED' },
+      data: { status: 'APPROVED' },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('This refund is already being retried');
+    }
+
+    this.logger.log(`Admin ${adminId} retrying refund ${refundId}`);
+    const status = await this.submitRefund(refundId);
+
+    return {
+      message:
+        status === 'PROCESSED'
+          ? 'Refund processed successfully'
+          : 'Refund sent to the payment provider again',
+    };
+  }
+
+  /**
+   * Handle a refund success webhook from any gateway
+   */
+  async handleRefundSuccess(event: PaymentWebhookEvent) {
+    const refund = await this.findRefundForEvent(event);
+    if (!refund) return;
+
+    if (refund.status !== 'PROCESSING') {
+      this.logger.log(`Refund ${refund.id} is already ${refund.status}`);
+      return;
+    }
+
+    if (!(await this.gatewayConfirms(refund, 'processed'))) return;
+
+    await this.completeRefund(refund.id);
+  }
+
+  /**
+   * Handle a refund failure webhook from any gateway
+   */
+  async handleRefundFailed(event: PaymentWebhookEvent) {
+    const refund = await this.findRefundForEvent(event);
+    if (!refund) return;
+
+    if (refund.status !== 'PROCESSING') {
+      this.logger.log(`Refund ${refund.id} is already ${refund.status}`);
+      return;
+    }
+
+    if (!(await this.gatewayConfirms(refund, 'failed'))) return;
+
+    await this.failRefund(refund.id, event.reason || 'Refund failed at the payment provider');
+  }
+
+  /**
+   * Cron job that asks the gateway about refunds it hasn't confirmed by webhook
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async checkProcessingRefunds() {
+    try {
+      const now = Date.now();
+      const refunds = await this.prisma.refund.findMany({
+        where: {
+          status: 'PROCESSING',
+          providerRefundRef: { not: null },
+          submittedAt: { lt: new Date(now - REFUND_WEBHOOK_GRACE_MS) },
+          OR: [
+            { lastCheckedAt: null },
+            { lastCheckedAt: { lt: new Date(now - REFUND_POLL_INTERVAL_MS) } },
+          ],
+        },
+        include: { ticket: { select: { paymentRef: true } } },
+        orderBy: { submittedAt: 'asc' },
+        take: 50,
+      });
+
+      let settled = 0;
+      for (const refund of refunds) {
+        try {
+          const result = await this.paymentProviders.verifyRefund(
+            refund.ticket.paymentRef || '',
+            refund.providerRefundRef!,
+          );
+
+          await this.prisma.refund.update({
+            where: { id: refund.id },
+            data: { lastCheckedAt: new Date() },
+          });
+
+          if (result.status === 'processed') {
+            await this.completeRefund(refund.id);
+            settled++;
+          } else if (result.status === 'failed') {
+            await this.failRefund(
+              refund.id,
+              result.reason || `Refund ${result.rawStatus.toLowerCase()} at the payment provider`,
+            );
+            settled++;
+          }
+        } catch (error: any) {
+          this.logger.error(`Failed to check refund ${refund.id}: ${error.message}`);
+        }
+      }
+
+      if (refunds.length > 0) {
+        this.logger.log(`Checked ${refunds.length} processing refunds, ${settled} settled`);
+      }
+
+      return { checked: refunds.length, settled };
+    } catch (error: any) {
+      this.logger.error('Error checking processing refunds:', error);
+      return { checked: 0, settled: 0, error: error.message };
+    }
+  }
+
   async getRefundsByOrganizer(organizerId: string) {
     return this.prisma.refund.findMany({
       where: {
@@ -322,4 +431,321 @@ export class RefundsService {
       orderBy: { createdAt: 'desc' },
     });
   }
+
+  /**
+   * Send an approved refund to the gateway the ticket was paid through. The ticket is
+   * cancelled and the organizer debited straight away; the seat is only released once
+   * the gateway confirms. If the gateway turns the refund down here, nothing has
+   * changed yet and the refund is FAILED for an admin to retry.
+   */
+  private async submitRefund(refundId: string): Promise<'PROCESSING' | 'PROCESSED'> {
+    const refund = await this.prisma.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: { ticket: { include: { event: true } } },
+    });
+    const refundAmount = toNumber(refund.refundAmount);
+    const organizerId = refund.ticket.event.organizerId;
+
+    // The ticket may have been frozen by a dispute since the refund was approved
+    if (refund.ticket.status !== 'ACTIVE') {
+      await this.prisma.refund.update({
+        where: { id: refundId },
+        data: {
+          status: 'FAILED',
+          failureReason: `Ticket is ${refund.ticket.status}`,
+          completedAt: new Date(),
+        },
+      });
+
+      throw new BadRequestException(`Cannot refund a ticket with status: ${refund.ticket.status}`);
+    }
+
+    let providerRefundRef: string | null = null;
+    try {
+      if (refund.ticket.paymentRef) {
+        const result = await this.paymentProviders.refundPayment(
+          refund.ticket.paymentRef,
+          refundAmount,
+        );
+        providerRefundRef = result.refundReference;
+      }
+    } catch (error: any) {
+      this.logger.error(`Gateway refused refund ${refundId}: ${error.message}`);
+
+      await this.prisma.refund.update({
+        where: { id: refundId },
+        data: {
+          status: 'FAILED',
+          failureReason: String(error.message || 'Refund failed').substring(0, 500),
+          attempts: { increment: 1 },
+          completedAt: new Date(),
+        },
+      });
+
+      throw new BadRequestException(`Failed to process refund: ${error.message}`);
+    }
+
+    // Apply all internal state changes atomically
+    try {
+      await this.prisma.$transaction(async (tx: any) => {
+        await tx.ticket.update({
+          where: { id: refund.ticketId },
+          data: { status: 'REFUNDED' },
+        });
+
+        await tx.organizerProfile.update({
+          where: { id: organizerId },
+          data: {
+            availableBalance: { decrement: refundAmount },
+          },
+        });
+
+        await tx.refund.update({
+          where: { id: refundId },
+          data: {
+            status: 'PROCESSING',
+            providerRefundRef,
+            submittedAt: new Date(),
+            attempts: { increment: 1 },
+            failureReason: null,
+            completedAt: null,
+            lastCheckedAt: null,
+          },
+        });
+      });
+    } catch (error) {
+      // The gateway already has it, so this needs reconciling by hand
+      this.logger.error(
+        `Refund ${refundId} was sent to the gateway as ${providerRefundRef} but could not be recorded`,
+        error,
+      );
+      throw error;
+    }
+
+    await this.ledgerService.recordRefund({
+      organizerId,
+      ticketId: refund.ticketId,
+      refundId: refund.id,
+      amount: refundAmount,
+      description: `Refund for ticket #${refund.ticket.ticketNumber}`,
+    });
+
+    // Nothing went through a gateway, so there is nothing to wait for
+    if (!providerRefundRef) {
+      await this.completeRefund(refundId);
+      return 'PROCESSED';
+    }
+
+    await this.emailService.sendRefundEmail(refund.ticket.buyerEmail, {
+      ticketNumber: refund.ticket.ticketNumber,
+      eventTitle: refund.ticket.event.title,
+      refundAmount,
+      status: 'approved',
+    });
+
+    return 'PROCESSING';
+  }
+
+  /**
+   * The gateway confirmed the refund: release the seat and let both sides know
+   */
+  private async completeRefund(refundId: string) {
+    const refund = await this.prisma.$transaction(async (tx: any) => {
+      const claimed = await tx.refund.updateMany({
+        where: { id: refundId, status: 'PROCESSING' },
+        data: { status: 'PROCESSED', completedAt: new Date() },
+      });
+      if (claimed.count === 0) return null;
+
+      const current = await tx.refund.findUnique({
+        where: { id: refundId },
+        include: { ticket: { include: { tier: true } } },
+      });
+
+      // Return capacity: decrement tier sold count
+      if (current.ticket.tier.sold > 0) {
+        await tx.ticketTier.update({
+          where: { id: current.ticket.tierId },
+          data: { sold: { decrement: 1 } },
+        });
+      }
+
+      return current;
+    });
+
+    if (!refund) return;
+
+    this.logger.log(`Refund ${refundId} confirmed by the gateway`);
+    await this.notifyRefundOutcome(refundId, 'processed');
+
+    // The returned seat goes to the next person on the tier's waitlist
+    try {
+      await this.waitlistService.offerReleasedSeats(refund.ticket.tierId);
+    } catch (error) {
+      this.logger.error(`Failed to offer refunded seat for refund ${refundId}`, error);
+    }
+  }
+
+  /**
+   * The gateway couldn't refund: give the buyer their ticket back, credit the organizer
+   * what was debited and leave the refund FAILED for an admin to retry
+   */
+  private async failRefund(refundId: string, reason: string) {
+    const refund = await this.prisma.$transaction(async (tx: any) => {
+      const claimed = await tx.refund.updateMany({
+        where: { id: refundId, status: 'PROCESSING' },
+        data: {
+          status: 'FAILED',
+          failureReason: reason.substring(0, 500),
+          completedAt: new Date(),
+        },
+      });
+      if (claimed.count === 0) return null;
+
+      const current = await tx.refund.findUnique({
+        where: { id: refundId },
+        include: { ticket: { include: { event: true } } },
+      });
+
+      await tx.ticket.updateMany({
+        where: { id: current.ticketId, status: 'REFUNDED' },
+        data: { status: 'ACTIVE' },
+      });
+
+      await tx.organizerProfile.update({
+        where: { id: current.ticket.event.organizerId },
+        data: {
+          availableBalance: { increment: current.refundAmount },
+        },
+      });
+
+      return current;
+    });
+
+    if (!refund) return;
+
+    this.logger.warn(`Refund ${refundId} failed at the gateway: ${reason}`);
+
+    await this.ledgerService.recordRefundReversal({
+      organizerId: refund.ticket.event.organizerId,
+      ticketId: refund.ticketId,
+      refundId,
+      amount: toNumber(refund.refundAmount),
+      description: `Failed refund for ticket #${refund.ticket.ticketNumber}`,
+    });
+
+    await this.notifyRefundOutcome(refundId, 'failed', reason);
+  }
+
+  private async notifyRefundOutcome(
+    refundId: string,
+    status: 'processed' | 'failed',
+    reason?: string,
+  ) {
+    const refund = await this.prisma.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: {
+        ticket: { include: { event: { include: { organizer: { include: { user: true } } } } } },
+      },
+    });
+    const { ticket } = refund;
+    const details = {
+      ticketNumber: ticket.ticketNumber,
+      eventTitle: ticket.event.title,
+      refundAmount: toNumber(refund.refundAmount),
+    };
+
+    try {
+      await this.emailService.sendRefundEmail(ticket.buyerEmail, { ...details, status });
+      await this.emailService.sendOrganizerRefundEmail(ticket.event.organizer.user.email, {
+        ...details,
+        status,
+        reason,
+        organizerName: ticket.event.organizer.title,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to send refund ${status} emails for refund ${refundId}`, error);
+    }
+  }
+
+  /**
+   * A webhook only reports an outcome - ask the gateway before acting on it, as
+   * checkProcessingRefunds does. Anything still pending is left for that job.
+   */
+  private async gatewayConfirms(refund: any, expected: 'processed' | 'failed') {
+    if (!refund.providerRefundRef) return true;
+
+    const result = await this.paymentProviders.verifyRefund(
+      refund.ticket.paymentRef || '',
+      refund.providerRefundRef,
+    );
+
+    await this.prisma.refund.update({
+      where: { id: refund.id },
+      data: { lastCheckedAt: new Date() },
+    });
+
+    if (result.status !== expected) {
+      this.logger.warn(
+        `Refund ${refund.id} webhook says ${expected} but the gateway says ${result.rawStatus}`,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Find the refund a webhook is about. Paystack doesn't always send back the refund id
+   * it gave us, so fall back to the one refund of that amount in flight on the
+   * transaction.
+   */
+  private async findRefundForEvent(event: PaymentWebhookEvent) {
+    if (event.refundReference) {
+      const refund = await this.prisma.refund.findFirst({
+        where: { providerRefundRef: event.refundReference },
+        include: { ticket: { select: { paymentRef: true } } },
+      });
+      if (refund) return refund;
+    }
+
+    if (event.transactionReference) {
+      const refunds = await this.prisma.refund.findMany({
+        where: {
+          status: 'PROCESSING',
+          ticket: { payment: { providerTransactionRef: event.transactionReference } },
+          ...(event.amount !== undefined && { refundAmount: event.amount }),
+        },
+        include: { ticket: { select: { paymentRef: true } } },
+        take: 2,
+      });
+      if (refunds.length === 1) return refunds[0];
+    }
+
+    // Resale payouts are refunds too, but have no refund record. A refund whose webhook
+    // can't be matched is picked up by checkProcessingRefunds instead.
+    this.logger.warn(
+      `No refund found for ${event.rawType} ${event.refundReference || event.transactionReference}`,
+    );
+    return null;
+  }
+
+  /**
+   * What the ticket sold for before fees: its order line's unit price less its
+   * share of any promo discount. Price phases move the tier price over time, so
+   * the tier's own price is only used for payments made before prices were stored.
+   */
+  private getTicketPrice(ticket: any): number {
+    const payment = ticket.payment;
+
+    const item = payment?.order?.items.find((i: any) => i.tierId === ticket.tierId);
+    if (item) {
+      return toNumber(item.unitPrice) - toNumber(item.discount) / item.quantity;
+    }
+    if (payment && payment.unitPrice !== null) {
+      const perTicketDiscount = toNumber(payment.discountAmount) / (payment.quantity || 1);
+      return toNumber(payment.unitPrice) - perTicketDiscount;
+    }
+    return toNumber(ticket.tier.price);
+  }
 }
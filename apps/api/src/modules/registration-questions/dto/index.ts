@@ -0,0 +1,92 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsBoolean,
+  IsArray,
+  IsIn,
+  IsInt,
+  ArrayMaxSize,
+  Length,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { QuestionType } from '../../../common/types/prisma-enums';
+
+export class RegistrationQuestionDto {
+  // Optional on create, set to keep an existing question (and its answers) on update
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  id?: string;
+
+  @ApiProperty({ description: 'The question, e.g. "Company" or "T-shirt size"' })
+  @IsString()
+  @IsNotEmpty({ message: 'Question text is required' })
+  @Transform(({ value }) => value?.trim())
+  @Length(1, 200)
+  label: string;
+
+  @ApiProperty({ enum: QuestionType })
+  @IsIn(Object.values(QuestionType))
+  type: QuestionType;
+
+  @ApiPropertyOptional({
+    description: 'Choices for select questions. T-shirt size and dietary questions have defaults',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Ask for every ticket rather than once per order',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  perTicket?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Names of the tiers whose buyers are asked (tiers may not have IDs yet in the event form). Empty means every tier',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tierNames?: string[];
+}
+
+export class RegistrationAnswerDto {
+  @ApiProperty()
+  @IsString()
+  questionId: string;
+
+  @ApiPropertyOptional({ description: 'Per-ticket questions: the tier of the ticket answered for' })
+  @IsOptional()
+  @IsString()
+  tierId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Per-ticket questions: which ticket of the tier, counting from 0',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  ticketIndex?: number;
+
+  @ApiProperty({ description: 'The answer - several values for multi-select questions' })
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  values: string[];
+}
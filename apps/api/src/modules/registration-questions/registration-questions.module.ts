@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { RegistrationQuestionsService } from './registration-questions.service';
+import { PrismaModule } from '../../database/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [RegistrationQuestionsService],
+  exports: [RegistrationQuestionsService],
+})
+export class RegistrationQuestionsModule {}
@@ -0,0 +1,313 @@
+import { Injectable, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { QuestionType } from '../../common/types/prisma-enums';
+import { RegistrationAnswerDto, RegistrationQuestionDto } from './dto';
+
+// Filled in when an organizer adds one of these questions without listing choices
+const DEFAULT_OPTIONS: Partial<Record<QuestionType, string[]>> = {
+  [QuestionType.TSHIRT_SIZE]: ['XS', 'S', 'M', 'L', 'XL', 'XXL'],
+  [QuestionType.DIETARY]: [
+    'Vegetarian',
+    'Vegan',
+    'Halal',
+    'Kosher',
+    'Gluten-free',
+    'Dairy-free',
+    'Nut allergy',
+  ],
+};
+
+const MULTI_VALUE_TYPES: string[] = [QuestionType.MULTI_SELECT, QuestionType.DIETARY];
+const MAX_TEXT_ANSWER_LENGTH = 500;
+
+/** An event's questions with the tiers they're asked for, in the order buyers see them */
+export const EVENT_QUESTIONS_INCLUDE = {
+  include: { tiers: { select: { id: true, name: true } } },
+  orderBy: { sortOrder: 'asc' },
+} as const;
+
+/** A ticket's answers with their question, in question order */
+export const TICKET_ANSWERS_SELECT = {
+  select: { values: true, question: { select: { id: true, label: true } } },
+  orderBy: { question: { sortOrder: 'asc' } },
+} as const;
+
+/** An answer given at checkout, kept on the payment until its tickets are issued */
+export interface CheckoutAnswer {
+  questionId: string;
+  tierId?: string; // Per-ticket questions only
+  ticketIndex?: number; // Per-ticket questions only
+  values: string[];
+}
+
+/**
+ * Answers as shown on a ticket: the question and the answer, several choices joined
+ */
+export function formatTicketAnswers(
+  answers: { values: string[]; question: { id: string; label: string } }[],
+) {
+  return answers.map((answer) => ({
+    questionId: answer.question.id,
+    question: answer.question.label,
+    answer: answer.values.join(', '),
+  }));
+}
+
+/**
+ * Custom questions buyers answer at checkout. Organizers set them up in the event form,
+ * for every tier or only some, once per order or for every ticket. Answers are checked
+ * when the payment is initialized and copied onto the tickets once they're issued.
+ */
+@Injectable()
+export class RegistrationQuestionsService {
+  private readonly logger = new Logger(RegistrationQuestionsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Check questions from the event form before anything is saved. tierNames are the
+   * names the event's tiers will have once the form is saved.
+   */
+  async assertValidQuestions(
+    eventId: string | null,
+    questions: RegistrationQuestionDto[],
+    tierNames: string[],
+  ) {
+    for (const question of questions) {
+      if (this.isSelect(question.type) && this.getOptions(question).length === 0) {
+        throw new BadRequestException(`Add at least one choice to "${question.label}"`);
+      }
+
+      const unknownTier = (question.tierNames || []).find((name) => !tierNames.includes(name));
+      if (unknownTier) {
+        throw new BadRequestException(
+          `"${question.label}" is asked for ${unknownTier}, which isn't a tier of this event`,
+        );
+      }
+    }
+
+    if (!eventId) return;
+
+    const existing = await this.prisma.registrationQuestion.findMany({
+      where: { eventId },
+      select: { id: true, label: true, _count: { select: { answers: true } } },
+    });
+
+    const keptIds = questions.map((question) => question.id).filter(Boolean);
+    if (keptIds.some((id) => !existing.some((question) => question.id === id))) {
+      throw new BadRequestException('Question not found for this event');
+    }
+
+    // Like tiers with sales, questions buyers have answered stay
+    const answered = existing.filter(
+      (question) => !keptIds.includes(question.id) && question._count.answers > 0,
+    );
+    if (answered.length > 0) {
+      throw new ForbiddenException(
+        `Cannot remove questions buyers have already answered: ${answered
+          .map((question) => question.label)
+          .join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Save the event form's questions, in the order given, once its tiers are saved.
+   * Questions left out are removed.
+   */
+  async syncEventQuestions(eventId: string, questions: RegistrationQuestionDto[]) {
+    const tiers = await this.prisma.ticketTier.findMany({
+      where: { eventId },
+      select: { id: true, name: true },
+    });
+    const tierIdsFor = (question: RegistrationQuestionDto) =>
+      tiers
+        .filter((tier) => (question.tierNames || []).includes(tier.name))
+        .map((tier) => ({ id: tier.id }));
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.registrationQuestion.deleteMany({
+        where: {
+          eventId,
+          id: { notIn: questions.map((question) => question.id).filter(Boolean) as string[] },
+        },
+      });
+
+      for (const [sortOrder, question] of questions.entries()) {
+        const data = {
+          label: question.label,
+          type: question.type,
+          options: this.getOptions(question),
+          required: !!question.required,
+          perTicket: !!question.perTicket,
+          sortOrder,
+        };
+
+        if (question.id) {
+          await tx.registrationQuestion.update({
+            where: { id: question.id },
+            data: { ...data, tiers: { set: tierIdsFor(question) } },
+          });
+        } else {
+          await tx.registrationQuestion.create({
+            data: { ...data, eventId, tiers: { connect: tierIdsFor(question) } },
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Check a buyer's answers against the questions asked for what they're buying, and
+   * return them ready to keep with the payment. Throws with a buyer-facing message if a
+   * required question is unanswered or an answer isn't one of the choices.
+   */
+  async collectCheckoutAnswers(
+    eventId: string,
+    lines: { tierId: string; quantity: number }[],
+    answers: RegistrationAnswerDto[] = [],
+  ): Promise<CheckoutAnswer[]> {
+    const questions = await this.prisma.registrationQuestion.findMany({
+      where: { eventId },
+      ...EVENT_QUESTIONS_INCLUDE,
+    });
+
+    // The answers endpoint body isn't always validated, so don't trust its shape
+    const given = Array.isArray(answers) ? answers.filter((answer) => answer?.questionId) : [];
+    const collected: CheckoutAnswer[] = [];
+
+    for (const question of questions) {
+      const askedLines = lines.filter(
+        (line) =>
+          question.tiers.length === 0 || question.tiers.some((tier) => tier.id === line.tierId),
+      );
+      if (askedLines.length === 0) continue;
+
+      if (!question.perTicket) {
+        const answer = given.find((a) => a.questionId === question.id && a.tierId === undefined);
+        const values = this.checkAnswer(question, answer?.values, question.label);
+        if (values.length > 0) {
+          collected.push({ questionId: question.id, values });
+        }
+        continue;
+      }
+
+      for (const line of askedLines) {
+        const tierName = question.tiers.find((tier) => tier.id === line.tierId)?.name;
+        for (let ticketIndex = 0; ticketIndex < line.quantity; ticketIndex++) {
+          const answer = given.find(
+            (a) =>
+              a.questionId === question.id &&
+              a.tierId === line.tierId &&
+              Number(a.ticketIndex) === ticketIndex,
+          );
+          const ticketLabel = `${question.label} (${tierName ? `${tierName} ` : ''}ticket ${ticketIndex + 1})`;
+          const values = this.checkAnswer(question, answer?.values, ticketLabel);
+          if (values.length > 0) {
+            collected.push({ questionId: question.id, tierId: line.tierId, ticketIndex, values });
+          }
+        }
+      }
+    }
+
+    return collected;
+  }
+
+  /**
+   * Copy the answers kept with a payment onto its tickets. Per-order answers go on every
+   * ticket the question was asked for; per-ticket answers on the nth ticket of their tier.
+   * Safe to call again for the same tickets.
+   */
+  async saveTicketAnswers(
+    checkoutAnswers: Prisma.JsonValue | null,
+    tickets: { id: string; tierId: string }[],
+  ) {
+    const answers = (checkoutAnswers || []) as unknown as CheckoutAnswer[];
+    if (!Array.isArray(answers) || answers.length === 0 || tickets.length === 0) return;
+
+    const questions = await this.prisma.registrationQuestion.findMany({
+      where: { id: { in: answers.map((answer) => answer.questionId) } },
+      select: { id: true, tiers: { select: { id: true } } },
+    });
+
+    const rows: { questionId: string; ticketId: string; values: string[] }[] = [];
+    const positions = new Map<string, number>();
+    for (const ticket of tickets) {
+      const ticketIndex = positions.get(ticket.tierId) || 0;
+      positions.set(ticket.tierId, ticketIndex + 1);
+
+      for (const answer of answers) {
+        const question = questions.find((q) => q.id === answer.questionId);
+        if (!question) continue; // Removed since checkout
+
+        const applies =
+          answer.tierId !== undefined
+            ? answer.tierId === ticket.tierId && answer.ticketIndex === ticketIndex
+            : question.tiers.length === 0 ||
+              question.tiers.some((tier) => tier.id === ticket.tierId);
+        if (applies) {
+          rows.push({ questionId: question.id, ticketId: ticket.id, values: answer.values });
+        }
+      }
+    }
+
+    if (rows.length === 0) return;
+
+    await this.prisma.registrationAnswer.createMany({ data: rows, skipDuplicates: true });
+    this.logger.log(`Saved ${rows.length} registration answers for ${tickets.length} tickets`);
+  }
+
+  private checkAnswer(
+    question: { type: string; options: string[]; required: boolean },
+    rawValues: unknown,
+    label: string,
+  ) {
+    const values = (Array.isArray(rawValues) ? rawValues : [])
+      .filter((value): value is string => typeof value === 'string')
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+    if (values.length === 0) {
+      if (question.required) {
+        throw new BadRequestException(`Please answer "${label}"`);
+      }
+      return [];
+    }
+
+    if (question.type === QuestionType.TEXT) {
+      if (values.length > 1 || values[0].length > MAX_TEXT_ANSWER_LENGTH) {
+        throw new BadRequestException(
+          `Your answer to "${label}" must be less than ${MAX_TEXT_ANSWER_LENGTH} characters`,
+        );
+      }
+      return values;
+    }
+
+    if (!MULTI_VALUE_TYPES.includes(question.type) && values.length > 1) {
+      throw new BadRequestException(`Choose one answer to "${label}"`);
+    }
+    if (values.some((value) => !question.options.includes(value))) {
+      throw new BadRequestException(`Choose an answer to "${label}" from the list`);
+    }
+
+    return Array.from(new Set(values));
+  }
+
+  private isSelect(type: QuestionType) {
+    return type !== QuestionType.TEXT;
+  }
+
+  /**
+   * A question's choices, trimmed and de-duplicated - the defaults for T-shirt size and
+   * dietary questions when none are listed. Text questions have none.
+   */
+  private getOptions(question: RegistrationQuestionDto) {
+    if (!this.isSelect(question.type)) return [];
+
+    const options = Array.from(
+      new Set((question.options || []).map((option) => option.trim()).filter(Boolean)),
+    );
+    return options.length > 0 ? options : DEFAULT_OPTIONS[question.type] || [];
+  }
+}
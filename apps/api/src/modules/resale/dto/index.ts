@@ -0,0 +1,18 @@
+import { IsNumber, IsOptional, IsEmail, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CreateResaleListingDto {
+  @ApiProperty({ description: 'Asking price in Naira, capped by the organizer' })
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Price must be a number' })
+  @Min(100, { message: 'Minimum resale price is ₦100' })
+  price: number;
+}
+
+export class PurchaseResaleListingDto {
+  @ApiPropertyOptional({ description: 'Guest email for unauthenticated purchases' })
+  @IsOptional()
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  guestEmail?: string;
+}
@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { ResaleService } from './resale.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { Public } from '../auth/decorators/public.decorator';
+import { CreateResaleListingDto, PurchaseResaleListingDto } from './dto';
+
+@ApiTags('Resale')
+@Controller('resale')
+export class ResaleController {
+  constructor(private readonly resaleService: ResaleService) {}
+
+  // ==================== SELLER ENDPOINTS ====================
+
+  @Post('tickets/:ticketId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List a ticket for resale' })
+  @ApiResponse({ status: 201, description: 'Ticket listed on the resale marketplace' })
+  async createListing(
+    @Param('ticketId') ticketId: string,
+    @Body() dto: CreateResaleListingDto,
+    @Request() req: any,
+  ) {
+    return this.resaleService.createListing(ticketId, req.user.id, dto);
+  }
+
+  @Post('listings/:listingId/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Take a resale listing off the market' })
+  async cancelListing(@Param('listingId') listingId: string, @Request() req: any) {
+    return this.resaleService.cancelListing(listingId, req.user.id);
+  }
+
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get resale listings the user has created' })
+  async getMyListings(@Request() req: any) {
+    return this.resaleService.getMyListings(req.user.id);
+  }
+
+  // ==================== BUYER ENDPOINTS ====================
+
+  @Get('events/:eventId')
+  @Public()
+  @ApiOperation({ summary: 'Get tickets for sale on an event resale marketplace' })
+  async getEventListings(@Param('eventId') eventId: string) {
+    return this.resaleService.getEventListings(eventId);
+  }
+
+  @Post('listings/:listingId/purchase')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Start checkout for a resale ticket (supports guest checkout)' })
+  async purchaseListing(
+    @Param('listingId') listingId: string,
+    @Body() dto: PurchaseResaleListingDto,
+    @Request() req: any,
+  ) {
+    const userId = req.user?.id || null;
+    const email = req.user?.email || dto.guestEmail;
+
+    if (!email) {
+      throw new BadRequestException('Email is required for payment initialization');
+    }
+
+    return this.resaleService.purchaseListing(listingId, userId, email);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ResaleController } from './resale.controller';
+import { ResaleService } from './resale.service';
+import { PaymentProvidersModule } from '../payments/payment-providers.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { EmailModule } from '../emails/email.module';
+
+@Module({
+  imports: [ConfigModule, PaymentProvidersModule, TicketsModule, LedgerModule, EmailModule],
+  controllers: [ResaleController],
+  providers: [ResaleService],
+  exports: [ResaleService],
+})
+export class ResaleModule {}
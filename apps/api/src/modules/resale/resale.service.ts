@@ -0,0 +1,662 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Decimal } from '@prisma/client/runtime/library';
+import { PrismaService } from '../../database/prisma.service';
+import { PaymentProvidersService } from '../payments/payment-providers.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { EmailService } from '../emails/email.service';
+import { CreateResaleListingDto } from './dto';
+
+const toNumber = (value: Decimal | number) =>
+  value instanceof Decimal ? value.toNumber() : Number(value);
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class ResaleService {
+  private readonly logger = new Logger(ResaleService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private paymentProviders: PaymentProvidersService,
+    private ticketsService: TicketsService,
+    private ledgerService: LedgerService,
+    private emailService: EmailService,
+  ) {}
+
+  // ==================== SELLER ====================
+
+  /**
+   * List a ticket for resale. The price is capped at the organizer's limit
+   * (a % of what the holder paid), and the fee and royalty are fixed now so the
+   * seller knows exactly what they'll receive.
+   */
+  async createListing(ticketId: string, userId: string, dto: CreateResaleListingDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+    const ticket = await this.prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: { event: true, tier: true, refund: true },
+    });
+
+    if (!user || !ticket) {
+      throw new NotFoundException('Ticket not found');
+    }
+
+    const ownsTicket =
+      ticket.buyerId === userId ||
+      (!ticket.buyerId && ticket.buyerEmail.toLowerCase() === user.email.toLowerCase());
+    if (!ownsTicket) {
+      throw new ForbiddenException('You can only resell your own tickets');
+    }
+
+    if (ticket.status !== 'ACTIVE') {
+      throw new BadRequestException(`Cannot resell a ticket with status: ${ticket.status}`);
+    }
+
+    if (!ticket.event.resaleEnabled) {
+      throw new BadRequestException('The organizer has not enabled resale for this event');
+    }
+
+    const now = new Date();
+    if (!ticket.event.startDate || ticket.event.startDate <= now) {
+      throw new BadRequestException('Tickets cannot be resold once the event has started');
+    }
+
+    // Sellers are paid out by refunding the payment they bought the ticket with
+    const amountPaid = toNumber(ticket.amountPaid);
+    if (ticket.isComp || amountPaid <= 0 || !ticket.paymentRef) {
+      throw new BadRequestException('Free and complimentary tickets cannot be resold');
+    }
+
+    if (ticket.refund && ticket.refund.status !== 'REJECTED') {
+      throw new BadRequestException('A ticket with a refund request cannot be resold');
+    }
+
+    const [pendingTransfer, openListing] = await Promise.all([
+      this.prisma.ticketTransfer.findFirst({
+        where: { ticketId, status: 'PENDING', expiresAt: { gt: now } },
+      }),
+      this.prisma.resaleListing.findFirst({
+        where: { ticketId, status: { in: ['ACTIVE', 'RESERVED'] } },
+      }),
+    ]);
+    if (pendingTransfer) {
+      throw new BadRequestException('Cancel the pending transfer before reselling this ticket');
+    }
+    if (openListing) {
+      throw new BadRequestException('This ticket is already listed for resale');
+    }
+
+    const maxPrice = roundMoney((amountPaid * ticket.event.resaleMaxPricePercent) / 100);
+    if (dto.price > maxPrice) {
+      throw new BadRequestException(
+        `The organizer caps resale prices at ₦${maxPrice.toLocaleString()} for this ticket`,
+      );
+    }
+
+    const { resaleFee, royalty, payoutAmount } = this.splitPrice(
+      dto.price,
+      ticket.event.resaleRoyaltyPercent,
+    );
+
+    const listing = await this.prisma.resaleListing.create({
+      data: {
+        price: dto.price,
+        resaleFee,
+        royalty,
+        payoutAmount,
+        sellerId: userId,
+        sellerEmail: ticket.buyerEmail,
+        ticketId,
+        eventId: ticket.eventId,
+        tierId: ticket.tierId,
+      },
+    });
+
+    this.logger.log(`Ticket ${ticket.ticketNumber} listed for resale at ₦${dto.price}`);
+
+    return {
+      ...listing,
+      message: `Ticket listed for ₦${dto.price.toLocaleString()}. You'll receive ₦${payoutAmount.toLocaleString()} when it sells.`,
+    };
+  }
+
+  /**
+   * Take a listing off the market. Not possible while a buyer is checking out.
+   */
+  async cancelListing(listingId: string, userId: string) {
+    const listing = await this.prisma.resaleListing.findUnique({ where: { id: listingId } });
+
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    if (listing.sellerId !== userId) {
+      throw new ForbiddenException('You can only cancel your own listings');
+    }
+
+    const now = new Date();
+    const cancelled = await this.prisma.resaleListing.updateMany({
+      where: {
+        id: listingId,
+        OR: [{ status: 'ACTIVE' }, { status: 'RESERVED', reservedUntil: { lte: now } }],
+      },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: now,
+        reservedUntil: null,
+        reservedPaymentId: null,
+      },
+    });
+
+    if (cancelled.count === 0) {
+      throw new BadRequestException(
+        listing.status === 'RESERVED'
+          ? 'A buyer is checking out right now - try again in a few minutes'
+          : 'Only active listings can be cancelled',
+      );
+    }
+
+    return { message: 'Listing cancelled. The ticket is still yours.' };
+  }
+
+  /**
+   * Listings the user has created
+   */
+  async getMyListings(userId: string) {
+    const listings = await this.prisma.resaleListing.findMany({
+      where: { sellerId: userId },
+      include: {
+        event: { select: { title: true, slug: true, startDate: true } },
+        tier: { select: { name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return listings.map(({ event, tier, reservedPaymentId: _payment, ...listing }) => ({
+      ...listing,
+      status: this.effectiveStatus(listing),
+      eventTitle: event.title,
+      eventSlug: event.slug,
+      eventDate: event.startDate,
+      tierName: tier.name,
+    }));
+  }
+
+  // ==================== BUYER ====================
+
+  /**
+   * Tickets for sale on an event's resale marketplace
+   */
+  async getEventListings(eventId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { resaleEnabled: true, startDate: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (!event.resaleEnabled || (event.startDate && event.startDate <= new Date())) {
+      return [];
+    }
+
+    const listings = await this.prisma.resaleListing.findMany({
+      where: {
+        eventId,
+        OR: [{ status: 'ACTIVE' }, { status: 'RESERVED', reservedUntil: { lte: new Date() } }],
+      },
+      include: { tier: { select: { id: true, name: true, price: true } } },
+      orderBy: [{ price: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return listings.map((listing) => ({
+      id: listing.id,
+      price: listing.price,
+      createdAt: listing.createdAt,
+      tierId: listing.tier.id,
+      tierName: listing.tier.name,
+      tierPrice: listing.tier.price,
+    }));
+  }
+
+  /**
+   * Start checkout for a resale listing. The listing is reserved for the buyer
+   * for the same time as a normal inventory hold while they pay on the gateway.
+   */
+  async purchaseListing(listingId: string, userId: string | null, email: string) {
+    const normalizedEmail = email.toLowerCase().trim();
+    const listing = await this.prisma.resaleListing.findUnique({
+      where: { id: listingId },
+      include: { event: true, tier: true },
+    });
+
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    if (!listing.event.resaleEnabled) {
+      throw new BadRequestException('Resale is not available for this event');
+    }
+
+    if (!listing.event.startDate || listing.event.startDate <= new Date()) {
+      throw new BadRequestException('This event has already started');
+    }
+
+    if (listing.sellerId === userId || listing.sellerEmail.toLowerCase() === normalizedEmail) {
+      throw new BadRequestException('You cannot buy your own listing');
+    }
+
+    const price = toNumber(listing.price);
+    const reference = `HD-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    const payment = await this.prisma.payment.create({
+      data: {
+        reference,
+        amount: price,
+        quantity: 1,
+        unitPrice: price,
+        status: 'PENDING',
+        eventId: listing.eventId,
+        tierId: listing.tierId,
+        buyerId: userId || null,
+        buyerEmail: normalizedEmail,
+        organizerId: listing.event.organizerId,
+        resaleListingId: listing.id,
+      },
+    });
+
+    const holdMinutes = this.configService.get<number>('inventoryHoldMinutes') || 10;
+    const now = new Date();
+    const reservedUntil = new Date(now.getTime() + holdMinutes * 60 * 1000);
+
+    // Reserve atomically so two buyers can't check out the same ticket
+    const reserved = await this.prisma.resaleListing.updateMany({
+      where: {
+        id: listing.id,
+        OR: [{ status: 'ACTIVE' }, { status: 'RESERVED', reservedUntil: { lte: now } }],
+      },
+      data: { status: 'RESERVED', reservedUntil, reservedPaymentId: payment.id },
+    });
+
+    if (reserved.count === 0) {
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: 'FAILED' },
+      });
+      throw new BadRequestException(
+        'This ticket has been sold or another buyer is checking out. Please try another listing',
+      );
+    }
+
+    const user = userId ? await this.prisma.user.findUnique({ where: { id: userId } }) : null;
+    const customerName = user
+      ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || 'Customer'
+      : 'Customer';
+
+    let gatewayResponse;
+    try {
+      gatewayResponse = await this.paymentProviders.initializeTransaction(
+        listing.event.paymentProvider,
+        normalizedEmail,
+        price,
+        reference,
+        {
+          eventId: listing.eventId,
+          tierId: listing.tierId,
+          paymentId: payment.id,
+          organizerId: listing.event.organizerId,
+          resaleListingId: listing.id,
+          totalAmount: price.toString(),
+          customerName,
+          description: `Resale ticket for ${listing.event.title} - ${listing.tier.name}`,
+        },
+      );
+    } catch (gatewayError) {
+      this.logger.error(
+        `Payment gateway initialization failed for resale ${listing.id}: ${gatewayError.message}`,
+      );
+      await this.prisma.payment.update({
+        where: { id: payment.id },
+        data: { status: 'FAILED' },
+      });
+      await this.releaseReservation(payment.id);
+      throw new BadRequestException(
+        `Payment gateway error: ${gatewayError.message || 'Unable to connect to payment provider. Please try again.'}`,
+      );
+    }
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        provider: gatewayResponse.provider,
+        providerTransactionRef: gatewayResponse.transactionReference,
+      },
+    });
+
+    return {
+      isFree: false,
+      authorizationUrl: gatewayResponse.checkoutUrl,
+      reference,
+      paymentId: payment.id,
+      provider: gatewayResponse.provider,
+      transactionReference: gatewayResponse.transactionReference,
+      holdExpiresAt: reservedUntil,
+      totalAmount: price,
+    };
+  }
+
+  // ==================== PAYMENT HANDLING ====================
+
+  /**
+   * Finish a resale once the buyer's payment succeeds: the seller's ticket is
+   * voided, a new ticket is issued to the buyer, the royalty and platform fee are
+   * recorded in the ledger and the seller is paid out. Called by PaymentsService
+   * for payments that carry a resale listing.
+   */
+  async completeResale(
+    payment: {
+      id: string;
+      reference: string;
+      resaleListingId: string | null;
+      buyerId: string | null;
+      buyerEmail: string;
+    },
+    data: { transactionRef?: string | null; paidAt?: Date },
+  ) {
+    const listing = await this.prisma.resaleListing.findUnique({
+      where: { id: payment.resaleListingId! },
+      include: { event: true, tier: true, ticket: true },
+    });
+
+    if (!listing) {
+      this.logger.error(`Resale listing not found for payment: ${payment.reference}`);
+      return;
+    }
+
+    if (listing.status === 'SOLD' && listing.reservedPaymentId === payment.id) {
+      this.logger.log(`Resale already completed for payment: ${payment.reference}`);
+      return;
+    }
+
+    const price = toNumber(listing.price);
+    const paidAt = data.paidAt || new Date();
+
+    // Claim the listing and void the seller's ticket together. The reservation may
+    // have lapsed, so an ACTIVE listing can still be claimed by a late payment.
+    let claimed = false;
+    try {
+      await this.prisma.$transaction(async (tx: any) => {
+        const sold = await tx.resaleListing.updateMany({
+          where: {
+            id: listing.id,
+            OR: [{ status: 'ACTIVE' }, { status: 'RESERVED', reservedPaymentId: payment.id }],
+          },
+          data: {
+            status: 'SOLD',
+            soldAt: paidAt,
+            reservedUntil: null,
+            reservedPaymentId: payment.id,
+            buyerId: payment.buyerId,
+            buyerEmail: payment.buyerEmail,
+          },
+        });
+        const voided = await tx.ticket.updateMany({
+          where: { id: listing.ticketId, status: 'ACTIVE' },
+          data: { status: 'CANCELLED' },
+        });
+
+        if (sold.count === 0 || voided.count === 0) {
+          throw new Error('Listing is no longer available');
+        }
+      });
+      claimed = true;
+    } catch (error: any) {
+      this.logger.warn(`Could not complete resale ${listing.id}: ${error.message}`);
+    }
+
+    if (!claimed) {
+      // Someone else bought it after this buyer's reservation lapsed - give the money back
+      try {
+        await this.paymentProviders.refundPayment(payment.reference, price);
+        await this.prisma.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: 'REFUNDED',
+            providerTransactionRef: data.transactionRef || undefined,
+            paidAt,
+          },
+        });
+      } catch (error: any) {
+        this.logger.error(
+          `Failed to refund resale payment ${payment.reference} for unavailable listing: ${error.message}`,
+        );
+      }
+      return;
+    }
+
+    const user = payment.buyerId
+      ? await this.prisma.user.findUnique({ where: { id: payment.buyerId } })
+      : null;
+
+    const [ticket] = await this.ticketsService.createTicket({
+      eventId: listing.eventId,
+      tierId: listing.tierId,
+      buyerId: payment.buyerId || null,
+      buyerEmail: payment.buyerEmail,
+      buyerFirstName: user?.firstName || undefined,
+      buyerLastName: user?.lastName || undefined,
+      paymentId: payment.id,
+      paymentRef: payment.reference,
+      amountPaid: price,
+      quantity: 1,
+    });
+
+    await this.prisma.resaleListing.update({
+      where: { id: listing.id },
+      data: { newTicketId: ticket.id },
+    });
+
+    const royalty = toNumber(listing.royalty);
+    const resaleFee = toNumber(listing.resaleFee);
+    const label = `${listing.event.title} - ${listing.tier.name}`;
+
+    if (royalty > 0) {
+      const recorded = await this.ledgerService.recordResaleRoyalty({
+        organizerId: listing.event.organizerId,
+        ticketId: ticket.id,
+        amount: royalty,
+        providerTransactionRef: data.transactionRef,
+        paymentReference: payment.reference,
+        paymentId: payment.id,
+        valueDate: paidAt,
+        description: `${label} (resale royalty)`,
+        narration: `Credit: Royalty on resale of ${listing.ticket.ticketNumber} for ₦${price}`,
+      });
+
+      // Like ticket sales, royalties mature from pending to available via the tasks cron
+      if (!recorded.skipped) {
+        await this.prisma.organizerProfile.update({
+          where: { id: listing.event.organizerId },
+          data: { pendingBalance: { increment: royalty } },
+        });
+      }
+    }
+
+    if (resaleFee > 0) {
+      await this.ledgerService.recordResaleFee({
+        organizerId: listing.event.organizerId,
+        ticketId: ticket.id,
+        amount: resaleFee,
+        providerTransactionRef: data.transactionRef,
+        paymentReference: payment.reference,
+        paymentId: payment.id,
+        valueDate: paidAt,
+        narration: `Platform fee on resale of ${listing.ticket.ticketNumber} for ₦${price}`,
+      });
+    }
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: 'SUCCESS',
+        providerTransactionRef: data.transactionRef || undefined,
+        paidAt,
+      },
+    });
+
+    this.logger.log(
+      `Ticket ${listing.ticket.ticketNumber} resold to ${payment.buyerEmail} as ${ticket.ticketNumber}`,
+    );
+
+    await this.payOutSeller(listing.id);
+
+    try {
+      await this.emailService.sendResaleSoldEmail(listing.sellerEmail, {
+        eventTitle: listing.event.title,
+        tierName: listing.tier.name,
+        price,
+        payoutAmount: toNumber(listing.payoutAmount),
+        firstName: listing.ticket.buyerFirstName || undefined,
+      });
+    } catch (error: any) {
+      this.logger.error(`Failed to send resale email to ${listing.sellerEmail}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Put a reserved listing back on the market when its checkout fails
+   */
+  async releaseReservation(paymentId: string) {
+    const released = await this.prisma.resaleListing.updateMany({
+      where: { reservedPaymentId: paymentId, status: 'RESERVED' },
+      data: { status: 'ACTIVE', reservedUntil: null, reservedPaymentId: null },
+    });
+    return released.count;
+  }
+
+  // ==================== SCHEDULED ====================
+
+  /**
+   * Cron job that returns listings whose checkout lapsed to the market. Reads
+   * already treat them as available; this keeps the stored status in line.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseExpiredReservations() {
+    try {
+      const result = await this.prisma.resaleListing.updateMany({
+        where: { status: 'RESERVED', reservedUntil: { lte: new Date() } },
+        data: { status: 'ACTIVE', reservedUntil: null, reservedPaymentId: null },
+      });
+
+      if (result.count > 0) {
+        this.logger.log(`Released ${result.count} expired resale reservations`);
+      }
+
+      return { released: result.count };
+    } catch (error) {
+      this.logger.error('Error releasing resale reservations:', error);
+      return { released: 0, error: error.message };
+    }
+  }
+
+  /**
+   * Cron job that retries seller payouts that failed when the resale completed
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async retryFailedPayouts() {
+    try {
+      const unpaid = await this.prisma.resaleListing.findMany({
+        where: { status: 'SOLD', paidOutAt: null },
+        select: { id: true },
+        take: 50,
+      });
+
+      let paidOut = 0;
+      for (const listing of unpaid) {
+        if (await this.payOutSeller(listing.id)) {
+          paidOut++;
+        }
+      }
+
+      if (unpaid.length > 0) {
+        this.logger.log(`Retried ${unpaid.length} resale payouts, ${paidOut} succeeded`);
+      }
+
+      return { retried: unpaid.length, paidOut };
+    } catch (error) {
+      this.logger.error('Error retrying resale payouts:', error);
+      return { retried: 0, paidOut: 0, error: error.message };
+    }
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Split a resale price into the platform fee, the organizer's royalty and the
+   * seller's payout
+   */
+  private splitPrice(price: number, royaltyPercent: number) {
+    const platformFeePercent = this.configService.get<number>('platformFeePercent') || 5;
+    const resaleFee = roundMoney((price * platformFeePercent) / 100);
+    const royalty = roundMoney((price * royaltyPercent) / 100);
+    return { resaleFee, royalty, payoutAmount: roundMoney(price - resaleFee - royalty) };
+  }
+
+  /**
+   * Pay the seller by refunding their proceeds to the payment they bought the
+   * ticket with. Failures are recorded and retried by the cron job.
+   */
+  private async payOutSeller(listingId: string): Promise<boolean> {
+    const listing = await this.prisma.resaleListing.findUnique({
+      where: { id: listingId },
+      include: { ticket: { select: { paymentRef: true } } },
+    });
+
+    if (!listing || listing.paidOutAt || !listing.ticket.paymentRef) {
+      return false;
+    }
+
+    try {
+      await this.paymentProviders.refundPayment(
+        listing.ticket.paymentRef,
+        toNumber(listing.payoutAmount),
+      );
+      await this.prisma.resaleListing.update({
+        where: { id: listingId },
+        data: { paidOutAt: new Date(), payoutError: null },
+      });
+      return true;
+    } catch (error: any) {
+      this.logger.error(`Resale payout failed for listing ${listingId}: ${error.message}`);
+      await this.prisma.resaleListing.update({
+        where: { id: listingId },
+        data: { payoutError: error.message?.substring(0, 500) || 'Payout failed' },
+      });
+      return false;
+    }
+  }
+
+  private effectiveStatus(listing: { status: string; reservedUntil: Date | null }) {
+    if (
+      listing.status === 'RESERVED' &&
+      listing.reservedUntil &&
+      listing.reservedUntil <= new Date()
+    ) {
+      return 'ACTIVE';
+    }
+    return listing.status;
+  }
+}
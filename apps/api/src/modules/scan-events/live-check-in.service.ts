@@ -0,0 +1,144 @@
+import { Injectable, MessageEvent, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Observable, asyncScheduler, from, interval, merge, of } from 'rxjs';
+import { exhaustMap, map, throttleTime } from 'rxjs/operators';
+import { PrismaService } from '../../database/prisma.service';
+import { ScanEventsService } from './scan-events.service';
+
+// Snapshots are pushed at most this often, however fast the doors are scanning
+const PUSH_THROTTLE_MS = 2000;
+// A snapshot is also pushed on this interval, so the per-minute chart keeps moving when it's
+// quiet and scans recorded by other API instances still show up
+const REFRESH_INTERVAL_MS = 30 * 1000;
+const SCANS_PER_MINUTE_WINDOW = 15; // minutes
+const RECENT_REJECTIONS = 5;
+
+/**
+ * Live door stats for an event's organizer dashboard: check-ins per tier and per agent,
+ * scans per minute and rejected scans. Streamed as server-sent events, recomputed when
+ * a scan is recorded.
+ */
+@Injectable()
+export class LiveCheckInService {
+  constructor(
+    private prisma: PrismaService,
+    private scanEventsService: ScanEventsService,
+  ) {}
+
+  /**
+   * Stream snapshots for an event (organizer only): one straight away, then after scans
+   */
+  async stream(eventId: string, organizerId: string): Promise<Observable<MessageEvent>> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, organizerId: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only watch check-ins for your own events');
+    }
+
+    const scans = this.scanEventsService
+      .recordedScans(eventId)
+      .pipe(throttleTime(PUSH_THROTTLE_MS, asyncScheduler, { leading: true, trailing: true }));
+
+    return merge(of(null), interval(REFRESH_INTERVAL_MS), scans).pipe(
+      // A snapshot still being computed covers the triggers that arrive meanwhile
+      exhaustMap(() => from(this.getSnapshot(eventId))),
+      map((snapshot) => ({ type: 'snapshot', data: snapshot })),
+    );
+  }
+
+  /**
+   * Door stats for an event right now
+   */
+  async getSnapshot(eventId: string) {
+    const now = new Date();
+    const windowStart = new Date(
+      Math.floor(now.getTime() / 60000) * 60000 - (SCANS_PER_MINUTE_WINDOW - 1) * 60000,
+    );
+
+    const [tiers, ticketCounts, agentCodes, resultCounts, recentScans, recentRejections] =
+      await Promise.all([
+        this.prisma.ticketTier.findMany({
+          where: { eventId },
+          select: { id: true, name: true },
+          orderBy: { sortOrder: 'asc' },
+        }),
+        this.prisma.ticket.groupBy({
+          by: ['tierId', 'status'],
+          where: { eventId, status: { in: ['ACTIVE', 'CHECKED_IN'] } },
+          _count: true,
+        }),
+        this.prisma.agentAccessCode.findMany({
+          where: { eventId },
+          select: {
+            id: true,
+            code: true,
+            label: true,
+            isActive: true,
+            checkInCount: true,
+            lastUsedAt: true,
+          },
+          orderBy: { checkInCount: 'desc' },
+        }),
+        this.prisma.scanEvent.groupBy({
+          by: ['result'],
+          where: { eventId, action: 'CHECK_IN' },
+          _count: true,
+        }),
+        this.prisma.scanEvent.findMany({
+          where: { eventId, action: 'CHECK_IN', scannedAt: { gte: windowStart } },
+          select: { scannedAt: true, result: true },
+        }),
+        this.prisma.scanEvent.findMany({
+          where: { eventId, action: 'CHECK_IN', result: 'REJECTED' },
+          select: { scannedAt: true, ticketNumber: true, reason: true, gate: true },
+          orderBy: { scannedAt: 'desc' },
+          take: RECENT_REJECTIONS,
+        }),
+      ]);
+
+    const tierStats = tiers.map((tier) => {
+      const counts = ticketCounts.filter((count) => count.tierId === tier.id);
+      const checkedIn = counts.find((count) => count.status === 'CHECKED_IN')?._count || 0;
+      const tickets = counts.reduce((sum, count) => sum + count._count, 0);
+      return { id: tier.id, name: tier.name, tickets, checkedIn };
+    });
+
+    // One bucket per minute, oldest first, including quiet minutes
+    const scansPerMinute = Array.from({ length: SCANS_PER_MINUTE_WINDOW }, (_, i) => ({
+      minute: new Date(windowStart.getTime() + i * 60000),
+      accepted: 0,
+      rejected: 0, // Duplicates included - both are turned away at the door
+    }));
+    for (const scan of recentScans) {
+      const bucket =
+        scansPerMinute[Math.floor((scan.scannedAt.getTime() - windowStart.getTime()) / 60000)];
+      if (!bucket) continue; // Offline scans synced with a clock running fast
+      if (scan.result === 'ACCEPTED') bucket.accepted++;
+      else bucket.rejected++;
+    }
+
+    const countOf = (result: string) =>
+      resultCounts.find((count) => count.result === result)?._count || 0;
+
+    return {
+      generatedAt: now,
+      totals: {
+        tickets: tierStats.reduce((sum, tier) => sum + tier.tickets, 0),
+        checkedIn: tierStats.reduce((sum, tier) => sum + tier.checkedIn, 0),
+        acceptedScans: countOf('ACCEPTED'),
+        duplicateScans: countOf('DUPLICATE'),
+        rejectedScans: countOf('REJECTED'),
+      },
+      tiers: tierStats,
+      agents: agentCodes,
+      scansPerMinute,
+      recentRejections,
+    };
+  }
+}
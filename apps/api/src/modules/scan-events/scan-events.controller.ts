@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  BadRequestException,
+  Sse,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ScanEventsService } from './scan-events.service';
+import { LiveCheckInService } from './live-check-in.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ScanResult, UserRole } from '../../common/types/prisma-enums';
+
+@ApiTags('Scan Events')
+@Controller('scan-events')
+export class ScanEventsController {
+  constructor(
+    private readonly scanEventsService: ScanEventsService,
+    private readonly liveCheckInService: LiveCheckInService,
+  ) {}
+
+  @Sse('events/:eventId/live')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Stream live check-in stats for an event (server-sent events)',
+    description:
+      'Pushes a snapshot straight away, after scans (at most every 2 seconds) and every 30 seconds',
+  })
+  async streamLiveCheckIns(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.liveCheckInService.stream(eventId, req.user.organizerProfile.id);
+  }
+
+  @Get('events/:eventId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the check-in scan log for an event' })
+  @ApiQuery({ name: 'ticketNumber', required: false })
+  @ApiQuery({ name: 'result', required: false, enum: ScanResult })
+  @ApiQuery({ name: 'agentCodeId', required: false })
+  @ApiQuery({ name: 'sessionId', required: false })
+  async getEventScans(
+    @Param('eventId') eventId: string,
+    @Request() req: any,
+    @Query('page') page = 1,
+    @Query('limit') limit = 50,
+    @Query('ticketNumber') ticketNumber?: string,
+    @Query('result') result?: ScanResult,
+    @Query('agentCodeId') agentCodeId?: string,
+    @Query('sessionId') sessionId?: string,
+  ) {
+    if (result && !Object.values(ScanResult).includes(result)) {
+      throw new BadRequestException('Invalid scan result filter');
+    }
+
+    return this.scanEventsService.getEventScans(eventId, req.user.organizerProfile.id, {
+      page: +page,
+      limit: +limit,
+      ticketNumber,
+      result,
+      agentCodeId,
+      sessionId,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ScanEventsController } from './scan-events.controller';
+import { ScanEventsService } from './scan-events.service';
+import { LiveCheckInService } from './live-check-in.service';
+import { PrismaModule } from '../../database/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [ScanEventsController],
+  providers: [ScanEventsService, LiveCheckInService],
+  exports: [ScanEventsService],
+})
+export class ScanEventsModule {}
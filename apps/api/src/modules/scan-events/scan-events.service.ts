@@ -0,0 +1,167 @@
+import { Injectable, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Prisma, ScanAction, ScanResult, ScanSource } from '@prisma/client';
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { PrismaService } from '../../database/prisma.service';
+
+// Scanned values are stored truncated: enough to recognise a ticket number or a
+// mistyped code, without keeping a replayable copy of a signed QR payload
+const SCANNED_VALUE_MAX_LENGTH = 40;
+
+/** Who scanned, and from where - passed down by each check-in entry point */
+export interface ScanContext {
+  source: ScanSource;
+  userId?: string; // Organizer account, for organizer scans
+  agentCodeId?: string;
+  gate?: string; // Where the scan happened, e.g. the agent code's label
+  deviceId?: string;
+  userAgent?: string;
+  sessionId?: string; // Session being scanned for, on events that check in per session
+}
+
+interface ScanRecord extends ScanContext {
+  eventId: string;
+  action: ScanAction;
+  result: ScanResult;
+  reason?: string;
+  scannedValue: string;
+  ticketId?: string | null;
+  ticketNumber?: string | null;
+  scannedAt?: Date; // Defaults to now; device time for offline scans
+}
+
+interface ScanEventFilters {
+  page: number;
+  limit: number;
+  ticketNumber?: string;
+  result?: ScanResult;
+  agentCodeId?: string;
+  sessionId?: string;
+}
+
+/** A scan that was just written to the log, as the live dashboard hears about it */
+export interface RecordedScan {
+  eventId: string;
+  action: ScanAction;
+  result: ScanResult;
+}
+
+@Injectable()
+export class ScanEventsService {
+  private readonly logger = new Logger(ScanEventsService.name);
+  // Scans recorded by this instance - other instances' scans show up on the next periodic refresh
+  private readonly recorded$ = new Subject<RecordedScan>();
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Scans recorded for an event from now on
+   */
+  recordedScans(eventId: string): Observable<RecordedScan> {
+    return this.recorded$.pipe(filter((scan) => scan.eventId === eventId));
+  }
+
+  /**
+   * Record a scan. Never throws - a failure to write the audit trail must not
+   * turn a valid ticket away at the door.
+   */
+  async record(scan: ScanRecord): Promise<void> {
+    try {
+      // Agent scans only know the ticket number, so link the ticket here
+      let ticketId = scan.ticketId;
+      if (!ticketId && scan.ticketNumber) {
+        const ticket = await this.prisma.ticket.findUnique({
+          where: { ticketNumber: scan.ticketNumber },
+          select: { id: true },
+        });
+        ticketId = ticket?.id;
+      }
+
+      await this.prisma.scanEvent.create({
+        data: {
+          eventId: scan.eventId,
+          action: scan.action,
+          result: scan.result,
+          reason: scan.reason,
+          source: scan.source,
+          scannedValue: scan.scannedValue.slice(0, SCANNED_VALUE_MAX_LENGTH),
+          scannedAt: scan.scannedAt,
+          gate: scan.gate,
+          deviceId: scan.deviceId,
+          userAgent: scan.userAgent?.slice(0, 255),
+          userId: scan.userId,
+          ticketId,
+          ticketNumber: scan.ticketNumber,
+          agentCodeId: scan.agentCodeId,
+          sessionId: scan.sessionId,
+        },
+      });
+
+      this.recorded$.next({ eventId: scan.eventId, action: scan.action, result: scan.result });
+    } catch (error) {
+      this.logger.error(`Failed to record scan for event ${scan.eventId}:`, error);
+    }
+  }
+
+  /**
+   * Scan log for an event (organizer only), newest first.
+   * Filter by ticket number to see every attempt on one ticket.
+   */
+  async getEventScans(eventId: string, organizerId: string, filters: ScanEventFilters) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, organizerId: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only view the scan log for your own events');
+    }
+
+    const page = Math.max(1, filters.page || 1);
+    const limit = Math.min(Math.max(1, filters.limit || 50), 200);
+
+    const where: Prisma.ScanEventWhereInput = {
+      eventId,
+      ...(filters.ticketNumber && {
+        ticketNumber: { equals: filters.ticketNumber.trim(), mode: 'insensitive' },
+      }),
+      ...(filters.result && { result: filters.result }),
+      ...(filters.agentCodeId && { agentCodeId: filters.agentCodeId }),
+      ...(filters.sessionId && { sessionId: filters.sessionId }),
+    };
+
+    const [scans, total] = await Promise.all([
+      this.prisma.scanEvent.findMany({
+        where,
+        orderBy: { scannedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          agentCode: { select: { id: true, code: true, label: true } },
+          session: { select: { id: true, name: true } },
+          ticket: {
+            select: {
+              status: true,
+              buyerFirstName: true,
+              buyerLastName: true,
+              buyerEmail: true,
+              tier: { select: { name: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.scanEvent.count({ where }),
+    ]);
+
+    return {
+      scans,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+}
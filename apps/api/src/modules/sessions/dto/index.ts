@@ -0,0 +1,48 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsArray,
+  IsDateString,
+  Length,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform } from 'class-transformer';
+
+export class CreateSessionDto {
+  @ApiProperty({ description: 'Session name (e.g., "Day 1", "Workshop: Intro to Rust")' })
+  @IsString()
+  @IsNotEmpty({ message: 'Session name is required' })
+  @Transform(({ value }) => value?.trim())
+  @Length(1, 100)
+  name: string;
+
+  @ApiProperty({ description: 'When the session starts - check-in opens 2 hours before' })
+  @IsDateString()
+  startsAt: string;
+
+  @ApiProperty({ description: 'When the session ends - check-in closes then' })
+  @IsDateString()
+  endsAt: string;
+
+  @ApiPropertyOptional({
+    description: 'Tiers that admit to this session. Tiers with no sessions admit to every session',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tierIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Position in the session list - defaults to start time order',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sortOrder?: number;
+}
+
+export class UpdateSessionDto extends PartialType(CreateSessionDto) {}
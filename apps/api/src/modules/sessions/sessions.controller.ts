@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { SessionsService } from './sessions.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CreateSessionDto, UpdateSessionDto } from './dto';
+import { UserRole } from '../../common/types/prisma-enums';
+
+@ApiTags('Sessions')
+@Controller('sessions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ORGANIZER)
+@ApiBearerAuth()
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Post('events/:eventId')
+  @ApiOperation({ summary: 'Add a session (day or breakout) to a multi-day event' })
+  @ApiResponse({ status: 201, description: 'Session created successfully' })
+  async createSession(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateSessionDto,
+    @Request() req: any,
+  ) {
+    return this.sessionsService.createSession(eventId, req.user.organizerProfile.id, dto);
+  }
+
+  @Get('events/:eventId')
+  @ApiOperation({ summary: "Get an event's sessions with their tiers and admission counts" })
+  async getEventSessions(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.sessionsService.getEventSessions(eventId, req.user.organizerProfile.id);
+  }
+
+  @Patch(':sessionId')
+  @ApiOperation({ summary: "Update a session's name, times or tiers" })
+  async updateSession(
+    @Param('sessionId') sessionId: string,
+    @Body() dto: UpdateSessionDto,
+    @Request() req: any,
+  ) {
+    return this.sessionsService.updateSession(sessionId, req.user.organizerProfile.id, dto);
+  }
+
+  @Delete(':sessionId')
+  @ApiOperation({ summary: 'Delete a session no ticket has been admitted to' })
+  async deleteSession(@Param('sessionId') sessionId: string, @Request() req: any) {
+    return this.sessionsService.deleteSession(sessionId, req.user.organizerProfile.id);
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { CreateSessionDto, UpdateSessionDto } from './dto';
+
+const SESSION_INCLUDE = {
+  tiers: { select: { id: true, name: true } },
+  _count: { select: { admissions: true } },
+} as const;
+
+/**
+ * Sessions of multi-day events: the days or breakouts a ticket is admitted to one at a
+ * time. Admission itself happens at check-in (see TicketEntryService).
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Add a session to an event
+   * Only organizers can add sessions to their events
+   */
+  async createSession(eventId: string, organizerId: string, dto: CreateSessionDto) {
+    const event = await this.getOwnedEvent(eventId, organizerId);
+
+    await this.assertValidSession(event.id, dto);
+
+    const session = await this.prisma.eventSession.create({
+      data: {
+        eventId,
+        name: dto.name,
+        startsAt: new Date(dto.startsAt),
+        endsAt: new Date(dto.endsAt),
+        sortOrder: dto.sortOrder ?? 0,
+        tiers: { connect: (dto.tierIds || []).map((id) => ({ id })) },
+      },
+      include: SESSION_INCLUDE,
+    });
+
+    this.logger.log(`Created session ${session.name} for event ${event.title}`);
+
+    return this.formatSession(session);
+  }
+
+  /**
+   * Get an event's sessions in order, with the tiers they admit and admission counts
+   */
+  async getEventSessions(eventId: string, organizerId: string) {
+    await this.getOwnedEvent(eventId, organizerId);
+
+    const sessions = await this.prisma.eventSession.findMany({
+      where: { eventId },
+      include: SESSION_INCLUDE,
+      orderBy: [{ sortOrder: 'asc' }, { startsAt: 'asc' }],
+    });
+
+    return sessions.map((session) => this.formatSession(session));
+  }
+
+  /**
+   * Update a session. Passing tierIds replaces the tiers it admits.
+   */
+  async updateSession(sessionId: string, organizerId: string, dto: UpdateSessionDto) {
+    const session = await this.getOwnedSession(sessionId, organizerId);
+
+    await this.assertValidSession(session.eventId, {
+      startsAt: dto.startsAt ?? session.startsAt.toISOString(),
+      endsAt: dto.endsAt ?? session.endsAt.toISOString(),
+      tierIds: dto.tierIds,
+    });
+
+    const updated = await this.prisma.eventSession.update({
+      where: { id: sessionId },
+      data: {
+        name: dto.name,
+        startsAt: dto.startsAt ? new Date(dto.startsAt) : undefined,
+        endsAt: dto.endsAt ? new Date(dto.endsAt) : undefined,
+        sortOrder: dto.sortOrder,
+        ...(dto.tierIds && { tiers: { set: dto.tierIds.map((id) => ({ id })) } }),
+      },
+      include: SESSION_INCLUDE,
+    });
+
+    return this.formatSession(updated);
+  }
+
+  /**
+   * Delete a session. Sessions tickets have been admitted to are kept, so the
+   * attendance record stays intact.
+   */
+  async deleteSession(sessionId: string, organizerId: string) {
+    const session = await this.getOwnedSession(sessionId, organizerId);
+
+    const admissionCount = await this.prisma.sessionAdmission.count({
+      where: { sessionId: session.id },
+    });
+    if (admissionCount > 0) {
+      throw new BadRequestException(
+        'Tickets have already been admitted to this session, so it cannot be deleted.',
+      );
+    }
+
+    await this.prisma.eventSession.delete({ where: { id: sessionId } });
+
+    return { message: 'Session deleted successfully' };
+  }
+
+  private formatSession(session: {
+    id: string;
+    name: string;
+    startsAt: Date;
+    endsAt: Date;
+    sortOrder: number;
+    tiers: { id: string; name: string }[];
+    _count: { admissions: number };
+  }) {
+    return {
+      id: session.id,
+      name: session.name,
+      startsAt: session.startsAt,
+      endsAt: session.endsAt,
+      sortOrder: session.sortOrder,
+      tiers: session.tiers,
+      admissionCount: session._count.admissions,
+    };
+  }
+
+  private async assertValidSession(
+    eventId: string,
+    rules: { startsAt: string; endsAt: string; tierIds?: string[] },
+  ) {
+    if (new Date(rules.startsAt) >= new Date(rules.endsAt)) {
+      throw new BadRequestException('Session end time must be after its start time');
+    }
+
+    if (rules.tierIds && rules.tierIds.length > 0) {
+      const tierCount = await this.prisma.ticketTier.count({
+        where: { eventId, id: { in: rules.tierIds } },
+      });
+      if (tierCount !== new Set(rules.tierIds).size) {
+        throw new BadRequestException('Sessions can only include tiers of this event');
+      }
+    }
+  }
+
+  private async getOwnedEvent(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, organizerId: true, title: true },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage sessions for your own events');
+    }
+
+    return event;
+  }
+
+  private async getOwnedSession(sessionId: string, organizerId: string) {
+    const session = await this.prisma.eventSession.findUnique({
+      where: { id: sessionId },
+      include: { event: { select: { organizerId: true } } },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    if (session.event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only manage sessions for your own events');
+    }
+
+    return session;
+  }
+}
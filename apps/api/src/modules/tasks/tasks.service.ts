@@ -49,7 +49,7 @@ export class TasksService {
         const maturedSalesResult = await this.prisma.ledgerEntry.aggregate({
           where: {
             organizerId: organizer.id,
-            type: 'TICKET_SALE',
+            type: { in: ['TICKET_SALE', 'RESALE_ROYALTY'] }, // Resale royalties mature like sales
             entryDate: { lte: twentyFourHoursAgo },
           },
           _sum: { amount: true },
@@ -61,27 +61,14 @@ export class TasksService {
             : Number(maturedSalesResult._sum.amount)
           : 0;
 
-        // Sum all refunds - note: refunds are stored as NEGATIVE amounts in ledger
-        // So we need to get the absolute value of refunds
-        const refundsResult = await this.prisma.ledgerEntry.aggregate({
-          where: {
-            organizerId: organizer.id,
-            type: 'REFUND',
-          },
-          _sum: { amount: true },
-        });
+        // Refunds the gateway couldn't complete were credited back, so they don't count
+        const totalRefunds = await this.getNetRefunds(organizer.id);
 
-        // Refunds are negative, so Math.abs to get the actual refund amount
-        const totalRefunds = refundsResult._sum.amount
-          ? Math.abs(
-              refundsResult._sum.amount instanceof Decimal
-                ? refundsResult._sum.amount.toNumber()
-                : Number(refundsResult._sum.amount),
-            )
-          : 0;
+        // Chargebacks come straight off the available balance, so they count like refunds
+        const totalChargebacks = await this.getNetChargebacks(organizer.id);
 
-        // Calculate what should be available (matured sales minus absolute refunds)
-        const shouldBeAvailableOrWithdrawn = totalMaturedSales - totalRefunds;
+        // Calculate what should be available (matured sales minus absolute refunds and chargebacks)
+        const shouldBeAvailableOrWithdrawn = totalMaturedSales - totalRefunds - totalChargebacks;
 
         // Current available + withdrawn is what's already been released
         const currentAvailable =
@@ -196,7 +183,7 @@ export class TasksService {
       const maturedSalesResult = await this.prisma.ledgerEntry.aggregate({
         where: {
           organizerId,
-          type: 'TICKET_SALE',
+          type: { in: ['TICKET_SALE', 'RESALE_ROYALTY'] }, // Resale royalties mature like sales
           entryDate: { lte: twentyFourHoursAgo },
         },
         _sum: { amount: true },
@@ -208,24 +195,11 @@ export class TasksService {
           : Number(maturedSalesResult._sum.amount)
         : 0;
 
-      // Sum all refunds (absolute value since they're stored as negative)
-      const refundsResult = await this.prisma.ledgerEntry.aggregate({
-        where: {
-          organizerId,
-          type: 'REFUND',
-        },
-        _sum: { amount: true },
-      });
+      const totalRefunds = await this.getNetRefunds(organizerId);
 
-      const totalRefunds = refundsResult._sum.amount
-        ? Math.abs(
-            refundsResult._sum.amount instanceof Decimal
-              ? refundsResult._sum.amount.toNumber()
-              : Number(refundsResult._sum.amount),
-          )
-        : 0;
+      const totalChargebacks = await this.getNetChargebacks(organizerId);
 
-      const shouldBeAvailableOrWithdrawn = totalMaturedSales - totalRefunds;
+      const shouldBeAvailableOrWithdrawn = totalMaturedSales - totalRefunds - totalChargebacks;
 
       const currentAvailable =
         organizer.availableBalance instanceof Decimal
@@ -276,7 +250,7 @@ export class TasksService {
    * Cron job that runs every 10 minutes to check and recover stuck pending payments.
    *
    * This automatically verifies payments that are stuck in PENDING status
-   * and processes them if they were successful on Monnify.
+   * and processes them if they were successful on their payment gateway.
    *
    * Helps recover payments where webhook failed or was delayed.
    */
@@ -313,56 +287,92 @@ export class TasksService {
 
       // Import services dynamically
       const { MonnifyService } = await import('../payments/monnify.service');
+      const { PaystackService } = await import('../payments/paystack.service');
+      const { PaymentProvidersService } = await import('../payments/payment-providers.service');
       const { PaymentsService } = await import('../payments/payments.service');
+      const { PromoCodesService } = await import('../promo-codes/promo-codes.service');
+      const { AccessCodesService } = await import('../access-codes/access-codes.service');
+      const { ResaleService } = await import('../resale/resale.service');
+      const { RegistrationQuestionsService } =
+        await import('../registration-questions/registration-questions.service');
       const { TicketsService } = await import('../tickets/tickets.service');
       const { LedgerService } = await import('../ledger/ledger.service');
       const { EmailService } = await import('../emails/email.service');
       const { QrService } = await import('../qr/qr.service');
+      const { QrSigningService } = await import('../qr/qr-signing.service');
+      const { ScanEventsService } = await import('../scan-events/scan-events.service');
+      const { TicketEntryService } = await import('../tickets/ticket-entry.service');
       const { MediaService } = await import('../media/media.service');
       const { ConfigService } = await import('@nestjs/config');
+      const { appConfig } = await import('../../config');
 
-      const configService = new ConfigService();
-      const monnifyService = new MonnifyService(configService);
+      // App settings such as qrSigningSecret aren't plain env names, so load them explicitly
+      const configService = new ConfigService(appConfig());
+      const paymentProviders = new PaymentProvidersService(
+        this.prisma,
+        configService,
+        new MonnifyService(configService),
+        new PaystackService(configService),
+      );
       const mediaService = new MediaService(configService);
-      const qrService = new QrService(mediaService);
+      const qrService = new QrService(
+        mediaService,
+        new QrSigningService(this.prisma, configService),
+      );
       const emailService = new EmailService(configService);
-      const ticketsService = new TicketsService(this.prisma, emailService, qrService);
+      const ticketsService = new TicketsService(
+        this.prisma,
+        emailService,
+        qrService,
+        new ScanEventsService(this.prisma),
+        new TicketEntryService(this.prisma),
+      );
       const ledgerService = new LedgerService(this.prisma);
 
       const paymentsService = new PaymentsService(
         this.prisma,
         configService,
-        monnifyService,
+        paymentProviders,
         ticketsService,
         ledgerService,
         this,
+        new PromoCodesService(this.prisma),
+        new AccessCodesService(this.prisma),
+        new ResaleService(
+          this.prisma,
+          configService,
+          paymentProviders,
+          ticketsService,
+          ledgerService,
+          emailService,
+        ),
+        new RegistrationQuestionsService(this.prisma),
       );
 
       for (const payment of stuckPayments) {
         try {
-          const transactionRef = payment.monnifyTransactionRef || payment.reference;
+          const transactionRef = payment.providerTransactionRef || payment.reference;
 
-          // Verify with Monnify - pass both transaction ref and payment ref
-          const monnifyData = await monnifyService.verifyTransaction(
-            transactionRef,
-            payment.reference,
-          );
+          // Verify with the payment's gateway - pass both transaction ref and payment ref
+          const gatewayData = await paymentProviders
+            .get(payment.provider)
+            .verifyTransaction(transactionRef, payment.reference);
 
-          if (monnifyData.status === 'paid' || monnifyData.status === 'success') {
+          if (gatewayData.status === 'paid') {
             // Process the payment
             await (paymentsService as any).handleSuccessfulPayment({
               reference: payment.reference,
-              amount: monnifyData.amount,
-              id: monnifyData.transactionReference,
-              paid_at: monnifyData.paidOn,
-              customer: monnifyData.customer,
+              amount: gatewayData.amount,
+              id: gatewayData.transactionReference,
+              paid_at: gatewayData.paidOn,
+              customer: gatewayData.customer,
             });
 
             results.recovered++;
             this.logger.log(`Auto-recovered stuck payment: ${payment.reference}`);
           } else {
             this.logger.log(
-              `Payment ${payment.reference} status on Monnify: ${monnifyData.status}`,
+              `Payment ${payment.reference} status on ${payment.provider}: ${gatewayData.status}`,
             );
           }
         } catch (error) {
@@ -383,4 +393,111 @@ export class TasksService {
       return { checked: 0, recovered: 0, failed: 0, error: error.message };
     }
   }
+
+  /**
+   * Cron job that runs every minute to release inventory holds.
+   *
+   * A hold is released once its window has passed without payment, or as soon as
+   * its payment is marked FAILED. Released seats go back on sale immediately.
+   * Holds whose payment later succeeds are still honoured - see convertInventoryHolds.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseExpiredInventoryHolds() {
+    try {
+      const staleHolds = await this.prisma.inventoryHold.findMany({
+        where: {
+          status: 'ACTIVE',
+          OR: [{ expiresAt: { lte: new Date() } }, { payment: { status: 'FAILED' } }],
+        },
+        select: { paymentId: true },
+        distinct: ['paymentId'],
+        take: 100,
+      });
+
+      let released = 0;
+      for (const hold of staleHolds) {
+        released += await this.releaseInventoryHolds(hold.paymentId);
+      }
+
+      if (released > 0) {
+        this.logger.log(`Released ${released} expired or failed inventory holds`);
+      }
+
+      return { released };
+    } catch (error) {
+      this.logger.error('Error releasing inventory holds:', error);
+      return { released: 0, error: error.message };
+    }
+  }
+
+  /**
+   * Release every active seat hold of a payment and return the seats to the tiers.
+   * Safe to call concurrently with hold conversion: a hold is only released if it
+   * is still ACTIVE when we claim it.
+   */
+  async releaseInventoryHolds(paymentId: string): Promise<number> {
+    const holds = await this.prisma.inventoryHold.findMany({
+      where: { paymentId, status: 'ACTIVE' },
+    });
+
+    let released = 0;
+    for (const hold of holds) {
+      await this.prisma.$transaction(async (tx: any) => {
+        const claimed = await tx.inventoryHold.updateMany({
+          where: { id: hold.id, status: 'ACTIVE' },
+          data: { status: 'RELEASED', releasedAt: new Date() },
+        });
+
+        if (claimed.count > 0) {
+          await tx.ticketTier.update({
+            where: { id: hold.tierId },
+            data: { held: { decrement: hold.quantity } },
+          });
+          released++;
+        }
+      });
+    }
+
+    return released;
+  }
+
+  /**
+   * Refunds less those the gateway couldn't complete, which recordRefundReversal
+   * credited back as ADJUSTMENT entries carrying the refund.
+   */
+  private async getNetRefunds(organizerId: string): Promise<number> {
+    const [refunds, reversals] = await Promise.all([
+      this.prisma.ledgerEntry.aggregate({
+        where: { organizerId, type: 'REFUND' },
+        _sum: { amount: true },
+      }),
+      this.prisma.ledgerEntry.aggregate({
+        where: { organizerId, type: 'ADJUSTMENT', refundId: { not: null } },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    // Refunds are stored as negative amounts
+    return Math.abs(Number(refunds._sum.amount || 0)) - Number(reversals._sum.amount || 0);
+  }
+
+  /**
+   * Chargebacks less those given back by a won dispute (the ADJUSTMENT credits
+   * without a refund). Both move the available balance directly.
+   */
+  private async getNetChargebacks(organizerId: string): Promise<number> {
+    const [chargebacks, reversals] = await Promise.all([
+      this.prisma.ledgerEntry.aggregate({
+        where: { organizerId, type: 'CHARGEBACK' },
+        _sum: { amount: true },
+      }),
+      this.prisma.ledgerEntry.aggregate({
+        where: { organizerId, type: 'ADJUSTMENT', refundId: null },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    // Chargebacks are stored as negative amounts
+    return Math.abs(Number(chargebacks._sum.amount || 0)) - Number(reversals._sum.amount || 0);
+  }
 }
@@ -0,0 +1,238 @@
+import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { once } from 'events';
+import { Writable } from 'stream';
+import * as ExcelJS from 'exceljs';
+import { PrismaService } from '../../database/prisma.service';
+import { toCsvValue } from '../../common/utils/csv.utils';
+import { TICKET_ANSWERS_SELECT } from '../registration-questions/registration-questions.service';
+import { AttendeeExportFormat, ExportAttendeesDto } from './dto';
+
+// Tickets are read and written in pages of this size, so a 20k-ticket event never sits
+// in memory all at once
+const EXPORT_BATCH_SIZE = 1000;
+
+const EXPORT_TICKET_SELECT = {
+  id: true,
+  ticketNumber: true,
+  status: true,
+  buyerFirstName: true,
+  buyerLastName: true,
+  buyerEmail: true,
+  buyerPhone: true,
+  amountPaid: true,
+  isComp: true,
+  createdAt: true,
+  checkedInAt: true,
+  tier: { select: { name: true } },
+  answers: TICKET_ANSWERS_SELECT,
+} as const;
+
+type ExportTicket = Prisma.TicketGetPayload<{ select: typeof EXPORT_TICKET_SELECT }>;
+
+type ExportValue = string | number | Date | null;
+
+interface ExportColumn {
+  header: string;
+  width: number; // Spreadsheet column width, in characters
+  value: (ticket: ExportTicket) => ExportValue;
+}
+
+const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: 'Ticket Number', width: 22, value: (t) => t.ticketNumber },
+  { header: 'Tier', width: 18, value: (t) => t.tier.name },
+  { header: 'Status', width: 12, value: (t) => t.status },
+  { header: 'First Name', width: 16, value: (t) => t.buyerFirstName },
+  { header: 'Last Name', width: 16, value: (t) => t.buyerLastName },
+  { header: 'Email', width: 30, value: (t) => t.buyerEmail },
+  { header: 'Phone', width: 16, value: (t) => t.buyerPhone },
+  { header: 'Amount Paid', width: 12, value: (t) => Number(t.amountPaid) },
+  { header: 'Complimentary', width: 14, value: (t) => (t.isComp ? 'Yes' : 'No') },
+  { header: 'Purchased At', width: 20, value: (t) => t.createdAt },
+  { header: 'Checked In At', width: 20, value: (t) => t.checkedInAt },
+];
+
+/**
+ * One column per registration question, after the standard ones. Tickets the question
+ * wasn't asked for are left blank.
+ */
+function questionColumns(questions: { id: string; label: string }[]): ExportColumn[] {
+  return questions.map((question) => ({
+    header: question.label,
+    width: 24,
+    value: (t) =>
+      t.answers.find((answer) => answer.question.id === question.id)?.values.join(', ') ?? null,
+  }));
+}
+
+const CONTENT_TYPES: Record<AttendeeExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface AttendeeExport {
+  filename: string;
+  contentType: string;
+  /** Stream the file into the response, a page of tickets at a time */
+  writeTo: (out: Writable) => Promise<void>;
+}
+
+/**
+ * Downloadable attendee lists for organizers, as CSV or Excel. Files are streamed as
+ * tickets are read, so even the largest events export in constant memory.
+ */
+@Injectable()
+export class AttendeeExportService {
+  private readonly logger = new Logger(AttendeeExportService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Check the organizer owns the event and describe the export, ready to be streamed.
+   * Nothing is read until writeTo is called, so errors here still reach the client as JSON.
+   */
+  async exportAttendees(
+    eventId: string,
+    organizerId: string,
+    dto: ExportAttendeesDto,
+  ): Promise<AttendeeExport> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        organizerId: true,
+        slug: true,
+        questions: { select: { id: true, label: true }, orderBy: { sortOrder: 'asc' } },
+      },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only export attendees for your own events');
+    }
+
+    const format = dto.format || 'csv';
+    const where = this.buildWhere(eventId, dto);
+    const columns = [...EXPORT_COLUMNS, ...questionColumns(event.questions)];
+
+    return {
+      filename: `attendees-${event.slug}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      writeTo: async (out) => {
+        try {
+          const count =
+            format === 'xlsx'
+              ? await this.writeXlsx(where, columns, out)
+              : await this.writeCsv(where, columns, out);
+          this.logger.log(`Exported ${count} attendees for event ${eventId} as ${format}`);
+        } catch (error) {
+          // Headers are already sent, so all we can do is cut the download short
+          this.logger.error(`Attendee export failed for event ${eventId}:`, error);
+          out.destroy();
+        }
+      },
+    };
+  }
+
+  private buildWhere(eventId: string, dto: ExportAttendeesDto): Prisma.TicketWhereInput {
+    return {
+      eventId,
+      ...(dto.tierId && { tierId: dto.tierId }),
+      ...(dto.status && { status: dto.status }),
+      ...((dto.purchasedFrom || dto.purchasedTo) && {
+        createdAt: {
+          ...(dto.purchasedFrom && { gte: new Date(dto.purchasedFrom) }),
+          ...(dto.purchasedTo && { lte: new Date(dto.purchasedTo) }),
+        },
+      }),
+      ...((dto.checkedInFrom || dto.checkedInTo) && {
+        checkedInAt: {
+          ...(dto.checkedInFrom && { gte: new Date(dto.checkedInFrom) }),
+          ...(dto.checkedInTo && { lte: new Date(dto.checkedInTo) }),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Matching tickets in purchase order, one page at a time
+   */
+  private async *ticketBatches(where: Prisma.TicketWhereInput) {
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await this.prisma.ticket.findMany({
+        where,
+        select: EXPORT_TICKET_SELECT,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (batch.length === 0) return;
+
+      yield batch;
+
+      if (batch.length < EXPORT_BATCH_SIZE) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  private async writeCsv(where: Prisma.TicketWhereInput, columns: ExportColumn[], out: Writable) {
+    let count = 0;
+
+    await this.write(out, this.toCsvRow(columns.map((column) => column.header)));
+    for await (const batch of this.ticketBatches(where)) {
+      const rows = batch.map((ticket) =>
+        this.toCsvRow(columns.map((column) => column.value(ticket))),
+      );
+      await this.write(out, rows.join(''));
+      count += batch.length;
+    }
+    out.end();
+
+    return count;
+  }
+
+  private async writeXlsx(where: Prisma.TicketWhereInput, columns: ExportColumn[], out: Writable) {
+    let count = 0;
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+    const sheet = workbook.addWorksheet('Attendees');
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width,
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    for await (const batch of this.ticketBatches(where)) {
+      if (out.destroyed) return count; // Download cancelled
+      for (const ticket of batch) {
+        sheet.addRow(columns.map((column) => column.value(ticket))).commit();
+      }
+      count += batch.length;
+    }
+
+    sheet.commit();
+    await workbook.commit(); // Ends the output stream
+
+    return count;
+  }
+
+  /**
+   * Write to the response, waiting for it to drain when the client reads slower than we query
+   */
+  private async write(out: Writable, chunk: string) {
+    if (out.destroyed) {
+      throw new Error('Download cancelled');
+    }
+    if (!out.write(chunk)) {
+      await Promise.race([once(out, 'drain'), once(out, 'close')]);
+    }
+  }
+
+  private toCsvRow(values: ExportValue[]) {
+    return values.map((value) => toCsvValue(value)).join(',') + '\r\n';
+  }
+}
@@ -0,0 +1,43 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsIn, IsOptional, IsString } from 'class-validator';
+import { TicketStatus } from '../../../common/types/prisma-enums';
+
+export const ATTENDEE_EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type AttendeeExportFormat = (typeof ATTENDEE_EXPORT_FORMATS)[number];
+
+export class ExportAttendeesDto {
+  @ApiPropertyOptional({ enum: ATTENDEE_EXPORT_FORMATS, default: 'csv' })
+  @IsOptional()
+  @IsIn(ATTENDEE_EXPORT_FORMATS)
+  format?: AttendeeExportFormat;
+
+  @ApiPropertyOptional({ description: 'Only tickets of this tier' })
+  @IsOptional()
+  @IsString()
+  tierId?: string;
+
+  @ApiPropertyOptional({ enum: TicketStatus })
+  @IsOptional()
+  @IsIn(Object.values(TicketStatus))
+  status?: TicketStatus;
+
+  @ApiPropertyOptional({ description: 'Only tickets bought at or after this time' })
+  @IsOptional()
+  @IsDateString()
+  purchasedFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Only tickets bought at or before this time' })
+  @IsOptional()
+  @IsDateString()
+  purchasedTo?: string;
+
+  @ApiPropertyOptional({ description: 'Only tickets first checked in at or after this time' })
+  @IsOptional()
+  @IsDateString()
+  checkedInFrom?: string;
+
+  @ApiPropertyOptional({ description: 'Only tickets first checked in at or before this time' })
+  @IsOptional()
+  @IsDateString()
+  checkedInTo?: string;
+}
@@ -1 +1,2 @@
 export * from './check-in.dto';
+export * from './export-attendees.dto';
@@ -0,0 +1,353 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { TicketStatus } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+
+/** The ticket fields entry decisions are made on */
+export interface EntryTicket {
+  id: string;
+  status: TicketStatus;
+  checkedOut: boolean;
+  entryDay: string | null;
+  entriesOnDay: number;
+  tier: { reentryEnabled: boolean; maxEntriesPerDay: number | null };
+}
+
+export const ENTRY_TICKET_SELECT = {
+  id: true,
+  status: true,
+  checkedOut: true,
+  entryDay: true,
+  entriesOnDay: true,
+  tier: { select: { reentryEnabled: true, maxEntriesPerDay: true } },
+} as const;
+
+/** A session of a multi-day event that tickets are admitted to separately */
+export interface EntrySession {
+  id: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+// Whole-event check-in opens 5 hours before the start and closes 24 hours after the end
+const EVENT_OPENS_BEFORE_MS = 5 * 60 * 60 * 1000;
+const EVENT_CLOSES_AFTER_MS = 24 * 60 * 60 * 1000;
+// Session check-in opens 2 hours before the session and closes when it ends
+const SESSION_OPENS_BEFORE_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Why a ticket can't enter right now:
+ * - ALREADY_INSIDE: a duplicate scan - the ticket is checked in and hasn't been checked out
+ * - DAILY_LIMIT: the tier's entries for today are used up
+ * - INVALID_STATUS: refunded, cancelled, etc.
+ * - NO_SESSION_ACCESS: the ticket's tier doesn't include the session being scanned for
+ */
+export interface EntryRefusal {
+  reason: 'ALREADY_INSIDE' | 'DAILY_LIMIT' | 'INVALID_STATUS' | 'NO_SESSION_ACCESS';
+  message: string;
+}
+
+export type EntryResult =
+  | { admitted: true; reentry: boolean }
+  | { admitted: false; refusal: EntryRefusal };
+
+export type ExitResult =
+  | { checkedOut: true }
+  | { checkedOut: false; message: string; duplicate: boolean }; // duplicate: already out
+
+/** Calendar day an entry counts towards for daily limits, in the platform's (Lagos) time */
+export function entryDay(at: Date): string {
+  return at.toLocaleDateString('en-CA', { timeZone: 'Africa/Lagos' });
+}
+
+/**
+ * Ticket entry state: check-in, check-out at the exit and re-entry.
+ *
+ * A ticket's first entry flips it from ACTIVE to CHECKED_IN, as it always has. Tiers with
+ * re-entry enabled can then be checked out and in again, up to the tier's daily limit.
+ * Every transition is a conditional `updateMany` on the state it was decided on, so two
+ * gates scanning the same ticket at once can't both let it in.
+ *
+ * Multi-day events can also scan per session instead: a ticket is then admitted once to
+ * each session its tier includes, independently of its whole-event entry state.
+ */
+@Injectable()
+export class TicketEntryService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * The session a scan is for, which must belong to the ticket's event
+   */
+  async getSession(sessionId: string, eventId: string): Promise<EntrySession> {
+    const session = await this.prisma.eventSession.findFirst({
+      where: { id: sessionId, eventId },
+      select: { id: true, name: true, startsAt: true, endsAt: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found for this event');
+    }
+
+    return session;
+  }
+
+  /**
+   * Why check-in is closed at the given time, or null if it's open. Scans for a session
+   * use the session's times; everything else uses the event's.
+   */
+  getWindowRefusal(
+    event: { startDate: Date | null; endDate: Date | null },
+    session: EntrySession | null,
+    at = new Date(),
+  ): string | null {
+    if (session) {
+      const opensAt = new Date(session.startsAt.getTime() - SESSION_OPENS_BEFORE_MS);
+      if (at < opensAt) {
+        return `Check-in for ${session.name} opens at ${opensAt.toLocaleString()}`;
+      }
+      if (at > session.endsAt) {
+        return `${session.name} has ended. Check-in is no longer available.`;
+      }
+      return null;
+    }
+
+    // startDate is guaranteed to exist for published events with tickets
+    const eventStart = new Date(event.startDate!);
+    if (at.getTime() < eventStart.getTime() - EVENT_OPENS_BEFORE_MS) {
+      return `Check-in opens 5 hours before event start (${eventStart.toLocaleString()})`;
+    }
+
+    // Late check-ins are allowed for 24 hours after the end
+    const eventEnd = event.endDate ? new Date(event.endDate) : eventStart;
+    if (at.getTime() > eventEnd.getTime() + EVENT_CLOSES_AFTER_MS) {
+      return 'Event has ended. Check-in is no longer available.';
+    }
+
+    return null;
+  }
+
+  /**
+   * Why the ticket can't enter at the given time, or null if it can. Callers check this
+   * before `admit` to report a refusal without attempting the update.
+   */
+  getRefusal(ticket: EntryTicket, at = new Date()): EntryRefusal | null {
+    if (ticket.status === 'ACTIVE') return null;
+
+    if (ticket.status !== 'CHECKED_IN') {
+      return {
+        reason: 'INVALID_STATUS',
+        message: `Cannot check in ticket with status: ${ticket.status}`,
+      };
+    }
+
+    if (!ticket.tier.reentryEnabled) {
+      return { reason: 'ALREADY_INSIDE', message: 'Ticket already checked in' };
+    }
+
+    if (!ticket.checkedOut) {
+      return {
+        reason: 'ALREADY_INSIDE',
+        message: 'Ticket already checked in - it must be checked out at the exit before re-entry',
+      };
+    }
+
+    const maxEntries = ticket.tier.maxEntriesPerDay;
+    if (maxEntries && ticket.entryDay === entryDay(at) && ticket.entriesOnDay >= maxEntries) {
+      return {
+        reason: 'DAILY_LIMIT',
+        message: `This ticket has used all ${maxEntries} of today's entries`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Let a ticket in: its first check-in, or a re-entry after checking out.
+   */
+  async admit(
+    ticket: EntryTicket,
+    checkedInBy: string | null,
+    at = new Date(),
+  ): Promise<EntryResult> {
+    const refusal = this.getRefusal(ticket, at);
+    if (refusal) {
+      return { admitted: false, refusal };
+    }
+
+    if (ticket.status === 'ACTIVE') {
+      if (await this.recordFirstEntry(ticket.id, checkedInBy, at)) {
+        return { admitted: true, reentry: false };
+      }
+    } else if (await this.recordReentry(ticket, checkedInBy, at)) {
+      return { admitted: true, reentry: true };
+    }
+
+    // Another scan changed the ticket first - report its state now
+    const current = await this.prisma.ticket.findUniqueOrThrow({
+      where: { id: ticket.id },
+      select: ENTRY_TICKET_SELECT,
+    });
+    return {
+      admitted: false,
+      refusal: this.getRefusal(current, at) || {
+        reason: 'ALREADY_INSIDE',
+        message: 'Ticket already checked in',
+      },
+    };
+  }
+
+  /**
+   * Why the ticket can't be admitted to a session, or null if it can. A tier with no
+   * sessions of its own admits to every session.
+   */
+  async getSessionRefusal(
+    ticket: EntryTicket & { tierId: string },
+    session: EntrySession,
+  ): Promise<EntryRefusal | null> {
+    if (ticket.status !== 'ACTIVE' && ticket.status !== 'CHECKED_IN') {
+      return {
+        reason: 'INVALID_STATUS',
+        message: `Cannot check in ticket with status: ${ticket.status}`,
+      };
+    }
+
+    const tierIncludesSession = await this.prisma.ticketTier.count({
+      where: {
+        id: ticket.tierId,
+        OR: [{ sessions: { none: {} } }, { sessions: { some: { id: session.id } } }],
+      },
+    });
+    if (!tierIncludesSession) {
+      return {
+        reason: 'NO_SESSION_ACCESS',
+        message: `This ticket type does not include ${session.name}`,
+      };
+    }
+
+    const admission = await this.prisma.sessionAdmission.findUnique({
+      where: { ticketId_sessionId: { ticketId: ticket.id, sessionId: session.id } },
+    });
+    if (admission) {
+      return { reason: 'ALREADY_INSIDE', message: `Ticket already admitted to ${session.name}` };
+    }
+
+    return null;
+  }
+
+  /**
+   * Admit a ticket to one session. The first admission to any session also checks the
+   * ticket in, so it counts as attended.
+   */
+  async admitToSession(
+    ticket: EntryTicket & { tierId: string },
+    session: EntrySession,
+    admittedBy: string | null,
+    at = new Date(),
+  ): Promise<EntryResult> {
+    const refusal = await this.getSessionRefusal(ticket, session);
+    if (refusal) {
+      return { admitted: false, refusal };
+    }
+
+    try {
+      await this.prisma.sessionAdmission.create({
+        data: { ticketId: ticket.id, sessionId: session.id, admittedBy, admittedAt: at },
+      });
+    } catch (error) {
+      // Another gate admitted the ticket to this session first
+      if (error.code !== 'P2002') throw error;
+      return {
+        admitted: false,
+        refusal: {
+          reason: 'ALREADY_INSIDE',
+          message: `Ticket already admitted to ${session.name}`,
+        },
+      };
+    }
+
+    if (ticket.status === 'ACTIVE') {
+      await this.recordFirstEntry(ticket.id, admittedBy, at);
+    }
+
+    return { admitted: true, reentry: false };
+  }
+
+  /**
+   * Atomically move an ACTIVE ticket to CHECKED_IN. Returns false if it was no longer ACTIVE.
+   */
+  async recordFirstEntry(ticketId: string, checkedInBy: string | null, at: Date): Promise<boolean> {
+    const { count } = await this.prisma.ticket.updateMany({
+      where: { id: ticketId, status: 'ACTIVE' }, // CRITICAL: only if still ACTIVE
+      data: {
+        status: 'CHECKED_IN',
+        checkedInAt: at,
+        checkedInBy,
+        checkedOut: false,
+        lastEntryAt: at,
+        lastEntryBy: checkedInBy,
+        entryCount: 1,
+        entryDay: entryDay(at),
+        entriesOnDay: 1,
+      },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Check a ticket out at the exit so it can re-enter later. Only re-entry tiers can
+   * check out; for everyone else a check-in is final.
+   */
+  async checkOut(ticket: EntryTicket, at = new Date()): Promise<ExitResult> {
+    if (ticket.status !== 'CHECKED_IN') {
+      return { checkedOut: false, message: 'Ticket is not checked in', duplicate: false };
+    }
+
+    if (!ticket.tier.reentryEnabled) {
+      return {
+        checkedOut: false,
+        message: 'This ticket type does not allow re-entry',
+        duplicate: false,
+      };
+    }
+
+    const { count } = await this.prisma.ticket.updateMany({
+      where: { id: ticket.id, status: 'CHECKED_IN', checkedOut: false },
+      data: { checkedOut: true, lastExitAt: at },
+    });
+
+    return count === 1
+      ? { checkedOut: true }
+      : { checkedOut: false, message: 'Ticket is already checked out', duplicate: true };
+  }
+
+  // The first entry on a new day resets the day's count; later ones must stay under the limit
+  private async recordReentry(ticket: EntryTicket, checkedInBy: string | null, at: Date) {
+    const day = entryDay(at);
+    const entry = { checkedOut: false, lastEntryAt: at, lastEntryBy: checkedInBy };
+
+    const newDay = await this.prisma.ticket.updateMany({
+      where: {
+        id: ticket.id,
+        status: 'CHECKED_IN',
+        checkedOut: true,
+        OR: [{ entryDay: null }, { entryDay: { not: day } }],
+      },
+      data: { ...entry, entryCount: { increment: 1 }, entryDay: day, entriesOnDay: 1 },
+    });
+    if (newDay.count === 1) return true;
+
+    const maxEntries = ticket.tier.maxEntriesPerDay;
+    const sameDay = await this.prisma.ticket.updateMany({
+      where: {
+        id: ticket.id,
+        status: 'CHECKED_IN',
+        checkedOut: true,
+        entryDay: day,
+        ...(maxEntries && { entriesOnDay: { lt: maxEntries } }),
+      },
+      data: { ...entry, entryCount: { increment: 1 }, entriesOnDay: { increment: 1 } },
+    });
+    return sameDay.count === 1;
+  }
+}
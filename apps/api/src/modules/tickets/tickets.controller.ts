@@ -1,6 +1,9 @@
-import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Query, Headers, UseGuards, Res } from '@nestjs/common';
 import { ApiTags, ApiBearerAuth, ApiOperation } from '@nestjs/swagger';
+import { Response } from 'express';
 import { TicketsService } from './tickets.service';
+import { AttendeeExportService } from './attendee-export.service';
+import { ExportAttendeesDto } from './dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
@@ -10,7 +13,10 @@ import { UserRole } from '../../common/types/prisma-enums';
 @ApiTags('Tickets')
 @Controller('tickets')
 export class TicketsController {
-  constructor(private readonly ticketsService: TicketsService) {}
+  constructor(
+    private readonly ticketsService: TicketsService,
+    private readonly attendeeExportService: AttendeeExportService,
+  ) {}
 
   @UseGuards(JwtAuthGuard)
   @Get('my-tickets')
@@ -42,8 +48,12 @@ export class TicketsController {
   @Post(':ticketId/check-in')
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ summary: 'Check in ticket (Organizer)' })
-  async checkIn(@Param('ticketId') ticketId: string, @CurrentUser('id') userId: string) {
-    return this.ticketsService.checkIn(ticketId, userId);
+  async checkIn(
+    @Param('ticketId') ticketId: string,
+    @CurrentUser('id') userId: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.ticketsService.checkIn(ticketId, userId, userAgent);
   }
 
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -51,18 +61,37 @@ export class TicketsController {
   @Post('validate-qr')
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ summary: 'Validate QR code' })
-  async validateQr(@Body('qrCode') qrCode: string, @Body('eventId') eventId: string) {
-    return this.ticketsService.validateQr(qrCode, eventId);
+  async validateQr(
+    @Body('qrCode') qrCode: string,
+    @Body('eventId') eventId: string,
+    @CurrentUser('id') userId: string,
+    @Headers('user-agent') userAgent?: string,
+    @Body('sessionId') sessionId?: string,
+  ) {
+    return this.ticketsService.validateQr(qrCode, eventId, {
+      source: 'ORGANIZER',
+      userId,
+      userAgent,
+      sessionId,
+    });
   }
 
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ORGANIZER)
   @Post('scan')
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Scan QR code and check in' })
-  async scanQr(@Body('qrCode') qrCode: string, @Body('eventId') eventId: string) {
+  @ApiOperation({ summary: 'Scan QR code and check in, optionally to one session' })
+  async scanQr(
+    @Body('qrCode') qrCode: string,
+    @Body('eventId') eventId: string,
+    @CurrentUser('id') userId: string,
+    @Headers('user-agent') userAgent?: string,
+    @Body('sessionId') sessionId?: string,
+  ) {
+    const scan = { source: 'ORGANIZER' as const, userId, userAgent, sessionId };
+
     // First validate, then check in if valid
-    const validation = await this.ticketsService.validateQr(qrCode, eventId);
+    const validation = await this.ticketsService.validateQr(qrCode, eventId, scan, true);
     if (!validation.valid || !validation.ticket) {
       return {
         success: false,
@@ -72,7 +101,11 @@ export class TicketsController {
     }
 
     // Check in the ticket
-    const result = await this.ticketsService.checkInTicket(validation.ticket.ticketNumber);
+    const result = await this.ticketsService.checkInTicket(
+      validation.ticket.ticketNumber,
+      undefined,
+      scan,
+    );
     return {
       success: result.success,
       message: result.message,
@@ -80,6 +113,24 @@ export class TicketsController {
     };
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @Post('check-out')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Scan QR code and check out at the exit (re-entry tiers)' })
+  async checkOut(
+    @Body('qrCode') qrCode: string,
+    @Body('eventId') eventId: string,
+    @CurrentUser('id') userId: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.ticketsService.checkOutTicket(qrCode, eventId, {
+      source: 'ORGANIZER',
+      userId,
+      userAgent,
+    });
+  }
+
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ORGANIZER)
   @Get('event/:eventId')
@@ -92,6 +143,24 @@ export class TicketsController {
     return this.ticketsService.getEventTickets(eventId, profile?.id);
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @Get('event/:eventId/export')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Download the attendee list as CSV or Excel (Organizer)' })
+  async exportEventAttendees(
+    @Param('eventId') eventId: string,
+    @Query() dto: ExportAttendeesDto,
+    @CurrentUser('organizerProfile') profile: any,
+    @Res() res: Response,
+  ) {
+    const file = await this.attendeeExportService.exportAttendees(eventId, profile?.id, dto);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    await file.writeTo(res);
+  }
+
   @UseGuards(JwtAuthGuard)
   @Get(':id')
   @ApiBearerAuth('JWT-auth')
@@ -1,14 +1,17 @@
 import { Module } from '@nestjs/common';
 import { TicketsController } from './tickets.controller';
 import { TicketsService } from './tickets.service';
+import { TicketEntryService } from './ticket-entry.service';
+import { AttendeeExportService } from './attendee-export.service';
 import { QrModule } from '../qr/qr.module';
 import { LedgerModule } from '../ledger/ledger.module';
 import { EmailModule } from '../emails/email.module';
+import { ScanEventsModule } from '../scan-events/scan-events.module';
 
 @Module({
-  imports: [QrModule, LedgerModule, EmailModule],
+  imports: [QrModule, LedgerModule, EmailModule, ScanEventsModule],
   controllers: [TicketsController],
-  providers: [TicketsService],
-  exports: [TicketsService],
+  providers: [TicketsService, TicketEntryService, AttendeeExportService],
+  exports: [TicketsService, TicketEntryService],
 })
 export class TicketsModule {}
@@ -1,7 +1,16 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
 import { EmailService } from '../emails/email.service';
 import { QrService } from '../qr/qr.service';
+import { MAX_QR_CODE_LENGTH } from '../qr/qr-signing.service';
+import { ScanEventsService, ScanContext } from '../scan-events/scan-events.service';
+import { TicketEntryService } from './ticket-entry.service';
+import { TICKET_ANSWERS_SELECT } from '../registration-questions/registration-questions.service';
 import * as crypto from 'crypto';
 
 interface CreateTicketData {
@@ -11,9 +20,19 @@ interface CreateTicketData {
   buyerEmail: string;
   buyerFirstName?: string;
   buyerLastName?: string;
-  paymentId: string;
-  paymentRef: string;
-  amountPaid: number;
+  paymentId?: string; // Unset for comp tickets
+  paymentRef?: string;
+  amountPaid: number; // Amount paid per ticket
+  quantity?: number; // Number of tickets to issue for this payment (defaults to 1)
+  orderItemId?: string; // Cart line item the tickets belong to
+  guestListEntryId?: string; // Guest list entry for comp tickets issued by the organizer
+}
+
+interface TicketHolder {
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  userId?: string | null; // Account the ticket shows up in, if the holder has one
 }
 
 @Injectable()
@@ -22,14 +41,29 @@ export class TicketsService {
     private prisma: PrismaService,
     private emailService: EmailService,
     private qrService: QrService,
+    private scanEventsService: ScanEventsService,
+    private ticketEntryService: TicketEntryService,
   ) {}
 
+  /**
+   * Issue the tickets for a payment (or a guest list entry, for comps).
+   * A multi-ticket order gets one ticket (with its own QR code) per unit of quantity.
+   * Idempotent: tickets that already exist for the payment are kept and only the
+   * missing ones are issued, so retries never double-issue. Each ticket is keyed by
+   * its position in the order, so two callers issuing at once (a webhook and a
+   * verify) can't both create it.
+   */
   async createTicket(data: CreateTicketData) {
-    // Idempotency: if a ticket already exists for this payment, return it.
-    const existing = await this.prisma.ticket.findFirst({
-      where: {
-        OR: [{ paymentId: data.paymentId }, { paymentRef: data.paymentRef }],
-      },
+    const quantity = Math.max(1, data.quantity || 1);
+
+    // Idempotency: reuse tickets that already exist for this payment
+    // (or for this line item, since a cart payment issues tickets for several tiers).
+    const existing = await this.prisma.ticket.findMany({
+      where: data.guestListEntryId
+        ? { guestListEntryId: data.guestListEntryId }
+        : data.orderItemId
+          ? { orderItemId: data.orderItemId }
+          : { OR: [{ paymentId: data.paymentId }, { paymentRef: data.paymentRef }] },
       include: {
         event: {
           include: {
@@ -38,76 +72,138 @@ export class TicketsService {
         },
         tier: true,
       },
+      orderBy: { createdAt: 'asc' },
     });
 
-    if (existing) {
+    if (existing.length >= quantity) {
       return existing;
     }
 
+    const scope = data.guestListEntryId
+      ? `guest:${data.guestListEntryId}`
+      : data.orderItemId
+        ? `item:${data.orderItemId}`
+        : `payment:${data.paymentId || data.paymentRef}`;
+
+    const tickets = [...existing];
+    for (let i = existing.length; i < quantity; i++) {
+      tickets.push(await this.issueTicket(data, `${scope}:${i}`));
+    }
+
+    return tickets;
+  }
+
+  private async issueTicket(data: CreateTicketData, issueKey: string) {
     // Generate ticket number
     const ticketNumber = this.generateTicketNumber();
 
     // Generate QR code - returns { code: string, url: string, hostedUrl: string }
-    const qrResult = await this.qrService.generateQrCode(ticketNumber);
+    // The code is signed with the event's key so scanners can verify it offline
+    const qrResult = await this.qrService.generateQrCode({
+      ticketNumber,
+      eventId: data.eventId,
+      tierId: data.tierId,
+    });
     // Store the actual code value (what gets encoded in the QR) in qrCode field for validation
     // Store the hosted URL (Cloudinary) in qrCodeUrl for display/email (email clients don't support data URLs)
     const qrCode = qrResult.code;
     const qrCodeUrl = qrResult.hostedUrl; // Use hosted URL for email compatibility
 
     // Create ticket - buyerId is optional for guest checkouts
-    const ticket = await this.prisma.ticket.create({
-      data: {
-        ticketNumber,
-        qrCode: qrCode, // The actual scannable code value
-        qrCodeUrl: qrCodeUrl, // The hosted Cloudinary URL
-        status: 'ACTIVE',
-        eventId: data.eventId,
-        tierId: data.tierId,
-        ...(data.buyerId && { buyerId: data.buyerId }), // Only include if not null
-        buyerEmail: data.buyerEmail,
-        buyerFirstName: data.buyerFirstName,
-        buyerLastName: data.buyerLastName,
-        paymentId: data.paymentId,
-        paymentRef: data.paymentRef,
-        amountPaid: data.amountPaid,
+    const include = {
+      event: {
+        include: {
+          tiers: true, // Include all tiers to calculate color ranking
+        },
       },
-      include: {
-        event: {
-          include: {
-            tiers: true, // Include all tiers to calculate color ranking
-          },
+      tier: true,
+    };
+    let ticket;
+    try {
+      ticket = await this.prisma.ticket.create({
+        data: {
+          ticketNumber,
+          qrCode: qrCode, // The actual scannable code value
+          qrCodeUrl: qrCodeUrl, // The hosted Cloudinary URL
+          status: 'ACTIVE',
+          eventId: data.eventId,
+          tierId: data.tierId,
+          ...(data.buyerId && { buyerId: data.buyerId }), // Only include if not null
+          buyerEmail: data.buyerEmail,
+          buyerFirstName: data.buyerFirstName,
+          buyerLastName: data.buyerLastName,
+          paymentId: data.paymentId,
+          paymentRef: data.paymentRef,
+          amountPaid: data.amountPaid,
+          issueKey,
+          ...(data.orderItemId && { orderItemId: data.orderItemId }),
+          ...(data.guestListEntryId && { guestListEntryId: data.guestListEntryId, isComp: true }),
         },
-        tier: true,
+        include,
+      });
+    } catch (error) {
+      if (error.code !== 'P2002' || !error.meta?.target?.includes('issueKey')) throw error;
+      // Another caller issued this one first - it has sent the email, so just use theirs
+      await this.qrService.revokeQrCode(qrCodeUrl);
+      return this.prisma.ticket.findUniqueOrThrow({ where: { issueKey }, include });
+    }
+
+    await this.sendTicketEmail(ticket, data.buyerEmail);
+
+    return ticket;
+  }
+
+  /**
+   * Reissue an active ticket to a new holder (used by ticket transfers).
+   * The ticket gets a new ticket number and QR code, so the previous holder's
+   * copy no longer scans, and the new holder is emailed their ticket.
+   */
+  async reassignTicket(ticketId: string, holder: TicketHolder) {
+    const current = await this.prisma.ticket.findUnique({ where: { id: ticketId } });
+    if (!current) {
+      throw new NotFoundException('Ticket not found');
+    }
+
+    const ticketNumber = this.generateTicketNumber();
+    const qrResult = await this.qrService.generateQrCode({
+      ticketNumber,
+      eventId: current.eventId,
+      tierId: current.tierId,
+    });
+
+    // Only reassign if the ticket is still active and unchanged since we read it
+    const updated = await this.prisma.ticket.updateMany({
+      where: { id: ticketId, status: 'ACTIVE', ticketNumber: current.ticketNumber },
+      data: {
+        ticketNumber,
+        qrCode: qrResult.code,
+        qrCodeUrl: qrResult.hostedUrl,
+        buyerEmail: holder.email,
+        buyerFirstName: holder.firstName ?? null,
+        buyerLastName: holder.lastName ?? null,
+        buyerPhone: null,
+        buyerId: holder.userId ?? null,
       },
     });
 
-    // Get all tier prices for color ranking
-    const allTierPrices = ticket.event.tiers.map((t: any) =>
-      typeof t.price === 'number' ? t.price : Number(t.price),
-    );
+    if (updated.count === 0) {
+      await this.qrService.revokeQrCode(qrResult.hostedUrl);
+      throw new BadRequestException('This ticket can no longer be transferred');
+    }
 
-    const currentTierPrice =
-      typeof ticket.tier.price === 'number' ? ticket.tier.price : Number(ticket.tier.price);
+    await this.qrService.revokeQrCode(current.qrCodeUrl);
 
-    // Send ticket email with hosted QR code URL (works in all email clients)
-    // startDate is guaranteed to exist for published events (validated on publish)
-    await this.emailService.sendTicketEmail(data.buyerEmail, {
-      ticketNumber: ticket.ticketNumber,
-      eventTitle: ticket.event.title,
-      eventDate: ticket.event.startDate!,
-      eventLocation: ticket.event.location || 'TBA',
-      eventLatitude: ticket.event.latitude,
-      eventLongitude: ticket.event.longitude,
-      tierName: ticket.tier.name,
-      tierPrice: currentTierPrice,
-      allTierPrices: allTierPrices, // Pass all prices for color ranking
-      buyerName: `${data.buyerFirstName || ''} ${data.buyerLastName || ''}`.trim() || 'Guest',
-      qrCodeUrl: qrCodeUrl, // Use the hosted Cloudinary URL for email
-      isOnline: ticket.event.isOnline,
-      onlineLink: ticket.event.onlineLink || undefined,
+    const ticket = await this.prisma.ticket.findUniqueOrThrow({
+      where: { id: ticketId },
+      include: {
+        event: { include: { tiers: true } },
+        tier: true,
+      },
     });
 
-    return ticket;
+    await this.sendTicketEmail(ticket, holder.email);
+
+    return { ticket, previousTicketNumber: current.ticketNumber };
   }
 
   async getTicketById(id: string) {
@@ -116,6 +212,7 @@ export class TicketsService {
       include: {
         event: true,
         tier: true,
+        answers: TICKET_ANSWERS_SELECT,
       },
     });
 
@@ -138,6 +235,7 @@ export class TicketsService {
       include: {
         event: true,
         tier: true,
+        answers: TICKET_ANSWERS_SELECT,
       },
     });
 
@@ -211,6 +309,22 @@ export class TicketsService {
           },
         },
         tier: true,
+        answers: TICKET_ANSWERS_SELECT,
+        transfers: {
+          where: { status: 'PENDING', expiresAt: { gt: new Date() } },
+          select: { id: true, toEmail: true, toFirstName: true, expiresAt: true },
+        },
+        resaleListings: {
+          where: { status: { in: ['ACTIVE', 'RESERVED', 'SOLD'] } },
+          select: {
+            id: true,
+            status: true,
+            price: true,
+            payoutAmount: true,
+            soldAt: true,
+            paidOutAt: true,
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -226,6 +340,21 @@ export class TicketsService {
       where: { eventId },
       include: {
         tier: true,
+        answers: TICKET_ANSWERS_SELECT,
+        transfers: {
+          where: { status: 'ACCEPTED' },
+          orderBy: { acceptedAt: 'asc' },
+          select: {
+            fromEmail: true,
+            fromName: true,
+            toEmail: true,
+            toFirstName: true,
+            toLastName: true,
+            oldTicketNumber: true,
+            newTicketNumber: true,
+            acceptedAt: true,
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -252,14 +381,42 @@ export class TicketsService {
   }
 
   /**
-   * Check in a ticket by ticket number
-   * 
+   * Check in a ticket by ticket number, recording the attempt in the scan log
+   */
+  async checkInTicket(
+    ticketNumber: string,
+    checkedInBy?: string,
+    scan: ScanContext = { source: 'ORGANIZER' },
+  ) {
+    const result = await this.performCheckIn(ticketNumber, checkedInBy, scan.sessionId);
+
+    await this.scanEventsService.record({
+      ...scan,
+      eventId: result.ticket.eventId,
+      action: 'CHECK_IN',
+      result: result.success
+        ? 'ACCEPTED'
+        : 'refusal' in result && result.refusal === 'ALREADY_INSIDE'
+          ? 'DUPLICATE'
+          : 'REJECTED',
+      reason: result.success ? undefined : result.message,
+      scannedValue: ticketNumber,
+      ticketId: result.ticket.id,
+      ticketNumber: result.ticket.ticketNumber,
+    });
+
+    return result;
+  }
+
+  /**
    * IMPORTANT: Uses atomic database operations to prevent:
    * 1. Race conditions (simultaneous check-in attempts)
    * 2. Duplicate check-ins
    * 3. Invalid state transitions
+   *
+   * With a session, the ticket is admitted to that session only, within its check-in window.
    */
-  async checkInTicket(ticketNumber: string, checkedInBy?: string) {
+  private async performCheckIn(ticketNumber: string, checkedInBy?: string, sessionId?: string) {
     // First, find and validate the ticket
     const ticket = await this.prisma.ticket.findUnique({
       where: { ticketNumber },
@@ -273,83 +430,43 @@ export class TicketsService {
       throw new NotFoundException('Ticket not found');
     }
 
-    // Check current status before attempting update
-    if (ticket.status === 'CHECKED_IN') {
-      return {
-        success: false,
-        message: 'Ticket already checked in',
-        checkedInAt: ticket.checkedInAt,
-        ticket,
-      };
-    }
+    const session = sessionId
+      ? await this.ticketEntryService.getSession(sessionId, ticket.eventId)
+      : null;
 
-    if (ticket.status !== 'ACTIVE') {
+    // Check current state before attempting update
+    const refusal = session
+      ? await this.ticketEntryService.getSessionRefusal(ticket, session)
+      : this.ticketEntryService.getRefusal(ticket);
+    if (refusal) {
       return {
         success: false,
-        message: `Cannot check in ticket with status: ${ticket.status}`,
+        message: refusal.message,
+        refusal: refusal.reason,
+        checkedInAt: ticket.checkedInAt,
         ticket,
       };
     }
 
-    // Validate event timing - allow check-in starting 5 hours before event
+    // Validate timing - the session's check-in window, or the event's
     const now = new Date();
-    // startDate is guaranteed to exist for published events with tickets
-    const eventStart = new Date(ticket.event.startDate!);
-    const fiveHoursBefore = new Date(eventStart.getTime() - 5 * 60 * 60 * 1000);
-
-    if (now < fiveHoursBefore) {
-      return {
-        success: false,
-        message: `Check-in opens 5 hours before event start (${eventStart.toLocaleString()})`,
-        ticket,
-      };
-    }
-
-    // Check if event has ended (allow 24 hour grace period for late check-ins)
-    const eventEnd = ticket.event.endDate ? new Date(ticket.event.endDate) : eventStart;
-    const gracePeriodEnd = new Date(eventEnd.getTime() + 24 * 60 * 60 * 1000);
-
-    if (now > gracePeriodEnd) {
+    const closed = this.ticketEntryService.getWindowRefusal(ticket.event, session, now);
+    if (closed) {
       return {
         success: false,
-        message: 'Event has ended. Check-in is no longer available.',
+        message: closed,
         ticket,
       };
     }
 
-    // ATOMIC CHECK-IN: Only update if status is still ACTIVE
-    // This prevents race conditions where two requests try to check in simultaneously
-    const checkInTime = new Date();
-    const updateResult = await this.prisma.ticket.updateMany({
-      where: {
-        id: ticket.id,
-        status: 'ACTIVE', // CRITICAL: Only update if still ACTIVE
-      },
-      data: {
-        status: 'CHECKED_IN',
-        checkedInAt: checkInTime,
-        checkedInBy: checkedInBy || null,
-      },
-    });
-
-    // If no rows were updated, another request already checked in this ticket
-    if (updateResult.count === 0) {
-      // Re-fetch to get the actual current state
-      const currentTicket = await this.prisma.ticket.findUnique({
-        where: { id: ticket.id },
-        include: { event: true, tier: true },
-      });
-
-      return {
-        success: false,
-        message: 'Ticket already checked in',
-        checkedInAt: currentTicket?.checkedInAt,
-        ticket: currentTicket || ticket,
-      };
-    }
+    // ATOMIC CHECK-IN: the entry is a conditional update (or, for a session, a unique
+    // insert), so simultaneous scans at two gates can't both let the ticket in
+    const entry = session
+      ? await this.ticketEntryService.admitToSession(ticket, session, checkedInBy || null, now)
+      : await this.ticketEntryService.admit(ticket, checkedInBy || null, now);
 
     // Fetch the updated ticket for the response
-    const updated = await this.prisma.ticket.findUnique({
+    const updated = await this.prisma.ticket.findUniqueOrThrow({
       where: { id: ticket.id },
       include: {
         event: true,
@@ -357,15 +474,61 @@ export class TicketsService {
       },
     });
 
+    if (!entry.admitted) {
+      return {
+        success: false,
+        message: entry.refusal.message,
+        refusal: entry.refusal.reason,
+        checkedInAt: updated.checkedInAt,
+        ticket: updated,
+      };
+    }
+
     return {
       success: true,
-      message: 'Ticket checked in successfully',
+      message: session
+        ? `Ticket admitted to ${session.name}`
+        : entry.reentry
+          ? 'Ticket re-entry checked in'
+          : 'Ticket checked in successfully',
       ticket: updated,
     };
   }
 
+  /**
+   * Check a scanned ticket out at the exit so it can re-enter later (re-entry tiers only),
+   * recording the attempt in the scan log
+   */
+  async checkOutTicket(
+    qrCode: string,
+    eventId: string,
+    scan: ScanContext = { source: 'ORGANIZER' },
+  ) {
+    const found = await this.findScannedTicket(qrCode, eventId);
+    const exit = found.ticket
+      ? await this.ticketEntryService.checkOut(found.ticket)
+      : { checkedOut: false as const, message: found.message, duplicate: false };
+
+    await this.scanEventsService.record({
+      ...scan,
+      eventId,
+      action: 'CHECK_OUT',
+      result: exit.checkedOut ? 'ACCEPTED' : exit.duplicate ? 'DUPLICATE' : 'REJECTED',
+      reason: exit.checkedOut ? undefined : exit.message,
+      scannedValue: qrCode?.trim() || '',
+      ticketId: found.ticket?.id,
+      ticketNumber: found.ticket?.ticketNumber,
+    });
+
+    return {
+      success: exit.checkedOut,
+      message: exit.checkedOut ? 'Ticket checked out - it can re-enter later' : exit.message,
+      ticket: found.ticket || undefined,
+    };
+  }
+
   // Alias for controller - check in by ticket ID and user
-  async checkIn(ticketId: string, userId: string) {
+  async checkIn(ticketId: string, userId: string, userAgent?: string) {
     const ticket = await this.prisma.ticket.findUnique({
       where: { id: ticketId },
       include: { event: true },
@@ -384,25 +547,121 @@ export class TicketsService {
       throw new ForbiddenException('You can only check in tickets for your own events');
     }
 
-    return this.checkInTicket(ticket.ticketNumber);
+    return this.checkInTicket(ticket.ticketNumber, undefined, {
+      source: 'ORGANIZER',
+      userId,
+      userAgent,
+    });
+  }
+
+  /**
+   * Validate a scanned QR code for an event, recording the attempt in the scan log.
+   * When the validation is the first step of a check-in, only failures are recorded
+   * here - the check-in records its own outcome.
+   */
+  async validateQr(
+    qrCode: string,
+    eventId: string,
+    scan: ScanContext = { source: 'ORGANIZER' },
+    forCheckIn = false,
+  ) {
+    const validation = await this.checkQr(qrCode, eventId, scan.sessionId);
+
+    if (!validation.valid || !forCheckIn) {
+      await this.scanEventsService.record({
+        ...scan,
+        eventId,
+        action: forCheckIn ? 'CHECK_IN' : 'VALIDATE',
+        result: validation.valid
+          ? 'ACCEPTED'
+          : 'refusal' in validation && validation.refusal === 'ALREADY_INSIDE'
+            ? 'DUPLICATE'
+            : 'REJECTED',
+        reason: validation.valid ? undefined : validation.message,
+        scannedValue: qrCode?.trim() || '',
+        ticketId: validation.ticket?.id,
+        ticketNumber: validation.ticket?.ticketNumber,
+      });
+    }
+
+    return validation;
   }
 
-  async validateQr(qrCode: string, eventId: string) {
+  /**
+   * The ticket is reconciled with the database, since a verified code may since have
+   * been reissued, refunded or used.
+   */
+  private async checkQr(qrCode: string, eventId: string, sessionId?: string) {
+    const found = await this.findScannedTicket(qrCode, eventId);
+    if (!found.ticket) {
+      return {
+        valid: false,
+        message: found.message,
+      };
+    }
+
+    const { ticket } = found;
+    const session = sessionId ? await this.ticketEntryService.getSession(sessionId, eventId) : null;
+    const refusal = session
+      ? await this.ticketEntryService.getSessionRefusal(ticket, session)
+      : this.ticketEntryService.getRefusal(ticket);
+    if (refusal) {
+      return {
+        valid: false,
+        message: refusal.message,
+        refusal: refusal.reason,
+        checkedInAt: ticket.checkedInAt,
+        ticket,
+      };
+    }
+
+    return {
+      valid: true,
+      message: session
+        ? `Valid ticket for ${session.name}`
+        : ticket.status === 'CHECKED_IN'
+          ? 'Valid ticket - re-entry'
+          : 'Valid ticket',
+      ticket,
+    };
+  }
+
+  /**
+   * Find the ticket a scanned code belongs to. Signed codes are verified first, so
+   * forgeries and tickets for other events are rejected before the database is touched.
+   */
+  private async findScannedTicket(qrCode: string, eventId: string) {
     // SECURITY: Sanitize input
     const sanitizedQrCode = qrCode?.trim();
-    if (!sanitizedQrCode || sanitizedQrCode.length > 100) {
+    if (!sanitizedQrCode || sanitizedQrCode.length > MAX_QR_CODE_LENGTH) {
       return {
-        valid: false,
+        ticket: null,
         message: 'Invalid QR code format',
       };
     }
 
-    // Find ticket by QR code or ticket number
+    const signature = await this.qrService.checkSignature(sanitizedQrCode);
+    if (signature.status === 'invalid') {
+      return {
+        ticket: null,
+        message: signature.message,
+      };
+    }
+
+    if (signature.status === 'valid' && signature.claims.eventId !== eventId) {
+      return {
+        ticket: null,
+        message: 'This ticket is for a different event',
+      };
+    }
+
+    // Signed codes must match the ticket's current code exactly; unsigned input can be
+    // a legacy QR code or a typed-in ticket number
     const ticket = await this.prisma.ticket.findFirst({
-      where: {
-        OR: [{ qrCode: sanitizedQrCode }, { ticketNumber: sanitizedQrCode }],
-        eventId,
-      },
+      where:
+        signature.status === 'valid'
+          ? { qrCode: sanitizedQrCode, eventId }
+          : { OR: [{ qrCode: sanitizedQrCode }, { ticketNumber: sanitizedQrCode }], eventId },
       include: {
         event: true,
         tier: true,
@@ -410,36 +669,50 @@ export class TicketsService {
     });
 
     if (!ticket) {
+      if (signature.status === 'valid') {
+        return {
+          ticket: null,
+          message: 'This QR code is no longer valid - the ticket has been reissued',
+        };
+      }
+
       // SECURITY: Add small random delay to prevent timing-based enumeration
       await new Promise((resolve) => setTimeout(resolve, Math.random() * 100));
       return {
-        valid: false,
+        ticket: null,
         message: 'Invalid QR code or ticket not found for this event',
       };
     }
 
-    if (ticket.status === 'CHECKED_IN') {
-      return {
-        valid: false,
-        message: 'Ticket already checked in',
-        checkedInAt: ticket.checkedInAt,
-        ticket,
-      };
-    }
+    return { ticket };
+  }
 
-    if (ticket.status !== 'ACTIVE') {
-      return {
-        valid: false,
-        message: `Ticket status is ${ticket.status}`,
-        ticket,
-      };
-    }
+  private async sendTicketEmail(ticket: any, to: string) {
+    // Get all tier prices for color ranking
+    const allTierPrices = ticket.event.tiers.map((t: any) =>
+      typeof t.price === 'number' ? t.price : Number(t.price),
+    );
 
-    return {
-      valid: true,
-      message: 'Valid ticket',
-      ticket,
-    };
+    const currentTierPrice =
+      typeof ticket.tier.price === 'number' ? ticket.tier.price : Number(ticket.tier.price);
+
+    // Send ticket email with hosted QR code URL (works in all email clients)
+    // startDate is guaranteed to exist for published events (validated on publish)
+    await this.emailService.sendTicketEmail(to, {
+      ticketNumber: ticket.ticketNumber,
+      eventTitle: ticket.event.title,
+      eventDate: ticket.event.startDate!,
+      eventLocation: ticket.event.location || 'TBA',
+      eventLatitude: ticket.event.latitude,
+      eventLongitude: ticket.event.longitude,
+      tierName: ticket.tier.name,
+      tierPrice: currentTierPrice,
+      allTierPrices: allTierPrices, // Pass all prices for color ranking
+      buyerName: `${ticket.buyerFirstName || ''} ${ticket.buyerLastName || ''}`.trim() || 'Guest',
+      qrCodeUrl: ticket.qrCodeUrl, // Use the hosted Cloudinary URL for email
+      isOnline: ticket.event.isOnline,
+      onlineLink: ticket.event.onlineLink || undefined,
+    });
   }
 
   private generateTicketNumber(): string {
@@ -0,0 +1,22 @@
+import { IsString, IsOptional, IsEmail, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class CreateTransferDto {
+  @ApiProperty({ description: 'Email of the person receiving the ticket' })
+  @IsEmail({}, { message: 'A valid email address is required' })
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  toEmail: string;
+
+  @ApiPropertyOptional({ description: 'First name of the recipient, used in the email' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  toFirstName?: string;
+
+  @ApiPropertyOptional({ description: 'Last name of the recipient' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  toLastName?: string;
+}
@@ -0,0 +1,77 @@
+import { Controller, Get, Post, Body, Param, UseGuards, Request } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { TransfersService } from './transfers.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { CreateTransferDto } from './dto';
+import { UserRole } from '../../common/types/prisma-enums';
+
+@ApiTags('Transfers')
+@Controller('transfers')
+export class TransfersController {
+  constructor(private readonly transfersService: TransfersService) {}
+
+  // ==================== TICKET HOLDER ENDPOINTS ====================
+
+  @Post('tickets/:ticketId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a ticket to someone else' })
+  @ApiResponse({ status: 201, description: 'Transfer created and recipient emailed' })
+  async initiateTransfer(
+    @Param('ticketId') ticketId: string,
+    @Body() dto: CreateTransferDto,
+    @Request() req: any,
+  ) {
+    return this.transfersService.initiateTransfer(ticketId, req.user.id, dto);
+  }
+
+  @Post(':transferId/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Cancel a transfer that has not been accepted' })
+  async cancelTransfer(@Param('transferId') transferId: string, @Request() req: any) {
+    return this.transfersService.cancelTransfer(transferId, req.user.id);
+  }
+
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get transfers the user has sent or received' })
+  async getMyTransfers(@Request() req: any) {
+    return this.transfersService.getMyTransfers(req.user.id);
+  }
+
+  // ==================== ORGANIZER ENDPOINTS ====================
+
+  @Get('events/:eventId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the ticket transfer history for an event' })
+  async getEventTransfers(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.transfersService.getEventTransfers(eventId, req.user.organizerProfile.id);
+  }
+
+  // ==================== PUBLIC ENDPOINTS ====================
+
+  @Get('accept/:token')
+  @Public()
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // Stop transfer tokens being guessed by brute force
+  @ApiOperation({ summary: 'Get the ticket offered by a transfer link' })
+  async getTransfer(@Param('token') token: string) {
+    return this.transfersService.getTransfer(token);
+  }
+
+  @Post('accept/:token')
+  @Public()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Accept a ticket transfer' })
+  @ApiResponse({ status: 201, description: 'Ticket reissued to the recipient' })
+  async acceptTransfer(@Param('token') token: string) {
+    return this.transfersService.acceptTransfer(token);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TransfersController } from './transfers.controller';
+import { TransfersService } from './transfers.service';
+import { PrismaModule } from '../../database/prisma.module';
+import { EmailModule } from '../emails/email.module';
+import { TicketsModule } from '../tickets/tickets.module';
+
+@Module({
+  imports: [PrismaModule, EmailModule, TicketsModule],
+  controllers: [TransfersController],
+  providers: [TransfersService],
+  exports: [TransfersService],
+})
+export class TransfersModule {}
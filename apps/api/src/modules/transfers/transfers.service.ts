@@ -0,0 +1,386 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../database/prisma.service';
+import { EmailService } from '../emails/email.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { CreateTransferDto } from './dto';
+import { generateSecureToken } from '../../common/utils/security.utils';
+
+const TRANSFER_EXPIRY_HOURS = 72;
+
+@Injectable()
+export class TransfersService {
+  private readonly logger = new Logger(TransfersService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private emailService: EmailService,
+    private ticketsService: TicketsService,
+  ) {}
+
+  // ==================== TICKET HOLDER ====================
+
+  /**
+   * Offer a ticket to someone else. The recipient gets an email link to accept;
+   * the ticket stays with the holder until then. Offers lapse after 72 hours or
+   * when the event starts, whichever comes first.
+   */
+  async initiateTransfer(ticketId: string, userId: string, dto: CreateTransferDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, firstName: true, lastName: true },
+    });
+    const ticket = await this.prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: { event: true, tier: true, refund: true },
+    });
+
+    if (!user || !ticket) {
+      throw new NotFoundException('Ticket not found');
+    }
+
+    const ownsTicket =
+      ticket.buyerId === userId ||
+      (!ticket.buyerId && ticket.buyerEmail.toLowerCase() === user.email.toLowerCase());
+    if (!ownsTicket) {
+      throw new ForbiddenException('You can only transfer your own tickets');
+    }
+
+    if (ticket.status !== 'ACTIVE') {
+      throw new BadRequestException(`Cannot transfer a ticket with status: ${ticket.status}`);
+    }
+
+    if (!ticket.event.allowTransfers || !ticket.tier.transferEnabled) {
+      throw new BadRequestException('The organizer has disabled transfers for this ticket');
+    }
+
+    const now = new Date();
+    if (!ticket.event.startDate || ticket.event.startDate <= now) {
+      throw new BadRequestException('Tickets cannot be transferred once the event has started');
+    }
+
+    if (ticket.refund && ticket.refund.status !== 'REJECTED') {
+      throw new BadRequestException('A ticket with a refund request cannot be transferred');
+    }
+
+    if (dto.toEmail === ticket.buyerEmail.toLowerCase()) {
+      throw new BadRequestException('This ticket is already yours');
+    }
+
+    const listing = await this.prisma.resaleListing.findFirst({
+      where: { ticketId, status: { in: ['ACTIVE', 'RESERVED'] } },
+    });
+    if (listing) {
+      throw new BadRequestException('Cancel the resale listing before transferring this ticket');
+    }
+
+    const pending = await this.prisma.ticketTransfer.findFirst({
+      where: { ticketId, status: 'PENDING', expiresAt: { gt: now } },
+    });
+    if (pending) {
+      throw new BadRequestException(
+        `This ticket is already being transferred to ${pending.toEmail} - cancel that first`,
+      );
+    }
+
+    const expiresAt = new Date(
+      Math.min(
+        now.getTime() + TRANSFER_EXPIRY_HOURS * 60 * 60 * 1000,
+        ticket.event.startDate.getTime(),
+      ),
+    );
+    const fromName =
+      `${user.firstName || ticket.buyerFirstName || ''} ${user.lastName || ticket.buyerLastName || ''}`.trim() ||
+      null;
+
+    const transfer = await this.prisma.ticketTransfer.create({
+      data: {
+        token: generateSecureToken(),
+        fromEmail: ticket.buyerEmail,
+        fromName,
+        fromUserId: userId,
+        toEmail: dto.toEmail,
+        toFirstName: dto.toFirstName?.trim() || null,
+        toLastName: dto.toLastName?.trim() || null,
+        oldTicketNumber: ticket.ticketNumber,
+        expiresAt,
+        ticketId,
+        eventId: ticket.eventId,
+      },
+    });
+
+    try {
+      await this.emailService.sendTicketTransferEmail(transfer.toEmail, {
+        eventTitle: ticket.event.title,
+        eventDate: ticket.event.startDate,
+        tierName: ticket.tier.name,
+        fromName: fromName || ticket.buyerEmail,
+        transferToken: transfer.token,
+        expiresAt,
+        firstName: transfer.toFirstName || undefined,
+      });
+    } catch (error: any) {
+      this.logger.error(`Failed to send transfer email to ${transfer.toEmail}: ${error.message}`);
+    }
+
+    this.logger.log(`Ticket ${ticket.ticketNumber} offered to ${transfer.toEmail}`);
+
+    return {
+      id: transfer.id,
+      toEmail: transfer.toEmail,
+      expiresAt: transfer.expiresAt,
+      message: `Transfer sent to ${transfer.toEmail}. The ticket is yours until they accept.`,
+    };
+  }
+
+  /**
+   * Withdraw a transfer that hasn't been accepted yet
+   */
+  async cancelTransfer(transferId: string, userId: string) {
+    const transfer = await this.prisma.ticketTransfer.findUnique({ where: { id: transferId } });
+
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    if (transfer.fromUserId !== userId) {
+      throw new ForbiddenException('You can only cancel your own transfers');
+    }
+
+    const cancelled = await this.prisma.ticketTransfer.updateMany({
+      where: { id: transferId, status: 'PENDING' },
+      data: { status: 'CANCELLED', cancelledAt: new Date() },
+    });
+
+    if (cancelled.count === 0) {
+      throw new BadRequestException('Only pending transfers can be cancelled');
+    }
+
+    return { message: 'Transfer cancelled. The ticket is still yours.' };
+  }
+
+  /**
+   * Transfers the user has sent or received
+   */
+  async getMyTransfers(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!user) {
+      return [];
+    }
+
+    const transfers = await this.prisma.ticketTransfer.findMany({
+      where: {
+        OR: [{ fromUserId: userId }, { toUserId: userId }, { toEmail: user.email.toLowerCase() }],
+      },
+      include: {
+        event: { select: { title: true, slug: true, startDate: true } },
+        ticket: { select: { tier: { select: { name: true } } } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return transfers.map(({ token, event, ticket, ...transfer }) => ({
+      ...transfer,
+      status: this.effectiveStatus(transfer),
+      direction: transfer.fromUserId === userId ? 'SENT' : 'RECEIVED',
+      eventTitle: event.title,
+      eventSlug: event.slug,
+      eventDate: event.startDate,
+      tierName: ticket.tier.name,
+      // Received transfers that are still open link to the accept page
+      token: transfer.fromUserId !== userId && transfer.status === 'PENDING' ? token : undefined,
+    }));
+  }
+
+  // ==================== RECIPIENT ====================
+
+  /**
+   * Get the details of a transfer from the recipient's email link
+   */
+  async getTransfer(token: string) {
+    const transfer = await this.prisma.ticketTransfer.findUnique({
+      where: { token },
+      include: {
+        event: { select: { title: true, slug: true, startDate: true, location: true } },
+        ticket: { select: { tier: { select: { name: true } } } },
+      },
+    });
+
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    return {
+      status: this.effectiveStatus(transfer),
+      fromName: transfer.fromName || transfer.fromEmail,
+      toEmail: transfer.toEmail,
+      toFirstName: transfer.toFirstName,
+      expiresAt: transfer.expiresAt,
+      acceptedAt: transfer.acceptedAt,
+      eventTitle: transfer.event.title,
+      eventSlug: transfer.event.slug,
+      eventDate: transfer.event.startDate,
+      eventLocation: transfer.event.location,
+      tierName: transfer.ticket.tier.name,
+    };
+  }
+
+  /**
+   * Accept a transfer: the ticket is reissued to the recipient with a new ticket
+   * number and QR code, and the sender's copy stops working.
+   */
+  async acceptTransfer(token: string) {
+    const transfer = await this.prisma.ticketTransfer.findUnique({
+      where: { token },
+      include: { event: { select: { title: true } }, ticket: { include: { tier: true } } },
+    });
+
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    const status = this.effectiveStatus(transfer);
+    if (status === 'ACCEPTED') {
+      throw new BadRequestException('This ticket has already been accepted');
+    }
+    if (status !== 'PENDING') {
+      throw new BadRequestException(
+        `This transfer is no longer available (${status.toLowerCase()})`,
+      );
+    }
+
+    // Claim the transfer first so a double click or a cancel at the same moment can't both win
+    const acceptedAt = new Date();
+    const claimed = await this.prisma.ticketTransfer.updateMany({
+      where: { id: transfer.id, status: 'PENDING', expiresAt: { gt: acceptedAt } },
+      data: { status: 'ACCEPTED', acceptedAt },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('This transfer is no longer available');
+    }
+
+    const recipient = await this.prisma.user.findUnique({
+      where: { email: transfer.toEmail },
+      select: { id: true, firstName: true, lastName: true },
+    });
+
+    let reassigned;
+    try {
+      reassigned = await this.ticketsService.reassignTicket(transfer.ticketId, {
+        email: transfer.toEmail,
+        firstName: transfer.toFirstName || recipient?.firstName,
+        lastName: transfer.toLastName || recipient?.lastName,
+        userId: recipient?.id,
+      });
+    } catch (error) {
+      await this.prisma.ticketTransfer.update({
+        where: { id: transfer.id },
+        data: { status: 'PENDING', acceptedAt: null },
+      });
+      throw error;
+    }
+
+    await this.prisma.ticketTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        newTicketNumber: reassigned.ticket.ticketNumber,
+        toUserId: recipient?.id || null,
+      },
+    });
+
+    try {
+      await this.emailService.sendTransferAcceptedEmail(transfer.fromEmail, {
+        eventTitle: transfer.event.title,
+        tierName: transfer.ticket.tier.name,
+        recipient: transfer.toFirstName || transfer.toEmail,
+        firstName: transfer.fromName?.split(' ')[0] || undefined,
+      });
+    } catch (error: any) {
+      this.logger.error(`Failed to notify ${transfer.fromEmail} of transfer: ${error.message}`);
+    }
+
+    this.logger.log(
+      `Ticket ${reassigned.previousTicketNumber} transferred to ${transfer.toEmail} as ${reassigned.ticket.ticketNumber}`,
+    );
+
+    return {
+      ticketNumber: reassigned.ticket.ticketNumber,
+      hasAccount: !!recipient,
+      message: `Ticket accepted! We've emailed it to ${transfer.toEmail}.`,
+    };
+  }
+
+  // ==================== ORGANIZER ====================
+
+  /**
+   * Transfer history for an event
+   */
+  async getEventTransfers(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({ where: { id: eventId } });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only view transfers for your own events');
+    }
+
+    const transfers = await this.prisma.ticketTransfer.findMany({
+      where: { eventId },
+      include: { ticket: { select: { tier: { select: { name: true } } } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return transfers.map(({ token: _token, ticket, ...transfer }) => ({
+      ...transfer,
+      status: this.effectiveStatus(transfer),
+      tierName: ticket.tier.name,
+    }));
+  }
+
+  // ==================== SCHEDULED ====================
+
+  /**
+   * Cron job that marks lapsed transfers as expired. Reads already treat them as
+   * expired; this keeps the stored status in line for reporting.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireTransfers() {
+    try {
+      const result = await this.prisma.ticketTransfer.updateMany({
+        where: { status: 'PENDING', expiresAt: { lte: new Date() } },
+        data: { status: 'EXPIRED' },
+      });
+
+      if (result.count > 0) {
+        this.logger.log(`Expired ${result.count} ticket transfers`);
+      }
+
+      return { expired: result.count };
+    } catch (error) {
+      this.logger.error('Error expiring ticket transfers:', error);
+      return { expired: 0, error: error.message };
+    }
+  }
+
+  // ==================== HELPERS ====================
+
+  private effectiveStatus(transfer: { status: string; expiresAt: Date }) {
+    if (transfer.status === 'PENDING' && transfer.expiresAt <= new Date()) {
+      return 'EXPIRED';
+    }
+    return transfer.status;
+  }
+}
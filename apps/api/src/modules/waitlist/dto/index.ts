@@ -0,0 +1,42 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEmail,
+  IsInt,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+
+export class JoinWaitlistDto {
+  @ApiProperty({ description: 'Event ID' })
+  @IsString()
+  @IsNotEmpty({ message: 'Event ID is required' })
+  eventId: string;
+
+  @ApiProperty({ description: 'Sold-out ticket tier to wait for' })
+  @IsString()
+  @IsNotEmpty({ message: 'Ticket tier is required' })
+  tierId: string;
+
+  @ApiProperty({ description: 'Where to send the offer when tickets free up' })
+  @IsEmail({}, { message: 'A valid email address is required' })
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  email: string;
+
+  @ApiPropertyOptional({ description: 'First name, used in the offer email' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  firstName?: string;
+
+  @ApiPropertyOptional({ description: 'Tickets wanted (default 1)' })
+  @IsInt({ message: 'Quantity must be a whole number' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  @Max(50)
+  @IsOptional()
+  quantity?: number;
+}
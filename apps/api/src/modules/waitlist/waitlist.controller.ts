@@ -0,0 +1,67 @@
+import { Controller, Get, Post, Body, Param, UseGuards, Request, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { Response } from 'express';
+import { WaitlistService } from './waitlist.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { JoinWaitlistDto } from './dto';
+import { UserRole } from '../../common/types/prisma-enums';
+
+@ApiTags('Waitlist')
+@Controller('waitlist')
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  // ==================== PUBLIC ENDPOINTS ====================
+
+  @Post('join')
+  @Public()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Join the waitlist for a sold-out ticket tier' })
+  @ApiResponse({ status: 201, description: 'Joined the waitlist' })
+  async join(@Body() dto: JoinWaitlistDto) {
+    return this.waitlistService.joinWaitlist(dto);
+  }
+
+  @Get('offers/:token')
+  @Public()
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // Stop offer tokens being guessed by brute force
+  @ApiOperation({ summary: 'Get the tickets reserved by a waitlist offer' })
+  async getOffer(@Param('token') token: string) {
+    return this.waitlistService.getOffer(token);
+  }
+
+  // ==================== ORGANIZER ENDPOINTS ====================
+
+  @Get('events/:eventId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the waitlist for an event' })
+  async getEventWaitlist(@Param('eventId') eventId: string, @Request() req: any) {
+    return this.waitlistService.getEventWaitlist(eventId, req.user.organizerProfile.id);
+  }
+
+  @Get('events/:eventId/export')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ORGANIZER)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download the waitlist for an event as CSV' })
+  async exportEventWaitlist(
+    @Param('eventId') eventId: string,
+    @Request() req: any,
+    @Res() res: Response,
+  ) {
+    const { filename, csv } = await this.waitlistService.exportEventWaitlist(
+      eventId,
+      req.user.organizerProfile.id,
+    );
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(csv);
+  }
+}
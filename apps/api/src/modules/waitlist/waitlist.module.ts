@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistService } from './waitlist.service';
+import { PrismaModule } from '../../database/prisma.module';
+import { EmailModule } from '../emails/email.module';
+
+@Module({
+  imports: [PrismaModule, EmailModule],
+  controllers: [WaitlistController],
+  providers: [WaitlistService],
+  exports: [WaitlistService],
+})
+export class WaitlistModule {}
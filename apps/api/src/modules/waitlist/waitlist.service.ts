@@ -0,0 +1,441 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../database/prisma.service';
+import { EmailService } from '../emails/email.service';
+import { JoinWaitlistDto } from './dto';
+import { generateSecureToken } from '../../common/utils/security.utils';
+import { toCsvValue } from '../../common/utils/csv.utils';
+
+@Injectable()
+export class WaitlistService {
+  private readonly logger = new Logger(WaitlistService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private emailService: EmailService,
+  ) {}
+
+  // ==================== BUYER ====================
+
+  /**
+   * Join the waitlist for a tier with nothing left to buy.
+   * Joining again while waiting keeps your place; joining after an offer lapsed
+   * puts you at the back of the queue.
+   */
+  async joinWaitlist(dto: JoinWaitlistDto) {
+    const tier = await this.prisma.ticketTier.findFirst({
+      where: { id: dto.tierId, eventId: dto.eventId, isHidden: false },
+      include: { event: { select: { status: true, startDate: true, maxTicketsPerOrder: true } } },
+    });
+
+    if (!tier) {
+      throw new NotFoundException('Ticket tier not found');
+    }
+
+    if (tier.event.status !== 'PUBLISHED') {
+      throw new BadRequestException('Event is not published');
+    }
+
+    if (tier.event.startDate && new Date(tier.event.startDate) <= new Date()) {
+      throw new BadRequestException('This event has already started');
+    }
+
+    if (tier.capacity - tier.sold - tier.held > 0) {
+      throw new BadRequestException(
+        'Tickets are still available for this tier - you can buy them now',
+      );
+    }
+
+    const quantity = dto.quantity || 1;
+    const maxTicketsPerOrder = tier.event.maxTicketsPerOrder || 10;
+    if (quantity > maxTicketsPerOrder) {
+      throw new BadRequestException(
+        `You can wait for at most ${maxTicketsPerOrder} tickets for this event`,
+      );
+    }
+
+    const existing = await this.prisma.waitlistEntry.findUnique({
+      where: { tierId_email: { tierId: tier.id, email: dto.email } },
+    });
+
+    let entry;
+    if (existing && (existing.status === 'WAITING' || existing.status === 'OFFERED')) {
+      entry = existing;
+    } else if (existing) {
+      entry = await this.prisma.waitlistEntry.update({
+        where: { id: existing.id },
+        data: {
+          status: 'WAITING',
+          quantity,
+          firstName: dto.firstName || existing.firstName,
+          createdAt: new Date(), // Back of the queue
+          offerToken: null,
+          offeredAt: null,
+          offerExpiresAt: null,
+          claimedAt: null,
+          paymentId: null,
+        },
+      });
+    } else {
+      entry = await this.prisma.waitlistEntry.create({
+        data: {
+          eventId: dto.eventId,
+          tierId: tier.id,
+          email: dto.email,
+          firstName: dto.firstName || null,
+          quantity,
+        },
+      });
+    }
+
+    const position =
+      entry.status === 'WAITING'
+        ? await this.prisma.waitlistEntry.count({
+            where: { tierId: tier.id, status: 'WAITING', createdAt: { lte: entry.createdAt } },
+          })
+        : null;
+
+    return {
+      id: entry.id,
+      status: entry.status,
+      quantity: entry.quantity,
+      position,
+      message:
+        entry.status === 'OFFERED'
+          ? 'Tickets are already reserved for you - check your email for the purchase link'
+          : `You're number ${position} on the waitlist. We'll email you if tickets free up.`,
+    };
+  }
+
+  /**
+   * Look up a waitlist offer from the emailed link, so the event page can show the
+   * reserved tickets and check out with them
+   */
+  async getOffer(offerToken: string) {
+    const entry = await this.prisma.waitlistEntry.findUnique({
+      where: { offerToken },
+      include: {
+        event: { select: { id: true, title: true, slug: true } },
+        tier: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!entry) {
+      throw new NotFoundException('Waitlist offer not found');
+    }
+
+    if (entry.status === 'CLAIMED') {
+      throw new BadRequestException('This waitlist offer has already been used');
+    }
+
+    if (
+      entry.status !== 'OFFERED' ||
+      (entry.offerExpiresAt && entry.offerExpiresAt <= new Date())
+    ) {
+      throw new BadRequestException(
+        'This waitlist offer has expired and the tickets went to the next person',
+      );
+    }
+
+    return {
+      eventId: entry.event.id,
+      eventSlug: entry.event.slug,
+      eventTitle: entry.event.title,
+      tierId: entry.tier.id,
+      tierName: entry.tier.name,
+      email: entry.email,
+      quantity: entry.quantity,
+      offerExpiresAt: entry.offerExpiresAt,
+    };
+  }
+
+  // ==================== ORGANIZER ====================
+
+  /**
+   * Waitlist for an event, oldest first, with per-tier counts
+   */
+  async getEventWaitlist(eventId: string, organizerId: string) {
+    await this.getOwnedEvent(eventId, organizerId);
+
+    const entries = await this.prisma.waitlistEntry.findMany({
+      where: { eventId },
+      include: { tier: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      ...(await this.getWaitlistStats(eventId)),
+      entries: entries.map((entry) => ({
+        id: entry.id,
+        email: entry.email,
+        firstName: entry.firstName,
+        tierId: entry.tierId,
+        tierName: entry.tier.name,
+        quantity: entry.quantity,
+        status: entry.status,
+        joinedAt: entry.createdAt,
+        offeredAt: entry.offeredAt,
+        offerExpiresAt: entry.offerExpiresAt,
+        claimedAt: entry.claimedAt,
+      })),
+    };
+  }
+
+  /**
+   * CSV of everyone on an event's waitlist, in queue order per tier
+   */
+  async exportEventWaitlist(eventId: string, organizerId: string) {
+    const event = await this.getOwnedEvent(eventId, organizerId);
+    const { entries } = await this.getEventWaitlist(eventId, organizerId);
+
+    const positions = new Map<string, number>();
+    const rows = entries.map((entry) => {
+      const position = (positions.get(entry.tierId) || 0) + 1;
+      positions.set(entry.tierId, position);
+      return [
+        position,
+        entry.tierName,
+        entry.email,
+        entry.firstName || '',
+        entry.quantity,
+        entry.status,
+        entry.joinedAt.toISOString(),
+        entry.offeredAt ? entry.offeredAt.toISOString() : '',
+        entry.offerExpiresAt ? entry.offerExpiresAt.toISOString() : '',
+      ];
+    });
+
+    const header = [
+      'Position',
+      'Tier',
+      'Email',
+      'First Name',
+      'Tickets',
+      'Status',
+      'Joined At',
+      'Offered At',
+      'Offer Expires At',
+    ];
+    const csv = [header, ...rows]
+      .map((row) => row.map((value) => toCsvValue(value)).join(','))
+      .join('\r\n');
+
+    return { filename: `waitlist-${event.slug}.csv`, csv };
+  }
+
+  /**
+   * Waitlist counts for the analytics endpoint
+   */
+  async getWaitlistStats(eventId: string) {
+    const groups = await this.prisma.waitlistEntry.groupBy({
+      by: ['tierId', 'status'],
+      where: { eventId },
+      _count: { _all: true },
+      _sum: { quantity: true },
+    });
+
+    const byTier = new Map<
+      string,
+      { tierId: string; waiting: number; ticketsWanted: number; offered: number; claimed: number }
+    >();
+    for (const group of groups) {
+      const stats = byTier.get(group.tierId) || {
+        tierId: group.tierId,
+        waiting: 0,
+        ticketsWanted: 0,
+        offered: 0,
+        claimed: 0,
+      };
+      if (group.status === 'WAITING') {
+        stats.waiting += group._count._all;
+        stats.ticketsWanted += group._sum.quantity || 0;
+      } else if (group.status === 'OFFERED') {
+        stats.offered += group._count._all;
+      } else if (group.status === 'CLAIMED') {
+        stats.claimed += group._count._all;
+      }
+      byTier.set(group.tierId, stats);
+    }
+
+    const tiers = Array.from(byTier.values());
+    return {
+      waiting: tiers.reduce((sum, t) => sum + t.waiting, 0),
+      ticketsWanted: tiers.reduce((sum, t) => sum + t.ticketsWanted, 0),
+      offered: tiers.reduce((sum, t) => sum + t.offered, 0),
+      claimed: tiers.reduce((sum, t) => sum + t.claimed, 0),
+      tiers,
+    };
+  }
+
+  // ==================== OFFERS ====================
+
+  /**
+   * Offer a tier's free seats to the waitlist, oldest entry first. The seats are
+   * held for the entry with the same conditional UPDATE checkout holds use, so an
+   * offer can never oversell the tier. If fewer seats are free than the next person
+   * wants, they are offered what there is.
+   *
+   * Called whenever capacity frees up: refunds, capacity increases, released
+   * checkout holds and lapsed offers.
+   */
+  async offerReleasedSeats(tierId: string): Promise<number> {
+    const offerHours = this.configService.get<number>('waitlistOfferHours') || 24;
+    let offered = 0;
+
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const tier = await this.prisma.ticketTier.findUnique({
+        where: { id: tierId },
+        include: { event: { select: { title: true, slug: true, status: true } } },
+      });
+      if (!tier || tier.event.status !== 'PUBLISHED') break;
+
+      const free = tier.capacity - tier.sold - tier.held;
+      if (free <= 0) break;
+
+      const next = await this.prisma.waitlistEntry.findFirst({
+        where: { tierId, status: 'WAITING' },
+        orderBy: { createdAt: 'asc' },
+      });
+      if (!next) break;
+
+      const quantity = Math.min(next.quantity, free);
+      const offerToken = generateSecureToken(24);
+      const offerExpiresAt = new Date(Date.now() + offerHours * 60 * 60 * 1000);
+
+      let reserved = false;
+      try {
+        reserved = await this.prisma.$transaction(async (tx: any) => {
+          const seats = await tx.$executeRaw`
+            UPDATE "TicketTier"
+            SET "held" = "held" + ${quantity}
+            WHERE "id" = ${tierId}
+              AND "sold" + "held" + ${quantity} <= "capacity"
+          `;
+          if (seats === 0) {
+            return false;
+          }
+
+          const claimed = await tx.waitlistEntry.updateMany({
+            where: { id: next.id, status: 'WAITING' },
+            data: {
+              status: 'OFFERED',
+              quantity,
+              offerToken,
+              offeredAt: new Date(),
+              offerExpiresAt,
+            },
+          });
+          if (claimed.count === 0) {
+            // Another sweep offered this entry first - undo our seat hold
+            throw new Error('Waitlist entry already offered');
+          }
+          return true;
+        });
+      } catch (error) {
+        this.logger.warn(`Skipped waitlist entry ${next.id}: ${error.message}`);
+        continue;
+      }
+
+      // Seats were taken between reading the tier and reserving them - try again
+      if (!reserved) continue;
+
+      offered++;
+      this.logger.log(
+        `Offered ${quantity} ${tier.name} seat(s) to waitlist entry ${next.id} until ${offerExpiresAt.toISOString()}`,
+      );
+
+      try {
+        await this.emailService.sendWaitlistOfferEmail(next.email, {
+          eventTitle: tier.event.title,
+          eventSlug: tier.event.slug,
+          tierName: tier.name,
+          quantity,
+          offerToken,
+          expiresAt: offerExpiresAt,
+          firstName: next.firstName || undefined,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to send waitlist offer email for entry ${next.id}`, error);
+      }
+    }
+
+    return offered;
+  }
+
+  /**
+   * Cron job that runs every minute to keep waitlists moving: lapsed offers give
+   * their seats to the next person, and any free seats on a tier with people
+   * waiting are offered out.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processWaitlists() {
+    try {
+      const lapsed = await this.prisma.waitlistEntry.findMany({
+        where: { status: 'OFFERED', offerExpiresAt: { lte: new Date() } },
+        take: 100,
+      });
+
+      let expired = 0;
+      for (const entry of lapsed) {
+        await this.prisma.$transaction(async (tx: any) => {
+          // Guard against the buyer checking out with the offer at the same moment
+          const claimed = await tx.waitlistEntry.updateMany({
+            where: { id: entry.id, status: 'OFFERED' },
+            data: { status: 'EXPIRED' },
+          });
+
+          if (claimed.count > 0) {
+            await tx.ticketTier.update({
+              where: { id: entry.tierId },
+              data: { held: { decrement: entry.quantity } },
+            });
+            expired++;
+          }
+        });
+      }
+
+      const waitingTiers = await this.prisma.waitlistEntry.groupBy({
+        by: ['tierId'],
+        where: { status: 'WAITING' },
+      });
+
+      let offered = 0;
+      for (const { tierId } of waitingTiers) {
+        offered += await this.offerReleasedSeats(tierId);
+      }
+
+      if (expired > 0 || offered > 0) {
+        this.logger.log(`Waitlists: ${expired} offers expired, ${offered} new offers sent`);
+      }
+
+      return { expired, offered };
+    } catch (error) {
+      this.logger.error('Error processing waitlists:', error);
+      return { expired: 0, offered: 0, error: error.message };
+    }
+  }
+
+  // ==================== HELPERS ====================
+
+  private async getOwnedEvent(eventId: string, organizerId: string) {
+    const event = await this.prisma.event.findUnique({ where: { id: eventId } });
+
+    if (!event) {
+      throw new NotFoundException('Event not found');
+    }
+
+    if (event.organizerId !== organizerId) {
+      throw new ForbiddenException('You can only view the waitlist for your own events');
+    }
+
+    return event;
+  }
+}
@@ -1,7 +1,7 @@
 import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../database/prisma.service';
-import { MonnifyService } from '../payments/monnify.service';
+import { PaymentProvidersService } from '../payments/payment-providers.service';
 import { LedgerService } from '../ledger/ledger.service';
 import { EmailService } from '../emails/email.service';
 import { Decimal } from '@prisma/client/runtime/library';
@@ -15,7 +15,7 @@ export class WithdrawalsService {
   constructor(
     private prisma: PrismaService,
     private configService: ConfigService,
-    private monnifyService: MonnifyService,
+    private paymentProviders: PaymentProvidersService,
     private ledgerService: LedgerService,
     private emailService: EmailService,
   ) {}
@@ -242,12 +242,13 @@ export class WithdrawalsService {
     let balanceDeducted = false;
 
     try {
+      const payoutProvider = this.paymentProviders.getPayoutProvider();
       this.logger.log(
-        `Initiating Monnify transfer of ${withdrawalAmount} to ${withdrawal.accountNumber}`,
+        `Initiating ${payoutProvider.name} transfer of ${withdrawalAmount} to ${withdrawal.accountNumber}`,
       );
 
-      // Initiate transfer via Monnify
-      const transferResult = await this.monnifyService.initiateTransfer(
+      // Initiate transfer via the payout gateway
+      const transferResult = await payoutProvider.initiateTransfer(
         withdrawalAmount,
         withdrawal.bankCode,
         withdrawal.accountNumber,
@@ -255,19 +256,22 @@ export class WithdrawalsService {
         `HDTicketDesk withdrawal for ${withdrawal.organizer.title}`,
       );
 
-      this.logger.log(`Monnify transfer initiated: ${JSON.stringify(transferResult)}`);
+      this.logger.log(
+        `${payoutProvider.name} transfer initiated: ${JSON.stringify(transferResult)}`,
+      );
 
       // Update withdrawal status to PROCESSING (will be updated to COMPLETED by webhook)
       await this.prisma.withdrawal.update({
         where: { id: withdrawalId },
         data: {
           status: 'PROCESSING',
-          monnifyTransferRef: transferResult.reference,
-          monnifyTransferStatus: transferResult.status,
+          provider: payoutProvider.name,
+          providerTransferRef: transferResult.reference,
+          providerTransferStatus: transferResult.status,
         },
       });
 
-      // Deduct from available balance ONLY after Monnify accepts the transfer
+      // Deduct from available balance ONLY after the gateway accepts the transfer
       await this.prisma.organizerProfile.update({
         where: { id: withdrawal.organizerId },
         data: {
@@ -1,16 +1,16 @@
 /**
  * ============================================================================
- * BACKFILL SCRIPT: Populate monnifyTransactionRef in existing ledger entries
+ * BACKFILL SCRIPT: Populate providerTransactionRef in existing ledger entries
  * ============================================================================
  * 
  * This script:
- * 1. Finds all TICKET_SALE ledger entries without monnifyTransactionRef
- * 2. Looks up the associated ticket → payment → monnifyTransactionRef
- * 3. Updates the ledger entry with the monnifyTransactionRef
+ * 1. Finds all TICKET_SALE ledger entries without providerTransactionRef
+ * 2. Looks up the associated ticket → payment → providerTransactionRef
+ * 3. Updates the ledger entry with the providerTransactionRef
  * 4. Identifies and removes duplicate entries (keeping the newest one)
  * 
- * ONLY processes Monnify transactions (entries with valid monnifyTransactionRef)
- * Legacy Paystack entries (without monnifyTransactionRef) are left unchanged
+ * ONLY processes Monnify transactions (entries with valid providerTransactionRef)
+ * Legacy Paystack entries (without providerTransactionRef) are left unchanged
  * 
  * Run with: npx ts-node src/scripts/backfill-ledger-monnify-refs.ts
  * ============================================================================
@@ -26,11 +26,11 @@ async function backfillLedgerMonnifyRefs() {
   console.log('BACKFILL SCRIPT: Ledger Monnify Transaction References');
   console.log('============================================================\n');
 
-  // Step 1: Find all TICKET_SALE entries without monnifyTransactionRef
+  // Step 1: Find all TICKET_SALE entries without providerTransactionRef
   const entriesWithoutRef = await prisma.ledgerEntry.findMany({
     where: {
       type: 'TICKET_SALE',
-      monnifyTransactionRef: null,
+      providerTransactionRef: null,
       ticketId: { not: null },
     },
     select: {
@@ -42,7 +42,9 @@ async function backfillLedgerMonnifyRefs() {
     },
   });
 
-  console.log(`Found ${entriesWithoutRef.length} TICKET_SALE entries without monnifyTransactionRef\n`);
+  console.log(
+    `Found ${entriesWithoutRef.length} TICKET_SALE entries without providerTransactionRef\n`,
+  );
 
   if (entriesWithoutRef.length === 0) {
     console.log('No entries to backfill. Exiting.\n');
@@ -62,7 +64,7 @@ async function backfillLedgerMonnifyRefs() {
         select: {
           id: true,
           reference: true,
-          monnifyTransactionRef: true,
+          providerTransactionRef: true,
           status: true,
           paidAt: true,
         },
@@ -75,7 +77,7 @@ async function backfillLedgerMonnifyRefs() {
     tickets.map(t => [t.id, t.payment])
   );
 
-  // Step 3: Update ledger entries with monnifyTransactionRef
+  // Step 3: Update ledger entries with providerTransactionRef
   let updated = 0;
   let skippedNoMonnifyRef = 0;
   let skippedNoPayment = 0;
@@ -90,7 +92,7 @@ async function backfillLedgerMonnifyRefs() {
 
     // Only update if there's a valid Monnify transaction ref
     // (This is a Monnify transaction, not legacy Paystack)
-    if (!payment.monnifyTransactionRef) {
+    if (!payment.providerTransactionRef) {
       skippedNoMonnifyRef++;
       continue;
     }
@@ -99,18 +101,18 @@ async function backfillLedgerMonnifyRefs() {
       await prisma.ledgerEntry.update({
         where: { id: entry.id },
         data: {
-          monnifyTransactionRef: payment.monnifyTransactionRef,
+          providerTransactionRef: payment.providerTransactionRef,
           paymentReference: payment.reference,
           paymentId: payment.id,
           valueDate: payment.paidAt || entry.entryDate,
         },
       });
       updated++;
-      console.log(`✅ Updated entry ${entry.id} with monnifyRef: ${payment.monnifyTransactionRef}`);
+      console.log(`✅ Updated entry ${entry.id} with monnifyRef: ${payment.providerTransactionRef}`);
     } catch (error: any) {
       // Handle unique constraint violation (duplicate monnifyRef)
       if (error.code === 'P2002') {
-        console.log(`⚠️  Duplicate detected for entry ${entry.id} (monnifyRef: ${payment.monnifyTransactionRef})`);
+        console.log(`⚠️  Duplicate detected for entry ${entry.id} (monnifyRef: ${payment.providerTransactionRef})`);
       } else {
         console.error(`❌ Error updating entry ${entry.id}:`, error.message);
       }
@@ -132,15 +134,15 @@ async function removeDuplicateLedgerEntries() {
   console.log('STEP 2: Finding and removing duplicate ledger entries');
   console.log('============================================================\n');
 
-  // Find all TICKET_SALE entries with monnifyTransactionRef
+  // Find all TICKET_SALE entries with providerTransactionRef
   const entriesWithMonnifyRef = await prisma.ledgerEntry.findMany({
     where: {
       type: 'TICKET_SALE',
-      monnifyTransactionRef: { not: null },
+      providerTransactionRef: { not: null },
     },
     select: {
       id: true,
-      monnifyTransactionRef: true,
+      providerTransactionRef: true,
       organizerId: true,
       amount: true,
       entryDate: true,
@@ -148,18 +150,18 @@ async function removeDuplicateLedgerEntries() {
     orderBy: { entryDate: 'desc' }, // Newest first
   });
 
-  // Group by monnifyTransactionRef
+  // Group by providerTransactionRef
   const groupedByRef = new Map<string, typeof entriesWithMonnifyRef>();
   
   for (const entry of entriesWithMonnifyRef) {
-    const ref = entry.monnifyTransactionRef!;
+    const ref = entry.providerTransactionRef!;
     if (!groupedByRef.has(ref)) {
       groupedByRef.set(ref, []);
     }
     groupedByRef.get(ref)!.push(entry);
   }
 
-  // Find duplicates (more than one entry per monnifyTransactionRef)
+  // Find duplicates (more than one entry per providerTransactionRef)
   const duplicateGroups = Array.from(groupedByRef.entries())
     .filter(([_, entries]) => entries.length > 1);
 
@@ -219,18 +221,18 @@ async function verifyLedgerIntegrity() {
     console.log(`  ${entry.type}: ${entry._count.id} entries, Total: ₦${amount.toFixed(2)}`);
   }
 
-  // Check for entries with monnifyTransactionRef
+  // Check for entries with providerTransactionRef
   const withMonnifyRef = await prisma.ledgerEntry.count({
-    where: { monnifyTransactionRef: { not: null } },
+    where: { providerTransactionRef: { not: null } },
   });
 
   const withoutMonnifyRef = await prisma.ledgerEntry.count({
-    where: { monnifyTransactionRef: null },
+    where: { providerTransactionRef: null },
   });
 
   console.log(`\nMonnify Reference Status:`);
-  console.log(`  With monnifyTransactionRef: ${withMonnifyRef}`);
-  console.log(`  Without monnifyTransactionRef: ${withoutMonnifyRef}`);
+  console.log(`  With providerTransactionRef: ${withMonnifyRef}`);
+  console.log(`  Without providerTransactionRef: ${withoutMonnifyRef}`);
 
   // Check for any remaining duplicates
   const duplicateCheck = await prisma.$queryRaw`
@@ -0,0 +1,770 @@
+/**
+ * Monnify Simulator
+ *
+ * A local stand-in for the Monnify API so the API and the e2e suites can run without
+ * the real sandbox. It covers the endpoints MonnifyService calls (auth, transactions,
+ * refunds, disbursements, banks, account lookup, reserved accounts), serves a checkout
+ * page that can be told to succeed or fail, and posts webhooks to the API with the
+ * same transaction hash and signature Monnify sends.
+ *
+ * Run with: npm run monnify:simulator
+ * Then point the API at it: MONNIFY_BASE_URL=http://localhost:4010
+ *
+ * Environment:
+ *   MONNIFY_API_KEY / MONNIFY_SECRET_KEY / MONNIFY_CONTRACT_CODE - shared with the API
+ *   MONNIFY_SIMULATOR_PORT        - port to listen on (default 4010)
+ *   MONNIFY_SIMULATOR_WEBHOOK_URL - where webhooks go (default http://localhost:3001/api/webhooks/monnify)
+ *   MONNIFY_SIMULATOR_SETTLE_MS   - delay before refunds and disbursements settle on their
+ *                                   own (default 2000, 0 = only via the /simulator routes)
+ *
+ * Test hooks:
+ *   - Account numbers ending in 9999 don't resolve; transfers to ones ending in 0000 fail
+ *   - POST /simulator/transactions/:reference/complete    { "outcome": "success" | "failed" }
+ *   - POST /simulator/refunds/:reference/complete         { "outcome": "success" | "failed" }
+ *   - POST /simulator/disbursements/:reference/complete   { "outcome": "success" | "failed" | "reversed" }
+ *   - GET  /simulator/webhooks - every webhook sent and the API's response status
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import * as dotenv from 'dotenv';
+
+type Outcome = 'success' | 'failed' | 'reversed';
+
+export interface MonnifySimulatorOptions {
+  apiKey: string;
+  secretKey: string;
+  contractCode: string;
+  webhookUrl: string; // Empty = record webhooks without sending them
+  settleMs?: number; // 0 = refunds and disbursements wait for /simulator/... calls
+}
+
+export interface SimulatedWebhook {
+  eventType: string;
+  body: any;
+  headers: Record<string, string>;
+  status: number | null; // null when the API couldn't be reached
+  sentAt: Date;
+}
+
+interface SimulatedTransaction {
+  transactionReference: string;
+  paymentReference: string;
+  amount: number;
+  customerName: string;
+  customerEmail: string;
+  paymentDescription: string;
+  redirectUrl: string;
+  metaData: Record<string, string>;
+  paymentStatus: 'PENDING' | 'PAID' | 'FAILED';
+  paidOn: string | null;
+  refundedAmount: number;
+  createdOn: string;
+}
+
+interface SimulatedRefund {
+  refundReference: string;
+  transactionReference: string;
+  refundAmount: number;
+  refundReason: string;
+  refundStatus: 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+  createdOn: string;
+  completedOn: string | null;
+}
+
+interface SimulatedDisbursement {
+  reference: string;
+  amount: number;
+  fee: number;
+  narration: string;
+  destinationBankCode: string;
+  destinationAccountNumber: string;
+  destinationAccountName: string;
+  status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'REVERSED';
+  createdOn: string;
+  completedOn: string | null;
+}
+
+class SimulatorError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string,
+    public responseCode = '99',
+  ) {
+    super(message);
+  }
+}
+
+export const SIMULATED_BANKS = [
+  { name: 'Access Bank', code: '044', ussdTemplate: '*901*Amount*AccountNumber#' },
+  { name: 'First Bank of Nigeria', code: '011', ussdTemplate: '*894*Amount*AccountNumber#' },
+  { name: 'Guaranty Trust Bank', code: '058', ussdTemplate: '*737*1*Amount*AccountNumber#' },
+  { name: 'Kuda Microfinance Bank', code: '50211', ussdTemplate: null },
+  { name: 'Moniepoint Microfinance Bank', code: '50515', ussdTemplate: null },
+  { name: 'OPay', code: '999992', ussdTemplate: null },
+  { name: 'Sterling Bank', code: '232', ussdTemplate: '*822*Amount*AccountNumber#' },
+  { name: 'United Bank for Africa', code: '033', ussdTemplate: '*919*4*AccountNumber*Amount#' },
+  { name: 'Wema Bank', code: '035', ussdTemplate: '*945*AccountNumber*Amount#' },
+  { name: 'Zenith Bank', code: '057', ussdTemplate: '*966*Amount*AccountNumber#' },
+];
+
+const DISBURSEMENT_FEE = 10;
+
+// Monnify formats timestamps as "2024-01-31 14:05:09.123"
+const timestamp = (date = new Date()) => date.toISOString().replace('T', ' ').replace('Z', '');
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string,
+  );
+
+export class MonnifySimulator {
+  private server: http.Server | null = null;
+  private baseUrl = '';
+  private tokens = new Set<string>();
+  private transactions = new Map<string, SimulatedTransaction>(); // By transactionReference
+  private refunds = new Map<string, SimulatedRefund>();
+  private disbursements = new Map<string, SimulatedDisbursement>();
+  private reservedAccounts = new Map<string, any>();
+  private timers = new Set<NodeJS.Timeout>();
+  readonly webhooks: SimulatedWebhook[] = [];
+
+  constructor(private options: MonnifySimulatorOptions) {}
+
+  /**
+   * Start listening. Port 0 picks a free port; the base URL to give the API is returned
+   */
+  async listen(port = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        const statusCode = error instanceof SimulatorError ? error.statusCode : 500;
+        const responseCode = error instanceof SimulatorError ? error.responseCode : '99';
+        this.sendJson(res, statusCode, {
+          requestSuccessful: false,
+          responseMessage: error.message,
+          responseCode,
+        });
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(port, resolve));
+    const address = this.server.address() as { port: number };
+    this.baseUrl = `http://localhost:${address.port}`;
+    return this.baseUrl;
+  }
+
+  async close(): Promise<void> {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    if (this.server) {
+      await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  /**
+   * Pay or fail a pending transaction as if the buyer finished checkout, and send the
+   * matching webhook
+   */
+  async completeTransaction(reference: string, outcome: Outcome): Promise<SimulatedTransaction> {
+    const transaction = this.findTransaction(reference);
+    if (!transaction) {
+      throw new SimulatorError(404, `Transaction ${reference} not found`);
+    }
+    if (transaction.paymentStatus !== 'PENDING') {
+      throw new SimulatorError(
+        400,
+        `Transaction ${reference} is already ${transaction.paymentStatus}`,
+      );
+    }
+
+    transaction.paymentStatus = outcome === 'success' ? 'PAID' : 'FAILED';
+    transaction.paidOn = timestamp();
+
+    await this.sendWebhook(
+      outcome === 'success' ? 'SUCCESSFUL_TRANSACTION' : 'FAILED_TRANSACTION',
+      this.transactionEventData(transaction),
+    );
+
+    return transaction;
+  }
+
+  async settleRefund(refundReference: string, outcome: Outcome): Promise<SimulatedRefund> {
+    const refund = this.refunds.get(refundReference);
+    if (!refund) {
+      throw new SimulatorError(404, `Refund ${refundReference} not found`);
+    }
+    if (refund.refundStatus !== 'IN_PROGRESS') {
+      throw new SimulatorError(400, `Refund ${refundReference} is already ${refund.refundStatus}`);
+    }
+
+    const transaction = this.transactions.get(refund.transactionReference)!;
+    refund.refundStatus = outcome === 'success' ? 'COMPLETED' : 'FAILED';
+    refund.completedOn = timestamp();
+    if (outcome !== 'success') {
+      transaction.refundedAmount -= refund.refundAmount;
+    }
+
+    await this.sendWebhook(outcome === 'success' ? 'SUCCESSFUL_REFUND' : 'FAILED_REFUND', {
+      merchantReason: refund.refundReason,
+      transactionReference: refund.transactionReference,
+      paymentReference: transaction.paymentReference,
+      refundReference: refund.refundReference,
+      refundAmount: refund.refundAmount,
+      refundStatus: refund.refundStatus,
+      refundReason: refund.refundReason,
+      customerNote: refund.refundReason,
+      createdOn: refund.createdOn,
+      completedOn: refund.completedOn,
+    });
+
+    return refund;
+  }
+
+  async settleDisbursement(reference: string, outcome: Outcome): Promise<SimulatedDisbursement> {
+    const disbursement = this.disbursements.get(reference);
+    if (!disbursement) {
+      throw new SimulatorError(404, `Disbursement ${reference} not found`);
+    }
+
+    // Only a completed transfer can be reversed; anything else must still be pending
+    const allowed = outcome === 'reversed' ? 'SUCCESS' : 'PENDING';
+    if (disbursement.status !== allowed) {
+      throw new SimulatorError(400, `Disbursement ${reference} is ${disbursement.status}`);
+    }
+
+    const eventTypes = {
+      success: 'SUCCESSFUL_DISBURSEMENT',
+      failed: 'FAILED_DISBURSEMENT',
+      reversed: 'REVERSED_DISBURSEMENT',
+    };
+    const statuses = { success: 'SUCCESS', failed: 'FAILED', reversed: 'REVERSED' } as const;
+    disbursement.status = statuses[outcome];
+    disbursement.completedOn = timestamp();
+
+    await this.sendWebhook(eventTypes[outcome], {
+      amount: disbursement.amount,
+      transactionReference: `MFDS${Date.now()}`,
+      fee: disbursement.fee,
+      transactionDescription:
+        outcome === 'failed' ? 'Beneficiary account could not be credited' : 'Approved',
+      destinationAccountNumber: disbursement.destinationAccountNumber,
+      sessionId: crypto.randomBytes(15).toString('hex'),
+      createdOn: disbursement.createdOn,
+      destinationAccountName: disbursement.destinationAccountName,
+      reference: disbursement.reference,
+      destinationBankCode: disbursement.destinationBankCode,
+      completedOn: disbursement.completedOn,
+      narration: disbursement.narration,
+      currency: 'NGN',
+      destinationBankName: this.bankName(disbursement.destinationBankCode),
+      status: disbursement.status,
+      responseMessage:
+        outcome === 'failed' ? 'Beneficiary account could not be credited' : undefined,
+    });
+
+    return disbursement;
+  }
+
+  /**
+   * Monnify's transaction hash: SHA512(secretKey|paymentReference|amountPaid|paidOn|transactionReference)
+   */
+  transactionHash(transaction: SimulatedTransaction): string {
+    return crypto
+      .createHash('sha512')
+      .update(
+        `${this.options.secretKey}|${transaction.paymentReference}|${this.amountPaid(transaction)}|${transaction.paidOn}|${transaction.transactionReference}`,
+      )
+      .digest('hex');
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const path = url.pathname;
+    const body = await this.readBody(req);
+    let match: RegExpMatchArray | null;
+
+    // Checkout page and its buttons - no auth, like Monnify's hosted page
+    if ((match = path.match(/^\/checkout\/([^/]+)$/))) {
+      const transaction = this.findTransaction(decodeURIComponent(match[1]));
+      if (!transaction) {
+        return this.sendHtml(res, 404, '<h1>Transaction not found</h1>');
+      }
+
+      if (method === 'GET') {
+        return this.sendHtml(res, 200, this.checkoutPage(transaction));
+      }
+
+      if (method === 'POST') {
+        const outcome: Outcome = body.outcome === 'failed' ? 'failed' : 'success';
+        if (transaction.paymentStatus === 'PENDING') {
+          await this.completeTransaction(transaction.transactionReference, outcome);
+        }
+        const redirect = new URL(transaction.redirectUrl);
+        redirect.searchParams.set('paymentReference', transaction.paymentReference);
+        res.writeHead(302, { Location: redirect.toString() });
+        return res.end();
+      }
+    }
+
+    // Control routes for tests and manual runs
+    if (
+      (match = path.match(/^\/simulator\/(transactions|refunds|disbursements)\/([^/]+)\/complete$/))
+    ) {
+      if (method !== 'POST') throw new SimulatorError(405, 'Method not allowed');
+
+      const reference = decodeURIComponent(match[2]);
+      const outcome: Outcome = ['success', 'failed', 'reversed'].includes(body.outcome)
+        ? body.outcome
+        : 'success';
+      const result =
+        match[1] === 'transactions'
+          ? await this.completeTransaction(reference, outcome)
+          : match[1] === 'refunds'
+            ? await this.settleRefund(reference, outcome)
+            : await this.settleDisbursement(reference, outcome);
+      return this.sendJson(res, 200, result);
+    }
+
+    if (path === '/simulator/webhooks' && method === 'GET') {
+      return this.sendJson(res, 200, this.webhooks);
+    }
+
+    if (path === '/api/v1/auth/login' && method === 'POST') {
+      return this.ok(res, this.login(req));
+    }
+
+    this.authorize(req);
+
+    if (path === '/api/v1/merchant/transactions/init-transaction' && method === 'POST') {
+      return this.ok(res, this.initTransaction(body));
+    }
+
+    if ((match = path.match(/^\/api\/v2\/transactions\/([^/]+)$/)) && method === 'GET') {
+      const transaction = this.findTransaction(decodeURIComponent(match[1]));
+      if (!transaction) {
+        throw new SimulatorError(404, 'Could not find transaction with the specified reference');
+      }
+      return this.ok(res, this.transactionEventData(transaction));
+    }
+
+    if (path === '/api/v1/refunds/initiate-refund' && method === 'POST') {
+      return this.ok(res, this.initiateRefund(body));
+    }
+
+    if ((match = path.match(/^\/api\/v1\/refunds\/([^/]+)$/)) && method === 'GET') {
+      const refund = this.refunds.get(decodeURIComponent(match[1]));
+      if (!refund) throw new SimulatorError(404, 'Refund not found');
+      return this.ok(res, refund);
+    }
+
+    if (path === '/api/v1/banks' && method === 'GET') {
+      return this.ok(res, SIMULATED_BANKS);
+    }
+
+    if (path === '/api/v1/disbursements/account/validate' && method === 'GET') {
+      return this.ok(
+        res,
+        this.resolveAccount(
+          url.searchParams.get('accountNumber') || '',
+          url.searchParams.get('bankCode') || '',
+        ),
+      );
+    }
+
+    if (path === '/api/v2/disbursements/single' && method === 'POST') {
+      return this.ok(res, this.initiateDisbursement(body));
+    }
+
+    if (path === '/api/v2/disbursements/single/summary' && method === 'GET') {
+      const disbursement = this.disbursements.get(url.searchParams.get('reference') || '');
+      if (!disbursement) throw new SimulatorError(404, 'Transfer not found');
+      return this.ok(res, { ...disbursement, totalFee: disbursement.fee });
+    }
+
+    if (path === '/api/v2/bank-transfer/reserved-accounts' && method === 'POST') {
+      return this.ok(res, this.reserveAccount(body));
+    }
+
+    if ((match = path.match(/^\/api\/v1\/bank-transfer\/reserved-accounts\/reference\/([^/]+)$/))) {
+      if (method === 'DELETE') {
+        const account = this.reservedAccounts.get(decodeURIComponent(match[1]));
+        if (!account) throw new SimulatorError(404, 'Reserved account not found');
+        this.reservedAccounts.delete(account.accountReference);
+        return this.ok(res, account);
+      }
+    }
+
+    throw new SimulatorError(404, `No simulated route for ${method} ${path}`);
+  }
+
+  private login(req: http.IncomingMessage) {
+    const expected = Buffer.from(`${this.options.apiKey}:${this.options.secretKey}`).toString(
+      'base64',
+    );
+    if (req.headers.authorization !== `Basic ${expected}`) {
+      throw new SimulatorError(401, 'Invalid client credentials', '99');
+    }
+
+    const accessToken = crypto.randomBytes(24).toString('hex');
+    this.tokens.add(accessToken);
+    return { accessToken, expiresIn: 3600 };
+  }
+
+  private authorize(req: http.IncomingMessage) {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    if (!this.tokens.has(token)) {
+      throw new SimulatorError(401, 'Full authentication is required to access this resource');
+    }
+  }
+
+  private initTransaction(body: any) {
+    if (body.contractCode !== this.options.contractCode) {
+      throw new SimulatorError(400, 'Invalid contract code', '04');
+    }
+    if (!body.paymentReference || !body.customerEmail) {
+      throw new SimulatorError(400, 'paymentReference and customerEmail are required', '04');
+    }
+    if (!(Number(body.amount) >= 100)) {
+      throw new SimulatorError(400, 'Amount must be at least 100', '04');
+    }
+    if (this.findTransaction(body.paymentReference)) {
+      throw new SimulatorError(400, `Duplicate payment reference ${body.paymentReference}`, '99');
+    }
+
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const transaction: SimulatedTransaction = {
+      transactionReference: `MNFY|${date}|${crypto.randomInt(100000, 999999)}`,
+      paymentReference: body.paymentReference,
+      amount: Number(body.amount),
+      customerName: body.customerName || 'Customer',
+      customerEmail: body.customerEmail,
+      paymentDescription: body.paymentDescription || '',
+      redirectUrl: body.redirectUrl || 'http://localhost:3000/payment/callback',
+      metaData: body.metadata || {},
+      paymentStatus: 'PENDING',
+      paidOn: null,
+      refundedAmount: 0,
+      createdOn: timestamp(),
+    };
+    this.transactions.set(transaction.transactionReference, transaction);
+
+    return {
+      transactionReference: transaction.transactionReference,
+      paymentReference: transaction.paymentReference,
+      merchantName: 'HD Ticket Desk (Simulator)',
+      apiKey: this.options.apiKey,
+      enabledPaymentMethod: body.paymentMethods || ['CARD', 'ACCOUNT_TRANSFER'],
+      checkoutUrl: `${this.baseUrl}/checkout/${encodeURIComponent(transaction.transactionReference)}`,
+    };
+  }
+
+  private initiateRefund(body: any) {
+    const transaction = this.transactions.get(body.transactionReference);
+    if (!transaction || transaction.paymentStatus !== 'PAID') {
+      throw new SimulatorError(400, 'Transaction not found or not paid', '99');
+    }
+    if (!body.refundReference || this.refunds.has(body.refundReference)) {
+      throw new SimulatorError(400, 'A unique refundReference is required', '04');
+    }
+
+    const refundAmount = body.refundAmount
+      ? Number(body.refundAmount)
+      : transaction.amount - transaction.refundedAmount;
+    if (refundAmount <= 0 || refundAmount > transaction.amount - transaction.refundedAmount) {
+      throw new SimulatorError(400, 'Refund amount exceeds the refundable balance', '99');
+    }
+
+    const refund: SimulatedRefund = {
+      refundReference: body.refundReference,
+      transactionReference: transaction.transactionReference,
+      refundAmount,
+      refundReason: body.refundReason || '',
+      refundStatus: 'IN_PROGRESS',
+      createdOn: timestamp(),
+      completedOn: null,
+    };
+    this.refunds.set(refund.refundReference, refund);
+    transaction.refundedAmount += refundAmount;
+
+    this.scheduleSettlement(() => this.settleRefund(refund.refundReference, 'success'));
+
+    return {
+      refundReference: refund.refundReference,
+      transactionReference: refund.transactionReference,
+      refundReason: refund.refundReason,
+      refundAmount: refund.refundAmount,
+      refundStatus: refund.refundStatus,
+      refundType: refundAmount < transaction.amount ? 'PARTIAL_REFUND' : 'FULL_REFUND',
+      createdOn: refund.createdOn,
+    };
+  }
+
+  private resolveAccount(accountNumber: string, bankCode: string) {
+    if (!/^\d{10}$/.test(accountNumber) || !this.bankName(bankCode)) {
+      throw new SimulatorError(400, 'Invalid account number or bank code', '99');
+    }
+    if (accountNumber.endsWith('9999')) {
+      throw new SimulatorError(400, 'Could not resolve account name', '99');
+    }
+
+    return {
+      accountNumber,
+      accountName: `SIMULATED ACCOUNT ${accountNumber.slice(-4)}`,
+      bankCode,
+    };
+  }
+
+  private initiateDisbursement(body: any) {
+    if (!body.sourceAccountNumber) {
+      throw new SimulatorError(400, 'sourceAccountNumber is required', '04');
+    }
+    if (!body.reference || this.disbursements.has(body.reference)) {
+      throw new SimulatorError(400, 'A unique reference is required', '04');
+    }
+    this.resolveAccount(body.destinationAccountNumber, body.destinationBankCode);
+
+    const disbursement: SimulatedDisbursement = {
+      reference: body.reference,
+      amount: Number(body.amount),
+      fee: DISBURSEMENT_FEE,
+      narration: body.narration || '',
+      destinationBankCode: body.destinationBankCode,
+      destinationAccountNumber: body.destinationAccountNumber,
+      destinationAccountName: body.destinationAccountName,
+      status: 'PENDING',
+      createdOn: timestamp(),
+      completedOn: null,
+    };
+    this.disbursements.set(disbursement.reference, disbursement);
+
+    const outcome = disbursement.destinationAccountNumber.endsWith('0000') ? 'failed' : 'success';
+    this.scheduleSettlement(() => this.settleDisbursement(disbursement.reference, outcome));
+
+    return {
+      amount: disbursement.amount,
+      reference: disbursement.reference,
+      status: disbursement.status,
+      dateCreated: disbursement.createdOn,
+      totalFee: disbursement.fee,
+      totalAmount: disbursement.amount + disbursement.fee,
+      destinationAccountName: disbursement.destinationAccountName,
+      destinationBankName: this.bankName(disbursement.destinationBankCode),
+      destinationAccountNumber: disbursement.destinationAccountNumber,
+      destinationBankCode: disbursement.destinationBankCode,
+    };
+  }
+
+  private reserveAccount(body: any) {
+    if (body.contractCode !== this.options.contractCode) {
+      throw new SimulatorError(400, 'Invalid contract code', '04');
+    }
+    if (!body.nin && !body.bvn) {
+      throw new SimulatorError(400, 'BVN or NIN is required to reserve an account', '99');
+    }
+
+    const account = {
+      accountReference: body.accountReference,
+      accountName: body.accountName,
+      currencyCode: 'NGN',
+      customerEmail: body.customerEmail,
+      customerName: body.customerName,
+      accounts: [
+        {
+          bankCode: '50515',
+          bankName: 'Moniepoint Microfinance Bank',
+          accountNumber: String(crypto.randomInt(1000000000, 9999999999)),
+          accountName: `HD Ticket Desk-${body.accountName}`,
+        },
+      ],
+      status: 'ACTIVE',
+    };
+    this.reservedAccounts.set(account.accountReference, account);
+    return account;
+  }
+
+  private transactionEventData(transaction: SimulatedTransaction) {
+    return {
+      product: { reference: transaction.paymentReference, type: 'WEB_SDK' },
+      transactionReference: transaction.transactionReference,
+      paymentReference: transaction.paymentReference,
+      paidOn: transaction.paidOn,
+      paymentDescription: transaction.paymentDescription,
+      metaData: transaction.metaData,
+      amountPaid: this.amountPaid(transaction),
+      totalPayable: transaction.amount,
+      paymentMethod: 'CARD',
+      currency: 'NGN',
+      settlementAmount: transaction.amount,
+      paymentStatus: transaction.paymentStatus,
+      customer: { name: transaction.customerName, email: transaction.customerEmail },
+      transactionHash: transaction.paidOn ? this.transactionHash(transaction) : undefined,
+    };
+  }
+
+  /**
+   * POST a webhook to the API. Monnify signs the body with monnify-signature
+   * (HMAC-SHA512 of the body) and puts the transaction hash inside payment events
+   */
+  private async sendWebhook(eventType: string, eventData: any) {
+    const body = { eventType, eventData };
+    const payload = JSON.stringify(body);
+    const headers = {
+      'Content-Type': 'application/json',
+      'monnify-signature': crypto
+        .createHmac('sha512', this.options.secretKey)
+        .update(payload)
+        .digest('hex'),
+    };
+
+    const webhook: SimulatedWebhook = {
+      eventType,
+      body,
+      headers,
+      status: null,
+      sentAt: new Date(),
+    };
+    this.webhooks.push(webhook);
+    if (!this.options.webhookUrl) return;
+
+    try {
+      const response = await fetch(this.options.webhookUrl, {
+        method: 'POST',
+        headers,
+        body: payload,
+      });
+      webhook.status = response.status;
+    } catch (error: any) {
+      console.warn(`Webhook ${eventType} to ${this.options.webhookUrl} failed: ${error.message}`);
+    }
+  }
+
+  private scheduleSettlement(settle: () => Promise<unknown>) {
+    const settleMs = this.options.settleMs ?? 2000;
+    if (settleMs <= 0) return;
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      settle().catch(() => undefined); // Already settled by hand
+    }, settleMs);
+    this.timers.add(timer);
+  }
+
+  private amountPaid(transaction: SimulatedTransaction): number {
+    return transaction.paymentStatus === 'PAID' ? transaction.amount : 0;
+  }
+
+  private findTransaction(reference: string): SimulatedTransaction | undefined {
+    return (
+      this.transactions.get(reference) ||
+      Array.from(this.transactions.values()).find((t) => t.paymentReference === reference)
+    );
+  }
+
+  private bankName(code: string): string | undefined {
+    return SIMULATED_BANKS.find((bank) => bank.code === code)?.name;
+  }
+
+  private checkoutPage(transaction: SimulatedTransaction): string {
+    const action = `/checkout/${encodeURIComponent(transaction.transactionReference)}`;
+    const amount = transaction.amount.toLocaleString('en-NG', { minimumFractionDigits: 2 });
+    const done = transaction.paymentStatus !== 'PENDING';
+
+    return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Monnify Simulator - Checkout</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 420px; margin: 64px auto; padding: 0 16px; }
+      .amount { font-size: 32px; font-weight: 600; margin: 8px 0 24px; }
+      button { width: 100%; padding: 12px; margin-bottom: 12px; border: 0; border-radius: 6px; font-size: 16px; cursor: pointer; }
+      .pay { background: #0a7c3e; color: #fff; }
+      .fail { background: #eee; color: #a11; }
+      .muted { color: #666; font-size: 14px; }
+    </style>
+  </head>
+  <body>
+    <p class="muted">Monnify Simulator - no real money moves</p>
+    <h1>${escapeHtml(transaction.paymentDescription || 'Payment')}</h1>
+    <div class="amount">NGN ${amount}</div>
+    <p class="muted">${escapeHtml(transaction.customerEmail)}<br />${escapeHtml(transaction.paymentReference)}</p>
+    ${
+      done
+        ? `<p>This transaction is already ${transaction.paymentStatus}.</p>`
+        : `<form method="post" action="${action}">
+      <button class="pay" name="outcome" value="success">Pay successfully</button>
+      <button class="fail" name="outcome" value="failed">Fail payment</button>
+    </form>`
+    }
+  </body>
+</html>`;
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString('utf8');
+    if (!raw) return {};
+
+    if ((req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(raw));
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new SimulatorError(400, 'Invalid JSON body', '04');
+    }
+  }
+
+  private ok(res: http.ServerResponse, responseBody: any) {
+    this.sendJson(res, 200, {
+      requestSuccessful: true,
+      responseMessage: 'success',
+      responseCode: '0',
+      responseBody,
+    });
+  }
+
+  private sendJson(res: http.ServerResponse, statusCode: number, body: any) {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendHtml(res: http.ServerResponse, statusCode: number, html: string) {
+    res.writeHead(statusCode, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+  }
+}
+
+// Run standalone: npm run monnify:simulator
+if (require.main === module) {
+  dotenv.config();
+
+  const apiPort = process.env.PORT || 3001;
+  const apiPrefix = process.env.API_PREFIX || 'api';
+  const simulator = new MonnifySimulator({
+    apiKey: process.env.MONNIFY_API_KEY || 'MK_TEST_SIMULATOR',
+    secretKey: process.env.MONNIFY_SECRET_KEY || 'simulator-secret',
+    contractCode: process.env.MONNIFY_CONTRACT_CODE || '0000000000',
+    webhookUrl:
+      process.env.MONNIFY_SIMULATOR_WEBHOOK_URL ||
+      `http://localhost:${apiPort}/${apiPrefix}/webhooks/monnify`,
+    settleMs: Number(process.env.MONNIFY_SIMULATOR_SETTLE_MS ?? 2000),
+  });
+
+  simulator
+    .listen(Number(process.env.MONNIFY_SIMULATOR_PORT || 4010))
+    .then((baseUrl) => {
+      console.log(`🧪 Monnify simulator running on: ${baseUrl}`);
+      console.log(`   Set MONNIFY_BASE_URL=${baseUrl} for the API`);
+    })
+    .catch((error) => {
+      console.error('❌ Monnify simulator failed to start:', error);
+      process.exit(1);
+    });
+}
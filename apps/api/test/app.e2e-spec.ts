@@ -2,9 +2,23 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../src/app.module';
+import { MonnifySimulator } from '../src/scripts/monnify-simulator';
 
 describe('AppController (e2e)', () => {
   let app: INestApplication;
+  let simulator: MonnifySimulator;
+
+  beforeAll(async () => {
+    // Keep the suite offline - anything that reaches for Monnify gets the simulator
+    simulator = new MonnifySimulator({
+      apiKey: process.env.MONNIFY_API_KEY || 'MK_TEST_E2E',
+      secretKey: process.env.MONNIFY_SECRET_KEY || 'e2e-secret',
+      contractCode: process.env.MONNIFY_CONTRACT_CODE || '1234567890',
+      webhookUrl: '',
+      settleMs: 0,
+    });
+    process.env.MONNIFY_BASE_URL = await simulator.listen();
+  });
 
   beforeEach(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -21,5 +35,6 @@ describe('AppController (e2e)', () => {
 
   afterAll(async () => {
     await app.close();
+    await simulator.close();
   });
 });
@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as crypto from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { MonnifyService } from '../src/modules/payments/monnify.service';
+import { MonnifySimulator, SimulatedWebhook } from '../src/scripts/monnify-simulator';
+
+const credentials = {
+  apiKey: 'MK_TEST_E2E',
+  secretKey: 'e2e-secret',
+  contractCode: '1234567890',
+};
+
+// What the webhook controller hands to verifyWebhook
+const asRequest = (webhook: Pick<SimulatedWebhook, 'body' | 'headers'>) =>
+  ({
+    body: webhook.body,
+    rawBody: Buffer.from(JSON.stringify(webhook.body)),
+    headers: webhook.headers,
+  }) as any;
+
+describe('MonnifyService against the simulator (e2e)', () => {
+  let simulator: MonnifySimulator;
+  let monnifyService: MonnifyService;
+
+  beforeAll(async () => {
+    // No API is running, so webhooks are only recorded on simulator.webhooks
+    simulator = new MonnifySimulator({
+      ...credentials,
+      webhookUrl: '',
+      settleMs: 0,
+    });
+    const baseUrl = await simulator.listen();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      providers: [
+        MonnifyService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            MONNIFY_BASE_URL: baseUrl,
+            MONNIFY_API_KEY: credentials.apiKey,
+            MONNIFY_SECRET_KEY: credentials.secretKey,
+            MONNIFY_CONTRACT_CODE: credentials.contractCode,
+            MONNIFY_WALLET_ACCOUNT_NUMBER: '0123456789',
+            MONNIFY_DEFAULT_NIN: '12345678901',
+          }),
+        },
+      ],
+    }).compile();
+
+    monnifyService = moduleFixture.get(MonnifyService);
+  });
+
+  afterAll(async () => {
+    await simulator.close();
+  });
+
+  it('initializes, pays and verifies a transaction, and signs the webhook', async () => {
+    const init = await monnifyService.initializeTransaction('buyer@example.com', 5000, 'HD-E2E-1');
+    expect(init.paymentReference).toBe('HD-E2E-1');
+    expect(init.checkoutUrl).toContain('/checkout/');
+
+    const pending = await monnifyService.verifyTransaction(init.transactionReference);
+    expect(pending.status).toBe('pending');
+
+    await simulator.completeTransaction('HD-E2E-1', 'success');
+
+    const paid = await monnifyService.verifyTransaction(init.transactionReference);
+    expect(paid.status).toBe('paid');
+    expect(paid.amount).toBe(5000);
+
+    const webhook = simulator.webhooks[simulator.webhooks.length - 1];
+    expect(webhook.eventType).toBe('SUCCESSFUL_TRANSACTION');
+    expect(monnifyService.verifyWebhook(asRequest(webhook), '127.0.0.1')).toBe(true);
+
+    const event = monnifyService.parseWebhookEvent(webhook.body);
+    expect(event).toMatchObject({
+      type: 'PAYMENT_SUCCESS',
+      paymentReference: 'HD-E2E-1',
+      amount: 5000,
+    });
+
+    const tampered = { ...webhook.body, eventData: { ...webhook.body.eventData, amountPaid: 1 } };
+    expect(
+      monnifyService.verifyWebhook(
+        { ...asRequest(webhook), body: tampered, rawBody: Buffer.from(JSON.stringify(tampered)) },
+        '127.0.0.1',
+      ),
+    ).toBe(false);
+  });
+
+  it('sends a failed transaction webhook when checkout fails', async () => {
+    await monnifyService.initializeTransaction('buyer@example.com', 2500, 'HD-E2E-2');
+    await simulator.completeTransaction('HD-E2E-2', 'failed');
+
+    const failed = await monnifyService.verifyTransaction('HD-E2E-2');
+    expect(failed.status).toBe('failed');
+
+    const webhook = simulator.webhooks[simulator.webhooks.length - 1];
+    expect(webhook.eventType).toBe('FAILED_TRANSACTION');
+    expect(monnifyService.verifyWebhook(asRequest(webhook), '127.0.0.1')).toBe(true);
+  });
+
+  it('refunds a paid transaction and reports the outcome by webhook', async () => {
+    const init = await monnifyService.initializeTransaction('buyer@example.com', 3000, 'HD-E2E-3');
+    await simulator.completeTransaction('HD-E2E-3', 'success');
+
+    const refund = await monnifyService.refundTransaction(init.transactionReference, 1000);
+    expect(refund.status).toBe('IN_PROGRESS');
+
+    await simulator.settleRefund(refund.refundReference, 'success');
+
+    const event = monnifyService.parseWebhookEvent(
+      simulator.webhooks[simulator.webhooks.length - 1].body,
+    );
+    expect(event).toMatchObject({
+      type: 'REFUND_SUCCESS',
+      refundReference: refund.refundReference,
+      amount: 1000,
+    });
+    expect((await monnifyService.verifyRefund(refund.refundReference)).status).toBe('processed');
+  });
+
+  it('reports a refund the gateway could not complete', async () => {
+    const init = await monnifyService.initializeTransaction('buyer@example.com', 3000, 'HD-E2E-4');
+    await simulator.completeTransaction('HD-E2E-4', 'success');
+
+    const refund = await monnifyService.refundTransaction(init.transactionReference, 3000);
+    expect((await monnifyService.verifyRefund(refund.refundReference)).status).toBe('pending');
+
+    await simulator.settleRefund(refund.refundReference, 'failed');
+
+    const event = monnifyService.parseWebhookEvent(
+      simulator.webhooks[simulator.webhooks.length - 1].body,
+    );
+    expect(event).toMatchObject({
+      type: 'REFUND_FAILED',
+      refundReference: refund.refundReference,
+    });
+    expect((await monnifyService.verifyRefund(refund.refundReference)).status).toBe('failed');
+  });
+
+  it('rejects refund webhooks that are not signed by Monnify', async () => {
+    const init = await monnifyService.initializeTransaction('buyer@example.com', 3000, 'HD-E2E-5');
+    await simulator.completeTransaction('HD-E2E-5', 'success');
+
+    const refund = await monnifyService.refundTransaction(init.transactionReference, 3000);
+    await simulator.settleRefund(refund.refundReference, 'success');
+
+    const webhook = simulator.webhooks[simulator.webhooks.length - 1];
+    expect(monnifyService.verifyWebhook(asRequest(webhook), '127.0.0.1')).toBe(true);
+
+    // Same refund, reported as failed by someone without the secret key
+    const forged = {
+      eventType: 'FAILED_REFUND',
+      eventData: { ...webhook.body.eventData, refundStatus: 'FAILED' },
+    };
+    expect(
+      monnifyService.verifyWebhook(asRequest({ body: forged, headers: {} }), '127.0.0.1'),
+    ).toBe(false);
+
+    const signedWithWrongKey = {
+      'monnify-signature': crypto
+        .createHmac('sha512', 'not-the-secret')
+        .update(JSON.stringify(forged))
+        .digest('hex'),
+    };
+    expect(
+      monnifyService.verifyWebhook(
+        asRequest({ body: forged, headers: signedWithWrongKey }),
+        '127.0.0.1',
+      ),
+    ).toBe(false);
+  });
+
+  it('lists banks, resolves accounts and pays out', async () => {
+    const banks = await monnifyService.getBanks();
+    expect(banks.find((bank) => bank.code === '058')).toBeDefined();
+
+    const account = await monnifyService.resolveAccountNumber('0123456789', '058');
+    expect(account.accountName).toBe('SIMULATED ACCOUNT 6789');
+    await expect(monnifyService.resolveAccountNumber('0123459999', '058')).rejects.toThrow();
+
+    const transfer = await monnifyService.initiateTransfer(
+      10000,
+      '058',
+      '0123456789',
+      account.accountName,
+      'Withdrawal',
+    );
+    expect(transfer.status).toBe('PENDING');
+
+    await simulator.settleDisbursement(transfer.reference, 'success');
+
+    const event = monnifyService.parseWebhookEvent(
+      simulator.webhooks[simulator.webhooks.length - 1].body,
+    );
+    expect(event).toMatchObject({
+      type: 'TRANSFER_SUCCESS',
+      transferReference: transfer.reference,
+    });
+  });
+
+  it('reserves virtual accounts', async () => {
+    const account = await monnifyService.createVirtualAccount(
+      'org-1',
+      'Test Organizer',
+      'organizer@example.com',
+    );
+    expect(account.accountNumber).toMatch(/^\d{10}$/);
+    expect(await monnifyService.deactivateVirtualAccount(account.accountReference)).toBe(true);
+  });
+});
@@ -15,14 +15,16 @@ import { api } from '@/lib/api-client';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import type { RefundStatus } from '@/types';
 import { Ticket, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
 
 interface RefundRequest {
   id: string;
-  status: 'PENDING' | 'APPROVED' | 'PROCESSED' | 'REJECTED';
+  status: RefundStatus;
   reason: string;
   createdAt: string;
   processedAt?: string;
+  completedAt?: string;
   rejectionNote?: string;
   refundAmount?: number;
   ticket: {
@@ -98,6 +100,10 @@ export default function RefundsPage() {
         return <Badge variant="secondary" className="gap-1"><Clock className="h-3 w-3" />Pending</Badge>;
       case 'APPROVED':
         return <Badge variant="default" className="gap-1 bg-blue-500"><Clock className="h-3 w-3" />Approved</Badge>;
+      case 'PROCESSING':
+        return <Badge variant="default" className="gap-1 bg-blue-500"><Clock className="h-3 w-3" />Processing</Badge>;
+      case 'FAILED':
+        return <Badge variant="outline" className="gap-1 border-orange-500 text-orange-600"><AlertCircle className="h-3 w-3" />Delayed</Badge>;
       case 'PROCESSED':
         return <Badge variant="success" className="gap-1"><CheckCircle className="h-3 w-3" />Refunded</Badge>;
       case 'REJECTED':
@@ -168,7 +174,13 @@ export default function RefundsPage() {
                         {refund.status === 'PROCESSED' && refund.processedAt && (
                           <p className="text-sm text-green-600 mt-2 flex items-center gap-1">
                             <CheckCircle className="h-3 w-3" />
-                            Refunded on {formatDate(refund.processedAt)}
+                            Refunded on {formatDate(refund.completedAt || refund.processedAt)}
+                          </p>
+                        )}
+                        {refund.status === 'FAILED' && (
+                          <p className="text-sm text-orange-600 mt-2">
+                            The payment provider couldn&apos;t send this refund. Your ticket is valid again
+                            while our team retries it, and we&apos;ll email you once it goes through.
                           </p>
                         )}
                         {refund.status === 'REJECTED' && refund.rejectionNote && (
@@ -6,6 +6,16 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { PageLoader } from '@/components/ui/spinner';
 import { Header } from '@/components/layouts/header';
 import { Footer } from '@/components/layouts/footer';
@@ -13,7 +23,7 @@ import { BuyerNav } from '@/components/layouts/sidebar';
 import { api } from '@/lib/api-client';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { formatDate, cn } from '@/lib/utils';
+import { formatDate, formatCurrency, cn } from '@/lib/utils';
 import { getTierColorByPrice, getDefaultTierColor } from '@/lib/tier-colors';
 import {
   Calendar,
@@ -27,7 +37,11 @@ import {
   AlertCircle,
   Download,
   Share2,
-  ExternalLink
+  ExternalLink,
+  Send,
+  RefreshCw,
+  XCircle,
+  Tag
 } from 'lucide-react';
 import type { Ticket as TicketType } from '@/types';
 
@@ -37,6 +51,14 @@ export default function MyTicketsPage() {
   const [tickets, setTickets] = useState<TicketType[]>([]);
   const [loading, setLoading] = useState(true);
   const [checkingPayments, setCheckingPayments] = useState(false);
+  const [transferTicket, setTransferTicket] = useState<TicketType | null>(null);
+  const [transferForm, setTransferForm] = useState({ toEmail: '', toFirstName: '', toLastName: '' });
+  const [transferring, setTransferring] = useState(false);
+  const [cancellingTransferId, setCancellingTransferId] = useState<string | null>(null);
+  const [resaleTicket, setResaleTicket] = useState<TicketType | null>(null);
+  const [resalePrice, setResalePrice] = useState('');
+  const [listing, setListing] = useState(false);
+  const [cancellingListingId, setCancellingListingId] = useState<string | null>(null);
 
   const fetchTickets = async () => {
     try {
@@ -47,6 +69,80 @@ export default function MyTicketsPage() {
     }
   };
 
+  const openTransferDialog = (ticket: TicketType) => {
+    setTransferForm({ toEmail: '', toFirstName: '', toLastName: '' });
+    setTransferTicket(ticket);
+  };
+
+  const handleTransfer = async () => {
+    if (!transferTicket) return;
+    setTransferring(true);
+    try {
+      const result = await api.transferTicket(transferTicket.id, {
+        toEmail: transferForm.toEmail.trim(),
+        toFirstName: transferForm.toFirstName.trim() || undefined,
+        toLastName: transferForm.toLastName.trim() || undefined,
+      });
+      success(result.message);
+      setTransferTicket(null);
+      await fetchTickets();
+    } catch (err: any) {
+      error(err.message || 'Failed to transfer ticket');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const handleCancelTransfer = async (transferId: string) => {
+    setCancellingTransferId(transferId);
+    try {
+      const result = await api.cancelTransfer(transferId);
+      success(result.message);
+      await fetchTickets();
+    } catch (err: any) {
+      error(err.message || 'Failed to cancel transfer');
+    } finally {
+      setCancellingTransferId(null);
+    }
+  };
+
+  // Organizers cap resale prices at a % of what the holder paid
+  const maxResalePrice = (ticket: TicketType) =>
+    Math.floor((Number(ticket.amountPaid) * (ticket.event?.resaleMaxPricePercent ?? 100)) / 100);
+
+  const openResaleDialog = (ticket: TicketType) => {
+    setResalePrice(String(maxResalePrice(ticket)));
+    setResaleTicket(ticket);
+  };
+
+  const handleListForResale = async () => {
+    if (!resaleTicket) return;
+    setListing(true);
+    try {
+      const result = await api.createResaleListing(resaleTicket.id, Number(resalePrice));
+      success(result.message);
+      setResaleTicket(null);
+      await fetchTickets();
+    } catch (err: any) {
+      error(err.message || 'Failed to list ticket for resale');
+    } finally {
+      setListing(false);
+    }
+  };
+
+  const handleCancelListing = async (listingId: string) => {
+    setCancellingListingId(listingId);
+    try {
+      const result = await api.cancelResaleListing(listingId);
+      success(result.message);
+      await fetchTickets();
+    } catch (err: any) {
+      error(err.message || 'Failed to cancel listing');
+    } finally {
+      setCancellingListingId(null);
+    }
+  };
+
   useEffect(() => {
     const checkPendingAndFetch = async () => {
       setLoading(true);
@@ -106,6 +202,8 @@ export default function MyTicketsPage() {
         return { variant: 'default' as const, icon: CheckCircle2, label: 'Checked In', color: 'text-blue-600' };
       case 'CANCELLED':
         return { variant: 'destructive' as const, icon: AlertCircle, label: 'Cancelled', color: 'text-red-600' };
+      case 'FROZEN':
+        return { variant: 'warning' as const, icon: AlertCircle, label: 'On Hold', color: 'text-yellow-600' };
       default:
         return { variant: 'secondary' as const, icon: Clock, label: status, color: 'text-muted-foreground' };
     }
@@ -208,6 +306,27 @@ export default function MyTicketsPage() {
                       ? getTierColorByPrice(currentTierPrice, allTierPrices)
                       : getDefaultTierColor();
 
+                    const pendingTransfer = ticket.transfers?.[0];
+                    const resaleListing = ticket.resaleListings?.[0];
+                    const openListing =
+                      resaleListing && resaleListing.status !== 'SOLD' ? resaleListing : undefined;
+                    const soldListing = resaleListing?.status === 'SOLD' ? resaleListing : undefined;
+                    const canResell =
+                      ticket.status === 'ACTIVE' &&
+                      !pendingTransfer &&
+                      !openListing &&
+                      !ticket.isComp &&
+                      Number(ticket.amountPaid) > 0 &&
+                      ticket.event?.resaleEnabled === true &&
+                      new Date(ticket.event?.startDate || 0) > now;
+                    const canTransfer =
+                      ticket.status === 'ACTIVE' &&
+                      !pendingTransfer &&
+                      !openListing &&
+                      ticket.event?.allowTransfers !== false &&
+                      ticket.tier?.transferEnabled !== false &&
+                      new Date(ticket.event?.startDate || 0) > now;
+
                     return (
                       <Card key={ticket.id} className={cn("overflow-hidden hover:shadow-lg transition-shadow border-l-4")} style={{ borderLeftColor: tierColor.borderHex }}>
                         <CardContent className="p-0">
@@ -267,6 +386,18 @@ export default function MyTicketsPage() {
                                 </div>
                               </div>
 
+                              {/* Registration answers */}
+                              {ticket.answers && ticket.answers.length > 0 && (
+                                <dl className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                                  {ticket.answers.map((answer) => (
+                                    <div key={answer.question.id} className="flex gap-2 min-w-0">
+                                      <dt className="text-muted-foreground shrink-0">{answer.question.label}:</dt>
+                                      <dd className="font-medium truncate">{answer.values.join(', ')}</dd>
+                                    </div>
+                                  ))}
+                                </dl>
+                              )}
+
                               {/* Action Buttons */}
                               <div className="flex flex-wrap gap-2 mt-3 pt-3 border-t border-border">
                                 <Link href={`/events/${ticket.event?.slug}`}>
@@ -275,7 +406,80 @@ export default function MyTicketsPage() {
                                     View Event
                                   </Button>
                                 </Link>
+                                {canTransfer && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="gap-1.5"
+                                    onClick={() => openTransferDialog(ticket)}
+                                  >
+                                    <Send className="h-3.5 w-3.5" />
+                                    Transfer
+                                  </Button>
+                                )}
+                                {canResell && (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="gap-1.5"
+                                    onClick={() => openResaleDialog(ticket)}
+                                  >
+                                    <Tag className="h-3.5 w-3.5" />
+                                    Resell
+                                  </Button>
+                                )}
                               </div>
+
+                              {openListing && (
+                                <div className="flex flex-wrap items-center justify-between gap-2 mt-3 p-2 rounded-lg bg-blue-50 dark:bg-blue-950/30 text-xs text-blue-700 dark:text-blue-300">
+                                  <span>
+                                    {openListing.status === 'RESERVED'
+                                      ? 'A buyer is checking out for this ticket right now.'
+                                      : `Listed for resale at ${formatCurrency(Number(openListing.price))}.`}{' '}
+                                    You&apos;ll receive {formatCurrency(Number(openListing.payoutAmount))} when it sells.
+                                  </span>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 gap-1 text-blue-700 dark:text-blue-300"
+                                    disabled={cancellingListingId === openListing.id}
+                                    onClick={() => handleCancelListing(openListing.id)}
+                                  >
+                                    <XCircle className="h-3.5 w-3.5" />
+                                    Cancel Listing
+                                  </Button>
+                                </div>
+                              )}
+
+                              {soldListing && (
+                                <div className="mt-3 p-2 rounded-lg bg-green-50 dark:bg-green-950/30 text-xs text-green-700 dark:text-green-300">
+                                  Resold for {formatCurrency(Number(soldListing.price))}.{' '}
+                                  {soldListing.paidOutAt
+                                    ? `${formatCurrency(Number(soldListing.payoutAmount))} has been refunded to your original payment method.`
+                                    : `Your payout of ${formatCurrency(Number(soldListing.payoutAmount))} is being processed.`}
+                                </div>
+                              )}
+
+                              {pendingTransfer?.id && (
+                                <div className="flex flex-wrap items-center justify-between gap-2 mt-3 p-2 rounded-lg bg-amber-50 dark:bg-amber-950/30 text-xs text-amber-700 dark:text-amber-300">
+                                  <span>
+                                    Waiting for {pendingTransfer.toFirstName || pendingTransfer.toEmail} to accept
+                                    {pendingTransfer.expiresAt &&
+                                      ` (until ${new Date(pendingTransfer.expiresAt).toLocaleString()})`}
+                                    . The ticket is still yours until then.
+                                  </span>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 gap-1 text-amber-700 dark:text-amber-300"
+                                    disabled={cancellingTransferId === pendingTransfer.id}
+                                    onClick={() => handleCancelTransfer(pendingTransfer.id!)}
+                                  >
+                                    <XCircle className="h-3.5 w-3.5" />
+                                    Cancel Transfer
+                                  </Button>
+                                </div>
+                              )}
                             </div>
 
                             {/* QR Code Section */}
@@ -422,6 +626,130 @@ export default function MyTicketsPage() {
         )}
       </main>
       <Footer />
+
+      {/* Transfer Ticket Dialog */}
+      <Dialog open={transferTicket !== null} onOpenChange={(open) => !open && setTransferTicket(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer Ticket</DialogTitle>
+            <DialogDescription>
+              {transferTicket &&
+                `Send your ${transferTicket.tier?.name} ticket for ${transferTicket.event?.title} to someone else. `}
+              They&apos;ll get an email to accept it, then a new QR code is issued to them and yours stops working.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="toEmail">Recipient Email</Label>
+              <Input
+                id="toEmail"
+                type="email"
+                value={transferForm.toEmail}
+                onChange={(e) => setTransferForm({ ...transferForm, toEmail: e.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="toFirstName">First Name (optional)</Label>
+                <Input
+                  id="toFirstName"
+                  value={transferForm.toFirstName}
+                  onChange={(e) => setTransferForm({ ...transferForm, toFirstName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="toLastName">Last Name (optional)</Label>
+                <Input
+                  id="toLastName"
+                  value={transferForm.toLastName}
+                  onChange={(e) => setTransferForm({ ...transferForm, toLastName: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTransferTicket(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleTransfer} disabled={transferring || !transferForm.toEmail.trim()}>
+              {transferring ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Send className="h-4 w-4 mr-2" />
+                  Send Ticket
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Resell Ticket Dialog */}
+      <Dialog open={resaleTicket !== null} onOpenChange={(open) => !open && setResaleTicket(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resell Ticket</DialogTitle>
+            <DialogDescription>
+              {resaleTicket &&
+                `List your ${resaleTicket.tier?.name} ticket for ${resaleTicket.event?.title} on the event page. `}
+              When someone buys it they get a new ticket, yours stops working, and you&apos;re refunded the
+              price minus the platform fee
+              {resaleTicket?.event?.resaleRoyaltyPercent
+                ? ` and a ${resaleTicket.event.resaleRoyaltyPercent}% organizer royalty`
+                : ''}
+              .
+            </DialogDescription>
+          </DialogHeader>
+          {resaleTicket && (
+            <div className="space-y-2 py-2">
+              <Label htmlFor="resalePrice">Asking Price (₦)</Label>
+              <Input
+                id="resalePrice"
+                type="number"
+                min={100}
+                max={maxResalePrice(resaleTicket)}
+                value={resalePrice}
+                onChange={(e) => setResalePrice(e.target.value)}
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground">
+                The organizer caps resales at {formatCurrency(maxResalePrice(resaleTicket))} for this ticket.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResaleTicket(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleListForResale}
+              disabled={
+                listing ||
+                !resalePrice ||
+                Number(resalePrice) < 100 ||
+                (resaleTicket !== null && Number(resalePrice) > maxResalePrice(resaleTicket))
+              }
+            >
+              {listing ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Listing...
+                </>
+              ) : (
+                <>
+                  <Tag className="h-4 w-4 mr-2" />
+                  List Ticket
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
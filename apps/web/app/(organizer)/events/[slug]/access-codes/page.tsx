@@ -0,0 +1,562 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { api } from '@/lib/api-client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ArrowLeft,
+  Plus,
+  Copy,
+  Link2,
+  Trash2,
+  KeyRound,
+  CheckCircle2,
+  XCircle,
+  RefreshCw,
+  Ticket,
+  EyeOff,
+  AlertTriangle,
+} from 'lucide-react';
+import { formatDate } from '@/lib/utils';
+import type { AccessCode } from '@/types';
+
+interface Event {
+  id: string;
+  title: string;
+  slug: string;
+  tiers?: { id: string; name: string; isHidden?: boolean }[];
+}
+
+const emptyForm = {
+  code: '',
+  label: '',
+  tierIds: [] as string[],
+  maxTickets: '',
+  maxTicketsPerBuyer: '',
+  startsAt: '',
+  endsAt: '',
+};
+
+// datetime-local values are stored as the literal time entered, same as event dates
+const toISOString = (dateTimeLocal: string) =>
+  dateTimeLocal ? `${dateTimeLocal}:00.000Z` : undefined;
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export default function AccessCodesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { success, error } = useToast();
+  const slug = params.slug as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [accessCodes, setAccessCodes] = useState<AccessCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [creating, setCreating] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [deleteDialog, setDeleteDialog] = useState<AccessCode | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [slug]);
+
+  const loadData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      // Signed in as the organizer, the event includes its hidden tiers
+      const eventData = await api.getEventBySlug(slug);
+      setEvent(eventData);
+
+      const codes = await api.getEventAccessCodes(eventData.id);
+      setAccessCodes(codes);
+    } catch (err: any) {
+      error(err.message || 'Failed to load access codes');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleCreateCode = async () => {
+    if (!event) return;
+
+    try {
+      setCreating(true);
+      const created = await api.createAccessCode(event.id, {
+        code: form.code.trim().toUpperCase() || undefined,
+        label: form.label.trim() || undefined,
+        tierIds: form.tierIds,
+        maxTickets: toOptionalNumber(form.maxTickets),
+        maxTicketsPerBuyer: toOptionalNumber(form.maxTicketsPerBuyer),
+        startsAt: toISOString(form.startsAt),
+        endsAt: toISOString(form.endsAt),
+      });
+      setAccessCodes([{ ...created, redemptions: 0, ticketsIssued: 0 }, ...accessCodes]);
+      setForm(emptyForm);
+      setShowCreateDialog(false);
+      success('Access code created!');
+    } catch (err: any) {
+      error(err.message || 'Failed to create access code');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (accessCode: AccessCode) => {
+    try {
+      setTogglingId(accessCode.id);
+      await api.updateAccessCode(accessCode.id, { isActive: !accessCode.isActive });
+      setAccessCodes(
+        accessCodes.map((c) => (c.id === accessCode.id ? { ...c, isActive: !accessCode.isActive } : c))
+      );
+      success(`Access code ${accessCode.isActive ? 'deactivated' : 'reactivated'}!`);
+    } catch (err: any) {
+      error(err.message || 'Failed to update access code');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const handleDeleteCode = async () => {
+    if (!deleteDialog) return;
+
+    try {
+      setDeletingId(deleteDialog.id);
+      await api.deleteAccessCode(deleteDialog.id);
+      setAccessCodes(accessCodes.filter((c) => c.id !== deleteDialog.id));
+      success('Access code deleted!');
+      setDeleteDialog(null);
+    } catch (err: any) {
+      error(err.message || 'Failed to delete access code');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const copyPrivateLink = (accessCode: AccessCode) => {
+    navigator.clipboard.writeText(`${window.location.origin}/events/${slug}?access=${accessCode.code}`);
+    success('Private link copied to clipboard!');
+  };
+
+  const toggleTier = (tierId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      tierIds: checked ? [...prev.tierIds, tierId] : prev.tierIds.filter((id) => id !== tierId),
+    }));
+  };
+
+  const hiddenTiers = (event?.tiers || []).filter((tier) => tier.isHidden);
+
+  const tierNames = (tierIds: string[]) =>
+    tierIds.length === 0
+      ? 'All hidden tiers'
+      : tierIds.map((id) => event?.tiers?.find((t) => t.id === id)?.name || 'Removed tier').join(', ');
+
+  const totalRedemptions = accessCodes.reduce((sum, c) => sum + (c.redemptions || 0), 0);
+  const totalTickets = accessCodes.reduce((sum, c) => sum + (c.ticketsIssued || 0), 0);
+
+  if (loading) {
+    return (
+      <div className="container max-w-4xl py-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/events/${slug}/analytics`)}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Access Codes</h1>
+            <p className="text-sm text-muted-foreground">{event?.title}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => loadData(true)} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={() => setShowCreateDialog(true)} disabled={hiddenTiers.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Code
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-blue-100 rounded-lg shrink-0">
+                <EyeOff className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{hiddenTiers.length}</p>
+                <p className="text-sm text-muted-foreground">Hidden Tiers</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-green-100 rounded-lg shrink-0">
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{totalRedemptions}</p>
+                <p className="text-sm text-muted-foreground">Paid Orders Using Codes</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-purple-100 rounded-lg shrink-0">
+                <Ticket className="h-5 w-5 text-purple-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{totalTickets}</p>
+                <p className="text-sm text-muted-foreground">Hidden Tickets Issued</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Access Codes List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Access Codes</CardTitle>
+          <CardDescription>
+            Hidden tiers don&apos;t appear on your event page. Buyers see them after entering a code or
+            opening its private link.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {hiddenTiers.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <EyeOff className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No Hidden Tiers</h3>
+              <p className="text-muted-foreground mb-4 max-w-sm mx-auto">
+                Mark a tier as hidden when editing your event, then create codes for press, sponsors or
+                guests.
+              </p>
+              <Button variant="outline" onClick={() => router.push(`/events/${slug}/edit`)}>
+                Edit Event
+              </Button>
+            </div>
+          ) : accessCodes.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <KeyRound className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No Access Codes Yet</h3>
+              <p className="text-muted-foreground mb-4 max-w-sm mx-auto">
+                Create a code or private link to share your hidden tiers.
+              </p>
+              <Button onClick={() => setShowCreateDialog(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create First Code
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {accessCodes.map((accessCode) => (
+                <div
+                  key={accessCode.id}
+                  className={`flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 border rounded-lg transition-colors ${
+                    accessCode.isActive ? 'bg-white hover:bg-gray-50' : 'bg-gray-50/50 opacity-70'
+                  }`}
+                >
+                  <div className="flex items-start sm:items-center gap-4 min-w-0">
+                    <div className="font-mono text-base sm:text-lg font-bold tracking-widest bg-gray-100 px-3 py-2 rounded select-all">
+                      {accessCode.code}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{accessCode.label || tierNames(accessCode.tierIds)}</span>
+                        <Badge
+                          variant={accessCode.isActive ? 'default' : 'secondary'}
+                          className={accessCode.isActive ? 'bg-green-100 text-green-700 hover:bg-green-100' : ''}
+                        >
+                          {accessCode.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                        {accessCode.label && <span>{tierNames(accessCode.tierIds)}</span>}
+                        <span>
+                          {accessCode.ticketsIssued || 0}
+                          {accessCode.maxTickets ? ` / ${accessCode.maxTickets}` : ''} tickets
+                        </span>
+                        {accessCode.maxTicketsPerBuyer && <span>{accessCode.maxTicketsPerBuyer} per buyer</span>}
+                        {accessCode.endsAt && <span>Ends {formatDate(accessCode.endsAt, 'short')}</span>}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 ml-auto sm:ml-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => copyPrivateLink(accessCode)}
+                      title="Copy private link"
+                    >
+                      <Link2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        navigator.clipboard.writeText(accessCode.code);
+                        success('Code copied to clipboard!');
+                      }}
+                      title="Copy code"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(accessCode)}
+                      disabled={togglingId === accessCode.id}
+                      title={accessCode.isActive ? 'Deactivate' : 'Reactivate'}
+                    >
+                      {togglingId === accessCode.id ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : accessCode.isActive ? (
+                        <XCircle className="h-4 w-4 text-amber-600" />
+                      ) : (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setDeleteDialog(accessCode)}
+                      title="Delete code"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Create Access Code</DialogTitle>
+            <DialogDescription>
+              Leave the code empty to generate one. Leave limits and dates empty for no restrictions.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
+                <Input
+                  id="code"
+                  placeholder="Generated"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  maxLength={30}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="label">Label</Label>
+                <Input
+                  id="label"
+                  placeholder="e.g., Press"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  maxLength={100}
+                />
+              </div>
+            </div>
+            {hiddenTiers.length > 1 && (
+              <div className="space-y-2">
+                <Label>Unlocks</Label>
+                <p className="text-xs text-muted-foreground">Leave all unticked to unlock every hidden tier.</p>
+                <div className="space-y-2">
+                  {hiddenTiers.map((tier) => (
+                    <label key={tier.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.tierIds.includes(tier.id)}
+                        onCheckedChange={(checked) => toggleTier(tier.id, checked === true)}
+                      />
+                      {tier.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="maxTickets">Total Tickets</Label>
+                <Input
+                  id="maxTickets"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={form.maxTickets}
+                  onChange={(e) => setForm({ ...form, maxTickets: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxTicketsPerBuyer">Per Buyer</Label>
+                <Input
+                  id="maxTicketsPerBuyer"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={form.maxTicketsPerBuyer}
+                  onChange={(e) => setForm({ ...form, maxTicketsPerBuyer: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="startsAt">Starts</Label>
+                <Input
+                  id="startsAt"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endsAt">Ends</Label>
+                <Input
+                  id="endsAt"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateCode}
+              disabled={creating || (form.code.trim().length > 0 && form.code.trim().length < 3)}
+            >
+              {creating ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Create Code
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialog !== null} onOpenChange={(open) => !open && setDeleteDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              Delete Access Code
+            </DialogTitle>
+            <DialogDescription>
+              Codes that have already been used can&apos;t be deleted - deactivate them instead. Its
+              private link stops working either way.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteDialog && (
+            <div className="py-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="font-mono text-lg font-bold tracking-widest mb-2">{deleteDialog.code}</div>
+                <p className="text-sm text-muted-foreground">
+                  {deleteDialog.label || tierNames(deleteDialog.tierIds)}
+                </p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteCode}
+              disabled={deletingId === deleteDialog?.id}
+            >
+              {deletingId === deleteDialog?.id ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Code
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   Dialog,
@@ -34,26 +36,39 @@ import {
   ExternalLink,
   AlertTriangle,
   Share2,
+  KeyRound,
+  DoorOpen,
+  Pencil,
+  ShieldCheck,
+  Lock,
+  Smartphone,
+  CalendarClock,
 } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
-
-interface AgentCode {
-  id: string;
-  code: string;
-  label: string | null;
-  isActive: boolean;
-  activatedAt: string | null;
-  lastUsedAt: string | null;
-  checkInCount: number;
-  createdAt: string;
-}
+import type { AgentCode, AgentZone, EventSigningKey } from '@/types';
 
 interface Event {
   id: string;
   title: string;
   slug: string;
+  tiers?: { id: string; name: string }[];
 }
 
+const emptyZoneForm = { name: '', tierIds: [] as string[] };
+
+const emptySecurityForm = {
+  validFrom: '',
+  validUntil: '',
+  pin: '',
+  removePin: false,
+  bindDevice: false,
+  resetDevice: false,
+};
+
+// datetime-local values are stored as the literal time entered, same as event dates
+const toISOString = (dateTimeLocal: string) => `${dateTimeLocal}:00.000Z`;
+const toDateTimeLocal = (iso: string | null) => (iso ? iso.slice(0, 16) : '');
+
 export default function AgentCodesPage() {
   const params = useParams();
   const router = useRouter();
@@ -66,6 +81,8 @@ export default function AgentCodesPage() {
   const [refreshing, setRefreshing] = useState(false);
   const [creating, setCreating] = useState(false);
   const [newLabel, setNewLabel] = useState('');
+  const [newZoneId, setNewZoneId] = useState('');
+  const [newSecurity, setNewSecurity] = useState(emptySecurityForm);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; code: AgentCode | null }>({
     open: false,
@@ -73,6 +90,23 @@ export default function AgentCodesPage() {
   });
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [signingKeys, setSigningKeys] = useState<EventSigningKey[]>([]);
+  const [rotating, setRotating] = useState(false);
+  const [zones, setZones] = useState<AgentZone[]>([]);
+  const [zoneDialog, setZoneDialog] = useState<{ open: boolean; zone: AgentZone | null }>({
+    open: false,
+    zone: null,
+  });
+  const [zoneForm, setZoneForm] = useState(emptyZoneForm);
+  const [savingZone, setSavingZone] = useState(false);
+  const [deletingZoneId, setDeletingZoneId] = useState<string | null>(null);
+  const [zoneChangingId, setZoneChangingId] = useState<string | null>(null);
+  const [securityDialog, setSecurityDialog] = useState<{ open: boolean; code: AgentCode | null }>({
+    open: false,
+    code: null,
+  });
+  const [securityForm, setSecurityForm] = useState(emptySecurityForm);
+  const [savingSecurity, setSavingSecurity] = useState(false);
 
   const agentPortalUrl = typeof window !== 'undefined' ? `${window.location.origin}/agent` : '';
 
@@ -91,9 +125,15 @@ export default function AgentCodesPage() {
       const eventData = await api.getEventBySlug(slug);
       setEvent(eventData);
 
-      // Then get the agent codes
-      const codes = await api.getEventAgentCodes(eventData.id);
+      // Then get the agent codes, zones and ticket signing keys
+      const [codes, eventZones, keys] = await Promise.all([
+        api.getEventAgentCodes(eventData.id),
+        api.getEventZones(eventData.id),
+        api.getEventSigningKeys(eventData.id),
+      ]);
       setAgentCodes(codes);
+      setZones(eventZones);
+      setSigningKeys(keys);
       
       if (isRefresh) {
         success('Data refreshed!');
@@ -111,15 +151,21 @@ export default function AgentCodesPage() {
 
     try {
       setCreating(true);
-      const newCode = await api.createAgentCode(event.id, newLabel || undefined);
-      // Add missing fields with default values for newly created codes
-      const codeWithDefaults: AgentCode = {
-        ...newCode,
-        activatedAt: null,
-        lastUsedAt: null,
-      };
-      setAgentCodes([codeWithDefaults, ...agentCodes]);
+      const newCode = await api.createAgentCode(event.id, {
+        label: newLabel || undefined,
+        zoneId: newZoneId || undefined,
+        validFrom: newSecurity.validFrom ? toISOString(newSecurity.validFrom) : undefined,
+        validUntil: newSecurity.validUntil ? toISOString(newSecurity.validUntil) : undefined,
+        pin: newSecurity.pin || undefined,
+        bindDevice: newSecurity.bindDevice,
+      });
+      setAgentCodes([newCode, ...agentCodes]);
+      if (newCode.zone) {
+        setZones(await api.getEventZones(event.id));
+      }
       setNewLabel('');
+      setNewZoneId('');
+      setNewSecurity(emptySecurityForm);
       setShowCreateDialog(false);
       success('Agent access code created successfully!');
     } catch (err: any) {
@@ -177,6 +223,128 @@ export default function AgentCodesPage() {
     }
   };
 
+  const handleSetCodeZone = async (codeId: string, zoneId: string) => {
+    if (!event) return;
+
+    try {
+      setZoneChangingId(codeId);
+      const updated = await api.setAgentCodeZone(codeId, zoneId || null);
+      setAgentCodes(agentCodes.map((c) => (c.id === codeId ? { ...c, zone: updated.zone } : c)));
+      setZones(await api.getEventZones(event.id));
+      success(updated.zone ? `Code restricted to ${updated.zone.name}` : 'Code now admits every tier');
+    } catch (err: any) {
+      error(err.message || 'Failed to change the code\'s zone');
+    } finally {
+      setZoneChangingId(null);
+    }
+  };
+
+  const openSecurityDialog = (code: AgentCode) => {
+    setSecurityForm({
+      ...emptySecurityForm,
+      validFrom: toDateTimeLocal(code.validFrom),
+      validUntil: toDateTimeLocal(code.validUntil),
+      bindDevice: code.bindDevice,
+    });
+    setSecurityDialog({ open: true, code });
+  };
+
+  const handleSaveSecurity = async () => {
+    const code = securityDialog.code;
+    if (!code) return;
+
+    try {
+      setSavingSecurity(true);
+      const updated = await api.updateAgentCodeSecurity(code.id, {
+        validFrom: securityForm.validFrom ? toISOString(securityForm.validFrom) : null,
+        validUntil: securityForm.validUntil ? toISOString(securityForm.validUntil) : null,
+        // A blank PIN keeps the current one
+        pin: securityForm.removePin ? null : securityForm.pin || undefined,
+        bindDevice: securityForm.bindDevice,
+        resetDevice: securityForm.resetDevice || undefined,
+      });
+      setAgentCodes(agentCodes.map((c) => (c.id === updated.id ? { ...c, ...updated } : c)));
+      setSecurityDialog({ open: false, code: null });
+      success('Access code security updated!');
+    } catch (err: any) {
+      error(err.message || 'Failed to update access code security');
+    } finally {
+      setSavingSecurity(false);
+    }
+  };
+
+  const openZoneDialog = (zone: AgentZone | null) => {
+    setZoneForm(
+      zone ? { name: zone.name, tierIds: zone.tiers.map((tier) => tier.id) } : emptyZoneForm
+    );
+    setZoneDialog({ open: true, zone });
+  };
+
+  const toggleZoneTier = (tierId: string, checked: boolean) => {
+    setZoneForm((prev) => ({
+      ...prev,
+      tierIds: checked ? [...prev.tierIds, tierId] : prev.tierIds.filter((id) => id !== tierId),
+    }));
+  };
+
+  const handleSaveZone = async () => {
+    if (!event) return;
+
+    const data = { name: zoneForm.name.trim(), tierIds: zoneForm.tierIds };
+    try {
+      setSavingZone(true);
+      if (zoneDialog.zone) {
+        const updated = await api.updateZone(zoneDialog.zone.id, data);
+        setZones(zones.map((z) => (z.id === updated.id ? updated : z)));
+        // Codes show the zone's name
+        setAgentCodes(
+          agentCodes.map((c) =>
+            c.zone?.id === updated.id ? { ...c, zone: { id: updated.id, name: updated.name } } : c
+          )
+        );
+        success('Zone updated!');
+      } else {
+        const created = await api.createZone(event.id, data);
+        setZones([...zones, created].sort((a, b) => a.name.localeCompare(b.name)));
+        success('Zone created!');
+      }
+      setZoneDialog({ open: false, zone: null });
+    } catch (err: any) {
+      error(err.message || 'Failed to save zone');
+    } finally {
+      setSavingZone(false);
+    }
+  };
+
+  const handleDeleteZone = async (zone: AgentZone) => {
+    try {
+      setDeletingZoneId(zone.id);
+      await api.deleteZone(zone.id);
+      setZones(zones.filter((z) => z.id !== zone.id));
+      success('Zone deleted!');
+    } catch (err: any) {
+      error(err.message || 'Failed to delete zone');
+    } finally {
+      setDeletingZoneId(null);
+    }
+  };
+
+  const handleRotateKey = async () => {
+    if (!event) return;
+
+    try {
+      setRotating(true);
+      setSigningKeys(await api.rotateEventSigningKey(event.id));
+      success('Signing key rotated. Agents should sign in again to pick up the new key.');
+    } catch (err: any) {
+      error(err.message || 'Failed to rotate signing key');
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const currentKey = signingKeys.find((key) => !key.retiredAt);
+
   const totalCheckIns = agentCodes.reduce((sum, code) => sum + code.checkInCount, 0);
   const activeCodesCount = agentCodes.filter((c) => c.isActive).length;
 
@@ -230,7 +398,7 @@ export default function AgentCodesPage() {
                 Create Code
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create Agent Access Code</DialogTitle>
                 <DialogDescription>
@@ -254,12 +422,88 @@ export default function AgentCodesPage() {
                     This helps you identify which agent checked in which tickets.
                   </p>
                 </div>
+                {zones.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="zone">Zone</Label>
+                    <select
+                      id="zone"
+                      value={newZoneId}
+                      onChange={(e) => setNewZoneId(e.target.value)}
+                      className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                    >
+                      <option value="">All tiers (main entrance)</option>
+                      {zones.map((zone) => (
+                        <option key={zone.id} value={zone.id}>
+                          {zone.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      Agents at a zone&apos;s entrance turn away tickets of tiers not allowed in.
+                    </p>
+                  </div>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="validFrom">Valid From</Label>
+                    <Input
+                      id="validFrom"
+                      type="datetime-local"
+                      value={newSecurity.validFrom}
+                      onChange={(e) => setNewSecurity({ ...newSecurity, validFrom: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="validUntil">Valid Until</Label>
+                    <Input
+                      id="validUntil"
+                      type="datetime-local"
+                      value={newSecurity.validUntil}
+                      onChange={(e) => setNewSecurity({ ...newSecurity, validUntil: e.target.value })}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground sm:col-span-2 -mt-2">
+                    Leave blank to open the code a day before the event and close it a day after.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pin">PIN (Optional)</Label>
+                  <Input
+                    id="pin"
+                    inputMode="numeric"
+                    placeholder="4 to 8 digits"
+                    value={newSecurity.pin}
+                    onChange={(e) =>
+                      setNewSecurity({ ...newSecurity, pin: e.target.value.replace(/\D/g, '') })
+                    }
+                    maxLength={8}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Share the PIN separately - a photo of the code alone won&apos;t be enough.
+                  </p>
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="bindDevice">Lock to One Device</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Only the first phone to activate the code can use it.
+                    </p>
+                  </div>
+                  <Switch
+                    id="bindDevice"
+                    checked={newSecurity.bindDevice}
+                    onCheckedChange={(checked) => setNewSecurity({ ...newSecurity, bindDevice: checked })}
+                  />
+                </div>
               </div>
               <DialogFooter>
                 <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
                   Cancel
                 </Button>
-                <Button onClick={handleCreateCode} disabled={creating}>
+                <Button
+                  onClick={handleCreateCode}
+                  disabled={creating || (newSecurity.pin.length > 0 && newSecurity.pin.length < 4)}
+                >
                   {creating ? (
                     <>
                       <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
@@ -407,6 +651,24 @@ export default function AgentCodesPage() {
                             Used
                           </Badge>
                         )}
+                        {code.zone && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <DoorOpen className="h-3 w-3" />
+                            {code.zone.name}
+                          </Badge>
+                        )}
+                        {code.hasPin && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Lock className="h-3 w-3" />
+                            PIN
+                          </Badge>
+                        )}
+                        {code.bindDevice && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Smartphone className="h-3 w-3" />
+                            {code.boundDeviceId ? 'Device locked' : 'Locks to first device'}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
                         <span className="flex items-center gap-1">
@@ -420,10 +682,42 @@ export default function AgentCodesPage() {
                             : 'Never used'
                           }
                         </span>
+                        {(code.validFrom || code.validUntil) && (
+                          <span className="flex items-center gap-1">
+                            <CalendarClock className="h-3.5 w-3.5" />
+                            {code.validFrom ? formatDate(code.validFrom, 'short') : 'Day before event'}
+                            {' - '}
+                            {code.validUntil ? formatDate(code.validUntil, 'short') : 'day after event'}
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
                   <div className="flex items-center gap-2 ml-auto sm:ml-0">
+                    {zones.length > 0 && (
+                      <select
+                        value={code.zone?.id || ''}
+                        onChange={(e) => handleSetCodeZone(code.id, e.target.value)}
+                        disabled={zoneChangingId === code.id}
+                        className="h-9 px-2 rounded-md border bg-background text-sm max-w-[9rem]"
+                        aria-label="Zone"
+                      >
+                        <option value="">All tiers</option>
+                        {zones.map((zone) => (
+                          <option key={zone.id} value={zone.id}>
+                            {zone.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openSecurityDialog(code)}
+                      title="Validity, PIN and device lock"
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -472,6 +766,252 @@ export default function AgentCodesPage() {
         </CardContent>
       </Card>
 
+      {/* Zones */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Zones</CardTitle>
+            <CardDescription>
+              Restricted areas like a VIP lounge or backstage. Assign a code to a zone and its agent
+              only lets in the tiers allowed there, telling everyone else why.
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => openZoneDialog(null)} className="shrink-0">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Zone
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {zones.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No zones - every agent code admits all tiers.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {zones.map((zone) => (
+                <div
+                  key={zone.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border rounded-lg"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 font-medium">
+                      <DoorOpen className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <span className="truncate">{zone.name}</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                      <span>{zone.tiers.map((tier) => tier.name).join(', ')}</span>
+                      <span>
+                        {zone.agentCodeCount} agent code{zone.agentCodeCount !== 1 ? 's' : ''}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 ml-auto sm:ml-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openZoneDialog(zone)}
+                      title="Edit zone"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => handleDeleteZone(zone)}
+                      disabled={deletingZoneId === zone.id || zone.agentCodeCount > 0}
+                      title={
+                        zone.agentCodeCount > 0
+                          ? 'Move agent codes off this zone before deleting it'
+                          : 'Delete zone'
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Security Dialog */}
+      <Dialog
+        open={securityDialog.open}
+        onOpenChange={(open) => setSecurityDialog({ open, code: open ? securityDialog.code : null })}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Access Code Security</DialogTitle>
+            <DialogDescription>
+              {securityDialog.code?.label || 'Unnamed Agent'} ({securityDialog.code?.code}). Changing
+              the PIN or device lock signs the agent out until they activate the code again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="securityValidFrom">Valid From</Label>
+                <Input
+                  id="securityValidFrom"
+                  type="datetime-local"
+                  value={securityForm.validFrom}
+                  onChange={(e) => setSecurityForm({ ...securityForm, validFrom: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="securityValidUntil">Valid Until</Label>
+                <Input
+                  id="securityValidUntil"
+                  type="datetime-local"
+                  value={securityForm.validUntil}
+                  onChange={(e) => setSecurityForm({ ...securityForm, validUntil: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground sm:col-span-2 -mt-2">
+                Leave blank to open the code a day before the event and close it a day after.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="securityPin">
+                {securityDialog.code?.hasPin ? 'New PIN' : 'PIN (Optional)'}
+              </Label>
+              <Input
+                id="securityPin"
+                inputMode="numeric"
+                placeholder={securityDialog.code?.hasPin ? 'Leave blank to keep the current PIN' : '4 to 8 digits'}
+                value={securityForm.pin}
+                onChange={(e) =>
+                  setSecurityForm({ ...securityForm, pin: e.target.value.replace(/\D/g, '') })
+                }
+                maxLength={8}
+                disabled={securityForm.removePin}
+              />
+              {securityDialog.code?.hasPin && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={securityForm.removePin}
+                    onCheckedChange={(checked) =>
+                      setSecurityForm({ ...securityForm, removePin: checked === true, pin: '' })
+                    }
+                  />
+                  Remove the PIN
+                </label>
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="securityBindDevice">Lock to One Device</Label>
+                <p className="text-xs text-muted-foreground">
+                  Only the first phone to activate the code can use it.
+                </p>
+              </div>
+              <Switch
+                id="securityBindDevice"
+                checked={securityForm.bindDevice}
+                onCheckedChange={(checked) => setSecurityForm({ ...securityForm, bindDevice: checked })}
+              />
+            </div>
+            {securityDialog.code?.boundDeviceId && securityForm.bindDevice && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={securityForm.resetDevice}
+                  onCheckedChange={(checked) =>
+                    setSecurityForm({ ...securityForm, resetDevice: checked === true })
+                  }
+                />
+                Release the locked device, so the code can be used on a new phone
+              </label>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSecurityDialog({ open: false, code: null })}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveSecurity}
+              disabled={savingSecurity || (securityForm.pin.length > 0 && securityForm.pin.length < 4)}
+            >
+              {savingSecurity ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Zone Dialog */}
+      <Dialog
+        open={zoneDialog.open}
+        onOpenChange={(open) => setZoneDialog({ open, zone: open ? zoneDialog.zone : null })}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{zoneDialog.zone ? 'Edit Zone' : 'Add Zone'}</DialogTitle>
+            <DialogDescription>
+              Choose which ticket tiers can enter this zone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="zoneName">Name</Label>
+              <Input
+                id="zoneName"
+                placeholder="e.g., VIP Lounge, Backstage"
+                value={zoneForm.name}
+                onChange={(e) => setZoneForm({ ...zoneForm, name: e.target.value })}
+                maxLength={50}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tiers Allowed In</Label>
+              <div className="space-y-2">
+                {(event?.tiers || []).map((tier) => (
+                  <label key={tier.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={zoneForm.tierIds.includes(tier.id)}
+                      onCheckedChange={(checked) => toggleZoneTier(tier.id, checked === true)}
+                    />
+                    {tier.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setZoneDialog({ open: false, zone: null })}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveZone}
+              disabled={savingZone || !zoneForm.name.trim() || zoneForm.tierIds.length === 0}
+            >
+              {savingZone ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <DoorOpen className="h-4 w-4 mr-2" />
+                  {zoneDialog.zone ? 'Save Changes' : 'Add Zone'}
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialog.open} onOpenChange={(open) => setDeleteDialog({ open, code: open ? deleteDialog.code : null })}>
         <DialogContent>
@@ -521,6 +1061,36 @@ export default function AgentCodesPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Ticket Signing Key */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-primary/10 rounded-lg shrink-0">
+                <KeyRound className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="font-medium">Ticket Signing Key</p>
+                <p className="text-sm text-muted-foreground">
+                  {currentKey
+                    ? `Key ${currentKey.generation} signs new tickets, created ${formatDate(currentKey.createdAt, 'short')}. Agents verify QR codes with it even offline.`
+                    : 'A key is created when the first ticket is issued.'}
+                </p>
+                {signingKeys.length > 1 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {signingKeys.length - 1} retired key(s) still verify tickets issued before a rotation.
+                  </p>
+                )}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleRotateKey} disabled={rotating}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${rotating ? 'animate-spin' : ''}`} />
+              Rotate Key
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Instructions */}
       <Card>
         <CardHeader>
@@ -23,8 +23,33 @@ import {
   Users,
   Calendar,
   QrCode,
-  ChevronRight
+  ChevronRight,
+  Tag,
+  BellRing,
+  KeyRound,
+  Gift,
+  History,
+  CalendarRange,
+  Radio,
+  ShieldAlert
 } from 'lucide-react';
+import type { LiveCheckInSnapshot } from '@/types';
+
+// The live door feed runs from a few hours before doors open until the day after the event
+const LIVE_OPENS_BEFORE_MS = 5 * 60 * 60 * 1000;
+const LIVE_CLOSES_AFTER_MS = 24 * 60 * 60 * 1000;
+const LIVE_RECONNECT_MS = 5000;
+
+const isDuringEvent = (startDate?: string, endDate?: string) => {
+  if (!startDate) return false;
+  const now = Date.now();
+  const start = new Date(startDate).getTime();
+  const end = new Date(endDate || startDate).getTime();
+  return now >= start - LIVE_OPENS_BEFORE_MS && now <= end + LIVE_CLOSES_AFTER_MS;
+};
+
+const formatMinute = (date: string) =>
+  new Date(date).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
 
 export default function AnalyticsPage() {
   const { slug } = useParams();
@@ -34,6 +59,9 @@ export default function AnalyticsPage() {
   const [eventTitle, setEventTitle] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [liveEventId, setLiveEventId] = useState<string | null>(null);
+  const [live, setLive] = useState<LiveCheckInSnapshot | null>(null);
+  const [liveConnected, setLiveConnected] = useState(false);
 
   const fetchAnalytics = async (isRefresh = false) => {
     try {
@@ -42,6 +70,8 @@ export default function AnalyticsPage() {
       const event = await api.getEventBySlug(slug as string);
       const eventId = event.id || event.data?.id;
       setEventTitle(event.title || event.data?.title || '');
+      const { startDate, endDate } = event.data || event;
+      setLiveEventId(isDuringEvent(startDate, endDate) ? eventId : null);
       const data = await api.getEventAnalytics(eventId);
       setAnalytics(data);
     } catch (err) {
@@ -56,6 +86,39 @@ export default function AnalyticsPage() {
     fetchAnalytics();
   }, [slug]);
 
+  // Keep the live door stream open while the page is, reconnecting whenever it drops
+  useEffect(() => {
+    if (!liveEventId) return;
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        await api.streamLiveCheckIns(
+          liveEventId,
+          (snapshot) => {
+            setLive(snapshot);
+            setLiveConnected(true);
+          },
+          controller.signal,
+        );
+      } catch (err) {
+        if (!controller.signal.aborted) console.error(err);
+      }
+      if (controller.signal.aborted) return;
+      setLiveConnected(false);
+      reconnectTimer = setTimeout(connect, LIVE_RECONNECT_MS);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, [liveEventId]);
+
   if (authLoading || loading) {
     return (
       <div className="flex min-h-screen">
@@ -69,6 +132,7 @@ export default function AnalyticsPage() {
 
   const totalCapacity = analytics?.tierBreakdown?.reduce((sum: number, tier: any) => sum + tier.capacity, 0) || 0;
   const soldPercentage = totalCapacity > 0 ? ((analytics?.totalSold || 0) / totalCapacity * 100).toFixed(1) : 0;
+  const busiestMinute = Math.max(1, ...(live?.scansPerMinute || []).map((m) => m.accepted + m.rejected));
 
   return (
     <div className="flex min-h-screen">
@@ -127,8 +191,13 @@ export default function AnalyticsPage() {
                 </div>
               </div>
               <p className="text-xs text-muted-foreground mt-2">
-                {soldPercentage}% of total capacity
+                {soldPercentage}% of total capacity · {analytics?.totalOrders || 0} orders
               </p>
+              {analytics?.comps?.issued > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  + {analytics.comps.issued} comp{analytics.comps.issued === 1 ? '' : 's'} ({analytics.comps.checkedIn} checked in)
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -186,6 +255,161 @@ export default function AnalyticsPage() {
           </Card>
         </div>
 
+        {/* Live Door */}
+        {liveEventId && (
+          <Card className="mb-5">
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Radio className="h-4 w-4 text-primary" />
+                  Live Door
+                </CardTitle>
+                {liveConnected ? (
+                  <Badge className="gap-1.5 bg-green-100 text-green-700 hover:bg-green-100">
+                    <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+                    Live
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary">Connecting...</Badge>
+                )}
+              </div>
+              <CardDescription className="text-xs">
+                Check-ins as they happen at the door, by you and your agents
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!live ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-16 w-full" />
+                  <Skeleton className="h-24 w-full" />
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <div className="grid gap-3 grid-cols-2 lg:grid-cols-4">
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Checked In</p>
+                      <p className="text-xl font-bold">
+                        {live.totals.checkedIn}
+                        <span className="text-sm font-normal text-muted-foreground"> / {live.totals.tickets}</span>
+                      </p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Admitted Scans</p>
+                      <p className="text-xl font-bold text-green-600">{live.totals.acceptedScans}</p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Duplicates</p>
+                      <p className="text-xl font-bold text-amber-600">{live.totals.duplicateScans}</p>
+                    </div>
+                    <div className="p-3 border rounded-lg">
+                      <p className="text-xs text-muted-foreground">Rejected</p>
+                      <p className="text-xl font-bold text-red-600">{live.totals.rejectedScans}</p>
+                    </div>
+                  </div>
+
+                  {/* Scans per minute */}
+                  <div>
+                    <p className="text-sm font-medium mb-2">Scans per Minute</p>
+                    <div className="flex items-end gap-1 h-24">
+                      {live.scansPerMinute.map((bucket) => (
+                        <div
+                          key={bucket.minute}
+                          className="flex-1 flex flex-col justify-end h-full"
+                          title={`${formatMinute(bucket.minute)} · ${bucket.accepted} admitted, ${bucket.rejected} turned away`}
+                        >
+                          <div
+                            className="bg-red-500 rounded-t-sm"
+                            style={{ height: `${(bucket.rejected / busiestMinute) * 100}%` }}
+                          />
+                          <div
+                            className="bg-primary"
+                            style={{ height: `${(bucket.accepted / busiestMinute) * 100}%` }}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+                      <span>{live.scansPerMinute.length > 0 && formatMinute(live.scansPerMinute[0].minute)}</span>
+                      <span>Now</span>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-6 lg:grid-cols-2">
+                    {/* Per tier */}
+                    <div className="space-y-3">
+                      <p className="text-sm font-medium">By Tier</p>
+                      {live.tiers.map((tier) => {
+                        const percent = tier.tickets > 0 ? (tier.checkedIn / tier.tickets) * 100 : 0;
+                        return (
+                          <div key={tier.id}>
+                            <div className="flex justify-between text-xs mb-1">
+                              <span>{tier.name}</span>
+                              <span className="text-muted-foreground">
+                                {tier.checkedIn} / {tier.tickets}
+                              </span>
+                            </div>
+                            <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-purple-500 rounded-full transition-all duration-500"
+                                style={{ width: `${Math.min(percent, 100)}%` }}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {/* Per agent */}
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">By Agent</p>
+                      {live.agents.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No agent codes for this event</p>
+                      ) : (
+                        live.agents.map((agent) => (
+                          <div key={agent.id} className="flex items-center justify-between text-sm">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <span className="truncate">{agent.label || agent.code}</span>
+                              {!agent.isActive && (
+                                <Badge variant="secondary" className="text-xs">Inactive</Badge>
+                              )}
+                            </div>
+                            <span className="font-semibold">{agent.checkInCount}</span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Recent rejections */}
+                  {live.recentRejections.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium flex items-center gap-1.5">
+                        <ShieldAlert className="h-4 w-4 text-red-500" />
+                        Recently Turned Away
+                      </p>
+                      {live.recentRejections.map((rejection, index) => (
+                        <div
+                          key={`${rejection.scannedAt}-${index}`}
+                          className="flex items-start justify-between gap-3 text-xs p-2 border rounded-lg"
+                        >
+                          <div className="min-w-0">
+                            <p className="font-mono truncate">{rejection.ticketNumber || 'Unknown ticket'}</p>
+                            {rejection.reason && <p className="text-destructive">{rejection.reason}</p>}
+                          </div>
+                          <div className="text-right text-muted-foreground shrink-0">
+                            <p>{formatMinute(rejection.scannedAt)}</p>
+                            {rejection.gate && <p>{rejection.gate}</p>}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Sales by Tier */}
         <Card>
           <CardHeader className="pb-3">
@@ -241,6 +465,7 @@ export default function AnalyticsPage() {
                             </div>
                             <p className="text-xs text-muted-foreground">
                               {tier.sold} / {tier.capacity} sold
+                              {tier.comps > 0 && ` · ${tier.comps} comp${tier.comps === 1 ? '' : 's'}`}
                             </p>
                           </div>
                         </div>
@@ -277,6 +502,84 @@ export default function AnalyticsPage() {
           </CardContent>
         </Card>
 
+        {/* Promo Codes */}
+        {analytics?.promoCodes?.length > 0 && (
+          <Card className="mt-5">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Tag className="h-4 w-4 text-primary" />
+                Promo Codes
+              </CardTitle>
+              <CardDescription className="text-xs">
+                {formatCurrency(Number(analytics.totalDiscount) || 0)} in discounts across paid orders
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {analytics.promoCodes.map((promo: any) => (
+                  <div 
+                    key={promo.code} 
+                    className="flex items-center justify-between p-3 border rounded-lg"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm font-bold tracking-wider">{promo.code}</span>
+                      {!promo.isActive && (
+                        <Badge variant="secondary" className="text-xs">Inactive</Badge>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm font-medium">
+                        {promo.redemptions} {promo.redemptions === 1 ? 'order' : 'orders'} · {promo.ticketsDiscounted} tickets
+                      </p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {formatCurrency(Number(promo.totalDiscount) || 0)} discounted
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Waitlist - demand from people who couldn't get tickets */}
+        {analytics?.waitlist?.waiting > 0 && (
+          <Card className="mt-5">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <BellRing className="h-4 w-4 text-primary" />
+                Waitlist
+              </CardTitle>
+              <CardDescription className="text-xs">
+                {analytics.waitlist.waiting} {analytics.waitlist.waiting === 1 ? 'person' : 'people'} waiting
+                for {analytics.waitlist.ticketsWanted} tickets
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {analytics.waitlist.tiers
+                  .filter((tier: any) => tier.waiting > 0)
+                  .map((tier: any) => (
+                    <div 
+                      key={tier.tierId} 
+                      className="flex items-center justify-between p-3 border rounded-lg"
+                    >
+                      <span className="text-sm font-medium">{tier.name}</span>
+                      <div className="text-right">
+                        <p className="text-sm font-medium">
+                          {tier.waiting} waiting · {tier.ticketsWanted} tickets
+                        </p>
+                        {tier.offered > 0 && (
+                          <p className="text-[10px] text-muted-foreground">{tier.offered} offers out</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <div className="grid gap-3 md:grid-cols-2 mt-5">
           <Link href={`/events/${slug}/scan`}>
@@ -295,6 +598,118 @@ export default function AnalyticsPage() {
               </CardContent>
             </Card>
           </Link>
+          <Link href={`/events/${slug}/promo-codes`}>
+            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-full bg-green-500/10">
+                    <Tag className="h-4 w-4 text-green-500" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm">Promo Codes</p>
+                    <p className="text-xs text-muted-foreground">Create discount codes</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href={`/events/${slug}/waitlist`}>
+            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-full bg-amber-500/10">
+                    <BellRing className="h-4 w-4 text-amber-500" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm">Waitlist</p>
+                    <p className="text-xs text-muted-foreground">See who&apos;s waiting for tickets</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href={`/events/${slug}/sessions`}>
+            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-full bg-teal-500/10">
+                    <CalendarRange className="h-4 w-4 text-teal-500" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm">Sessions</p>
+                    <p className="text-xs text-muted-foreground">Days and breakouts with their own check-in</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href={`/events/${slug}/scans`}>
+            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-full bg-slate-500/10">
+                    <History className="h-4 w-4 text-slate-500" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm">Scan Log</p>
+                    <p className="text-xs text-muted-foreground">Every check-in attempt at the door</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href={`/events/${slug}/attendees`}>
+            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-full bg-indigo-500/10">
+                    <Users className="h-4 w-4 text-indigo-500" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm">Attendees</p>
+                    <p className="text-xs text-muted-foreground">Ticket holders and transfers</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href={`/events/${slug}/guest-list`}>
+            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-full bg-pink-500/10">
+                    <Gift className="h-4 w-4 text-pink-500" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm">Guest List</p>
+                    <p className="text-xs text-muted-foreground">Send complimentary tickets</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </Link>
+          <Link href={`/events/${slug}/access-codes`}>
+            <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
+              <CardContent className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-full bg-purple-500/10">
+                    <KeyRound className="h-4 w-4 text-purple-500" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-sm">Access Codes</p>
+                    <p className="text-xs text-muted-foreground">Unlock hidden tiers</p>
+                  </div>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </CardContent>
+            </Card>
+          </Link>
           <Link href={`/events/${slug}/edit`}>
             <Card className="hover:bg-muted/50 transition-colors cursor-pointer h-full">
               <CardContent className="p-4 flex items-center justify-between">
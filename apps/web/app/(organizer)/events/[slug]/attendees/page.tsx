@@ -0,0 +1,499 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { api } from '@/lib/api-client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ArrowLeft,
+  ArrowRightLeft,
+  Download,
+  RefreshCw,
+  Search,
+  UserCheck,
+  Users,
+} from 'lucide-react';
+import type { AttendeeExportFilters, Ticket, TicketTransfer, TransferStatus } from '@/types';
+
+interface Event {
+  id: string;
+  title: string;
+  slug: string;
+  tiers?: { id: string; name: string }[];
+}
+
+interface ExportForm {
+  format: 'csv' | 'xlsx';
+  tierId: string;
+  status: Ticket['status'] | '';
+  purchasedFrom: string; // YYYY-MM-DD
+  purchasedTo: string;
+  checkedInFrom: string;
+  checkedInTo: string;
+}
+
+const emptyExportForm: ExportForm = {
+  format: 'csv',
+  tierId: '',
+  status: '',
+  purchasedFrom: '',
+  purchasedTo: '',
+  checkedInFrom: '',
+  checkedInTo: '',
+};
+
+// Purchase and check-in times are real instants, so a day runs midnight to midnight locally
+const startOfDay = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : undefined);
+const endOfDay = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined);
+
+// Check-in and transfer times are real instants, so show them in the organizer's local time
+const formatInstant = (date: string) =>
+  new Date(date).toLocaleString([], { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+const statusBadge: Record<Ticket['status'], { label: string; className: string }> = {
+  ACTIVE: { label: 'Active', className: 'bg-blue-100 text-blue-700 hover:bg-blue-100' },
+  CHECKED_IN: { label: 'Checked In', className: 'bg-green-100 text-green-700 hover:bg-green-100' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-100 text-gray-600 hover:bg-gray-100' },
+  REFUNDED: { label: 'Refunded', className: 'bg-gray-100 text-gray-600 hover:bg-gray-100' },
+  EXPIRED: { label: 'Expired', className: 'bg-gray-100 text-gray-600 hover:bg-gray-100' },
+  FROZEN: { label: 'Disputed', className: 'bg-orange-100 text-orange-700 hover:bg-orange-100' },
+};
+
+const transferStatusLabel: Record<TransferStatus, string> = {
+  PENDING: 'Pending',
+  ACCEPTED: 'Accepted',
+  CANCELLED: 'Cancelled',
+  EXPIRED: 'Expired',
+};
+
+export default function AttendeesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { error } = useToast();
+  const slug = params.slug as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [transfers, setTransfers] = useState<TicketTransfer[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportForm, setExportForm] = useState<ExportForm>(emptyExportForm);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [slug]);
+
+  const loadData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      const eventData = await api.getEventBySlug(slug);
+      setEvent(eventData);
+
+      const [ticketData, transferData] = await Promise.all([
+        api.getEventTickets(eventData.id),
+        api.getEventTransfers(eventData.id),
+      ]);
+      setTickets(ticketData);
+      setTransfers(transferData);
+    } catch (err: any) {
+      error(err.message || 'Failed to load attendees');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!event) return;
+
+    const filters: AttendeeExportFilters = {
+      format: exportForm.format,
+      tierId: exportForm.tierId || undefined,
+      status: exportForm.status || undefined,
+      purchasedFrom: startOfDay(exportForm.purchasedFrom),
+      purchasedTo: endOfDay(exportForm.purchasedTo),
+      checkedInFrom: startOfDay(exportForm.checkedInFrom),
+      checkedInTo: endOfDay(exportForm.checkedInTo),
+    };
+
+    try {
+      setExporting(true);
+      await api.downloadEventAttendees(event.id, filters);
+      setShowExportDialog(false);
+    } catch (err: any) {
+      error(err.message || 'Failed to export attendees');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const holderName = (ticket: Ticket) =>
+    [ticket.buyerFirstName, ticket.buyerLastName].filter(Boolean).join(' ') || ticket.buyerEmail;
+
+  const query = search.trim().toLowerCase();
+  const filteredTickets = query
+    ? tickets.filter((ticket) =>
+        [ticket.buyerEmail, ticket.buyerFirstName, ticket.buyerLastName, ticket.ticketNumber]
+          .filter(Boolean)
+          .some((value) => value!.toLowerCase().includes(query)),
+      )
+    : tickets;
+
+  const validTickets = tickets.filter((t) => ['ACTIVE', 'CHECKED_IN'].includes(t.status));
+  const transferredCount = tickets.filter((t) => (t.transfers?.length || 0) > 0).length;
+
+  if (loading) {
+    return (
+      <div className="container max-w-4xl py-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/events/${slug}/analytics`)}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Attendees</h1>
+            <p className="text-sm text-muted-foreground">{event?.title}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => loadData(true)} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={() => setShowExportDialog(true)} disabled={tickets.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-blue-100 rounded-lg shrink-0">
+                <Users className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{validTickets.length}</p>
+                <p className="text-sm text-muted-foreground">Valid Tickets</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-green-100 rounded-lg shrink-0">
+                <UserCheck className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">
+                  {tickets.filter((t) => t.status === 'CHECKED_IN').length}
+                </p>
+                <p className="text-sm text-muted-foreground">Checked In</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-purple-100 rounded-lg shrink-0">
+                <ArrowRightLeft className="h-5 w-5 text-purple-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{transferredCount}</p>
+                <p className="text-sm text-muted-foreground">Transferred Tickets</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Attendee List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Ticket Holders</CardTitle>
+          <CardDescription>
+            Everyone currently holding a ticket. Transferred tickets show who they came from.
+          </CardDescription>
+          <div className="relative pt-2">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 text-muted-foreground mt-1" />
+            <Input
+              placeholder="Search by name, email or ticket number"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredTickets.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <Users className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">
+                {tickets.length === 0 ? 'No Attendees Yet' : 'No Matches'}
+              </h3>
+              <p className="text-muted-foreground max-w-sm mx-auto">
+                {tickets.length === 0
+                  ? 'Ticket holders will show up here once tickets are sold.'
+                  : 'No ticket holder matches your search.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {filteredTickets.map((ticket) => {
+                const badge = statusBadge[ticket.status];
+                const lastTransfer = ticket.transfers?.[ticket.transfers.length - 1];
+                return (
+                  <div
+                    key={ticket.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 border rounded-lg"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium truncate">{holderName(ticket)}</span>
+                        <Badge className={badge.className}>{badge.label}</Badge>
+                        {ticket.isComp && (
+                          <Badge variant="outline" className="text-xs">
+                            Comp
+                          </Badge>
+                        )}
+                        {lastTransfer && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <ArrowRightLeft className="h-3 w-3" />
+                            Transferred
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                        {(ticket.buyerFirstName || ticket.buyerLastName) && (
+                          <span className="truncate">{ticket.buyerEmail}</span>
+                        )}
+                        <span>{ticket.tier?.name}</span>
+                        <span className="font-mono text-xs">{ticket.ticketNumber}</span>
+                        {ticket.checkedInAt && <span>Checked in {formatInstant(ticket.checkedInAt)}</span>}
+                      </div>
+                      {ticket.answers && ticket.answers.length > 0 && (
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground mt-1">
+                          {ticket.answers.map((answer) => (
+                            <span key={answer.question.id}>
+                              {answer.question.label}:{' '}
+                              <span className="text-foreground">{answer.values.join(', ')}</span>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {lastTransfer && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          From {lastTransfer.fromName || lastTransfer.fromEmail}
+                          {lastTransfer.acceptedAt && ` on ${formatInstant(lastTransfer.acceptedAt)}`}
+                          {lastTransfer.oldTicketNumber && ` (was ${lastTransfer.oldTicketNumber})`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Export Dialog */}
+      <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Export Attendees</DialogTitle>
+            <DialogDescription>
+              Download ticket holders with their contact details, ticket number, amount paid and
+              registration answers. Leave a filter empty to include everyone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="export-format">Format</Label>
+                <select
+                  id="export-format"
+                  value={exportForm.format}
+                  onChange={(e) => setExportForm({ ...exportForm, format: e.target.value as ExportForm['format'] })}
+                  className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                >
+                  <option value="csv">CSV</option>
+                  <option value="xlsx">Excel (.xlsx)</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-status">Status</Label>
+                <select
+                  id="export-status"
+                  value={exportForm.status}
+                  onChange={(e) => setExportForm({ ...exportForm, status: e.target.value as ExportForm['status'] })}
+                  className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                >
+                  <option value="">All statuses</option>
+                  {(['ACTIVE', 'CHECKED_IN', 'REFUNDED'] as const).map((status) => (
+                    <option key={status} value={status}>
+                      {statusBadge[status].label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {event?.tiers && event.tiers.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="export-tier">Tier</Label>
+                <select
+                  id="export-tier"
+                  value={exportForm.tierId}
+                  onChange={(e) => setExportForm({ ...exportForm, tierId: e.target.value })}
+                  className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                >
+                  <option value="">All tiers</option>
+                  {event.tiers.map((tier) => (
+                    <option key={tier.id} value={tier.id}>
+                      {tier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Purchased Between</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  type="date"
+                  aria-label="Purchased from"
+                  value={exportForm.purchasedFrom}
+                  onChange={(e) => setExportForm({ ...exportForm, purchasedFrom: e.target.value })}
+                />
+                <Input
+                  type="date"
+                  aria-label="Purchased to"
+                  value={exportForm.purchasedTo}
+                  onChange={(e) => setExportForm({ ...exportForm, purchasedTo: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Checked In Between</Label>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  type="date"
+                  aria-label="Checked in from"
+                  value={exportForm.checkedInFrom}
+                  onChange={(e) => setExportForm({ ...exportForm, checkedInFrom: e.target.value })}
+                />
+                <Input
+                  type="date"
+                  aria-label="Checked in to"
+                  value={exportForm.checkedInTo}
+                  onChange={(e) => setExportForm({ ...exportForm, checkedInTo: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExportForm(emptyExportForm)} disabled={exporting}>
+              Clear Filters
+            </Button>
+            <Button onClick={handleExport} disabled={exporting}>
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Download'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Transfer History */}
+      {transfers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Transfer History</CardTitle>
+            <CardDescription>
+              Every transfer attendees have started, including ones that were cancelled or expired.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {transfers.map((transfer) => (
+                <div
+                  key={transfer.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-lg text-sm"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate">
+                      <span className="font-medium">{transfer.fromName || transfer.fromEmail}</span>
+                      {' → '}
+                      <span className="font-medium">
+                        {[transfer.toFirstName, transfer.toLastName].filter(Boolean).join(' ') ||
+                          transfer.toEmail}
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {transfer.tierName} · {transfer.oldTicketNumber}
+                      {transfer.newTicketNumber && ` → ${transfer.newTicketNumber}`} · Started{' '}
+                      {formatInstant(transfer.createdAt)}
+                    </p>
+                  </div>
+                  <Badge
+                    variant={transfer.status === 'ACCEPTED' ? 'default' : 'secondary'}
+                    className="w-fit"
+                  >
+                    {transferStatusLabel[transfer.status]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -35,9 +35,20 @@ import {
   QrCode,
   BarChart3,
   Ticket,
-  EyeIcon
+  EyeIcon,
+  ArrowRightLeft,
+  Repeat,
+  ClipboardList,
+  CreditCard
 } from 'lucide-react';
 import { MapPicker } from '@/components/ui/map-picker';
+import { TierPricePhases, sanitizePricePhases } from '@/components/ui/tier-price-phases';
+import {
+  RegistrationQuestions,
+  sanitizeRegistrationQuestions,
+  toRegistrationQuestionForm,
+} from '@/components/ui/registration-questions';
+import { PaymentProviderSelect } from '@/components/ui/payment-provider-select';
 
 export default function EditEventPage() {
   const { slug } = useParams();
@@ -64,6 +75,10 @@ export default function EditEventPage() {
   const isOnline = watch('isOnline');
   const isLocationPublic = watch('isLocationPublic');
   const startDate = watch('startDate');
+  const resaleEnabled = watch('resaleEnabled');
+  const tierNames = ((watch('tiers') || []) as { name?: string }[])
+    .map((tier) => tier.name)
+    .filter(Boolean) as string[];
 
   // Recommended banner sizes
   const recommendedSizes = [
@@ -123,7 +138,14 @@ export default function EditEventPage() {
           __existing: true, // mark tiers loaded from backend as existing
           isFree: Number(tier.price) === 0,
           sold: Number(tier.sold || 0), // carry sold count to UI so we can allow edits/deletes when zero
+          saleStartDate: formatDateForInput(tier.saleStartDate),
           saleEndDate: formatDateForInput(tier.saleEndDate),
+          pricePhases: (tier.pricePhases || []).map((phase: any) => ({
+            name: phase.name || '',
+            price: Number(phase.price),
+            endsAt: formatDateForInput(phase.endsAt),
+            untilSold: phase.untilSold ?? undefined,
+          })),
         }));
 
         reset({
@@ -139,7 +161,13 @@ export default function EditEventPage() {
           onlineLink: event.onlineLink || '',
           passFeeTobuyer: event.passFeeTobuyer || false,
           hideTicketSalesProgress: event.hideTicketSalesProgress || false,
+          allowTransfers: event.allowTransfers ?? true,
+          resaleEnabled: event.resaleEnabled ?? false,
+          resaleMaxPricePercent: event.resaleMaxPricePercent ?? 100,
+          resaleRoyaltyPercent: event.resaleRoyaltyPercent ?? 0,
+          paymentProvider: event.paymentProvider || '',
           tiers: tiersWithFreeFlag,
+          questions: toRegistrationQuestionForm(event.questions),
         });
       } catch (err) {
         error('Failed to load event');
@@ -226,16 +254,37 @@ export default function EditEventPage() {
         price: tier.isFree ? 0 : Number(tier.price || 0),
         capacity: Number(tier.capacity || 0),
         refundEnabled: !!tier.refundEnabled,
+        isHidden: !!tier.isHidden,
+        transferEnabled: tier.transferEnabled !== false,
+        reentryEnabled: !!tier.reentryEnabled,
+        maxEntriesPerDay:
+          tier.reentryEnabled && Number(tier.maxEntriesPerDay) > 0 ? Number(tier.maxEntriesPerDay) : null,
+        saleStartDate: toISOString(tier.saleStartDate),
         saleEndDate: toISOString(tier.saleEndDate),
+        // Free tiers have no price to phase
+        pricePhases: tier.isFree ? [] : sanitizePricePhases(tier.pricePhases, toISOString),
       }));
 
       // Build payload. If there are sales, only send allowed fields to avoid backend rejection.
       // Convert dates to ISO strings for consistent timezone handling
       const basePayload: any = {
         tiers: sanitizedTiers,
+        // Questions can change after sales - they only apply to future buyers
+        questions: sanitizeRegistrationQuestions(
+          data.questions,
+          sanitizedTiers.map((tier: any) => tier.name)
+        ),
         coverImage: coverImage || undefined,
         // Convert endDate to ISO string
         endDate: toISOString(data.endDate) || null,
+        // Can change after sales - only applies to checkouts started afterwards
+        paymentProvider: data.paymentProvider || null,
+      };
+
+      const resaleSettings = {
+        resaleEnabled: data.resaleEnabled === true || data.resaleEnabled === 'on',
+        resaleMaxPricePercent: Number.isFinite(data.resaleMaxPricePercent) ? data.resaleMaxPricePercent : 100,
+        resaleRoyaltyPercent: Number.isFinite(data.resaleRoyaltyPercent) ? data.resaleRoyaltyPercent : 0,
       };
 
       const eventData = hasSales
@@ -247,6 +296,10 @@ export default function EditEventPage() {
             // hideTicketSalesProgress is safe to change after sales (display-only setting)
             // Convert to boolean in case checkbox returns string "on" 
             hideTicketSalesProgress: data.hideTicketSalesProgress === true || data.hideTicketSalesProgress === 'on',
+            // allowTransfers is safe to change after sales (only affects future transfers)
+            allowTransfers: data.allowTransfers === true || data.allowTransfers === 'on',
+            // Resale settings only apply to listings made after the change
+            ...resaleSettings,
           }
         : {
             ...data,
@@ -261,6 +314,8 @@ export default function EditEventPage() {
             onlineLink: data.isOnline && data.onlineLink ? data.onlineLink : undefined,
             // Convert to boolean in case checkbox returns string "on"
             hideTicketSalesProgress: data.hideTicketSalesProgress === true || data.hideTicketSalesProgress === 'on',
+            allowTransfers: data.allowTransfers === true || data.allowTransfers === 'on',
+            ...resaleSettings,
           };
       
       await api.updateEvent(eventId as string, eventData);
@@ -651,6 +706,19 @@ export default function EditEventPage() {
               </CardContent>
             </Card>
 
+            {/* Payment Provider Option */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  Payment Provider
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PaymentProviderSelect register={register} />
+              </CardContent>
+            </Card>
+
             {/* Hide Ticket Sales Progress Option */}
             <Card>
               <CardHeader>
@@ -691,6 +759,100 @@ export default function EditEventPage() {
               </CardContent>
             </Card>
 
+            {/* Ticket Transfers Option */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ArrowRightLeft className="h-5 w-5" />
+                  Ticket Transfers
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="p-4 bg-muted/50 rounded-lg border border-border">
+                  <div className="flex items-start gap-3">
+                    <div className="flex items-center h-5 mt-0.5">
+                      <input
+                        type="checkbox"
+                        id="allowTransfers"
+                        {...register('allowTransfers')}
+                        className="rounded border-gray-300 text-primary focus:ring-primary"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label htmlFor="allowTransfers" className="flex items-center gap-2 cursor-pointer">
+                        <span className="font-medium text-sm">
+                          Let attendees transfer tickets to someone else
+                        </span>
+                      </label>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Ticket holders who can't attend can send their ticket to a friend. The ticket is reissued with a new QR code and the old one stops working. You can also turn transfers off for individual tiers.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Ticket Resale Option */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Ticket Resale
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="p-4 bg-muted/50 rounded-lg border border-border">
+                  <div className="flex items-start gap-3">
+                    <div className="flex items-center h-5 mt-0.5">
+                      <input
+                        type="checkbox"
+                        id="resaleEnabled"
+                        {...register('resaleEnabled')}
+                        className="rounded border-gray-300 text-primary focus:ring-primary"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label htmlFor="resaleEnabled" className="flex items-center gap-2 cursor-pointer">
+                        <span className="font-medium text-sm">
+                          Let attendees resell tickets on hdticketdesk
+                        </span>
+                      </label>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Attendees who can't make it can list their ticket for another buyer. The buyer gets a new ticket, the seller's old QR code stops working and the seller is refunded the sale price minus fees.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+                {resaleEnabled && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="resaleMaxPricePercent">Maximum resale price (% of price paid)</Label>
+                      <Input
+                        id="resaleMaxPricePercent"
+                        type="number"
+                        min={10}
+                        max={100}
+                        {...register('resaleMaxPricePercent', { valueAsNumber: true })}
+                      />
+                      <p className="text-xs text-muted-foreground">100% caps resales at face value.</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="resaleRoyaltyPercent">Your royalty (% of resale price)</Label>
+                      <Input
+                        id="resaleRoyaltyPercent"
+                        type="number"
+                        min={0}
+                        max={50}
+                        {...register('resaleRoyaltyPercent', { valueAsNumber: true })}
+                      />
+                      <p className="text-xs text-muted-foreground">Paid to you on every resale.</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader className="flex flex-row items-center justify-between">
                 <div>
@@ -700,7 +862,7 @@ export default function EditEventPage() {
                   </CardTitle>
                   <CardDescription className="mt-1">Create different ticket types with varying prices (at least one required)</CardDescription>
                 </div>
-                <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', isFree: false, price: 0, capacity: 50, refundEnabled: false, __existing: false })} className="gap-1">
+                <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', isFree: false, price: 0, capacity: 50, refundEnabled: false, transferEnabled: true, reentryEnabled: false, maxEntriesPerDay: null, pricePhases: [], __existing: false })} className="gap-1">
                   <Plus className="h-4 w-4" />
                   Add Tier
                 </Button>
@@ -708,6 +870,7 @@ export default function EditEventPage() {
               <CardContent className="space-y-4">
                 {fields.map((field, index) => {
                   const isFree = watch(`tiers.${index}.isFree`);
+                  const reentryEnabled = watch(`tiers.${index}.reentryEnabled`);
                   // Check if this tier exists in the database by looking at the tier's database ID
                   // field.id is react-hook-form's internal ID, not the database ID
                   // We need to check if the tier has a database ID stored in the form data
@@ -759,27 +922,100 @@ export default function EditEventPage() {
                         </div>
                         <div className="space-y-2"><Label>Capacity <span className="text-red-500">*</span></Label><Input type="number" {...register(`tiers.${index}.capacity`, { valueAsNumber: true, min: { value: 1, message: 'Capacity must be at least 1' } })} min={1} /></div>
                       </div>
-                      <div className="space-y-2">
-                        <Label>Sale End Date & Time (Optional)</Label>
-                        <Input
-                          type="datetime-local"
-                          {...register(`tiers.${index}.saleEndDate`)}
-                          max={startDate || undefined}
-                        />
-                        <p className="text-xs text-muted-foreground">
-                          Leave empty to allow sales until the event starts. You can change this anytime.
-                        </p>
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label>Sale Start Date & Time (Optional)</Label>
+                          <Input
+                            type="datetime-local"
+                            {...register(`tiers.${index}.saleStartDate`)}
+                            max={startDate || undefined}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Leave empty to sell as soon as the event is published.
+                          </p>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Sale End Date & Time (Optional)</Label>
+                          <Input
+                            type="datetime-local"
+                            {...register(`tiers.${index}.saleEndDate`)}
+                            max={startDate || undefined}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Leave empty to allow sales until the event starts. You can change this anytime.
+                          </p>
+                        </div>
                       </div>
+                      {!isFree && (
+                        <TierPricePhases
+                          control={control}
+                          register={register}
+                          tierIndex={index}
+                          hasSales={tierHasSales && !allowEditAfterSales}
+                        />
+                      )}
                       <div className="flex items-center gap-2">
                         <input type="checkbox" id={`refund-${index}`} {...register(`tiers.${index}.refundEnabled`)} disabled={lockedExistingTier} className="rounded" />
                         <Label htmlFor={`refund-${index}`}>Allow refunds for this tier</Label>
                       </div>
+                      <div className="flex items-center gap-2">
+                        <input type="checkbox" id={`transfer-${index}`} {...register(`tiers.${index}.transferEnabled`)} className="rounded" />
+                        <Label htmlFor={`transfer-${index}`}>Allow ticket transfers for this tier</Label>
+                      </div>
+                      <div className="flex items-start gap-2">
+                        <input type="checkbox" id={`reentry-${index}`} {...register(`tiers.${index}.reentryEnabled`)} className="rounded mt-1" />
+                        <div>
+                          <Label htmlFor={`reentry-${index}`}>Allow re-entry</Label>
+                          <p className="text-xs text-muted-foreground">Ticket holders can be checked out at the exit and come back in</p>
+                        </div>
+                      </div>
+                      {reentryEnabled && (
+                        <div className="space-y-2 pl-6">
+                          <Label htmlFor={`max-entries-${index}`}>Max entries per day</Label>
+                          <Input
+                            id={`max-entries-${index}`}
+                            type="number"
+                            min={1}
+                            placeholder="Unlimited"
+                            className="w-32"
+                            {...register(`tiers.${index}.maxEntriesPerDay`, {
+                              setValueAs: (value) => (value === '' || value === null ? null : Number(value)),
+                            })}
+                          />
+                        </div>
+                      )}
+                      <div className="flex items-start gap-2">
+                        <input type="checkbox" id={`hidden-${index}`} {...register(`tiers.${index}.isHidden`)} className="rounded mt-1" />
+                        <div>
+                          <Label htmlFor={`hidden-${index}`}>Hidden tier</Label>
+                          <p className="text-xs text-muted-foreground">Only shown to buyers with an access code or private link</p>
+                        </div>
+                      </div>
                     </div>
                   );
                 })}
               </CardContent>
             </Card>
 
+            {/* Registration Questions */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5" />
+                  Registration Questions
+                </CardTitle>
+                <CardDescription>Questions buyers answer at checkout (optional)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RegistrationQuestions
+                  control={control}
+                  register={register}
+                  tierNames={tierNames}
+                  hasSales={hasSales}
+                />
+              </CardContent>
+            </Card>
+
             {/* Action Buttons */}
             <Card className="bg-muted/30">
               <CardContent className="p-4">
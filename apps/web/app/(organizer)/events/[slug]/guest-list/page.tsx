@@ -0,0 +1,522 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { api } from '@/lib/api-client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ArrowLeft,
+  Plus,
+  Gift,
+  RefreshCw,
+  Ticket,
+  UserCheck,
+  Users,
+  Upload,
+  XCircle,
+  AlertTriangle,
+} from 'lucide-react';
+import type { EventGuestList, GuestListEntry } from '@/types';
+
+interface Event {
+  id: string;
+  title: string;
+  slug: string;
+  tiers?: { id: string; name: string }[];
+}
+
+type AddMode = 'single' | 'csv';
+
+const emptyForm = {
+  email: '',
+  firstName: '',
+  lastName: '',
+  quantity: '1',
+  tierId: '',
+  countTowardCapacity: true,
+  note: '',
+};
+
+// Issue times are real instants, so show them in the organizer's local time
+const formatInstant = (date: string) =>
+  new Date(date).toLocaleString([], { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+export default function GuestListPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { success, error } = useToast();
+  const slug = params.slug as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [guestList, setGuestList] = useState<EventGuestList | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [addMode, setAddMode] = useState<AddMode>('single');
+  const [form, setForm] = useState(emptyForm);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [issuing, setIssuing] = useState(false);
+  const [revokeDialog, setRevokeDialog] = useState<GuestListEntry | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [slug]);
+
+  const loadData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      const eventData = await api.getEventBySlug(slug);
+      setEvent(eventData);
+
+      const data = await api.getGuestList(eventData.id);
+      setGuestList(data);
+    } catch (err: any) {
+      error(err.message || 'Failed to load guest list');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const openAddDialog = (mode: AddMode) => {
+    setAddMode(mode);
+    setForm((prev) => ({ ...emptyForm, tierId: prev.tierId || event?.tiers?.[0]?.id || '' }));
+    setCsvFile(null);
+    setShowAddDialog(true);
+  };
+
+  const handleIssue = async () => {
+    if (!event) return;
+
+    const options = {
+      tierId: form.tierId,
+      countTowardCapacity: form.countTowardCapacity,
+      note: form.note.trim() || undefined,
+    };
+
+    try {
+      setIssuing(true);
+      const result =
+        addMode === 'csv' && csvFile
+          ? await api.importGuestList(event.id, { ...options, csv: await csvFile.text() })
+          : await api.issueComps(event.id, {
+              ...options,
+              guests: [
+                {
+                  email: form.email.trim(),
+                  firstName: form.firstName.trim() || undefined,
+                  lastName: form.lastName.trim() || undefined,
+                  quantity: Number(form.quantity) || 1,
+                },
+              ],
+            });
+
+      if (result.failed.length > 0) {
+        error(`${result.message}: ${result.failed.map((f) => f.email).join(', ')}`);
+      } else {
+        success(result.message);
+      }
+      setShowAddDialog(false);
+      await loadData(true);
+    } catch (err: any) {
+      error(err.message || 'Failed to issue comp tickets');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeDialog) return;
+
+    try {
+      setRevokingId(revokeDialog.id);
+      const result = await api.revokeGuest(revokeDialog.id);
+      success(result.message);
+      setRevokeDialog(null);
+      await loadData(true);
+    } catch (err: any) {
+      error(err.message || 'Failed to revoke comp tickets');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const guestName = (entry: GuestListEntry) =>
+    [entry.firstName, entry.lastName].filter(Boolean).join(' ') || entry.email;
+
+  const canIssue =
+    !!form.tierId && (addMode === 'csv' ? !!csvFile : form.email.trim().includes('@'));
+
+  if (loading) {
+    return (
+      <div className="container max-w-4xl py-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/events/${slug}/analytics`)}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Guest List</h1>
+            <p className="text-sm text-muted-foreground">{event?.title}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => loadData(true)} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => openAddDialog('csv')}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import CSV
+          </Button>
+          <Button size="sm" onClick={() => openAddDialog('single')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Guest
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-blue-100 rounded-lg shrink-0">
+                <Users className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{guestList?.guests || 0}</p>
+                <p className="text-sm text-muted-foreground">Guests</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-pink-100 rounded-lg shrink-0">
+                <Ticket className="h-5 w-5 text-pink-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{guestList?.ticketsIssued || 0}</p>
+                <p className="text-sm text-muted-foreground">Comp Tickets Issued</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-green-100 rounded-lg shrink-0">
+                <UserCheck className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{guestList?.checkedIn || 0}</p>
+                <p className="text-sm text-muted-foreground">Guests Checked In</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Guest List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Complimentary Tickets</CardTitle>
+          <CardDescription>
+            Guests get the same ticket email and QR code as buyers. Comps are free and kept apart from
+            your sales.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!guestList || guestList.entries.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <Gift className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No Guests Yet</h3>
+              <p className="text-muted-foreground mb-4 max-w-sm mx-auto">
+                Send comp tickets to press, sponsors, artists and their guests.
+              </p>
+              <Button onClick={() => openAddDialog('single')}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add First Guest
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {guestList.entries.map((entry) => {
+                const checkedIn = entry.tickets.filter((t) => t.status === 'CHECKED_IN').length;
+                return (
+                  <div
+                    key={entry.id}
+                    className={`flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 border rounded-lg ${
+                      entry.revokedAt ? 'bg-gray-50/50 opacity-70' : ''
+                    }`}
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium truncate">{guestName(entry)}</span>
+                        {entry.revokedAt ? (
+                          <Badge variant="secondary">Revoked</Badge>
+                        ) : checkedIn > 0 ? (
+                          <Badge className="bg-green-100 text-green-700 hover:bg-green-100">
+                            {checkedIn} / {entry.tickets.length} Checked In
+                          </Badge>
+                        ) : null}
+                        {!entry.countsTowardCapacity && (
+                          <Badge variant="outline" className="text-xs">
+                            Extra capacity
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                        {(entry.firstName || entry.lastName) && <span className="truncate">{entry.email}</span>}
+                        <span>{entry.tierName}</span>
+                        <span>
+                          {entry.tickets.length} ticket{entry.tickets.length === 1 ? '' : 's'}
+                        </span>
+                        {entry.note && <span className="truncate">{entry.note}</span>}
+                        <span>Sent {formatInstant(entry.createdAt)}</span>
+                      </div>
+                    </div>
+                    {!entry.revokedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50 ml-auto sm:ml-0"
+                        onClick={() => setRevokeDialog(entry)}
+                        title="Revoke comp tickets"
+                      >
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Guests Dialog */}
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{addMode === 'csv' ? 'Import Guest List' : 'Add Guest'}</DialogTitle>
+            <DialogDescription>
+              {addMode === 'csv'
+                ? 'Upload a CSV with columns email, first name, last name, quantity. Each guest is emailed their tickets.'
+                : 'The guest is emailed their tickets straight away.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {addMode === 'csv' ? (
+              <div className="space-y-2">
+                <Label htmlFor="csv">CSV File</Label>
+                <Input
+                  id="csv"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => setCsvFile(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-muted-foreground">Up to 200 guests per file.</p>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    autoFocus
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="firstName">First Name</Label>
+                    <Input
+                      id="firstName"
+                      value={form.firstName}
+                      onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+                      maxLength={100}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lastName">Last Name</Label>
+                    <Input
+                      id="lastName"
+                      value={form.lastName}
+                      onChange={(e) => setForm({ ...form, lastName: e.target.value })}
+                      maxLength={100}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="tierId">Ticket Tier</Label>
+                <select
+                  id="tierId"
+                  value={form.tierId}
+                  onChange={(e) => setForm({ ...form, tierId: e.target.value })}
+                  className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                >
+                  {event?.tiers?.map((tier) => (
+                    <option key={tier.id} value={tier.id}>
+                      {tier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {addMode === 'single' && (
+                <div className="space-y-2">
+                  <Label htmlFor="quantity">Tickets</Label>
+                  <Input
+                    id="quantity"
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={form.quantity}
+                    onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="note">Note</Label>
+              <Input
+                id="note"
+                placeholder="e.g., Sponsor guests"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                maxLength={200}
+              />
+            </div>
+            <label className="flex items-start gap-2 text-sm">
+              <Checkbox
+                checked={form.countTowardCapacity}
+                onCheckedChange={(checked) => setForm({ ...form, countTowardCapacity: checked === true })}
+                className="mt-0.5"
+              />
+              <span>
+                Count toward tier capacity
+                <span className="block text-xs text-muted-foreground">
+                  Untick to issue comps on top of the tickets on sale.
+                </span>
+              </span>
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleIssue} disabled={issuing || !canIssue}>
+              {issuing ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Gift className="h-4 w-4 mr-2" />
+                  Send Comp Tickets
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation Dialog */}
+      <Dialog open={revokeDialog !== null} onOpenChange={(open) => !open && setRevokeDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              Revoke Comp Tickets
+            </DialogTitle>
+            <DialogDescription>
+              The guest&apos;s tickets stop working at the door. Tickets already checked in are kept.
+            </DialogDescription>
+          </DialogHeader>
+          {revokeDialog && (
+            <div className="py-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="font-medium">{guestName(revokeDialog)}</p>
+                <p className="text-sm text-muted-foreground">
+                  {revokeDialog.tickets.length} × {revokeDialog.tierName}
+                </p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleRevoke}
+              disabled={revokingId === revokeDialog?.id}
+            >
+              {revokingId === revokeDialog?.id ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Revoking...
+                </>
+              ) : (
+                <>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Revoke Tickets
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
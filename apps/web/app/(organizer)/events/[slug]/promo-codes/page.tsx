@@ -0,0 +1,564 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { api } from '@/lib/api-client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ArrowLeft,
+  Plus,
+  Copy,
+  Trash2,
+  Tag,
+  CheckCircle2,
+  XCircle,
+  RefreshCw,
+  Percent,
+  AlertTriangle,
+} from 'lucide-react';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import type { PromoCode, PromoCodeInput } from '@/types';
+
+interface Event {
+  id: string;
+  title: string;
+  slug: string;
+  tiers?: { id: string; name: string }[];
+}
+
+const emptyForm = {
+  code: '',
+  discountType: 'PERCENTAGE' as PromoCodeInput['discountType'],
+  discountValue: '',
+  tierIds: [] as string[],
+  maxUses: '',
+  maxUsesPerBuyer: '',
+  minQuantity: '',
+  startsAt: '',
+  endsAt: '',
+};
+
+// datetime-local values are stored as the literal time entered, same as event dates
+const toISOString = (dateTimeLocal: string) =>
+  dateTimeLocal ? `${dateTimeLocal}:00.000Z` : undefined;
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export default function PromoCodesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { success, error } = useToast();
+  const slug = params.slug as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [creating, setCreating] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [deleteDialog, setDeleteDialog] = useState<PromoCode | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [slug]);
+
+  const loadData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      const eventData = await api.getEventBySlug(slug);
+      setEvent(eventData);
+
+      const codes = await api.getEventPromoCodes(eventData.id);
+      setPromoCodes(codes);
+    } catch (err: any) {
+      error(err.message || 'Failed to load promo codes');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleCreateCode = async () => {
+    if (!event) return;
+
+    try {
+      setCreating(true);
+      const created = await api.createPromoCode(event.id, {
+        code: form.code.trim().toUpperCase(),
+        discountType: form.discountType,
+        discountValue: Number(form.discountValue),
+        tierIds: form.tierIds,
+        maxUses: toOptionalNumber(form.maxUses),
+        maxUsesPerBuyer: toOptionalNumber(form.maxUsesPerBuyer),
+        minQuantity: toOptionalNumber(form.minQuantity),
+        startsAt: toISOString(form.startsAt),
+        endsAt: toISOString(form.endsAt),
+      });
+      setPromoCodes([{ ...created, redemptions: 0, ticketsDiscounted: 0, totalDiscount: 0 }, ...promoCodes]);
+      setForm(emptyForm);
+      setShowCreateDialog(false);
+      success('Promo code created!');
+    } catch (err: any) {
+      error(err.message || 'Failed to create promo code');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (promoCode: PromoCode) => {
+    try {
+      setTogglingId(promoCode.id);
+      await api.updatePromoCode(promoCode.id, { isActive: !promoCode.isActive });
+      setPromoCodes(
+        promoCodes.map((p) => (p.id === promoCode.id ? { ...p, isActive: !promoCode.isActive } : p))
+      );
+      success(`Promo code ${promoCode.isActive ? 'deactivated' : 'reactivated'}!`);
+    } catch (err: any) {
+      error(err.message || 'Failed to update promo code');
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const handleDeleteCode = async () => {
+    if (!deleteDialog) return;
+
+    try {
+      setDeletingId(deleteDialog.id);
+      await api.deletePromoCode(deleteDialog.id);
+      setPromoCodes(promoCodes.filter((p) => p.id !== deleteDialog.id));
+      success('Promo code deleted!');
+      setDeleteDialog(null);
+    } catch (err: any) {
+      error(err.message || 'Failed to delete promo code');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const toggleTier = (tierId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      tierIds: checked ? [...prev.tierIds, tierId] : prev.tierIds.filter((id) => id !== tierId),
+    }));
+  };
+
+  const describeDiscount = (promoCode: PromoCode) =>
+    promoCode.discountType === 'PERCENTAGE'
+      ? `${promoCode.discountValue}% off`
+      : `${formatCurrency(promoCode.discountValue)} off each ticket`;
+
+  const tierNames = (tierIds: string[]) =>
+    tierIds.length === 0
+      ? 'All tiers'
+      : tierIds.map((id) => event?.tiers?.find((t) => t.id === id)?.name || 'Removed tier').join(', ');
+
+  const totalRedemptions = promoCodes.reduce((sum, p) => sum + (p.redemptions || 0), 0);
+  const totalDiscount = promoCodes.reduce((sum, p) => sum + (p.totalDiscount || 0), 0);
+
+  if (loading) {
+    return (
+      <div className="container max-w-4xl py-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/events/${slug}/analytics`)}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Promo Codes</h1>
+            <p className="text-sm text-muted-foreground">{event?.title}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => loadData(true)} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Code
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-blue-100 rounded-lg shrink-0">
+                <Tag className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{promoCodes.length}</p>
+                <p className="text-sm text-muted-foreground">Promo Codes</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-green-100 rounded-lg shrink-0">
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{totalRedemptions}</p>
+                <p className="text-sm text-muted-foreground">Paid Orders Using Codes</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-purple-100 rounded-lg shrink-0">
+                <Percent className="h-5 w-5 text-purple-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{formatCurrency(totalDiscount)}</p>
+                <p className="text-sm text-muted-foreground">Total Discounts Given</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Promo Codes List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Promo Codes</CardTitle>
+          <CardDescription>
+            Buyers enter these codes on your event page. Discounts come off the ticket price before the platform fee.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {promoCodes.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <Tag className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No Promo Codes Yet</h3>
+              <p className="text-muted-foreground mb-4 max-w-sm mx-auto">
+                Create discount codes for early birds, partners or groups.
+              </p>
+              <Button onClick={() => setShowCreateDialog(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create First Code
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {promoCodes.map((promoCode) => (
+                <div
+                  key={promoCode.id}
+                  className={`flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 border rounded-lg transition-colors ${
+                    promoCode.isActive ? 'bg-white hover:bg-gray-50' : 'bg-gray-50/50 opacity-70'
+                  }`}
+                >
+                  <div className="flex items-start sm:items-center gap-4 min-w-0">
+                    <div className="font-mono text-base sm:text-lg font-bold tracking-widest bg-gray-100 px-3 py-2 rounded select-all">
+                      {promoCode.code}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{describeDiscount(promoCode)}</span>
+                        <Badge
+                          variant={promoCode.isActive ? 'default' : 'secondary'}
+                          className={promoCode.isActive ? 'bg-green-100 text-green-700 hover:bg-green-100' : ''}
+                        >
+                          {promoCode.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                        <span>{tierNames(promoCode.tierIds)}</span>
+                        <span>
+                          {promoCode.redemptions || 0}
+                          {promoCode.maxUses ? ` / ${promoCode.maxUses}` : ''} used
+                        </span>
+                        {promoCode.maxUsesPerBuyer && <span>{promoCode.maxUsesPerBuyer} per buyer</span>}
+                        {promoCode.minQuantity && <span>Min {promoCode.minQuantity} tickets</span>}
+                        {promoCode.endsAt && <span>Ends {formatDate(promoCode.endsAt, 'short')}</span>}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 ml-auto sm:ml-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        navigator.clipboard.writeText(promoCode.code);
+                        success('Code copied to clipboard!');
+                      }}
+                      title="Copy code"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(promoCode)}
+                      disabled={togglingId === promoCode.id}
+                      title={promoCode.isActive ? 'Deactivate' : 'Reactivate'}
+                    >
+                      {togglingId === promoCode.id ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : promoCode.isActive ? (
+                        <XCircle className="h-4 w-4 text-amber-600" />
+                      ) : (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setDeleteDialog(promoCode)}
+                      title="Delete code"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Create Promo Code</DialogTitle>
+            <DialogDescription>
+              Leave limits and dates empty for a code with no restrictions.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="code">Code</Label>
+              <Input
+                id="code"
+                placeholder="e.g., EARLYBIRD"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                maxLength={30}
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="discountType">Discount Type</Label>
+                <select
+                  id="discountType"
+                  value={form.discountType}
+                  onChange={(e) =>
+                    setForm({ ...form, discountType: e.target.value as PromoCodeInput['discountType'] })
+                  }
+                  className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                >
+                  <option value="PERCENTAGE">Percentage</option>
+                  <option value="FIXED">Fixed amount per ticket</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="discountValue">
+                  {form.discountType === 'PERCENTAGE' ? 'Percent Off' : 'Amount Off (₦)'}
+                </Label>
+                <Input
+                  id="discountValue"
+                  type="number"
+                  min={0}
+                  max={form.discountType === 'PERCENTAGE' ? 100 : undefined}
+                  value={form.discountValue}
+                  onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                />
+              </div>
+            </div>
+            {(event?.tiers?.length || 0) > 1 && (
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <p className="text-xs text-muted-foreground">Leave all unticked to apply to every tier.</p>
+                <div className="space-y-2">
+                  {event!.tiers!.map((tier) => (
+                    <label key={tier.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.tierIds.includes(tier.id)}
+                        onCheckedChange={(checked) => toggleTier(tier.id, checked === true)}
+                      />
+                      {tier.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="maxUses">Total Uses</Label>
+                <Input
+                  id="maxUses"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={form.maxUses}
+                  onChange={(e) => setForm({ ...form, maxUses: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxUsesPerBuyer">Per Buyer</Label>
+                <Input
+                  id="maxUsesPerBuyer"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={form.maxUsesPerBuyer}
+                  onChange={(e) => setForm({ ...form, maxUsesPerBuyer: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minQuantity">Min Tickets</Label>
+                <Input
+                  id="minQuantity"
+                  type="number"
+                  min={1}
+                  placeholder="None"
+                  value={form.minQuantity}
+                  onChange={(e) => setForm({ ...form, minQuantity: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="startsAt">Starts</Label>
+                <Input
+                  id="startsAt"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endsAt">Ends</Label>
+                <Input
+                  id="endsAt"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateCode}
+              disabled={creating || form.code.trim().length < 3 || !(Number(form.discountValue) > 0)}
+            >
+              {creating ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <Tag className="h-4 w-4 mr-2" />
+                  Create Code
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialog !== null} onOpenChange={(open) => !open && setDeleteDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              Delete Promo Code
+            </DialogTitle>
+            <DialogDescription>
+              Codes that have already been used can&apos;t be deleted - deactivate them instead.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteDialog && (
+            <div className="py-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="font-mono text-lg font-bold tracking-widest mb-2">{deleteDialog.code}</div>
+                <p className="text-sm text-muted-foreground">{describeDiscount(deleteDialog)}</p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteCode}
+              disabled={deletingId === deleteDialog?.id}
+            >
+              {deletingId === deleteDialog?.id ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Code
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -24,8 +24,11 @@ import {
   Clock, 
   Ticket,
   BarChart3,
-  Users
+  Users,
+  LogIn,
+  LogOut
 } from 'lucide-react';
+import type { EventSession } from '@/types';
 
 export default function ScanPage() {
   const { slug } = useParams();
@@ -44,14 +47,36 @@ export default function ScanPage() {
   const lastScannedRef = useRef<string | null>(null);
   // Track recently processed codes to prevent rapid duplicate submissions
   const recentlyProcessedRef = useRef<Set<string>>(new Set());
+  // Entry checks tickets in; exit checks re-entry tickets out. The camera callback reads the ref
+  const [scanMode, setScanMode] = useState<'entry' | 'exit'>('entry');
+  const scanModeRef = useRef<'entry' | 'exit'>('entry');
+
+  // Multi-day events can admit tickets to one session at a time instead of the whole event
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  const [sessionId, setSessionId] = useState('');
+  const sessionIdRef = useRef('');
+
+  const changeScanMode = (mode: 'entry' | 'exit') => {
+    scanModeRef.current = mode;
+    setScanMode(mode);
+    setLastResult(null);
+  };
+
+  const changeSession = (id: string) => {
+    sessionIdRef.current = id;
+    setSessionId(id);
+    setLastResult(null);
+  };
 
   // Fetch event to get the ID from slug
   useEffect(() => {
     const fetchEvent = async () => {
       try {
         const event = await api.getEventBySlug(slug as string);
-        setEventId(event.id || event.data?.id);
+        const id = event.id || event.data?.id;
+        setEventId(id);
         setEventTitle(event.title || event.data?.title || '');
+        setSessions(await api.getEventSessions(id).catch(() => []));
       } catch (err) {
         console.error('Failed to fetch event:', err);
       } finally {
@@ -139,8 +164,23 @@ export default function ScanPage() {
     }, 3000);
     
     try {
+      if (scanModeRef.current === 'exit') {
+        const result = await api.checkOutTicket({ qrCode: code, eventId });
+        setLastResult({ success: result.success, message: result.message, ticket: result.ticket });
+        if (result.success) {
+          success(result.message);
+        } else {
+          error(result.message || 'Could not check out ticket');
+        }
+        return;
+      }
+
       // Use scanQr which validates AND checks in the ticket in one call
-      const result = await api.scanQr({ qrCode: code, eventId });
+      const result = await api.scanQr({
+        qrCode: code,
+        eventId,
+        sessionId: sessionIdRef.current || undefined,
+      });
       
       if (result.success) {
         setLastResult({ success: true, message: result.message || 'Check-in successful!', ticket: result.ticket });
@@ -217,7 +257,42 @@ export default function ScanPage() {
               <p className="text-muted-foreground mt-1">{eventTitle}</p>
             )}
           </div>
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {sessions.length > 0 && scanMode === 'entry' && (
+              <select
+                value={sessionId}
+                onChange={(e) => changeSession(e.target.value)}
+                className="h-9 px-3 rounded-md border bg-background text-sm"
+                aria-label="Session"
+              >
+                <option value="">Whole event</option>
+                {sessions.map((session) => (
+                  <option key={session.id} value={session.id}>
+                    {session.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="flex rounded-md border p-0.5" role="group" aria-label="Scan mode">
+              <Button
+                size="sm"
+                variant={scanMode === 'entry' ? 'default' : 'ghost'}
+                onClick={() => changeScanMode('entry')}
+                className="gap-1"
+              >
+                <LogIn className="h-4 w-4" />
+                Entry
+              </Button>
+              <Button
+                size="sm"
+                variant={scanMode === 'exit' ? 'default' : 'ghost'}
+                onClick={() => changeScanMode('exit')}
+                className="gap-1"
+              >
+                <LogOut className="h-4 w-4" />
+                Exit
+              </Button>
+            </div>
             <Link href={`/events/${slug}/agents`}>
               <Button variant="outline" className="gap-2">
                 <Users className="h-4 w-4" />
@@ -288,7 +363,11 @@ export default function ScanPage() {
                 <Camera className="h-5 w-5 text-primary" />
                 Camera Scanner
               </CardTitle>
-              <CardDescription>Point your camera at a ticket QR code to check in</CardDescription>
+              <CardDescription>
+                {scanMode === 'exit'
+                  ? 'Point your camera at a ticket QR code to check it out - only tiers with re-entry can leave and come back'
+                  : 'Point your camera at a ticket QR code to check in'}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="relative w-full aspect-square bg-black/5 rounded-lg overflow-hidden mb-4">
@@ -339,7 +418,9 @@ export default function ScanPage() {
                   <Search className="h-5 w-5 text-primary" />
                   Manual Entry
                 </CardTitle>
-                <CardDescription>Enter a ticket code manually to check in</CardDescription>
+                <CardDescription>
+                  Enter a ticket code manually to {scanMode === 'exit' ? 'check out' : 'check in'}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <form onSubmit={handleManualSubmit} className="flex gap-2">
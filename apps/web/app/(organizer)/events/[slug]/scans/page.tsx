@@ -0,0 +1,262 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { api } from '@/lib/api-client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, ChevronLeft, ChevronRight, History, RefreshCw, Search } from 'lucide-react';
+import type { ScanEvent, ScanLogPage, ScanResult } from '@/types';
+
+interface Event {
+  id: string;
+  title: string;
+  slug: string;
+}
+
+const PAGE_SIZE = 50;
+
+const resultStyles: Record<ScanResult, { label: string; className: string }> = {
+  ACCEPTED: { label: 'Accepted', className: 'bg-green-100 text-green-700 hover:bg-green-100' },
+  DUPLICATE: { label: 'Duplicate', className: 'bg-amber-100 text-amber-700 hover:bg-amber-100' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-700 hover:bg-red-100' },
+};
+
+const formatInstant = (date: string) =>
+  new Date(date).toLocaleString([], {
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+const scannedBy = (scan: ScanEvent) =>
+  scan.source === 'ORGANIZER'
+    ? 'Organizer'
+    : `${scan.gate || scan.agentCode?.label || scan.agentCode?.code || 'Agent'}${
+        scan.source === 'AGENT_OFFLINE' ? ' (offline)' : ''
+      }`;
+
+export default function ScansPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { error } = useToast();
+  const slug = params.slug as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [log, setLog] = useState<ScanLogPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [ticketNumber, setTicketNumber] = useState('');
+  const [resultFilter, setResultFilter] = useState<ScanResult | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [slug, page, ticketNumber, resultFilter]);
+
+  const loadData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      } else if (!log) {
+        setLoading(true);
+      }
+      const eventData = event?.slug === slug ? event : await api.getEventBySlug(slug);
+      setEvent(eventData);
+
+      const data = await api.getEventScans(eventData.id, {
+        page,
+        limit: PAGE_SIZE,
+        ticketNumber: ticketNumber || undefined,
+        result: resultFilter || undefined,
+      });
+      setLog(data);
+    } catch (err: any) {
+      error(err.message || 'Failed to load scan log');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setTicketNumber(search.trim());
+  };
+
+  const scans = log?.scans || [];
+  const totalPages = log?.totalPages || 1;
+
+  if (loading) {
+    return (
+      <div className="container max-w-4xl py-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/events/${slug}/analytics`)}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Scan Log</h1>
+            <p className="text-sm text-muted-foreground">{event?.title}</p>
+          </div>
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => loadData(true)}
+          disabled={refreshing}
+          className="ml-auto"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-4">
+          <div className="space-y-1.5">
+            <CardTitle>Scans</CardTitle>
+            <CardDescription>
+              Every ticket scan at the door, by you or your agents - including duplicates and
+              rejected tickets. Search a ticket number to see all attempts on one ticket.
+            </CardDescription>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <form onSubmit={handleSearch} className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Ticket number"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </form>
+            <select
+              value={resultFilter}
+              onChange={(e) => {
+                setPage(1);
+                setResultFilter(e.target.value as ScanResult | '');
+              }}
+              className="h-10 px-3 rounded-md border bg-background text-sm shrink-0"
+              aria-label="Filter by result"
+            >
+              <option value="">All results</option>
+              {(Object.keys(resultStyles) as ScanResult[]).map((result) => (
+                <option key={result} value={result}>
+                  {resultStyles[result].label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {scans.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <History className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No Scans Yet</h3>
+              <p className="text-muted-foreground max-w-sm mx-auto">
+                {ticketNumber || resultFilter
+                  ? 'No scans match these filters.'
+                  : 'Scans show up here as soon as tickets are checked in.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {scans.map((scan) => {
+                const buyerName = scan.ticket
+                  ? `${scan.ticket.buyerFirstName || ''} ${scan.ticket.buyerLastName || ''}`.trim()
+                  : '';
+                return (
+                  <div
+                    key={scan.id}
+                    className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border rounded-lg"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono font-medium truncate">
+                          {scan.ticketNumber || scan.scannedValue}
+                        </span>
+                        <Badge className={resultStyles[scan.result].className}>
+                          {resultStyles[scan.result].label}
+                        </Badge>
+                        {scan.action === 'VALIDATE' && <Badge variant="outline">Validation only</Badge>}
+                        {scan.action === 'CHECK_OUT' && <Badge variant="outline">Exit</Badge>}
+                        {scan.session && <Badge variant="outline">{scan.session.name}</Badge>}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                        <span>{formatInstant(scan.scannedAt)}</span>
+                        <span>{scannedBy(scan)}</span>
+                        {scan.ticket && (
+                          <span className="truncate">
+                            {buyerName || scan.ticket.buyerEmail} · {scan.ticket.tier.name}
+                          </span>
+                        )}
+                        {scan.deviceId && <span className="truncate">Device {scan.deviceId}</span>}
+                      </div>
+                      {scan.reason && <p className="text-sm text-destructive mt-1">{scan.reason}</p>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4 mt-4 border-t">
+              <p className="text-sm text-muted-foreground">
+                {log?.total} scans • Page {page} of {totalPages}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page === 1 || refreshing}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page === totalPages || refreshing}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
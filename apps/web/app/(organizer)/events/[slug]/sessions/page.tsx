@@ -0,0 +1,429 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { api } from '@/lib/api-client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  CalendarRange,
+  RefreshCw,
+  UserCheck,
+  AlertTriangle,
+} from 'lucide-react';
+import { formatDate } from '@/lib/utils';
+import type { EventSession } from '@/types';
+
+interface Event {
+  id: string;
+  title: string;
+  slug: string;
+  tiers?: { id: string; name: string }[];
+}
+
+const emptyForm = {
+  name: '',
+  startsAt: '',
+  endsAt: '',
+  tierIds: [] as string[],
+};
+
+// datetime-local values are stored as the literal time entered, same as event dates
+const toISOString = (dateTimeLocal: string) => `${dateTimeLocal}:00.000Z`;
+
+const toDateTimeLocal = (iso: string) => iso.slice(0, 16);
+
+export default function SessionsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { success, error } = useToast();
+  const slug = params.slug as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showFormDialog, setShowFormDialog] = useState(false);
+  const [editing, setEditing] = useState<EventSession | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [deleteDialog, setDeleteDialog] = useState<EventSession | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [slug]);
+
+  const loadData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      const eventData = await api.getEventBySlug(slug);
+      setEvent(eventData);
+
+      const data = await api.getEventSessions(eventData.id);
+      setSessions(data);
+    } catch (err: any) {
+      error(err.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setShowFormDialog(true);
+  };
+
+  const openEditDialog = (session: EventSession) => {
+    setEditing(session);
+    setForm({
+      name: session.name,
+      startsAt: toDateTimeLocal(session.startsAt),
+      endsAt: toDateTimeLocal(session.endsAt),
+      tierIds: session.tiers.map((tier) => tier.id),
+    });
+    setShowFormDialog(true);
+  };
+
+  const handleSaveSession = async () => {
+    if (!event) return;
+
+    const data = {
+      name: form.name.trim(),
+      startsAt: toISOString(form.startsAt),
+      endsAt: toISOString(form.endsAt),
+      tierIds: form.tierIds,
+    };
+
+    try {
+      setSaving(true);
+      if (editing) {
+        const updated = await api.updateEventSession(editing.id, data);
+        setSessions(sessions.map((s) => (s.id === updated.id ? updated : s)));
+        success('Session updated!');
+      } else {
+        const created = await api.createEventSession(event.id, data);
+        setSessions(
+          [...sessions, created].sort(
+            (a, b) => a.sortOrder - b.sortOrder || a.startsAt.localeCompare(b.startsAt)
+          )
+        );
+        success('Session added!');
+      }
+      setShowFormDialog(false);
+    } catch (err: any) {
+      error(err.message || 'Failed to save session');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSession = async () => {
+    if (!deleteDialog) return;
+
+    try {
+      setDeletingId(deleteDialog.id);
+      await api.deleteEventSession(deleteDialog.id);
+      setSessions(sessions.filter((s) => s.id !== deleteDialog.id));
+      success('Session deleted!');
+      setDeleteDialog(null);
+    } catch (err: any) {
+      error(err.message || 'Failed to delete session');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const toggleTier = (tierId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      tierIds: checked ? [...prev.tierIds, tierId] : prev.tierIds.filter((id) => id !== tierId),
+    }));
+  };
+
+  const describeTimes = (session: EventSession) =>
+    `${formatDate(session.startsAt, 'short')}, ${formatDate(session.startsAt, 'time')} - ${
+      session.startsAt.slice(0, 10) === session.endsAt.slice(0, 10)
+        ? formatDate(session.endsAt, 'time')
+        : `${formatDate(session.endsAt, 'short')}, ${formatDate(session.endsAt, 'time')}`
+    }`;
+
+  const canSave =
+    form.name.trim().length > 0 && form.startsAt && form.endsAt && form.startsAt < form.endsAt;
+
+  if (loading) {
+    return (
+      <div className="container max-w-4xl py-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/events/${slug}/analytics`)}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Sessions</h1>
+            <p className="text-sm text-muted-foreground">{event?.title}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => loadData(true)} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Session
+          </Button>
+        </div>
+      </div>
+
+      {/* Sessions List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Days & Sessions</CardTitle>
+          <CardDescription>
+            For multi-day events and breakouts. Pick a session when scanning to admit each ticket
+            once per session - check-in opens 2 hours before the session starts and closes when it
+            ends. Tiers with no sessions ticked admit to every session.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sessions.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <CalendarRange className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No Sessions Yet</h3>
+              <p className="text-muted-foreground mb-4 max-w-sm mx-auto">
+                Single-day events don&apos;t need sessions - tickets are checked in once for the
+                whole event.
+              </p>
+              <Button onClick={openCreateDialog}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add First Session
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 border rounded-lg bg-white hover:bg-gray-50 transition-colors"
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{session.name}</span>
+                      <Badge variant="secondary" className="gap-1">
+                        <UserCheck className="h-3 w-3" />
+                        {session.admissionCount} admitted
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                      <span>{describeTimes(session)}</span>
+                      <span>
+                        {session.tiers.length === 0
+                          ? 'All-access tiers only'
+                          : session.tiers.map((tier) => tier.name).join(', ')}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 ml-auto sm:ml-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openEditDialog(session)}
+                      title="Edit session"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setDeleteDialog(session)}
+                      disabled={session.admissionCount > 0}
+                      title={
+                        session.admissionCount > 0
+                          ? 'Sessions with admitted tickets cannot be deleted'
+                          : 'Delete session'
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={showFormDialog} onOpenChange={setShowFormDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Session' : 'Add Session'}</DialogTitle>
+            <DialogDescription>
+              A day of the event, or a breakout that needs its own check-in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                placeholder="e.g., Day 1"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="startsAt">Starts</Label>
+                <Input
+                  id="startsAt"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="endsAt">Ends</Label>
+                <Input
+                  id="endsAt"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+            {(event?.tiers?.length || 0) > 0 && (
+              <div className="space-y-2">
+                <Label>Tiers Included</Label>
+                <p className="text-xs text-muted-foreground">
+                  Tick the tiers sold for this session, e.g. a &quot;Day 1 Pass&quot;. Tiers that
+                  aren&apos;t ticked for any session admit to every session.
+                </p>
+                <div className="space-y-2">
+                  {event!.tiers!.map((tier) => (
+                    <label key={tier.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.tierIds.includes(tier.id)}
+                        onCheckedChange={(checked) => toggleTier(tier.id, checked === true)}
+                      />
+                      {tier.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowFormDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSession} disabled={saving || !canSave}>
+              {saving ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <CalendarRange className="h-4 w-4 mr-2" />
+                  {editing ? 'Save Changes' : 'Add Session'}
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialog !== null} onOpenChange={(open) => !open && setDeleteDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-600">
+              <AlertTriangle className="h-5 w-5" />
+              Delete Session
+            </DialogTitle>
+            <DialogDescription>
+              Tickets are no longer checked in to this session. Sessions tickets have already been
+              admitted to can&apos;t be deleted.
+            </DialogDescription>
+          </DialogHeader>
+          {deleteDialog && (
+            <div className="py-4">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="font-medium mb-1">{deleteDialog.name}</div>
+                <p className="text-sm text-muted-foreground">{describeTimes(deleteDialog)}</p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleDeleteSession}
+              disabled={deletingId === deleteDialog?.id}
+            >
+              {deletingId === deleteDialog?.id ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Session
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
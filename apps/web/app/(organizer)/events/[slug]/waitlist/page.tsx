@@ -0,0 +1,272 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { api } from '@/lib/api-client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, BellRing, Download, RefreshCw, Send, Ticket, Users } from 'lucide-react';
+import type { EventWaitlist, WaitlistStatus } from '@/types';
+
+interface Event {
+  id: string;
+  title: string;
+  slug: string;
+  tiers?: { id: string; name: string }[];
+}
+
+const statusStyles: Record<WaitlistStatus, { label: string; className: string }> = {
+  WAITING: { label: 'Waiting', className: 'bg-blue-100 text-blue-700 hover:bg-blue-100' },
+  OFFERED: { label: 'Offer Sent', className: 'bg-amber-100 text-amber-700 hover:bg-amber-100' },
+  CLAIMED: { label: 'Claimed', className: 'bg-green-100 text-green-700 hover:bg-green-100' },
+  EXPIRED: { label: 'Offer Expired', className: 'bg-gray-100 text-gray-600 hover:bg-gray-100' },
+  REMOVED: { label: 'Removed', className: 'bg-gray-100 text-gray-600 hover:bg-gray-100' },
+};
+
+// Join and offer times are real instants, so show them in the organizer's local time
+const formatInstant = (date: string | null) =>
+  date
+    ? new Date(date).toLocaleString([], {
+        day: 'numeric',
+        month: 'short',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : '-';
+
+export default function WaitlistPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { error } = useToast();
+  const slug = params.slug as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [waitlist, setWaitlist] = useState<EventWaitlist | null>(null);
+  const [tierFilter, setTierFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [slug]);
+
+  const loadData = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      const eventData = await api.getEventBySlug(slug);
+      setEvent(eventData);
+
+      const data = await api.getEventWaitlist(eventData.id);
+      setWaitlist(data);
+    } catch (err: any) {
+      error(err.message || 'Failed to load waitlist');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!event) return;
+
+    try {
+      setExporting(true);
+      await api.downloadEventWaitlist(event.id);
+    } catch (err: any) {
+      error(err.message || 'Failed to export waitlist');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const entries = (waitlist?.entries || []).filter((entry) => !tierFilter || entry.tierId === tierFilter);
+  // Queue position counts waiting entries per tier, oldest first
+  const positions = new Map<string, number>();
+  const waitingCounts = new Map<string, number>();
+  for (const entry of waitlist?.entries || []) {
+    if (entry.status !== 'WAITING') continue;
+    const position = (waitingCounts.get(entry.tierId) || 0) + 1;
+    waitingCounts.set(entry.tierId, position);
+    positions.set(entry.id, position);
+  }
+
+  if (loading) {
+    return (
+      <div className="container max-w-4xl py-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl py-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => router.push(`/events/${slug}/analytics`)}
+            className="shrink-0"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold">Waitlist</h1>
+            <p className="text-sm text-muted-foreground">{event?.title}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <Button variant="outline" size="sm" onClick={() => loadData(true)} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleExport}
+            disabled={exporting || (waitlist?.entries.length || 0) === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-blue-100 rounded-lg shrink-0">
+                <Users className="h-5 w-5 text-blue-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{waitlist?.waiting || 0}</p>
+                <p className="text-sm text-muted-foreground">
+                  Waiting for {waitlist?.ticketsWanted || 0} ticket{waitlist?.ticketsWanted === 1 ? '' : 's'}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-amber-100 rounded-lg shrink-0">
+                <Send className="h-5 w-5 text-amber-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{waitlist?.offered || 0}</p>
+                <p className="text-sm text-muted-foreground">Offers Waiting on Buyers</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 bg-green-100 rounded-lg shrink-0">
+                <Ticket className="h-5 w-5 text-green-600" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{waitlist?.claimed || 0}</p>
+                <p className="text-sm text-muted-foreground">Offers Claimed</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Waitlist */}
+      <Card>
+        <CardHeader className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>People Waiting</CardTitle>
+            <CardDescription>
+              When seats free up on a sold-out tier they are reserved for the next person in line,
+              who gets an email with a link to buy them.
+            </CardDescription>
+          </div>
+          {(event?.tiers?.length || 0) > 1 && (
+            <select
+              value={tierFilter}
+              onChange={(e) => setTierFilter(e.target.value)}
+              className="h-9 px-3 rounded-md border bg-background text-sm shrink-0"
+              aria-label="Filter by tier"
+            >
+              <option value="">All tiers</option>
+              {event?.tiers?.map((tier) => (
+                <option key={tier.id} value={tier.id}>
+                  {tier.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 bg-muted rounded-full flex items-center justify-center">
+                <BellRing className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">No One Waiting</h3>
+              <p className="text-muted-foreground max-w-sm mx-auto">
+                Buyers can join the waitlist from your event page once a tier sells out.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border rounded-lg"
+                >
+                  <div className="flex items-start sm:items-center gap-4 min-w-0">
+                    <div className="w-10 text-center font-mono text-sm text-muted-foreground shrink-0">
+                      {positions.has(entry.id) ? `#${positions.get(entry.id)}` : '-'}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium truncate">{entry.firstName || entry.email}</span>
+                        <Badge className={statusStyles[entry.status].className}>
+                          {statusStyles[entry.status].label}
+                        </Badge>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground mt-1">
+                        {entry.firstName && <span className="truncate">{entry.email}</span>}
+                        <span>{entry.tierName}</span>
+                        <span>
+                          {entry.quantity} ticket{entry.quantity === 1 ? '' : 's'}
+                        </span>
+                        <span>Joined {formatInstant(entry.joinedAt)}</span>
+                        {entry.status === 'OFFERED' && (
+                          <span>Offer ends {formatInstant(entry.offerExpiresAt)}</span>
+                        )}
+                        {entry.status === 'CLAIMED' && <span>Claimed {formatInstant(entry.claimedAt)}</span>}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,8 +16,18 @@ import { OrganizationNameDialog, useOrganizationNameCheck } from '@/components/u
 import { api } from '@/lib/api-client';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Trash2, Upload, X, ImageIcon, AlertCircle, CheckCircle2, MapPin, Lock, Globe, Info, Percent, Sparkles, Calendar, Ticket, ArrowLeft, Eye, Save } from 'lucide-react';
+import { Plus, Trash2, Upload, X, ImageIcon, AlertCircle, CheckCircle2, MapPin, Lock, Globe, Info, Percent, Sparkles, Calendar, Ticket, ArrowLeft, Eye, Save, ArrowRightLeft, Repeat, ClipboardList, CreditCard } from 'lucide-react';
 import { MapPicker } from '@/components/ui/map-picker';
+import { TierPricePhases, sanitizePricePhases } from '@/components/ui/tier-price-phases';
+import { RegistrationQuestions, sanitizeRegistrationQuestions } from '@/components/ui/registration-questions';
+import { PaymentProviderSelect } from '@/components/ui/payment-provider-select';
+
+const pricePhaseSchema = z.object({
+  name: z.string().optional(),
+  price: z.number({ invalid_type_error: 'Phase price must be a number' }).min(0, 'Phase price cannot be negative'),
+  endsAt: z.string().optional(),
+  untilSold: z.number().min(1, 'Phase ticket limit must be at least 1').optional().or(z.nan()),
+});
 
 // Tier schema for draft (more lenient - allows partial data)
 const tierSchemaDraft = z.object({
@@ -27,7 +37,13 @@ const tierSchemaDraft = z.object({
   capacity: z.number({ invalid_type_error: 'Capacity must be a number' }).min(1, 'Capacity must be at least 1').default(1),
   description: z.string().optional(),
   refundEnabled: z.boolean().default(false),
+  isHidden: z.boolean().default(false),
+  transferEnabled: z.boolean().default(true),
+  reentryEnabled: z.boolean().default(false),
+  maxEntriesPerDay: z.number().int().min(1, 'Entries per day must be at least 1').nullable().optional(),
+  saleStartDate: z.string().optional(),
   saleEndDate: z.string().optional(),
+  pricePhases: z.array(pricePhaseSchema).default([]),
 });
 
 // Tier schema for publish (strict validation)
@@ -38,7 +54,23 @@ const tierSchemaPublish = z.object({
   capacity: z.number({ invalid_type_error: 'Capacity must be a number' }).min(1, 'Capacity must be at least 1'),
   description: z.string().optional(),
   refundEnabled: z.boolean().default(false),
+  isHidden: z.boolean().default(false),
+  transferEnabled: z.boolean().default(true),
+  reentryEnabled: z.boolean().default(false),
+  maxEntriesPerDay: z.number().int().min(1, 'Entries per day must be at least 1').nullable().optional(),
+  saleStartDate: z.string().optional(),
   saleEndDate: z.string().optional(),
+  pricePhases: z.array(pricePhaseSchema).default([]),
+});
+
+// Registration questions - checked by the API when the event is saved
+const questionSchema = z.object({
+  label: z.string().default(''),
+  type: z.enum(['TEXT', 'SINGLE_SELECT', 'MULTI_SELECT', 'TSHIRT_SIZE', 'DIETARY']).default('TEXT'),
+  optionsText: z.string().optional(),
+  required: z.boolean().default(false),
+  perTicket: z.boolean().default(false),
+  tierNames: z.array(z.string()).default([]),
 });
 
 // Draft schema (lenient - allows saving incomplete events)
@@ -54,8 +86,14 @@ const schemaDraft = z.object({
   isLocationPublic: z.boolean().default(true),
   onlineLink: z.string().optional(),
   tiers: z.array(tierSchemaDraft).default([]),
+  questions: z.array(questionSchema).default([]),
   passFeeTobuyer: z.boolean().default(false),
   hideTicketSalesProgress: z.boolean().default(false),
+  allowTransfers: z.boolean().default(true),
+  resaleEnabled: z.boolean().default(false),
+  resaleMaxPricePercent: z.number().int().min(10).max(100).default(100),
+  resaleRoyaltyPercent: z.number().int().min(0).max(50).default(0),
+  paymentProvider: z.enum(['MONNIFY', 'PAYSTACK']).or(z.literal('')).default(''),
 });
 
 // Publish schema (strict - requires all necessary fields)
@@ -71,8 +109,14 @@ const schemaPublish = z.object({
   isLocationPublic: z.boolean().default(true),
   onlineLink: z.string().optional(),
   tiers: z.array(tierSchemaPublish).min(1, 'At least one ticket tier is required'),
+  questions: z.array(questionSchema).default([]),
   passFeeTobuyer: z.boolean().default(false),
   hideTicketSalesProgress: z.boolean().default(false),
+  allowTransfers: z.boolean().default(true),
+  resaleEnabled: z.boolean().default(false),
+  resaleMaxPricePercent: z.number().int().min(10).max(100).default(100),
+  resaleRoyaltyPercent: z.number().int().min(0).max(50).default(0),
+  paymentProvider: z.enum(['MONNIFY', 'PAYSTACK']).or(z.literal('')).default(''),
 }).refine((data) => {
   // Validate that all tier saleEndDates (if provided) are before or equal to event startDate
   if (!data.startDate) return true;
@@ -120,13 +164,14 @@ export default function CreateEventPage() {
 
   const { register, control, handleSubmit, watch, setValue, formState: { errors, isSubmitting } } = useForm<FormData>({
     resolver: zodResolver(schema),
-    defaultValues: { isOnline: false, isLocationPublic: true, passFeeTobuyer: false, hideTicketSalesProgress: false, tiers: [{ name: 'General', isFree: false, price: 0, capacity: 100, refundEnabled: false }] },
+    defaultValues: { isOnline: false, isLocationPublic: true, passFeeTobuyer: false, hideTicketSalesProgress: false, allowTransfers: true, resaleEnabled: false, resaleMaxPricePercent: 100, resaleRoyaltyPercent: 0, tiers: [{ name: 'General', isFree: false, price: 0, capacity: 100, refundEnabled: false, isHidden: false, transferEnabled: true, reentryEnabled: false, maxEntriesPerDay: null, pricePhases: [] }] },
   });
 
   const { fields, append, remove } = useFieldArray({ control, name: 'tiers' });
   const isOnline = watch('isOnline');
   const isLocationPublic = watch('isLocationPublic');
   const startDate = watch('startDate');
+  const resaleEnabled = watch('resaleEnabled');
 
   // Recommended banner sizes
   const recommendedSizes = [
@@ -233,8 +278,16 @@ export default function CreateEventPage() {
           price: price,
           capacity: capacity,
           refundEnabled: !!tier.refundEnabled,
-          // Convert tier sale end date to ISO string
+          isHidden: !!tier.isHidden,
+          transferEnabled: tier.transferEnabled !== false,
+          reentryEnabled: !!tier.reentryEnabled,
+          maxEntriesPerDay:
+            tier.reentryEnabled && Number(tier.maxEntriesPerDay) > 0 ? Number(tier.maxEntriesPerDay) : null,
+          // Convert tier sale dates to ISO strings
+          saleStartDate: toISOString(tier.saleStartDate),
           saleEndDate: toISOString(tier.saleEndDate),
+          // Free tiers have no price to phase
+          pricePhases: tier.isFree ? [] : sanitizePricePhases(tier.pricePhases, toISOString),
         };
       });
 
@@ -244,6 +297,10 @@ export default function CreateEventPage() {
       const eventData = {
         ...data,
         tiers: sanitizedTiers,
+        questions: sanitizeRegistrationQuestions(
+          data.questions,
+          sanitizedTiers.map((tier) => tier.name)
+        ),
         coverImage: coverImage || undefined,
         // Convert dates to ISO strings
         startDate: toISOString(data.startDate) || data.startDate,
@@ -254,6 +311,8 @@ export default function CreateEventPage() {
         longitude: !data.isOnline && data.longitude ? data.longitude : undefined,
         // Only include onlineLink if online and has value
         onlineLink: data.isOnline && data.onlineLink ? data.onlineLink : undefined,
+        // Blank means the platform picks, with failover
+        paymentProvider: data.paymentProvider || null,
       };
 
       console.log('Submitting event data:', eventData);
@@ -286,6 +345,7 @@ export default function CreateEventPage() {
   const watchedDescription = watch('description');
   const watchedStartDate = watch('startDate');
   const watchedTiers = watch('tiers');
+  const tierNames = (watchedTiers || []).map((tier) => tier.name?.trim()).filter(Boolean) as string[];
   
   const formProgress = {
     banner: !!coverImage,
@@ -614,6 +674,19 @@ export default function CreateEventPage() {
               </CardContent>
             </Card>
 
+            {/* Payment Provider Option */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  Payment Provider
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PaymentProviderSelect register={register} />
+              </CardContent>
+            </Card>
+
             {/* Hide Ticket Sales Progress Option */}
             <Card>
               <CardHeader>
@@ -654,6 +727,100 @@ export default function CreateEventPage() {
               </CardContent>
             </Card>
 
+            {/* Ticket Transfers Option */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ArrowRightLeft className="h-5 w-5" />
+                  Ticket Transfers
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="p-4 bg-muted/50 rounded-lg border border-border">
+                  <div className="flex items-start gap-3">
+                    <div className="flex items-center h-5 mt-0.5">
+                      <input
+                        type="checkbox"
+                        id="allowTransfers"
+                        {...register('allowTransfers')}
+                        className="rounded border-gray-300 text-primary focus:ring-primary"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label htmlFor="allowTransfers" className="flex items-center gap-2 cursor-pointer">
+                        <span className="font-medium text-sm">
+                          Let attendees transfer tickets to someone else
+                        </span>
+                      </label>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Ticket holders who can't attend can send their ticket to a friend. The ticket is reissued with a new QR code and the old one stops working. You can also turn transfers off for individual tiers.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Ticket Resale Option */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Ticket Resale
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="p-4 bg-muted/50 rounded-lg border border-border">
+                  <div className="flex items-start gap-3">
+                    <div className="flex items-center h-5 mt-0.5">
+                      <input
+                        type="checkbox"
+                        id="resaleEnabled"
+                        {...register('resaleEnabled')}
+                        className="rounded border-gray-300 text-primary focus:ring-primary"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label htmlFor="resaleEnabled" className="flex items-center gap-2 cursor-pointer">
+                        <span className="font-medium text-sm">
+                          Let attendees resell tickets on hdticketdesk
+                        </span>
+                      </label>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Attendees who can't make it can list their ticket for another buyer. The buyer gets a new ticket, the seller's old QR code stops working and the seller is refunded the sale price minus fees.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+                {resaleEnabled && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="resaleMaxPricePercent">Maximum resale price (% of price paid)</Label>
+                      <Input
+                        id="resaleMaxPricePercent"
+                        type="number"
+                        min={10}
+                        max={100}
+                        {...register('resaleMaxPricePercent', { valueAsNumber: true })}
+                      />
+                      <p className="text-xs text-muted-foreground">100% caps resales at face value.</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="resaleRoyaltyPercent">Your royalty (% of resale price)</Label>
+                      <Input
+                        id="resaleRoyaltyPercent"
+                        type="number"
+                        min={0}
+                        max={50}
+                        {...register('resaleRoyaltyPercent', { valueAsNumber: true })}
+                      />
+                      <p className="text-xs text-muted-foreground">Paid to you on every resale.</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card className={`transition-all duration-300 ${formProgress.tickets ? 'ring-2 ring-primary/20 border-primary/30' : ''}`}>
               <CardHeader className="pb-4">
                 <div className="flex items-center justify-between">
@@ -673,7 +840,7 @@ export default function CreateEventPage() {
                         Done
                       </Badge>
                     )}
-                    <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', isFree: false, price: 0, capacity: 50, refundEnabled: false })} className="gap-1">
+                    <Button type="button" variant="outline" size="sm" onClick={() => append({ name: '', isFree: false, price: 0, capacity: 50, refundEnabled: false, isHidden: false, transferEnabled: true, reentryEnabled: false, maxEntriesPerDay: null, pricePhases: [] })} className="gap-1">
                       <Plus className="h-4 w-4" />
                       <span className="hidden sm:inline">Add Tier</span>
                     </Button>
@@ -689,6 +856,7 @@ export default function CreateEventPage() {
                 )}
                 {fields.map((field, index) => {
                   const isFree = watch(`tiers.${index}.isFree`);
+                  const reentryEnabled = watch(`tiers.${index}.reentryEnabled`);
                   return (
                     <div key={field.id} className="p-4 border border-border rounded-lg space-y-4">
                       <div className="flex justify-between items-center">
@@ -746,27 +914,92 @@ export default function CreateEventPage() {
                           />
                         </div>
                       </div>
-                      <div className="space-y-2">
-                        <Label>Sale End Date & Time (Optional)</Label>
-                        <Input
-                          type="datetime-local"
-                          {...register(`tiers.${index}.saleEndDate`)}
-                          max={startDate || undefined}
-                        />
-                        <p className="text-xs text-muted-foreground">
-                          Leave empty to allow sales until the event starts
-                        </p>
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label>Sale Start Date & Time (Optional)</Label>
+                          <Input
+                            type="datetime-local"
+                            {...register(`tiers.${index}.saleStartDate`)}
+                            max={startDate || undefined}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Leave empty to start selling as soon as the event is published
+                          </p>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Sale End Date & Time (Optional)</Label>
+                          <Input
+                            type="datetime-local"
+                            {...register(`tiers.${index}.saleEndDate`)}
+                            max={startDate || undefined}
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Leave empty to allow sales until the event starts
+                          </p>
+                        </div>
                       </div>
+                      {!isFree && <TierPricePhases control={control} register={register} tierIndex={index} />}
                       <div className="flex items-center gap-2">
                         <input type="checkbox" id={`refund-${index}`} {...register(`tiers.${index}.refundEnabled`)} className="rounded" />
                         <Label htmlFor={`refund-${index}`}>Allow refunds for this tier</Label>
                       </div>
+                      <div className="flex items-center gap-2">
+                        <input type="checkbox" id={`transfer-${index}`} {...register(`tiers.${index}.transferEnabled`)} className="rounded" />
+                        <Label htmlFor={`transfer-${index}`}>Allow ticket transfers for this tier</Label>
+                      </div>
+                      <div className="flex items-start gap-2">
+                        <input type="checkbox" id={`reentry-${index}`} {...register(`tiers.${index}.reentryEnabled`)} className="rounded mt-1" />
+                        <div>
+                          <Label htmlFor={`reentry-${index}`}>Allow re-entry</Label>
+                          <p className="text-xs text-muted-foreground">Ticket holders can be checked out at the exit and come back in</p>
+                        </div>
+                      </div>
+                      {reentryEnabled && (
+                        <div className="space-y-2 pl-6">
+                          <Label htmlFor={`max-entries-${index}`}>Max entries per day</Label>
+                          <Input
+                            id={`max-entries-${index}`}
+                            type="number"
+                            min={1}
+                            placeholder="Unlimited"
+                            className="w-32"
+                            {...register(`tiers.${index}.maxEntriesPerDay`, {
+                              setValueAs: (value) => (value === '' || value === null ? null : Number(value)),
+                            })}
+                          />
+                        </div>
+                      )}
+                      <div className="flex items-start gap-2">
+                        <input type="checkbox" id={`hidden-${index}`} {...register(`tiers.${index}.isHidden`)} className="rounded mt-1" />
+                        <div>
+                          <Label htmlFor={`hidden-${index}`}>Hidden tier</Label>
+                          <p className="text-xs text-muted-foreground">Only shown to buyers with an access code or private link</p>
+                        </div>
+                      </div>
                     </div>
                   );
                 })}
               </CardContent>
             </Card>
 
+            {/* Registration Questions */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5" />
+                  Registration Questions
+                </CardTitle>
+                <CardDescription>Questions buyers answer at checkout (optional)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RegistrationQuestions
+                  control={control}
+                  register={register}
+                  tierNames={tierNames}
+                />
+              </CardContent>
+            </Card>
+
             {/* Action Buttons - Sticky on mobile */}
             <Card className="bg-gradient-to-r from-card via-card to-muted/30 border-t-2 border-t-primary/20">
               <CardContent className="p-4 sm:p-6">
@@ -11,6 +11,7 @@ import { Sidebar } from '@/components/layouts/sidebar';
 import { api } from '@/lib/api-client';
 import { useAuth } from '@/hooks/use-auth';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import type { Dispute } from '@/types';
 import { 
   Search, 
   TrendingUp, 
@@ -23,12 +24,24 @@ import {
   Receipt,
   Filter,
   Download,
-  AlertCircle
+  AlertCircle,
+  Gift,
+  Repeat,
+  Scale
 } from 'lucide-react';
 
 interface LedgerEntry {
   id: string;
-  type: 'TICKET_SALE' | 'WITHDRAWAL' | 'REFUND' | 'CHARGEBACK';
+  type:
+    | 'TICKET_SALE'
+    | 'WITHDRAWAL'
+    | 'REFUND'
+    | 'CHARGEBACK'
+    | 'ADJUSTMENT'
+    | 'COMP'
+    | 'RESALE_ROYALTY'
+    | 'RESALE_FEE'
+    | 'CHARGEBACK_FEE';
   amount: number;
   description: string;
   createdAt: string;
@@ -44,13 +57,18 @@ export default function PaymentHistoryPage() {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
 
   const fetchPaymentHistory = async (isRefresh = false) => {
     try {
       if (isRefresh) setRefreshing(true);
       else setLoading(true);
-      const data = await api.getPaymentHistory();
+      const [data, disputeList] = await Promise.all([
+        api.getPaymentHistory(),
+        api.getOrganizerDisputes().catch(() => []),
+      ]);
       setEntries(data.entries || []);
+      setDisputes(disputeList || []);
     } catch (err) {
       console.error('Failed to fetch payment history:', err);
     } finally {
@@ -86,13 +104,15 @@ export default function PaymentHistoryPage() {
   // The ledger is the SINGLE SOURCE OF TRUTH for all financial data
   // Ledger amounts are already the correct values:
   // - TICKET_SALE.credit = organizer's net earnings (amount received - platform fee)
+  // - RESALE_ROYALTY.credit = organizer's cut of a ticket resale
   // - WITHDRAWAL.debit = amount withdrawn
   // - REFUND.debit = amount refunded
   // - CHARGEBACK.debit = amount charged back
+  // - ADJUSTMENT.credit = money given back, e.g. a failed refund or a won dispute
   
   // Use credit/debit columns if available, fallback to amount for older entries
   const totalCredits = entries
-    .filter(e => e.type === 'TICKET_SALE')
+    .filter(e => e.type === 'TICKET_SALE' || e.type === 'RESALE_ROYALTY')
     .reduce((sum, e: any) => sum + Math.abs(Number(e.credit) || Number(e.amount) || 0), 0);
   
   const totalWithdrawals = entries
@@ -107,7 +127,11 @@ export default function PaymentHistoryPage() {
     .filter(e => e.type === 'CHARGEBACK')
     .reduce((sum, e: any) => sum + Math.abs(Number(e.debit) || Number(e.amount) || 0), 0);
 
-  const totalAdjustments = totalRefunds + totalChargebacks;
+  const totalReversals = entries
+    .filter(e => e.type === 'ADJUSTMENT')
+    .reduce((sum, e: any) => sum + (Number(e.credit) || 0) - (Number(e.debit) || 0), 0);
+
+  const totalAdjustments = totalRefunds + totalChargebacks - totalReversals;
 
   // Your earnings = total credits from ticket sales
   // Available balance = earnings - adjustments - withdrawals
@@ -152,6 +176,51 @@ export default function PaymentHistoryPage() {
           amountColor: 'text-orange-600',
           prefix: '-'
         };
+      case 'ADJUSTMENT':
+        return { 
+          icon: ArrowDownRight, 
+          color: 'bg-green-500/10 text-green-600', 
+          badge: 'success' as const,
+          label: 'Adjustment',
+          amountColor: 'text-green-600',
+          prefix: '+'
+        };
+      case 'RESALE_ROYALTY':
+        return { 
+          icon: Repeat, 
+          color: 'bg-green-500/10 text-green-600', 
+          badge: 'success' as const,
+          label: 'Resale Royalty',
+          amountColor: 'text-green-600',
+          prefix: '+'
+        };
+      case 'RESALE_FEE':
+        return { 
+          icon: Repeat, 
+          color: 'bg-gray-500/10 text-gray-600', 
+          badge: 'secondary' as const,
+          label: 'Resale Fee (paid by seller)',
+          amountColor: 'text-muted-foreground',
+          prefix: ''
+        };
+      case 'CHARGEBACK_FEE':
+        return { 
+          icon: AlertCircle, 
+          color: 'bg-gray-500/10 text-gray-600', 
+          badge: 'secondary' as const,
+          label: 'Chargeback (platform share)',
+          amountColor: 'text-muted-foreground',
+          prefix: ''
+        };
+      case 'COMP':
+        return { 
+          icon: Gift, 
+          color: 'bg-pink-500/10 text-pink-600', 
+          badge: 'secondary' as const,
+          label: 'Comp Tickets',
+          amountColor: 'text-muted-foreground',
+          prefix: ''
+        };
       default:
         return { 
           icon: Receipt, 
@@ -264,6 +333,73 @@ export default function PaymentHistoryPage() {
           </Card>
         </div>
 
+        {availableBalance < 0 && (
+          <div className="flex items-start gap-2 p-3 mb-3 rounded-lg border border-orange-500/20 bg-orange-500/10">
+            <AlertCircle className="h-4 w-4 text-orange-600 mt-0.5" />
+            <p className="text-sm text-orange-700">
+              Your balance is negative because of a chargeback. It will be recovered from your next
+              ticket sales before you can withdraw again.
+            </p>
+          </div>
+        )}
+
+        {/* Disputes */}
+        {disputes.length > 0 && (
+          <Card className="mb-4">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Scale className="h-4 w-4 text-orange-600" />
+                Disputes
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="divide-y divide-border">
+                {disputes.map((dispute) => (
+                  <div key={dispute.id} className="flex items-center gap-4 p-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-sm truncate">{dispute.payment?.event?.title}</p>
+                        <Badge
+                          variant={
+                            dispute.status === 'WON'
+                              ? 'success'
+                              : dispute.status === 'LOST'
+                                ? 'destructive'
+                                : 'warning'
+                          }
+                          className="text-xs"
+                        >
+                          {dispute.status}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate mt-0.5">
+                        {dispute.payment?.reference} • {dispute.reason}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Opened {formatDate(dispute.createdAt)}
+                        {dispute.resolvedAt && ` • resolved ${formatDate(dispute.resolvedAt)}`}
+                        {dispute.resolutionNote && ` • ${dispute.resolutionNote}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold text-orange-600">
+                        {formatCurrency(Number(dispute.amount))}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {dispute.status === 'OPEN'
+                          ? 'Held while the bank decides'
+                          : dispute.status === 'WON'
+                            ? 'Credited back to you'
+                            : 'Returned to the buyer'}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Search and Filters */}
         <div className="flex flex-col sm:flex-row gap-4 mb-4">
           <div className="relative flex-1">
@@ -285,6 +421,8 @@ export default function PaymentHistoryPage() {
             <option value="WITHDRAWAL">Withdrawals</option>
             <option value="REFUND">Refunds</option>
             <option value="CHARGEBACK">Chargebacks</option>
+            <option value="ADJUSTMENT">Adjustments</option>
+            <option value="RESALE_ROYALTY">Resale Royalties</option>
           </select>
         </div>
 
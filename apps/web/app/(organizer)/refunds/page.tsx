@@ -11,16 +11,19 @@ import { api } from '@/lib/api-client';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency, formatDate } from '@/lib/utils';
+import type { RefundStatus } from '@/types';
 import { RotateCcw, CheckCircle2, XCircle, Clock, AlertCircle, X } from 'lucide-react';
 
 interface Refund {
   id: string;
   createdAt: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'PROCESSED';
+  status: RefundStatus;
   reason: string;
   refundAmount: number;
   processedAt?: string;
+  completedAt?: string;
   rejectionNote?: string;
+  failureReason?: string;
   ticket: {
     ticketNumber: string;
     event: {
@@ -47,7 +50,7 @@ export default function OrganizerRefundsPage() {
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [rejectDialog, setRejectDialog] = useState<{ id: string; ticketNumber: string } | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
-  const [filter, setFilter] = useState<'all' | 'PENDING' | 'APPROVED' | 'REJECTED' | 'PROCESSED'>('all');
+  const [filter, setFilter] = useState<RefundStatus | 'all'>('all');
 
   const fetchRefunds = async () => {
     try {
@@ -69,11 +72,12 @@ export default function OrganizerRefundsPage() {
   const handleApprove = async (refundId: string) => {
     try {
       setActionLoading(refundId);
-      await api.approveRefund(refundId);
-      success('Refund approved successfully!');
+      const result = await api.approveRefund(refundId);
+      success(result.message || 'Refund approved successfully!');
       await fetchRefunds();
     } catch (err: any) {
       error(err.message || 'Failed to approve refund');
+      await fetchRefunds();
     } finally {
       setActionLoading(null);
     }
@@ -140,7 +144,7 @@ export default function OrganizerRefundsPage() {
 
           {/* Filter Tabs */}
           <div className="flex gap-2 mb-6 overflow-x-auto pb-1 scrollbar-hide">
-            {['all', 'PENDING', 'APPROVED', 'PROCESSED', 'REJECTED'].map((f) => {
+            {['all', 'PENDING', 'PROCESSING', 'PROCESSED', 'FAILED', 'REJECTED'].map((f) => {
               const count = f === 'all' ? refunds.length : refunds.filter(r => r.status === f).length;
               return (
                 <Button
@@ -198,14 +202,16 @@ export default function OrganizerRefundsPage() {
                             <h3 className="font-semibold">{refund.ticket.event.title}</h3>
                             <Badge
                               variant={
-                                refund.status === 'APPROVED' || refund.status === 'PROCESSED'
+                                refund.status === 'PROCESSED'
                                   ? 'success'
-                                  : refund.status === 'REJECTED'
+                                  : refund.status === 'APPROVED' || refund.status === 'PROCESSING'
+                                  ? 'default'
+                                  : refund.status === 'REJECTED' || refund.status === 'FAILED'
                                   ? 'destructive'
                                   : 'secondary'
                               }
                             >
-                              {refund.status === 'PROCESSED' ? 'PROCESSED' : refund.status}
+                              {refund.status}
                             </Badge>
                           </div>
                           <p className="text-sm text-muted-foreground">
@@ -261,17 +267,29 @@ export default function OrganizerRefundsPage() {
                         </div>
                       )}
 
-                      {refund.status === 'APPROVED' && (
+                      {(refund.status === 'APPROVED' || refund.status === 'PROCESSING') && (
                         <div className="flex items-center gap-2 text-sm text-muted-foreground pt-2">
                           <Clock className="h-4 w-4" />
-                          <span>Approved • Pending processing by admin</span>
+                          <span>Approved • Waiting for the payment provider to confirm</span>
+                        </div>
+                      )}
+
+                      {refund.status === 'FAILED' && (
+                        <div className="p-3 bg-destructive/10 rounded-lg border border-destructive/20">
+                          <p className="text-sm font-medium mb-1 text-destructive">
+                            The payment provider couldn&apos;t complete this refund
+                          </p>
+                          <p className="text-sm text-destructive/80">
+                            {refund.failureReason ? `${refund.failureReason}. ` : ''}
+                            The amount is back in your balance and the ticket is active until our team retries it.
+                          </p>
                         </div>
                       )}
 
                       {refund.status === 'PROCESSED' && refund.processedAt && (
                         <div className="flex items-center gap-2 text-sm text-green-600 pt-2">
                           <CheckCircle2 className="h-4 w-4" />
-                          <span>Processed on {formatDate(refund.processedAt)}</span>
+                          <span>Processed on {formatDate(refund.completedAt || refund.processedAt)}</span>
                         </div>
                       )}
                     </div>
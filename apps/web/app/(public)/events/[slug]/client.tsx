@@ -9,6 +9,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { PageLoader } from '@/components/ui/spinner';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Header } from '@/components/layouts/header';
 import { Footer } from '@/components/layouts/footer';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
@@ -16,16 +17,76 @@ import { api } from '@/lib/api-client';
 import { formatDate, formatCurrency, cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth-store';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, MapPin, Globe, Ticket, Users, Clock, Share2, Heart, Loader2, Info, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react';
+import { Calendar, MapPin, Globe, Ticket, Users, Clock, Share2, Heart, Loader2, Info, ExternalLink, ChevronDown, ChevronUp, Minus, Plus, ShoppingCart, X, BellRing, KeyRound, Repeat, ClipboardList } from 'lucide-react';
 import { Countdown } from '@/components/ui/countdown';
 import { MapPreviewDialog } from '@/components/ui/map-preview-dialog';
-import type { Event } from '@/types';
+import type {
+  Event,
+  PublicResaleListing,
+  RegistrationAnswerInput,
+  RegistrationQuestion,
+  WaitlistOffer,
+} from '@/types';
 
 interface Props {
   slug: string;
   initialEvent: Event | null;
 }
 
+// Hold expiry is a real instant (not an event wall-clock time), so show it in the buyer's local time
+function formatHoldTime(date: string) {
+  return new Date(date).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+// Waitlist offers last hours rather than minutes, so include the day
+function formatOfferExpiry(date: string) {
+  return new Date(date).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+}
+
+const MULTI_VALUE_QUESTION_TYPES = ['MULTI_SELECT', 'DIETARY'];
+
+// One answer field in the questions step - per-ticket questions get a field for every ticket
+interface QuestionField {
+  key: string;
+  label: string;
+  question: RegistrationQuestion;
+  tierId?: string;
+  ticketIndex?: number;
+}
+
+// The questions asked for what's being bought, in the organizer's order
+function getQuestionFields(
+  questions: RegistrationQuestion[],
+  lines: { tierId: string; tierName: string; quantity: number }[]
+): QuestionField[] {
+  const fields: QuestionField[] = [];
+  for (const question of questions) {
+    const askedLines = lines.filter(
+      (line) => question.tiers.length === 0 || question.tiers.some((tier) => tier.id === line.tierId)
+    );
+    if (askedLines.length === 0) continue;
+
+    if (!question.perTicket) {
+      fields.push({ key: question.id, label: question.label, question });
+      continue;
+    }
+    for (const line of askedLines) {
+      for (let ticketIndex = 0; ticketIndex < line.quantity; ticketIndex++) {
+        fields.push({
+          key: `${question.id}:${line.tierId}:${ticketIndex}`,
+          label: line.quantity > 1 || askedLines.length > 1
+            ? `${question.label} (${line.tierName} ticket ${ticketIndex + 1})`
+            : question.label,
+          question,
+          tierId: line.tierId,
+          ticketIndex,
+        });
+      }
+    }
+  }
+  return fields;
+}
+
 // Collapsible About Section component - prevents long descriptions from making page too long on mobile
 function AboutSection({ description }: { description: string | null }) {
   const [isExpanded, setIsExpanded] = useState(false);
@@ -75,7 +136,7 @@ function AboutSection({ description }: { description: string | null }) {
 
 export function EventDetailClient({ slug, initialEvent }: Props) {
   const router = useRouter();
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, user } = useAuthStore();
   const { error, success } = useToast();
   const [event, setEvent] = useState<Event | null>(initialEvent);
   const [loading, setLoading] = useState(!initialEvent);
@@ -83,16 +144,48 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
   const [showMapDialog, setShowMapDialog] = useState(false);
   const [checkoutDialog, setCheckoutDialog] = useState<{
     open: boolean;
-    tierId: string;
-    tierName: string;
-    tierPrice: number;
+    items: { name: string; quantity: number; unitPrice: number }[];
     serviceFee: number;
     totalAmount: number;
     authorizationUrl: string;
+    holdExpiresAt?: string; // Tickets are reserved for the buyer until this time
+    discountAmount?: number;
+    promoCode?: string | null;
   } | null>(null);
   const [processingCheckout, setProcessingCheckout] = useState(false);
-  const [guestEmailDialog, setGuestEmailDialog] = useState<{ tierId: string; tierName: string } | null>(null);
+  // tierId is null when the guest is checking out the whole cart (or a resale listing)
+  const [guestEmailDialog, setGuestEmailDialog] = useState<{
+    tierId: string | null;
+    tierName: string;
+    listingId?: string;
+  } | null>(null);
   const [guestEmail, setGuestEmail] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  // Cart for buying several tiers in one payment: tierId -> quantity
+  const [cart, setCart] = useState<Record<string, number>>({});
+  // Promo code entered by the buyer - checked up front, enforced again at checkout
+  const [promoInput, setPromoInput] = useState('');
+  const [promoCode, setPromoCode] = useState<{ code: string; message: string } | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  // Seats reserved for this buyer by a waitlist offer link (?waitlist=<token>)
+  const [waitlistOffer, setWaitlistOffer] = useState<(WaitlistOffer & { token: string }) | null>(null);
+  const [waitlistDialog, setWaitlistDialog] = useState<{ tierId: string; tierName: string } | null>(null);
+  const [waitlistForm, setWaitlistForm] = useState({ email: '', firstName: '', quantity: 1 });
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  // Access code unlocking hidden tiers - typed in or from a private link (?access=<code>)
+  const [accessInput, setAccessInput] = useState('');
+  const [accessCode, setAccessCode] = useState<{ code: string; label: string | null } | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  // Tickets other attendees are reselling, if the organizer allows resale
+  const [resaleListings, setResaleListings] = useState<PublicResaleListing[]>([]);
+  // Registration questions answered before payment - tierId is null for the whole cart.
+  // Answers are kept by field, so they survive going back and trying again.
+  const [questionsDialog, setQuestionsDialog] = useState<{
+    tierId: string | null;
+    email?: string;
+    fields: QuestionField[];
+  } | null>(null);
+  const [questionAnswers, setQuestionAnswers] = useState<Record<string, string[]>>({});
 
   useEffect(() => {
     if (!initialEvent) {
@@ -110,7 +203,62 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
     }
   }, [slug, initialEvent]);
 
-  const refetchEvent = async () => {
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('waitlist');
+    if (!token) return;
+
+    api
+      .getWaitlistOffer(token)
+      .then((offer) => {
+        setWaitlistOffer({ ...offer, token });
+        setGuestEmail(offer.email);
+      })
+      .catch((err: any) => error(err.message || 'This waitlist offer is no longer available'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!event?.id || !event.resaleEnabled) return;
+    api
+      .getResaleListings(event.id)
+      .then(setResaleListings)
+      .catch(() => setResaleListings([]));
+  }, [event?.id, event?.resaleEnabled]);
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('access');
+    if (!code || !event?.id || accessCode) return;
+    handleUnlock(code);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event?.id]);
+
+  const handleUnlock = async (input: string = accessInput) => {
+    const code = input.trim().toUpperCase();
+    if (!code || !event) return;
+
+    setUnlocking(true);
+    try {
+      const result = await api.unlockTiers(event.id, code);
+      // The event page only includes hidden tiers when asked with the code
+      const data = await api.getEventBySlug(slug, false, result.code);
+      setEvent(data);
+      setAccessCode({ code: result.code, label: result.label });
+      setAccessInput('');
+    } catch (err: any) {
+      error(err.message || 'Invalid access code');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleRemoveAccessCode = async () => {
+    setAccessCode(null);
+    // Drop the unlocked tiers from the page and the cart
+    setCart((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([tierId]) => !event?.tiers?.find((t) => t.id === tierId)?.isHidden)
+      )
+    );
     try {
       const data = await api.getEventBySlug(slug);
       setEvent(data);
@@ -119,7 +267,47 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
     }
   };
 
-  const handlePurchase = async (tierId: string, email?: string) => {
+  const openWaitlistDialog = (tierId: string, tierName: string) => {
+    setWaitlistForm((prev) => ({
+      email: prev.email || user?.email || '',
+      firstName: prev.firstName || user?.firstName || '',
+      quantity: quantities[tierId] || 1,
+    }));
+    setWaitlistDialog({ tierId, tierName });
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!waitlistDialog || !event) return;
+    setJoiningWaitlist(true);
+    try {
+      const response = await api.joinWaitlist({
+        eventId: event.id,
+        tierId: waitlistDialog.tierId,
+        email: waitlistForm.email.trim(),
+        firstName: waitlistForm.firstName.trim() || undefined,
+        quantity: waitlistForm.quantity,
+      });
+      success(response.message);
+      setWaitlistDialog(null);
+    } catch (err: any) {
+      error(err.message || 'Failed to join the waitlist');
+      // Seats may have freed up since the page loaded
+      await refetchEvent();
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  const refetchEvent = async () => {
+    try {
+      const data = await api.getEventBySlug(slug, false, accessCode?.code);
+      setEvent(data);
+    } catch (err) {
+      console.error('Failed to refetch event:', err);
+    }
+  };
+
+  const handlePurchase = async (tierId: string, email?: string, answers?: RegistrationAnswerInput[]) => {
     // For guests, show email dialog first
     if (!isAuthenticated && !email) {
       const tier = event!.tiers?.find(t => t.id === tierId);
@@ -127,15 +315,39 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
       return;
     }
 
-    console.log('[Payment] Starting purchase flow', { tierId, email, eventId: event?.id, isAuthenticated });
+    const quantity = quantities[tierId] || 1;
+
+    // Then the organizer's registration questions, if any are asked for this tier
+    if (!answers) {
+      const tier = event!.tiers?.find(t => t.id === tierId);
+      const fields = getQuestionFields(event!.questions || [], [
+        { tierId, tierName: tier?.name || 'Ticket', quantity },
+      ]);
+      if (fields.length > 0) {
+        setQuestionsDialog({ tierId, email, fields });
+        return;
+      }
+    }
+
+    console.log('[Payment] Starting purchase flow', { tierId, email, quantity, eventId: event?.id, isAuthenticated });
     setPurchasing(tierId);
     try {
-      const response = await api.initializePayment(event!.id, tierId, email);
+      const response = await api.initializePayment(
+        event!.id,
+        tierId,
+        email,
+        quantity,
+        promoCode?.code,
+        waitlistOffer?.tierId === tierId ? waitlistOffer.token : undefined,
+        accessCode?.code,
+        answers
+      );
       console.log('[Payment] API response received', response);
       
       // Handle free tickets - no payment gateway needed
       if (response.isFree) {
         success(response.message || 'Free ticket claimed successfully!');
+        setWaitlistOffer(null);
         // Refetch event data to update ticket counts before redirecting
         await refetchEvent();
         // Redirect to tickets page
@@ -146,20 +358,22 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
       // For paid tickets, redirect to payment gateway
       if (response.authorizationUrl) {
         const tier = event!.tiers?.find(t => t.id === tierId);
-        const tierPrice = response.tierPrice || Number(tier?.price) || 0;
+        const tierPrice = response.tierPrice || Number(tier?.currentPrice ?? tier?.price) || 0;
         const serviceFee = response.serviceFee || 0;
-        const totalAmount = response.totalAmount || tierPrice;
+        const totalAmount = response.totalAmount || tierPrice * quantity;
+        const discountAmount = response.breakdown?.discountAmount || 0;
         
-        // If there's a service fee, show confirmation dialog
-        if (serviceFee > 0) {
+        // If there's a service fee, a discount or several tickets, show confirmation dialog
+        if (serviceFee > 0 || discountAmount > 0 || quantity > 1) {
           setCheckoutDialog({
             open: true,
-            tierId,
-            tierName: tier?.name || 'Ticket',
-            tierPrice,
+            items: [{ name: tier?.name || 'Ticket', quantity: response.quantity || quantity, unitPrice: tierPrice }],
             serviceFee,
             totalAmount,
             authorizationUrl: response.authorizationUrl,
+            holdExpiresAt: response.holdExpiresAt,
+            discountAmount,
+            promoCode: response.breakdown?.promoCode,
           });
         } else {
           // No service fee, redirect directly to payment gateway
@@ -180,6 +394,177 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
     }
   };
 
+  const cartItems = Object.entries(cart)
+    .map(([tierId, quantity]) => ({ tier: event?.tiers?.find((t) => t.id === tierId), tierId, quantity }))
+    .filter((item) => item.tier && item.quantity > 0);
+  const cartQuantity = cartItems.reduce((sum, item) => sum + item.quantity, 0);
+  const cartSubtotal = cartItems.reduce(
+    (sum, item) => sum + Number(item.tier!.currentPrice ?? item.tier!.price) * item.quantity,
+    0
+  );
+
+  const addToCart = (tierId: string, quantity: number, maxQuantity: number) => {
+    setCart((prev) => ({ ...prev, [tierId]: Math.min((prev[tierId] || 0) + quantity, maxQuantity) }));
+  };
+
+  const removeFromCart = (tierId: string) => {
+    setCart((prev) => {
+      const next = { ...prev };
+      delete next[tierId];
+      return next;
+    });
+  };
+
+  const handleCartCheckout = async (email?: string, answers?: RegistrationAnswerInput[]) => {
+    if (cartItems.length === 0) return;
+
+    // For guests, show email dialog first
+    if (!isAuthenticated && !email) {
+      setGuestEmailDialog({ tierId: null, tierName: `${cartQuantity} ticket${cartQuantity === 1 ? '' : 's'}` });
+      return;
+    }
+
+    if (!answers) {
+      const fields = getQuestionFields(
+        event!.questions || [],
+        cartItems.map((item) => ({ tierId: item.tierId, tierName: item.tier!.name, quantity: item.quantity }))
+      );
+      if (fields.length > 0) {
+        setQuestionsDialog({ tierId: null, email, fields });
+        return;
+      }
+    }
+
+    setPurchasing('cart');
+    try {
+      const response = await api.initializeCartPayment(
+        event!.id,
+        cartItems.map((item) => ({ tierId: item.tierId, quantity: item.quantity })),
+        email,
+        promoCode?.code,
+        accessCode?.code,
+        answers,
+      );
+
+      if (response.isFree) {
+        success(response.message || 'Free tickets claimed successfully!');
+        setCart({});
+        await refetchEvent();
+        router.push('/tickets');
+        return;
+      }
+
+      if (!response.authorizationUrl) {
+        throw new Error('Payment initialization failed - no authorization URL received');
+      }
+
+      setCheckoutDialog({
+        open: true,
+        items: response.breakdown.items.map((item) => ({
+          name: item.tierName,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        })),
+        serviceFee: response.serviceFee || 0,
+        totalAmount: response.totalAmount || response.breakdown.totalAmount,
+        authorizationUrl: response.authorizationUrl,
+        holdExpiresAt: response.holdExpiresAt,
+        discountAmount: response.breakdown.discountAmount,
+        promoCode: response.breakdown.promoCode,
+      });
+    } catch (err: any) {
+      console.error('Cart payment initialization error:', err);
+      error(err.message || 'Failed to initialize payment. Please try again.');
+      setCheckoutDialog(null);
+    } finally {
+      setPurchasing(null);
+    }
+  };
+
+  const handleBuyResale = async (listing: PublicResaleListing, email?: string) => {
+    // For guests, show email dialog first
+    if (!isAuthenticated && !email) {
+      setGuestEmailDialog({ tierId: null, tierName: `${listing.tierName} (resale)`, listingId: listing.id });
+      return;
+    }
+
+    setPurchasing(listing.id);
+    try {
+      const response = await api.purchaseResaleListing(listing.id, email);
+      if (!response.authorizationUrl) {
+        throw new Error('Payment initialization failed - no authorization URL received');
+      }
+      window.location.href = response.authorizationUrl;
+    } catch (err: any) {
+      error(err.message || 'Failed to start checkout. Please try again.');
+      // The listing may have just been bought or reserved by someone else
+      if (event?.id) {
+        api.getResaleListings(event.id).then(setResaleListings).catch(() => undefined);
+      }
+    } finally {
+      setPurchasing(null);
+    }
+  };
+
+  const setQuestionAnswer = (key: string, values: string[]) => {
+    setQuestionAnswers((prev) => ({ ...prev, [key]: values }));
+  };
+
+  const questionAnswerValues = (key: string) =>
+    (questionAnswers[key] || []).map((value) => value.trim()).filter(Boolean);
+
+  const missingRequiredAnswer = !!questionsDialog?.fields.some(
+    (field) => field.question.required && questionAnswerValues(field.key).length === 0
+  );
+
+  const handleSubmitAnswers = async () => {
+    if (!questionsDialog) return;
+    const { tierId, email, fields } = questionsDialog;
+    const answers = fields
+      .map((field) => ({
+        questionId: field.question.id,
+        tierId: field.tierId,
+        ticketIndex: field.ticketIndex,
+        values: questionAnswerValues(field.key),
+      }))
+      .filter((answer) => answer.values.length > 0);
+
+    setQuestionsDialog(null);
+    if (tierId) {
+      await handlePurchase(tierId, email, answers);
+    } else {
+      await handleCartCheckout(email, answers);
+    }
+  };
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code || !event) return;
+
+    // Check against the cart if there is one, otherwise against every tier on sale
+    const items =
+      cartItems.length > 0
+        ? cartItems.map((item) => ({ tierId: item.tierId, quantity: item.quantity }))
+        : (event.tiers || []).map((tier) => ({ tierId: tier.id, quantity: quantities[tier.id] || 1 }));
+
+    setApplyingPromo(true);
+    try {
+      const result = await api.validatePromoCode(event.id, code, items);
+      setPromoCode({
+        code: result.code,
+        message:
+          cartItems.length > 0
+            ? `${result.code} applied - you save ${formatCurrency(result.discountAmount)}`
+            : `${result.code} applied - discount shown at checkout`,
+      });
+      setPromoInput('');
+    } catch (err: any) {
+      error(err.message || 'Invalid promo code');
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
+
   const handleConfirmCheckout = () => {
     if (checkoutDialog?.authorizationUrl) {
       setProcessingCheckout(true);
@@ -247,9 +632,29 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
     const soldOut = tier.sold >= tier.capacity;
     const percentSold = (tier.sold / tier.capacity) * 100;
     const salesEnded = tier.saleEndDate && new Date(tier.saleEndDate) < new Date();
-    const isUnavailable = soldOut || salesEnded;
+    const salesNotStarted = tier.saleStartDate && new Date(tier.saleStartDate) > new Date();
+    // Seats held by buyers still completing checkout aren't on sale right now,
+    // except the ones a waitlist offer is holding for this buyer
+    const offeredSeats = waitlistOffer && waitlistOffer.tierId === tier.id ? waitlistOffer.quantity : 0;
+    const available = (tier.available ?? tier.capacity - tier.sold) + offeredSeats;
+    const allHeld = !soldOut && available <= 0;
+    const isUnavailable = soldOut || salesEnded || salesNotStarted || allHeld;
+    // Sold-out tiers take names for when seats free up (refunds, expired checkouts, more capacity)
+    const canJoinWaitlist = (soldOut || allHeld) && !salesEnded && !salesNotStarted;
     const hideProgress = event?.hideTicketSalesProgress;
-    const isFree = Number(tier.price) === 0;
+    // Early bird / phased pricing: the API works out today's price
+    const price = Number(tier.currentPrice ?? tier.price);
+    const phase = tier.currentPhase;
+    const isFree = price === 0;
+    // Buyers can pick several tickets per order, up to the event limit, what's left
+    // and how many are left at the current phase price
+    const maxQuantity = Math.max(
+      1,
+      Math.min(event?.maxTicketsPerOrder || 10, available, phase?.remaining ?? Infinity)
+    );
+    const quantity = Math.min(quantities[tier.id] || 1, maxQuantity);
+    const setQuantity = (value: number) =>
+      setQuantities((prev) => ({ ...prev, [tier.id]: Math.min(Math.max(1, value), maxQuantity) }));
     
     return (
       <div 
@@ -268,14 +673,36 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
               {isFree && (
                 <Badge className="bg-green-500 text-white text-[10px] px-1.5 py-0 flex-shrink-0">FREE</Badge>
               )}
+              {tier.isHidden && (
+                <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-primary/40 text-primary flex-shrink-0">
+                  Unlocked
+                </Badge>
+              )}
             </div>
             <span className={cn(
               "font-display font-bold text-sm flex-shrink-0",
               isFree && "text-green-600"
             )}>
-              {isFree ? 'Free' : formatCurrency(tier.price)}
+              {isFree ? 'Free' : formatCurrency(price)}
             </span>
           </div>
+
+          {/* Current price phase, e.g. "Early Bird · ₦8,000 from 1 Mar" */}
+          {phase && !isUnavailable && (
+            <div className="flex items-center gap-1 mt-1 text-[11px] text-primary min-w-0">
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 border-primary/40 text-primary flex-shrink-0">
+                {phase.name || 'Special price'}
+              </Badge>
+              <span className="truncate">
+                {phase.remaining !== null
+                  ? `${phase.remaining} left at this price`
+                  : phase.endsAt
+                    ? `until ${formatDate(phase.endsAt, 'short')}`
+                    : null}
+                {phase.nextPrice !== null && phase.nextPrice !== price && ` · then ${formatCurrency(phase.nextPrice)}`}
+              </span>
+            </div>
+          )}
           
           {/* Description - single line only on mobile */}
           {tier.description && (
@@ -288,6 +715,16 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
             <div className="flex items-center gap-1 text-xs min-w-0 flex-shrink">
               {salesEnded ? (
                 <Badge variant="secondary" className="text-[10px]">Sales Ended</Badge>
+              ) : salesNotStarted ? (
+                <div className="flex items-center gap-1 text-blue-600 dark:text-blue-400 truncate">
+                  <Clock className="w-3 h-3 flex-shrink-0" />
+                  <Countdown 
+                    targetDate={tier.saleStartDate} 
+                    prefix="Opens in"
+                    expiredText="On sale now"
+                    compact
+                  />
+                </div>
               ) : tier.saleEndDate ? (
                 <div className="flex items-center gap-1 text-orange-600 dark:text-orange-400 truncate">
                   <Clock className="w-3 h-3 flex-shrink-0" />
@@ -298,8 +735,14 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
                     compact
                   />
                 </div>
+              ) : allHeld ? (
+                <span className="text-muted-foreground truncate">
+                  {tier.nextHoldReleaseAt
+                    ? `Reserved · check back after ${formatHoldTime(tier.nextHoldReleaseAt)}`
+                    : 'Reserved by other buyers'}
+                </span>
               ) : !hideProgress ? (
-                <span className="text-muted-foreground">{tier.capacity - tier.sold} left</span>
+                <span className="text-muted-foreground">{available} left</span>
               ) : null}
             </div>
             
@@ -322,11 +765,58 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
         </div>
         
         {/* CTA Button - fixed at bottom with its own padding */}
-        <div className="px-3 pb-3">
+        <div className="px-3 pb-3 flex items-center gap-2">
+          {!isUnavailable && (event?.tiers?.length || 0) > 1 && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-9 w-9 p-0 flex-shrink-0"
+              onClick={() => addToCart(tier.id, quantity, maxQuantity)}
+              disabled={purchasing !== null || (cart[tier.id] || 0) >= maxQuantity}
+              aria-label="Add to cart"
+              title="Add to cart"
+            >
+              <ShoppingCart className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          {!isUnavailable && maxQuantity > 1 && (
+            <div className="flex items-center border rounded-md h-9 flex-shrink-0">
+              <button
+                type="button"
+                className="px-2 h-full text-muted-foreground hover:text-foreground disabled:opacity-40"
+                onClick={() => setQuantity(quantity - 1)}
+                disabled={quantity <= 1 || purchasing === tier.id}
+                aria-label="Decrease quantity"
+              >
+                <Minus className="w-3 h-3" />
+              </button>
+              <span className="w-6 text-center text-xs font-medium">{quantity}</span>
+              <button
+                type="button"
+                className="px-2 h-full text-muted-foreground hover:text-foreground disabled:opacity-40"
+                onClick={() => setQuantity(quantity + 1)}
+                disabled={quantity >= maxQuantity || purchasing === tier.id}
+                aria-label="Increase quantity"
+              >
+                <Plus className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+          {canJoinWaitlist ? (
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 h-9 text-xs font-medium"
+              onClick={() => openWaitlistDialog(tier.id, tier.name)}
+            >
+              <BellRing className="w-3 h-3 mr-1.5" />
+              {soldOut ? 'Sold Out · Join Waitlist' : 'All Reserved · Join Waitlist'}
+            </Button>
+          ) : (
           <Button 
             size="sm"
             className={cn(
-              "w-full h-9 text-xs font-medium",
+              "flex-1 h-9 text-xs font-medium",
               isFree && !isUnavailable && "bg-green-600 hover:bg-green-700"
             )}
             disabled={isUnavailable || purchasing === tier.id}
@@ -336,14 +826,19 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
               <><Loader2 className="w-3 h-3 mr-1.5 animate-spin" />Processing...</>
             ) : salesEnded ? (
               'Sales Ended'
+            ) : salesNotStarted ? (
+              'Not On Sale Yet'
             ) : soldOut ? (
               'Sold Out'
+            ) : allHeld ? (
+              'All Reserved'
             ) : isFree ? (
-              'Claim Free Ticket'
+              quantity > 1 ? `Claim ${quantity} Free Tickets` : 'Claim Free Ticket'
             ) : (
-              'Get Ticket'
+              quantity > 1 ? `Get ${quantity} Tickets` : 'Get Ticket'
             )}
           </Button>
+          )}
         </div>
       </div>
     );
@@ -529,9 +1024,168 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
                       </div>
                     ) : (
                       <>
+                        {/* Waitlist offer from the emailed link */}
+                        {waitlistOffer && (
+                          <div className="flex items-start gap-2 text-xs border border-primary/30 bg-primary/5 rounded-lg px-3 py-2">
+                            <BellRing className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+                            <span>
+                              {waitlistOffer.quantity} {waitlistOffer.tierName} ticket{waitlistOffer.quantity === 1 ? ' is' : 's are'} reserved
+                              for {waitlistOffer.email} until {formatOfferExpiry(waitlistOffer.offerExpiresAt)}.
+                            </span>
+                          </div>
+                        )}
+
                         {event.tiers?.map((tier) => (
                           <TicketTierCard key={tier.id} tier={tier} />
                         ))}
+
+                        {/* Resale marketplace */}
+                        {resaleListings.length > 0 && (
+                          <div className="border rounded-lg p-3 space-y-2">
+                            <p className="text-sm font-semibold flex items-center gap-1.5">
+                              <Repeat className="w-4 h-4 text-primary" />
+                              Resale Tickets
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Sold by other attendees at or below the price they paid. You get a brand-new ticket.
+                            </p>
+                            {resaleListings.map((listing) => (
+                              <div key={listing.id} className="flex items-center justify-between gap-2 text-xs">
+                                <span className="truncate">{listing.tierName}</span>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                  <span className="font-medium">{formatCurrency(Number(listing.price))}</span>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-7 text-xs"
+                                    onClick={() => handleBuyResale(listing)}
+                                    disabled={purchasing !== null}
+                                  >
+                                    {purchasing === listing.id ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Buy'}
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* Promo code */}
+                        {promoCode ? (
+                          <div className="flex items-center justify-between gap-2 text-xs border border-green-200 bg-green-50/50 dark:bg-green-950/20 rounded-lg px-3 py-2">
+                            <span className="text-green-700 dark:text-green-400 truncate">{promoCode.message}</span>
+                            <button
+                              type="button"
+                              className="text-muted-foreground hover:text-foreground flex-shrink-0"
+                              onClick={() => setPromoCode(null)}
+                              disabled={purchasing !== null}
+                              aria-label="Remove promo code"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={promoInput}
+                              onChange={(e) => setPromoInput(e.target.value)}
+                              onKeyDown={(e) => e.key === 'Enter' && handleApplyPromo()}
+                              placeholder="Promo code"
+                              className="h-9 text-xs uppercase"
+                              maxLength={30}
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-9 text-xs flex-shrink-0"
+                              onClick={handleApplyPromo}
+                              disabled={!promoInput.trim() || applyingPromo}
+                            >
+                              {applyingPromo ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Apply'}
+                            </Button>
+                          </div>
+                        )}
+
+                        {/* Access code for hidden tiers */}
+                        {accessCode ? (
+                          <div className="flex items-center justify-between gap-2 text-xs border border-primary/30 bg-primary/5 rounded-lg px-3 py-2">
+                            <span className="flex items-center gap-1.5 truncate">
+                              <KeyRound className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+                              {accessCode.label || accessCode.code} unlocked
+                            </span>
+                            <button
+                              type="button"
+                              className="text-muted-foreground hover:text-foreground flex-shrink-0"
+                              onClick={handleRemoveAccessCode}
+                              disabled={purchasing !== null}
+                              aria-label="Remove access code"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={accessInput}
+                              onChange={(e) => setAccessInput(e.target.value)}
+                              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                              placeholder="Access code"
+                              className="h-9 text-xs uppercase"
+                              maxLength={30}
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-9 text-xs flex-shrink-0"
+                              onClick={() => handleUnlock()}
+                              disabled={!accessInput.trim() || unlocking}
+                            >
+                              {unlocking ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Unlock'}
+                            </Button>
+                          </div>
+                        )}
+
+                        {/* Cart - several tiers in one payment */}
+                        {cartItems.length > 0 && (
+                          <div className="border rounded-lg p-3 space-y-2 bg-muted/30">
+                            <p className="text-sm font-semibold flex items-center gap-1.5">
+                              <ShoppingCart className="w-4 h-4" />
+                              Your Cart
+                            </p>
+                            {cartItems.map((item) => (
+                              <div key={item.tierId} className="flex items-center justify-between gap-2 text-xs">
+                                <span className="truncate">{item.tier!.name} × {item.quantity}</span>
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                  <span>{formatCurrency(Number(item.tier!.currentPrice ?? item.tier!.price) * item.quantity)}</span>
+                                  <button
+                                    type="button"
+                                    className="text-muted-foreground hover:text-foreground"
+                                    onClick={() => removeFromCart(item.tierId)}
+                                    disabled={purchasing !== null}
+                                    aria-label={`Remove ${item.tier!.name}`}
+                                  >
+                                    <X className="w-3 h-3" />
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                            <div className="flex justify-between text-sm font-medium border-t pt-2">
+                              <span>Subtotal</span>
+                              <span>{formatCurrency(cartSubtotal)}</span>
+                            </div>
+                            <Button
+                              size="sm"
+                              className="w-full h-9 text-xs font-medium"
+                              onClick={() => handleCartCheckout()}
+                              disabled={purchasing !== null}
+                            >
+                              {purchasing === 'cart' ? (
+                                <><Loader2 className="w-3 h-3 mr-1.5 animate-spin" />Processing...</>
+                              ) : (
+                                `Checkout ${cartQuantity} Ticket${cartQuantity === 1 ? '' : 's'}`
+                              )}
+                            </Button>
+                          </div>
+                        )}
                         
                         {/* Scroll indicator on mobile if there's more content below */}
                         <div className="flex items-center justify-center pt-1 lg:hidden text-muted-foreground">
@@ -565,20 +1219,34 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
             <div className="space-y-4">
               {/* Ticket Info */}
               <div className="p-4 bg-muted/50 rounded-lg">
-                <p className="font-medium">{checkoutDialog.tierName}</p>
+                <p className="font-medium">{checkoutDialog.items.map((item) => item.name).join(', ')}</p>
                 <p className="text-sm text-muted-foreground">{event?.title}</p>
               </div>
 
               {/* Price Breakdown */}
               <div className="space-y-2">
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Ticket Price</span>
-                  <span>{formatCurrency(checkoutDialog.tierPrice)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Service Fee</span>
-                  <span>{formatCurrency(checkoutDialog.serviceFee)}</span>
-                </div>
+                {checkoutDialog.items.map((item) => (
+                  <div key={item.name} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {checkoutDialog.items.length > 1 || item.quantity > 1
+                        ? `${item.name} (${item.quantity} × ${formatCurrency(item.unitPrice)})`
+                        : 'Ticket Price'}
+                    </span>
+                    <span>{formatCurrency(item.unitPrice * item.quantity)}</span>
+                  </div>
+                ))}
+                {(checkoutDialog.discountAmount || 0) > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Discount{checkoutDialog.promoCode ? ` (${checkoutDialog.promoCode})` : ''}</span>
+                    <span>-{formatCurrency(checkoutDialog.discountAmount || 0)}</span>
+                  </div>
+                )}
+                {checkoutDialog.serviceFee > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Service Fee</span>
+                    <span>{formatCurrency(checkoutDialog.serviceFee)}</span>
+                  </div>
+                )}
                 <div className="border-t pt-2 mt-2">
                   <div className="flex justify-between font-semibold">
                     <span>Total</span>
@@ -592,6 +1260,8 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
                 <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
                 <span>
                   You will be redirected to our secure payment gateway to complete your payment.
+                  {checkoutDialog.holdExpiresAt &&
+                    ` Your tickets are reserved until ${formatHoldTime(checkoutDialog.holdExpiresAt)}.`}
                 </span>
               </div>
             </div>
@@ -615,6 +1285,93 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
         </DialogContent>
       </Dialog>
 
+      {/* Registration Questions Dialog */}
+      <Dialog open={!!questionsDialog} onOpenChange={(open) => !open && setQuestionsDialog(null)}>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ClipboardList className="w-5 h-5" />
+              A Few Questions
+            </DialogTitle>
+            <DialogDescription>
+              {event?.organizer?.title || 'The organizer'} asks these before you pay.
+            </DialogDescription>
+          </DialogHeader>
+
+          {questionsDialog && (
+            <div className="space-y-4">
+              {questionsDialog.fields.map((field) => {
+                const values = questionAnswers[field.key] || [];
+                const inputId = `question-${field.key}`;
+                return (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={inputId}>
+                      {field.label}
+                      {field.question.required && <span className="text-destructive"> *</span>}
+                    </Label>
+                    {field.question.type === 'TEXT' ? (
+                      <Input
+                        id={inputId}
+                        value={values[0] || ''}
+                        maxLength={500}
+                        onChange={(e) => setQuestionAnswer(field.key, [e.target.value])}
+                      />
+                    ) : MULTI_VALUE_QUESTION_TYPES.includes(field.question.type) ? (
+                      <div className="grid grid-cols-2 gap-2">
+                        {field.question.options.map((option) => (
+                          <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={values.includes(option)}
+                              onCheckedChange={(checked) =>
+                                setQuestionAnswer(
+                                  field.key,
+                                  checked ? [...values, option] : values.filter((value) => value !== option)
+                                )
+                              }
+                            />
+                            {option}
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <select
+                        id={inputId}
+                        value={values[0] || ''}
+                        onChange={(e) => setQuestionAnswer(field.key, e.target.value ? [e.target.value] : [])}
+                        className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                      >
+                        <option value="">Choose...</option>
+                        {field.question.options.map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setQuestionsDialog(null)} disabled={purchasing !== null}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitAnswers} disabled={missingRequiredAnswer || purchasing !== null}>
+              {purchasing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Processing...
+                </>
+              ) : (
+                'Continue to Payment'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Guest Email Dialog */}
       <Dialog open={!!guestEmailDialog} onOpenChange={(open) => !open && setGuestEmailDialog(null)}>
         <DialogContent className="sm:max-w-md">
@@ -665,11 +1422,18 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
                 if (guestEmail && guestEmailDialog) {
                   // Capture values before closing dialog
                   const tierId = guestEmailDialog.tierId;
+                  const listing = resaleListings.find((l) => l.id === guestEmailDialog.listingId);
                   const email = guestEmail.trim();
                   // Close dialog first
                   setGuestEmailDialog(null);
                   // Then process payment with captured values
-                  await handlePurchase(tierId, email);
+                  if (listing) {
+                    await handleBuyResale(listing, email);
+                  } else if (tierId) {
+                    await handlePurchase(tierId, email);
+                  } else {
+                    await handleCartCheckout(email);
+                  }
                 }
               }}
               disabled={!guestEmail || !/\S+@\S+\.\S+/.test(guestEmail) || purchasing !== null}
@@ -687,6 +1451,96 @@ export function EventDetailClient({ slug, initialEvent }: Props) {
         </DialogContent>
       </Dialog>
 
+      {/* Waitlist Dialog */}
+      <Dialog open={!!waitlistDialog} onOpenChange={(open) => !open && setWaitlistDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <BellRing className="w-5 h-5" />
+              Join the Waitlist
+            </DialogTitle>
+            <DialogDescription>
+              If tickets free up we'll reserve them for you and email you a link to buy them.
+            </DialogDescription>
+          </DialogHeader>
+
+          {waitlistDialog && (
+            <div className="space-y-4">
+              <div className="p-4 bg-muted/50 rounded-lg">
+                <p className="font-medium">{waitlistDialog.tierName}</p>
+                <p className="text-sm text-muted-foreground">{event?.title}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="waitlist-email">Email Address</Label>
+                <Input
+                  id="waitlist-email"
+                  type="email"
+                  placeholder="your@email.com"
+                  value={waitlistForm.email}
+                  onChange={(e) => setWaitlistForm((prev) => ({ ...prev, email: e.target.value }))}
+                  autoFocus
+                />
+              </div>
+
+              <div className="grid grid-cols-[1fr_100px] gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="waitlist-first-name">First Name (Optional)</Label>
+                  <Input
+                    id="waitlist-first-name"
+                    value={waitlistForm.firstName}
+                    onChange={(e) => setWaitlistForm((prev) => ({ ...prev, firstName: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="waitlist-quantity">Tickets</Label>
+                  <Input
+                    id="waitlist-quantity"
+                    type="number"
+                    min={1}
+                    max={event?.maxTicketsPerOrder || 10}
+                    value={waitlistForm.quantity}
+                    onChange={(e) =>
+                      setWaitlistForm((prev) => ({
+                        ...prev,
+                        quantity: Math.min(
+                          Math.max(1, parseInt(e.target.value, 10) || 1),
+                          event?.maxTicketsPerOrder || 10
+                        ),
+                      }))
+                    }
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Offers go out in the order people joined. If fewer tickets free up than you asked for,
+                you'll be offered what's available.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaitlistDialog(null)} disabled={joiningWaitlist}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleJoinWaitlist}
+              disabled={!/\S+@\S+\.\S+/.test(waitlistForm.email) || joiningWaitlist}
+            >
+              {joiningWaitlist ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Joining...
+                </>
+              ) : (
+                'Join Waitlist'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Map Preview Dialog */}
       {event && !event.isOnline && event.isLocationPublic !== false && event.location && (
         <MapPreviewDialog
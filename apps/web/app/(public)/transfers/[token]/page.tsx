@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { api } from '@/lib/api-client';
+import { formatDate } from '@/lib/utils';
+import { Loader2, CheckCircle2, XCircle, Gift, Calendar, MapPin, Ticket } from 'lucide-react';
+import type { TransferOffer } from '@/types';
+
+export default function AcceptTransferPage() {
+  const { token } = useParams();
+  const [offer, setOffer] = useState<TransferOffer | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [accepted, setAccepted] = useState<{ ticketNumber: string; hasAccount: boolean; message: string } | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    const fetchOffer = async () => {
+      try {
+        setOffer(await api.getTransferOffer(token as string));
+      } catch (err: any) {
+        setErrorMessage(err.message || 'This transfer link is not valid.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchOffer();
+  }, [token]);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    try {
+      setAccepted(await api.acceptTransfer(token as string));
+    } catch (err: any) {
+      setErrorMessage(err.message || 'Failed to accept the ticket.');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const unavailableMessage = (status: TransferOffer['status']) => {
+    switch (status) {
+      case 'ACCEPTED':
+        return 'This ticket has already been accepted. Check your email for it.';
+      case 'CANCELLED':
+        return 'The sender cancelled this transfer.';
+      case 'EXPIRED':
+        return 'This transfer has expired. Ask the sender to transfer the ticket again.';
+      default:
+        return '';
+    }
+  };
+
+  const failure = errorMessage || (offer && offer.status !== 'PENDING' && !accepted ? unavailableMessage(offer.status) : '');
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 to-purple-500/5 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-center flex items-center justify-center gap-2">
+            {loading ? (
+              <>
+                <Loader2 className="w-6 h-6 animate-spin" />
+                Loading Ticket
+              </>
+            ) : accepted ? (
+              <>
+                <CheckCircle2 className="w-6 h-6 text-green-500" />
+                Ticket Accepted
+              </>
+            ) : failure ? (
+              <>
+                <XCircle className="w-6 h-6 text-red-500" />
+                Transfer Unavailable
+              </>
+            ) : (
+              <>
+                <Gift className="w-6 h-6 text-primary" />
+                You&apos;ve Been Sent a Ticket
+              </>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {offer && !loading && (
+            <div className="p-4 rounded-lg bg-muted/50 space-y-2 text-sm">
+              <p className="font-semibold text-base">{offer.eventTitle}</p>
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <Ticket className="h-4 w-4 text-primary" />
+                {offer.tierName} ticket from {offer.fromName}
+              </p>
+              {offer.eventDate && (
+                <p className="flex items-center gap-2 text-muted-foreground">
+                  <Calendar className="h-4 w-4 text-primary" />
+                  {formatDate(offer.eventDate)}
+                </p>
+              )}
+              {offer.eventLocation && (
+                <p className="flex items-center gap-2 text-muted-foreground">
+                  <MapPin className="h-4 w-4 text-primary" />
+                  {offer.eventLocation}
+                </p>
+              )}
+            </div>
+          )}
+
+          {accepted ? (
+            <div className="text-center space-y-4">
+              <div className="p-4 bg-green-50 dark:bg-green-950/30 rounded-lg">
+                <p className="text-green-700 dark:text-green-300">{accepted.message}</p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Ticket Number: <span className="font-mono font-semibold">{accepted.ticketNumber}</span>
+                </p>
+              </div>
+              {accepted.hasAccount ? (
+                <Link href="/tickets">
+                  <Button className="w-full">View My Tickets</Button>
+                </Link>
+              ) : (
+                <Link href="/signup">
+                  <Button variant="outline" className="w-full">
+                    Create an account to keep your tickets in one place
+                  </Button>
+                </Link>
+              )}
+            </div>
+          ) : failure ? (
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">{failure}</p>
+              <Link href="/events">
+                <Button variant="outline" className="w-full">Browse Events</Button>
+              </Link>
+            </div>
+          ) : offer ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground text-center">
+                Accept before {new Date(offer.expiresAt).toLocaleString()}. We&apos;ll email the ticket
+                with a new QR code to {offer.toEmail}.
+              </p>
+              <Button onClick={handleAccept} disabled={accepting} className="w-full">
+                {accepting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Accepting...
+                  </>
+                ) : (
+                  'Accept Ticket'
+                )}
+              </Button>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,597 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Sidebar } from '@/components/layouts/sidebar';
+import { api } from '@/lib/api-client';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import type { Dispute, DisputeStatus } from '@/types';
+import {
+  Scale,
+  Plus,
+  RefreshCw,
+  ChevronDown,
+  ChevronUp,
+  Paperclip,
+  CheckCircle2,
+  XCircle,
+  X,
+} from 'lucide-react';
+
+const STATUS_FILTERS: Array<DisputeStatus | 'all'> = ['all', 'OPEN', 'WON', 'LOST'];
+
+const statusBadgeVariant = (status: DisputeStatus) => {
+  switch (status) {
+    case 'WON':
+      return 'success';
+    case 'LOST':
+      return 'destructive';
+    default:
+      return 'warning';
+  }
+};
+
+const emptyOpenForm = {
+  paymentReference: '',
+  reason: '',
+  amount: '',
+  providerCaseRef: '',
+  evidenceDueAt: '',
+};
+
+export default function AdminDisputesPage() {
+  const { isLoading: authLoading } = useAuth(true, ['ADMIN']);
+  const { success, error } = useToast();
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<DisputeStatus, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<DisputeStatus | 'all'>('OPEN');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, Dispute>>({});
+  const [showOpenDialog, setShowOpenDialog] = useState(false);
+  const [openForm, setOpenForm] = useState(emptyOpenForm);
+  const [opening, setOpening] = useState(false);
+  const [evidenceText, setEvidenceText] = useState('');
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [addingEvidence, setAddingEvidence] = useState(false);
+  const [resolveDialog, setResolveDialog] = useState<{ dispute: Dispute; outcome: 'WON' | 'LOST' } | null>(
+    null,
+  );
+  const [resolutionNote, setResolutionNote] = useState('');
+  const [resolving, setResolving] = useState(false);
+
+  const fetchDisputes = async (isRefresh = false) => {
+    try {
+      if (isRefresh) setRefreshing(true);
+      else setLoading(true);
+      const data = await api.getAdminDisputes(page, 20, statusFilter);
+      setDisputes(data.disputes || []);
+      setCounts(data.counts || {});
+      setTotalPages(data.totalPages || 1);
+    } catch (err: any) {
+      error(err.message || 'Failed to load disputes');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!authLoading) fetchDisputes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authLoading, page, statusFilter]);
+
+  const loadDetails = async (id: string) => {
+    try {
+      const detail = await api.getAdminDispute(id);
+      setDetails((prev) => ({ ...prev, [id]: detail }));
+    } catch (err: any) {
+      error(err.message || 'Failed to load dispute');
+    }
+  };
+
+  const toggleDetails = async (id: string) => {
+    setEvidenceText('');
+    setEvidenceFile(null);
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(id);
+    if (!details[id]) await loadDetails(id);
+  };
+
+  const handleOpenDispute = async () => {
+    try {
+      setOpening(true);
+      await api.openDispute({
+        paymentReference: openForm.paymentReference.trim(),
+        reason: openForm.reason.trim(),
+        amount: openForm.amount ? Number(openForm.amount) : undefined,
+        providerCaseRef: openForm.providerCaseRef.trim() || undefined,
+        evidenceDueAt: openForm.evidenceDueAt
+          ? new Date(openForm.evidenceDueAt).toISOString()
+          : undefined,
+      });
+      success('Dispute opened. The tickets are frozen and the organizer has been debited.');
+      setShowOpenDialog(false);
+      setOpenForm(emptyOpenForm);
+      await fetchDisputes(true);
+    } catch (err: any) {
+      error(err.message || 'Failed to open dispute');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const handleAddEvidence = async (id: string) => {
+    try {
+      setAddingEvidence(true);
+      let fileUrl: string | undefined;
+      if (evidenceFile) {
+        const upload = await api.uploadImage(evidenceFile, 'disputes');
+        fileUrl = upload.url;
+      }
+      await api.addDisputeEvidence(id, {
+        description: evidenceText.trim(),
+        fileUrl,
+        fileName: evidenceFile?.name,
+      });
+      success('Evidence added');
+      setEvidenceText('');
+      setEvidenceFile(null);
+      await loadDetails(id);
+      await fetchDisputes(true);
+    } catch (err: any) {
+      error(err.message || 'Failed to add evidence');
+    } finally {
+      setAddingEvidence(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!resolveDialog) return;
+    const { dispute, outcome } = resolveDialog;
+
+    try {
+      setResolving(true);
+      const resolved = await api.resolveDispute(dispute.id, outcome, resolutionNote.trim() || undefined);
+      success(
+        outcome === 'WON'
+          ? 'Dispute won. The tickets are active again and the organizer has been credited.'
+          : 'Dispute lost. The tickets have been cancelled.',
+      );
+      setDetails((prev) => ({ ...prev, [dispute.id]: resolved }));
+      setResolveDialog(null);
+      setResolutionNote('');
+      await fetchDisputes(true);
+    } catch (err: any) {
+      error(err.message || 'Failed to resolve dispute');
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen">
+        <Sidebar type="admin" />
+        <main className="flex-1 p-4 pt-20 lg:p-8 lg:pt-8 bg-bg">
+          <Skeleton className="h-8 w-32 mb-6" />
+          <Skeleton className="h-96 w-full" />
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar type="admin" />
+      <main className="flex-1 p-4 pt-20 lg:p-8 lg:pt-8 bg-bg overflow-x-hidden">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold">Disputes</h1>
+              <p className="text-muted-foreground">
+                Chargebacks raised by buyers with their bank. Opening one freezes the tickets and
+                debits the organizer until it is resolved.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => fetchDisputes(true)} loading={refreshing}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+              <Button onClick={() => setShowOpenDialog(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Open Dispute
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto mb-6">
+            {STATUS_FILTERS.map((f) => (
+              <Button
+                key={f}
+                variant={statusFilter === f ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => {
+                  setPage(1);
+                  setStatusFilter(f);
+                }}
+                className="whitespace-nowrap"
+              >
+                {f === 'all' ? 'All' : f.charAt(0) + f.slice(1).toLowerCase()}
+                {f !== 'all' && counts[f] ? ` (${counts[f]})` : ''}
+              </Button>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Disputes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-4">
+                  {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-20 w-full" />
+                  ))}
+                </div>
+              ) : disputes.length === 0 ? (
+                <div className="text-center py-12">
+                  <Scale className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                  <h3 className="text-lg font-semibold mb-2">No disputes found</h3>
+                  <p className="text-muted-foreground">No disputes match your filter</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {disputes.map((dispute) => {
+                    const detail = details[dispute.id];
+                    const expanded = expandedId === dispute.id;
+
+                    return (
+                      <div key={dispute.id} className="border rounded-lg p-4 space-y-3">
+                        <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 mb-1 flex-wrap">
+                              <h3 className="font-semibold font-mono text-sm">
+                                {dispute.payment?.reference}
+                              </h3>
+                              <Badge variant={statusBadgeVariant(dispute.status)}>{dispute.status}</Badge>
+                              {dispute.payment?.provider && (
+                                <Badge variant="outline">{dispute.payment.provider}</Badge>
+                              )}
+                            </div>
+                            <p className="text-sm">
+                              {formatCurrency(Number(dispute.amount))} • {dispute.organizer?.title}
+                              {dispute.payment?.buyerEmail && ` • ${dispute.payment.buyerEmail}`}
+                            </p>
+                            <p className="text-sm text-muted-foreground break-words">{dispute.reason}</p>
+                            <p className="text-xs text-muted-foreground">
+                              Opened {formatDate(dispute.createdAt)}
+                              {dispute.providerCaseRef && ` • case ${dispute.providerCaseRef}`}
+                              {dispute.status === 'OPEN' &&
+                                dispute.evidenceDueAt &&
+                                ` • evidence due ${formatDate(dispute.evidenceDueAt)}`}
+                              {` • ${dispute._count?.evidence || 0} evidence item${dispute._count?.evidence === 1 ? '' : 's'}`}
+                              {dispute.resolvedAt && ` • resolved ${formatDate(dispute.resolvedAt)}`}
+                            </p>
+                          </div>
+                          <div className="flex gap-2 flex-wrap">
+                            {dispute.status === 'OPEN' && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  onClick={() => setResolveDialog({ dispute, outcome: 'WON' })}
+                                >
+                                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                                  Won
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="destructive"
+                                  onClick={() => setResolveDialog({ dispute, outcome: 'LOST' })}
+                                >
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Lost
+                                </Button>
+                              </>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => toggleDetails(dispute.id)}>
+                              {expanded ? (
+                                <ChevronUp className="h-4 w-4 mr-2" />
+                              ) : (
+                                <ChevronDown className="h-4 w-4 mr-2" />
+                              )}
+                              Details
+                            </Button>
+                          </div>
+                        </div>
+
+                        {dispute.resolutionNote && (
+                          <div className="p-3 bg-muted/50 rounded-lg">
+                            <p className="text-sm font-medium mb-1">Resolution note:</p>
+                            <p className="text-sm text-muted-foreground break-words">
+                              {dispute.resolutionNote}
+                            </p>
+                          </div>
+                        )}
+
+                        {expanded && (
+                          <div className="space-y-4">
+                            {!detail ? (
+                              <Skeleton className="h-40 w-full" />
+                            ) : (
+                              <>
+                                <div>
+                                  <p className="text-sm font-medium mb-1">
+                                    Tickets • {detail.payment?.event?.title}
+                                  </p>
+                                  <div className="flex gap-2 flex-wrap">
+                                    {detail.payment?.tickets?.map((ticket) => (
+                                      <Badge key={ticket.id} variant="outline">
+                                        #{ticket.ticketNumber} - {ticket.status}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                </div>
+
+                                <div>
+                                  <p className="text-sm font-medium mb-2">Evidence</p>
+                                  {detail.evidence?.length ? (
+                                    <div className="space-y-2">
+                                      {detail.evidence.map((item) => (
+                                        <div key={item.id} className="p-3 bg-muted/50 rounded-lg">
+                                          <p className="text-sm break-words">{item.description}</p>
+                                          <p className="text-xs text-muted-foreground">
+                                            Added {formatDate(item.createdAt)}
+                                            {item.fileUrl && (
+                                              <>
+                                                {' • '}
+                                                <a
+                                                  href={item.fileUrl}
+                                                  target="_blank"
+                                                  rel="noopener noreferrer"
+                                                  className="text-primary hover:underline"
+                                                >
+                                                  {item.fileName || 'Attachment'}
+                                                </a>
+                                              </>
+                                            )}
+                                          </p>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  ) : (
+                                    <p className="text-sm text-muted-foreground">No evidence yet</p>
+                                  )}
+                                </div>
+
+                                {detail.status === 'OPEN' && (
+                                  <div className="space-y-2">
+                                    <Textarea
+                                      value={evidenceText}
+                                      onChange={(e) => setEvidenceText(e.target.value)}
+                                      placeholder="Describe the evidence, e.g. the ticket was scanned at the gate..."
+                                      rows={3}
+                                    />
+                                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                      <Input
+                                        type="file"
+                                        accept="image/*"
+                                        onChange={(e) => setEvidenceFile(e.target.files?.[0] || null)}
+                                        className="sm:max-w-xs"
+                                      />
+                                      <Button
+                                        size="sm"
+                                        loading={addingEvidence}
+                                        disabled={!evidenceText.trim()}
+                                        onClick={() => handleAddEvidence(dispute.id)}
+                                      >
+                                        <Paperclip className="h-4 w-4 mr-2" />
+                                        Add Evidence
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex justify-center gap-2 mt-6">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page === 1}
+                  >
+                    Previous
+                  </Button>
+                  <span className="flex items-center px-4 text-sm">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                    disabled={page === totalPages}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Open Dispute Dialog */}
+          {showOpenDialog && (
+            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+              <div className="bg-card p-6 rounded-lg shadow-lg max-w-md w-full">
+                <div className="flex justify-between items-start mb-4">
+                  <h3 className="text-lg font-semibold flex items-center gap-2">
+                    <Scale className="h-5 w-5 text-primary" />
+                    Open Dispute
+                  </h3>
+                  <button
+                    onClick={() => setShowOpenDialog(false)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <div className="space-y-3 mb-4">
+                  <div>
+                    <Label htmlFor="paymentReference">Payment reference</Label>
+                    <Input
+                      id="paymentReference"
+                      value={openForm.paymentReference}
+                      onChange={(e) => setOpenForm({ ...openForm, paymentReference: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="reason">Reason</Label>
+                    <Textarea
+                      id="reason"
+                      value={openForm.reason}
+                      onChange={(e) => setOpenForm({ ...openForm, reason: e.target.value })}
+                      placeholder="Reason given by the buyer's bank"
+                      rows={3}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="amount">Amount (leave blank for the full payment)</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      min="1"
+                      value={openForm.amount}
+                      onChange={(e) => setOpenForm({ ...openForm, amount: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="providerCaseRef">Gateway case reference</Label>
+                    <Input
+                      id="providerCaseRef"
+                      value={openForm.providerCaseRef}
+                      onChange={(e) => setOpenForm({ ...openForm, providerCaseRef: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="evidenceDueAt">Evidence due</Label>
+                    <Input
+                      id="evidenceDueAt"
+                      type="datetime-local"
+                      value={openForm.evidenceDueAt}
+                      onChange={(e) => setOpenForm({ ...openForm, evidenceDueAt: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <p className="text-xs text-muted-foreground mb-4">
+                  The payment&apos;s tickets will be frozen and the organizer debited, even if this
+                  takes their balance below zero.
+                </p>
+
+                <div className="flex gap-3 justify-end">
+                  <Button variant="outline" onClick={() => setShowOpenDialog(false)} disabled={opening}>
+                    Cancel
+                  </Button>
+                  <Button
+                    loading={opening}
+                    onClick={handleOpenDispute}
+                    disabled={!openForm.paymentReference.trim() || !openForm.reason.trim()}
+                  >
+                    Open Dispute
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Resolve Dialog */}
+          {resolveDialog && (
+            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+              <div className="bg-card p-6 rounded-lg shadow-lg max-w-md w-full">
+                <div className="flex justify-between items-start mb-4">
+                  <h3 className="text-lg font-semibold flex items-center gap-2">
+                    {resolveDialog.outcome === 'WON' ? (
+                      <CheckCircle2 className="h-5 w-5 text-green-600" />
+                    ) : (
+                      <XCircle className="h-5 w-5 text-destructive" />
+                    )}
+                    Mark Dispute {resolveDialog.outcome === 'WON' ? 'Won' : 'Lost'}
+                  </h3>
+                  <button
+                    onClick={() => {
+                      setResolveDialog(null);
+                      setResolutionNote('');
+                    }}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <p className="text-sm text-muted-foreground mb-4">
+                  {resolveDialog.outcome === 'WON'
+                    ? `The tickets on ${resolveDialog.dispute.payment?.reference} become active again and the organizer is credited ${formatCurrency(Number(resolveDialog.dispute.amount))}.`
+                    : `The tickets on ${resolveDialog.dispute.payment?.reference} are cancelled. The organizer stays debited.`}
+                </p>
+
+                <Textarea
+                  value={resolutionNote}
+                  onChange={(e) => setResolutionNote(e.target.value)}
+                  placeholder="Optional note for the organizer..."
+                  className="mb-4"
+                  rows={3}
+                />
+
+                <div className="flex gap-3 justify-end">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setResolveDialog(null);
+                      setResolutionNote('');
+                    }}
+                    disabled={resolving}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant={resolveDialog.outcome === 'WON' ? 'default' : 'destructive'}
+                    loading={resolving}
+                    onClick={handleResolve}
+                  >
+                    Confirm
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -20,11 +20,13 @@ import {
   Bug
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { PaymentGateway } from '@/types';
 
 interface PendingPayment {
   id: string;
   reference: string;
-  monnifyTransactionRef: string | null;
+  provider: PaymentGateway;
+  providerTransactionRef: string | null;
   amount: number;
   buyerEmail: string;
   eventTitle: string;
@@ -321,9 +323,10 @@ export default function AdminPaymentsPage() {
                                 {formatCurrency(payment.amount)}
                               </span>
                             </div>
-                            {payment.monnifyTransactionRef && (
+                            {payment.providerTransactionRef && (
                               <p className="text-xs text-muted-foreground mt-1">
-                                Monnify Ref: {payment.monnifyTransactionRef}
+                                {payment.provider === 'PAYSTACK' ? 'Paystack' : 'Monnify'} Ref:{' '}
+                                {payment.providerTransactionRef}
                               </p>
                             )}
                           </div>
@@ -387,7 +390,7 @@ export default function AdminPaymentsPage() {
                   </p>
                   <p className="text-blue-700 dark:text-blue-200">
                     The system automatically checks for stuck payments every 10 minutes.
-                    Payments older than 5 minutes are verified with Monnify and processed if successful.
+                    Payments older than 5 minutes are verified with their payment provider and processed if successful.
                     Use manual verification for immediate recovery.
                   </p>
                 </div>
@@ -12,17 +12,32 @@ import { api } from '@/lib/api-client';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { formatCurrency, formatDate } from '@/lib/utils';
-import { RotateCcw, CheckCircle2, XCircle, DollarSign, AlertCircle, X, Search, TrendingUp } from 'lucide-react';
+import type { RefundStatus } from '@/types';
+import {
+  RotateCcw,
+  CheckCircle2,
+  XCircle,
+  DollarSign,
+  AlertCircle,
+  AlertTriangle,
+  Clock,
+  X,
+  Search,
+  TrendingUp,
+} from 'lucide-react';
 
 interface Refund {
   id: string;
   createdAt: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'PROCESSED';
+  status: RefundStatus;
   reason: string;
   refundAmount: number;
   processedAt?: string;
   processedBy?: string;
   rejectionNote?: string;
+  failureReason?: string;
+  attempts: number;
+  completedAt?: string;
   ticket: {
     ticketNumber: string;
     event: {
@@ -53,15 +68,17 @@ export default function AdminRefundsPage() {
   const [rejectDialog, setRejectDialog] = useState<{ id: string; ticketNumber: string } | null>(null);
   const [rejectionReason, setRejectionReason] = useState('');
   const [processDialog, setProcessDialog] = useState<{ id: string; amount: number } | null>(null);
-  const [filter, setFilter] = useState<'all' | 'PENDING' | 'APPROVED' | 'REJECTED' | 'PROCESSED'>('all');
+  const [filter, setFilter] = useState<RefundStatus | 'all'>('all');
+  const [counts, setCounts] = useState<Partial<Record<RefundStatus, number>>>({});
   const [searchTerm, setSearchTerm] = useState('');
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
 
   const fetchRefunds = async () => {
     try {
-      const data = await api.getAdminRefunds(page, 20);
+      const data = await api.getAdminRefunds(page, 20, filter);
       setRefunds(data.refunds || []);
+      setCounts(data.counts || {});
       setTotalPages(data.totalPages || 1);
     } catch (err) {
       console.error('Failed to fetch refunds:', err);
@@ -74,7 +91,7 @@ export default function AdminRefundsPage() {
     if (!authLoading) {
       fetchRefunds();
     }
-  }, [authLoading, page]);
+  }, [authLoading, page, filter]);
 
   const handleApprove = async (refundId: string) => {
     try {
@@ -125,6 +142,20 @@ export default function AdminRefundsPage() {
     }
   };
 
+  const handleRetry = async (refundId: string) => {
+    try {
+      setActionLoading(refundId);
+      const result = await api.retryRefund(refundId);
+      success(result.message);
+      await fetchRefunds();
+    } catch (err: any) {
+      error(err.message || 'Failed to retry refund');
+      await fetchRefunds();
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   if (authLoading) {
     return (
       <div className="flex min-h-screen">
@@ -137,21 +168,24 @@ export default function AdminRefundsPage() {
   }
 
   const filteredRefunds = refunds.filter(r => {
-    const matchesFilter = filter === 'all' || r.status === filter;
-    const matchesSearch = searchTerm === '' ||
+    return searchTerm === '' ||
       r.ticket.ticketNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
       r.ticket.event.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
       r.requester.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
       r.ticket.event.organizer.title.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesFilter && matchesSearch;
   });
 
+  // Counts cover every refund, not just the page loaded
   const stats = {
-    pending: refunds.filter(r => r.status === 'PENDING').length,
-    approved: refunds.filter(r => r.status === 'APPROVED').length,
-    processed: refunds.filter(r => r.status === 'PROCESSED').length,
-    rejected: refunds.filter(r => r.status === 'REJECTED').length,
-    totalAmount: refunds.reduce((sum, r) => sum + (r.status !== 'REJECTED' ? Number(r.refundAmount) : 0), 0),
+    pending: counts.PENDING || 0,
+    processing: (counts.APPROVED || 0) + (counts.PROCESSING || 0),
+    processed: counts.PROCESSED || 0,
+    failed: counts.FAILED || 0,
+    rejected: counts.REJECTED || 0,
+    totalAmount: refunds.reduce(
+      (sum, r) => sum + (r.status !== 'REJECTED' && r.status !== 'FAILED' ? Number(r.refundAmount) : 0),
+      0,
+    ),
   };
 
   return (
@@ -170,7 +204,7 @@ export default function AdminRefundsPage() {
           </div>
 
           {/* Stats Cards */}
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5 mb-6">
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6 mb-6">
             <Card>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
@@ -189,11 +223,11 @@ export default function AdminRefundsPage() {
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm text-muted-foreground">Approved</p>
-                    <p className="text-2xl font-bold">{stats.approved}</p>
+                    <p className="text-sm text-muted-foreground">Processing</p>
+                    <p className="text-2xl font-bold">{stats.processing}</p>
                   </div>
                   <div className="p-3 bg-blue-100 dark:bg-blue-900/30 rounded-full">
-                    <CheckCircle2 className="h-5 w-5 text-blue-600" />
+                    <Clock className="h-5 w-5 text-blue-600" />
                   </div>
                 </div>
               </CardContent>
@@ -213,6 +247,20 @@ export default function AdminRefundsPage() {
               </CardContent>
             </Card>
 
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Failed</p>
+                    <p className="text-2xl font-bold">{stats.failed}</p>
+                  </div>
+                  <div className="p-3 bg-orange-100 dark:bg-orange-900/30 rounded-full">
+                    <AlertTriangle className="h-5 w-5 text-orange-600" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
             <Card>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
@@ -254,15 +302,19 @@ export default function AdminRefundsPage() {
               />
             </div>
             <div className="flex gap-2 overflow-x-auto">
-              {['all', 'PENDING', 'APPROVED', 'PROCESSED', 'REJECTED'].map((f) => (
+              {['all', 'PENDING', 'PROCESSING', 'PROCESSED', 'FAILED', 'REJECTED'].map((f) => (
                 <Button
                   key={f}
                   variant={filter === f ? 'default' : 'outline'}
                   size="sm"
-                  onClick={() => setFilter(f as any)}
+                  onClick={() => {
+                    setPage(1);
+                    setFilter(f as RefundStatus | 'all');
+                  }}
                   className="whitespace-nowrap"
                 >
                   {f === 'all' ? 'All' : f.charAt(0) + f.slice(1).toLowerCase()}
+                  {f === 'FAILED' && stats.failed > 0 ? ` (${stats.failed})` : ''}
                 </Button>
               ))}
             </div>
@@ -300,9 +352,9 @@ export default function AdminRefundsPage() {
                               variant={
                                 refund.status === 'PROCESSED'
                                   ? 'success'
-                                  : refund.status === 'APPROVED'
+                                  : refund.status === 'APPROVED' || refund.status === 'PROCESSING'
                                   ? 'default'
-                                  : refund.status === 'REJECTED'
+                                  : refund.status === 'REJECTED' || refund.status === 'FAILED'
                                   ? 'destructive'
                                   : 'secondary'
                               }
@@ -342,6 +394,15 @@ export default function AdminRefundsPage() {
                         </div>
                       )}
 
+                      {refund.status === 'FAILED' && refund.failureReason && (
+                        <div className="p-3 bg-destructive/10 rounded-lg border border-destructive/20">
+                          <p className="text-sm font-medium mb-1 text-destructive">
+                            Gateway error{refund.attempts > 1 ? ` (after ${refund.attempts} attempts)` : ''}:
+                          </p>
+                          <p className="text-sm text-destructive/80">{refund.failureReason}</p>
+                        </div>
+                      )}
+
                       <div className="flex gap-2 pt-2 flex-wrap">
                         {refund.status === 'PENDING' && (
                           <>
@@ -380,10 +441,29 @@ export default function AdminRefundsPage() {
                           </Button>
                         )}
 
+                        {refund.status === 'FAILED' && (
+                          <Button
+                            size="sm"
+                            variant="default"
+                            loading={actionLoading === refund.id}
+                            onClick={() => handleRetry(refund.id)}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Retry Refund
+                          </Button>
+                        )}
+
+                        {refund.status === 'PROCESSING' && (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Clock className="h-4 w-4" />
+                            <span>Waiting for the payment provider to confirm</span>
+                          </div>
+                        )}
+
                         {refund.status === 'PROCESSED' && refund.processedAt && (
                           <div className="flex items-center gap-2 text-sm text-green-600">
                             <CheckCircle2 className="h-4 w-4" />
-                            <span>Processed on {formatDate(refund.processedAt)}</span>
+                            <span>Processed on {formatDate(refund.completedAt || refund.processedAt)}</span>
                             {refund.processedBy && <span>by {refund.processedBy}</span>}
                           </div>
                         )}
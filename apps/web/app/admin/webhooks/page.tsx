@@ -0,0 +1,363 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { Sidebar } from '@/components/layouts/sidebar';
+import { api } from '@/lib/api-client';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import type {
+  PaymentGateway,
+  WebhookDelivery,
+  WebhookDeliveryDetail,
+  WebhookDeliveryStatus,
+} from '@/types';
+import {
+  Webhook,
+  Search,
+  RefreshCw,
+  RotateCcw,
+  ChevronDown,
+  ChevronUp,
+  ShieldAlert,
+  ShieldCheck,
+} from 'lucide-react';
+
+const STATUS_FILTERS: Array<WebhookDeliveryStatus | 'all'> = [
+  'all',
+  'FAILED',
+  'PENDING',
+  'PROCESSING',
+  'PROCESSED',
+  'IGNORED',
+  'REJECTED',
+];
+
+const statusBadgeVariant = (status: WebhookDeliveryStatus) => {
+  switch (status) {
+    case 'PROCESSED':
+      return 'success';
+    case 'FAILED':
+    case 'REJECTED':
+      return 'destructive';
+    case 'PENDING':
+    case 'PROCESSING':
+      return 'default';
+    default:
+      return 'secondary';
+  }
+};
+
+export default function AdminWebhooksPage() {
+  const { isLoading: authLoading } = useAuth(true, ['ADMIN']);
+  const { success, error } = useToast();
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<WebhookDeliveryStatus, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | 'all'>('FAILED');
+  const [providerFilter, setProviderFilter] = useState<PaymentGateway | 'all'>('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, WebhookDeliveryDetail>>({});
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const fetchDeliveries = async (isRefresh = false) => {
+    try {
+      if (isRefresh) setRefreshing(true);
+      else setLoading(true);
+      const data = await api.getWebhookDeliveries({
+        page,
+        limit: 50,
+        status: statusFilter,
+        provider: providerFilter,
+        search,
+      });
+      setDeliveries(data.deliveries || []);
+      setCounts(data.counts || {});
+      setTotalPages(data.totalPages || 1);
+    } catch (err: any) {
+      error(err.message || 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!authLoading) fetchDeliveries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authLoading, page, statusFilter, providerFilter, search]);
+
+  const toggleDetails = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(id);
+    if (!details[id]) {
+      try {
+        const detail = await api.getWebhookDelivery(id);
+        setDetails((prev) => ({ ...prev, [id]: detail }));
+      } catch (err: any) {
+        error(err.message || 'Failed to load webhook');
+      }
+    }
+  };
+
+  const handleReplay = async (id: string) => {
+    try {
+      setReplayingId(id);
+      const result = await api.replayWebhookDelivery(id);
+      if (result.delivery?.status === 'PROCESSED') {
+        success(result.message);
+      } else {
+        error(result.message);
+      }
+      setDetails((prev) => ({ ...prev, [id]: { ...prev[id], ...result.delivery } }));
+      await fetchDeliveries(true);
+    } catch (err: any) {
+      error(err.message || 'Failed to replay webhook');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="flex min-h-screen">
+        <Sidebar type="admin" />
+        <main className="flex-1 p-4 pt-20 lg:p-8 lg:pt-8 bg-bg">
+          <Skeleton className="h-8 w-32 mb-6" />
+          <Skeleton className="h-96 w-full" />
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen">
+      <Sidebar type="admin" />
+      <main className="flex-1 p-4 pt-20 lg:p-8 lg:pt-8 bg-bg overflow-x-hidden">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold">Webhook Inbox</h1>
+              <p className="text-muted-foreground">
+                Every payment gateway webhook as received. Failed ones are retried automatically;
+                replay them here once the cause is fixed.
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => fetchDeliveries(true)} loading={refreshing}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-col lg:flex-row gap-4 mb-6">
+            <form
+              className="flex-1 relative"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setPage(1);
+                setSearch(searchInput.trim());
+              }}
+            >
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by payment, transaction or transfer reference..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-9"
+              />
+            </form>
+            <select
+              value={providerFilter}
+              onChange={(e) => {
+                setPage(1);
+                setProviderFilter(e.target.value as PaymentGateway | 'all');
+              }}
+              className="h-10 px-3 rounded-md border bg-background text-sm"
+            >
+              <option value="all">All providers</option>
+              <option value="MONNIFY">Monnify</option>
+              <option value="PAYSTACK">Paystack</option>
+            </select>
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto mb-6">
+            {STATUS_FILTERS.map((f) => (
+              <Button
+                key={f}
+                variant={statusFilter === f ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => {
+                  setPage(1);
+                  setStatusFilter(f);
+                }}
+                className="whitespace-nowrap"
+              >
+                {f === 'all' ? 'All' : f.charAt(0) + f.slice(1).toLowerCase()}
+                {f !== 'all' && counts[f] ? ` (${counts[f]})` : ''}
+              </Button>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-4">
+                  {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-20 w-full" />
+                  ))}
+                </div>
+              ) : deliveries.length === 0 ? (
+                <div className="text-center py-12">
+                  <Webhook className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                  <h3 className="text-lg font-semibold mb-2">No webhooks found</h3>
+                  <p className="text-muted-foreground">
+                    {search ? 'Try adjusting your search' : 'No webhooks match your filter'}
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {deliveries.map((delivery) => {
+                    const detail = details[delivery.id];
+                    const expanded = expandedId === delivery.id;
+                    const canReplay = delivery.status === 'FAILED' || delivery.status === 'PENDING';
+
+                    return (
+                      <div key={delivery.id} className="border rounded-lg p-4 space-y-3">
+                        <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 mb-1 flex-wrap">
+                              <h3 className="font-semibold font-mono text-sm">{delivery.eventType}</h3>
+                              <Badge variant={statusBadgeVariant(delivery.status)}>
+                                {delivery.status}
+                              </Badge>
+                              <Badge variant="outline">{delivery.provider}</Badge>
+                              {delivery.signatureValid ? (
+                                <ShieldCheck className="h-4 w-4 text-green-600" />
+                              ) : (
+                                <ShieldAlert className="h-4 w-4 text-destructive" />
+                              )}
+                            </div>
+                            <p className="text-sm text-muted-foreground font-mono truncate">
+                              {delivery.eventKey || 'Rejected - no event identity'}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Received {formatDate(delivery.createdAt)} from {delivery.ipAddress}
+                              {delivery.duplicateCount > 0 &&
+                                ` • ${delivery.duplicateCount} duplicate${delivery.duplicateCount === 1 ? '' : 's'}`}
+                              {` • ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}`}
+                              {delivery.status === 'PENDING' &&
+                                delivery.nextAttemptAt &&
+                                ` • next try ${formatDate(delivery.nextAttemptAt)}`}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            {canReplay && (
+                              <Button
+                                size="sm"
+                                loading={replayingId === delivery.id}
+                                onClick={() => handleReplay(delivery.id)}
+                              >
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Replay
+                              </Button>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => toggleDetails(delivery.id)}>
+                              {expanded ? (
+                                <ChevronUp className="h-4 w-4 mr-2" />
+                              ) : (
+                                <ChevronDown className="h-4 w-4 mr-2" />
+                              )}
+                              Details
+                            </Button>
+                          </div>
+                        </div>
+
+                        {delivery.lastError && (
+                          <div className="p-3 bg-destructive/10 rounded-lg border border-destructive/20">
+                            <p className="text-sm font-medium mb-1 text-destructive">Last error:</p>
+                            <p className="text-sm text-destructive/80 break-words">{delivery.lastError}</p>
+                          </div>
+                        )}
+
+                        {expanded && (
+                          <div className="space-y-3">
+                            {!detail ? (
+                              <Skeleton className="h-40 w-full" />
+                            ) : (
+                              <>
+                                {detail.replayedBy && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Last replayed by admin {detail.replayedBy}
+                                  </p>
+                                )}
+                                <div>
+                                  <p className="text-sm font-medium mb-1">Body</p>
+                                  <pre className="text-xs bg-muted/50 rounded-lg p-3 overflow-x-auto max-h-96">
+                                    {detail.body ? JSON.stringify(detail.body, null, 2) : detail.rawBody}
+                                  </pre>
+                                </div>
+                                <div>
+                                  <p className="text-sm font-medium mb-1">Headers</p>
+                                  <pre className="text-xs bg-muted/50 rounded-lg p-3 overflow-x-auto max-h-64">
+                                    {JSON.stringify(detail.headers, null, 2)}
+                                  </pre>
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="flex justify-center gap-2 mt-6">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page === 1}
+                  >
+                    Previous
+                  </Button>
+                  <span className="flex items-center px-4 text-sm">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                    disabled={page === totalPages}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -9,12 +9,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Logo } from '@/components/ui/logo';
+import { Switch } from '@/components/ui/switch';
 import {
   QrCode,
   CheckCircle2,
   XCircle,
   Loader2,
   LogOut,
+  LogIn,
   Calendar,
   MapPin,
   UserCheck,
@@ -27,8 +29,30 @@ import {
   RotateCcw,
   Camera,
   CameraOff,
+  Download,
+  RefreshCw,
+  WifiOff,
 } from 'lucide-react';
 import { formatDate } from '@/lib/utils';
+import { verifyTicketSignature } from '@/lib/ticket-signature';
+import {
+  clearOfflineData,
+  decryptManifest,
+  findManifestTicket,
+  getDeviceId,
+  loadEncryptedManifest,
+  loadQueue,
+  newClientId,
+  saveEncryptedManifest,
+  saveQueue,
+} from '@/lib/offline-checkin';
+import type {
+  AgentSession,
+  EventSigningKey,
+  OfflineCheckInResult,
+  OfflineManifest,
+  QueuedCheckIn,
+} from '@/types';
 
 interface EventInfo {
   id: string;
@@ -51,6 +75,7 @@ interface CheckInResult {
     checkedInAt?: string;
     checkedInBy?: string;
     status?: string;
+    answers?: { questionId: string; question: string; answer: string }[];
   };
   checkedInAt?: string;
   checkedInBy?: string;
@@ -69,14 +94,21 @@ export default function AgentPortalPage() {
   
   // Access code state
   const [accessCode, setAccessCode] = useState('');
+  const [pin, setPin] = useState('');
+  const [pinRequired, setPinRequired] = useState(false);
   const [activating, setActivating] = useState(false);
   const [activationError, setActivationError] = useState<string | null>(null);
+  // Short-lived token every scan is made with, issued when the code is activated
+  const [agentToken, setAgentToken] = useState('');
   
   // Session state
   const [isActivated, setIsActivated] = useState(false);
   const [eventInfo, setEventInfo] = useState<EventInfo | null>(null);
   const [agentLabel, setAgentLabel] = useState<string | null>(null);
+  // Zone the code is restricted to - other tiers are turned away at this entrance
+  const [agentZone, setAgentZone] = useState<string | null>(null);
   const [sessionCheckInCount, setSessionCheckInCount] = useState(0);
+  const [signingKeys, setSigningKeys] = useState<EventSigningKey[]>([]);
   
   // Scanning state
   const [qrInput, setQrInput] = useState('');
@@ -84,6 +116,19 @@ export default function AgentPortalPage() {
   const [lastResult, setLastResult] = useState<CheckInResult | null>(null);
   const [recentCheckIns, setRecentCheckIns] = useState<RecentCheckIn[]>([]);
   
+  // Offline mode state - the ticket list is kept encrypted in storage and decrypted in memory
+  // Entry checks tickets in; exit checks re-entry tickets out
+  const [scanMode, setScanMode] = useState<'entry' | 'exit'>('entry');
+  // Multi-day events: the session tickets are being admitted to ('' for the whole event)
+  const [eventSessions, setEventSessions] = useState<AgentSession[]>([]);
+  const [selectedSessionId, setSelectedSessionId] = useState('');
+  const [offlineMode, setOfflineMode] = useState(false);
+  const [manifest, setManifest] = useState<OfflineManifest | null>(null);
+  const [offlineQueue, setOfflineQueue] = useState<QueuedCheckIn[]>([]);
+  const [downloadingManifest, setDownloadingManifest] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [syncIssues, setSyncIssues] = useState<OfflineCheckInResult[]>([]);
+  
   // Settings
   const [soundEnabled, setSoundEnabled] = useState(true);
   
@@ -101,6 +146,10 @@ export default function AgentPortalPage() {
   const recentlyScannedRef = useRef<Set<string>>(new Set());
   const scanLockRef = useRef<boolean>(false);
 
+  // Latest handlers, so long-lived callbacks (camera, online event) never use stale state
+  const cameraScanHandlerRef = useRef<(code: string) => Promise<void>>();
+  const syncHandlerRef = useRef<() => Promise<void>>();
+
   // Initialize audio refs
   useEffect(() => {
     // Create audio elements for feedback sounds
@@ -143,11 +192,26 @@ export default function AgentPortalPage() {
       if (savedSession) {
         const session = JSON.parse(savedSession);
         setAccessCode(session.accessCode);
+        setAgentToken(session.agentToken || '');
         setEventInfo(session.eventInfo);
         setAgentLabel(session.agentLabel);
-        setIsActivated(true);
+        setAgentZone(session.agentZone || null);
+        // Without a session token the agent activates the code again
+        setIsActivated(Boolean(session.agentToken));
         setSessionCheckInCount(session.checkInCount || 0);
         setRecentCheckIns(session.recentCheckIns || []);
+        setSigningKeys(session.signingKeys || []);
+        setEventSessions(session.eventSessions || []);
+        setSelectedSessionId(session.selectedSessionId || '');
+        setOfflineMode(Boolean(session.offlineMode));
+        setOfflineQueue(loadQueue());
+
+        const savedManifest = loadEncryptedManifest();
+        if (savedManifest) {
+          decryptManifest(savedManifest, session.accessCode)
+            .then(setManifest)
+            .catch(() => {}); // Unreadable manifest - the agent can download it again
+        }
       }
     } catch (e) {
       // Ignore localStorage errors
@@ -199,7 +263,7 @@ export default function AgentPortalPage() {
           }
           lastScannedRef.current = decodedText;
           // Process the scanned code
-          await handleCameraScan(decodedText);
+          await cameraScanHandlerRef.current?.(decodedText);
         },
         () => {} // Ignore scan failures
       );
@@ -246,10 +310,20 @@ export default function AgentPortalPage() {
         recentlyScannedRef.current.delete(codeKey);
       }, 3000);
       
-      const result = await api.agentCheckIn(code, accessCode);
+      // Verify the QR signature on the device first - forged codes are rejected
+      // without a round trip, and the server reconciles everything else
+      const signature = await verifyTicketSignature(code, signingKeys, eventInfo?.id);
+      if (signature.status === 'invalid') {
+        setLastResult({ success: false, message: signature.message });
+        playSound(false);
+        setQrInput('');
+        return;
+      }
+
+      const result = await scanTicket(code);
       setLastResult(result);
       
-      if (result.ticket) {
+      if (result.ticket && scanMode === 'entry') {
         const newCheckIn: RecentCheckIn = {
           ticketNumber: result.ticket.ticketNumber,
           buyerName: result.ticket.buyerName,
@@ -275,7 +349,7 @@ export default function AgentPortalPage() {
       }
       
       if (result.success) {
-        setSessionCheckInCount((prev) => prev + 1);
+        if (scanMode === 'entry') setSessionCheckInCount((prev) => prev + 1);
         playSound(true);
       } else {
         playSound(false);
@@ -283,11 +357,15 @@ export default function AgentPortalPage() {
       
       setQrInput('');
     } catch (err: any) {
+      playSound(false);
+      if (err.response?.status === 403) {
+        endAgentSession(err.message);
+        return;
+      }
       setLastResult({
         success: false,
         message: err.message || 'Failed to check in ticket',
       });
-      playSound(false);
     } finally {
       scanLockRef.current = false;
       setScanning(false);
@@ -308,20 +386,35 @@ export default function AgentPortalPage() {
     try {
       setActivating(true);
       setActivationError(null);
-      const result = await api.activateAgentCode(code);
+      const result = await api.activateAgentCode(code, pin || undefined, getDeviceId());
+      if (!result.valid) {
+        setPinRequired(true);
+        return;
+      }
       
+      setAgentToken(result.sessionToken);
+      setPin('');
+      setPinRequired(false);
       setEventInfo(result.event);
       setAgentLabel(result.label);
+      setAgentZone(result.zone?.name || null);
       setIsActivated(true);
       setSessionCheckInCount(result.checkInCount);
+      setSigningKeys(result.signingKeys || []);
+      setEventSessions(result.sessions || []);
+      setSelectedSessionId('');
       
       // Save session to localStorage
       localStorage.setItem('agentSession', JSON.stringify({
         accessCode: code,
+        agentToken: result.sessionToken,
         eventInfo: result.event,
         agentLabel: result.label,
+        agentZone: result.zone?.name || null,
         checkInCount: result.checkInCount,
         recentCheckIns: [],
+        signingKeys: result.signingKeys || [],
+        eventSessions: result.sessions || [],
       }));
       
       success('Access code activated! You can now scan tickets.');
@@ -334,17 +427,214 @@ export default function AgentPortalPage() {
     }
   };
 
+  // Update fields of the saved agent session
+  const updateSavedSession = (changes: Record<string, unknown>) => {
+    try {
+      const savedSession = localStorage.getItem('agentSession');
+      if (savedSession) {
+        localStorage.setItem('agentSession', JSON.stringify({ ...JSON.parse(savedSession), ...changes }));
+      }
+    } catch (e) {
+      // Ignore localStorage errors
+    }
+  };
+
+  // The server ended the agent session - it expired, or the organizer deactivated or changed
+  // the code. The code and any offline check-ins are kept for when it's activated again.
+  const endAgentSession = (message: string) => {
+    stopCamera();
+    setIsActivated(false);
+    setAgentToken('');
+    setLastResult(null);
+    setActivationError(message);
+    updateSavedSession({ agentToken: null });
+  };
+
+  // Download (or refresh) the event's ticket list for offline scanning
+  const refreshManifest = async () => {
+    const encrypted = await api.getOfflineManifest(agentToken);
+    const decrypted = await decryptManifest(encrypted, accessCode);
+    saveEncryptedManifest(encrypted);
+    setManifest(decrypted);
+    setSigningKeys(encrypted.signingKeys);
+    updateSavedSession({ signingKeys: encrypted.signingKeys });
+    return decrypted;
+  };
+
+  const handleDownloadManifest = async () => {
+    try {
+      setDownloadingManifest(true);
+      const downloaded = await refreshManifest();
+      success(`${downloaded.tickets.length} tickets saved for offline scanning`);
+    } catch (err: any) {
+      if (err.response?.status === 403) {
+        endAgentSession(err.message);
+        return;
+      }
+      error(err.message || 'Failed to download tickets for offline use');
+    } finally {
+      setDownloadingManifest(false);
+    }
+  };
+
+  const handleSelectSession = (sessionId: string) => {
+    setSelectedSessionId(sessionId);
+    setLastResult(null);
+    updateSavedSession({ selectedSessionId: sessionId });
+  };
+
+  const handleToggleOffline = (enabled: boolean) => {
+    setOfflineMode(enabled);
+    updateSavedSession({ offlineMode: enabled });
+  };
+
+  // Check a ticket against the downloaded list and queue the check-in for sync.
+  // The queue is read from storage each time so it is never stale.
+  const checkInOffline = async (code: string): Promise<CheckInResult> => {
+    if (!manifest) {
+      return { success: false, message: 'Download the ticket list before scanning offline' };
+    }
+
+    const ticket = await findManifestTicket(manifest, code);
+    if (!ticket) {
+      return { success: false, message: 'Ticket not found in the offline ticket list' };
+    }
+
+    const summary = {
+      ticketNumber: ticket.ticketNumber,
+      tierName: ticket.tierName,
+      buyerName: ticket.buyerName,
+    };
+    if (ticket.zoneRefusal) {
+      return { success: false, message: ticket.zoneRefusal, ticket: summary };
+    }
+
+    const queue = loadQueue();
+    const queued = queue.find((item) => item.ticketNumber === ticket.ticketNumber);
+    if (ticket.checkedInAt || queued) {
+      return {
+        success: false,
+        message: 'Ticket already checked in',
+        checkedInAt: ticket.checkedInAt || queued?.scannedAt,
+        checkedInBy: ticket.checkedInBy || agentLabel || 'This device',
+        ticket: summary,
+      };
+    }
+
+    const scannedAt = new Date().toISOString();
+    const updatedQueue = [
+      ...queue,
+      { clientId: newClientId(), qrCode: code, scannedAt, ticketNumber: ticket.ticketNumber },
+    ];
+    saveQueue(updatedQueue);
+    setOfflineQueue(updatedQueue);
+
+    return {
+      success: true,
+      message: 'Checked in offline - will sync when back online',
+      ticket: { ...summary, checkedInAt: scannedAt },
+    };
+  };
+
+  // Scan against the offline list in offline mode (or with no connection), otherwise live.
+  // The offline list only covers whole-event check-in, so session scans need a connection.
+  const checkInTicket = async (code: string): Promise<CheckInResult> => {
+    if (offlineMode || (manifest && !navigator.onLine)) {
+      if (selectedSessionId) {
+        return { success: false, message: 'Checking in to a session needs a connection' };
+      }
+      return checkInOffline(code);
+    }
+    return api.agentCheckIn(code, agentToken, getDeviceId(), selectedSessionId || undefined);
+  };
+
+  // Checking a ticket out always needs a connection - offline scanning only checks in
+  const scanTicket = async (code: string): Promise<CheckInResult> => {
+    if (scanMode === 'exit') {
+      if (offlineMode || !navigator.onLine) {
+        return { success: false, message: 'Checking tickets out needs a connection' };
+      }
+      return api.agentCheckOut(code, agentToken, getDeviceId());
+    }
+    return checkInTicket(code);
+  };
+
+  // Send queued offline check-ins. The server applies the earliest scan of each ticket,
+  // so scans that lost to another gate come back as conflicts to show the agent.
+  const handleSync = async () => {
+    const queue = loadQueue();
+    if (queue.length === 0 || syncing) return;
+
+    try {
+      setSyncing(true);
+      const result = await api.syncOfflineCheckIns(agentToken, queue, getDeviceId());
+
+      const syncedIds = new Set(result.results.map((item) => item.clientId));
+      const remaining = loadQueue().filter((item) => !syncedIds.has(item.clientId));
+      saveQueue(remaining);
+      setOfflineQueue(remaining);
+      setSyncIssues(result.results.filter((item) => item.status !== 'CHECKED_IN'));
+
+      if (result.conflicts > 0 || result.rejected > 0) {
+        error(
+          `Synced ${result.synced} check-ins: ${result.conflicts} already used at another gate, ${result.rejected} rejected`,
+        );
+      } else {
+        success(`Synced ${result.synced} offline check-ins`);
+      }
+
+      // Pick up check-ins made at other gates since the list was downloaded
+      await refreshManifest().catch(() => {});
+    } catch (err: any) {
+      if (err.response?.status === 403) {
+        endAgentSession(`${err.message} Your offline check-ins will sync once you do.`);
+        return;
+      }
+      error(err.message || 'Sync failed. It will retry when you are back online.');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  // Sync automatically as soon as the connection comes back
+  useEffect(() => {
+    if (!isActivated) return;
+    const handleOnline = () => {
+      syncHandlerRef.current?.();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [isActivated]);
+
   const handleLogout = () => {
+    const pending = loadQueue().length;
+    if (pending > 0) {
+      error(`Sync your ${pending} offline check-in(s) before exiting`);
+      return;
+    }
+
     setIsActivated(false);
     setEventInfo(null);
     setAgentLabel(null);
+    setAgentZone(null);
     setAccessCode('');
+    setAgentToken('');
+    setPin('');
+    setPinRequired(false);
     setQrInput('');
     setLastResult(null);
     setSessionCheckInCount(0);
     setRecentCheckIns([]);
+    setSigningKeys([]);
+    setEventSessions([]);
+    setSelectedSessionId('');
+    setOfflineMode(false);
+    setManifest(null);
+    setOfflineQueue([]);
+    setSyncIssues([]);
     setActivationError(null);
     localStorage.removeItem('agentSession');
+    clearOfflineData();
   };
 
   const handleScan = async () => {
@@ -380,11 +670,21 @@ export default function AgentPortalPage() {
         recentlyScannedRef.current.delete(codeKey);
       }, 3000);
       
-      const result = await api.agentCheckIn(code, accessCode);
+      // Verify the QR signature on the device first - forged codes are rejected
+      // without a round trip, and the server reconciles everything else
+      const signature = await verifyTicketSignature(code, signingKeys, eventInfo?.id);
+      if (signature.status === 'invalid') {
+        setLastResult({ success: false, message: signature.message });
+        playSound(false);
+        setQrInput('');
+        return;
+      }
+
+      const result = await scanTicket(code);
       setLastResult(result);
       
       // Add to recent check-ins
-      if (result.ticket) {
+      if (result.ticket && scanMode === 'entry') {
         const newCheckIn: RecentCheckIn = {
           ticketNumber: result.ticket.ticketNumber,
           buyerName: result.ticket.buyerName,
@@ -413,7 +713,7 @@ export default function AgentPortalPage() {
       }
       
       if (result.success) {
-        setSessionCheckInCount((prev) => prev + 1);
+        if (scanMode === 'entry') setSessionCheckInCount((prev) => prev + 1);
         playSound(true);
       } else {
         playSound(false);
@@ -430,9 +730,9 @@ export default function AgentPortalPage() {
       setLastResult(errorResult);
       playSound(false);
       
-      // Check if code was deactivated
-      if (err.message?.includes('deactivated')) {
-        error('Your access code has been deactivated. Please contact the organizer.');
+      // The session expired or the code was deactivated - back to the activation screen
+      if (err.response?.status === 403) {
+        endAgentSession(err.message);
       }
     } finally {
       // Release lock
@@ -441,6 +741,9 @@ export default function AgentPortalPage() {
     }
   };
 
+  cameraScanHandlerRef.current = handleCameraScan;
+  syncHandlerRef.current = handleSync;
+
   // Handle Enter key for both forms
   const handleKeyDown = (e: React.KeyboardEvent, action: () => void) => {
     if (e.key === 'Enter') {
@@ -477,6 +780,8 @@ export default function AgentPortalPage() {
                 onChange={(e) => {
                   setAccessCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''));
                   setActivationError(null);
+                  setPinRequired(false);
+                  setPin('');
                 }}
                 onKeyDown={(e) => handleKeyDown(e, handleActivate)}
                 maxLength={9}
@@ -497,11 +802,36 @@ export default function AgentPortalPage() {
                 </p>
               )}
             </div>
+
+            {pinRequired && (
+              <div className="space-y-3">
+                <Label htmlFor="pin" className="text-sm font-medium">PIN</Label>
+                <Input
+                  id="pin"
+                  type="password"
+                  inputMode="numeric"
+                  placeholder="••••"
+                  value={pin}
+                  onChange={(e) => {
+                    setPin(e.target.value.replace(/\D/g, ''));
+                    setActivationError(null);
+                  }}
+                  onKeyDown={(e) => handleKeyDown(e, handleActivate)}
+                  maxLength={8}
+                  className="text-center text-2xl font-mono tracking-[0.5em] h-14"
+                  autoComplete="off"
+                  autoFocus
+                />
+                <p className="text-xs text-muted-foreground text-center">
+                  This code is protected by a PIN - ask your event organizer for it
+                </p>
+              </div>
+            )}
             
             <Button
               className="w-full h-12 text-lg"
               onClick={handleActivate}
-              disabled={activating || accessCode.length !== 9}
+              disabled={activating || accessCode.length !== 9 || (pinRequired && pin.length < 4)}
             >
               {activating ? (
                 <>
@@ -539,7 +869,9 @@ export default function AgentPortalPage() {
             </div>
             <div>
               <p className="font-semibold text-sm">{agentLabel || 'Check-in Agent'}</p>
-              <p className="text-xs text-muted-foreground">Agent Portal</p>
+              <p className="text-xs text-muted-foreground">
+                {agentZone ? `${agentZone} entrance` : 'Agent Portal'}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -603,6 +935,110 @@ export default function AgentPortalPage() {
           </CardContent>
         </Card>
 
+        {/* Scan Mode */}
+        <div className="grid grid-cols-2 gap-2 rounded-lg border bg-white p-1" role="group" aria-label="Scan mode">
+          <Button
+            variant={scanMode === 'entry' ? 'default' : 'ghost'}
+            onClick={() => setScanMode('entry')}
+            className="gap-2"
+          >
+            <LogIn className="h-4 w-4" />
+            Entry
+          </Button>
+          <Button
+            variant={scanMode === 'exit' ? 'default' : 'ghost'}
+            onClick={() => setScanMode('exit')}
+            className="gap-2"
+          >
+            <LogOut className="h-4 w-4" />
+            Exit (re-entry tickets)
+          </Button>
+        </div>
+
+        {/* Session - multi-day events admit tickets to each session separately */}
+        {eventSessions.length > 0 && scanMode === 'entry' && (
+          <Card>
+            <CardContent className="py-4 space-y-2">
+              <label htmlFor="agent-session" className="font-medium text-sm">
+                Admitting to
+              </label>
+              <select
+                id="agent-session"
+                value={selectedSessionId}
+                onChange={(e) => handleSelectSession(e.target.value)}
+                className="h-10 w-full px-3 rounded-md border bg-background text-sm"
+              >
+                <option value="">Whole event</option>
+                {eventSessions.map((session) => (
+                  <option key={session.id} value={session.id}>
+                    {session.name} · {formatDate(session.startsAt, 'short')},{' '}
+                    {formatDate(session.startsAt, 'time')}
+                  </option>
+                ))}
+              </select>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Offline Mode */}
+        <Card>
+          <CardContent className="py-4 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3 min-w-0">
+                <WifiOff className="h-5 w-5 text-muted-foreground shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">Offline Mode</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {manifest
+                      ? `${manifest.tickets.length} tickets saved at ${new Date(manifest.generatedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+                      : 'Save the ticket list to keep scanning without mobile data'}
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={offlineMode}
+                onCheckedChange={handleToggleOffline}
+                disabled={!manifest}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={handleDownloadManifest}
+                disabled={downloadingManifest}
+              >
+                {downloadingManifest ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                {manifest ? 'Update Ticket List' : 'Download Ticket List'}
+              </Button>
+              {offlineQueue.length > 0 && (
+                <Button size="sm" className="flex-1" onClick={handleSync} disabled={syncing}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+                  Sync {offlineQueue.length}
+                </Button>
+              )}
+            </div>
+            {syncIssues.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-amber-700">Needs attention after sync</p>
+                {syncIssues.map((issue) => (
+                  <div key={issue.clientId} className="text-xs p-2 rounded bg-amber-50 text-amber-800">
+                    <span className="font-mono">{issue.ticket?.ticketNumber || 'Unknown ticket'}</span>
+                    {' - '}
+                    {issue.message}
+                    {issue.checkedInAt && ` at ${new Date(issue.checkedInAt).toLocaleTimeString()}`}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Camera Scanner */}
         <Card className="shadow-lg overflow-hidden">
           <CardContent className="p-0">
@@ -765,6 +1201,16 @@ export default function AgentPortalPage() {
                         <p className="font-medium">{lastResult.ticket.tierName}</p>
                       </div>
                     </div>
+                    {lastResult.ticket.answers && lastResult.ticket.answers.length > 0 && (
+                      <div className="mt-3 pt-3 border-t space-y-1 text-sm">
+                        {lastResult.ticket.answers.map((answer) => (
+                          <div key={answer.questionId} className="flex justify-between gap-3">
+                            <span className="text-muted-foreground">{answer.question}</span>
+                            <span className="font-medium text-right">{answer.answer}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
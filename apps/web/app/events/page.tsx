@@ -305,10 +305,10 @@ export default async function EventsPage({ searchParams }: { searchParams?: Sear
               return aStart.getTime() - bStart.getTime();
             }).map((event) => {
               // Check if event has any free tickets
-              const hasFreeTickets = event.tiers?.some((tier: any) => Number(tier.price) === 0);
+              const hasFreeTickets = event.tiers?.some((tier: any) => Number(tier.currentPrice ?? tier.price) === 0);
               // Get lowest price for display
               const lowestPrice = event.tiers?.length > 0 
-                ? Math.min(...event.tiers.map((t: any) => Number(t.price)))
+                ? Math.min(...event.tiers.map((t: any) => Number(t.currentPrice ?? t.price)))
                 : null;
               
               // Format date nicely
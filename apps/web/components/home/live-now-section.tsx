@@ -138,7 +138,8 @@ export function LiveNowSection() {
 
 function LiveEventCard({ event, index }: { event: Event; index: number }) {
   const lowestPrice = event.tiers?.reduce((min, tier) => 
-    tier.price < min ? tier.price : min, event.tiers[0]?.price || 0
+    (tier.currentPrice ?? tier.price) < min ? (tier.currentPrice ?? tier.price) : min,
+    event.tiers[0]?.currentPrice ?? event.tiers[0]?.price ?? 0
   );
 
   return (
@@ -137,7 +137,8 @@ export function TrendingSection() {
 
 function TrendingEventCard({ event, rank }: { event: Event; rank: number }) {
   const lowestPrice = event.tiers?.reduce((min, tier) => 
-    tier.price < min ? tier.price : min, event.tiers[0]?.price || 0
+    (tier.currentPrice ?? tier.price) < min ? (tier.currentPrice ?? tier.price) : min,
+    event.tiers[0]?.currentPrice ?? event.tiers[0]?.price ?? 0
   );
   
   const soldPercentage = (event.tiers?.reduce((acc, tier) => {
@@ -7,7 +7,7 @@ import { cn } from '@/lib/utils';
 import { Logo } from '@/components/ui/logo';
 import {
   LayoutDashboard, Calendar, Plus, DollarSign, Settings,
-  Users, BarChart3, BookOpen, Menu, X, LogOut, Ticket, RotateCcw, Receipt, CreditCard
+  Users, BarChart3, BookOpen, Menu, X, LogOut, Ticket, RotateCcw, Receipt, CreditCard, Webhook, Scale
 } from 'lucide-react';
 import { useAuthStore } from '@/store/auth-store';
 
@@ -71,7 +71,9 @@ export function Sidebar({ type }: SidebarProps) {
     { href: '/admin/payments/explorer', label: 'Payments Explorer', icon: CreditCard },
     { href: '/admin/organizers', label: 'Organizers', icon: DollarSign },
     { href: '/admin/refunds', label: 'Refunds', icon: RotateCcw },
+    { href: '/admin/disputes', label: 'Disputes', icon: Scale },
     { href: '/admin/ledger', label: 'Ledger', icon: BookOpen },
+    { href: '/admin/webhooks', label: 'Webhooks', icon: Webhook },
     { href: '/admin/settings', label: 'Overrides', icon: LayoutDashboard },
   ];
 
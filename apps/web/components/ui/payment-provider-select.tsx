@@ -0,0 +1,41 @@
+'use client';
+import { UseFormRegister } from 'react-hook-form';
+import { Label } from '@/components/ui/label';
+import type { PaymentGateway } from '@/types';
+
+const PAYMENT_PROVIDERS: { value: PaymentGateway | ''; label: string }[] = [
+  { value: '', label: 'Automatic (recommended)' },
+  { value: 'MONNIFY', label: 'Monnify' },
+  { value: 'PAYSTACK', label: 'Paystack' },
+];
+
+interface PaymentProviderSelectProps {
+  register: UseFormRegister<any>;
+}
+
+/**
+ * Which gateway buyers pay through. Automatic uses the platform's order and switches to
+ * another gateway if one is down; a chosen gateway is tried first.
+ */
+export function PaymentProviderSelect({ register }: PaymentProviderSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="paymentProvider">Payment provider</Label>
+      <select
+        id="paymentProvider"
+        {...register('paymentProvider')}
+        className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+      >
+        {PAYMENT_PROVIDERS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-muted-foreground">
+        Automatic switches buyers to another provider if one is having problems. A chosen provider
+        is tried first, with the others as a fallback.
+      </p>
+    </div>
+  );
+}
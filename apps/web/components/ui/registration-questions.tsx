@@ -0,0 +1,226 @@
+'use client';
+import { useFieldArray, useWatch, Control, Controller, UseFormRegister } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import type { QuestionType, RegistrationQuestion } from '@/types';
+
+export interface RegistrationQuestionFormValue {
+  id?: string;
+  label: string;
+  type: QuestionType;
+  optionsText?: string; // One choice per line
+  required?: boolean;
+  perTicket?: boolean;
+  tierNames?: string[];
+}
+
+const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: 'TEXT', label: 'Short answer' },
+  { value: 'SINGLE_SELECT', label: 'Pick one' },
+  { value: 'MULTI_SELECT', label: 'Pick any' },
+  { value: 'TSHIRT_SIZE', label: 'T-shirt size' },
+  { value: 'DIETARY', label: 'Dietary needs' },
+];
+
+// Left blank, these get standard choices (XS-XXL, common diets)
+const TYPES_WITH_DEFAULT_OPTIONS: QuestionType[] = ['TSHIRT_SIZE', 'DIETARY'];
+
+interface RegistrationQuestionsProps {
+  control: Control<any>;
+  register: UseFormRegister<any>;
+  tierNames: string[];
+  hasSales?: boolean;
+}
+
+/**
+ * Custom questions buyers answer at checkout, for every tier or only some, once per
+ * order or for every ticket. Answers show on the tickets, the attendee export and the
+ * agent scan result.
+ */
+export function RegistrationQuestions({ control, register, tierNames, hasSales }: RegistrationQuestionsProps) {
+  const { fields, append, remove, move } = useFieldArray({ control, name: 'questions' });
+  const questions = (useWatch({ control, name: 'questions' }) || []) as RegistrationQuestionFormValue[];
+
+  return (
+    <div className="space-y-4">
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Ask buyers for anything you need before the event, like T-shirt sizes, dietary needs or a company name.
+        </p>
+      )}
+
+      {fields.map((field, index) => {
+        const type = questions[index]?.type || 'TEXT';
+        return (
+          <div key={field.id} className="p-4 border rounded-lg space-y-3">
+            <div className="grid gap-3 sm:grid-cols-[1fr_160px_auto] items-end">
+              <div className="space-y-1">
+                <Label className="text-xs">Question {index + 1}</Label>
+                <Input {...register(`questions.${index}.label`)} placeholder="e.g., What's your T-shirt size?" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Answer Type</Label>
+                <select
+                  {...register(`questions.${index}.type`)}
+                  className="w-full h-10 px-3 rounded-md border bg-background text-sm"
+                >
+                  {QUESTION_TYPES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-10"
+                  disabled={index === 0}
+                  onClick={() => move(index, index - 1)}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-10"
+                  disabled={index === fields.length - 1}
+                  onClick={() => move(index, index + 1)}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" className="h-10" onClick={() => remove(index)}>
+                  <Trash2 className="h-4 w-4 text-danger" />
+                </Button>
+              </div>
+            </div>
+
+            {type !== 'TEXT' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Choices (one per line)</Label>
+                <Textarea
+                  {...register(`questions.${index}.optionsText`)}
+                  rows={3}
+                  placeholder={
+                    TYPES_WITH_DEFAULT_OPTIONS.includes(type)
+                      ? 'Leave blank for the standard choices'
+                      : 'e.g., Morning\nAfternoon'
+                  }
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" {...register(`questions.${index}.required`)} className="rounded" />
+                Required
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" {...register(`questions.${index}.perTicket`)} className="rounded" />
+                Ask for every ticket (not once per order)
+              </label>
+            </div>
+
+            {tierNames.length > 1 && (
+              <Controller
+                control={control}
+                name={`questions.${index}.tierNames`}
+                render={({ field: { value, onChange } }) => {
+                  const selected: string[] = value || [];
+                  return (
+                    <div className="space-y-1">
+                      <Label className="text-xs">
+                        Ask For {selected.length === 0 && <span className="text-muted-foreground">(every tier)</span>}
+                      </Label>
+                      <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+                        {tierNames.map((name) => (
+                          <label key={name} className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              className="rounded"
+                              checked={selected.includes(name)}
+                              onChange={(e) =>
+                                onChange(
+                                  e.target.checked
+                                    ? [...selected, name]
+                                    : selected.filter((tierName) => tierName !== name)
+                                )
+                              }
+                            />
+                            {name}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                }}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full gap-2"
+        onClick={() => append({ label: '', type: 'TEXT', optionsText: '', required: false, perTicket: false, tierNames: [] })}
+      >
+        <Plus className="h-4 w-4" />
+        Add Question
+      </Button>
+
+      {hasSales && fields.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Changes apply to future buyers. Questions buyers have already answered can be edited but not removed.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Load an event's questions into the form
+ */
+export function toRegistrationQuestionForm(questions: RegistrationQuestion[] | undefined): RegistrationQuestionFormValue[] {
+  return (questions || []).map((question) => ({
+    id: question.id,
+    label: question.label,
+    type: question.type,
+    optionsText: question.options.join('\n'),
+    required: question.required,
+    perTicket: question.perTicket,
+    tierNames: question.tiers.map((tier) => tier.name),
+  }));
+}
+
+/**
+ * Convert the question inputs into the API shape. Tiers that were renamed or removed
+ * are dropped, so a question left with none is asked for every tier.
+ */
+export function sanitizeRegistrationQuestions(
+  questions: RegistrationQuestionFormValue[] | undefined,
+  tierNames: string[]
+) {
+  return (questions || []).map((question) => ({
+    id: question.id || undefined,
+    label: (question.label || '').trim(),
+    type: question.type,
+    options:
+      question.type === 'TEXT'
+        ? []
+        : (question.optionsText || '')
+            .split('\n')
+            .map((option) => option.trim())
+            .filter(Boolean),
+    required: !!question.required,
+    perTicket: !!question.perTicket,
+    tierNames: (question.tierNames || []).filter((name) => tierNames.includes(name)),
+  }));
+}
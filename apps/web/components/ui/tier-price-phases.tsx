@@ -0,0 +1,112 @@
+'use client';
+import { useFieldArray, Control, UseFormRegister } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Trash2, TrendingUp } from 'lucide-react';
+
+export interface PricePhaseFormValue {
+  name?: string;
+  price: number;
+  endsAt?: string; // datetime-local value
+  untilSold?: number;
+}
+
+interface TierPricePhasesProps {
+  control: Control<any>;
+  register: UseFormRegister<any>;
+  tierIndex: number;
+  hasSales?: boolean;
+}
+
+/**
+ * Early bird / phased pricing for a ticket tier. Phases run in order before the
+ * tier's regular price, each ending at a date or once enough tickets are sold.
+ */
+export function TierPricePhases({ control, register, tierIndex, hasSales }: TierPricePhasesProps) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: `tiers.${tierIndex}.pricePhases`,
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-1.5">
+          <TrendingUp className="h-4 w-4 text-primary" />
+          Price Phases (Optional)
+        </Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="gap-1 h-8"
+          onClick={() => append({ name: fields.length === 0 ? 'Early Bird' : '', price: 0 })}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add Phase
+        </Button>
+      </div>
+      {fields.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Sell early tickets at a lower price, e.g. the first 100 at ₦5,000 or everything bought before a date.
+        </p>
+      ) : (
+        <>
+          {fields.map((field, phaseIndex) => (
+            <div key={field.id} className="grid gap-2 sm:grid-cols-[1fr_110px_1fr_110px_auto] items-end p-3 bg-muted/40 rounded-lg">
+              <div className="space-y-1">
+                <Label className="text-xs">Phase {phaseIndex + 1} Name</Label>
+                <Input {...register(`tiers.${tierIndex}.pricePhases.${phaseIndex}.name`)} placeholder="e.g., Early Bird" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Price (₦)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  {...register(`tiers.${tierIndex}.pricePhases.${phaseIndex}.price`, { valueAsNumber: true })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Ends At</Label>
+                <Input type="datetime-local" {...register(`tiers.${tierIndex}.pricePhases.${phaseIndex}.endsAt`)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Or After (tickets)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="e.g., 100"
+                  {...register(`tiers.${tierIndex}.pricePhases.${phaseIndex}.untilSold`, { valueAsNumber: true })}
+                />
+              </div>
+              <Button type="button" variant="ghost" size="sm" className="h-10" onClick={() => remove(phaseIndex)}>
+                <Trash2 className="h-4 w-4 text-danger" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Phases run in order, each ending at its date or once the tier has sold that many tickets in total.
+            The regular price applies after the last phase.
+            {hasSales && ' Phases that are over and the current price can no longer change.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Convert the phase inputs into the API shape, dropping blank optional fields.
+ */
+export function sanitizePricePhases(
+  phases: PricePhaseFormValue[] | undefined,
+  toISOString: (dateTimeLocal: string | undefined) => string | undefined
+) {
+  return (phases || []).map((phase) => ({
+    name: phase.name?.trim() || undefined,
+    price: Number.isFinite(phase.price) ? Number(phase.price) : 0,
+    endsAt: toISOString(phase.endsAt),
+    untilSold: Number.isFinite(phase.untilSold) ? Number(phase.untilSold) : undefined,
+  }));
+}
@@ -1,3 +1,47 @@
+import type {
+  AccessCode,
+  AccessCodeInput,
+  AgentCode,
+  AgentCodeInput,
+  AgentCodeSecurityInput,
+  AgentSession,
+  AgentZone,
+  AgentZoneInput,
+  AttendeeExportFilters,
+  CompOptions,
+  Dispute,
+  DisputeEvidence,
+  DisputeStatus,
+  EncryptedOfflineManifest,
+  EventGuestList,
+  EventSession,
+  EventSessionInput,
+  EventSigningKey,
+  EventWaitlist,
+  GuestInput,
+  IssueCompsResult,
+  LiveCheckInSnapshot,
+  MyResaleListing,
+  MyTicketTransfer,
+  OfflineSyncResult,
+  PromoCode,
+  PromoCodeInput,
+  PublicResaleListing,
+  QueuedCheckIn,
+  RefundStatus,
+  RegistrationAnswerInput,
+  ResaleListing,
+  ScanLogFilters,
+  ScanLogPage,
+  TicketTransfer,
+  TransferOffer,
+  WaitlistOffer,
+  WaitlistStatus,
+  WebhookDelivery,
+  WebhookDeliveryDetail,
+  WebhookDeliveryFilters,
+  WebhookDeliveryStatus,
+} from '@/types';
 
   const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
 
@@ -534,8 +578,12 @@ class ApiClient {
     return this.request<{ events: any[]; total: number; page: number }>(`/events?${query}`);
   }
 
-  async getEventBySlug(slug: string, includeUnpublished = false) {
-    const query = includeUnpublished ? '?includeUnpublished=true' : '';
+  async getEventBySlug(slug: string, includeUnpublished = false, accessCode?: string) {
+    const params = new URLSearchParams();
+    if (includeUnpublished) params.set('includeUnpublished', 'true');
+    // Access codes reveal the hidden tiers they unlock
+    if (accessCode) params.set('access', accessCode);
+    const query = params.toString() ? `?${params.toString()}` : '';
     return this.request<any>(`/events/${slug}${query}`);
   }
 
@@ -606,28 +654,65 @@ class ApiClient {
     return this.request<any[]>(`/tickets/event/${id}`);
   }
 
+  /**
+   * Download an event's attendee list as CSV or Excel, optionally filtered (organizer only)
+   */
+  async downloadEventAttendees(eventId: string, filters: AttendeeExportFilters = {}) {
+    const query = new URLSearchParams(
+      Object.entries(filters)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)]),
+    ).toString();
+    return this.downloadFile(
+      `/tickets/event/${eventId}/export${query ? `?${query}` : ''}`,
+      `attendees.${filters.format || 'csv'}`,
+    );
+  }
+
   // ==================== TICKETS ====================
-  async initializePayment(eventId: string, tierId: string, guestEmail?: string, quantity = 1) {
-    console.log('[API] Initializing payment with:', { eventId, tierId, guestEmail, quantity });
+  async initializePayment(
+    eventId: string,
+    tierId: string,
+    guestEmail?: string,
+    quantity = 1,
+    promoCode?: string,
+    waitlistToken?: string,
+    accessCode?: string,
+    answers?: RegistrationAnswerInput[],
+  ) {
+    console.log('[API] Initializing payment with:', { eventId, tierId, guestEmail, quantity, promoCode });
     try {
       const response = await this.request<{
         // For paid tickets
         authorizationUrl?: string;
         reference: string;
         paymentId: string;
+        holdExpiresAt?: string; // Tickets are reserved until this time
         // Price breakdown (for service fee display)
         tierPrice?: number;
+        quantity?: number;
         serviceFee?: number;
         totalAmount?: number;
+        breakdown?: { discountAmount: number; promoCode: string | null };
         // For free tickets
         isFree?: boolean;
         success?: boolean;
         ticketId?: string;
         ticketNumber?: string;
+        ticketNumbers?: string[];
         message?: string;
       }>('/payments/initialize', {
         method: 'POST',
-        body: JSON.stringify({ eventId, tierId, quantity, guestEmail }),
+        body: JSON.stringify({
+          eventId,
+          tierId,
+          quantity,
+          guestEmail,
+          promoCode,
+          waitlistToken,
+          accessCode,
+          answers,
+        }),
       });
       console.log('[API] Payment initialized successfully:', response);
       return response;
@@ -641,6 +726,48 @@ class ApiClient {
     }
   }
 
+  /**
+   * Initialize a cart checkout - several tiers of one event in a single payment
+   */
+  async initializeCartPayment(
+    eventId: string,
+    items: { tierId: string; quantity: number }[],
+    guestEmail?: string,
+    promoCode?: string,
+    accessCode?: string,
+    answers?: RegistrationAnswerInput[],
+  ) {
+    return this.request<{
+      isFree: boolean;
+      success?: boolean;
+      authorizationUrl?: string;
+      reference: string;
+      paymentId: string;
+      orderId: string;
+      holdExpiresAt?: string;
+      ticketNumbers?: string[];
+      message?: string;
+      breakdown: {
+        items: { tierId: string; tierName: string; quantity: number; unitPrice: number; subtotal: number }[];
+        quantity: number;
+        discountAmount: number;
+        promoCode: string | null;
+        subtotal: number;
+        serviceFee: number;
+        serviceFeePercent: number;
+        passFeeTobuyer: boolean;
+        totalAmount: number;
+        buyerPays: number;
+        organizerReceives: number;
+      };
+      serviceFee?: number;
+      totalAmount?: number;
+    }>('/payments/initialize-cart', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, items, guestEmail, promoCode, accessCode, answers }),
+    });
+  }
+
   async checkPendingPayments() {
     return this.request<{
       pendingPayments: any[];
@@ -655,6 +782,7 @@ class ApiClient {
   async verifyPaymentByReference(reference: string) {
     return this.request<{ 
       ticket: any; 
+      tickets?: any[];
       message: string; 
       payment?: any;
     }>(`/payments/verify/${reference}`);
@@ -683,14 +811,14 @@ class ApiClient {
   }
 
   // ==================== QR / CHECK-IN ====================
-  async validateQr(code: string, eventId: string) {
+  async validateQr(code: string, eventId: string, sessionId?: string) {
     return this.request<{ 
       valid: boolean; 
       ticket?: any; 
       message: string;
     }>('/tickets/validate-qr', {
       method: 'POST',
-      body: JSON.stringify({ qrCode: code, eventId }),
+      body: JSON.stringify({ qrCode: code, eventId, sessionId }),
     });
   }
 
@@ -700,7 +828,8 @@ class ApiClient {
     });
   }
 
-  async scanQr(data: { qrCode: string; eventId: string }) {
+  // With a sessionId, the ticket is admitted to that session of a multi-day event
+  async scanQr(data: { qrCode: string; eventId: string; sessionId?: string }) {
     return this.request<{ 
       success: boolean; 
       ticket?: any; 
@@ -711,6 +840,18 @@ class ApiClient {
     });
   }
 
+  // Check a ticket out at the exit so it can re-enter later (re-entry tiers only)
+  async checkOutTicket(data: { qrCode: string; eventId: string }) {
+    return this.request<{
+      success: boolean;
+      ticket?: any;
+      message: string;
+    }>('/tickets/check-out', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
   // ==================== USER ====================
   /**
    * Update user role (for new OAuth users selecting their role)
@@ -840,6 +981,10 @@ class ApiClient {
     }
   }
 
+  async getOrganizerDisputes() {
+    return this.request<Dispute[]>('/disputes/organizer');
+  }
+
   async approveRefund(refundId: string) {
     return this.request<{ message: string }>(`/refunds/${refundId}/approve`, {
       method: 'POST',
@@ -926,10 +1071,14 @@ class ApiClient {
     );
   }
 
-  async getAdminRefunds(page = 1, limit = 20) {
-    return this.request<{ refunds: any[]; total: number; page: number; totalPages: number }>(
-      `/admin/refunds?page=${page}&limit=${limit}`
-    );
+  async getAdminRefunds(page = 1, limit = 20, status: RefundStatus | 'all' = 'all') {
+    return this.request<{
+      refunds: any[];
+      counts: Record<RefundStatus, number>;
+      total: number;
+      page: number;
+      totalPages: number;
+    }>(`/admin/refunds?page=${page}&limit=${limit}&status=${status}`);
   }
 
   async getAdminWithdrawals(page = 1, limit = 20) {
@@ -980,6 +1129,12 @@ class ApiClient {
     });
   }
 
+  async retryRefund(refundId: string) {
+    return this.request<{ message: string }>(`/admin/refunds/${refundId}/retry`, {
+      method: 'POST',
+    });
+  }
+
   async getOrganizersWithoutVirtualAccount() {
     return this.request<{
       organizers: any[];
@@ -1025,8 +1180,8 @@ class ApiClient {
         amount: number;
         status: string;
         buyerEmail: string;
-        monnifyTransactionRef?: string | null;
-        monnifyPaymentRef?: string | null;
+        providerTransactionRef?: string | null;
+        providerPaymentRef?: string | null;
         createdAt: string;
         paidAt?: string | null;
         event?: { id: string; title: string; organizerId: string } | null;
@@ -1109,6 +1264,85 @@ class ApiClient {
     });
   }
 
+  // ==================== ADMIN WEBHOOK INBOX ====================
+
+  async getWebhookDeliveries(filters: WebhookDeliveryFilters = {}) {
+    const qs = new URLSearchParams();
+    if (filters.page) qs.set('page', String(filters.page));
+    if (filters.limit) qs.set('limit', String(filters.limit));
+    if (filters.status) qs.set('status', filters.status);
+    if (filters.provider) qs.set('provider', filters.provider);
+    if (filters.search) qs.set('search', filters.search);
+
+    return this.request<{
+      deliveries: WebhookDelivery[];
+      counts: Record<WebhookDeliveryStatus, number>;
+      total: number;
+      page: number;
+      totalPages: number;
+    }>(`/admin/webhooks${qs.toString() ? `?${qs.toString()}` : ''}`);
+  }
+
+  async getWebhookDelivery(id: string) {
+    return this.request<WebhookDeliveryDetail>(`/admin/webhooks/${id}`);
+  }
+
+  async replayWebhookDelivery(id: string) {
+    return this.request<{ message: string; delivery: WebhookDeliveryDetail }>(
+      `/admin/webhooks/${id}/replay`,
+      { method: 'POST' },
+    );
+  }
+
+  // ==================== ADMIN DISPUTES ====================
+
+  async getAdminDisputes(page = 1, limit = 20, status: DisputeStatus | 'all' = 'all') {
+    const qs = new URLSearchParams({ page: String(page), limit: String(limit) });
+    if (status !== 'all') qs.set('status', status);
+
+    return this.request<{
+      disputes: Dispute[];
+      counts: Record<DisputeStatus, number>;
+      total: number;
+      page: number;
+      totalPages: number;
+    }>(`/admin/disputes?${qs.toString()}`);
+  }
+
+  async getAdminDispute(id: string) {
+    return this.request<Dispute>(`/admin/disputes/${id}`);
+  }
+
+  async openDispute(data: {
+    paymentReference: string;
+    reason: string;
+    amount?: number;
+    providerCaseRef?: string;
+    evidenceDueAt?: string;
+  }) {
+    return this.request<Dispute>('/admin/disputes', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async addDisputeEvidence(
+    id: string,
+    data: { description: string; fileUrl?: string; fileName?: string },
+  ) {
+    return this.request<DisputeEvidence>(`/admin/disputes/${id}/evidence`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async resolveDispute(id: string, outcome: 'WON' | 'LOST', note?: string) {
+    return this.request<Dispute>(`/admin/disputes/${id}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify({ outcome, note }),
+    });
+  }
+
   // ==================== ORGANIZER DASHBOARD & RECONCILIATION ====================
   
   /**
@@ -1173,6 +1407,7 @@ class ApiClient {
       period: { start: string; end: string };
       summary: {
         totalTicketSales: number;
+        totalOrders: number;
         totalRefunds: number;
         totalWithdrawals: number;
         platformFees: number;
@@ -1185,6 +1420,7 @@ class ApiClient {
       };
       transactions: {
         ticketSales: any[];
+        orders: any[];
         refunds: any[];
         withdrawals: any[];
       };
@@ -1211,40 +1447,548 @@ class ApiClient {
     }>(`/reconciliation/daily-summary${query}`);
   }
 
-  // ==================== AGENT METHODS ====================
+  // ==================== PROMO CODE METHODS ====================
 
   /**
-   * Create a new agent access code for an event (organizer only)
+   * Create a promo code for an event (organizer only)
+   */
+  async createPromoCode(eventId: string, data: PromoCodeInput) {
+    return this.request<PromoCode>(`/promo-codes/events/${eventId}/codes`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Get all promo codes for an event with redemption counts (organizer only)
+   */
+  async getEventPromoCodes(eventId: string) {
+    return this.request<PromoCode[]>(`/promo-codes/events/${eventId}/codes`);
+  }
+
+  /**
+   * Update a promo code or switch it on/off (organizer only)
+   */
+  async updatePromoCode(codeId: string, data: Partial<PromoCodeInput> & { isActive?: boolean }) {
+    return this.request<PromoCode>(`/promo-codes/codes/${codeId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete an unused promo code (organizer only)
    */
-  async createAgentCode(eventId: string, label?: string) {
+  async deletePromoCode(codeId: string) {
+    return this.request(`/promo-codes/codes/${codeId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Check a promo code and preview the discount (public - no auth required)
+   */
+  async validatePromoCode(
+    eventId: string,
+    code: string,
+    items: { tierId: string; quantity: number }[],
+    email?: string,
+  ) {
     return this.request<{
-      id: string;
+      valid: boolean;
       code: string;
-      label: string | null;
-      isActive: boolean;
-      checkInCount: number;
-      createdAt: string;
-      event: { id: string; title: string; slug: string };
-    }>(`/agents/events/${eventId}/codes`, {
+      discountAmount: number;
+      discountedQuantity: number;
+      subtotal: number;
+      discountedSubtotal: number;
+    }>('/promo-codes/validate', {
+      method: 'POST',
+      body: JSON.stringify({ eventId, code, items, email }),
+    });
+  }
+
+  // ==================== ACCESS CODE METHODS ====================
+
+  /**
+   * Create an access code for an event's hidden tiers (organizer only)
+   */
+  async createAccessCode(eventId: string, data: AccessCodeInput) {
+    return this.request<AccessCode>(`/access-codes/events/${eventId}/codes`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Get all access codes for an event with redemption counts (organizer only)
+   */
+  async getEventAccessCodes(eventId: string) {
+    return this.request<AccessCode[]>(`/access-codes/events/${eventId}/codes`);
+  }
+
+  /**
+   * Update an access code or switch it on/off (organizer only)
+   */
+  async updateAccessCode(codeId: string, data: Partial<AccessCodeInput> & { isActive?: boolean }) {
+    return this.request<AccessCode>(`/access-codes/codes/${codeId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete an unused access code (organizer only)
+   */
+  async deleteAccessCode(codeId: string) {
+    return this.request(`/access-codes/codes/${codeId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Check an access code and get the hidden tiers it unlocks (public - no auth required)
+   */
+  async unlockTiers(eventId: string, code: string) {
+    return this.request<{ code: string; label: string | null; tierIds: string[] }>(
+      '/access-codes/unlock',
+      {
+        method: 'POST',
+        body: JSON.stringify({ eventId, code }),
+      },
+    );
+  }
+
+  // ==================== GUEST LIST METHODS ====================
+
+  /**
+   * Issue complimentary tickets to one or more guests (organizer only)
+   */
+  async issueComps(eventId: string, data: CompOptions & { guests: GuestInput[] }) {
+    return this.request<IssueCompsResult>(`/guest-list/events/${eventId}/comps`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Issue complimentary tickets to every guest in a CSV file's contents (organizer only)
+   */
+  async importGuestList(eventId: string, data: CompOptions & { csv: string }) {
+    return this.request<IssueCompsResult>(`/guest-list/events/${eventId}/import`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Get the guest list for an event (organizer only)
+   */
+  async getGuestList(eventId: string) {
+    return this.request<EventGuestList>(`/guest-list/events/${eventId}`);
+  }
+
+  /**
+   * Cancel a guest's comp tickets (organizer only)
+   */
+  async revokeGuest(entryId: string) {
+    return this.request<{ cancelled: number; message: string }>(
+      `/guest-list/entries/${entryId}/revoke`,
+      { method: 'POST' },
+    );
+  }
+
+  // ==================== TRANSFER METHODS ====================
+
+  /**
+   * Send one of your tickets to someone else - they accept from an email link
+   */
+  async transferTicket(
+    ticketId: string,
+    data: { toEmail: string; toFirstName?: string; toLastName?: string },
+  ) {
+    return this.request<{ id: string; toEmail: string; expiresAt: string; message: string }>(
+      `/transfers/tickets/${ticketId}`,
+      { method: 'POST', body: JSON.stringify(data) },
+    );
+  }
+
+  /**
+   * Cancel a transfer that hasn't been accepted yet
+   */
+  async cancelTransfer(transferId: string) {
+    return this.request<{ message: string }>(`/transfers/${transferId}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Get transfers you've sent or received
+   */
+  async getMyTransfers() {
+    return this.request<MyTicketTransfer[]>('/transfers/mine');
+  }
+
+  /**
+   * Get the ticket offered by a transfer link (public - no auth required)
+   */
+  async getTransferOffer(token: string) {
+    return this.request<TransferOffer>(`/transfers/accept/${encodeURIComponent(token)}`);
+  }
+
+  /**
+   * Accept a ticket transfer (public - the link was sent to the recipient's email)
+   */
+  async acceptTransfer(token: string) {
+    return this.request<{ ticketNumber: string; hasAccount: boolean; message: string }>(
+      `/transfers/accept/${encodeURIComponent(token)}`,
+      { method: 'POST' },
+    );
+  }
+
+  /**
+   * Get the ticket transfer history for an event (organizer only)
+   */
+  async getEventTransfers(eventId: string) {
+    return this.request<TicketTransfer[]>(`/transfers/events/${eventId}`);
+  }
+
+  // ==================== RESALE METHODS ====================
+
+  /**
+   * List one of your tickets for resale, up to the organizer's price cap
+   */
+  async createResaleListing(ticketId: string, price: number) {
+    return this.request<ResaleListing & { message: string }>(`/resale/tickets/${ticketId}`, {
       method: 'POST',
-      body: JSON.stringify({ label }),
+      body: JSON.stringify({ price }),
     });
   }
 
+  /**
+   * Take a resale listing off the market
+   */
+  async cancelResaleListing(listingId: string) {
+    return this.request<{ message: string }>(`/resale/listings/${listingId}/cancel`, {
+      method: 'POST',
+    });
+  }
+
+  /**
+   * Get the resale listings you've created
+   */
+  async getMyResaleListings() {
+    return this.request<MyResaleListing[]>('/resale/mine');
+  }
+
+  /**
+   * Get tickets for sale on an event's resale marketplace (public - no auth required)
+   */
+  async getResaleListings(eventId: string) {
+    return this.request<PublicResaleListing[]>(`/resale/events/${eventId}`);
+  }
+
+  /**
+   * Start checkout for a resale ticket (supports guest checkout)
+   */
+  async purchaseResaleListing(listingId: string, guestEmail?: string) {
+    return this.request<{
+      isFree: false;
+      authorizationUrl: string;
+      reference: string;
+      paymentId: string;
+      holdExpiresAt: string;
+      totalAmount: number;
+    }>(`/resale/listings/${listingId}/purchase`, {
+      method: 'POST',
+      body: JSON.stringify({ guestEmail }),
+    });
+  }
+
+  // ==================== WAITLIST METHODS ====================
+
+  /**
+   * Join the waitlist for a sold-out tier (public - no auth required)
+   */
+  async joinWaitlist(data: {
+    eventId: string;
+    tierId: string;
+    email: string;
+    firstName?: string;
+    quantity?: number;
+  }) {
+    return this.request<{
+      id: string;
+      status: WaitlistStatus;
+      quantity: number;
+      position: number | null;
+      message: string;
+    }>('/waitlist/join', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Get the tickets reserved by a waitlist offer link (public - no auth required)
+   */
+  async getWaitlistOffer(token: string) {
+    return this.request<WaitlistOffer>(`/waitlist/offers/${encodeURIComponent(token)}`);
+  }
+
+  /**
+   * Get the waitlist for an event (organizer only)
+   */
+  async getEventWaitlist(eventId: string) {
+    return this.request<EventWaitlist>(`/waitlist/events/${eventId}`);
+  }
+
+  /**
+   * Download the waitlist for an event as a CSV file (organizer only)
+   */
+  async downloadEventWaitlist(eventId: string) {
+    return this.downloadFile(`/waitlist/events/${eventId}/export`, 'waitlist.csv');
+  }
+
+  /**
+   * Download a file the API sends as an attachment, using the filename it suggests
+   */
+  private async downloadFile(endpoint: string, fallbackFilename: string) {
+    const token = this.getToken();
+    const headers: Record<string, string> = {};
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${API_BASE}${endpoint}`, { headers });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      const errorData = error.data || error;
+      throw new Error(errorData.message || error.message || 'Download failed');
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="?([^";]+)"?/)?.[1] || fallbackFilename;
+
+    const blob = await response.blob();
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  // ==================== TICKET SIGNING METHODS ====================
+
+  /**
+   * Get the public keys that verify an event's ticket QR codes (public - no auth required)
+   */
+  async getEventSigningKeys(eventId: string) {
+    return this.request<EventSigningKey[]>(`/qr/events/${eventId}/keys`);
+  }
+
+  /**
+   * Rotate the key that signs an event's ticket QR codes (organizer only).
+   * Tickets already issued keep working; returns the event's keys after rotation.
+   */
+  async rotateEventSigningKey(eventId: string) {
+    return this.request<EventSigningKey[]>(`/qr/events/${eventId}/keys/rotate`, {
+      method: 'POST',
+    });
+  }
+
+  // ==================== SCAN LOG METHODS ====================
+
+  /**
+   * Get the scan log for an event, newest first (organizer only).
+   * Every check-in and validation attempt is recorded, including rejected and duplicate scans.
+   */
+  async getEventScans(eventId: string, filters: ScanLogFilters = {}) {
+    const query = new URLSearchParams(
+      Object.entries(filters)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)]),
+    ).toString();
+    return this.request<ScanLogPage>(`/scan-events/events/${eventId}${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * Stream live check-in stats for an event (organizer only), calling onSnapshot with each
+   * update. Resolves when the server ends the stream and rejects if the connection drops,
+   * so the caller decides when to reconnect; abort the signal to stop.
+   * Reads the stream with fetch, as EventSource can't send the Authorization header.
+   */
+  async streamLiveCheckIns(
+    eventId: string,
+    onSnapshot: (snapshot: LiveCheckInSnapshot) => void,
+    signal: AbortSignal,
+  ) {
+    const open = () => {
+      const token = this.getToken();
+      return fetch(`${API_BASE}/scan-events/events/${eventId}/live`, {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        signal,
+      });
+    };
+
+    let response = await open();
+    // The stream outlives the access token, so a reconnect may need a fresh one
+    if (response.status === 401 && (await this.tryRefreshToken())) {
+      response = await open();
+    }
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({}));
+      const errorData = error.data || error;
+      throw new Error(errorData.message || `Live updates failed with status ${response.status}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      // Messages are separated by a blank line; their payload is on the data: lines
+      buffer += value;
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() || '';
+      for (const message of messages) {
+        const lines = message.split('\n');
+        const type = lines.find((line) => line.startsWith('event:'))?.slice(6).trim();
+        const data = lines
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('\n');
+        if (!data) continue;
+        // Errors raised once the stream is open (e.g. not your event) arrive as an error message
+        if (type === 'error') throw new Error(data);
+        onSnapshot(JSON.parse(data));
+      }
+    }
+  }
+
+  // ==================== SESSION METHODS ====================
+
+  /**
+   * Get a multi-day event's sessions, with their tiers and admission counts (organizer only)
+   */
+  async getEventSessions(eventId: string) {
+    return this.request<EventSession[]>(`/sessions/events/${eventId}`);
+  }
+
+  /**
+   * Add a session (day or breakout) to an event (organizer only)
+   */
+  async createEventSession(eventId: string, data: EventSessionInput) {
+    return this.request<EventSession>(`/sessions/events/${eventId}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Update a session - passing tierIds replaces the tiers it admits (organizer only)
+   */
+  async updateEventSession(sessionId: string, data: Partial<EventSessionInput>) {
+    return this.request<EventSession>(`/sessions/${sessionId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete a session no ticket has been admitted to yet (organizer only)
+   */
+  async deleteEventSession(sessionId: string) {
+    return this.request<{ message: string }>(`/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // ==================== AGENT METHODS ====================
+
+  /**
+   * Create a new agent access code for an event (organizer only)
+   */
+  async createAgentCode(eventId: string, data: AgentCodeInput) {
+    return this.request<AgentCode & { event: { id: string; title: string; slug: string } }>(
+      `/agents/events/${eventId}/codes`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      },
+    );
+  }
+
   /**
    * Get all agent access codes for an event (organizer only)
    */
   async getEventAgentCodes(eventId: string) {
-    return this.request<Array<{
-      id: string;
-      code: string;
-      label: string | null;
-      isActive: boolean;
-      activatedAt: string | null;
-      lastUsedAt: string | null;
-      checkInCount: number;
-      createdAt: string;
-    }>>(`/agents/events/${eventId}/codes`);
+    return this.request<AgentCode[]>(`/agents/events/${eventId}/codes`);
+  }
+
+  /**
+   * Restrict an agent access code to a zone, or pass null to let it admit every tier (organizer only)
+   */
+  async setAgentCodeZone(codeId: string, zoneId: string | null) {
+    return this.request<AgentCode>(`/agents/codes/${codeId}/zone`, {
+      method: 'PATCH',
+      body: JSON.stringify({ zoneId }),
+    });
+  }
+
+  /**
+   * Change when an agent access code works, its PIN or device binding (organizer only).
+   * A new PIN or binding signs out every agent using the code.
+   */
+  async updateAgentCodeSecurity(codeId: string, data: AgentCodeSecurityInput) {
+    return this.request<AgentCode>(`/agents/codes/${codeId}/security`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Get an event's restricted zones and the tiers allowed into each (organizer only)
+   */
+  async getEventZones(eventId: string) {
+    return this.request<AgentZone[]>(`/agents/events/${eventId}/zones`);
+  }
+
+  /**
+   * Create a restricted zone, e.g. a VIP lounge (organizer only)
+   */
+  async createZone(eventId: string, data: AgentZoneInput) {
+    return this.request<AgentZone>(`/agents/events/${eventId}/zones`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Rename a zone or change the tiers allowed in (organizer only)
+   */
+  async updateZone(zoneId: string, data: Partial<AgentZoneInput>) {
+    return this.request<AgentZone>(`/agents/zones/${zoneId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete a zone no agent code is assigned to (organizer only)
+   */
+  async deleteZone(zoneId: string) {
+    return this.request<{ message: string }>(`/agents/zones/${zoneId}`, {
+      method: 'DELETE',
+    });
   }
 
   /**
@@ -1275,11 +2019,19 @@ class ApiClient {
   }
 
   /**
-   * Activate/verify an agent access code (public - no auth required)
+   * Activate/verify an agent access code (public - no auth required).
+   * Returns the session token scans are made with, or pinRequired if the code has a PIN
+   * and none was given.
    */
-  async activateAgentCode(code: string) {
+  async activateAgentCode(code: string, pin?: string, deviceId?: string) {
     return this.request<{
-      valid: boolean;
+      valid: false;
+      pinRequired: true;
+      message: string;
+    } | {
+      valid: true;
+      sessionToken: string;
+      sessionExpiresAt: string;
       event: {
         id: string;
         title: string;
@@ -1291,17 +2043,21 @@ class ApiClient {
         status: string;
       };
       label: string | null;
+      zone: { id: string; name: string } | null;
       checkInCount: number;
+      signingKeys: EventSigningKey[];
+      sessions: AgentSession[];
     }>('/agents/activate', {
       method: 'POST',
-      body: JSON.stringify({ code }),
+      body: JSON.stringify({ code, pin, deviceId }),
     });
   }
 
   /**
-   * Check in a ticket using agent access code (public - no auth required)
+   * Check in a ticket with an agent session token (public - no auth required).
+   * With a sessionId, the ticket is admitted to that session of a multi-day event.
    */
-  async agentCheckIn(qrCode: string, accessCode: string) {
+  async agentCheckIn(qrCode: string, agentToken: string, deviceId?: string, sessionId?: string) {
     return this.request<{
       success: boolean;
       message: string;
@@ -1314,12 +2070,53 @@ class ApiClient {
         checkedInAt?: string;
         checkedInBy?: string;
         status?: string;
+        answers?: { questionId: string; question: string; answer: string }[]; // Registration answers
       };
     }>('/agents/check-in', {
       method: 'POST',
-      body: JSON.stringify({ qrCode, accessCode }),
+      body: JSON.stringify({ qrCode, agentToken, deviceId, sessionId }),
+    });
+  }
+
+  /**
+   * Check a ticket out at the exit with an agent session token, so it can re-enter later
+   * (public - no auth required; re-entry tiers only)
+   */
+  async agentCheckOut(qrCode: string, agentToken: string, deviceId?: string) {
+    return this.request<{
+      success: boolean;
+      message: string;
+      ticket?: { ticketNumber: string; tierName: string; buyerName: string };
+    }>('/agents/check-out', {
+      method: 'POST',
+      body: JSON.stringify({ qrCode, agentToken, deviceId }),
+    });
+  }
+
+  /**
+   * Download the encrypted ticket manifest for offline scanning (public - no auth required)
+   */
+  async getOfflineManifest(agentToken: string) {
+    return this.request<EncryptedOfflineManifest>('/agents/offline-manifest', {
+      method: 'POST',
+      body: JSON.stringify({ agentToken }),
+    });
+  }
+
+  /**
+   * Sync check-ins queued while offline (public - no auth required).
+   * The earliest scan of a ticket wins; later ones come back as conflicts.
+   */
+  async syncOfflineCheckIns(agentToken: string, checkIns: QueuedCheckIn[], deviceId?: string) {
+    return this.request<OfflineSyncResult>('/agents/check-in/batch', {
+      method: 'POST',
+      body: JSON.stringify({
+        agentToken,
+        deviceId,
+        checkIns: checkIns.map(({ clientId, qrCode, scannedAt }) => ({ clientId, qrCode, scannedAt })),
+      }),
     });
   }
 }
 
-export const api = new ApiClient();
\ No newline at end of file
+export const api = new ApiClient();
\ No newline at end of file
@@ -28,6 +28,7 @@ export const TICKET_STATUS = {
   CHECKED_IN: 'CHECKED_IN',
   REFUNDED: 'REFUNDED',
   CANCELLED: 'CANCELLED',
+  FROZEN: 'FROZEN',
 } as const;
 
 export const USER_ROLES = {
@@ -0,0 +1,110 @@
+import type {
+  EncryptedOfflineManifest,
+  OfflineManifest,
+  OfflineManifestTicket,
+  QueuedCheckIn,
+} from '@/types';
+
+// Must match MANIFEST_KEY_INFO in the API's agents service
+const MANIFEST_KEY_INFO = 'hdticketdesk-offline-manifest';
+
+const MANIFEST_STORAGE_KEY = 'agentOfflineManifest';
+const QUEUE_STORAGE_KEY = 'agentOfflineQueue';
+const DEVICE_ID_STORAGE_KEY = 'agentDeviceId';
+
+function base64ToBytes(value: string): ArrayBuffer {
+  const binary = atob(value);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer;
+}
+
+function bytesToBase64Url(bytes: ArrayBuffer): string {
+  const binary = String.fromCharCode(...Array.from(new Uint8Array(bytes)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decrypt a downloaded manifest. The key is derived (HKDF-SHA256) from the access code,
+ * salted with the event id, exactly as the API encrypted it.
+ */
+export async function decryptManifest(
+  encrypted: EncryptedOfflineManifest,
+  accessCode: string,
+): Promise<OfflineManifest> {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(accessCode), 'HKDF', false, [
+    'deriveKey',
+  ]);
+  const key = await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(encrypted.eventId),
+      info: encoder.encode(MANIFEST_KEY_INFO),
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt'],
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(encrypted.iv) },
+    key,
+    base64ToBytes(encrypted.ciphertext),
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/** SHA-256 of a scanned code, in the form the manifest stores it */
+export async function hashQrCode(code: string): Promise<string> {
+  return bytesToBase64Url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code)));
+}
+
+/** Find a scanned QR code (or typed-in ticket number) in the manifest */
+export async function findManifestTicket(
+  manifest: OfflineManifest,
+  code: string,
+): Promise<OfflineManifestTicket | undefined> {
+  const qrHash = await hashQrCode(code);
+  const ticketNumber = code.toUpperCase();
+  return manifest.tickets.find(
+    (ticket) => ticket.qrHash === qrHash || ticket.ticketNumber === ticketNumber,
+  );
+}
+
+// The manifest is kept encrypted at rest and only decrypted in memory
+export function saveEncryptedManifest(manifest: EncryptedOfflineManifest) {
+  localStorage.setItem(MANIFEST_STORAGE_KEY, JSON.stringify(manifest));
+}
+
+export function loadEncryptedManifest(): EncryptedOfflineManifest | null {
+  const saved = localStorage.getItem(MANIFEST_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : null;
+}
+
+export function loadQueue(): QueuedCheckIn[] {
+  const saved = localStorage.getItem(QUEUE_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : [];
+}
+
+export function saveQueue(queue: QueuedCheckIn[]) {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+}
+
+export function clearOfflineData() {
+  localStorage.removeItem(MANIFEST_STORAGE_KEY);
+  localStorage.removeItem(QUEUE_STORAGE_KEY);
+}
+
+/** Stable id for this device, so synced check-ins can be traced back to it */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+export function newClientId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,87 @@
+import type { EventSigningKey } from '@/types';
+
+// Signed ticket QR payloads look like HD1.<base64url claims>.<base64url Ed25519 signature>
+const SIGNED_QR_PREFIX = 'HD1';
+
+export type TicketSignatureCheck =
+  | { status: 'valid'; ticketNumber: string }
+  | { status: 'invalid'; message: string }
+  | { status: 'unsigned' } // Legacy QR code or a typed-in ticket number
+  | { status: 'unverifiable' }; // Unknown key or no Ed25519 support - leave it to the server
+
+const importedKeys = new Map<string, Promise<CryptoKey | null>>();
+
+function base64UrlToBytes(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer;
+}
+
+function importPublicKey(signingKey: EventSigningKey): Promise<CryptoKey | null> {
+  let imported = importedKeys.get(signingKey.kid);
+  if (!imported) {
+    imported = crypto.subtle
+      .importKey('raw', base64UrlToBytes(signingKey.publicKey), { name: 'Ed25519' }, false, ['verify'])
+      .catch(() => null); // Browser without WebCrypto Ed25519
+    importedKeys.set(signingKey.kid, imported);
+  }
+  return imported;
+}
+
+/**
+ * Verify a scanned ticket QR code on the device, using the event's public signing keys.
+ * Only a definite forgery (bad signature, or a ticket for another event) is reported as
+ * invalid - everything else still goes to the server, which has the final say.
+ */
+export async function verifyTicketSignature(
+  code: string,
+  signingKeys: EventSigningKey[],
+  eventId?: string,
+): Promise<TicketSignatureCheck> {
+  if (!code.startsWith(`${SIGNED_QR_PREFIX}.`)) {
+    return { status: 'unsigned' };
+  }
+
+  const parts = code.split('.');
+  let claims: { k?: unknown; t?: unknown; e?: unknown };
+  try {
+    if (parts.length !== 3) throw new Error('Malformed');
+    claims = JSON.parse(new TextDecoder().decode(base64UrlToBytes(parts[1])));
+  } catch {
+    return { status: 'invalid', message: 'Malformed ticket QR code' };
+  }
+
+  if (typeof claims.k !== 'string' || typeof claims.t !== 'string' || typeof claims.e !== 'string') {
+    return { status: 'invalid', message: 'Malformed ticket QR code' };
+  }
+
+  if (eventId && claims.e !== eventId) {
+    return { status: 'invalid', message: 'This ticket is for a different event' };
+  }
+
+  // WebCrypto is only available on secure (HTTPS) pages
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return { status: 'unverifiable' };
+  }
+
+  // A key the device doesn't know yet may have been created after it was activated
+  const signingKey = signingKeys.find((key) => key.kid === claims.k);
+  const publicKey = signingKey ? await importPublicKey(signingKey) : null;
+  if (!publicKey) {
+    return { status: 'unverifiable' };
+  }
+
+  try {
+    const signatureValid = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      publicKey,
+      base64UrlToBytes(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+    );
+    return signatureValid
+      ? { status: 'valid', ticketNumber: claims.t }
+      : { status: 'invalid', message: 'Ticket QR code signature is invalid' };
+  } catch {
+    return { status: 'invalid', message: 'Ticket QR code signature is invalid' };
+  }
+}
@@ -50,9 +50,16 @@ export interface Event {
   gallery: string[];
   isFeatured: boolean;
   hideTicketSalesProgress?: boolean; // If true, hides ticket sales indicators from public views
+  allowTransfers?: boolean; // If false, ticket holders can't transfer tickets
+  resaleEnabled?: boolean; // If true, ticket holders can resell tickets on the platform
+  resaleMaxPricePercent?: number; // Highest resale price as a % of what the holder paid
+  resaleRoyaltyPercent?: number; // Organizer's cut of each resale
+  paymentProvider?: PaymentGateway | null; // Gateway buyers pay through; null uses the platform order with failover
+  maxTicketsPerOrder?: number;
   organizerId: string;
   organizer?: OrganizerProfile & { user?: User };
   tiers?: TicketTier[];
+  questions?: RegistrationQuestion[]; // Asked at checkout, in order
   _count?: {
     tickets: number;
   };
@@ -78,21 +85,84 @@ export interface TicketTier {
   price: number;
   capacity: number;
   sold: number;
+  held?: number; // Seats reserved by buyers completing checkout
+  available?: number; // capacity - sold - held
+  allHeld?: boolean; // Nothing on sale now, but held seats may be released
+  nextHoldReleaseAt?: string | null;
   refundEnabled: boolean;
+  isHidden?: boolean; // Only shown and sold with an access code
+  transferEnabled?: boolean; // If false, tickets of this tier can't be transferred
+  reentryEnabled?: boolean; // Ticket holders can check out at the exit and re-enter
+  maxEntriesPerDay?: number | null; // With re-entry: entries allowed per day (null = unlimited)
   sortOrder: number;
+  saleStartDate?: string | null; // Date and time when ticket sales open for this tier
   saleEndDate: string | null; // Date and time when ticket sales end for this tier
+  saleStatus?: 'NOT_STARTED' | 'ON_SALE' | 'ENDED';
+  pricePhases?: TierPricePhase[]; // Early bird / phased prices, in order
+  currentPrice?: number; // Today's price - the current phase's, or `price` once phases are over
+  currentPhase?: {
+    index: number;
+    name: string | null;
+    endsAt: string | null;
+    remaining: number | null; // Tickets left at this price (hidden if sales progress is hidden)
+    nextPrice: number | null;
+  } | null;
   eventId: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TierPricePhase {
+  name?: string | null;
+  price: number;
+  endsAt?: string | null; // Phase ends at this date...
+  untilSold?: number | null; // ...or once this many tickets of the tier are sold
+}
+
+export type QuestionType = 'TEXT' | 'SINGLE_SELECT' | 'MULTI_SELECT' | 'TSHIRT_SIZE' | 'DIETARY';
+
+export interface RegistrationQuestion {
+  id: string;
+  label: string;
+  type: QuestionType;
+  options: string[];
+  required: boolean;
+  perTicket: boolean; // Answered for every ticket rather than once per order
+  sortOrder: number;
+  tiers: { id: string; name: string }[]; // Asked for these tiers only (empty = every tier)
+}
+
+// A question as saved from the event form - tiers are named, as they may not exist yet
+export interface RegistrationQuestionInput {
+  id?: string;
+  label: string;
+  type: QuestionType;
+  options?: string[];
+  required?: boolean;
+  perTicket?: boolean;
+  tierNames?: string[];
+}
+
+// An answer given at checkout - per-ticket answers name the tier and the ticket's position in it
+export interface RegistrationAnswerInput {
+  questionId: string;
+  tierId?: string;
+  ticketIndex?: number;
+  values: string[];
+}
+
+export interface TicketAnswer {
+  values: string[];
+  question: { id: string; label: string };
+}
+
 // ==================== TICKET TYPES ====================
 export interface Ticket {
   id: string;
   ticketNumber: string;
   qrCode: string;
   qrCodeUrl: string | null;
-  status: 'ACTIVE' | 'CHECKED_IN' | 'CANCELLED' | 'REFUNDED' | 'EXPIRED';
+  status: 'ACTIVE' | 'CHECKED_IN' | 'CANCELLED' | 'REFUNDED' | 'EXPIRED' | 'FROZEN';
   checkedInAt: string | null;
   buyerEmail: string;
   buyerFirstName: string | null;
@@ -103,22 +173,40 @@ export interface Ticket {
   eventId: string;
   tierId: string;
   buyerId: string | null;
-  paymentId: string;
+  paymentId: string | null; // Null for comp tickets
+  isComp?: boolean; // Complimentary ticket issued by the organizer
   event?: Event;
   tier?: TicketTier;
+  transfers?: TicketTransferSummary[]; // Pending transfers (my tickets) or accepted ones (attendee list)
+  resaleListings?: TicketResaleSummary[]; // Open or sold resale listings (my tickets)
+  answers?: TicketAnswer[]; // Registration questions answered at checkout
   createdAt: string;
   updatedAt: string;
 }
 
+// Filters for the attendee list download - dates are ISO instants, each bound inclusive
+export interface AttendeeExportFilters {
+  format?: 'csv' | 'xlsx';
+  tierId?: string;
+  status?: Ticket['status'];
+  purchasedFrom?: string;
+  purchasedTo?: string;
+  checkedInFrom?: string;
+  checkedInTo?: string;
+}
+
 // ==================== PAYMENT TYPES ====================
+export type PaymentGateway = 'MONNIFY' | 'PAYSTACK';
+
 export interface Payment {
   id: string;
   reference: string;
   amount: number;
   status: 'PENDING' | 'SUCCESS' | 'FAILED';
   buyerEmail: string;
-  monnifyTransactionRef: string | null;
-  monnifyPaymentRef: string | null;
+  provider: PaymentGateway;
+  providerTransactionRef: string | null;
+  providerPaymentRef: string | null;
   paidAt: string | null;
   eventId: string;
   tierId: string;
@@ -130,12 +218,477 @@ export interface Payment {
   updatedAt: string;
 }
 
+// ==================== PROMO CODE TYPES ====================
+export interface PromoCodeInput {
+  code: string;
+  discountType: 'PERCENTAGE' | 'FIXED';
+  discountValue: number; // Percent (1-100) or naira off each ticket
+  tierIds?: string[]; // Empty for every tier
+  maxUses?: number;
+  maxUsesPerBuyer?: number;
+  minQuantity?: number;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export interface PromoCode extends PromoCodeInput {
+  id: string;
+  tierIds: string[];
+  isActive: boolean;
+  eventId: string;
+  // Paid orders only
+  redemptions?: number;
+  ticketsDiscounted?: number;
+  totalDiscount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ==================== ACCESS CODE TYPES ====================
+export interface AccessCodeInput {
+  code?: string; // Generated when left empty
+  label?: string;
+  tierIds?: string[]; // Empty for every hidden tier
+  maxTickets?: number;
+  maxTicketsPerBuyer?: number;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export interface AccessCode extends Omit<AccessCodeInput, 'label'> {
+  id: string;
+  code: string;
+  label: string | null;
+  tierIds: string[];
+  isActive: boolean;
+  eventId: string;
+  // Paid orders only
+  redemptions?: number;
+  ticketsIssued?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ==================== GUEST LIST TYPES ====================
+export interface GuestInput {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  quantity?: number;
+}
+
+export interface CompOptions {
+  tierId: string;
+  countTowardCapacity?: boolean; // Default true - false issues comps on top of capacity
+  note?: string;
+}
+
+export interface GuestListEntry {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  quantity: number;
+  note: string | null;
+  countsTowardCapacity: boolean;
+  revokedAt: string | null;
+  tierId: string;
+  tierName: string;
+  tickets: { id: string; ticketNumber: string; status: Ticket['status']; checkedInAt: string | null }[];
+  createdAt: string;
+}
+
+export interface EventGuestList {
+  guests: number;
+  ticketsIssued: number;
+  checkedIn: number;
+  entries: GuestListEntry[];
+}
+
+export interface IssueCompsResult {
+  guests: number;
+  ticketsIssued: number;
+  failed: { email: string; reason: string }[];
+  message: string;
+}
+
+// ==================== TRANSFER TYPES ====================
+export type TransferStatus = 'PENDING' | 'ACCEPTED' | 'CANCELLED' | 'EXPIRED';
+
+export interface TicketTransferSummary {
+  id?: string;
+  fromEmail?: string;
+  fromName?: string | null;
+  toEmail: string;
+  toFirstName: string | null;
+  toLastName?: string | null;
+  oldTicketNumber?: string;
+  newTicketNumber?: string | null;
+  expiresAt?: string;
+  acceptedAt?: string | null;
+}
+
+export interface TicketTransfer {
+  id: string;
+  status: TransferStatus;
+  fromEmail: string;
+  fromName: string | null;
+  fromUserId: string | null;
+  toEmail: string;
+  toFirstName: string | null;
+  toLastName: string | null;
+  toUserId: string | null;
+  oldTicketNumber: string;
+  newTicketNumber: string | null;
+  expiresAt: string;
+  acceptedAt: string | null;
+  cancelledAt: string | null;
+  ticketId: string;
+  eventId: string;
+  tierName: string;
+  createdAt: string;
+}
+
+export interface MyTicketTransfer extends TicketTransfer {
+  direction: 'SENT' | 'RECEIVED';
+  eventTitle: string;
+  eventSlug: string;
+  eventDate: string | null;
+  token?: string; // Received transfers that can still be accepted
+}
+
+export interface TransferOffer {
+  status: TransferStatus;
+  fromName: string;
+  toEmail: string;
+  toFirstName: string | null;
+  expiresAt: string;
+  acceptedAt: string | null;
+  eventTitle: string;
+  eventSlug: string;
+  eventDate: string | null;
+  eventLocation: string | null;
+  tierName: string;
+}
+
+// ==================== RESALE TYPES ====================
+export type ResaleStatus = 'ACTIVE' | 'RESERVED' | 'SOLD' | 'CANCELLED';
+
+export interface TicketResaleSummary {
+  id: string;
+  status: ResaleStatus;
+  price: number;
+  payoutAmount: number;
+  soldAt: string | null;
+  paidOutAt: string | null;
+}
+
+export interface ResaleListing {
+  id: string;
+  status: ResaleStatus;
+  price: number;
+  resaleFee: number;
+  royalty: number;
+  payoutAmount: number;
+  soldAt: string | null;
+  cancelledAt: string | null;
+  paidOutAt: string | null;
+  ticketId: string;
+  eventId: string;
+  createdAt: string;
+}
+
+export interface MyResaleListing extends ResaleListing {
+  eventTitle: string;
+  eventSlug: string;
+  eventDate: string | null;
+  tierName: string;
+}
+
+// A ticket for sale on an event's resale marketplace
+export interface PublicResaleListing {
+  id: string;
+  price: number;
+  createdAt: string;
+  tierId: string;
+  tierName: string;
+  tierPrice: number;
+}
+
+// ==================== WAITLIST TYPES ====================
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'CLAIMED' | 'EXPIRED' | 'REMOVED';
+
+export interface WaitlistEntry {
+  id: string;
+  email: string;
+  firstName: string | null;
+  tierId: string;
+  tierName: string;
+  quantity: number;
+  status: WaitlistStatus;
+  joinedAt: string;
+  offeredAt: string | null;
+  offerExpiresAt: string | null;
+  claimedAt: string | null;
+}
+
+export interface WaitlistTierStats {
+  tierId: string;
+  name?: string;
+  waiting: number;
+  ticketsWanted: number;
+  offered: number;
+  claimed: number;
+}
+
+export interface EventWaitlist {
+  waiting: number;
+  ticketsWanted: number;
+  offered: number;
+  claimed: number;
+  tiers: WaitlistTierStats[];
+  entries: WaitlistEntry[];
+}
+
+export interface WaitlistOffer {
+  eventId: string;
+  eventSlug: string;
+  eventTitle: string;
+  tierId: string;
+  tierName: string;
+  email: string;
+  quantity: number;
+  offerExpiresAt: string;
+}
+
+// ==================== TICKET SIGNING TYPES ====================
+export interface EventSigningKey {
+  kid: string;
+  generation: number;
+  publicKey: string; // Raw Ed25519 public key, base64url encoded
+  retiredAt: string | null;
+  createdAt: string;
+}
+
+// ==================== AGENT CODE TYPES ====================
+// An agent access code as organizers manage it
+export interface AgentCode {
+  id: string;
+  code: string;
+  label: string | null;
+  isActive: boolean;
+  activatedAt: string | null;
+  lastUsedAt: string | null;
+  checkInCount: number;
+  createdAt: string;
+  zone: { id: string; name: string } | null;
+  validFrom: string | null; // null: from 24 hours before the event
+  validUntil: string | null; // null: until 24 hours after the event
+  hasPin: boolean;
+  bindDevice: boolean;
+  boundDeviceId: string | null;
+}
+
+export interface AgentCodeInput {
+  label?: string;
+  zoneId?: string;
+  validFrom?: string;
+  validUntil?: string;
+  pin?: string;
+  bindDevice?: boolean;
+}
+
+// Omitted fields are left as they are; null clears them
+export interface AgentCodeSecurityInput {
+  validFrom?: string | null;
+  validUntil?: string | null;
+  pin?: string | null;
+  bindDevice?: boolean;
+  resetDevice?: boolean;
+}
+
+// ==================== ZONE TYPES ====================
+// A restricted area (VIP lounge, backstage, ...) - agent codes assigned to it only admit its tiers
+export interface AgentZone {
+  id: string;
+  name: string;
+  tiers: { id: string; name: string }[];
+  agentCodeCount: number;
+}
+
+export interface AgentZoneInput {
+  name: string;
+  tierIds: string[];
+}
+
+// ==================== OFFLINE CHECK-IN TYPES ====================
+// Manifest as downloaded - AES-GCM encrypted with a key derived from the agent access code
+export interface EncryptedOfflineManifest {
+  eventId: string;
+  generatedAt: string;
+  ticketCount: number;
+  iv: string; // base64
+  ciphertext: string; // base64, auth tag appended
+  signingKeys: EventSigningKey[];
+}
+
+export interface OfflineManifestTicket {
+  ticketNumber: string;
+  qrHash: string; // SHA-256 of the ticket's QR code, base64url
+  tierName: string;
+  buyerName: string;
+  checkedInAt: string | null;
+  checkedInBy: string | null;
+  zoneRefusal?: string | null; // Set when the agent code's zone doesn't admit the ticket's tier
+}
+
+export interface OfflineManifest {
+  eventId: string;
+  generatedAt: string;
+  tickets: OfflineManifestTicket[];
+}
+
+export interface QueuedCheckIn {
+  clientId: string;
+  qrCode: string;
+  scannedAt: string;
+  ticketNumber: string;
+}
+
+export type OfflineCheckInStatus = 'CHECKED_IN' | 'CONFLICT' | 'REJECTED';
+
+export interface OfflineCheckInResult {
+  clientId: string;
+  status: OfflineCheckInStatus;
+  message: string;
+  ticket?: { ticketNumber: string; tierName: string; buyerName: string };
+  checkedInAt?: string | null;
+  checkedInBy?: string | null;
+}
+
+export interface OfflineSyncResult {
+  synced: number;
+  checkedIn: number;
+  conflicts: number;
+  rejected: number;
+  results: OfflineCheckInResult[];
+}
+
+// ==================== SCAN LOG TYPES ====================
+export type ScanAction = 'VALIDATE' | 'CHECK_IN' | 'CHECK_OUT';
+
+export type ScanResult = 'ACCEPTED' | 'DUPLICATE' | 'REJECTED';
+
+export type ScanSource = 'ORGANIZER' | 'AGENT' | 'AGENT_OFFLINE';
+
+export interface ScanEvent {
+  id: string;
+  scannedAt: string;
+  action: ScanAction;
+  result: ScanResult;
+  reason: string | null;
+  source: ScanSource;
+  scannedValue: string;
+  gate: string | null;
+  deviceId: string | null;
+  userAgent: string | null;
+  ticketNumber: string | null;
+  agentCode: { id: string; code: string; label: string | null } | null;
+  session: { id: string; name: string } | null;
+  ticket: {
+    status: string;
+    buyerFirstName: string | null;
+    buyerLastName: string | null;
+    buyerEmail: string;
+    tier: { name: string };
+  } | null;
+}
+
+export interface ScanLogFilters {
+  page?: number;
+  limit?: number;
+  ticketNumber?: string;
+  result?: ScanResult;
+  agentCodeId?: string;
+  sessionId?: string;
+}
+
+export interface ScanLogPage {
+  scans: ScanEvent[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+// Live door stats, streamed to the analytics page while the event is on
+export interface LiveCheckInSnapshot {
+  generatedAt: string;
+  totals: {
+    tickets: number;
+    checkedIn: number;
+    acceptedScans: number;
+    duplicateScans: number;
+    rejectedScans: number;
+  };
+  tiers: { id: string; name: string; tickets: number; checkedIn: number }[];
+  agents: {
+    id: string;
+    code: string;
+    label: string | null;
+    isActive: boolean;
+    checkInCount: number;
+    lastUsedAt: string | null;
+  }[];
+  scansPerMinute: { minute: string; accepted: number; rejected: number }[]; // Oldest first
+  recentRejections: {
+    scannedAt: string;
+    ticketNumber: string | null;
+    reason: string | null;
+    gate: string | null;
+  }[];
+}
+
+// ==================== SESSION TYPES ====================
+// A day or breakout of a multi-day event - tickets are admitted to each one separately
+export interface EventSession {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  sortOrder: number;
+  tiers: { id: string; name: string }[]; // Tiers with no sessions of their own admit to every session
+  admissionCount: number;
+}
+
+export interface EventSessionInput {
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  tierIds?: string[];
+  sortOrder?: number;
+}
+
+// What an agent's device is told about each session when it activates
+export type AgentSession = Pick<EventSession, 'id' | 'name' | 'startsAt' | 'endsAt'>;
+
 // ==================== REFUND TYPES ====================
+export type RefundStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'REJECTED'
+  | 'PROCESSING'
+  | 'PROCESSED'
+  | 'FAILED';
+
 export interface Refund {
   id: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'PROCESSED';
+  status: RefundStatus;
   reason: string | null;
   rejectionNote: string | null;
+  failureReason: string | null;
+  attempts: number;
+  submittedAt: string | null;
+  completedAt: string | null;
   refundAmount: number;
   ticketId: string;
   requesterId: string;
@@ -147,6 +700,48 @@ export interface Refund {
   updatedAt: string;
 }
 
+// ==================== DISPUTE TYPES ====================
+export type DisputeStatus = 'OPEN' | 'WON' | 'LOST';
+
+export interface DisputeEvidence {
+  id: string;
+  description: string;
+  fileUrl: string | null;
+  fileName: string | null;
+  addedBy: string;
+  disputeId: string;
+  createdAt: string;
+}
+
+export interface Dispute {
+  id: string;
+  status: DisputeStatus;
+  reason: string;
+  amount: number;
+  providerCaseRef: string | null;
+  evidenceDueAt: string | null;
+  openedBy: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+  paymentId: string;
+  organizerId: string;
+  payment?: {
+    reference: string;
+    amount: number;
+    buyerEmail?: string;
+    provider?: PaymentGateway;
+    paidAt?: string | null;
+    event?: Pick<Event, 'id' | 'title'>;
+    tickets?: Array<Pick<Ticket, 'id' | 'ticketNumber' | 'status' | 'buyerEmail'>>;
+  };
+  organizer?: Pick<OrganizerProfile, 'id' | 'title'>;
+  evidence?: DisputeEvidence[];
+  _count?: { evidence: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
 // ==================== WITHDRAWAL TYPES ====================
 export interface Withdrawal {
   id: string;
@@ -156,9 +751,10 @@ export interface Withdrawal {
   bankCode: string;
   accountNumber: string;
   accountName: string;
-  monnifyTransferRef: string | null;
-  monnifyTransferCode: string | null;
-  monnifyTransferStatus: string | null;
+  provider: PaymentGateway;
+  providerTransferRef: string | null;
+  providerTransferCode: string | null;
+  providerTransferStatus: string | null;
   failureReason: string | null;
   processedAt: string | null;
   organizerId: string;
@@ -185,7 +781,16 @@ export interface VirtualAccount {
 // ==================== LEDGER TYPES ====================
 export interface LedgerEntry {
   id: string;
-  type: 'TICKET_SALE' | 'REFUND' | 'WITHDRAWAL' | 'CHARGEBACK' | 'ADJUSTMENT';
+  type:
+    | 'TICKET_SALE'
+    | 'REFUND'
+    | 'WITHDRAWAL'
+    | 'CHARGEBACK'
+    | 'ADJUSTMENT'
+    | 'COMP'
+    | 'RESALE_ROYALTY'
+    | 'RESALE_FEE'
+    | 'CHARGEBACK_FEE';
   amount: number;
   description: string | null;
   pendingBalanceAfter: number;
@@ -197,6 +802,47 @@ export interface LedgerEntry {
   createdAt: string;
 }
 
+// ==================== WEBHOOK INBOX TYPES ====================
+export type WebhookDeliveryStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'PROCESSED'
+  | 'FAILED'
+  | 'IGNORED'
+  | 'REJECTED';
+
+export interface WebhookDelivery {
+  id: string;
+  createdAt: string;
+  provider: PaymentGateway;
+  eventType: string;
+  eventKey: string | null;
+  ipAddress: string;
+  signatureValid: boolean;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  processedAt: string | null;
+  duplicateCount: number;
+  lastReceivedAt: string;
+  replayedBy: string | null;
+}
+
+export interface WebhookDeliveryDetail extends WebhookDelivery {
+  rawBody: string;
+  body: any;
+  headers: Record<string, string | string[]>;
+}
+
+export interface WebhookDeliveryFilters {
+  page?: number;
+  limit?: number;
+  status?: WebhookDeliveryStatus | 'all';
+  provider?: PaymentGateway | 'all';
+  search?: string;
+}
+
 // ==================== API RESPONSE TYPES ====================
 export interface PaginatedResponse<T> {
   data: T[];
@@ -297,4 +943,4 @@ export interface EventAnalytics {
     checkedIn: number;
     percentage: number;
   };
-}
\ No newline at end of file
+}
\ No newline at end of file